@@ -5,11 +5,33 @@
  * Unauthorized reproduction or distribution is prohibited.
  */
 
+import { HTTP_INTERCEPTORS, provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
 import { ApplicationConfig, provideBrowserGlobalErrorListeners } from '@angular/core';
 import { provideRouter } from '@angular/router';
+import {
+  ApiPrefixInterceptor,
+  DedupeInterceptor,
+  MockBackendInterceptor,
+  RequestTracingInterceptor,
+  RetryInterceptor,
+} from '@talent-hub/core/interceptors';
+import { provideApiBaseUrl, provideMockBackendConfig } from '@talent-hub/core/tokens';
 
 import { routes } from './app.routes';
+import { environment } from '../environments/environment';
 
 export const appConfig: ApplicationConfig = {
-  providers: [provideBrowserGlobalErrorListeners(), provideRouter(routes)],
+  providers: [
+    provideBrowserGlobalErrorListeners(),
+    provideRouter(routes),
+    provideApiBaseUrl(environment.baseUrl),
+    // Serves the src/mocks fixtures when running in development mode
+    provideMockBackendConfig({ fixtures: ['audit-events'] }),
+    provideHttpClient(withInterceptorsFromDi()),
+    { provide: HTTP_INTERCEPTORS, useClass: ApiPrefixInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: DedupeInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: RequestTracingInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: RetryInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true },
+  ],
 };
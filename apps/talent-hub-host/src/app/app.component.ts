@@ -5,13 +5,30 @@
  * Unauthorized reproduction or distribution is prohibited.
  */
 
-import { Component } from '@angular/core';
+import { Component, inject, isDevMode } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 
+import { GlobalErrorHandler } from '@talent-hub/core/services';
+import {
+  ErrorScreenComponent,
+  EventInspectorComponent,
+  IdleWarningComponent,
+  NotificationCenterComponent,
+} from '@talent-hub/ui/components';
+
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [
+    ErrorScreenComponent,
+    EventInspectorComponent,
+    IdleWarningComponent,
+    NotificationCenterComponent,
+    RouterOutlet,
+  ],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss',
 })
-export class AppComponent {}
+export class AppComponent {
+  protected readonly errorHandler: GlobalErrorHandler = inject(GlobalErrorHandler);
+  protected readonly isDevMode: boolean = isDevMode();
+}
@@ -5,16 +5,98 @@
  * Unauthorized reproduction or distribution is prohibited.
  */
 
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, isDevMode } from '@angular/core';
+import { HTTP_INTERCEPTORS, provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
+import {
+  ApplicationConfig,
+  effect,
+  ErrorHandler,
+  inject,
+  isDevMode,
+  provideAppInitializer,
+  provideBrowserGlobalErrorListeners,
+  untracked,
+} from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideServiceWorker } from '@angular/service-worker';
 
+import {
+  AuthService,
+  BreadcrumbService,
+  EventBusBridgeService,
+  EventBusInspectorService,
+  FeatureFlagService,
+  GlobalErrorHandler,
+  IdleService,
+  NotificationCenterService,
+  OidcService,
+  OutboxService,
+  PerformanceMonitorService,
+} from '@talent-hub/core/services';
+import { MockBackendInterceptor } from '@talent-hub/core/interceptors';
+import {
+  provideEventBusBridgeConfig,
+  provideMockIdentityProvider,
+  provideOutboxConfig,
+} from '@talent-hub/core/tokens';
+
 import { routes } from './app.routes';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
+    { provide: ErrorHandler, useExisting: GlobalErrorHandler },
     provideRouter(routes),
+    // Signs in tenants whose OIDC issuer is /mocks/oidc when running in development mode
+    provideMockIdentityProvider(),
+    provideHttpClient(withInterceptorsFromDi()),
+    { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true },
+    // Keep candidate lists and dashboards in other tabs of the tenant up to date
+    provideEventBusBridgeConfig({ keys: ['th:candidate.*'] }),
+    // Queue mutations made without network and send them once it is back
+    provideOutboxConfig({ enabled: true }),
+    provideAppInitializer(() => {
+      // Sign the user of the last page load back in before the guards of the first navigation
+      // run; OIDC sessions are renewed at the tenant's identity provider
+      const oidc = inject(OidcService);
+      oidc.restoreSession();
+      // Renew at the identity provider of the tenant once it is loaded or switched
+      effect(() => {
+        oidc.isEnabled();
+        untracked(() => oidc.initialize());
+      });
+    }),
+    provideAppInitializer(() => {
+      inject(NotificationCenterService).start();
+      inject(BreadcrumbService).start();
+      inject(PerformanceMonitorService).start();
+      inject(EventBusBridgeService).start();
+      inject(FeatureFlagService).start();
+      inject(OutboxService).start();
+      // Records nothing in production builds
+      inject(EventBusInspectorService).start();
+    }),
+    provideAppInitializer(() => {
+      // Sign out inactive users: activity is watched from sign-in until the session ends
+      const auth = inject(AuthService);
+      const idle = inject(IdleService);
+      effect(() => {
+        const authenticated: boolean = auth.isAuthenticated();
+        untracked(() => (authenticated ? idle.start() : idle.stop()));
+      });
+    }),
+    provideAppInitializer(() => {
+      // Send the changes queued while signed out, or before a 401, once the user signs in again
+      const auth = inject(AuthService);
+      const outbox = inject(OutboxService);
+      let wasAuthenticated: boolean = auth.isAuthenticated();
+      effect(() => {
+        const authenticated: boolean = auth.isAuthenticated();
+        if (authenticated && !wasAuthenticated) {
+          untracked(() => outbox.replay());
+        }
+        wasAuthenticated = authenticated;
+      });
+    }),
     provideServiceWorker('ngsw-worker.js', {
       enabled: !isDevMode(),
       registrationStrategy: 'registerWhenStable:30000',
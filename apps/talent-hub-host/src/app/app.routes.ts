@@ -5,45 +5,62 @@
  * Unauthorized reproduction or distribution is prohibited.
  */
 
+import { isDevMode } from '@angular/core';
 import { Routes } from '@angular/router';
 import { loadRemoteModule } from '@angular-architects/native-federation';
+import { mockIdentityProviderGuard, oidcCallbackGuard } from '@talent-hub/core/guards';
 
 export const routes: Routes = [
+  // Redirect URI of the tenant's OIDC identity provider
+  { path: 'auth/callback', canActivate: [oidcCallbackGuard], children: [] },
+  // Authorization endpoint of the mock identity provider, opened by OidcService.signIn()
+  ...(isDevMode()
+    ? [{ path: 'mocks/oidc/authorize', canActivate: [mockIdentityProviderGuard], children: [] }]
+    : []),
   {
     path: 'users',
+    data: { remote: 'talent-hub-user' },
     loadChildren: () => loadRemoteModule('talent-hub-user', './routes').then((m) => m.routes),
   },
   {
     path: 'dashboard',
+    data: { remote: 'talent-hub-dashboard' },
     loadChildren: () => loadRemoteModule('talent-hub-dashboard', './routes').then((m) => m.routes),
   },
   {
     path: 'requisitions',
+    data: { remote: 'talent-hub-requisition' },
     loadChildren: () =>
       loadRemoteModule('talent-hub-requisition', './routes').then((m) => m.routes),
   },
   {
     path: 'interviews',
+    data: { remote: 'talent-hub-interview' },
     loadChildren: () => loadRemoteModule('talent-hub-interview', './routes').then((m) => m.routes),
   },
   {
     path: 'candidates',
+    data: { remote: 'talent-hub-candidate' },
     loadChildren: () => loadRemoteModule('talent-hub-candidate', './routes').then((m) => m.routes),
   },
   {
     path: 'assessment',
+    data: { remote: 'talent-hub-assessment' },
     loadChildren: () => loadRemoteModule('talent-hub-assessment', './routes').then((m) => m.routes),
   },
   {
     path: 'onboarding',
+    data: { remote: 'talent-hub-onboarding' },
     loadChildren: () => loadRemoteModule('talent-hub-onboarding', './routes').then((m) => m.routes),
   },
   {
     path: 'audit',
+    data: { remote: 'talent-hub-audit' },
     loadChildren: () => loadRemoteModule('talent-hub-audit', './routes').then((m) => m.routes),
   },
   {
     path: 'reports',
+    data: { remote: 'talent-hub-report' },
     loadChildren: () => loadRemoteModule('talent-hub-report', './routes').then((m) => m.routes),
   },
 ];
@@ -217,10 +217,16 @@ export const APP_CONSTANT = {
    * **Available Keys:**
    * - `HTTP_ERROR` - Published when an HTTP error occurs (4xx, 5xx responses).
    * - `HTTP_UNKNOWN_ERROR` - Published when an unknown/unexpected error occurs.
+   * - `NOTIFICATION_SHOW` - Published to show a notification from any remote.
    *
    * **Naming Convention:**
    * - Prefix: `th:` (Talent Hub namespace)
    * - Format: `th:{category}.{event}` (e.g., `th:http.error`)
+   * - Namespaces can be subscribed to with a wildcard (e.g., `th:outbox.*`).
+   *
+   * **Payloads:**
+   * The payload of each key is declared in `EventCatalog`, so subscribers receive typed
+   * data and publishers cannot send the wrong payload.
    *
    * @example
    * ```typescript
@@ -231,10 +237,10 @@ export const APP_CONSTANT = {
    *   }
    * });
    *
-   * // Publish an HTTP error (typically done by ErrorHandlingInterceptor)
-   * eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR, {
-   *   status: 500,
-   *   message: 'Internal Server Error',
+   * // Show a notification from a remote
+   * eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.NOTIFICATION_SHOW, {
+   *   severity: 'success',
+   *   message: 'Candidate saved',
    * });
    * ```
    */
@@ -243,9 +249,9 @@ export const APP_CONSTANT = {
      * Event key for HTTP errors (HttpErrorResponse).
      *
      * Published by `ErrorHandlingInterceptor` when an HTTP request fails
-     * with a 4xx or 5xx status code.
+     * with a 4xx or 5xx status code, or a network error (status 0).
      *
-     * **Payload:** `{ status, message, error, url, method, requestUrl }`
+     * **Payload:** `ApiError` - `{ status, code, message, fieldErrors, correlationId, requestId, traceId, ... }`
      */
     HTTP_ERROR: 'th:http.error',
 
@@ -255,8 +261,40 @@ export const APP_CONSTANT = {
      * Published by `ErrorHandlingInterceptor` when an unexpected error
      * occurs that is not an `HttpErrorResponse`.
      *
-     * **Payload:** `{ error }`
+     * **Payload:** `{ error, requestId, traceId }`
      */
     HTTP_UNKNOWN_ERROR: 'th:http.unknown.error',
+
+    /**
+     * Event key for queued mutations rejected with a conflict on replay.
+     *
+     * Published by `OutboxService` when the server answers a replayed mutation with
+     * 409 Conflict or 412 Precondition Failed. The mutation is removed from the outbox;
+     * the UI decides how to resolve the conflict.
+     *
+     * **Payload:** `OutboxFailure` - `{ entry, status, error }`
+     */
+    OUTBOX_CONFLICT: 'th:outbox.conflict',
+
+    /**
+     * Event key for queued mutations rejected by the server on replay.
+     *
+     * Published by `OutboxService` when the server answers a replayed mutation with
+     * another client error (e.g., 400, 403, 404, 422). The mutation is removed from the
+     * outbox.
+     *
+     * **Payload:** `OutboxFailure` - `{ entry, status, error }`
+     */
+    OUTBOX_FAILED: 'th:outbox.failed',
+
+    /**
+     * Event key for showing a notification (toast) to the user.
+     *
+     * Handled by `NotificationCenterService` in the host, so remotes can show notifications
+     * without importing the host or the service.
+     *
+     * **Payload:** `NotificationRequest` - `{ message, severity?, title?, actions?, duration?, dedupeKey? }`
+     */
+    NOTIFICATION_SHOW: 'th:notification.show',
   },
 } as const;
@@ -21,12 +21,15 @@ const getRoute = (data?: Record<string, unknown>) => ({ data }) as any;
 const rootInjector = createEnvironmentInjector([], createEnvironmentInjector([], {} as any));
 
 describe('authGuard', () => {
-  let mockAuthService: { isAuthenticated: ReturnType<typeof vi.fn> };
+  let mockAuthService: {
+    isAuthenticated: ReturnType<typeof vi.fn>;
+    isTokenExpired: ReturnType<typeof vi.fn>;
+  };
   let mockRouter: { createUrlTree: ReturnType<typeof vi.fn> };
   let injector: ReturnType<typeof createEnvironmentInjector>;
 
   beforeEach(() => {
-    mockAuthService = { isAuthenticated: vi.fn() };
+    mockAuthService = { isAuthenticated: vi.fn(), isTokenExpired: vi.fn().mockReturnValue(false) };
     mockRouter = { createUrlTree: vi.fn((url) => url) };
 
     // Provide mocks to the injector
@@ -49,6 +52,13 @@ describe('authGuard', () => {
     expect(result).toBe(true);
   });
 
+  it('should redirect to /login if the token has expired', () => {
+    mockAuthService.isAuthenticated.mockReturnValue(true);
+    mockAuthService.isTokenExpired.mockReturnValue(true);
+    const result = runInInjectionContext(injector, () => authGuard(getRoute(), {} as any));
+    expect(result).toEqual(['/login']);
+  });
+
   it('should redirect to /login if not authenticated and no custom url', () => {
     mockAuthService.isAuthenticated.mockReturnValue(false);
     const result = runInInjectionContext(injector, () => authGuard(getRoute(), {} as any));
@@ -23,12 +23,14 @@ import { AuthService } from '../services';
  * Route guard that prevents access to routes for unauthenticated users.
  *
  * This functional guard uses `AuthService` to check authentication state. If the user
- * is authenticated, access is allowed. Otherwise, the user is redirected to `/login`
- * or a custom URL provided in the route's `data.authRedirectUrl` property.
+ * is authenticated and the access token has not expired, access is allowed. Otherwise,
+ * the user is redirected to `/login` or a custom URL provided in the route's
+ * `data.authRedirectUrl` property.
  *
  * @remarks
  * **Behavior:**
  * - Returns `true` if the user is authenticated (allows navigation).
+ * - Treats a user whose access token has expired (`exp` claim in the past) as unauthenticated.
  * - Returns a `UrlTree` to redirect unauthenticated users to the login page.
  * - Supports custom redirect URLs via route data configuration.
  *
@@ -50,7 +52,7 @@ import { AuthService } from '../services';
  *
  * @param route - The activated route snapshot containing route data and parameters.
  * @param _state - The router state snapshot (unused but required by the interface).
- * @returns `true` if authenticated, or a `UrlTree` to redirect to the login page.
+ * @returns `true` if authenticated with a valid token, or a `UrlTree` to redirect to the login page.
  *
  * @example
  * ```typescript
@@ -108,8 +110,8 @@ export const authGuard: CanActivateFn = (
   // Inject the Angular Router for redirect navigation
   const router: Router = inject(Router);
 
-  // If authenticated, allow access to the route
-  if (authService.isAuthenticated()) {
+  // If authenticated with a token that has not expired, allow access to the route
+  if (authService.isAuthenticated() && !authService.isTokenExpired()) {
     return true;
   }
 
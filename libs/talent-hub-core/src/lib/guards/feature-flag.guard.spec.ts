@@ -11,6 +11,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { createEnvironmentInjector, Provider, runInInjectionContext } from '@angular/core';
 import { Router } from '@angular/router';
+import { firstValueFrom, of, Subject } from 'rxjs';
 
 import { featureFlagGuard } from '../guards';
 import { FeatureFlagService } from '../services';
@@ -21,12 +22,15 @@ const getRoute = (data?: Record<string, unknown>) => ({ data }) as any;
 const rootInjector = createEnvironmentInjector([], createEnvironmentInjector([], {} as any));
 
 describe('featureFlagGuard', () => {
-  let mockFeatureFlagService: { isEnabled: ReturnType<typeof vi.fn> };
+  let mockFeatureFlagService: {
+    isEnabled: ReturnType<typeof vi.fn>;
+    whenLoaded: ReturnType<typeof vi.fn>;
+  };
   let mockRouter: { createUrlTree: ReturnType<typeof vi.fn> };
   let injector: ReturnType<typeof createEnvironmentInjector>;
 
   beforeEach(() => {
-    mockFeatureFlagService = { isEnabled: vi.fn() };
+    mockFeatureFlagService = { isEnabled: vi.fn(), whenLoaded: vi.fn(() => of(undefined)) };
     mockRouter = { createUrlTree: vi.fn((url) => url) };
 
     // Provide mocks to the injector
@@ -43,54 +47,63 @@ describe('featureFlagGuard', () => {
     vi.restoreAllMocks();
   });
 
-  it('should allow access if feature flag is enabled', () => {
-    mockFeatureFlagService.isEnabled.mockReturnValue(true);
-    const result = runInInjectionContext(injector, () =>
-      featureFlagGuard(getRoute({ featureFlag: 'myFeature' }), {} as any),
+  /** Runs the guard for a route and waits for its result. */
+  const runGuard = (data?: Record<string, unknown>) =>
+    firstValueFrom(
+      runInInjectionContext(injector, () => featureFlagGuard(getRoute(data), {} as any)) as any,
     );
+
+  it('should allow access if feature flag is enabled', async () => {
+    mockFeatureFlagService.isEnabled.mockReturnValue(true);
+    const result = await runGuard({ featureFlag: 'myFeature' });
     expect(result).toBe(true);
   });
 
-  it('should redirect to /not-available if feature flag is not enabled', () => {
+  it('should redirect to /not-available if feature flag is not enabled', async () => {
     mockFeatureFlagService.isEnabled.mockReturnValue(false);
-    const result = runInInjectionContext(injector, () =>
-      featureFlagGuard(getRoute({ featureFlag: 'myFeature' }), {} as any),
-    );
+    const result = await runGuard({ featureFlag: 'myFeature' });
     expect(result).toEqual(['/not-available']);
   });
 
-  it('should redirect to custom url if feature flag is not enabled and custom url provided', () => {
+  it('should redirect to custom url if feature flag is not enabled and custom url provided', async () => {
     mockFeatureFlagService.isEnabled.mockReturnValue(false);
-    const result = runInInjectionContext(injector, () =>
-      featureFlagGuard(
-        getRoute({ featureFlag: 'myFeature', featureFlagRedirectUrl: ['/custom-not-available'] }),
-        {} as any,
-      ),
-    );
+    const result = await runGuard({
+      featureFlag: 'myFeature',
+      featureFlagRedirectUrl: ['/custom-not-available'],
+    });
     expect(result).toEqual(['/custom-not-available']);
   });
 
-  it('should handle string redirect url', () => {
+  it('should handle string redirect url', async () => {
     mockFeatureFlagService.isEnabled.mockReturnValue(false);
-    const result = runInInjectionContext(injector, () =>
-      featureFlagGuard(
-        getRoute({ featureFlag: 'myFeature', featureFlagRedirectUrl: '/custom-not-available' }),
-        {} as any,
-      ),
-    );
+    const result = await runGuard({
+      featureFlag: 'myFeature',
+      featureFlagRedirectUrl: '/custom-not-available',
+    });
     expect(result).toEqual(['/custom-not-available']);
   });
 
-  it('should redirect to /not-available if no feature flag is provided', () => {
-    const result = runInInjectionContext(injector, () => featureFlagGuard(getRoute(), {} as any));
+  it('should redirect to /not-available if no feature flag is provided', async () => {
+    const result = await runGuard();
     expect(result).toEqual(['/not-available']);
   });
 
-  it('should redirect to /not-available if feature flag is undefined', () => {
+  it('should redirect to /not-available if feature flag is undefined', async () => {
     mockFeatureFlagService.isEnabled.mockReturnValue(false);
-    const result = runInInjectionContext(injector, () =>
-      featureFlagGuard(getRoute({ featureFlag: undefined }), {} as any),
-    );
+    const result = await runGuard({ featureFlag: undefined });
     expect(result).toEqual(['/not-available']);
   });
+
+  it('should wait for the flags to be loaded before checking them', async () => {
+    const loaded = new Subject<void>();
+    mockFeatureFlagService.whenLoaded.mockReturnValue(loaded);
+    mockFeatureFlagService.isEnabled.mockReturnValue(true);
+
+    const result = runGuard({ featureFlag: 'myFeature' });
+    expect(mockFeatureFlagService.isEnabled).not.toHaveBeenCalled();
+    loaded.next();
+
+    expect(await result).toBe(true);
+    expect(mockFeatureFlagService.isEnabled).toHaveBeenCalledWith('myFeature');
+  });
 });
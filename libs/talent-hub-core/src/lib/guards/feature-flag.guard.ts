@@ -16,6 +16,8 @@ import {
   RouterStateSnapshot,
   UrlTree,
 } from '@angular/router';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
 
 import { FeatureFlagService } from '../services';
 
@@ -29,6 +31,8 @@ import { FeatureFlagService } from '../services';
  * @remarks
  * **Behavior:**
  * - Reads the feature flag key from `route.data.featureFlag`.
+ * - Waits for the first load of the flags (`FeatureFlagService.whenLoaded()`), so that a
+ *   deep link opened at startup is not redirected before the flags are known.
  * - Allows access if the feature flag is enabled via `FeatureFlagService.isEnabled()`.
  * - Redirects to `/not-available` (or custom URL) if the flag is disabled or missing.
  *
@@ -41,7 +45,8 @@ import { FeatureFlagService } from '../services';
  * **Implementation Details:**
  * - Uses Angular's functional guard pattern (`CanActivateFn`).
  * - Uses `inject()` for dependency injection.
- * - Works with signal-based `FeatureFlagService` and `AppStore`.
+ * - Evaluates the flag on every navigation, so routes follow flags loaded again or
+ *   re-evaluated after a tenant switch.
  * - Designed for standalone Angular applications.
  *
  * **Use Cases:**
@@ -57,7 +62,8 @@ import { FeatureFlagService } from '../services';
  *
  * @param route - The activated route snapshot containing the feature flag key.
  * @param _state - The router state snapshot (unused but required by interface).
- * @returns `true` if feature is enabled, or a `UrlTree` to redirect to not-available page.
+ * @returns An Observable emitting `true` if the feature is enabled, or a `UrlTree` to
+ *   redirect to the not-available page.
  *
  * @example
  * ```typescript
@@ -94,7 +100,7 @@ import { FeatureFlagService } from '../services';
  *   },
  * ];
  *
- * // Set feature flags programmatically
+ * // Override feature flags locally (development, tests)
  * appStore.setFeatures({
  *   newDashboard: true,
  *   betaReports: false,
@@ -110,7 +116,7 @@ import { FeatureFlagService } from '../services';
 export const featureFlagGuard: CanActivateFn = (
   route: ActivatedRouteSnapshot,
   _state: RouterStateSnapshot,
-): UrlTree | boolean => {
+): Observable<UrlTree | boolean> => {
   // Inject the FeatureFlagService to check feature flag status
   const featureFlagService: FeatureFlagService = inject(FeatureFlagService);
 
@@ -120,12 +126,16 @@ export const featureFlagGuard: CanActivateFn = (
   // Get the feature flag key from route data
   const flag = route.data?.['featureFlag'] as string | undefined;
 
-  // Allow navigation if the flag is set and enabled
-  if (flag && featureFlagService.isEnabled(flag)) {
-    return true;
-  }
+  return featureFlagService.whenLoaded().pipe(
+    map((): UrlTree | boolean => {
+      // Allow navigation if the flag is set and enabled
+      if (flag && featureFlagService.isEnabled(flag)) {
+        return true;
+      }
 
-  // Otherwise, redirect to the not-available page or custom featureFlagRedirectUrl
-  const redirectUrl = route.data?.['featureFlagRedirectUrl'] ?? ['/not-available'];
-  return router.createUrlTree(Array.isArray(redirectUrl) ? redirectUrl : [redirectUrl]);
+      // Otherwise, redirect to the not-available page or custom featureFlagRedirectUrl
+      const redirectUrl = route.data?.['featureFlagRedirectUrl'] ?? ['/not-available'];
+      return router.createUrlTree(Array.isArray(redirectUrl) ? redirectUrl : [redirectUrl]);
+    }),
+  );
 };
@@ -35,6 +35,8 @@
  * | `authGuard` | CanActivate | Protects routes requiring authentication |
  * | `featureFlagGuard` | CanActivate | Controls access based on feature flags |
  * | `maintenanceGuard` | CanActivate | Redirects during maintenance mode |
+ * | `mockIdentityProviderGuard` | CanActivate | Serves the mock OIDC authorization endpoint |
+ * | `oidcCallbackGuard` | CanActivate | Completes an OIDC sign-in on the callback route |
  * | `rbacGuard` | CanActivate | Role-based access control |
  * | `unsavedChangesGuard` | CanDeactivate | Prevents navigation with unsaved changes |
  *
@@ -51,6 +53,12 @@ export * from './feature-flag.guard';
 /** Redirects to maintenance page when system is under maintenance */
 export * from './maintenance.guard';
 
+/** Serves the authorization endpoint of the mock identity provider in development */
+export * from './mock-identity-provider.guard';
+
+/** Completes an OpenID Connect sign-in on the identity provider's callback route */
+export * from './oidc-callback.guard';
+
 /** Role-based access control - checks user roles against route requirements */
 export * from './rbac.guard';
 
@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  HttpClient,
+  HttpContext,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpResponse,
+} from '@angular/common/http';
+import { DOCUMENT, Injector, runInInjectionContext } from '@angular/core';
+import { Router } from '@angular/router';
+import { firstValueFrom, Observable, of, throwError } from 'rxjs';
+
+import { mockIdentityProviderGuard } from '../guards';
+import { LoggerService } from '../services';
+import { SKIP_AUTH } from '../tokens';
+
+const AUTHORIZE_URL = '/mocks/oidc/authorize?client_id=web&state=s-1';
+
+/** Response of the mock authorization endpoint redirecting to `location`. */
+const redirect = (location: string) =>
+  of(new HttpResponse({ status: 302, headers: new HttpHeaders({ Location: location }) }));
+
+describe('mockIdentityProviderGuard', () => {
+  let injector: Injector;
+  let mockHttp: { get: ReturnType<typeof vi.fn> };
+  let mockLogger: { log: ReturnType<typeof vi.fn> };
+  let mockRouter: { parseUrl: ReturnType<typeof vi.fn>; createUrlTree: ReturnType<typeof vi.fn> };
+  let mockDocument: { location: { origin: string; assign: ReturnType<typeof vi.fn> } };
+
+  const runGuard = (data?: Record<string, unknown>) =>
+    firstValueFrom(
+      runInInjectionContext(injector, () =>
+        mockIdentityProviderGuard({ data } as any, { url: AUTHORIZE_URL } as any),
+      ) as Observable<unknown>,
+    );
+
+  beforeEach(() => {
+    mockHttp = { get: vi.fn() };
+    mockLogger = { log: vi.fn() };
+    mockRouter = {
+      parseUrl: vi.fn((url: string) => `parsed:${url}`),
+      createUrlTree: vi.fn((commands: unknown[]) => commands),
+    };
+    mockDocument = { location: { origin: 'https://app.test', assign: vi.fn() } };
+    injector = Injector.create({
+      providers: [
+        { provide: HttpClient, useValue: mockHttp },
+        { provide: LoggerService, useValue: mockLogger },
+        { provide: Router, useValue: mockRouter },
+        { provide: DOCUMENT, useValue: mockDocument },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send the authorization request to the mock backend without authentication', async () => {
+    mockHttp.get.mockReturnValue(redirect('https://app.test/auth/callback?code=c&state=s-1'));
+    await runGuard();
+
+    const [url, options] = mockHttp.get.mock.calls[0];
+    expect(url).toBe(AUTHORIZE_URL);
+    expect(options.observe).toBe('response');
+    expect((options.context as HttpContext).get(SKIP_AUTH)).toBe(true);
+  });
+
+  it('should navigate to a redirect URI on the same origin', async () => {
+    mockHttp.get.mockReturnValue(redirect('https://app.test/auth/callback?code=c&state=s-1'));
+    expect(await runGuard()).toBe('parsed:/auth/callback?code=c&state=s-1');
+    expect(mockDocument.location.assign).not.toHaveBeenCalled();
+  });
+
+  it('should load a redirect URI on another origin', async () => {
+    mockHttp.get.mockReturnValue(redirect('https://other.test/callback?code=c'));
+    expect(await runGuard()).toBe(false);
+    expect(mockDocument.location.assign).toHaveBeenCalledWith('https://other.test/callback?code=c');
+  });
+
+  it('should log a rejected request and redirect to /login', async () => {
+    mockHttp.get.mockReturnValue(throwError(() => new HttpErrorResponse({ status: 400 })));
+    expect(await runGuard()).toEqual(['/login']);
+    expect(mockLogger.log).toHaveBeenCalledWith(
+      'warn',
+      'Mock identity provider rejected the sign-in',
+      expect.anything(),
+    );
+  });
+
+  it('should redirect to the custom url when there is no redirect', async () => {
+    mockHttp.get.mockReturnValue(of(new HttpResponse({ status: 200 })));
+    expect(await runGuard({ authRedirectUrl: '/sso' })).toEqual(['/sso']);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpClient, HttpContext, HttpResponse } from '@angular/common/http';
+import { DOCUMENT, inject } from '@angular/core';
+import {
+  ActivatedRouteSnapshot,
+  CanActivateFn,
+  Router,
+  RouterStateSnapshot,
+  UrlTree,
+} from '@angular/router';
+import { Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+
+import { LoggerService } from '../services';
+import { SKIP_AUTH } from '../tokens';
+
+/**
+ * Route guard that serves the authorization endpoint of the mock identity provider.
+ *
+ * `OidcService.signIn()` opens the authorization endpoint with a full page load, which
+ * `MockBackendInterceptor` cannot answer. Place this guard on the route of that
+ * endpoint: it sends the authorization request to the mock handler registered by
+ * `provideMockIdentityProvider()` and follows its redirect to the callback route.
+ *
+ * @remarks
+ * **Behavior:**
+ * - Returns a `UrlTree` to the redirect URI (with `code` and `state`) when it is on
+ *   the same origin; otherwise assigns it to `document.location` and returns `false`.
+ * - Returns a `UrlTree` to `/login` (or `data.authRedirectUrl`) if the mock identity
+ *   provider rejects the request or is not registered. The reason is logged.
+ *
+ * **Route Data Options:**
+ * | Property | Type | Default | Description |
+ * |----------|------|---------|-------------|
+ * | `authRedirectUrl` | `string` \| `string[]` | `['/login']` | Where to go when the sign-in fails |
+ *
+ * @param route - The activated route snapshot with the route data.
+ * @param state - The router state snapshot with the authorization request URL.
+ * @returns An Observable of the `UrlTree` to navigate to, or `false`.
+ *
+ * @example
+ * ```typescript
+ * const routes: Routes = [
+ *   { path: 'auth/callback', canActivate: [oidcCallbackGuard], children: [] },
+ *   ...(isDevMode()
+ *     ? [{ path: 'mocks/oidc/authorize', canActivate: [mockIdentityProviderGuard], children: [] }]
+ *     : []),
+ * ];
+ * ```
+ *
+ * @see provideMockIdentityProvider
+ * @see oidcCallbackGuard
+ * @see CanActivateFn
+ * @publicApi
+ */
+export const mockIdentityProviderGuard: CanActivateFn = (
+  route: ActivatedRouteSnapshot,
+  state: RouterStateSnapshot,
+): Observable<UrlTree | false> => {
+  const http: HttpClient = inject(HttpClient);
+  const logger: LoggerService = inject(LoggerService);
+  const router: Router = inject(Router);
+  const document: Document = inject(DOCUMENT);
+
+  return http
+    .get(state.url, {
+      observe: 'response',
+      context: new HttpContext().set(SKIP_AUTH, true),
+    })
+    .pipe(
+      map((response: HttpResponse<unknown>): UrlTree | false => {
+        const location: string | null = response.headers.get('Location');
+        if (!location) {
+          throw new Error('The mock identity provider did not redirect');
+        }
+        const url = new URL(location, document.location.origin);
+        if (url.origin !== document.location.origin) {
+          document.location.assign(url.href);
+          return false;
+        }
+        return router.parseUrl(`${url.pathname}${url.search}`);
+      }),
+      catchError((error: unknown) => {
+        logger.log('warn', 'Mock identity provider rejected the sign-in', { error });
+        const redirectUrl = route.data?.['authRedirectUrl'] ?? ['/login'];
+        return of(router.createUrlTree(Array.isArray(redirectUrl) ? redirectUrl : [redirectUrl]));
+      }),
+    );
+};
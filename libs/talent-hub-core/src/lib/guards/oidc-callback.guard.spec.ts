@@ -0,0 +1,78 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Injector, runInInjectionContext } from '@angular/core';
+import { Router } from '@angular/router';
+import { firstValueFrom, Observable, of, throwError } from 'rxjs';
+
+import { oidcCallbackGuard } from '../guards';
+import { LoggerService, OidcService } from '../services';
+
+const getRoute = (queryParams: Record<string, string>, data?: Record<string, unknown>) =>
+  ({ queryParams, data }) as any;
+
+describe('oidcCallbackGuard', () => {
+  let injector: Injector;
+  let mockOidcService: { handleCallback: ReturnType<typeof vi.fn> };
+  let mockLogger: { log: ReturnType<typeof vi.fn> };
+  let mockRouter: { parseUrl: ReturnType<typeof vi.fn>; createUrlTree: ReturnType<typeof vi.fn> };
+
+  const runGuard = (route: unknown) =>
+    firstValueFrom(
+      runInInjectionContext(injector, () =>
+        oidcCallbackGuard(route as any, {} as any),
+      ) as Observable<unknown>,
+    );
+
+  beforeEach(() => {
+    mockOidcService = { handleCallback: vi.fn() };
+    mockLogger = { log: vi.fn() };
+    mockRouter = {
+      parseUrl: vi.fn((url: string) => `parsed:${url}`),
+      createUrlTree: vi.fn((commands: unknown[]) => commands),
+    };
+    injector = Injector.create({
+      providers: [
+        { provide: OidcService, useValue: mockOidcService },
+        { provide: LoggerService, useValue: mockLogger },
+        { provide: Router, useValue: mockRouter },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pass the callback query parameters to OidcService', async () => {
+    mockOidcService.handleCallback.mockReturnValue(of('/dashboard'));
+    await runGuard(getRoute({ code: 'abc', state: 'xyz' }));
+    expect(mockOidcService.handleCallback).toHaveBeenCalledWith({ code: 'abc', state: 'xyz' });
+  });
+
+  it('should redirect to the return URL on success', async () => {
+    mockOidcService.handleCallback.mockReturnValue(of('/dashboard'));
+    expect(await runGuard(getRoute({ code: 'abc', state: 'xyz' }))).toBe('parsed:/dashboard');
+  });
+
+  it('should log the failure and redirect to /login', async () => {
+    mockOidcService.handleCallback.mockReturnValue(throwError(() => new Error('state mismatch')));
+    expect(await runGuard(getRoute({ state: 'forged' }))).toEqual(['/login']);
+    expect(mockLogger.log).toHaveBeenCalledWith('warn', 'OIDC sign-in failed', expect.anything());
+  });
+
+  it('should redirect to the custom url on failure', async () => {
+    mockOidcService.handleCallback.mockReturnValue(throwError(() => new Error('denied')));
+    expect(
+      await runGuard(getRoute({ error: 'access_denied' }, { authRedirectUrl: '/sso' })),
+    ).toEqual(['/sso']);
+  });
+});
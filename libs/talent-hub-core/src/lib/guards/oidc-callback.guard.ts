@@ -0,0 +1,79 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  ActivatedRouteSnapshot,
+  CanActivateFn,
+  Router,
+  RouterStateSnapshot,
+  UrlTree,
+} from '@angular/router';
+import { inject } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+
+import { LoggerService, OidcService } from '../services';
+
+/**
+ * Route guard that completes an OpenID Connect sign-in on the callback route.
+ *
+ * Place this guard on the route registered as the identity provider's redirect URI.
+ * It passes the callback query parameters to `OidcService.handleCallback()` and never
+ * activates the route itself: on success it redirects to the URL passed to
+ * `OidcService.signIn()`, on failure to the login page.
+ *
+ * @remarks
+ * **Behavior:**
+ * - Returns a `UrlTree` to the `returnUrl` of the sign-in request once the session has started.
+ * - Returns a `UrlTree` to `/login` (or `data.authRedirectUrl`) if the callback is invalid,
+ *   the user denied consent, or the code exchange failed. The reason is logged.
+ *
+ * **Route Data Options:**
+ * | Property | Type | Default | Description |
+ * |----------|------|---------|-------------|
+ * | `authRedirectUrl` | `string` \| `string[]` | `['/login']` | Where to go when the sign-in fails |
+ *
+ * @param route - The activated route snapshot with the callback query parameters.
+ * @param _state - The router state snapshot (unused but required by the interface).
+ * @returns An Observable of the `UrlTree` to navigate to.
+ *
+ * @example
+ * ```typescript
+ * const routes: Routes = [
+ *   {
+ *     path: 'auth/callback',
+ *     canActivate: [oidcCallbackGuard],
+ *     children: [],
+ *   },
+ * ];
+ * ```
+ *
+ * @see OidcService
+ * @see authGuard
+ * @see CanActivateFn
+ * @publicApi
+ */
+export const oidcCallbackGuard: CanActivateFn = (
+  route: ActivatedRouteSnapshot,
+  _state: RouterStateSnapshot,
+): Observable<UrlTree> => {
+  const oidcService: OidcService = inject(OidcService);
+  const logger: LoggerService = inject(LoggerService);
+  const router: Router = inject(Router);
+
+  return oidcService.handleCallback(route.queryParams).pipe(
+    map((returnUrl: string): UrlTree => router.parseUrl(returnUrl)),
+    catchError((error: unknown) => {
+      logger.log('warn', 'OIDC sign-in failed', { error });
+      const redirectUrl = route.data?.['authRedirectUrl'] ?? ['/login'];
+      return of(router.createUrlTree(Array.isArray(redirectUrl) ? redirectUrl : [redirectUrl]));
+    }),
+  );
+};
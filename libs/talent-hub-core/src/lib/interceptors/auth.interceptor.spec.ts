@@ -15,23 +15,49 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { HttpEvent, HttpHeaders, HttpRequest } from '@angular/common/http';
+import {
+  HttpContext,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
 import { Injector, runInInjectionContext } from '@angular/core';
-import { of } from 'rxjs';
+import { Router } from '@angular/router';
+import { Observable, of, Subject, throwError } from 'rxjs';
 
 import { AuthInterceptor } from '../interceptors';
 import { AuthService } from '../services';
+import { TokenResponse } from '../interfaces';
+import { AUTH_CONFIG, SKIP_AUTH } from '../tokens';
 
 describe('AuthInterceptor', () => {
   let interceptor: AuthInterceptor;
   let next: { handle: ReturnType<typeof vi.fn> };
   let injector: Injector;
-  let mockAuthService: { getToken: ReturnType<typeof vi.fn> };
+  let mockAuthService: {
+    getToken: ReturnType<typeof vi.fn>;
+    getRefreshToken: ReturnType<typeof vi.fn>;
+    refreshToken: ReturnType<typeof vi.fn>;
+    expireSession: ReturnType<typeof vi.fn>;
+  };
+  let mockRouter: { navigateByUrl: ReturnType<typeof vi.fn> };
 
-  function createInterceptor(): AuthInterceptor {
-    mockAuthService = { getToken: vi.fn() };
+  function createInterceptor(loginRoute?: string): AuthInterceptor {
+    mockAuthService = {
+      getToken: vi.fn(),
+      getRefreshToken: vi.fn().mockReturnValue('refresh-1'),
+      refreshToken: vi.fn(),
+      expireSession: vi.fn(),
+    };
+    mockRouter = { navigateByUrl: vi.fn().mockResolvedValue(true) };
     injector = Injector.create({
-      providers: [{ provide: AuthService, useValue: mockAuthService }],
+      providers: [
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: Router, useValue: mockRouter },
+        ...(loginRoute ? [{ provide: AUTH_CONFIG, useValue: { loginRoute } }] : []),
+      ],
     });
     return runInInjectionContext(injector, () => new AuthInterceptor());
   }
@@ -76,4 +102,147 @@ describe('AuthInterceptor', () => {
     interceptor.intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1]);
     expect(req.headers.has('Authorization')).toBe(false);
   });
+
+  it('should forward request unchanged if SKIP_AUTH is set', () => {
+    mockAuthService.getToken.mockReturnValue('abc123');
+    const req = new HttpRequest('GET', '/api/public', {
+      context: new HttpContext().set(SKIP_AUTH, true),
+    });
+    interceptor.intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1]);
+    expect(next.handle).toHaveBeenCalledWith(req);
+  });
+
+  describe('token refresh', () => {
+    const unauthorized = () =>
+      throwError(() => new HttpErrorResponse({ status: 401, statusText: 'Unauthorized' }));
+    const ok = () => of(new HttpResponse({ status: 200 }) as HttpEvent<unknown>);
+    const sentTokens = () =>
+      next.handle.mock.calls.map((call) =>
+        (call[0] as HttpRequest<unknown>).headers.get('Authorization'),
+      );
+    const intercept = (req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> =>
+      interceptor.intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1]);
+
+    let token: string;
+
+    beforeEach(() => {
+      token = 'expired';
+      mockAuthService.getToken.mockImplementation(() => token);
+      next.handle.mockImplementation((req: HttpRequest<unknown>) =>
+        req.headers.get('Authorization') === 'Bearer expired' ? unauthorized() : ok(),
+      );
+    });
+
+    it('should refresh the token on 401 and replay the request', () => {
+      mockAuthService.refreshToken.mockImplementation(() => {
+        token = 'fresh';
+        return of({ accessToken: 'fresh' } as TokenResponse);
+      });
+      const events: HttpEvent<unknown>[] = [];
+
+      intercept(new HttpRequest('GET', '/api/data')).subscribe((e) => events.push(e));
+
+      expect(mockAuthService.refreshToken).toHaveBeenCalledTimes(1);
+      expect(sentTokens()).toEqual(['Bearer expired', 'Bearer fresh']);
+      expect(events).toHaveLength(1);
+    });
+
+    it('should run a single refresh for concurrent 401s and queue new requests', () => {
+      const pending: Subject<HttpEvent<unknown>>[] = [];
+      next.handle.mockImplementation((req: HttpRequest<unknown>) => {
+        if (req.headers.get('Authorization') !== 'Bearer expired') {
+          return ok();
+        }
+        const response = new Subject<HttpEvent<unknown>>();
+        pending.push(response);
+        return response;
+      });
+      const refresh = new Subject<TokenResponse>();
+      mockAuthService.refreshToken.mockReturnValue(refresh);
+      const completed: string[] = [];
+
+      intercept(new HttpRequest('GET', '/api/a')).subscribe(() => completed.push('a'));
+      intercept(new HttpRequest('GET', '/api/b')).subscribe(() => completed.push('b'));
+      pending.forEach((response) =>
+        response.error(new HttpErrorResponse({ status: 401, statusText: 'Unauthorized' })),
+      );
+      intercept(new HttpRequest('GET', '/api/c')).subscribe(() => completed.push('c'));
+
+      expect(mockAuthService.refreshToken).toHaveBeenCalledTimes(1);
+      // Request c was held back instead of being sent with the expired token
+      expect(sentTokens()).toEqual(['Bearer expired', 'Bearer expired']);
+
+      token = 'fresh';
+      refresh.next({ accessToken: 'fresh' });
+      refresh.complete();
+
+      expect(completed.sort()).toEqual(['a', 'b', 'c']);
+      expect(sentTokens().slice(2)).toEqual(['Bearer fresh', 'Bearer fresh', 'Bearer fresh']);
+    });
+
+    it('should replay with the current token if it was already rotated', () => {
+      next.handle.mockImplementationOnce(() => {
+        token = 'fresh';
+        return unauthorized();
+      });
+
+      intercept(new HttpRequest('GET', '/api/data')).subscribe();
+
+      expect(mockAuthService.refreshToken).not.toHaveBeenCalled();
+      expect(sentTokens()).toEqual(['Bearer expired', 'Bearer fresh']);
+    });
+
+    it('should expire the session and redirect to login when the refresh fails', () => {
+      mockAuthService.refreshToken.mockReturnValue(throwError(() => new Error('invalid_grant')));
+      const errors: unknown[] = [];
+
+      intercept(new HttpRequest('GET', '/api/data')).subscribe({ error: (e) => errors.push(e) });
+
+      expect(mockAuthService.expireSession).toHaveBeenCalledTimes(1);
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/login');
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should redirect to the configured login route', () => {
+      interceptor = createInterceptor('/sign-in');
+      mockAuthService.getToken.mockReturnValue('expired');
+      mockAuthService.refreshToken.mockReturnValue(throwError(() => new Error('invalid_grant')));
+
+      intercept(new HttpRequest('GET', '/api/data')).subscribe({ error: () => undefined });
+
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/sign-in');
+    });
+
+    it('should pass the 401 through when there is no refresh token', () => {
+      mockAuthService.getRefreshToken.mockReturnValue(null);
+      const errors: HttpErrorResponse[] = [];
+
+      intercept(new HttpRequest('GET', '/api/data')).subscribe({ error: (e) => errors.push(e) });
+
+      expect(mockAuthService.refreshToken).not.toHaveBeenCalled();
+      expect(errors[0].status).toBe(401);
+    });
+
+    it('should not refresh again if the replayed request fails with 401', () => {
+      mockAuthService.refreshToken.mockReturnValue(of({ accessToken: 'also-rejected' }));
+      next.handle.mockImplementation(() => unauthorized());
+      const errors: HttpErrorResponse[] = [];
+
+      intercept(new HttpRequest('GET', '/api/data')).subscribe({ error: (e) => errors.push(e) });
+
+      expect(mockAuthService.refreshToken).toHaveBeenCalledTimes(1);
+      expect(next.handle).toHaveBeenCalledTimes(2);
+      expect(errors[0].status).toBe(401);
+    });
+
+    it('should pass non-401 errors through without refreshing', () => {
+      next.handle.mockReturnValue(throwError(() => new HttpErrorResponse({ status: 500 })));
+      const errors: HttpErrorResponse[] = [];
+
+      intercept(new HttpRequest('GET', '/api/data')).subscribe({ error: (e) => errors.push(e) });
+
+      expect(mockAuthService.refreshToken).not.toHaveBeenCalled();
+      expect(errors[0].status).toBe(500);
+    });
+  });
 });
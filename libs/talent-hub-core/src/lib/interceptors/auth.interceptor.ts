@@ -9,36 +9,69 @@
  */
 
 import { inject, Injectable } from '@angular/core';
-import { HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpInterceptor,
+  HttpRequest,
+  HttpStatusCode,
+} from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, throwError } from 'rxjs';
+import { catchError, finalize, map, shareReplay, switchMap, take } from 'rxjs/operators';
 
 import { AuthService } from '../services';
+import { TokenResponse } from '../interfaces';
+import { AUTH_CONFIG, SKIP_AUTH } from '../tokens';
 
 /**
- * HTTP interceptor that automatically adds Bearer authentication tokens to outgoing requests.
+ * Route used to send the user to sign in when `AUTH_CONFIG.loginRoute` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_LOGIN_ROUTE = '/login';
+
+/**
+ * HTTP interceptor that adds Bearer authentication tokens to outgoing requests and
+ * transparently refreshes an expired access token.
  *
  * This interceptor ensures that authenticated API requests include the `Authorization` header
  * with a Bearer token. It retrieves the token from `AuthService` and intelligently skips
  * requests that already have an `Authorization` header or when no token is available.
+ * When the server rejects the token with 401, the interceptor exchanges the refresh token
+ * for a new access token and replays the failed request.
  *
  * @remarks
  * **Behavior:**
  * - Retrieves the authentication token from `AuthService.getToken()`.
  * - Adds `Authorization: Bearer {token}` header to requests if a token exists.
  * - Skips adding the header if the request already has an `Authorization` header.
- * - Passes requests through unchanged if no token is available.
+ * - Passes requests through unchanged if no token is available or `SKIP_AUTH` is set.
+ *
+ * **Token Refresh:**
+ * - A 401 on a request that carried the access token starts a refresh through
+ *   `AuthService.refreshToken()`.
+ * - Only one refresh runs at a time. Requests that fail with 401 while it runs, and new
+ *   requests sent while it runs, wait for it and are then sent with the new token.
+ * - If the token was already rotated by the time a 401 arrives, the request is replayed
+ *   with the current token without another refresh.
+ * - If the refresh fails, the session is expired, the user is redirected to
+ *   `AUTH_CONFIG.loginRoute` (default `/login`) and every waiting request errors.
+ * - A replayed request is not refreshed again; a second 401 is passed to the caller.
  *
  * **Security Considerations:**
  * - Tokens are only added to requests; they are not logged or exposed.
  * - Consider combining with HTTPS to protect tokens in transit.
- * - For sensitive operations, verify token validity before making requests.
+ * - The refresh token is never sent as a bearer token.
  *
  * **Request Transformation:**
  * | Scenario | Result |
  * |----------|--------|
  * | Token exists, no Auth header | Adds `Authorization: Bearer {token}` |
  * | Token exists, Auth header present | Request unchanged (respects existing header) |
- * | No token available | Request unchanged |
+ * | No token available or `SKIP_AUTH` set | Request unchanged |
+ * | Refresh in progress | Request waits, then is sent with the new token |
  *
  * @example
  * ```typescript
@@ -46,6 +79,7 @@ import { AuthService } from '../services';
  * export const appConfig: ApplicationConfig = {
  *   providers: [
  *     provideHttpClient(withInterceptorsFromDi()),
+ *     provideAuthConfig({ refreshEndpoint: '/auth/refresh', loginRoute: '/login' }),
  *   ],
  * };
  *
@@ -62,21 +96,38 @@ import { AuthService } from '../services';
  *
  * @see AuthService
  * @see AuthStore
+ * @see SKIP_AUTH
  * @see HttpInterceptor
  * @publicApi
  */
 @Injectable({ providedIn: 'root' })
 export class AuthInterceptor implements HttpInterceptor {
   /**
-   * The AuthService instance for retrieving authentication tokens.
+   * The AuthService instance for retrieving and refreshing authentication tokens.
    *
    * Injected from Angular's DI system to provide the current user's
    * authentication token via `getToken()`.
    */
   private readonly authService = inject(AuthService);
 
+  /** @internal Router used to redirect to the login route when the refresh fails. */
+  private readonly router = inject(Router);
+
+  /** @internal Route the user is sent to when the session cannot be refreshed. */
+  private readonly loginRoute: string =
+    inject(AUTH_CONFIG, { optional: true })?.loginRoute ?? DEFAULT_LOGIN_ROUTE;
+
   /**
-   * Intercepts HTTP requests and adds the Authorization header if a token is available.
+   * The refresh currently in progress, shared by every request waiting for a new token.
+   *
+   * `null` when no refresh is running.
+   * @internal
+   */
+  private refresh$: Observable<string> | null = null;
+
+  /**
+   * Intercepts HTTP requests, adds the Authorization header if a token is available,
+   * and refreshes the token when the server rejects it.
    *
    * This method is called for every HTTP request made through Angular's `HttpClient`.
    * It checks for an available authentication token and adds it to the request headers.
@@ -87,11 +138,13 @@ export class AuthInterceptor implements HttpInterceptor {
    *
    * @remarks
    * **Processing Logic:**
-   * 1. Retrieve the authentication token from `AuthService`.
-   * 2. If no token exists, pass the request through unchanged.
-   * 3. If the request already has an `Authorization` header, pass it through unchanged.
-   * 4. Otherwise, clone the request and add `Authorization: Bearer {token}`.
-   * 5. Forward the modified request to the next handler.
+   * 1. If `SKIP_AUTH` is set or the request already has an `Authorization` header,
+   *    pass it through unchanged.
+   * 2. If a refresh is in progress, wait for it and send the request with the new token.
+   * 3. Otherwise, retrieve the token from `AuthService`; if none exists, pass the request
+   *    through unchanged.
+   * 4. Clone the request, add `Authorization: Bearer {token}` and forward it.
+   * 5. On 401, refresh the token (or join the running refresh) and replay the request once.
    *
    * @example
    * ```typescript
@@ -103,19 +156,106 @@ export class AuthInterceptor implements HttpInterceptor {
    * ```
    */
   intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    // Opted-out requests and requests with their own credentials are forwarded unchanged.
+    if (req.context.get(SKIP_AUTH) || req.headers.has('Authorization')) {
+      return next.handle(req);
+    }
+
+    // Hold the request back until the running refresh has produced a new token.
+    if (this.refresh$) {
+      return this.refresh$.pipe(
+        take(1),
+        switchMap((token: string) => next.handle(this.addToken(req, token))),
+      );
+    }
+
     // Retrieve the authentication token from the AuthService.
     const token: string | null = this.authService.getToken();
 
-    // If no token is present or the Authorization header already exists, forward the request unchanged.
-    if (!token || req.headers.has('Authorization')) {
+    // If no token is present, forward the request unchanged.
+    if (!token) {
       return next.handle(req);
     }
 
-    // Clone the request and add the Authorization header with the Bearer token.
-    const authReq: HttpRequest<unknown> = req.clone({
-      setHeaders: { Authorization: `Bearer ${token}` },
-    });
+    return next.handle(this.addToken(req, token)).pipe(
+      catchError((error: unknown) => {
+        if (!(error instanceof HttpErrorResponse) || error.status !== HttpStatusCode.Unauthorized) {
+          return throwError((): unknown => error);
+        }
+        return this.retryWithFreshToken(req, next, token, error);
+      }),
+    );
+  }
 
-    return next.handle(authReq);
+  /**
+   * Replays a request that failed with 401 using a fresh access token.
+   *
+   * @param req - The original request, without the Authorization header.
+   * @param next - The next handler in the HTTP interceptor chain.
+   * @param rejectedToken - The token the failed request was sent with.
+   * @param error - The 401 response, re-thrown when the session cannot be refreshed.
+   * @returns An `Observable` of the replayed request's event stream.
+   * @internal
+   */
+  private retryWithFreshToken(
+    req: HttpRequest<unknown>,
+    next: HttpHandler,
+    rejectedToken: string,
+    error: HttpErrorResponse,
+  ): Observable<HttpEvent<unknown>> {
+    // Another request already rotated the token; replay with the current one.
+    const currentToken: string | null = this.authService.getToken();
+    if (!this.refresh$ && currentToken && currentToken !== rejectedToken) {
+      return next.handle(this.addToken(req, currentToken));
+    }
+
+    if (!this.refresh$ && !this.authService.getRefreshToken()) {
+      return throwError((): HttpErrorResponse => error);
+    }
+
+    return this.startRefresh().pipe(
+      take(1),
+      switchMap((token: string) => next.handle(this.addToken(req, token))),
+    );
+  }
+
+  /**
+   * Returns the running refresh, or starts one if none is in progress.
+   *
+   * The refresh is shared so that concurrent 401s result in a single call to the
+   * refresh endpoint. On failure the session is expired and the user is redirected
+   * to the login route.
+   *
+   * @returns An `Observable` that emits the new access token once.
+   * @internal
+   */
+  private startRefresh(): Observable<string> {
+    if (!this.refresh$) {
+      this.refresh$ = this.authService.refreshToken().pipe(
+        map((response: TokenResponse): string => response.accessToken),
+        catchError((refreshError: unknown) => {
+          this.authService.expireSession();
+          void this.router.navigateByUrl(this.loginRoute);
+          return throwError((): unknown => refreshError);
+        }),
+        finalize((): void => {
+          this.refresh$ = null;
+        }),
+        shareReplay({ bufferSize: 1, refCount: false }),
+      );
+    }
+    return this.refresh$;
+  }
+
+  /**
+   * Clones the request with `Authorization: Bearer {token}`.
+   *
+   * @param req - The request to authorize.
+   * @param token - The access token to attach.
+   * @returns The cloned request.
+   * @internal
+   */
+  private addToken(req: HttpRequest<unknown>, token: string): HttpRequest<unknown> {
+    return req.clone({ setHeaders: { Authorization: `Bearer ${token}` } });
   }
 }
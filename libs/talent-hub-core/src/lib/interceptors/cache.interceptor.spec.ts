@@ -9,10 +9,21 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { HttpEvent, HttpRequest, HttpResponse } from '@angular/common/http';
-import { of, Subject } from 'rxjs';
+import {
+  HttpContext,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Injector, runInInjectionContext, signal } from '@angular/core';
+import { lastValueFrom, of, Subject, throwError } from 'rxjs';
 
-import { CacheInterceptor } from '../interceptors';
+import { CacheInterceptor, DedupeInterceptor } from '../interceptors';
+import { HttpCacheService } from '../services';
+import { AuthStore, TenantStore } from '../store';
+import { API_BASE_URL, CACHE, CACHE_CONFIG } from '../tokens';
+import { CacheConfig } from '../interfaces';
 
 class MockHandler {
   handle = vi.fn();
@@ -21,11 +32,43 @@ class MockHandler {
 describe('CacheInterceptor', () => {
   let interceptor: CacheInterceptor;
   let handler: MockHandler;
+  let userId: ReturnType<typeof signal<string>>;
+  let tenantId: ReturnType<typeof signal<string | null>>;
   const response = new HttpResponse({ body: { data: 'test' } });
   const url = '/api/data';
 
+  function createInterceptor(config?: CacheConfig): CacheInterceptor {
+    const injector = Injector.create({
+      providers: [
+        { provide: AuthStore, useValue: { userId } },
+        { provide: TenantStore, useValue: { tenantId } },
+        { provide: API_BASE_URL, useValue: '/api' },
+        ...(config ? [{ provide: CACHE_CONFIG, useValue: config }] : []),
+      ],
+    });
+    const cache = runInInjectionContext(injector, () => new HttpCacheService());
+    const child = Injector.create({
+      providers: [{ provide: HttpCacheService, useValue: cache }],
+      parent: injector,
+    });
+    return runInInjectionContext(child, () => new CacheInterceptor());
+  }
+
+  /** Sends a request through the interceptor and waits for the last event. */
+  function send(req: HttpRequest<unknown>): Promise<HttpEvent<unknown>> {
+    return lastValueFrom(interceptor.intercept(req, handler as any));
+  }
+
+  function get(path: string, config?: CacheConfig): HttpRequest<unknown> {
+    return new HttpRequest('GET', path, {
+      context: config ? new HttpContext().set(CACHE, config) : undefined,
+    });
+  }
+
   beforeEach(() => {
-    interceptor = new CacheInterceptor();
+    userId = signal('user-1');
+    tenantId = signal<string | null>('acme');
+    interceptor = createInterceptor();
     handler = new MockHandler();
     vi.useFakeTimers();
   });
@@ -76,19 +119,169 @@ describe('CacheInterceptor', () => {
     expect(handler.handle).toHaveBeenCalledTimes(2);
   });
 
-  it('should prevent duplicate network requests for the same GET URL', async () => {
+  it('should prevent duplicate network requests for the same GET URL with DedupeInterceptor', async () => {
     const subject = new Subject<HttpEvent<unknown>>();
     handler.handle.mockReturnValue(subject.asObservable());
+    const dedupe = new DedupeInterceptor();
+    const next = { handle: (r: HttpRequest<unknown>) => dedupe.intercept(r, handler as any) };
     const req = new HttpRequest('GET', url);
     // Start two requests before the first completes
-    const p1 = interceptor.intercept(req, handler as any).toPromise();
-    const p2 = interceptor.intercept(req, handler as any).toPromise();
+    const p1 = interceptor.intercept(req, next as any).toPromise();
+    const p2 = interceptor.intercept(req, next as any).toPromise();
     expect(handler.handle).toHaveBeenCalledTimes(1);
     subject.next(response);
     subject.complete();
     expect(await p1).toEqual(response);
     expect(await p2).toEqual(response);
   });
+
+  it('should never cache failed responses', async () => {
+    handler.handle.mockReturnValueOnce(throwError(() => new HttpErrorResponse({ status: 503 })));
+    handler.handle.mockReturnValue(of(response));
+
+    await expect(send(get(url))).rejects.toBeInstanceOf(HttpErrorResponse);
+    expect(await send(get(url))).toEqual(response);
+    expect(handler.handle).toHaveBeenCalledTimes(2);
+  });
+
+  describe('policies', () => {
+    beforeEach(() => {
+      handler.handle.mockReturnValue(of(response));
+    });
+
+    it('should use the ttl of the request', async () => {
+      await send(get(url, { ttl: 1_000 }));
+      vi.advanceTimersByTime(1_000);
+      await send(get(url, { ttl: 1_000 }));
+
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch and update the cache with no-cache', async () => {
+      const fresh = new HttpResponse({ body: { data: 'fresh' } });
+      await send(get(url));
+      handler.handle.mockReturnValue(of(fresh));
+
+      expect(await send(get(url, { policy: 'no-cache' }))).toBe(fresh);
+      expect(await send(get(url))).toBe(fresh);
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+    });
+
+    it('should neither read nor write the cache with no-store', async () => {
+      await send(get(url, { policy: 'no-store' }));
+      await send(get(url));
+
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve a stale response while revalidating it', async () => {
+      const fresh = new HttpResponse({ body: { data: 'fresh' } });
+      const swr: CacheConfig = { policy: 'stale-while-revalidate', ttl: 1_000, maxStale: 5_000 };
+      await send(get(url, swr));
+      handler.handle.mockReturnValue(of(fresh));
+      vi.advanceTimersByTime(2_000);
+
+      expect(await send(get(url, swr))).toBe(response);
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+      expect(await send(get(url, swr))).toBe(fresh);
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not serve responses older than maxStale', async () => {
+      const swr: CacheConfig = { policy: 'stale-while-revalidate', ttl: 1_000, maxStale: 5_000 };
+      await send(get(url, swr));
+      vi.advanceTimersByTime(6_000);
+      await send(get(url, swr));
+
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the application configuration', async () => {
+      interceptor = createInterceptor({ policy: 'no-store' });
+      await send(get(url));
+      await send(get(url));
+
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('invalidation', () => {
+    beforeEach(() => {
+      handler.handle.mockReturnValue(of(response));
+    });
+
+    it('should evict the resource after a successful mutation', async () => {
+      await send(get('/api/candidates?page=1'));
+      await send(get('/api/candidates/42'));
+      await send(get('/api/requisitions'));
+
+      await send(new HttpRequest('POST', '/api/candidates', { name: 'Ann' }));
+      await send(get('/api/candidates?page=1'));
+      await send(get('/api/candidates/42'));
+      await send(get('/api/requisitions'));
+
+      expect(handler.handle).toHaveBeenCalledTimes(6);
+    });
+
+    it('should keep the cache when the mutation fails', async () => {
+      await send(get('/api/candidates'));
+      handler.handle.mockReturnValueOnce(throwError(() => new HttpErrorResponse({ status: 400 })));
+
+      await expect(send(new HttpRequest('DELETE', '/api/candidates/1'))).rejects.toBeDefined();
+      await send(get('/api/candidates'));
+
+      expect(handler.handle).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict the extra tags of a request', async () => {
+      await send(get('/api/metrics/hiring', { tags: ['dashboard'] }));
+
+      const req = new HttpRequest(
+        'PATCH',
+        '/api/requisitions/7',
+        {},
+        {
+          context: new HttpContext().set(CACHE, { tags: ['dashboard'] }),
+        },
+      );
+      await send(req);
+      await send(get('/api/metrics/hiring'));
+
+      expect(handler.handle).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('scope and size', () => {
+    beforeEach(() => {
+      handler.handle.mockReturnValue(of(response));
+    });
+
+    it('should not share cached responses between users or tenants', async () => {
+      await send(get(url));
+      userId.set('user-2');
+      await send(get(url));
+      tenantId.set('globex');
+      await send(get(url));
+      userId.set('user-1');
+      tenantId.set('acme');
+      await send(get(url));
+
+      expect(handler.handle).toHaveBeenCalledTimes(3);
+    });
+
+    it('should evict the least recently used response beyond maxEntries', async () => {
+      interceptor = createInterceptor({ maxEntries: 2 });
+      await send(get('/api/a'));
+      await send(get('/api/b'));
+      await send(get('/api/a'));
+      await send(get('/api/c'));
+
+      await send(get('/api/a'));
+      expect(handler.handle).toHaveBeenCalledTimes(3);
+      await send(get('/api/b'));
+      expect(handler.handle).toHaveBeenCalledTimes(4);
+    });
+  });
 });
 
 // Helper to create HttpHeaders for test requests
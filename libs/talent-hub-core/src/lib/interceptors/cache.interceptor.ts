@@ -8,7 +8,7 @@
  * @version 1.0.0
  */
 
-import { Injectable } from '@angular/core';
+import { inject, Injectable } from '@angular/core';
 import {
   HttpEvent,
   HttpHandler,
@@ -17,58 +17,68 @@ import {
   HttpResponse,
 } from '@angular/common/http';
 import { Observable, of } from 'rxjs';
-import { shareReplay, tap } from 'rxjs/operators';
+import { tap } from 'rxjs/operators';
+
+import { HttpCacheService } from '../services';
+import { CacheConfig, HttpCacheEntry } from '../interfaces';
+import { API_BASE_URL, CACHE, CACHE_CONFIG } from '../tokens';
 
 /**
- * Represents a single cache entry for a GET request.
+ * Cache settings used when `CACHE_CONFIG` is not provided.
+ *
+ * `maxEntries` is read by `HttpCacheService`.
  *
  * @internal
  */
-interface CacheEntry {
-  /**
-   * The cached response observable.
-   * Stored as an Observable to support request deduplication.
-   */
-  response: Observable<HttpEvent<unknown>>;
+const DEFAULT_CACHE_CONFIG: Required<Omit<CacheConfig, 'maxEntries'>> = {
+  policy: 'ttl',
+  ttl: 5 * 60 * 1000,
+  maxStale: 60 * 60 * 1000,
+  tags: [],
+};
 
-  /**
-   * The timestamp (ms since epoch) when the response was cached.
-   * Used for cache expiration checks.
-   */
-  timestamp: number;
-}
+/**
+ * Header that forces a fresh response, equivalent to the `'no-cache'` policy.
+ *
+ * @internal
+ */
+const REFRESH_HEADER = 'x-refresh';
 
 /**
- * HTTP interceptor that caches GET requests to reduce network calls and improve performance.
+ * HTTP interceptor that caches GET responses and evicts them when the data changes.
  *
- * This interceptor implements a simple in-memory cache for HTTP GET requests. It stores
- * successful responses and serves them from cache for subsequent identical requests,
- * reducing server load and improving perceived performance.
+ * Successful GET responses are stored in `HttpCacheService` and served from there for
+ * subsequent identical requests, according to the cache policy of the request. Any
+ * successful non-GET request evicts the cached responses of the same resource, so that
+ * a `POST /candidates` is followed by a fresh `GET /candidates`.
  *
  * @remarks
- * **Behavior:**
- * - Only caches GET requests; other HTTP methods bypass the cache.
- * - Caches successful `HttpResponse` events only (not errors).
- * - Cache entries expire after 5 minutes (configurable via `cacheDurationMs`).
- * - Supports cache-busting via the `x-refresh: true` header.
- * - Uses `shareReplay(1)` to deduplicate concurrent identical requests.
+ * **Policies:**
+ * | Policy | Behavior |
+ * |--------|----------|
+ * | `'ttl'` (default) | Serves the cached response while it is younger than `ttl` (5 minutes) |
+ * | `'stale-while-revalidate'` | Like `'ttl'`, then serves the stale response for up to `maxStale` while fetching a fresh one in the background |
+ * | `'no-cache'` | Always fetches, and caches the fresh response |
+ * | `'no-store'` | Bypasses the cache entirely |
  *
- * **Cache Key:**
- * The cache key is the full URL including query parameters (`req.urlWithParams`).
+ * The policy is set application-wide with `provideCacheConfig()` and per request with
+ * the `caching` option of `ApiService` (`HttpOptions.caching`) or the `CACHE` context
+ * token. The `x-refresh: true` header is a shorthand for `'no-cache'`; it is removed
+ * before the request is sent.
  *
- * **Cache-Busting:**
- * To force a fresh request and bypass the cache, add the header `x-refresh: true`:
- * ```typescript
- * httpClient.get('/api/data', {
- *   headers: new HttpHeaders({ 'x-refresh': 'true' })
- * });
- * ```
- * The `x-refresh` header is automatically removed before sending the request to the server.
+ * **Invalidation:**
+ * Every request is tagged with its resource: the first path segment after the API base
+ * URL (`candidates` for `/api/candidates/42/notes`). A successful POST, PUT, PATCH or
+ * DELETE evicts the cached responses carrying its resource tag and the `tags` of its
+ * `caching` options. `HttpCacheService.invalidate()` evicts tags by hand.
  *
- * **Limitations:**
- * - Uses in-memory storage; cache is cleared on page reload.
- * - Not suitable for large responses or sensitive data.
- * - For production, consider using service workers or HTTP cache headers.
+ * **Safety:**
+ * - Only successful responses are cached; a failed request leaves nothing behind.
+ * - Entries are scoped to the current tenant and user (see `HttpCacheService`).
+ * - The cache holds at most `maxEntries` (100) responses, evicting the least recently
+ *   used first.
+ * - Identical GET requests sent while one is pending are not shared here; register
+ *   `DedupeInterceptor` after this interceptor to coalesce them.
  *
  * @example
  * ```typescript
@@ -76,55 +86,50 @@ interface CacheEntry {
  * export const appConfig: ApplicationConfig = {
  *   providers: [
  *     provideHttpClient(withInterceptorsFromDi()),
+ *     { provide: HTTP_INTERCEPTORS, useClass: CacheInterceptor, multi: true },
+ *     provideCacheConfig({ ttl: 60_000 }),
  *   ],
  * };
  *
- * // First request - fetches from server and caches
- * httpClient.get('/api/users').subscribe(users => console.log(users));
- *
- * // Second request within 5 minutes - served from cache
- * httpClient.get('/api/users').subscribe(users => console.log(users));
+ * this.api.get<Candidate[]>('/candidates'); // Fetches and caches
+ * this.api.get<Candidate[]>('/candidates'); // Served from the cache
+ * this.api.post<Candidate>('/candidates', data); // Evicts GET /candidates*
+ * this.api.get<Candidate[]>('/candidates'); // Fetches again
  *
- * // Force refresh - bypasses cache
- * httpClient.get('/api/users', {
- *   headers: new HttpHeaders({ 'x-refresh': 'true' })
- * }).subscribe(users => console.log(users));
+ * // Per request
+ * this.api.get<Country[]>('/countries', { caching: { ttl: 24 * 60 * 60_000 } });
+ * this.api.get<Inbox>('/me/inbox', { caching: { policy: 'no-store' } });
  * ```
  *
+ * @see HttpCacheService
+ * @see DedupeInterceptor
+ * @see CacheConfig
+ * @see provideCacheConfig
+ * @see CACHE
  * @see HttpInterceptor
  * @publicApi
  */
 @Injectable({ providedIn: 'root' })
 export class CacheInterceptor implements HttpInterceptor {
-  /**
-   * In-memory cache storage for GET request responses.
-   *
-   * Maps request URLs (including query params) to their cached responses
-   * and timestamps. Entries are automatically expired based on `cacheDurationMs`.
-   *
-   * @internal
-   */
-  private readonly cache: Map<string, CacheEntry> = new Map<string, CacheEntry>();
+  /** @internal Store of the cached responses. */
+  private readonly cache = inject(HttpCacheService);
+
+  /** @internal Path of the API base URL, removed from request paths to find the resource. */
+  private readonly basePath: string = this.toPath(
+    inject(API_BASE_URL, { optional: true }) ?? '',
+  ).replace(/\/+$/, '');
 
   /**
-   * Cache duration in milliseconds.
-   *
-   * Cached responses older than this duration are considered stale and
-   * will be refreshed on the next request. Default: 5 minutes (300,000 ms).
-   *
-   * @remarks
-   * Adjust this value based on your data freshness requirements:
-   * - Lower values for frequently changing data.
-   * - Higher values for static or rarely changing data.
+   * Effective cache configuration (provided values merged over defaults).
+   * @internal
    */
-  private readonly cacheDurationMs: number = 5 * 60 * 1000;
+  private readonly config: Required<Omit<CacheConfig, 'maxEntries'>> = {
+    ...DEFAULT_CACHE_CONFIG,
+    ...inject(CACHE_CONFIG, { optional: true }),
+  };
 
   /**
-   * Intercepts HTTP requests and serves cached responses for GET requests.
-   *
-   * This method is called for every HTTP request made through Angular's `HttpClient`.
-   * For GET requests, it checks the cache and returns cached responses when available
-   * and not expired.
+   * Intercepts HTTP requests, serves cached GET responses and evicts them on changes.
    *
    * @param req - The outgoing HTTP request to intercept.
    * @param next - The next handler in the HTTP interceptor chain.
@@ -132,63 +137,100 @@ export class CacheInterceptor implements HttpInterceptor {
    *
    * @remarks
    * **Processing Logic:**
-   * 1. Non-GET requests bypass the cache entirely.
-   * 2. Check for `x-refresh: true` header for cache-busting.
-   * 3. If cached response exists and is not expired, return it immediately.
-   * 4. If cached response is expired, delete it and fetch fresh data.
-   * 5. For new requests, store the observable in cache immediately (deduplication).
-   * 6. On successful response, update the cache with the actual response.
-   *
-   * @example
-   * ```typescript
-   * // Automatic caching for GET requests
-   * httpClient.get('/api/config'); // Fetches and caches
-   * httpClient.get('/api/config'); // Returns from cache
-   *
-   * // POST requests are not cached
-   * httpClient.post('/api/users', data); // Always fetches
-   * ```
+   * 1. Non-GET requests are sent, and their success evicts the matching tags.
+   * 2. `'no-store'` GET requests bypass the cache.
+   * 3. A fresh cached response is returned immediately (except with `'no-cache'`).
+   * 4. A stale one is returned under `'stale-while-revalidate'` while a fresh one is fetched.
+   * 5. Otherwise the request is sent and a successful response is cached.
    */
   intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
-    // Only cache GET requests
+    const config: Required<Omit<CacheConfig, 'maxEntries'>> = {
+      ...this.config,
+      ...req.context.get(CACHE),
+    };
+    const tags: string[] = [this.getResourceTag(req.url), ...config.tags];
+
     if (req.method !== 'GET') {
-      return next.handle(req);
+      return next.handle(req).pipe(
+        tap((event: HttpEvent<unknown>): void => {
+          if (event instanceof HttpResponse && event.ok) {
+            this.cache.invalidate(...tags);
+          }
+        }),
+      );
     }
 
-    // Check for cache-busting header
-    const refresh: boolean = req.headers.get('x-refresh') === 'true';
-    const cacheKey: string = req.urlWithParams;
-    const cached: CacheEntry | undefined = this.cache.get(cacheKey);
-    const now: number = Date.now();
+    const refresh: boolean = req.headers.get(REFRESH_HEADER) === 'true';
+    const cleanReq: HttpRequest<unknown> = req.headers.has(REFRESH_HEADER)
+      ? req.clone({ headers: req.headers.delete(REFRESH_HEADER) })
+      : req;
+    const policy = refresh ? 'no-cache' : config.policy;
+    if (policy === 'no-store') {
+      return next.handle(cleanReq);
+    }
 
-    // Serve from cache if not refreshing and cache is valid
-    if (!refresh && cached) {
-      if (now - cached.timestamp < this.cacheDurationMs) {
-        return cached.response;
-      } else {
-        // Cache expired, remove stale entry
-        this.cache.delete(cacheKey);
+    const cached: HttpCacheEntry | null =
+      policy === 'no-cache' ? null : this.cache.get(req.urlWithParams);
+    if (cached) {
+      const age: number = Date.now() - cached.storedAt;
+      if (age < config.ttl) {
+        return of(cached.response);
+      }
+      if (policy === 'stale-while-revalidate' && age < config.ttl + config.maxStale) {
+        // Errors are reported by the interceptors behind this one; the stale response stays
+        this.fetch(cleanReq, next, tags).subscribe({ error: (): void => undefined });
+        return of(cached.response);
       }
+      this.cache.delete(req.urlWithParams);
     }
 
-    // Remove the cache-busting header before sending to backend
-    const cleanReq = refresh ? req.clone({ headers: req.headers.delete('x-refresh') }) : req;
+    return this.fetch(cleanReq, next, tags);
+  }
 
-    // Make the network request and cache the response
-    const request$ = next.handle(cleanReq).pipe(
-      tap((event): void => {
-        // Only cache successful HttpResponse events
+  /**
+   * Sends a GET request and caches its successful response.
+   *
+   * @param req - The request to send.
+   * @param next - The next handler in the HTTP interceptor chain.
+   * @param tags - Invalidation tags of the response.
+   * @internal
+   */
+  private fetch(
+    req: HttpRequest<unknown>,
+    next: HttpHandler,
+    tags: string[],
+  ): Observable<HttpEvent<unknown>> {
+    const url: string = req.urlWithParams;
+    return next.handle(req).pipe(
+      tap((event: HttpEvent<unknown>): void => {
         if (event instanceof HttpResponse) {
-          this.cache.set(cacheKey, { response: of(event), timestamp: Date.now() });
+          this.cache.set(url, event, tags);
         }
       }),
-      // Share the observable to prevent duplicate requests
-      shareReplay(1),
     );
+  }
 
-    // Store the observable in cache immediately to prevent duplicate requests
-    this.cache.set(cacheKey, { response: request$, timestamp: now });
+  /**
+   * Returns the resource tag of a URL: its first path segment after the API base URL.
+   *
+   * @param url - Request URL, relative or absolute.
+   * @internal
+   */
+  private getResourceTag(url: string): string {
+    let path: string = this.toPath(url);
+    if (this.basePath && (path === this.basePath || path.startsWith(`${this.basePath}/`))) {
+      path = path.slice(this.basePath.length);
+    }
+    return path.split('/').find((segment: string): boolean => segment.length > 0) ?? '';
+  }
 
-    return request$;
+  /**
+   * Removes the origin, query string and fragment from a URL.
+   *
+   * @param url - URL, relative or absolute.
+   * @internal
+   */
+  private toPath(url: string): string {
+    return url.replace(/^(https?:)?\/\/[^/]+/, '').replace(/[?#].*$/, '');
   }
 }
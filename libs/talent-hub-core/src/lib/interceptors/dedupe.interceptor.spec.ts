@@ -0,0 +1,148 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  HttpContext,
+  HttpEvent,
+  HttpHandler,
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Injector, runInInjectionContext } from '@angular/core';
+import { Subject } from 'rxjs';
+
+import { DedupeInterceptor } from '../interceptors';
+import { CACHE, OFFLINE_CACHE, RETRY, SKIP_AUTH } from '../tokens';
+
+describe('DedupeInterceptor', () => {
+  let interceptor: DedupeInterceptor;
+  let responses: Subject<HttpEvent<unknown>>[];
+  let next: HttpHandler;
+
+  beforeEach(() => {
+    interceptor = runInInjectionContext(
+      Injector.create({ providers: [] }),
+      () => new DedupeInterceptor(),
+    );
+    responses = [];
+    next = {
+      handle: vi.fn(() => {
+        const response = new Subject<HttpEvent<unknown>>();
+        responses.push(response);
+        return response;
+      }),
+    };
+  });
+
+  it('should share a pending identical GET request', () => {
+    const req = new HttpRequest('GET', '/api/candidates?q=ann');
+    const first = vi.fn();
+    const second = vi.fn();
+    interceptor.intercept(req, next).subscribe(first);
+    interceptor.intercept(req.clone(), next).subscribe(second);
+
+    responses[0].next(new HttpResponse({ body: ['ann'] }));
+
+    expect(next.handle).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(expect.objectContaining({ body: ['ann'] }));
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ body: ['ann'] }));
+  });
+
+  it('should send the request again once the previous one has completed', () => {
+    const req = new HttpRequest('GET', '/api/candidates');
+    interceptor.intercept(req, next).subscribe();
+    responses[0].next(new HttpResponse({ body: [] }));
+    responses[0].complete();
+
+    interceptor.intercept(req, next).subscribe();
+
+    expect(next.handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send the request again after a failure', () => {
+    const req = new HttpRequest('GET', '/api/candidates');
+    interceptor.intercept(req, next).subscribe({ error: () => undefined });
+    responses[0].error(new Error('offline'));
+
+    interceptor.intercept(req, next).subscribe();
+
+    expect(next.handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share requests with different URLs or headers', () => {
+    interceptor.intercept(new HttpRequest('GET', '/api/candidates?q=a'), next).subscribe();
+    interceptor.intercept(new HttpRequest('GET', '/api/candidates?q=b'), next).subscribe();
+    interceptor
+      .intercept(
+        new HttpRequest('GET', '/api/candidates?q=a', {
+          headers: new HttpHeaders({ 'X-Tenant-Id': 'acme' }),
+        }),
+        next,
+      )
+      .subscribe();
+
+    expect(next.handle).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not share requests with different behavior-changing context tokens', () => {
+    const send = (context?: HttpContext) =>
+      interceptor
+        .intercept(new HttpRequest('GET', '/api/candidates', { context }), next)
+        .subscribe();
+    send();
+    send(new HttpContext().set(SKIP_AUTH, true));
+    send(new HttpContext().set(CACHE, { policy: 'no-store' }));
+    send(new HttpContext().set(RETRY, false));
+    send(new HttpContext().set(OFFLINE_CACHE, true));
+
+    expect(next.handle).toHaveBeenCalledTimes(5);
+  });
+
+  it('should share requests with equal context token values', () => {
+    const send = () =>
+      interceptor
+        .intercept(
+          new HttpRequest('GET', '/api/candidates', {
+            context: new HttpContext().set(RETRY, { count: 1 }),
+          }),
+          next,
+        )
+        .subscribe();
+    send();
+    send();
+
+    expect(next.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never share other methods', () => {
+    const req = new HttpRequest('POST', '/api/candidates', { name: 'Ann' });
+    interceptor.intercept(req, next).subscribe();
+    interceptor.intercept(req, next).subscribe();
+
+    expect(next.handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cancel the shared request only when every caller has unsubscribed', () => {
+    const req = new HttpRequest('GET', '/api/candidates');
+    const first = interceptor.intercept(req, next).subscribe();
+    const second = interceptor.intercept(req, next).subscribe();
+
+    first.unsubscribe();
+    expect(responses[0].observed).toBe(true);
+
+    second.unsubscribe();
+    expect(responses[0].observed).toBe(false);
+
+    interceptor.intercept(req, next).subscribe();
+    expect(next.handle).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Injectable } from '@angular/core';
+import {
+  HttpContextToken,
+  HttpEvent,
+  HttpHandler,
+  HttpInterceptor,
+  HttpRequest,
+} from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { finalize, share } from 'rxjs/operators';
+
+import { CACHE, OFFLINE_CACHE, RETRY, SKIP_AUTH } from '../tokens';
+
+/**
+ * Context tokens that change how the interceptors send or handle a GET request, by name.
+ *
+ * Requests carrying different values for one of them are not identical.
+ *
+ * @internal
+ */
+const KEYED_CONTEXT_TOKENS: Record<string, HttpContextToken<unknown>> = {
+  SKIP_AUTH,
+  CACHE,
+  RETRY,
+  OFFLINE_CACHE,
+};
+
+/**
+ * HTTP interceptor that coalesces identical in-flight GET requests into one.
+ *
+ * When a GET request is sent while an identical one is still pending, the second
+ * request does not reach the server; it receives the events of the pending one. Search
+ * boxes, route changes and components loading the same data at the same time therefore
+ * cause a single network call.
+ *
+ * @remarks
+ * **Identical Requests:**
+ * Two GET requests are identical when their URL with query parameters, headers,
+ * response type, credentials flag and the values of the `SKIP_AUTH`, `CACHE`, `RETRY`
+ * and `OFFLINE_CACHE` context tokens are the same. Requests of other methods are never
+ * coalesced.
+ *
+ * **Cancellation:**
+ * The shared request is only cancelled when every caller has unsubscribed. A caller
+ * that cancels (e.g., through `ApiService.cancelGroup()`) does not affect the others.
+ *
+ * **Lifetime:**
+ * A request is shared only while it is pending. Once it completes or fails, the next
+ * identical request is sent to the server again; use `CacheInterceptor` to reuse
+ * completed responses.
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts - Register the interceptor
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideHttpClient(withInterceptorsFromDi()),
+ *     { provide: HTTP_INTERCEPTORS, useClass: DedupeInterceptor, multi: true },
+ *   ],
+ * };
+ *
+ * // Both calls share one network request
+ * this.api.get<Candidate[]>('/candidates?q=ann').subscribe(...);
+ * this.api.get<Candidate[]>('/candidates?q=ann').subscribe(...);
+ * ```
+ *
+ * @see ApiService
+ * @see CacheInterceptor
+ * @see HttpInterceptor
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class DedupeInterceptor implements HttpInterceptor {
+  /**
+   * Pending GET requests, by request key.
+   * @internal
+   */
+  private readonly inFlight = new Map<string, Observable<HttpEvent<unknown>>>();
+
+  /**
+   * Intercepts HTTP requests and shares pending identical GET requests.
+   *
+   * @param req - The outgoing HTTP request to intercept.
+   * @param next - The next handler in the HTTP interceptor chain.
+   * @returns An `Observable` of the HTTP event stream, shared with identical requests.
+   */
+  intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (req.method !== 'GET') {
+      return next.handle(req);
+    }
+
+    const key: string = this.getKey(req);
+    const pending: Observable<HttpEvent<unknown>> | undefined = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const shared: Observable<HttpEvent<unknown>> = next.handle(req).pipe(
+      finalize((): void => {
+        if (this.inFlight.get(key) === shared) {
+          this.inFlight.delete(key);
+        }
+      }),
+      share(),
+    );
+    this.inFlight.set(key, shared);
+    return shared;
+  }
+
+  /**
+   * Builds the key identifying identical requests.
+   *
+   * @param req - The request.
+   * @internal
+   */
+  private getKey(req: HttpRequest<unknown>): string {
+    const headers: string = req.headers
+      .keys()
+      .sort()
+      .map((name: string): string => `${name.toLowerCase()}:${req.headers.getAll(name)?.join(',')}`)
+      .join('\n');
+    const context: string = Object.entries(KEYED_CONTEXT_TOKENS)
+      .map(
+        ([name, token]: [string, HttpContextToken<unknown>]): string =>
+          `${name}:${JSON.stringify(req.context.get(token))}`,
+      )
+      .join('\n');
+    return [req.responseType, req.withCredentials, req.urlWithParams, headers, context].join('\n');
+  }
+}
@@ -15,13 +15,15 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { HttpErrorResponse, HttpEvent, HttpRequest } from '@angular/common/http';
+import { HttpContext, HttpErrorResponse, HttpEvent, HttpRequest } from '@angular/common/http';
 import { Injector, runInInjectionContext } from '@angular/core';
-import { lastValueFrom, of, throwError } from 'rxjs';
+import { lastValueFrom, NEVER, of, throwError } from 'rxjs';
 
 import { ErrorHandlingInterceptor } from '../interceptors';
-import { EventBusService, LoggerService } from '../services';
+import { EventBusService, LoggerService, RequestTraceService } from '../services';
 import { APP_CONSTANT } from '../constants';
+import { ApiError } from '../models';
+import { OUTBOX } from '../tokens';
 
 describe('ErrorHandlingInterceptor', () => {
   let interceptor: ErrorHandlingInterceptor;
@@ -37,6 +39,7 @@ describe('ErrorHandlingInterceptor', () => {
       providers: [
         { provide: LoggerService, useValue: mockLogger },
         { provide: EventBusService, useValue: mockEventBus },
+        { provide: RequestTraceService, useClass: RequestTraceService, deps: [] },
       ],
     });
     return runInInjectionContext(injector, () => new ErrorHandlingInterceptor());
@@ -66,20 +69,25 @@ describe('ErrorHandlingInterceptor', () => {
     ).catch(() => {
       expect(mockLogger.error).toHaveBeenCalledWith('HTTP Error:', {
         status: 404,
+        code: 'not_found',
         message: error.message,
         error: 'Not found',
+        correlationId: null,
+        requestId: null,
+        traceId: null,
       });
       expect(mockEventBus.publish).toHaveBeenCalledWith(
         APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR,
         expect.objectContaining({
           status: 404,
-          message: error.message,
+          code: 'not_found',
+          message: 'The requested item could not be found.',
           error: 'Not found',
           url: '/api/test',
           method: 'GET',
-          requestUrl: '/api/test',
         }),
       );
+      expect(mockEventBus.publish.mock.calls[0][1]).toBeInstanceOf(ApiError);
     });
   });
 
@@ -90,15 +98,46 @@ describe('ErrorHandlingInterceptor', () => {
     await lastValueFrom(
       interceptor.intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1]),
     ).catch(() => {
-      expect(mockLogger.error).toHaveBeenCalledWith('Unknown HTTP Error:', error);
+      expect(mockLogger.error).toHaveBeenCalledWith('Unknown HTTP Error:', {
+        error,
+        requestId: null,
+        traceId: null,
+      });
       expect(mockEventBus.publish).toHaveBeenCalledWith(
         APP_CONSTANT.EVENT_BUS_KEYS.HTTP_UNKNOWN_ERROR,
-        { error },
+        { error, requestId: null, traceId: null },
       );
     });
   });
 
-  it('should rethrow the error after handling', async () => {
+  it('should attach the trace ids of the request to the log and the error', async () => {
+    next.handle.mockReturnValue(
+      throwError(() => new HttpErrorResponse({ status: 503, url: '/api/traced' })),
+    );
+    const req = new HttpRequest('GET', '/api/traced').clone({
+      setHeaders: {
+        'X-Request-Id': 'request-1',
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+      },
+    });
+    const rejected = await lastValueFrom(
+      interceptor.intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1]),
+    ).catch((e: unknown) => e);
+
+    expect(rejected).toMatchObject({
+      requestId: 'request-1',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    });
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'HTTP Error:',
+      expect.objectContaining({
+        requestId: 'request-1',
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      }),
+    );
+  });
+
+  it('should rethrow the normalized error after handling', async () => {
     const error = new HttpErrorResponse({
       status: 500,
       statusText: 'Server Error',
@@ -108,11 +147,20 @@ describe('ErrorHandlingInterceptor', () => {
     });
     next.handle.mockReturnValue(throwError(() => error));
     const req = new HttpRequest('DELETE', '/api/fail');
-    await expect(
-      lastValueFrom(
-        interceptor.intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1]),
-      ),
-    ).rejects.toBe(error);
+    const rejected = await lastValueFrom(
+      interceptor.intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1]),
+    ).catch((e: unknown) => e);
+
+    expect(rejected).toBeInstanceOf(ApiError);
+    expect(rejected).toBeInstanceOf(HttpErrorResponse);
+    expect(rejected).toMatchObject({
+      status: 500,
+      error: 'fail',
+      code: 'server_error',
+      message: 'Something went wrong. Please try again later.',
+      retryable: true,
+    });
+    expect(mockEventBus.publish.mock.calls[0][1]).toBe(rejected);
   });
 
   it('should pass through successful responses', async () => {
@@ -126,4 +174,38 @@ describe('ErrorHandlingInterceptor', () => {
     expect(mockLogger.error).not.toHaveBeenCalled();
     expect(mockEventBus.publish).not.toHaveBeenCalled();
   });
+
+  it('should not report network errors of mutations queued in the outbox', async () => {
+    const error = new HttpErrorResponse({ status: 0, url: '/api/feedback' });
+    next.handle.mockReturnValue(throwError(() => error));
+    const req = new HttpRequest(
+      'POST',
+      '/api/feedback',
+      {},
+      {
+        context: new HttpContext().set(OUTBOX, true),
+      },
+    );
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1]),
+      ),
+    ).rejects.toMatchObject({ status: 0, code: 'network_error' });
+    expect(mockLogger.error).not.toHaveBeenCalled();
+    expect(mockEventBus.publish).not.toHaveBeenCalled();
+  });
+
+  it('should not report cancelled requests', () => {
+    next.handle.mockReturnValue(NEVER);
+    const req = new HttpRequest('GET', '/api/search');
+    const subscription = interceptor
+      .intercept(req, next as unknown as Parameters<typeof interceptor.intercept>[1])
+      .subscribe();
+
+    subscription.unsubscribe();
+
+    expect(mockLogger.error).not.toHaveBeenCalled();
+    expect(mockEventBus.publish).not.toHaveBeenCalled();
+  });
 });
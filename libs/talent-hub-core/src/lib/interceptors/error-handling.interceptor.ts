@@ -19,28 +19,40 @@ import {
 import { Observable, throwError } from 'rxjs';
 import { catchError } from 'rxjs/operators';
 
-import { EventBusService, LoggerService } from '../services';
+import { EventBusService, LoggerService, RequestTraceService } from '../services';
 import { APP_CONSTANT } from '../constants';
+import { RequestTrace } from '../interfaces';
+import { ApiError } from '../models';
+import { OUTBOX } from '../tokens';
 
 /**
  * HTTP interceptor that provides centralized error handling for all HTTP requests.
  *
- * This interceptor catches HTTP errors, logs them using `LoggerService`, and publishes
- * error events via `EventBusService` for global error handling, notifications, or UI feedback.
+ * This interceptor catches HTTP errors, normalizes them to `ApiError`, logs them using
+ * `LoggerService`, and publishes error events via `EventBusService` for global error
+ * handling, notifications, or UI feedback.
  * It enables consistent error handling across all micro-frontends without duplicating code.
  *
  * @remarks
  * **Behavior:**
  * - Catches all HTTP errors from `HttpClient` requests.
+ * - Normalizes every `HttpErrorResponse` to an `ApiError` (code, user-safe message, field
+ *   errors, correlation id, retryable flag), parsed from RFC 7807 problem details and the
+ *   legacy error bodies. Callers receive the `ApiError`, which is still an
+ *   `HttpErrorResponse`.
  * - Logs errors with detailed context using `LoggerService`.
  * - Publishes error events via `EventBusService` for application-wide handling.
- * - Re-throws errors so they can be handled by calling code if needed.
+ * - Re-throws errors (normalized) so they can be handled by calling code if needed.
+ * - Ignores cancelled requests (e.g., through `ApiService.cancelGroup()`): a cancellation
+ *   unsubscribes from the request instead of failing it, so nothing is logged or published.
+ * - Ignores network errors of mutations backed by the offline outbox (`OUTBOX` context
+ *   token), which are queued and replayed instead of failing.
  *
  * **Event Keys:**
  * | Event Key | Trigger | Payload |
  * |-----------|---------|---------|
- * | `th:http.error` | `HttpErrorResponse` | `{ status, message, error, url, method, requestUrl }` |
- * | `th:http.unknown.error` | Non-HTTP errors | `{ error }` |
+ * | `th:http.error` | `HttpErrorResponse` | `ApiError` |
+ * | `th:http.unknown.error` | Non-HTTP errors | `{ error, requestId, traceId }` |
  *
  * **Error Types Handled:**
  * - `HttpErrorResponse` - Server errors (4xx, 5xx), network errors, timeout.
@@ -49,8 +61,8 @@ import { APP_CONSTANT } from '../constants';
  * **Integration:**
  * Subscribe to error events in a global error handler or notification service:
  * ```typescript
- * eventBus.on(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR).subscribe((meta) => {
- *   showErrorNotification(meta.data.message);
+ * eventBus.on<ApiError>(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR).subscribe((meta) => {
+ *   showErrorNotification(meta.data?.message);
  * });
  * ```
  *
@@ -73,7 +85,7 @@ import { APP_CONSTANT } from '../constants';
  * });
  *
  * // Subscribe to global error events
- * eventBus.on<HttpErrorPayload>(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR)
+ * eventBus.on<ApiError>(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR)
  *   .subscribe((meta) => {
  *     if (meta.data?.status === 401) {
  *       redirectToLogin();
@@ -83,6 +95,7 @@ import { APP_CONSTANT } from '../constants';
  *   });
  * ```
  *
+ * @see ApiError
  * @see LoggerService
  * @see EventBusService
  * @see APP_CONSTANT
@@ -106,6 +119,14 @@ export class ErrorHandlingInterceptor implements HttpInterceptor {
    */
   private readonly eventBus = inject(EventBusService);
 
+  /**
+   * The RequestTraceService instance for reading the trace ids of failed requests.
+   *
+   * Injected from Angular's DI system to attach the `X-Request-Id` and `traceparent` ids
+   * to error logs and events.
+   */
+  private readonly requestTrace = inject(RequestTraceService);
+
   /**
    * Intercepts HTTP requests and provides centralized error handling.
    *
@@ -120,19 +141,24 @@ export class ErrorHandlingInterceptor implements HttpInterceptor {
    * **Processing Logic:**
    * 1. Forward the request to the next handler.
    * 2. If an error occurs, determine if it's an `HttpErrorResponse` or unknown error.
-   * 3. Log the error with appropriate context using `LoggerService`.
-   * 4. Publish the error event via `EventBusService` with relevant details.
-   * 5. Re-throw the error so calling code can handle it if needed.
+   * 3. Normalize an `HttpErrorResponse` to an `ApiError`.
+   * 4. Log the error with appropriate context using `LoggerService`.
+   * 5. Publish the error event via `EventBusService` with relevant details.
+   * 6. Re-throw the error so calling code can handle it if needed.
    *
    * **Error Payload for `HttpErrorResponse`:**
+   * The `ApiError`, for example:
    * ```typescript
    * {
-   *   status: 404,
-   *   message: 'Not Found',
-   *   error: { ... },
-   *   url: 'https://api.example.com/users/123',
-   *   method: 'GET',
-   *   requestUrl: '/users/123'
+   *   status: 422,
+   *   code: 'validation_failed',
+   *   message: 'The title is required.',
+   *   fieldErrors: { title: ['The title is required.'] },
+   *   correlationId: 'c0a8012e-4f1b-4c2e-9d3a-7b6e5f4a3c21',
+   *   retryable: false,
+   *   url: 'https://api.example.com/requisitions',
+   *   method: 'POST',
+   *   error: { ... } // raw body
    * }
    * ```
    *
@@ -146,33 +172,47 @@ export class ErrorHandlingInterceptor implements HttpInterceptor {
   intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
     return next.handle(req).pipe(
       catchError((error: unknown) => {
-        if (error instanceof HttpErrorResponse) {
-          // Log HTTP errors with detailed context
-          this.logger.error('HTTP Error:', {
-            status: error.status,
-            message: error.message,
-            error: error.error,
-          });
+        // Ids sent by RequestTracingInterceptor, to match the error with its backend trace
+        const trace: RequestTrace | null = this.requestTrace.readTrace(req.headers);
+        const requestId: string | null = trace?.requestId ?? null;
+        const traceId: string | null = trace?.traceId ?? null;
 
-          // Publish error event for global handling (notifications, redirects, etc.)
-          this.eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR, {
-            status: error.status,
-            message: error.message,
-            error: error.error,
-            url: error.url,
-            method: req.method,
-            requestUrl: req.url,
-          });
-        } else {
+        if (!(error instanceof HttpErrorResponse)) {
           // Handle unexpected non-HTTP errors
-          this.logger.error('Unknown HTTP Error:', error);
+          this.logger.error('Unknown HTTP Error:', { error, requestId, traceId });
 
           // Publish unknown error event
-          this.eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_UNKNOWN_ERROR, { error });
+          this.eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_UNKNOWN_ERROR, {
+            error,
+            requestId,
+            traceId,
+          });
+          return throwError((): unknown => error);
+        }
+
+        const apiError: ApiError =
+          error instanceof ApiError ? error : new ApiError(error, req.method, trace);
+        if (apiError.status === 0 && req.context.get(OUTBOX)) {
+          // Queued in the outbox and replayed later; not an error for the user
+          return throwError((): unknown => apiError);
         }
 
-        // Re-throw the error so it can be handled by calling code if needed
-        return throwError((): unknown => error);
+        // Log HTTP errors with detailed context
+        this.logger.error('HTTP Error:', {
+          status: apiError.status,
+          code: apiError.code,
+          message: error.message,
+          error: apiError.error,
+          correlationId: apiError.correlationId,
+          requestId,
+          traceId,
+        });
+
+        // Publish error event for global handling (notifications, redirects, etc.)
+        this.eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR, apiError);
+
+        // Re-throw the normalized error so it can be handled by calling code if needed
+        return throwError((): unknown => apiError);
       }),
     );
   }
@@ -42,17 +42,27 @@
  * |-------------|-------------|
  * | `apiPrefixInterceptor` | Adds API base URL prefix to requests |
  * | `authInterceptor` | Attaches authentication tokens to requests |
- * | `cacheInterceptor` | Caches HTTP responses for performance |
+ * | `cacheInterceptor` | Caches GET responses with policies, LRU and tag invalidation |
+ * | `dedupeInterceptor` | Coalesces identical in-flight GET requests |
  * | `errorHandlingInterceptor` | Global error handling and transformation |
  * | `loadingIndicatorInterceptor` | Manages loading state during requests |
+ * | `offlineCacheInterceptor` | Keeps GET responses in IndexedDB and serves them while offline |
+ * | `requestTracingInterceptor` | Stamps requests with `X-Request-Id` and `traceparent` headers |
+ * | `retryInterceptor` | Retries failed idempotent requests with exponential backoff |
+ * | `mockBackendInterceptor` | In-browser mock backend for `/mocks` requests in development |
  *
  * ## Recommended Order
  *
  * 1. `apiPrefixInterceptor` - URL transformation first
  * 2. `authInterceptor` - Add auth headers
  * 3. `cacheInterceptor` - Check cache before request
- * 4. `loadingIndicatorInterceptor` - Track loading state
- * 5. `errorHandlingInterceptor` - Handle errors last
+ * 4. `dedupeInterceptor` - Share identical pending GET requests
+ * 5. `requestTracingInterceptor` - Stamp trace ids (after dedupe, so it still coalesces)
+ * 6. `loadingIndicatorInterceptor` - Track loading state
+ * 7. `errorHandlingInterceptor` - Handle errors
+ * 8. `offlineCacheInterceptor` - Serve stored responses instead of network errors
+ * 9. `retryInterceptor` - Retry failures before they are reported
+ * 10. `mockBackendInterceptor` - Answer mock requests in place of the server
  *
  * @module interceptors
  * @publicApi
@@ -64,11 +74,26 @@ export * from './api-prefix.interceptor';
 /** Attaches JWT/Bearer tokens to outgoing requests */
 export * from './auth.interceptor';
 
-/** Caches HTTP responses based on URL and method */
+/** Caches GET responses per account and evicts them when the resource changes */
 export * from './cache.interceptor';
 
+/** Coalesces identical in-flight GET requests into one */
+export * from './dedupe.interceptor';
+
 /** Global error handling, transforms errors to user-friendly messages */
 export * from './error-handling.interceptor';
 
 /** Manages global loading indicator state during HTTP requests */
 export * from './loading-indicator.interceptor';
+
+/** Stores GET responses per tenant in IndexedDB and serves them while offline */
+export * from './offline-cache.interceptor';
+
+/** Stamps requests with X-Request-Id and W3C traceparent headers and records their outcome */
+export * from './request-tracing.interceptor';
+
+/** Retries failed idempotent requests with exponential backoff and jitter */
+export * from './retry.interceptor';
+
+/** In-browser mock backend for requests to the `/mocks` base URL in development mode */
+export * from './mock-backend.interceptor';
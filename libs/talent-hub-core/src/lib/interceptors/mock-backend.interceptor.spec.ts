@@ -0,0 +1,340 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @fileoverview Unit tests for MockBackendInterceptor.
+ *
+ * Tests use Angular's `Injector.create()` and `runInInjectionContext()` to properly
+ * instantiate the interceptor with mocked dependencies. This approach works with
+ * the interceptor's use of `inject()` at the class field level.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpErrorResponse, HttpParams, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Injector, runInInjectionContext } from '@angular/core';
+import { firstValueFrom, Observable, of } from 'rxjs';
+
+import { MockBackendInterceptor } from '../interceptors';
+import { MockBackendConfig, MockHandler, MockRequest, Page } from '../interfaces';
+import { LoggerService, MockDatabaseService } from '../services';
+import { provideMockBackendConfig, provideMockHandlers } from '../tokens';
+import { AppUtil } from '../utils';
+
+describe('MockBackendInterceptor', () => {
+  let interceptor: MockBackendInterceptor;
+  let next: { handle: ReturnType<typeof vi.fn> };
+  let db: MockDatabaseService;
+  let mockLogger: { warn: ReturnType<typeof vi.fn> };
+
+  const getCandidate: MockHandler = {
+    method: 'GET',
+    path: '/candidates/{id}',
+    handle: vi.fn(({ params }: MockRequest) => ({ body: { id: params['id'] } })),
+  };
+  const createRequisition: MockHandler = {
+    method: 'POST',
+    path: '/requisitions',
+    handle: vi.fn(({ body }: MockRequest) => of({ status: 201, body })),
+  };
+
+  function createInterceptor(
+    handlers: MockHandler[],
+    config: MockBackendConfig = {},
+  ): MockBackendInterceptor {
+    const injector = Injector.create({
+      providers: [
+        ...provideMockHandlers(...handlers),
+        provideMockBackendConfig({ minLatency: 0, maxLatency: 0, ...config }),
+        { provide: MockDatabaseService, useValue: db },
+        { provide: LoggerService, useValue: mockLogger },
+      ],
+    });
+    return runInInjectionContext(injector, () => new MockBackendInterceptor());
+  }
+
+  function send(req: HttpRequest<unknown>): Promise<unknown> {
+    return firstValueFrom(
+      interceptor.intercept(
+        req,
+        next as unknown as Parameters<typeof interceptor.intercept>[1],
+      ) as Observable<unknown>,
+    );
+  }
+
+  function sendAndFail(req: HttpRequest<unknown>): Promise<HttpErrorResponse> {
+    return send(req).then(
+      () => Promise.reject(new Error('Expected the request to fail')),
+      (error: HttpErrorResponse) => error,
+    );
+  }
+
+  beforeEach(() => {
+    next = { handle: vi.fn().mockReturnValue(of(new HttpResponse({ body: 'network' }))) };
+    vi.spyOn(AppUtil, 'isDevMode').mockReturnValue(true);
+    db = new MockDatabaseService();
+    mockLogger = { warn: vi.fn() };
+    interceptor = createInterceptor([getCandidate, createRequisition]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('should answer a request from the handler matching method and path', async () => {
+    const response = (await send(
+      new HttpRequest('GET', '/mocks/candidates/42'),
+    )) as HttpResponse<unknown>;
+
+    expect(response).toBeInstanceOf(HttpResponse);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: '42' });
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  it('should keep the method and body of write requests', async () => {
+    const body = { title: 'Frontend Engineer' };
+    const response = (await send(
+      new HttpRequest('POST', '/mocks/requisitions', body),
+    )) as HttpResponse<unknown>;
+
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual(body);
+    expect(createRequisition.handle).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'POST', path: '/requisitions', params: {}, body }),
+    );
+  });
+
+  it('should pass the query parameters of the URL and of the request', async () => {
+    await send(
+      new HttpRequest('GET', '/mocks/candidates/42?expand=skills&expand=notes%20x', {
+        params: new HttpParams().set('locale', 'en'),
+      }),
+    );
+
+    const request = vi.mocked(getCandidate.handle).mock.calls[0][0];
+    expect(request.query.getAll('expand')).toEqual(['skills', 'notes x']);
+    expect(request.query.get('locale')).toBe('en');
+  });
+
+  it('should handle absolute mock URLs', async () => {
+    const response = (await send(
+      new HttpRequest('GET', 'http://localhost:4200/mocks/candidates/7'),
+    )) as HttpResponse<unknown>;
+
+    expect(response.body).toEqual({ id: '7' });
+  });
+
+  it('should report error statuses as HttpErrorResponse', async () => {
+    interceptor = createInterceptor([
+      {
+        method: 'PUT',
+        path: '/candidates/{id}',
+        handle: () => ({ status: 422, body: { message: 'Name is required' } }),
+      },
+    ]);
+
+    const error = await sendAndFail(new HttpRequest('PUT', '/mocks/candidates/1', {}));
+
+    expect(error).toBeInstanceOf(HttpErrorResponse);
+    expect(error.status).toBe(422);
+    expect(error.error).toEqual({ message: 'Name is required' });
+  });
+
+  it('should report a throwing handler as a 500 response', async () => {
+    interceptor = createInterceptor([
+      {
+        method: 'DELETE',
+        path: '/candidates/{id}',
+        handle: () => {
+          throw new Error('boom');
+        },
+      },
+    ]);
+
+    const error = await sendAndFail(new HttpRequest('DELETE', '/mocks/candidates/1'));
+
+    expect(error).toBeInstanceOf(HttpErrorResponse);
+    expect(error.status).toBe(500);
+  });
+
+  it('should pass unmatched GET requests through to the static mock files', async () => {
+    const req = new HttpRequest('GET', '/mocks/jobs.json');
+
+    await send(req);
+
+    expect(next.handle).toHaveBeenCalledWith(req);
+  });
+
+  it('should fail unmatched write requests with 404', async () => {
+    const error = await sendAndFail(new HttpRequest('PATCH', '/mocks/jobs/1', {}));
+
+    expect(error).toBeInstanceOf(HttpErrorResponse);
+    expect(error.status).toBe(404);
+    expect(error.error.message).toBe('No mock handler for PATCH /jobs/1');
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  it('should pass through requests outside the mock base URL', async () => {
+    const req = new HttpRequest('GET', '/api/candidates/42');
+
+    await send(req);
+
+    expect(next.handle).toHaveBeenCalledWith(req);
+    expect(getCandidate.handle).not.toHaveBeenCalled();
+  });
+
+  it('should pass through every request in production mode', async () => {
+    vi.spyOn(AppUtil, 'isDevMode').mockReturnValue(false);
+    const req = new HttpRequest('POST', '/mocks/requisitions', {});
+
+    await send(req);
+
+    expect(next.handle).toHaveBeenCalledWith(req);
+    expect(createRequisition.handle).not.toHaveBeenCalled();
+  });
+
+  describe('collections', () => {
+    beforeEach(() => {
+      db.seed('candidates', [
+        { id: 'c-1', lastName: 'Lovelace', status: 'active' },
+        { id: 'c-2', lastName: 'Turing', status: 'hired' },
+      ]);
+      interceptor = createInterceptor([]);
+    });
+
+    it('should list records with pagination and filter params', async () => {
+      const response = (await send(
+        new HttpRequest('GET', '/mocks/candidates?status=active&size=10'),
+      )) as HttpResponse<Page<unknown>>;
+
+      expect(response.body).toEqual({
+        items: [{ id: 'c-1', lastName: 'Lovelace', status: 'active' }],
+        total: 1,
+        page: 1,
+        size: 10,
+        sort: null,
+      });
+    });
+
+    it('should get a record by id or answer 404', async () => {
+      const response = (await send(
+        new HttpRequest('GET', '/mocks/candidates/c-2'),
+      )) as HttpResponse<unknown>;
+      const error = await sendAndFail(new HttpRequest('GET', '/mocks/candidates/c-9'));
+
+      expect(response.body).toEqual({ id: 'c-2', lastName: 'Turing', status: 'hired' });
+      expect(error.status).toBe(404);
+    });
+
+    it('should create, update and delete records', async () => {
+      const created = (await send(
+        new HttpRequest('POST', '/mocks/candidates', { lastName: 'Hopper' }),
+      )) as HttpResponse<{ id: string }>;
+      const id = created.body?.id as string;
+      await send(new HttpRequest('PATCH', `/mocks/candidates/${id}`, { status: 'active' }));
+      const deleted = (await send(
+        new HttpRequest('DELETE', '/mocks/candidates/c-1'),
+      )) as HttpResponse<unknown>;
+
+      expect(created.status).toBe(201);
+      expect(db.get('candidates', id)).toEqual({ id, lastName: 'Hopper', status: 'active' });
+      expect(deleted.status).toBe(204);
+      expect(db.get('candidates', 'c-1')).toBeNull();
+    });
+
+    it('should let handlers take precedence over collections', async () => {
+      interceptor = createInterceptor([getCandidate]);
+
+      const response = (await send(
+        new HttpRequest('GET', '/mocks/candidates/c-1'),
+      )) as HttpResponse<unknown>;
+
+      expect(response.body).toEqual({ id: 'c-1' });
+    });
+  });
+
+  describe('fixtures', () => {
+    it('should seed collections from the fixture files before answering', async () => {
+      next.handle.mockReturnValue(of(new HttpResponse({ body: [{ id: 'r-1', title: 'QA' }] })));
+      interceptor = createInterceptor([], { fixtures: ['requisitions'] });
+
+      const response = (await send(
+        new HttpRequest('GET', '/mocks/requisitions/r-1'),
+      )) as HttpResponse<unknown>;
+      await send(new HttpRequest('GET', '/mocks/requisitions/r-1'));
+
+      expect(next.handle).toHaveBeenCalledTimes(1);
+      expect(next.handle.mock.calls[0][0].url).toBe('/mocks/requisitions.json');
+      expect(response.body).toEqual({ id: 'r-1', title: 'QA' });
+    });
+
+    it('should seed an empty collection when a fixture cannot be loaded', async () => {
+      next.handle.mockReturnValue(of(new HttpResponse({ body: '<html></html>' })));
+      interceptor = createInterceptor([], { fixtures: ['requisitions'] });
+
+      const response = (await send(new HttpRequest('GET', '/mocks/requisitions'))) as HttpResponse<
+        Page<unknown>
+      >;
+
+      expect(response.body?.items).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('latency and errors', () => {
+    it('should delay responses by the configured latency', async () => {
+      vi.useFakeTimers();
+      interceptor = createInterceptor([getCandidate], { minLatency: 300, maxLatency: 300 });
+      const received: unknown[] = [];
+
+      interceptor
+        .intercept(
+          new HttpRequest('GET', '/mocks/candidates/1'),
+          next as unknown as Parameters<typeof interceptor.intercept>[1],
+        )
+        .subscribe((event) => received.push(event));
+
+      vi.advanceTimersByTime(299);
+      expect(received).toEqual([]);
+      vi.advanceTimersByTime(1);
+      expect(received).toHaveLength(1);
+    });
+
+    it('should fail requests matching an error rule', async () => {
+      interceptor = createInterceptor([createRequisition], {
+        errors: [{ method: 'POST', path: '/requisitions', status: 422, body: { code: 'invalid' } }],
+      });
+
+      const error = await sendAndFail(new HttpRequest('POST', '/mocks/requisitions', {}));
+
+      expect(error.status).toBe(422);
+      expect(error.error).toEqual({ code: 'invalid' });
+      expect(createRequisition.handle).not.toHaveBeenCalled();
+    });
+
+    it('should fail answered requests at the configured error rate', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.1);
+      interceptor = createInterceptor([getCandidate], { errorRate: 0.2 });
+
+      const error = await sendAndFail(new HttpRequest('GET', '/mocks/candidates/1'));
+
+      expect(error.status).toBe(503);
+    });
+
+    it('should not inject errors into requests passed through', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      interceptor = createInterceptor([], { errorRate: 1 });
+
+      await send(new HttpRequest('GET', '/mocks/logo.svg'));
+
+      expect(next.handle).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,465 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpHeaders,
+  HttpInterceptor,
+  HttpParams,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { inject, Injectable } from '@angular/core';
+import { defer, forkJoin, isObservable, Observable, of, throwError, timer } from 'rxjs';
+import { catchError, filter, finalize, map, shareReplay, switchMap, take } from 'rxjs/operators';
+
+import {
+  MockBackendConfig,
+  MockErrorRule,
+  MockHandler,
+  MockRequest,
+  MockResponse,
+} from '../interfaces';
+import { LoggerService, MockDatabaseService } from '../services';
+import { MOCK_BACKEND_CONFIG, MOCK_HANDLERS } from '../tokens';
+import { ApiUtil, AppUtil } from '../utils';
+
+/**
+ * Mock backend settings used when `MOCK_BACKEND_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_MOCK_BACKEND_CONFIG: Required<MockBackendConfig> = {
+  baseUrl: '/mocks',
+  fixtures: [],
+  minLatency: 100,
+  maxLatency: 400,
+  errorRate: 0,
+  errorStatus: 503,
+  errors: [],
+};
+
+/**
+ * HTTP interceptor that runs an in-browser mock backend under the `/mocks` base URL.
+ *
+ * In development mode, apps send their API requests to `/mocks`. This interceptor
+ * answers them without a server, keeping the original HTTP method and body:
+ * 1. From the handlers registered with `provideMockHandlers()`, matched by method
+ *    and path template.
+ * 2. Otherwise, from the collections of `MockDatabaseService`, each served as a REST
+ *    resource and seeded from the JSON fixtures in the app's `src/mocks` folder.
+ *
+ * @remarks
+ * **Behavior:**
+ * - Only active in development mode (`AppUtil.isDevMode()`); in production, every
+ *   request is passed through unchanged.
+ * - Only requests whose path starts with `MockBackendConfig.baseUrl` are handled;
+ *   paths are matched relative to it (`/mocks/candidates/42` → `/candidates/42`).
+ * - Unmatched GET requests are passed through, so other static files under
+ *   `src/mocks` are still served by the dev server.
+ * - Unmatched POST, PUT, PATCH and DELETE requests fail with a 404 response.
+ * - A response with status 400 or higher is reported as an `HttpErrorResponse`; a
+ *   handler that throws is reported as a 500 response.
+ *
+ * **Collections:**
+ * For every name in `MockBackendConfig.fixtures`, `<baseUrl>/<name>.json` is loaded
+ * before the first mock request is answered. The collection then answers:
+ * | Request | Response |
+ * |---------|----------|
+ * | `GET /<name>?page=&size=&sort=&q=&<field>=` | 200 with a `Page` of records |
+ * | `GET /<name>/{id}` | 200 with the record, or 404 |
+ * | `POST /<name>` | 201 with the stored record (id generated if missing) |
+ * | `PUT /<name>/{id}` | 200 with the replaced record, or 404 |
+ * | `PATCH /<name>/{id}` | 200 with the merged record, or 404 |
+ * | `DELETE /<name>/{id}` | 204, or 404 |
+ *
+ * Changes are kept in memory until the page is reloaded.
+ *
+ * **Latency and Errors:**
+ * Every mock response is delayed by a random time between `minLatency` and
+ * `maxLatency`. Requests fail with `errorStatus` at the rate `errorRate`, and with
+ * the status of the first matching rule in `errors`.
+ *
+ * **Registration:**
+ * Register this interceptor after the other interceptors, so that authentication,
+ * caching, loading state and error handling behave as they do against a real server:
+ * ```typescript
+ * provideHttpClient(
+ *   withInterceptorsFromDi(),
+ * )
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideApiBaseUrl(environment.baseUrl), // '/mocks' in development
+ *     provideMockBackendConfig({ fixtures: ['candidates', 'requisitions'] }),
+ *     provideHttpClient(withInterceptorsFromDi()),
+ *     { provide: HTTP_INTERCEPTORS, useClass: ApiPrefixInterceptor, multi: true },
+ *     { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true },
+ *   ],
+ * };
+ *
+ * // Answered from src/mocks/candidates.json
+ * this.api.get<Candidate>('/candidates/c-1001');
+ *
+ * // Stored in the requisitions collection and returned with status 201
+ * this.api.post<Requisition>('/requisitions', { title: 'Frontend Engineer' });
+ * ```
+ *
+ * @see MockBackendConfig
+ * @see MockDatabaseService
+ * @see provideMockHandlers
+ * @see HttpInterceptor
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class MockBackendInterceptor implements HttpInterceptor {
+  /**
+   * Mock endpoints registered with `provideMockHandlers()`.
+   * @internal
+   */
+  private readonly handlers: MockHandler[] = inject(MOCK_HANDLERS, { optional: true }) ?? [];
+
+  /** @internal In-memory collections served as REST resources. */
+  private readonly db: MockDatabaseService = inject(MockDatabaseService);
+
+  /** @internal Logger used to report fixtures that cannot be loaded. */
+  private readonly logger: LoggerService = inject(LoggerService);
+
+  /**
+   * Effective mock backend configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<MockBackendConfig> = {
+    ...DEFAULT_MOCK_BACKEND_CONFIG,
+    ...inject(MOCK_BACKEND_CONFIG, { optional: true }),
+  };
+
+  /**
+   * Fixture loading in progress, shared by the requests waiting for it.
+   * @internal
+   */
+  private seeding$: Observable<void> | null = null;
+
+  /**
+   * Intercepts HTTP requests and answers mock API requests.
+   *
+   * @param req - The outgoing HTTP request to intercept.
+   * @param next - The next handler in the HTTP interceptor chain.
+   * @returns An `Observable` of the HTTP event stream.
+   *
+   * @example
+   * ```typescript
+   * // This happens automatically for all HttpClient requests in development mode
+   * // Request: DELETE /mocks/candidates/42
+   * // Answered by: the candidates collection, 204 No Content
+   * ```
+   */
+  intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (!AppUtil.isDevMode()) {
+      return next.handle(req);
+    }
+
+    const [url, queryString = ''] = req.url.split('?');
+    const path: string | null = this.getMockPath(url);
+    if (path === null) {
+      return next.handle(req);
+    }
+
+    return this.seedFixtures(next).pipe(
+      switchMap((): Observable<HttpEvent<unknown>> => {
+        const request: MockRequest = this.toMockRequest(req, path, queryString);
+        const response: (() => MockResponse | Observable<MockResponse>) | null =
+          this.resolve(request);
+        if (response) {
+          return this.respond(response, req);
+        }
+
+        if (req.method === 'GET') {
+          // Let the dev server serve the static file under src/mocks
+          return next.handle(req);
+        }
+
+        return throwError(
+          () =>
+            new HttpErrorResponse({
+              status: 404,
+              statusText: 'Not Found',
+              url: req.url,
+              error: { message: `No mock handler for ${req.method} ${path}` },
+            }),
+        );
+      }),
+    );
+  }
+
+  /**
+   * Finds what answers a mock request: an injected error, a handler or a collection.
+   *
+   * Error rules apply to every request they match; `errorRate` only applies to
+   * requests that a handler or a collection would answer.
+   *
+   * @param request - The mock request, without path parameters.
+   * @returns A function producing the response, or `null` if nothing answers the request.
+   * @internal
+   */
+  private resolve(request: MockRequest): (() => MockResponse | Observable<MockResponse>) | null {
+    const ruleError: MockResponse | null = this.getRuleError(request);
+    if (ruleError) {
+      return (): MockResponse => ruleError;
+    }
+
+    const answer: (() => MockResponse | Observable<MockResponse>) | null = this.findAnswer(request);
+    if (answer && Math.random() < this.config.errorRate) {
+      return (): MockResponse => ({
+        status: this.config.errorStatus,
+        body: { message: `Injected error for ${request.method} ${request.path}` },
+      });
+    }
+    return answer;
+  }
+
+  /**
+   * Finds the handler or collection that answers a mock request.
+   *
+   * @param request - The mock request, without path parameters.
+   * @internal
+   */
+  private findAnswer(request: MockRequest): (() => MockResponse | Observable<MockResponse>) | null {
+    for (const handler of this.handlers) {
+      const params: Record<string, string> | null =
+        handler.method === request.method ? ApiUtil.matchPath(handler.path, request.path) : null;
+      if (params) {
+        return (): MockResponse | Observable<MockResponse> =>
+          handler.handle({ ...request, params });
+      }
+    }
+
+    const [collection, id, ...rest] = request.path.split('/').filter(Boolean);
+    if (collection && !rest.length && this.db.has(collection)) {
+      return (): MockResponse =>
+        this.handleCollection(
+          request,
+          collection,
+          id === undefined ? null : decodeURIComponent(id),
+        );
+    }
+
+    return null;
+  }
+
+  /**
+   * Answers a REST request on a collection of the mock database.
+   *
+   * @param request - The mock request.
+   * @param collection - Name of the collection.
+   * @param id - Id of the record, or `null` for the collection itself.
+   * @internal
+   */
+  private handleCollection(
+    request: MockRequest,
+    collection: string,
+    id: string | null,
+  ): MockResponse {
+    const notFound: MockResponse = {
+      status: 404,
+      body: { message: `${collection}/${id} not found` },
+    };
+    const body = request.body as Record<string, unknown>;
+
+    if (id === null) {
+      switch (request.method) {
+        case 'GET':
+          return { body: this.db.list(collection, request.query) };
+        case 'POST':
+          return { status: 201, body: this.db.insert(collection, body ?? {}) };
+        default:
+          return {
+            status: 405,
+            body: { message: `${request.method} not allowed on ${collection}` },
+          };
+      }
+    }
+
+    switch (request.method) {
+      case 'GET': {
+        const record: Record<string, unknown> | null = this.db.get(collection, id);
+        return record ? { body: record } : notFound;
+      }
+      case 'PUT':
+      case 'PATCH': {
+        const record: Record<string, unknown> | null = this.db.update(
+          collection,
+          id,
+          body ?? {},
+          request.method === 'PUT',
+        );
+        return record ? { body: record } : notFound;
+      }
+      case 'DELETE':
+        return this.db.remove(collection, id) ? { status: 204 } : notFound;
+      default:
+        return {
+          status: 405,
+          body: { message: `${request.method} not allowed on ${collection}/${id}` },
+        };
+    }
+  }
+
+  /**
+   * Returns the error of the first error rule matching a request, if it should fail.
+   *
+   * @param request - The mock request.
+   * @internal
+   */
+  private getRuleError(request: MockRequest): MockResponse | null {
+    const rule: MockErrorRule | undefined = this.config.errors.find(
+      (candidate: MockErrorRule): boolean =>
+        (!candidate.method || candidate.method === request.method) &&
+        ApiUtil.matchPath(candidate.path, request.path) !== null,
+    );
+    if (!rule || Math.random() >= (rule.rate ?? 1)) {
+      return null;
+    }
+    return {
+      status: rule.status ?? 500,
+      body: rule.body ?? { message: `Injected error for ${request.method} ${request.path}` },
+    };
+  }
+
+  /**
+   * Loads the fixtures of the collections that do not exist yet.
+   *
+   * Fixtures are requested from the next handler, so they bypass this interceptor. A
+   * fixture that cannot be loaded seeds an empty collection.
+   *
+   * @param next - The next handler in the HTTP interceptor chain.
+   * @internal
+   */
+  private seedFixtures(next: HttpHandler): Observable<void> {
+    const missing: string[] = this.config.fixtures.filter(
+      (collection: string): boolean => !this.db.has(collection),
+    );
+    if (!missing.length) {
+      return of(undefined);
+    }
+
+    this.seeding$ ??= forkJoin(
+      missing.map((collection: string) =>
+        next.handle(new HttpRequest('GET', `${this.config.baseUrl}/${collection}.json`)).pipe(
+          filter((event: HttpEvent<unknown>) => event instanceof HttpResponse),
+          take(1),
+          map((response: HttpResponse<unknown>): void => {
+            if (!Array.isArray(response.body)) {
+              throw new Error('The fixture is not a JSON array');
+            }
+            this.db.seed(collection, response.body as Record<string, unknown>[]);
+          }),
+          catchError((error: unknown): Observable<void> => {
+            this.logger.warn(`Mock fixture "${collection}.json" could not be loaded`, error);
+            this.db.seed(collection, []);
+            return of(undefined);
+          }),
+        ),
+      ),
+    ).pipe(
+      map((): void => undefined),
+      finalize((): void => {
+        this.seeding$ = null;
+      }),
+      shareReplay(1),
+    );
+    return this.seeding$;
+  }
+
+  /**
+   * Returns the request path relative to the mock base URL, or `null` for other URLs.
+   *
+   * @param url - Request URL without query string, relative or absolute.
+   * @internal
+   */
+  private getMockPath(url: string): string | null {
+    const baseUrl: string = this.config.baseUrl.replace(/\/$/, '');
+    const pathname: string = url.replace(/^(https?:)?\/\/[^/]+/, '');
+    if (pathname !== baseUrl && !pathname.startsWith(`${baseUrl}/`)) {
+      return null;
+    }
+    return pathname.slice(baseUrl.length) || '/';
+  }
+
+  /**
+   * Builds the request passed to a handler, without the path parameters.
+   *
+   * @param req - The intercepted request.
+   * @param path - Path relative to the mock base URL.
+   * @param queryString - Query string written in the URL, if any.
+   * @internal
+   */
+  private toMockRequest(req: HttpRequest<unknown>, path: string, queryString: string): MockRequest {
+    // Keeps repeated keys (e.g. `?status=new&status=active`) as multiple values
+    const urlQuery = new HttpParams({ fromString: queryString });
+    let query: HttpParams = req.params;
+    for (const key of urlQuery.keys()) {
+      query = query.appendAll({ [key]: urlQuery.getAll(key) ?? [] });
+    }
+    return { method: req.method, path, params: {}, query, body: req.body, headers: req.headers };
+  }
+
+  /**
+   * Produces the response after the simulated latency and converts it into an HTTP
+   * response or error.
+   *
+   * @param produce - Function producing the mock response.
+   * @param req - The intercepted request.
+   * @internal
+   */
+  private respond(
+    produce: () => MockResponse | Observable<MockResponse>,
+    req: HttpRequest<unknown>,
+  ): Observable<HttpEvent<unknown>> {
+    const response$: Observable<HttpEvent<unknown>> = defer((): Observable<MockResponse> => {
+      const result: MockResponse | Observable<MockResponse> = produce();
+      return isObservable(result) ? result : of(result);
+    }).pipe(
+      map((response: MockResponse): HttpResponse<unknown> => {
+        const init = {
+          status: response.status ?? 200,
+          headers: new HttpHeaders(response.headers ?? {}),
+          url: req.url,
+        };
+        if (init.status >= 400) {
+          throw new HttpErrorResponse({ ...init, error: response.body ?? null });
+        }
+        return new HttpResponse({ ...init, body: response.body ?? null });
+      }),
+      catchError((error: unknown) =>
+        throwError(() =>
+          error instanceof HttpErrorResponse
+            ? error
+            : new HttpErrorResponse({
+                status: 500,
+                statusText: 'Internal Server Error',
+                url: req.url,
+                error,
+              }),
+        ),
+      ),
+    );
+
+    const { minLatency, maxLatency } = this.config;
+    const latency: number = Math.max(0, minLatency + Math.random() * (maxLatency - minLatency));
+    return latency > 0 ? timer(latency).pipe(switchMap(() => response$)) : response$;
+  }
+}
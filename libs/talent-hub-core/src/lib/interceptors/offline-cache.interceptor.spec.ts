@@ -0,0 +1,147 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  HttpContext,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Injector, runInInjectionContext } from '@angular/core';
+import { lastValueFrom, Observable, of, throwError } from 'rxjs';
+
+import { OfflineCacheInterceptor } from '../interceptors';
+import { LoggerService, OfflineCacheService } from '../services';
+import { OFFLINE_CACHE } from '../tokens';
+
+describe('OfflineCacheInterceptor', () => {
+  let interceptor: OfflineCacheInterceptor;
+  let handle: ReturnType<
+    typeof vi.fn<(req: HttpRequest<unknown>) => Observable<HttpEvent<unknown>>>
+  >;
+  let mockOfflineCache: {
+    get: ReturnType<typeof vi.fn>;
+    put: ReturnType<typeof vi.fn>;
+    markSynced: ReturnType<typeof vi.fn>;
+    markOffline: ReturnType<typeof vi.fn>;
+  };
+  let mockLogger: { warn: ReturnType<typeof vi.fn> };
+  const networkError = new HttpErrorResponse({ status: 0, url: '/api/candidates' });
+  const storedAt = Date.UTC(2026, 2, 2, 9);
+
+  function offlineGet(url: string): HttpRequest<unknown> {
+    return new HttpRequest('GET', url, { context: new HttpContext().set(OFFLINE_CACHE, true) });
+  }
+
+  function send(req: HttpRequest<unknown>): Promise<HttpEvent<unknown>> {
+    return lastValueFrom(interceptor.intercept(req, { handle }));
+  }
+
+  beforeEach(() => {
+    handle = vi.fn();
+    mockOfflineCache = {
+      get: vi.fn(() =>
+        of({ tenantId: 'acme', userId: 'user-1', url: '/api/candidates', body: ['ann'], storedAt }),
+      ),
+      put: vi.fn(() => of(undefined)),
+      markSynced: vi.fn(),
+      markOffline: vi.fn(),
+    };
+    mockLogger = { warn: vi.fn() };
+    const injector = Injector.create({
+      providers: [
+        { provide: OfflineCacheService, useValue: mockOfflineCache },
+        { provide: LoggerService, useValue: mockLogger },
+      ],
+    });
+    interceptor = runInInjectionContext(injector, () => new OfflineCacheInterceptor());
+  });
+
+  it('should store successful GET responses that opt in', async () => {
+    handle.mockReturnValue(of(new HttpResponse({ body: ['ann'] })));
+
+    await send(offlineGet('/api/candidates?page=1'));
+
+    expect(mockOfflineCache.put).toHaveBeenCalledWith('/api/candidates?page=1', ['ann']);
+    expect(mockOfflineCache.markSynced).toHaveBeenCalled();
+  });
+
+  it('should not store other requests', async () => {
+    handle.mockReturnValue(of(new HttpResponse({ body: {} })));
+
+    await send(new HttpRequest('POST', '/api/candidates', {}));
+    await send(
+      new HttpRequest('GET', '/api/report', {
+        responseType: 'blob',
+        context: new HttpContext().set(OFFLINE_CACHE, true),
+      }),
+    );
+    await send(new HttpRequest('GET', '/api/documents'));
+
+    expect(mockOfflineCache.put).not.toHaveBeenCalled();
+    expect(mockOfflineCache.markSynced).toHaveBeenCalledTimes(3);
+  });
+
+  it('should log failed writes', async () => {
+    handle.mockReturnValue(of(new HttpResponse({ body: [] })));
+    mockOfflineCache.put.mockReturnValue(throwError(() => new Error('QuotaExceededError')));
+
+    await send(offlineGet('/api/candidates'));
+
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should serve the stored response on network errors', async () => {
+    handle.mockReturnValue(throwError(() => networkError));
+
+    const response = (await send(offlineGet('/api/candidates'))) as HttpResponse<unknown>;
+
+    expect(response.body).toEqual(['ann']);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Offline-Cache')).toBe('Mon, 02 Mar 2026 09:00:00 GMT');
+    expect(mockOfflineCache.markOffline).toHaveBeenCalledWith(storedAt);
+  });
+
+  it('should pass the network error on when nothing is stored', async () => {
+    handle.mockReturnValue(throwError(() => networkError));
+    mockOfflineCache.get.mockReturnValue(of(null));
+
+    await expect(send(offlineGet('/api/candidates'))).rejects.toBe(networkError);
+    expect(mockOfflineCache.markOffline).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should pass the network error on when the store cannot be read', async () => {
+    handle.mockReturnValue(throwError(() => networkError));
+    mockOfflineCache.get.mockReturnValue(throwError(() => new Error('IndexedDB is not available')));
+
+    await expect(send(offlineGet('/api/candidates'))).rejects.toBe(networkError);
+  });
+
+  it('should pass server errors on', async () => {
+    const serverError = new HttpErrorResponse({ status: 503 });
+    handle.mockReturnValue(throwError(() => serverError));
+
+    await expect(send(offlineGet('/api/candidates'))).rejects.toBe(serverError);
+    expect(mockOfflineCache.get).not.toHaveBeenCalled();
+    expect(mockOfflineCache.markOffline).not.toHaveBeenCalled();
+  });
+
+  it('should record network errors of other requests', async () => {
+    handle.mockReturnValue(throwError(() => networkError));
+
+    await expect(send(new HttpRequest('POST', '/api/candidates', {}))).rejects.toBe(networkError);
+    await expect(send(new HttpRequest('GET', '/api/documents'))).rejects.toBe(networkError);
+    expect(mockOfflineCache.markOffline).toHaveBeenCalledTimes(2);
+    expect(mockOfflineCache.markOffline).toHaveBeenCalledWith();
+    expect(mockOfflineCache.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { inject, Injectable } from '@angular/core';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpHeaders,
+  HttpInterceptor,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
+
+import { LoggerService, OfflineCacheService } from '../services';
+import { OfflineCacheEntry } from '../interfaces';
+import { OFFLINE_CACHE } from '../tokens';
+
+/**
+ * Header added to responses served from the offline cache, holding the HTTP date the
+ * response was stored.
+ *
+ * @internal
+ */
+const OFFLINE_CACHE_HEADER = 'X-Offline-Cache';
+
+/**
+ * HTTP interceptor that keeps GET responses in IndexedDB and serves them while offline.
+ *
+ * Successful JSON GET responses of requests that opt in are written to
+ * `OfflineCacheService` for the current tenant and user. When a GET request later fails with a network error (status `0`),
+ * the stored response is returned in its place, so that screens still show the last
+ * known data without network.
+ *
+ * @remarks
+ * **Offline Responses:**
+ * - Have status `200` and an `X-Offline-Cache` header with the HTTP date the response
+ *   was stored.
+ * - Are only served for network errors; server errors (4xx, 5xx) reach the caller.
+ * - Update `OfflineCacheService.isOffline` and `lastSyncedAt`, so the UI can tell the
+ *   user the data may be outdated.
+ *
+ * **Opting In:**
+ * Only responses of requests with the `offline` option of `ApiService`
+ * (`HttpOptions.offline`) or the `OFFLINE_CACHE` context token set to `true` are
+ * written to the device.
+ *
+ * **Order:**
+ * Register it after `ErrorHandlingInterceptor`, so that requests answered from the
+ * offline cache are not reported as errors, and before `RetryInterceptor`, so that
+ * the offline cache is only used once the retries are exhausted.
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts - Register the interceptor
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideHttpClient(withInterceptorsFromDi()),
+ *     { provide: HTTP_INTERCEPTORS, useClass: ErrorHandlingInterceptor, multi: true },
+ *     { provide: HTTP_INTERCEPTORS, useClass: OfflineCacheInterceptor, multi: true },
+ *     { provide: HTTP_INTERCEPTORS, useClass: RetryInterceptor, multi: true },
+ *   ],
+ * };
+ *
+ * // Readable offline
+ * this.api.get<Candidate[]>('/candidates', { offline: true });
+ * ```
+ *
+ * @see OfflineCacheService
+ * @see OFFLINE_CACHE
+ * @see HttpInterceptor
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class OfflineCacheInterceptor implements HttpInterceptor {
+  /** @internal Persistent store of the responses and sync status. */
+  private readonly offlineCache: OfflineCacheService = inject(OfflineCacheService);
+
+  /** @internal Logger used to record failed writes. */
+  private readonly logger = inject(LoggerService);
+
+  /**
+   * Intercepts HTTP requests to store GET responses and answer them while offline.
+   *
+   * @param req - The outgoing HTTP request to intercept.
+   * @param next - The next handler in the HTTP interceptor chain.
+   * @returns An `Observable` of the HTTP event stream, or of the stored response.
+   */
+  intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    const cacheable: boolean =
+      req.method === 'GET' && req.responseType === 'json' && req.context.get(OFFLINE_CACHE);
+    const url: string = req.urlWithParams;
+
+    return next.handle(req).pipe(
+      tap((event: HttpEvent<unknown>): void => {
+        if (event instanceof HttpResponse) {
+          this.offlineCache.markSynced();
+          if (cacheable && event.ok) {
+            this.store(url, event.body);
+          }
+        }
+      }),
+      catchError((error: unknown): Observable<HttpEvent<unknown>> => {
+        if (!(error instanceof HttpErrorResponse) || error.status !== 0) {
+          return throwError((): unknown => error);
+        }
+        if (!cacheable) {
+          this.offlineCache.markOffline();
+          return throwError((): unknown => error);
+        }
+        return this.offlineCache.get(url).pipe(
+          catchError((): Observable<null> => of(null)),
+          switchMap((entry: OfflineCacheEntry | null): Observable<HttpEvent<unknown>> => {
+            this.offlineCache.markOffline(entry?.storedAt);
+            return entry ? of(this.toResponse(url, entry)) : throwError((): unknown => error);
+          }),
+        );
+      }),
+    );
+  }
+
+  /**
+   * Writes a response body to the offline cache in the background.
+   *
+   * @param url - URL with query parameters.
+   * @param body - Parsed JSON body of the response.
+   * @internal
+   */
+  private store(url: string, body: unknown): void {
+    this.offlineCache.put(url, body).subscribe({
+      error: (error: unknown): void =>
+        this.logger.warn('Could not store the response for offline use:', { url, error }),
+    });
+  }
+
+  /**
+   * Builds the response served in place of a failed request.
+   *
+   * @param url - URL with query parameters.
+   * @param entry - The stored response.
+   * @internal
+   */
+  private toResponse(url: string, entry: OfflineCacheEntry): HttpResponse<unknown> {
+    return new HttpResponse({
+      body: entry.body,
+      status: 200,
+      statusText: 'OK',
+      url,
+      headers: new HttpHeaders({ [OFFLINE_CACHE_HEADER]: new Date(entry.storedAt).toUTCString() }),
+    });
+  }
+}
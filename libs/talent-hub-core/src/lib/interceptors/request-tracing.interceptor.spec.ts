@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { DOCUMENT, Injector, runInInjectionContext } from '@angular/core';
+import { NEVER, of, throwError } from 'rxjs';
+
+import { RequestTracingInterceptor } from '../interceptors';
+import { ApiError } from '../models';
+import { RequestTraceService } from '../services';
+import { API_BASE_URL, REQUEST_TRACING_CONFIG } from '../tokens';
+
+describe('RequestTracingInterceptor', () => {
+  let interceptor: RequestTracingInterceptor;
+  let requestTrace: RequestTraceService;
+  let next: { handle: ReturnType<typeof vi.fn> };
+
+  const sent = (): HttpRequest<unknown> => next.handle.mock.calls[0][0];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    const injector = Injector.create({
+      providers: [
+        { provide: DOCUMENT, useValue: { location: new URL('https://app.talent-hub.com/jobs') } },
+        { provide: API_BASE_URL, useValue: 'https://api.talent-hub.com/v1' },
+        {
+          provide: REQUEST_TRACING_CONFIG,
+          useValue: { origins: ['https://files.talent-hub.com'] },
+        },
+        { provide: RequestTraceService, useClass: RequestTraceService, deps: [] },
+      ],
+    });
+    requestTrace = injector.get(RequestTraceService);
+    interceptor = runInInjectionContext(injector, () => new RequestTracingInterceptor());
+    next = { handle: vi.fn(() => of(new HttpResponse({ status: 200 }))) };
+  });
+
+  function send(req: HttpRequest<unknown>) {
+    return interceptor.intercept(req, next as unknown as HttpHandler);
+  }
+
+  it('should stamp requests with X-Request-Id and traceparent headers', () => {
+    send(new HttpRequest('GET', '/api/candidates')).subscribe();
+
+    const trace = requestTrace.readTrace(sent().headers);
+    expect(trace).not.toBeNull();
+    expect(sent().headers.get('traceparent')).toBe(`00-${trace?.traceId}-${trace?.spanId}-01`);
+  });
+
+  it.each([
+    'https://app.talent-hub.com/api/candidates',
+    'https://api.talent-hub.com/v1/candidates',
+    '//api.talent-hub.com/v1/candidates',
+    'https://files.talent-hub.com/resumes/1',
+  ])('should trace requests to %s', (url) => {
+    send(new HttpRequest('GET', url)).subscribe();
+
+    expect(sent().headers.has('X-Request-Id')).toBe(true);
+  });
+
+  it('should not trace requests to other origins', () => {
+    const req = new HttpRequest('GET', 'https://maps.example.com/tiles/1');
+    send(req).subscribe();
+
+    expect(sent()).toBe(req);
+    expect(requestTrace.summaries()).toEqual([]);
+  });
+
+  it('should keep the trace headers set by the caller', () => {
+    const req = new HttpRequest('GET', '/api/candidates').clone({
+      setHeaders: requestTrace.toHeaders(requestTrace.createTrace()),
+    });
+    send(req).subscribe();
+
+    expect(sent()).toBe(req);
+  });
+
+  it('should record a summary of successful requests', () => {
+    next.handle.mockImplementation(() => {
+      vi.advanceTimersByTime(120);
+      return of(new HttpResponse({ status: 201 }));
+    });
+    send(new HttpRequest('POST', '/api/candidates', {})).subscribe();
+
+    expect(requestTrace.summaries()).toEqual([
+      {
+        requestId: requestTrace.readTrace(sent().headers)?.requestId,
+        traceId: requestTrace.readTrace(sent().headers)?.traceId,
+        method: 'POST',
+        url: '/api/candidates',
+        status: 201,
+        errorCode: null,
+        startedAt: Date.parse('2026-03-02T09:00:00Z'),
+        duration: 120,
+      },
+    ]);
+  });
+
+  it('should record the status and code of failed requests', () => {
+    const error = new ApiError(new HttpErrorResponse({ status: 404 }), 'GET');
+    next.handle.mockReturnValue(throwError(() => error));
+    send(new HttpRequest('GET', '/api/candidates/42')).subscribe({ error: () => undefined });
+
+    expect(requestTrace.summaries()[0]).toMatchObject({ status: 404, errorCode: 'not_found' });
+  });
+
+  it('should record cancelled requests without a status', () => {
+    next.handle.mockReturnValue(NEVER);
+    send(new HttpRequest('GET', '/api/candidates')).subscribe().unsubscribe();
+
+    expect(requestTrace.summaries()[0]).toMatchObject({ status: null, errorCode: null });
+  });
+
+  it('should pass the events of the request through', () => {
+    const events: HttpEvent<unknown>[] = [];
+    send(new HttpRequest('GET', '/api/candidates')).subscribe((event) => events.push(event));
+
+    expect(events).toEqual([expect.objectContaining({ status: 200 })]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpInterceptor,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { DOCUMENT, inject, Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { finalize, tap } from 'rxjs/operators';
+
+import { RequestTrace } from '../interfaces';
+import { ApiError } from '../models';
+import { RequestTraceService } from '../services';
+import { API_BASE_URL, REQUEST_TRACING_CONFIG } from '../tokens';
+
+/**
+ * Matches absolute and protocol-relative URLs.
+ *
+ * @internal
+ */
+const ABSOLUTE_URL_PATTERN = /^(https?:)?\/\//i;
+
+/**
+ * HTTP interceptor that stamps requests with `X-Request-Id` and W3C `traceparent` headers.
+ *
+ * Every request gets a new request id, trace id and span id from `RequestTraceService`,
+ * so that a failed request in the browser can be matched with its backend trace. When the
+ * request ends, a `RequestSummary` (method, URL, status, error code, duration) is kept
+ * by `RequestTraceService` for diagnostics.
+ *
+ * @remarks
+ * **Traced Requests:**
+ * Only requests to the origin of the application, the origin of `API_BASE_URL` and the
+ * `origins` of `REQUEST_TRACING_CONFIG` are traced, so that other servers do not need
+ * to allow the headers in their CORS configuration. Requests that already carry an
+ * `X-Request-Id` and `traceparent` keep them.
+ *
+ * **Where the Ids Appear:**
+ * - `ErrorHandlingInterceptor` adds them to its `LoggerService` entries and to the
+ *   `ApiError` published under `th:http.error` (`requestId`, `traceId`).
+ * - `RequestTraceService.summaries` lists them with the outcome of each request.
+ *
+ * **Order:**
+ * Register it after `DedupeInterceptor`, so that identical GET requests are still
+ * coalesced, and before `ErrorHandlingInterceptor` and `RetryInterceptor`, so that
+ * errors carry the ids and retries keep them.
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts - Register the interceptor
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideHttpClient(withInterceptorsFromDi()),
+ *     { provide: HTTP_INTERCEPTORS, useClass: DedupeInterceptor, multi: true },
+ *     { provide: HTTP_INTERCEPTORS, useClass: RequestTracingInterceptor, multi: true },
+ *     { provide: HTTP_INTERCEPTORS, useClass: RetryInterceptor, multi: true },
+ *   ],
+ * };
+ *
+ * // GET /candidates
+ * // X-Request-Id: 0f8fad5b-d9cb-469f-a165-70867728950e
+ * // traceparent: 00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01
+ * ```
+ *
+ * @see RequestTraceService
+ * @see provideRequestTracingConfig
+ * @see ErrorHandlingInterceptor
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class RequestTracingInterceptor implements HttpInterceptor {
+  /** @internal Source of the trace ids and store of the request summaries. */
+  private readonly requestTrace: RequestTraceService = inject(RequestTraceService);
+
+  /** @internal Location of the application, used to resolve request URLs. */
+  private readonly location: Location | null = inject(DOCUMENT).location ?? null;
+
+  /**
+   * Origins that receive the trace headers.
+   * @internal
+   */
+  private readonly origins = new Set<string>(
+    [
+      this.location?.origin,
+      inject(API_BASE_URL, { optional: true }) ?? undefined,
+      ...(inject(REQUEST_TRACING_CONFIG, { optional: true })?.origins ?? []),
+    ]
+      .map((url: string | undefined): string | null => (url ? this.toOrigin(url) : null))
+      .filter((origin: string | null): origin is string => !!origin),
+  );
+
+  /**
+   * Intercepts HTTP requests, adds the trace headers and records the outcome.
+   *
+   * @param req - The outgoing HTTP request to intercept.
+   * @param next - The next handler in the HTTP interceptor chain.
+   * @returns An `Observable` of the HTTP event stream.
+   */
+  intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (this.requestTrace.readTrace(req.headers) || !this.isTraced(req.url)) {
+      return next.handle(req);
+    }
+
+    const trace: RequestTrace = this.requestTrace.createTrace();
+    const startedAt: number = Date.now();
+    let status: number | null = null;
+    let errorCode: string | null = null;
+
+    return next.handle(req.clone({ setHeaders: this.requestTrace.toHeaders(trace) })).pipe(
+      tap({
+        next: (event: HttpEvent<unknown>): void => {
+          if (event instanceof HttpResponse) {
+            status = event.status;
+          }
+        },
+        error: (error: unknown): void => {
+          if (error instanceof HttpErrorResponse) {
+            status = error.status;
+            errorCode = error instanceof ApiError ? error.code : null;
+          }
+        },
+      }),
+      finalize((): void =>
+        this.requestTrace.record({
+          requestId: trace.requestId,
+          traceId: trace.traceId,
+          method: req.method,
+          url: req.urlWithParams,
+          status,
+          errorCode,
+          startedAt,
+          duration: Date.now() - startedAt,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Checks whether a request URL receives the trace headers.
+   *
+   * @param url - URL of the request.
+   * @internal
+   */
+  private isTraced(url: string): boolean {
+    if (!ABSOLUTE_URL_PATTERN.test(url)) {
+      // Relative URLs are sent to the origin of the application
+      return true;
+    }
+    const origin: string | null = this.toOrigin(url);
+    return origin !== null && this.origins.has(origin);
+  }
+
+  /**
+   * Returns the origin of a URL, or `null` if it cannot be resolved.
+   *
+   * @param url - Absolute or protocol-relative URL.
+   * @internal
+   */
+  private toOrigin(url: string): string | null {
+    try {
+      return new URL(url, this.location?.href).origin;
+    } catch {
+      return null;
+    }
+  }
+}
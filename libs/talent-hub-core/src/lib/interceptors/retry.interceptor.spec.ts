@@ -0,0 +1,221 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  HttpContext,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Injector, runInInjectionContext } from '@angular/core';
+import { defer, Observable, of, throwError } from 'rxjs';
+
+import { RetryInterceptor } from '../interceptors';
+import { LoggerService } from '../services';
+import { RetryConfig } from '../interfaces';
+import { RETRY, RETRY_CONFIG } from '../tokens';
+
+describe('RetryInterceptor', () => {
+  let interceptor: RetryInterceptor;
+  let attempts: number;
+  let mockLogger: { warn: ReturnType<typeof vi.fn> };
+
+  function createInterceptor(config?: RetryConfig): RetryInterceptor {
+    mockLogger = { warn: vi.fn() };
+    const injector = Injector.create({
+      providers: [
+        { provide: LoggerService, useValue: mockLogger },
+        ...(config ? [{ provide: RETRY_CONFIG, useValue: config }] : []),
+      ],
+    });
+    return runInInjectionContext(injector, () => new RetryInterceptor());
+  }
+
+  /** Handler failing with the given errors, in order, then succeeding. */
+  function failing(...errors: HttpErrorResponse[]): HttpHandler {
+    return {
+      handle: (): Observable<HttpEvent<unknown>> =>
+        defer(() => {
+          const error = errors[attempts++];
+          return error ? throwError(() => error) : of(new HttpResponse({ status: 200 }));
+        }),
+    };
+  }
+
+  function httpError(status: number, headers?: Record<string, string>): HttpErrorResponse {
+    return new HttpErrorResponse({ status, headers: new HttpHeaders(headers) });
+  }
+
+  /** Subscribes and records the outcome of the request. */
+  function send(req: HttpRequest<unknown>, next: HttpHandler) {
+    const result: { status?: number; error?: HttpErrorResponse } = {};
+    interceptor.intercept(req, next).subscribe({
+      next: (event) => (result.status = (event as HttpResponse<unknown>).status),
+      error: (error: HttpErrorResponse) => (result.error = error),
+    });
+    return result;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    attempts = 0;
+    interceptor = createInterceptor();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should retry a GET after a network error and a 503', () => {
+    const result = send(
+      new HttpRequest('GET', '/api/candidates'),
+      failing(httpError(0), httpError(503)),
+    );
+
+    expect(attempts).toBe(1);
+    vi.advanceTimersByTime(500);
+    expect(attempts).toBe(2);
+    vi.advanceTimersByTime(1_000);
+
+    expect(attempts).toBe(3);
+    expect(result.status).toBe(200);
+    expect(mockLogger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wait between half and the full exponential backoff', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    send(new HttpRequest('GET', '/api/candidates'), failing(httpError(500), httpError(500)));
+
+    vi.advanceTimersByTime(249);
+    expect(attempts).toBe(1);
+    vi.advanceTimersByTime(1);
+    expect(attempts).toBe(2);
+    vi.advanceTimersByTime(500);
+    expect(attempts).toBe(3);
+  });
+
+  it('should give up after the configured number of retries', () => {
+    const result = send(
+      new HttpRequest('GET', '/api/candidates'),
+      failing(httpError(500), httpError(502), httpError(504)),
+    );
+    vi.runAllTimers();
+
+    expect(attempts).toBe(3);
+    expect(result.error?.status).toBe(504);
+  });
+
+  it('should not retry other client errors', () => {
+    const result = send(new HttpRequest('GET', '/api/candidates/1'), failing(httpError(404)));
+    vi.runAllTimers();
+
+    expect(attempts).toBe(1);
+    expect(result.error?.status).toBe(404);
+  });
+
+  it('should not retry POST and PATCH requests', () => {
+    send(new HttpRequest('POST', '/api/candidates', {}), failing(httpError(503)));
+    send(new HttpRequest('PATCH', '/api/candidates/1', {}), failing(httpError(503)));
+    vi.runAllTimers();
+
+    expect(attempts).toBe(2);
+  });
+
+  it('should retry a POST carrying an idempotency key', () => {
+    const req = new HttpRequest(
+      'POST',
+      '/api/candidates',
+      {},
+      {
+        headers: new HttpHeaders({ 'Idempotency-Key': 'key-1' }),
+      },
+    );
+    const result = send(req, failing(httpError(503)));
+    vi.runAllTimers();
+
+    expect(result.status).toBe(200);
+  });
+
+  describe('Retry-After', () => {
+    it('should wait the number of seconds of the header', () => {
+      send(
+        new HttpRequest('GET', '/api/candidates'),
+        failing(httpError(429, { 'Retry-After': '3' })),
+      );
+
+      vi.advanceTimersByTime(2_999);
+      expect(attempts).toBe(1);
+      vi.advanceTimersByTime(1);
+      expect(attempts).toBe(2);
+    });
+
+    it('should wait until the date of the header', () => {
+      vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+      const retryAt = new Date(Date.now() + 4_000).toUTCString();
+      send(
+        new HttpRequest('GET', '/api/candidates'),
+        failing(httpError(503, { 'Retry-After': retryAt })),
+      );
+
+      vi.advanceTimersByTime(3_999);
+      expect(attempts).toBe(1);
+      vi.advanceTimersByTime(1);
+      expect(attempts).toBe(2);
+    });
+
+    it('should not retry when the header asks for more than the maximum delay', () => {
+      const result = send(
+        new HttpRequest('GET', '/api/candidates'),
+        failing(httpError(429, { 'Retry-After': '60' })),
+      );
+      vi.runAllTimers();
+
+      expect(attempts).toBe(1);
+      expect(result.error?.status).toBe(429);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should use the application configuration', () => {
+      interceptor = createInterceptor({ count: 0 });
+      send(new HttpRequest('GET', '/api/candidates'), failing(httpError(503)));
+      vi.runAllTimers();
+
+      expect(attempts).toBe(1);
+    });
+
+    it('should let a request opt out', () => {
+      const req = new HttpRequest('GET', '/api/candidates', {
+        context: new HttpContext().set(RETRY, false),
+      });
+      send(req, failing(httpError(503)));
+      vi.runAllTimers();
+
+      expect(attempts).toBe(1);
+    });
+
+    it('should apply the count and statuses of a request', () => {
+      const req = new HttpRequest('GET', '/api/candidates', {
+        context: new HttpContext().set(RETRY, { count: 3, statuses: [409] }),
+      });
+      const result = send(req, failing(httpError(409), httpError(409), httpError(409)));
+      vi.runAllTimers();
+
+      expect(attempts).toBe(4);
+      expect(result.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { inject, Injectable } from '@angular/core';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandler,
+  HttpInterceptor,
+  HttpRequest,
+  HttpStatusCode,
+} from '@angular/common/http';
+import { Observable, throwError, timer } from 'rxjs';
+import { retry } from 'rxjs/operators';
+
+import { LoggerService } from '../services';
+import { RetryConfig } from '../interfaces';
+import { RETRY, RETRY_CONFIG } from '../tokens';
+
+/**
+ * Retry settings used when `RETRY_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  count: 2,
+  statuses: [429, 500, 502, 503, 504],
+  baseDelay: 500,
+  maxDelay: 10_000,
+};
+
+/**
+ * HTTP methods that can be sent again without changing the result on the server.
+ *
+ * @internal
+ */
+const IDEMPOTENT_METHODS: readonly string[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Header that makes a POST or PATCH request safe to retry, when the server supports it.
+ *
+ * @internal
+ */
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * HTTP interceptor that retries failed idempotent requests with exponential backoff.
+ *
+ * Requests that fail with a network error or a retryable status (429 and 5xx by
+ * default) are sent again after a growing, randomized delay, so that a brief network
+ * drop or server hiccup does not surface as an error. Only the last failure reaches
+ * the caller and the interceptors registered before this one.
+ *
+ * @remarks
+ * **Retried Requests:**
+ * - Methods `GET`, `HEAD`, `OPTIONS`, `PUT` and `DELETE`, and any request carrying
+ *   an `Idempotency-Key` header. Other `POST` and `PATCH` requests are never retried.
+ * - Network errors (status `0`) and the statuses of `RetryConfig.statuses`.
+ *
+ * **Delay:**
+ * | Retry | Backoff (`baseDelay` 500 ms) | Actual delay |
+ * |-------|------------------------------|--------------|
+ * | 1 | 500 ms | 250–500 ms |
+ * | 2 | 1 s | 0.5–1 s |
+ * | 3 | 2 s | 1–2 s |
+ *
+ * The backoff doubles with every retry up to `maxDelay`; the actual delay is a random
+ * value between half the backoff and the full backoff, so that clients failing at the
+ * same time do not retry at the same time. A `Retry-After` header (seconds or HTTP
+ * date) replaces the computed delay; when it asks for more than `maxDelay`, the
+ * request is not retried.
+ *
+ * **Configuration:**
+ * - Application-wide with `provideRetryConfig()`.
+ * - Per request with the `retry` option of `ApiService` (`HttpOptions.retry`) or the
+ *   `RETRY` context token; `false` opts the request out.
+ *
+ * **Order:**
+ * Register it after `ErrorHandlingInterceptor`, so that only the final failure is
+ * logged and published, and before `MockBackendInterceptor`, so that injected mock
+ * errors are retried like real ones.
+ *
+ * @example
+ * ```typescript
+ * // In app.config.ts - Register the interceptor
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideHttpClient(withInterceptorsFromDi()),
+ *     { provide: HTTP_INTERCEPTORS, useClass: ErrorHandlingInterceptor, multi: true },
+ *     { provide: HTTP_INTERCEPTORS, useClass: RetryInterceptor, multi: true },
+ *     provideRetryConfig({ count: 3 }),
+ *   ],
+ * };
+ *
+ * // Per request
+ * this.api.get<Candidate[]>('/candidates', { retry: { count: 5, statuses: [503] } });
+ * this.api.get<Status>('/health', { retry: false });
+ * ```
+ *
+ * @see RetryConfig
+ * @see provideRetryConfig
+ * @see RETRY
+ * @see HttpInterceptor
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class RetryInterceptor implements HttpInterceptor {
+  /** @internal Logger used to record the retries. */
+  private readonly logger = inject(LoggerService);
+
+  /**
+   * Effective retry configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<RetryConfig> = {
+    ...DEFAULT_RETRY_CONFIG,
+    ...inject(RETRY_CONFIG, { optional: true }),
+  };
+
+  /**
+   * Intercepts HTTP requests and retries the idempotent ones when they fail.
+   *
+   * @param req - The outgoing HTTP request to intercept.
+   * @param next - The next handler in the HTTP interceptor chain.
+   * @returns An `Observable` of the HTTP event stream of the last attempt.
+   */
+  intercept(req: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    const override: RetryConfig | false | null = req.context.get(RETRY);
+    if (override === false || !this.isIdempotent(req)) {
+      return next.handle(req);
+    }
+
+    const config: Required<RetryConfig> = { ...this.config, ...override };
+    if (config.count <= 0) {
+      return next.handle(req);
+    }
+
+    return next.handle(req).pipe(
+      retry({
+        count: config.count,
+        delay: (error: unknown, attempt: number): Observable<number> =>
+          this.scheduleRetry(req, error, attempt, config),
+      }),
+    );
+  }
+
+  /**
+   * Waits before the next attempt, or rethrows errors that are not retried.
+   *
+   * @param req - The failed request.
+   * @param error - The error of the failed attempt.
+   * @param attempt - Number of the upcoming retry, starting at 1.
+   * @param config - Effective retry configuration of the request.
+   * @internal
+   */
+  private scheduleRetry(
+    req: HttpRequest<unknown>,
+    error: unknown,
+    attempt: number,
+    config: Required<RetryConfig>,
+  ): Observable<number> {
+    if (!(error instanceof HttpErrorResponse) || !this.isRetryable(error, config)) {
+      return throwError((): unknown => error);
+    }
+
+    const retryAfter: number | null = this.getRetryAfter(error);
+    if (retryAfter !== null && retryAfter > config.maxDelay) {
+      return throwError((): unknown => error);
+    }
+
+    const backoff: number = Math.min(config.maxDelay, config.baseDelay * 2 ** (attempt - 1));
+    const delay: number = retryAfter ?? backoff / 2 + Math.random() * (backoff / 2);
+    this.logger.warn('Retrying HTTP request:', {
+      method: req.method,
+      url: req.urlWithParams,
+      status: error.status,
+      attempt,
+      delay: Math.round(delay),
+    });
+    return timer(delay);
+  }
+
+  /**
+   * Checks whether a request can be sent again safely.
+   *
+   * @param req - The request to check.
+   * @internal
+   */
+  private isIdempotent(req: HttpRequest<unknown>): boolean {
+    return IDEMPOTENT_METHODS.includes(req.method) || req.headers.has(IDEMPOTENCY_KEY_HEADER);
+  }
+
+  /**
+   * Checks whether a failed response is worth retrying.
+   *
+   * @param error - The error response.
+   * @param config - Effective retry configuration of the request.
+   * @internal
+   */
+  private isRetryable(error: HttpErrorResponse, config: Required<RetryConfig>): boolean {
+    return error.status === 0 || config.statuses.includes(error.status);
+  }
+
+  /**
+   * Reads the `Retry-After` header of a 429 or 503 response.
+   *
+   * @param error - The error response.
+   * @returns The requested delay in milliseconds, or `null` without a valid header.
+   * @internal
+   */
+  private getRetryAfter(error: HttpErrorResponse): number | null {
+    if (
+      error.status !== HttpStatusCode.TooManyRequests &&
+      error.status !== HttpStatusCode.ServiceUnavailable
+    ) {
+      return null;
+    }
+    const value: string | null = error.headers?.get('Retry-After') ?? null;
+    if (!value) {
+      return null;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return Number(value) * 1000;
+    }
+    const date: number = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { NotificationSeverity } from '../types';
+import { NotificationAction } from './notification-action.interface';
+
+/**
+ * Notification shown by `NotificationCenterService`, as rendered by the notification
+ * center of the host.
+ *
+ * @example
+ * ```typescript
+ * // @for (notification of notificationCenter.notifications(); track notification.id) {
+ * //   <ix-toast [type]="notification.severity" [toastTitle]="notification.title">
+ * //     {{ notification.message }}
+ * //   </ix-toast>
+ * // }
+ * ```
+ *
+ * @see NotificationCenterService
+ * @see NotificationRequest
+ * @publicApi
+ */
+export interface AppNotification {
+  /**
+   * Unique id of the notification.
+   */
+  id: string;
+
+  /**
+   * Severity of the notification.
+   */
+  severity: NotificationSeverity;
+
+  /**
+   * Title shown above the message, or `null`.
+   */
+  title: string | null;
+
+  /**
+   * Text of the notification.
+   */
+  message: string;
+
+  /**
+   * Action buttons of the notification.
+   */
+  actions: NotificationAction[];
+
+  /**
+   * Time after which the notification is dismissed, in milliseconds; `0` if it stays
+   * until dismissed.
+   */
+  duration: number;
+
+  /**
+   * Key identifying repeats of the notification.
+   */
+  dedupeKey: string;
+
+  /**
+   * Number of times the notification was raised while visible.
+   */
+  count: number;
+
+  /**
+   * Time the notification was last raised, in milliseconds since epoch.
+   */
+  raisedAt: number;
+}
@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { StorageType } from '../types';
+
+/**
+ * Configuration for the session lifecycle managed by `AuthService`.
+ *
+ * Provided through `provideAuthConfig()` in the application configuration. Every
+ * property is optional; omitted values fall back to the defaults listed below.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `loginEndpoint` - `'/auth/login'`
+ * - `logoutEndpoint` - `'/auth/logout'`
+ * - `refreshEndpoint` - `'/auth/refresh'`
+ * - `loginRoute` - `'/login'`
+ * - `expiryLeadTime` - `60000` (1 minute)
+ * - `storageType` - `'session'`
+ *
+ * Endpoints are relative so that `ApiPrefixInterceptor` can prefix them with the
+ * configured `API_BASE_URL`.
+ *
+ * @example
+ * ```typescript
+ * const authConfig: AuthConfig = {
+ *   loginEndpoint: '/identity/login',
+ *   logoutEndpoint: '/identity/logout',
+ *   storageType: 'local',
+ * };
+ * ```
+ *
+ * @see provideAuthConfig
+ * @see AuthService
+ * @publicApi
+ */
+export interface AuthConfig {
+  /**
+   * Endpoint that accepts `LoginCredentials` and returns an `AuthResponse`.
+   *
+   * @defaultValue `'/auth/login'`
+   */
+  loginEndpoint?: string;
+
+  /**
+   * Endpoint notified when the user logs out.
+   *
+   * The call is best-effort; the local session is cleared regardless of its outcome.
+   * Set to an empty string to skip the server call entirely.
+   *
+   * @defaultValue `'/auth/logout'`
+   */
+  logoutEndpoint?: string;
+
+  /**
+   * Endpoint that accepts `{ refreshToken }` and returns a new `TokenResponse`.
+   *
+   * Called by `AuthInterceptor` when a request fails with 401.
+   *
+   * @defaultValue `'/auth/refresh'`
+   */
+  refreshEndpoint?: string;
+
+  /**
+   * Router URL the user is sent to when the session cannot be refreshed.
+   *
+   * @defaultValue `'/login'`
+   */
+  loginRoute?: string;
+
+  /**
+   * How long before the access token expires the session is renewed, in milliseconds.
+   *
+   * `AuthService` schedules a refresh (or, without a refresh token, a sign-out) this
+   * long before the token's `exp` claim. For tokens that live shorter than twice this
+   * value, the action runs halfway through the token's remaining lifetime instead.
+   *
+   * @defaultValue `60000`
+   */
+  expiryLeadTime?: number;
+
+  /**
+   * Browser storage used to persist the session between page loads.
+   *
+   * - `'session'` - The session survives reloads but ends when the tab is closed.
+   * - `'local'` - The session survives browser restarts.
+   *
+   * @defaultValue `'session'`
+   * @see StorageType
+   */
+  storageType?: StorageType;
+}
@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { TokenResponse, User } from '../interfaces';
+
+/**
+ * Response returned by the authentication endpoint after a successful sign-in.
+ *
+ * `AuthService.login()` uses this payload to populate `AuthStore` with the tokens
+ * and user profile, and to persist the session so it can be restored on reload.
+ *
+ * @remarks
+ * **Properties:**
+ * - `accessToken`, `refreshToken`, `expiresIn` - Inherited from `TokenResponse`.
+ * - `user` - The authenticated user's profile, roles and permissions.
+ *
+ * @example
+ * ```typescript
+ * const response: AuthResponse = {
+ *   accessToken: 'eyJhbGciOiJIUzI1NiIs...',
+ *   refreshToken: 'def50200a1b2c3...',
+ *   expiresIn: 3600,
+ *   user: {
+ *     id: 'user_123',
+ *     email: 'recruiter@acme.com',
+ *     firstName: 'Jane',
+ *     lastName: 'Doe',
+ *     roles: ['recruiter'],
+ *     permissions: ['candidate:read'],
+ *   },
+ * };
+ * ```
+ *
+ * @see AuthService
+ * @see LoginCredentials
+ * @see TokenResponse
+ * @see User
+ * @publicApi
+ */
+export interface AuthResponse extends TokenResponse {
+  /**
+   * The authenticated user's profile.
+   *
+   * @see User
+   */
+  user: User;
+}
@@ -0,0 +1,65 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { User } from '../interfaces';
+
+/**
+ * Serialized authentication session persisted between page loads.
+ *
+ * `AuthService` writes this object to browser storage after a successful login
+ * and reads it back in `restoreSession()` to rehydrate `AuthStore`.
+ *
+ * @remarks
+ * - The session is removed from storage on logout or when it has expired.
+ * - `expiresAt` is an absolute timestamp so the check does not depend on when
+ *   the session was restored.
+ *
+ * @example
+ * ```typescript
+ * const session: AuthSession = {
+ *   token: 'eyJhbGciOiJIUzI1NiIs...',
+ *   user: currentUser,
+ *   expiresAt: Date.now() + 3600 * 1000,
+ * };
+ * ```
+ *
+ * @see AuthService
+ * @see AuthResponse
+ * @publicApi
+ */
+export interface AuthSession {
+  /**
+   * The access token for the session.
+   */
+  token: string;
+
+  /**
+   * The refresh token for the session, if the server issued one.
+   *
+   * A restored session that has passed `expiresAt` is kept when a refresh token
+   * is present, so the next request can obtain a new access token.
+   */
+  refreshToken?: string;
+
+  /**
+   * The authenticated user's profile.
+   *
+   * @see User
+   */
+  user: User;
+
+  /**
+   * Absolute expiry time of the session in milliseconds since epoch, if known.
+   *
+   * A restored session whose `expiresAt` lies in the past and that has no
+   * refresh token is discarded and reported through `AuthService.sessionExpired`.
+   */
+  expiresAt?: number;
+}
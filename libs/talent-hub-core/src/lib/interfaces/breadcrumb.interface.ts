@@ -0,0 +1,44 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { BreadcrumbType } from '../types';
+
+/**
+ * Recent activity recorded by `BreadcrumbService` and attached to error reports.
+ *
+ * Breadcrumbs tell what the user did before an error (pages visited, buttons clicked,
+ * requests sent), which is often needed to reproduce it.
+ *
+ * @example
+ * ```typescript
+ * const breadcrumb: Breadcrumb = {
+ *   type: 'click',
+ *   message: 'button "Save candidate"',
+ *   timestamp: '2026-03-02T09:00:00.000Z',
+ * };
+ * ```
+ *
+ * @see BreadcrumbService
+ * @see ErrorReport
+ * @publicApi
+ */
+export interface Breadcrumb {
+  /** Kind of activity. */
+  type: BreadcrumbType;
+
+  /**
+   * Short description, e.g., `'NavigationEnd /candidates'`, `'button "Save"'` or
+   * `'GET /api/candidates 200'`.
+   */
+  message: string;
+
+  /** Time of the activity, as an ISO 8601 string. */
+  timestamp: string;
+}
@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { CachePolicy } from '../types';
+
+/**
+ * Caching behavior of `CacheInterceptor` for GET requests.
+ *
+ * Provided application-wide through `provideCacheConfig()`, and per request through
+ * the `caching` option of `HttpOptions` (or the `CACHE` HTTP context token). Every
+ * property is optional; omitted values fall back to the application configuration,
+ * then to the defaults listed below.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `policy` - `'ttl'`
+ * - `ttl` - `300000` (5 minutes)
+ * - `maxStale` - `3600000` (1 hour)
+ * - `maxEntries` - `100`
+ * - `tags` - `[]`
+ *
+ * @example
+ * ```typescript
+ * // Reference data rarely changes
+ * this.api.get<Country[]>('/countries', { caching: { ttl: 24 * 60 * 60_000 } });
+ *
+ * // Show the last known list at once, refresh it in the background
+ * this.api.get<Candidate[]>('/candidates', { caching: { policy: 'stale-while-revalidate' } });
+ * ```
+ *
+ * @see CacheInterceptor
+ * @see HttpCacheService
+ * @see provideCacheConfig
+ * @publicApi
+ */
+export interface CacheConfig {
+  /**
+   * How the cache is used for the request.
+   *
+   * @defaultValue `'ttl'`
+   */
+  policy?: CachePolicy;
+
+  /**
+   * How long a cached response is fresh, in milliseconds.
+   *
+   * @defaultValue `300000`
+   */
+  ttl?: number;
+
+  /**
+   * How long after `ttl` a stale response may still be served by the
+   * `'stale-while-revalidate'` policy, in milliseconds.
+   *
+   * @defaultValue `3600000`
+   */
+  maxStale?: number;
+
+  /**
+   * Maximum number of cached responses; the least recently used are evicted first.
+   *
+   * Only read from the application configuration.
+   *
+   * @defaultValue `100`
+   */
+  maxEntries?: number;
+
+  /**
+   * Additional invalidation tags.
+   *
+   * On a GET request, tags of the cached response. On any other request, tags whose
+   * cached responses are evicted when it succeeds. Every request is also tagged with
+   * its resource, the first path segment after the API base URL.
+   *
+   * @defaultValue `[]`
+   */
+  tags?: string[];
+}
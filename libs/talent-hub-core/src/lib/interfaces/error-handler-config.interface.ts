@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration for the reporting of uncaught errors by `GlobalErrorHandler`.
+ *
+ * Provided through `provideErrorHandlerConfig()` in the application configuration.
+ * Every property is optional; omitted values fall back to the defaults listed below.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `dedupeWindow` - `60000` (1 minute)
+ * - `maxBreadcrumbs` - `30`
+ * - `ignoredErrors` - `[/ResizeObserver loop/]`
+ * - `crashThreshold` - `5`
+ * - `crashWindow` - `10000` (10 seconds)
+ *
+ * @example
+ * ```typescript
+ * const errorHandlerConfig: ErrorHandlerConfig = {
+ *   dedupeWindow: 5 * 60_000,
+ *   ignoredErrors: [/ResizeObserver loop/, 'Script error.'],
+ * };
+ * ```
+ *
+ * @see provideErrorHandlerConfig
+ * @see GlobalErrorHandler
+ * @publicApi
+ */
+export interface ErrorHandlerConfig {
+  /**
+   * Time during which repeats of a reported error are counted instead of reported,
+   * in milliseconds.
+   *
+   * @defaultValue `60000`
+   */
+  dedupeWindow?: number;
+
+  /**
+   * Number of most recent breadcrumbs attached to a report.
+   *
+   * @defaultValue `30`
+   */
+  maxBreadcrumbs?: number;
+
+  /**
+   * Errors that are neither reported nor shown, matched against their message.
+   * Strings match when the message contains them. Replaces the default list.
+   *
+   * @defaultValue `[/ResizeObserver loop/]`
+   */
+  ignoredErrors?: (string | RegExp)[];
+
+  /**
+   * Number of uncaught errors within `crashWindow` after which the error screen is shown,
+   * even if none of them is fatal on its own.
+   *
+   * @defaultValue `5`
+   */
+  crashThreshold?: number;
+
+  /**
+   * Time in which `crashThreshold` errors show the error screen, in milliseconds.
+   *
+   * @defaultValue `10000`
+   */
+  crashWindow?: number;
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Breadcrumb } from './breadcrumb.interface';
+
+/**
+ * Uncaught error captured by `GlobalErrorHandler`.
+ *
+ * Reported through `LoggerService` as the metadata of an `error` entry, and shown by the
+ * error screen of the host. `id` lets support find the reported entry from a screenshot.
+ *
+ * @example
+ * ```typescript
+ * const report: ErrorReport = {
+ *   id: '9b2f6c1e-3d4a-4f5b-8c7d-1e2f3a4b5c6d',
+ *   fingerprint: 'TypeError|Cannot read properties of undefined (reading \'id\')|at CandidateCard.ngOnInit',
+ *   name: 'TypeError',
+ *   message: "Cannot read properties of undefined (reading 'id')",
+ *   stack: "TypeError: Cannot read properties of undefined ...",
+ *   route: '/candidates/42',
+ *   remote: 'talent-hub-candidate',
+ *   breadcrumbs: [{ type: 'navigation', message: 'NavigationEnd /candidates/42', timestamp: '...' }],
+ *   occurrences: 1,
+ *   timestamp: '2026-03-02T09:00:00.000Z',
+ * };
+ * ```
+ *
+ * @see GlobalErrorHandler
+ * @publicApi
+ */
+export interface ErrorReport {
+  /** Unique identifier of the report (UUID v4). */
+  id: string;
+
+  /** Identifies the same error across occurrences: name, message and top stack frame. */
+  fingerprint: string;
+
+  /** Name of the error (e.g., `'TypeError'`), or `'Error'` for thrown non-errors. */
+  name: string;
+
+  /** Message of the error. */
+  message: string;
+
+  /** Stack trace of the error, or `null` if none is available. */
+  stack: string | null;
+
+  /** URL the user was on, or navigating to, when the error occurred. */
+  route: string | null;
+
+  /**
+   * Remote (micro-frontend) the route belongs to, from the `remote` route data of the
+   * host's top-level routes, or `null` outside remotes.
+   */
+  remote: string | null;
+
+  /** Activity before the error, oldest first. */
+  breadcrumbs: Breadcrumb[];
+
+  /**
+   * Number of times the error occurred since it was last reported, including this one.
+   */
+  occurrences: number;
+
+  /** Time the error occurred, as an ISO 8601 string. */
+  timestamp: string;
+}
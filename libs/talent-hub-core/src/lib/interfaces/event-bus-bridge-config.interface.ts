@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration of `EventBusBridgeService`.
+ *
+ * Provided through `provideEventBusBridgeConfig()`. The bridge is opt-in: only the
+ * listed keys are shared with other tabs, and nothing is shared without this
+ * configuration.
+ *
+ * @example
+ * ```typescript
+ * provideEventBusBridgeConfig({
+ *   keys: ['th:candidate.*', 'th:requisition.published'],
+ * });
+ * ```
+ *
+ * @see EventBusBridgeService
+ * @see provideEventBusBridgeConfig
+ * @publicApi
+ */
+export interface EventBusBridgeConfig {
+  /**
+   * Keys or wildcard patterns (e.g., `th:candidate.*`) of the events shared with the
+   * other tabs.
+   *
+   * Events are sent for the keys listed in the sending tab and delivered for the keys
+   * listed in the receiving tab. Their payload must be structured-cloneable.
+   */
+  keys: string[];
+}
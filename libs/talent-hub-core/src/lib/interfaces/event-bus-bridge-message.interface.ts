@@ -0,0 +1,43 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { SerializedEventMetaData } from './serialized-event-metadata.interface';
+
+/**
+ * Message sent by `EventBusBridgeService` to the other tabs for an event.
+ *
+ * @example
+ * ```typescript
+ * const message: EventBusBridgeMessage = {
+ *   tabId: sessionSync.tabId,
+ *   tenantId: 'acme',
+ *   metadata: event.toJSON(),
+ * };
+ * ```
+ *
+ * @see EventBusBridgeService
+ * @publicApi
+ */
+export interface EventBusBridgeMessage {
+  /**
+   * Id of the tab the event was published in.
+   */
+  tabId: string;
+
+  /**
+   * Tenant selected in that tab; tabs of other tenants ignore the message.
+   */
+  tenantId: string | null;
+
+  /**
+   * The event.
+   */
+  metadata: SerializedEventMetaData;
+}
@@ -0,0 +1,74 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { ApiError } from '../models';
+import { NotificationRequest } from './notification-request.interface';
+import { OutboxFailure } from './outbox-failure.interface';
+
+/**
+ * Catalog of the events published on `EventBusService`, mapping each key to its payload.
+ *
+ * `EventBusService.publish()` and `EventBusService.on()` look the key up in this
+ * interface, so the payload of a catalogued event is type-checked for publishers and
+ * typed for subscribers without passing a type argument.
+ *
+ * @remarks
+ * **Adding Events:**
+ * The catalog lists the events of the core library. Remotes declare their own events
+ * by augmenting the interface, following the `th:{category}.{event}` naming convention:
+ *
+ * ```typescript
+ * declare module '@talent-hub/core/interfaces' {
+ *   interface EventCatalog {
+ *     'th:candidate.status-changed': { candidateId: string; status: CandidateStatus };
+ *   }
+ * }
+ * ```
+ *
+ * Keys that are not in the catalog can still be used; their payload is `unknown`.
+ *
+ * @example
+ * ```typescript
+ * this.eventBus.on('th:http.error').subscribe(({ data }) => console.log(data?.status));
+ *
+ * this.eventBus.publish('th:candidate.status-changed', { candidateId: 'c-1001', status: 'hired' });
+ * ```
+ *
+ * @see EventBusService
+ * @see EventPayload
+ * @see APP_CONSTANT.EVENT_BUS_KEYS
+ * @publicApi
+ */
+export interface EventCatalog {
+  /**
+   * Failed HTTP request, published by `ErrorHandlingInterceptor`.
+   */
+  'th:http.error': ApiError;
+
+  /**
+   * Unexpected error of an HTTP request, published by `ErrorHandlingInterceptor`.
+   */
+  'th:http.unknown.error': { error: unknown; requestId: string | null; traceId: string | null };
+
+  /**
+   * Replayed mutation rejected with a conflict, published by `OutboxService`.
+   */
+  'th:outbox.conflict': OutboxFailure;
+
+  /**
+   * Replayed mutation rejected by the server, published by `OutboxService`.
+   */
+  'th:outbox.failed': OutboxFailure;
+
+  /**
+   * Notification to show, handled by `NotificationCenterService`.
+   */
+  'th:notification.show': NotificationRequest;
+}
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { EventMetaData } from '../models';
+import { EventSubscriberInfo } from './event-subscriber-info.interface';
+
+/**
+ * Event published on `EventBusService` with the subscriptions it was delivered to.
+ *
+ * Emitted by `EventBusService.dispatched$` and kept in the history of
+ * `EventBusInspectorService`.
+ *
+ * @example
+ * ```typescript
+ * this.eventBus.dispatched$.subscribe(({ metadata, subscribers }) =>
+ *   console.log(`${metadata.key} received by ${subscribers.length} subscribers`),
+ * );
+ * ```
+ *
+ * @see EventBusService.dispatched$
+ * @see EventBusInspectorService
+ * @publicApi
+ */
+export interface EventDispatch {
+  /**
+   * The event.
+   */
+  metadata: EventMetaData<unknown>;
+
+  /**
+   * Subscriptions whose key or pattern matched the event when it was published.
+   */
+  subscribers: EventSubscriberInfo[];
+}
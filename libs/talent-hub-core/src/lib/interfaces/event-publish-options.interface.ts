@@ -0,0 +1,33 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Options of `EventBusService.publish()`.
+ *
+ * @example
+ * ```typescript
+ * // Remotes that load later still receive the selected candidate
+ * this.eventBus.publish('th:candidate.selected', candidate, { replay: true });
+ * ```
+ *
+ * @see EventBusService.publish
+ * @publicApi
+ */
+export interface EventPublishOptions {
+  /**
+   * Whether the event is replayed to subscribers of its key that subscribe later.
+   *
+   * Only the last event of each key is kept, and only while it was published with
+   * `replay: true`; publishing the key again without it stops the replay.
+   *
+   * @default false
+   */
+  replay?: boolean;
+}
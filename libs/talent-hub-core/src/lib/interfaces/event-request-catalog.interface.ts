@@ -0,0 +1,43 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Catalog of the requests answered through `EventBusService`, mapping each key to the
+ * types of its request and reply.
+ *
+ * `EventBusService.request()` and `EventBusService.reply()` look the key up in this
+ * interface. Each entry has the form `{ request: TRequest; reply: TReply }`.
+ *
+ * @remarks
+ * The core library does not answer any requests; the host and the remotes declare the
+ * requests they answer by augmenting the interface. Keys that are not in the catalog
+ * can still be used; their request and reply are `unknown`.
+ *
+ * @example
+ * ```typescript
+ * declare module '@talent-hub/core/interfaces' {
+ *   interface EventRequestCatalog {
+ *     'th:requisition.get': { request: { id: string }; reply: Requisition };
+ *   }
+ * }
+ *
+ * // Host
+ * this.eventBus.reply('th:requisition.get', ({ id }) => this.requisitions.get(id));
+ *
+ * // Remote
+ * this.eventBus.request('th:requisition.get', { id: 'r-42' }).subscribe((requisition) => ...);
+ * ```
+ *
+ * @see EventBusService.request
+ * @see EventBusService.reply
+ * @publicApi
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface EventRequestCatalog {}
@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Options of `EventBusService.request()`.
+ *
+ * @example
+ * ```typescript
+ * this.eventBus.request('th:requisition.get', { id: 'r-42' }, { timeout: 10_000 });
+ * ```
+ *
+ * @see EventBusService.request
+ * @publicApi
+ */
+export interface EventRequestOptions {
+  /**
+   * Time to wait for the reply, in milliseconds, including the time until a handler is
+   * registered for the key. The request fails with `EventRequestTimeoutError` after it.
+   *
+   * @default 5000
+   */
+  timeout?: number;
+}
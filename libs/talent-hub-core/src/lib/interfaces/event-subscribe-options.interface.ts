@@ -0,0 +1,31 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Options of `EventBusService.on()`.
+ *
+ * @example
+ * ```typescript
+ * this.eventBus
+ *   .on('th:candidate.*', { subscriber: 'DashboardComponent' })
+ *   .subscribe((meta) => this.reload());
+ * ```
+ *
+ * @see EventBusService.on
+ * @publicApi
+ */
+export interface EventSubscribeOptions {
+  /**
+   * Name of the subscriber, shown by the event inspector for the events it received.
+   *
+   * @default null (shown as its subscription number)
+   */
+  subscriber?: string;
+}
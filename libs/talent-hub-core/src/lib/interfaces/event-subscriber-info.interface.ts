@@ -0,0 +1,42 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Subscription to `EventBusService` that an event was delivered to.
+ *
+ * @example
+ * ```typescript
+ * const info: EventSubscriberInfo = {
+ *   id: 3,
+ *   name: 'NotificationCenterService',
+ *   pattern: 'th:http.error',
+ * };
+ * ```
+ *
+ * @see EventDispatch
+ * @see EventSubscribeOptions
+ * @publicApi
+ */
+export interface EventSubscriberInfo {
+  /**
+   * Number of the subscription, in the order subscriptions were made.
+   */
+  id: number;
+
+  /**
+   * Name given with `EventSubscribeOptions.subscriber`, or `null`.
+   */
+  name: string | null;
+
+  /**
+   * Key or wildcard pattern the subscription listens to.
+   */
+  pattern: string;
+}
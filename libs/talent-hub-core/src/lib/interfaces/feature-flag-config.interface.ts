@@ -0,0 +1,48 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration of `FeatureFlagService`.
+ *
+ * Provided through `provideFeatureFlagConfig()` in the application configuration.
+ * Every property is optional; omitted values fall back to the defaults listed below.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `endpoint` - `'/feature-flags'`
+ * - `refreshInterval` - `300000` (5 minutes)
+ *
+ * @example
+ * ```typescript
+ * const featureFlagConfig: FeatureFlagConfig = {
+ *   endpoint: '/api/feature-flags',
+ *   refreshInterval: 60_000,
+ * };
+ * ```
+ *
+ * @see provideFeatureFlagConfig
+ * @see FeatureFlagService
+ * @publicApi
+ */
+export interface FeatureFlagConfig {
+  /**
+   * URL from which the `FeatureFlag` list is loaded.
+   *
+   * @defaultValue `'/feature-flags'`
+   */
+  endpoint?: string;
+
+  /**
+   * Time between two loads of the flags, in milliseconds. `0` loads them only once.
+   *
+   * @defaultValue `300000`
+   */
+  refreshInterval?: number;
+}
@@ -0,0 +1,52 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Environment, TenantPlan } from '../types';
+
+/**
+ * Current user, tenant and environment against which feature flag rules are evaluated.
+ *
+ * `FeatureFlagService` builds it from `TenantStore`, `AuthStore` and `AppStore`.
+ *
+ * @example
+ * ```typescript
+ * const context: FeatureFlagContext = {
+ *   plan: 'professional',
+ *   roles: ['recruiter'],
+ *   environment: 'production',
+ *   userId: 'u-42',
+ * };
+ * FeatureFlagUtil.isOn(flag, context);
+ * ```
+ *
+ * @see FeatureFlagUtil
+ * @publicApi
+ */
+export interface FeatureFlagContext {
+  /**
+   * Plan of the current tenant, or `null` before a tenant is selected.
+   */
+  plan: TenantPlan | null;
+
+  /**
+   * Roles of the signed-in user; empty when nobody is signed in.
+   */
+  roles: string[];
+
+  /**
+   * Current deployment environment.
+   */
+  environment: Environment;
+
+  /**
+   * Id of the signed-in user, or an empty string when nobody is signed in.
+   */
+  userId: string;
+}
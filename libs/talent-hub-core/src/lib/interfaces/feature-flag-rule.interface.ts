@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Environment, TenantPlan } from '../types';
+
+/**
+ * Targeting rule of a `FeatureFlag`.
+ *
+ * A rule matches when every condition it sets matches; conditions that are omitted
+ * match everybody.
+ *
+ * @remarks
+ * **Percentage Rollout:**
+ * Each user is placed in a bucket from 0 to 99, computed from the flag key and the user
+ * id. The same user always gets the same bucket for a flag, so raising the percentage
+ * only adds users. Without a signed-in user, only a percentage of `100` matches.
+ *
+ * @example
+ * ```typescript
+ * // Recruiters of professional tenants in staging, 20% of them
+ * const rule: FeatureFlagRule = {
+ *   plans: ['professional'],
+ *   roles: ['recruiter'],
+ *   environments: ['staging'],
+ *   percentage: 20,
+ * };
+ * ```
+ *
+ * @see FeatureFlag
+ * @see FeatureFlagUtil
+ * @publicApi
+ */
+export interface FeatureFlagRule {
+  /**
+   * Plans of the current tenant the rule applies to.
+   */
+  plans?: TenantPlan[];
+
+  /**
+   * Roles the rule applies to; the user needs at least one of them.
+   */
+  roles?: string[];
+
+  /**
+   * Environments the rule applies to (`AppConfig.environment`).
+   */
+  environments?: Environment[];
+
+  /**
+   * Percentage of users the rule applies to, from `0` to `100`.
+   */
+  percentage?: number;
+}
@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { FeatureFlagRule } from './feature-flag-rule.interface';
+
+/**
+ * Feature flag as returned by the feature flag endpoint.
+ *
+ * A flag is on for the current user when it is `enabled` and, if it has `rules`, at
+ * least one of its rules matches. Without rules, an enabled flag is on for everybody.
+ *
+ * @example
+ * ```typescript
+ * const flags: FeatureFlag[] = [
+ *   { key: 'bulkImport', enabled: true },
+ *   {
+ *     key: 'aiScreening',
+ *     enabled: true,
+ *     rules: [
+ *       { plans: ['enterprise'] },
+ *       { plans: ['professional'], roles: ['recruiter'], percentage: 20 },
+ *     ],
+ *   },
+ * ];
+ * ```
+ *
+ * @see FeatureFlagRule
+ * @see FeatureFlagService
+ * @publicApi
+ */
+export interface FeatureFlag {
+  /**
+   * Key used to check the flag (e.g., `'aiScreening'`).
+   */
+  key: string;
+
+  /**
+   * Whether the flag is switched on. `false` turns it off for everybody, whatever
+   * its rules.
+   */
+  enabled: boolean;
+
+  /**
+   * Targeting rules; the flag is on when any of them matches.
+   *
+   * Omit or leave empty to turn the flag on for everybody.
+   */
+  rules?: FeatureFlagRule[];
+}
@@ -0,0 +1,42 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpResponse } from '@angular/common/http';
+
+/**
+ * Response stored by `HttpCacheService`.
+ *
+ * @example
+ * ```typescript
+ * const entry: HttpCacheEntry | null = this.httpCache.get('/api/candidates?page=1');
+ * if (entry) {
+ *   console.log('Cached', Date.now() - entry.storedAt, 'ms ago');
+ * }
+ * ```
+ *
+ * @see HttpCacheService
+ * @publicApi
+ */
+export interface HttpCacheEntry {
+  /**
+   * The cached successful response.
+   */
+  response: HttpResponse<unknown>;
+
+  /**
+   * Time the response was stored, in milliseconds since epoch.
+   */
+  storedAt: number;
+
+  /**
+   * Invalidation tags of the response (e.g., `'candidates'`).
+   */
+  tags: string[];
+}
@@ -8,7 +8,10 @@
  * @version 1.0.0
  */
 
-import { HttpHeaders, HttpParams } from '@angular/common/http';
+import { HttpContext, HttpHeaders, HttpParams } from '@angular/common/http';
+
+import { CacheConfig } from './cache-config.interface';
+import { RetryConfig } from './retry-config.interface';
 
 /**
  * Type-safe interface for HTTP request options.
@@ -22,6 +25,12 @@ import { HttpHeaders, HttpParams } from '@angular/common/http';
  * **Properties:**
  * - `headers` - Custom HTTP headers for the request.
  * - `params` - Query parameters for the request.
+ * - `context` - Per-request metadata read by the core interceptors.
+ * - `retry` - Per-request retry behavior of `RetryInterceptor` (`ApiService` only).
+ * - `caching` - Per-request caching behavior of `CacheInterceptor` (`ApiService` only).
+ * - `offline` - Whether `OfflineCacheInterceptor` keeps the response (`ApiService` only).
+ * - `outbox` - Whether a mutation is queued when the network is down (`ApiService` only).
+ * - `group` - Request group the request can be cancelled with (`ApiService` only).
  *
  * **Flexibility:**
  * - Both properties accept Angular's typed classes (`HttpHeaders`, `HttpParams`)
@@ -139,4 +148,116 @@ export interface HttpOptions {
   params?:
     | HttpParams
     | Record<string, string | number | boolean | readonly (string | number | boolean)[]>;
+
+  /**
+   * Per-request context passed to the HTTP interceptor chain.
+   *
+   * Used to opt a single request in or out of interceptor behavior without
+   * adding custom headers (e.g., `SKIP_AUTH` for public endpoints).
+   *
+   * @example
+   * ```typescript
+   * // Public endpoint: no Authorization header and no token refresh on 401
+   * {
+   *   context: new HttpContext().set(SKIP_AUTH, true)
+   * }
+   * ```
+   *
+   * @see https://angular.dev/api/common/http/HttpContext
+   */
+  context?: HttpContext;
+
+  /**
+   * Retry behavior of `RetryInterceptor` for this request.
+   *
+   * Values override the application-wide `RETRY_CONFIG`; `false` never retries the
+   * request. `ApiService` passes it to the interceptor through the `RETRY` context token.
+   *
+   * @example
+   * ```typescript
+   * // Retry up to 4 times, on 503 and network errors only
+   * { retry: { count: 4, statuses: [503] } }
+   *
+   * // Never retry
+   * { retry: false }
+   * ```
+   *
+   * @see RetryConfig
+   * @see RETRY
+   */
+  retry?: RetryConfig | false;
+
+  /**
+   * Caching behavior of `CacheInterceptor` for this request.
+   *
+   * Values override the application-wide `CACHE_CONFIG`. `ApiService` passes it to the
+   * interceptor through the `CACHE` context token.
+   *
+   * @example
+   * ```typescript
+   * // Serve the last known list at once and refresh it in the background
+   * { caching: { policy: 'stale-while-revalidate' } }
+   *
+   * // Evict the dashboard widgets as well when this POST succeeds
+   * { caching: { tags: ['dashboard'] } }
+   * ```
+   *
+   * @see CacheConfig
+   * @see CACHE
+   */
+  caching?: CacheConfig;
+
+  /**
+   * Whether `OfflineCacheInterceptor` stores the response of this GET request for
+   * offline reads. Defaults to `false`.
+   *
+   * `ApiService` passes it to the interceptor through the `OFFLINE_CACHE` context token.
+   * Only opt in for data a screen needs offline and that is safe to keep on the device.
+   *
+   * @example
+   * ```typescript
+   * // Keep the candidate list readable offline
+   * { offline: true }
+   * ```
+   *
+   * @see OfflineCacheService
+   * @see OFFLINE_CACHE
+   */
+  offline?: boolean;
+
+  /**
+   * Whether a `POST`, `PUT`, `PATCH` or `DELETE` request is queued in `OutboxService`
+   * when it fails with a network error. Defaults to `OutboxConfig.enabled` (`false`
+   * unless configured).
+   *
+   * The request is sent with an `Idempotency-Key` header. When it is queued, the
+   * observable fails with a `MutationQueuedError` and the mutation is replayed once the
+   * browser is back online. Set it to `false` for mutations that must not be replayed
+   * later, such as sign-in.
+   *
+   * @example
+   * ```typescript
+   * // Interview feedback submitted from a train
+   * this.api.post<void>(`/interviews/${id}/feedback`, feedback, { outbox: true });
+   * ```
+   *
+   * @see OutboxService
+   * @see OUTBOX
+   */
+  outbox?: boolean;
+
+  /**
+   * Name of the request group the request belongs to.
+   *
+   * `ApiService.cancelGroup()` cancels every pending request of a group. Use a fixed
+   * name, or a unique one from `ApiService.createRequestGroup()`.
+   *
+   * @example
+   * ```typescript
+   * { group: 'candidate-search' }
+   * ```
+   *
+   * @see ApiService.cancelGroup
+   */
+  group?: string;
 }
@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration for the idle timeout enforced by `IdleService`.
+ *
+ * Provided through `provideIdleConfig()` in the application configuration. Every
+ * property is optional; omitted values fall back to the defaults listed below.
+ * A tenant can override `timeout` with `TenantPreference.idleTimeoutMinutes`.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `timeout` - `1800000` (30 minutes)
+ * - `warningDuration` - `60000` (1 minute)
+ * - `activityEvents` - `['mousedown', 'mousemove', 'keydown', 'wheel', 'touchstart', 'scroll']`
+ *
+ * @example
+ * ```typescript
+ * const idleConfig: IdleConfig = {
+ *   timeout: 15 * 60_000,
+ *   warningDuration: 2 * 60_000,
+ * };
+ * ```
+ *
+ * @see provideIdleConfig
+ * @see IdleService
+ * @publicApi
+ */
+export interface IdleConfig {
+  /**
+   * Time without user activity after which the user is signed out, in milliseconds.
+   *
+   * Includes the warning countdown. Set to `0` to disable the idle timeout.
+   *
+   * @defaultValue `1800000`
+   */
+  timeout?: number;
+
+  /**
+   * How long the countdown warning is shown before the user is signed out, in milliseconds.
+   *
+   * @defaultValue `60000`
+   */
+  warningDuration?: number;
+
+  /**
+   * DOM events on the document that count as user activity.
+   *
+   * @defaultValue `['mousedown', 'mousemove', 'keydown', 'wheel', 'touchstart', 'scroll']`
+   */
+  activityEvents?: string[];
+}
@@ -32,25 +32,86 @@
  * | Interface | Description |
  * |-----------|-------------|
  * | `AppConfig` | Application configuration settings |
+ * | `AppNotification` | Notification shown by NotificationCenterService |
  * | `AppPreference` | Application-level preference settings for AppStore |
+ * | `AuthConfig` | Authentication endpoints and session storage |
+ * | `AuthResponse` | Authentication endpoint response |
+ * | `AuthSession` | Persisted authentication session |
+ * | `Breadcrumb` | Recent activity attached to error reports |
+ * | `CacheConfig` | Cache policy, lifetimes, size and tags of HTTP responses |
  * | `CookieOptions` | Cookie storage options |
+ * | `ErrorHandlerConfig` | Dedupe window, breadcrumbs and ignored errors |
+ * | `ErrorReport` | Uncaught error with route, remote and breadcrumbs |
  * | `EffectiveBranding` | Resolved tenant branding after applying defaults |
  * | `EffectiveNotification` | Resolved notification settings after merging |
  * | `EffectivePreference` | Final resolved preferences after all merges |
+ * | `EventBusBridgeConfig` | Events shared with the other tabs |
+ * | `EventBusBridgeMessage` | Event sent to the other tabs |
  * | `EventBusMessage` | Inter-component messaging format |
+ * | `EventCatalog` | Payload type of each event bus key |
+ * | `EventDispatch` | Published event with the subscriptions it reached |
+ * | `EventPublishOptions` | Replay option of a published event |
+ * | `EventRequestCatalog` | Request and reply types of each request key |
+ * | `EventRequestOptions` | Timeout of an event bus request |
+ * | `EventSubscribeOptions` | Subscriber name of an event bus subscription |
+ * | `EventSubscriberInfo` | Event bus subscription an event was delivered to |
+ * | `FeatureFlag` | Feature flag with its targeting rules |
+ * | `FeatureFlagConfig` | Endpoint and refresh interval of feature flags |
+ * | `FeatureFlagContext` | User, tenant and environment flag rules are evaluated against |
+ * | `FeatureFlagRule` | Plan, role, environment and percentage targeting of a flag |
  * | `HttpOptions` | HTTP request configuration |
+ * | `IdleConfig` | Idle timeout and countdown warning |
+ * | `HttpCacheEntry` | Response stored by `HttpCacheService` |
+ * | `JwtClaims` | Claims decoded from a JWT access token |
  * | `LogConfig` | Logging configuration |
+ * | `LogContext` | Module, tenant, user, route and version of a log entry |
+ * | `LogEntry` | Log message sent to the log endpoint |
+ * | `LogSink` | Destination of log entries |
+ * | `LogTransportConfig` | Batching, retries, capacities and redaction of logs |
+ * | `LoginCredentials` | Credentials submitted on sign-in |
+ * | `MockBackendConfig` | In-browser mock backend (fixtures, latency, errors) |
+ * | `MockErrorRule` | Error injected for matching mock requests |
+ * | `MockHandler` | Mock endpoint answered in development mode |
+ * | `MockIdentityProviderConfig` | Local OIDC identity provider of the mock backend |
+ * | `MockRequest` | Request passed to a mock handler |
+ * | `MockResponse` | Response returned by a mock handler |
+ * | `ModuleLogger` | Logger of one module, from `LoggerService.createLogger()` |
+ * | `NotificationAction` | Action button of a notification (e.g., Retry, Undo) |
+ * | `NotificationConfig` | Notification durations and maximum visible count |
+ * | `NotificationRequest` | Notification to show through NotificationCenterService |
  * | `NotificationSettings` | Base notification settings (shared) |
+ * | `OfflineCacheConfig` | Maximum age of responses served while offline |
+ * | `OfflineCacheEntry` | GET response stored in IndexedDB for offline reads |
+ * | `OidcConfig` | Tenant OpenID Connect client settings |
+ * | `OidcDiscoveryDocument` | OpenID Provider metadata |
+ * | `OidcTokenResponse` | Identity provider token endpoint response |
+ * | `OutboxConfig` | Outbox for every mutation and retry delays of its replay |
+ * | `OutboxEntry` | Mutation queued while offline, replayed in order |
+ * | `OutboxFailure` | Replayed mutation rejected by the server |
+ * | `Page` | One page of a paginated list |
+ * | `PagedResult` | Page of a resource client with `next()`/`prev()` |
+ * | `PerformanceConfig` | Slow HTTP threshold, kept metrics and batching of telemetry |
+ * | `PerformanceMetric` | Performance measurement tagged by remote and tenant |
+ * | `RequestSummary` | Outcome of a traced HTTP request for diagnostics |
+ * | `RequestTrace` | Request id, trace id and span id of an HTTP request |
+ * | `RequestTracingConfig` | Request summaries kept and traced origins |
+ * | `ResourceEndpoint` | Endpoint declaration of a resource client |
+ * | `ResourceRequest` | Path params, query, body and options of a resource call |
+ * | `RetryConfig` | Retry count, statuses and backoff of failed requests |
+ * | `SerializedEventMetaData` | Plain-object form of an event |
+ * | `SessionSyncMessage` | Session change shared between browser tabs |
  * | `Tenant` | Tenant identity and configuration |
  * | `TenantBranding` | Tenant branding configuration |
  * | `TenantNotificationSettings` | Tenant notification defaults |
  * | `TenantPreference` | Tenant-level preference settings |
+ * | `TokenResponse` | Access/refresh token pair from the auth endpoints |
  * | `TranslateConfig` | Translation service configuration |
  * | `TranslationMessages` | Translation messages structure |
  * | `UrlParams` | URL path and query parameter structure |
  * | `User` | User identity and authorization properties |
  * | `UserNotificationPreference` | User notification preferences |
  * | `UserPreference` | User preference settings for multi-tenant architecture |
+ * | `WebVitals` | Latest LCP, INP and CLS of the page |
  *
  * @module interfaces
  * @publicApi
@@ -59,18 +120,198 @@
 /** Application configuration settings (API URLs, feature flags, etc.) */
 export * from './app-config.interface';
 
+/** Notification shown by NotificationCenterService (severity, actions, repeat count) */
+export * from './app-notification.interface';
+
+/** Authentication endpoints and session persistence settings */
+export * from './auth-config.interface';
+
+/** Authentication endpoint response (access token, expiry, user) */
+export * from './auth-response.interface';
+
+/** Persisted authentication session restored on page load */
+export * from './auth-session.interface';
+
+/** Recent navigation, click or HTTP call attached to error reports */
+export * from './breadcrumb.interface';
+
+/** Cache policy, lifetimes, size and invalidation tags of HTTP responses */
+export * from './cache-config.interface';
+
 /** Cookie storage options (expiry, path, secure, sameSite) */
 export * from './cookie-options.interface';
 
+/** Dedupe window, breadcrumb count and ignored errors of GlobalErrorHandler */
+export * from './error-handler-config.interface';
+
+/** Uncaught error reported by GlobalErrorHandler (stack, route, remote, breadcrumbs) */
+export * from './error-report.interface';
+
+/** Configuration of the events shared with other tabs */
+export * from './event-bus-bridge-config.interface';
+
+/** Event sent to the other tabs by EventBusBridgeService */
+export * from './event-bus-bridge-message.interface';
+
 /** Inter-component messaging format for EventBusService */
 export * from './event-bus-message.interface';
 
+/** Payload type of each event bus key, augmentable by remotes */
+export * from './event-catalog.interface';
+
+/** Published event with the subscriptions it was delivered to */
+export * from './event-dispatch.interface';
+
+/** Options of EventBusService.publish() (replay) */
+export * from './event-publish-options.interface';
+
+/** Request and reply types of each event bus request key */
+export * from './event-request-catalog.interface';
+
+/** Options of EventBusService.request() (timeout) */
+export * from './event-request-options.interface';
+
+/** Options of EventBusService.on() (subscriber name) */
+export * from './event-subscribe-options.interface';
+
+/** Event bus subscription an event was delivered to */
+export * from './event-subscriber-info.interface';
+
+/** Feature flag with its targeting rules */
+export * from './feature-flag.interface';
+
+/** Configuration of feature flag loading */
+export * from './feature-flag-config.interface';
+
+/** Context feature flag rules are evaluated against */
+export * from './feature-flag-context.interface';
+
+/** Targeting rule of a feature flag */
+export * from './feature-flag-rule.interface';
+
 /** HTTP request configuration options */
 export * from './http-options.interface';
 
+/** Response stored by HttpCacheService */
+export * from './http-cache-entry.interface';
+
+/** Idle timeout and countdown warning settings */
+export * from './idle-config.interface';
+
+/** Claims decoded from a JWT access token */
+export * from './jwt-claims.interface';
+
 /** Logging configuration (levels, output format) */
 export * from './log-config.interface';
 
+/** Context attached to every log entry */
+export * from './log-context.interface';
+
+/** Log message buffered and sent in batches to the log endpoint */
+export * from './log-entry.interface';
+
+/** Destination of log entries, registered with provideLogSinks() */
+export * from './log-sink.interface';
+
+/** Batching, retry, capacity and redaction settings for logging */
+export * from './log-transport-config.interface';
+
+/** Credentials submitted when a user signs in */
+export * from './login-credentials.interface';
+
+/** In-browser mock backend configuration (fixtures, latency, error injection) */
+export * from './mock-backend-config.interface';
+
+/** Error injected by the mock backend for matching requests */
+export * from './mock-error-rule.interface';
+
+/** Mock endpoint answered by MockBackendInterceptor in development mode */
+export * from './mock-handler.interface';
+
+/** Local OpenID Connect identity provider served by the mock backend */
+export * from './mock-identity-provider-config.interface';
+
+/** Request passed to a mock handler (method, path, params, body) */
+export * from './mock-request.interface';
+
+/** Response returned by a mock handler (status, body, headers) */
+export * from './mock-response.interface';
+
+/** Logger of one module, created by LoggerService.createLogger() */
+export * from './module-logger.interface';
+
+/** Action button of a notification (label and handler) */
+export * from './notification-action.interface';
+
+/** Notification durations by severity and maximum visible count */
+export * from './notification-config.interface';
+
+/** Notification to show through NotificationCenterService or the event bus */
+export * from './notification-request.interface';
+
+/** Maximum age of the responses served by the offline cache */
+export * from './offline-cache-config.interface';
+
+/** GET response stored per tenant in IndexedDB for offline reads */
+export * from './offline-cache-entry.interface';
+
+/** OpenID Connect client settings for SSO tenants */
+export * from './oidc-config.interface';
+
+/** OpenID Provider metadata (discovery document) */
+export * from './oidc-discovery-document.interface';
+
+/** Identity provider token endpoint response */
+export * from './oidc-token-response.interface';
+
+/** Outbox for every mutation and retry delays of its replay */
+export * from './outbox-config.interface';
+
+/** Mutation queued by OutboxService while offline */
+export * from './outbox-entry.interface';
+
+/** Replayed mutation rejected by the server (conflict or client error) */
+export * from './outbox-failure.interface';
+
+/** One page of a paginated list (items, total, page, size, sort) */
+export * from './page.interface';
+
+/** Page returned by a resource client, with next()/prev() navigation */
+export * from './paged-result.interface';
+
+/** Slow HTTP threshold, kept metrics and batching of PerformanceMonitorService */
+export * from './performance-config.interface';
+
+/** Performance measurement tagged by remote, tenant and route */
+export * from './performance-metric.interface';
+
+/** Outcome of a traced HTTP request (status, error code, duration) */
+export * from './request-summary.interface';
+
+/** X-Request-Id and W3C trace context ids of an HTTP request */
+export * from './request-trace.interface';
+
+/** Request summaries kept by RequestTraceService and origins that receive trace headers */
+export * from './request-tracing-config.interface';
+
+/** Endpoint declaration of a typed resource client (method, path template) */
+export * from './resource-endpoint.interface';
+
+/** Arguments of a resource client call (params, query, body, options) */
+export * from './resource-request.interface';
+
+/** Retry count, statuses and backoff delays of RetryInterceptor */
+export * from './retry-config.interface';
+
+/** Plain-object form of an EventMetaData, sent to other tabs */
+export * from './serialized-event-metadata.interface';
+
+/** Session change shared between browser tabs */
+export * from './session-sync-message.interface';
+
+/** Access/refresh token pair returned by the auth endpoints */
+export * from './token-response.interface';
+
 /** Translation service configuration and messages structure */
 export * from './translate.interface';
 
@@ -80,6 +321,9 @@ export * from './url-parameters.interface';
 /** User identity and authorization properties (id, email, roles, permissions) */
 export * from './user.interface';
 
+/** Latest Core Web Vitals (LCP, INP, CLS) measured by PerformanceMonitorService */
+export * from './web-vitals.interface';
+
 /** Application-level preference settings (theme, language) for AppStore */
 export * from './app-preference.interface';
 
@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Claims read from the payload of a JSON Web Token (JWT) access token.
+ *
+ * Produced by `JwtUtil.decode()` and exposed by `AuthStore.tokenClaims`. Only the
+ * claims Talent Hub relies on are typed; any other claim is available through the
+ * index signature.
+ *
+ * @remarks
+ * **Properties:**
+ * - `exp` - Expiry time in **seconds** since epoch (RFC 7519).
+ * - `iat` - Issue time in **seconds** since epoch (RFC 7519).
+ * - `sub` - Subject, i.e. the user identifier.
+ * - `tenant` - Identifier of the tenant the token was issued for.
+ * - `roles` - Roles granted to the subject.
+ *
+ * The payload is decoded without verifying the signature. Claims are only used to
+ * drive client-side behavior (expiry scheduling, display); the server remains the
+ * authority on whether a token is valid.
+ *
+ * @example
+ * ```typescript
+ * const claims: JwtClaims = {
+ *   sub: 'user_123',
+ *   tenant: 'acme',
+ *   roles: ['recruiter'],
+ *   iat: 1767225600,
+ *   exp: 1767226500,
+ * };
+ * ```
+ *
+ * @see JwtUtil
+ * @see AuthStore
+ * @publicApi
+ */
+export interface JwtClaims {
+  /**
+   * Expiry time in seconds since epoch.
+   */
+  exp?: number;
+
+  /**
+   * Issue time in seconds since epoch.
+   */
+  iat?: number;
+
+  /**
+   * Subject (user identifier) the token was issued to.
+   */
+  sub?: string;
+
+  /**
+   * Identifier of the tenant the token was issued for.
+   */
+  tenant?: string;
+
+  /**
+   * Roles granted to the subject.
+   */
+  roles?: string[];
+
+  /**
+   * Any additional claim issued by the identity provider.
+   */
+  [claim: string]: unknown;
+}
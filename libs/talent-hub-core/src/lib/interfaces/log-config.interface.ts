@@ -104,8 +104,7 @@ export interface LogConfig {
    *
    * @remarks
    * - Requires `logEndpoint` to be set for server logging to work.
-   * - Consider the performance impact of sending logs to the server.
-   * - Use batching and throttling for high-volume logging scenarios.
+   * - Logs are sent in batches; see `LogTransportConfig` to tune batching and retries.
    *
    * @example
    * ```typescript
@@ -127,7 +126,8 @@ export interface LogConfig {
    * @remarks
    * - Should be a relative or absolute URL to your log collection service.
    * - Consider security: use HTTPS in production.
-   * - The endpoint should accept POST requests with log data in the body.
+   * - The endpoint should accept POST requests with a `{ entries: LogEntry[] }` body,
+   *   including those sent with `navigator.sendBeacon()` when the page is hidden.
    *
    * @example
    * ```typescript
@@ -0,0 +1,49 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Context attached by `LoggerService` to every log entry.
+ *
+ * Tells where a message comes from (module, route, application version) and for whom
+ * (tenant, user), so that entries from many tenants and micro-frontends can be told
+ * apart in one log store. Values that are not known when the message is logged
+ * (e.g., no user signed in yet) are `null`.
+ *
+ * @example
+ * ```typescript
+ * const context: LogContext = {
+ *   module: 'candidate.search',
+ *   tenantId: 'acme',
+ *   userId: 'u-17',
+ *   route: '/candidates?page=2',
+ *   appVersion: '2.1.0',
+ * };
+ * ```
+ *
+ * @see LogEntry
+ * @see LoggerService.createLogger
+ * @publicApi
+ */
+export interface LogContext {
+  /** Module passed to `LoggerService.createLogger()`, or `null` for the root logger. */
+  module: string | null;
+
+  /** Identifier of the current tenant (`TenantStore.tenantId`). */
+  tenantId: string | null;
+
+  /** Identifier of the signed-in user (`AuthStore.userId`). */
+  userId: string | null;
+
+  /** URL of the current route (`Router.url`). */
+  route: string | null;
+
+  /** Version of the application (`AppConfig.appVersion`). */
+  appVersion: string | null;
+}
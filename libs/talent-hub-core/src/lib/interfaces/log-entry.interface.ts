@@ -0,0 +1,61 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { LogLevel } from '../types';
+import { LogContext } from './log-context.interface';
+
+/**
+ * Log message written by `LoggerService` to every `LogSink`.
+ *
+ * `HttpLogSink` sends entries in batches as `{ entries: LogEntry[] }`. Before an entry
+ * reaches the sinks, the values of sensitive fields in `meta` (e.g., `email`, `token`)
+ * and email addresses in `message` are replaced with `'[REDACTED]'`.
+ *
+ * @example
+ * ```typescript
+ * const entry: LogEntry = {
+ *   id: '3f1c2a9e-8b4d-4e0a-9f6b-2d7c5e1a0b3c',
+ *   level: 'error',
+ *   message: 'Failed to save candidate',
+ *   meta: { candidateId: 'c-42', email: '[REDACTED]' },
+ *   timestamp: '2026-03-02T09:00:00.000Z',
+ *   context: {
+ *     module: 'candidate.profile',
+ *     tenantId: 'acme',
+ *     userId: 'u-17',
+ *     route: '/candidates/c-42',
+ *     appVersion: '2.1.0',
+ *   },
+ * };
+ * ```
+ *
+ * @see LoggerService
+ * @see LogSink
+ * @publicApi
+ */
+export interface LogEntry {
+  /** Unique identifier of the entry (UUID v4), e.g., to drop duplicates on the server. */
+  id: string;
+
+  /** Severity of the message. */
+  level: LogLevel;
+
+  /** The logged message, with email addresses redacted. */
+  message: string;
+
+  /** Redacted, JSON-safe copy of the metadata passed to the logger, if any. */
+  meta?: unknown;
+
+  /** Time the message was logged, as an ISO 8601 string. */
+  timestamp: string;
+
+  /** Module, tenant, user, route and application version the message was logged in. */
+  context: LogContext;
+}
@@ -0,0 +1,61 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { LogEntry } from './log-entry.interface';
+
+/**
+ * Destination of the log entries written by `LoggerService`.
+ *
+ * `ConsoleLogSink` and `HttpLogSink` always receive entries. Further sinks are
+ * registered with `provideLogSinks()`, either one of the built-in ones
+ * (`MemoryLogSink`, `IndexedDbLogSink`) or a custom implementation, so that each
+ * application can send its logs elsewhere without changing `LoggerService`.
+ *
+ * @remarks
+ * - Entries are passed after level filtering and redaction.
+ * - `write()` must not throw and must not log through `LoggerService`; an error
+ *   thrown by a sink is ignored so that the other sinks still receive the entry.
+ *
+ * @example
+ * ```typescript
+ * @Injectable({ providedIn: 'root' })
+ * export class AnalyticsLogSink implements LogSink {
+ *   private readonly analytics = inject(AnalyticsService);
+ *
+ *   write(entry: LogEntry): void {
+ *     if (entry.level === 'error' || entry.level === 'fatal') {
+ *       this.analytics.track('client_error', { message: entry.message, ...entry.context });
+ *     }
+ *   }
+ * }
+ *
+ * // app.config.ts
+ * provideLogSinks(AnalyticsLogSink),
+ * ```
+ *
+ * @see provideLogSinks
+ * @see LoggerService
+ * @publicApi
+ */
+export interface LogSink {
+  /**
+   * Receives one log entry.
+   *
+   * @param entry - The redacted entry, including its context.
+   */
+  write(entry: LogEntry): void;
+
+  /**
+   * Sends or persists buffered entries now, if the sink buffers them.
+   *
+   * Called by `LoggerService.flush()`.
+   */
+  flush?(): void;
+}
@@ -0,0 +1,115 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration for the batching and retries of log messages sent by `HttpLogSink`, the
+ * capacity of the memory and IndexedDB sinks, and the fields `LoggerService` redacts.
+ *
+ * Provided through `provideLogTransportConfig()` in the application configuration.
+ * Every property is optional; omitted values fall back to the defaults listed below.
+ * Whether messages are sent at all, and where, is set by `LogConfig`.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `batchSize` - `20`
+ * - `flushInterval` - `10000` (10 seconds)
+ * - `maxBufferSize` - `500`
+ * - `maxRetries` - `5`
+ * - `retryDelay` - `1000` (doubled after every failed attempt)
+ * - `maxRetryDelay` - `60000` (1 minute)
+ * - `memoryCapacity` - `200`
+ * - `indexedDbCapacity` - `1000`
+ * - `redactedFields` - `['password', 'secret', 'token', 'authorization', 'cookie', 'email', 'phone']`
+ *
+ * @example
+ * ```typescript
+ * const logTransportConfig: LogTransportConfig = {
+ *   batchSize: 50,
+ *   flushInterval: 30_000,
+ *   redactedFields: ['password', 'token', 'email', 'salary'],
+ * };
+ * ```
+ *
+ * @see provideLogTransportConfig
+ * @see LoggerService
+ * @see HttpLogSink
+ * @publicApi
+ */
+export interface LogTransportConfig {
+  /**
+   * Number of buffered messages that triggers an immediate send, and the maximum
+   * number of messages sent in one request.
+   *
+   * @defaultValue `20`
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum time a message waits in the buffer before it is sent, in milliseconds.
+   *
+   * @defaultValue `10000`
+   */
+  flushInterval?: number;
+
+  /**
+   * Maximum number of messages kept while the endpoint cannot be reached.
+   * The oldest messages are dropped first.
+   *
+   * @defaultValue `500`
+   */
+  maxBufferSize?: number;
+
+  /**
+   * Number of times a failed batch is sent again before it is dropped.
+   *
+   * @defaultValue `5`
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry of a failed batch, in milliseconds.
+   * The delay doubles with every further attempt.
+   *
+   * @defaultValue `1000`
+   */
+  retryDelay?: number;
+
+  /**
+   * Upper bound of the retry delay, in milliseconds.
+   *
+   * @defaultValue `60000`
+   */
+  maxRetryDelay?: number;
+
+  /**
+   * Number of most recent entries kept by `MemoryLogSink`.
+   *
+   * @defaultValue `200`
+   */
+  memoryCapacity?: number;
+
+  /**
+   * Number of most recent entries kept by `IndexedDbLogSink`.
+   *
+   * @defaultValue `1000`
+   */
+  indexedDbCapacity?: number;
+
+  /**
+   * Names of the metadata fields whose values are replaced with `'[REDACTED]'`.
+   *
+   * Matching ignores case, dashes and underscores, and also applies to names that
+   * contain a listed name (`token` redacts `accessToken` and `refresh_token`).
+   * Replaces the default list.
+   *
+   * @defaultValue `['password', 'secret', 'token', 'authorization', 'cookie', 'email', 'phone']`
+   */
+  redactedFields?: string[];
+}
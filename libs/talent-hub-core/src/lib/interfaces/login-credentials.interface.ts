@@ -0,0 +1,53 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Credentials submitted to the authentication endpoint when a user signs in.
+ *
+ * This interface is the request payload of `AuthService.login()`. It is sent as-is
+ * to the configured `loginEndpoint` and is never persisted by the client.
+ *
+ * @remarks
+ * - Credentials are only kept in memory for the duration of the login request.
+ * - Never log or store the `password` value.
+ *
+ * @example
+ * ```typescript
+ * const credentials: LoginCredentials = {
+ *   email: 'recruiter@acme.com',
+ *   password: 'S3cret!',
+ * };
+ *
+ * this.authService.login(credentials).subscribe(() => this.router.navigate(['/dashboard']));
+ * ```
+ *
+ * @see AuthService
+ * @see AuthResponse
+ * @publicApi
+ */
+export interface LoginCredentials {
+  /**
+   * The user's login email address.
+   *
+   * @example
+   * ```typescript
+   * { email: 'recruiter@acme.com' }
+   * ```
+   */
+  email: string;
+
+  /**
+   * The user's password in plain text.
+   *
+   * @remarks
+   * Transmitted over HTTPS only; never persisted or logged.
+   */
+  password: string;
+}
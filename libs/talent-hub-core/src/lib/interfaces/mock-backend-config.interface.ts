@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { MockErrorRule } from './mock-error-rule.interface';
+
+/**
+ * Configuration for the in-browser mock backend run by `MockBackendInterceptor`.
+ *
+ * Provided through `provideMockBackendConfig()` in the application configuration.
+ * Every property is optional; omitted values fall back to the defaults listed below.
+ * Only used in development mode.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `baseUrl` - `'/mocks'`
+ * - `fixtures` - `[]`
+ * - `minLatency` - `100`
+ * - `maxLatency` - `400`
+ * - `errorRate` - `0`
+ * - `errorStatus` - `503`
+ * - `errors` - `[]`
+ *
+ * **Fixtures:**
+ * Each name in `fixtures` is a collection of `MockDatabaseService`, seeded from the
+ * JSON array in `src/mocks/<name>.json` and served as a REST resource under
+ * `/<name>`.
+ *
+ * @example
+ * ```typescript
+ * const mockBackendConfig: MockBackendConfig = {
+ *   fixtures: ['candidates', 'requisitions'],
+ *   minLatency: 0,
+ *   maxLatency: 0,
+ *   errors: [{ method: 'POST', path: '/requisitions', status: 422 }],
+ * };
+ * ```
+ *
+ * @see provideMockBackendConfig
+ * @see MockBackendInterceptor
+ * @see MockDatabaseService
+ * @publicApi
+ */
+export interface MockBackendConfig {
+  /**
+   * Base path of the mock API, matching `environment.baseUrl` in development builds.
+   *
+   * @defaultValue `'/mocks'`
+   */
+  baseUrl?: string;
+
+  /**
+   * Names of the collections seeded from `<baseUrl>/<name>.json` fixture files.
+   *
+   * @defaultValue `[]`
+   */
+  fixtures?: string[];
+
+  /**
+   * Minimum simulated network latency of a mock response, in milliseconds.
+   *
+   * @defaultValue `100`
+   */
+  minLatency?: number;
+
+  /**
+   * Maximum simulated network latency of a mock response, in milliseconds.
+   *
+   * @defaultValue `400`
+   */
+  maxLatency?: number;
+
+  /**
+   * Probability that any mock request fails with `errorStatus`, from `0` to `1`.
+   *
+   * @defaultValue `0`
+   */
+  errorRate?: number;
+
+  /**
+   * HTTP status code of the errors injected by `errorRate`.
+   *
+   * @defaultValue `503`
+   */
+  errorStatus?: number;
+
+  /**
+   * Errors injected for specific endpoints.
+   *
+   * @defaultValue `[]`
+   */
+  errors?: MockErrorRule[];
+}
@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpMethod } from '../types';
+
+/**
+ * Error injected by `MockBackendInterceptor` for matching mock requests.
+ *
+ * Used to exercise error handling (validation errors, outages, rate limits) against
+ * the mock backend. Configured through `MockBackendConfig.errors`.
+ *
+ * @example
+ * ```typescript
+ * // Every other requisition creation fails with a server error
+ * const rule: MockErrorRule = { method: 'POST', path: '/requisitions', status: 503, rate: 0.5 };
+ * ```
+ *
+ * @see MockBackendConfig
+ * @publicApi
+ */
+export interface MockErrorRule {
+  /**
+   * HTTP method the rule applies to. Applies to every method when omitted.
+   */
+  method?: HttpMethod;
+
+  /**
+   * Path template relative to the mock base URL, with `{param}` placeholders.
+   *
+   * @example `'/candidates/{id}'`
+   */
+  path: string;
+
+  /**
+   * HTTP status code of the injected error.
+   *
+   * @defaultValue `500`
+   */
+  status?: number;
+
+  /**
+   * Error body passed to the caller.
+   */
+  body?: unknown;
+
+  /**
+   * Probability that a matching request fails, from `0` to `1`.
+   *
+   * @defaultValue `1`
+   */
+  rate?: number;
+}
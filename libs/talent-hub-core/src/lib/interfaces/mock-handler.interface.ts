@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Observable } from 'rxjs';
+
+import { HttpMethod } from '../types';
+import { MockRequest } from './mock-request.interface';
+import { MockResponse } from './mock-response.interface';
+
+/**
+ * Mock endpoint answered in development mode by `MockBackendInterceptor`.
+ *
+ * A handler matches requests by HTTP method and path template. Path templates use the
+ * same `{param}` placeholders as `ApiUtil.replacePathParams` and are relative to the
+ * `/mocks` base URL. Register handlers with `provideMockHandlers()`.
+ *
+ * @example
+ * ```typescript
+ * const createRequisition: MockHandler = {
+ *   method: 'POST',
+ *   path: '/requisitions',
+ *   handle: (request) => ({ status: 201, body: { id: 'req-1', ...(request.body as object) } }),
+ * };
+ *
+ * const getCandidate: MockHandler = {
+ *   method: 'GET',
+ *   path: '/candidates/{id}',
+ *   handle: ({ params }) => ({ body: { id: params['id'], name: 'Jane Doe' } }),
+ * };
+ * ```
+ *
+ * @see provideMockHandlers
+ * @see MockBackendInterceptor
+ * @publicApi
+ */
+export interface MockHandler {
+  /**
+   * HTTP method answered by the handler.
+   */
+  method: HttpMethod;
+
+  /**
+   * Path template relative to the mock base URL, with `{param}` placeholders.
+   *
+   * @example `'/candidates/{id}'`
+   */
+  path: string;
+
+  /**
+   * Produces the response for a matching request.
+   *
+   * May return the response directly or as an Observable. Errors thrown or emitted by
+   * the handler are reported to the caller as a 500 response.
+   *
+   * @param request - The matched request.
+   * @returns The mock response.
+   */
+  handle(request: MockRequest): MockResponse | Observable<MockResponse>;
+}
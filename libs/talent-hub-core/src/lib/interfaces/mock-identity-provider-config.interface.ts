@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { User } from './user.interface';
+
+/**
+ * Settings of the local OpenID Connect identity provider served by the mock backend.
+ *
+ * Passed to `provideMockIdentityProvider()`. The identity provider lets tenants with
+ * `TenantPreference.oidc` sign in during development without a real SSO server.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `baseUrl` - `'/mocks'`
+ * - `path` - `'/oidc'`, so the issuer is `'/mocks/oidc'`
+ * - `user` - Jane Doe, recruiter
+ * - `expiresIn` - `3600` seconds
+ *
+ * @example
+ * ```typescript
+ * const config: MockIdentityProviderConfig = {
+ *   user: { email: 'admin@acme.com', roles: ['admin'] },
+ *   expiresIn: 60,
+ * };
+ *
+ * // Tenant preference in the mock fixtures
+ * // oidc: { issuer: '/mocks/oidc', clientId: 'talent-hub-web' }
+ * ```
+ *
+ * @see provideMockIdentityProvider
+ * @see MockIdentityProviderUtil
+ * @see OidcConfig
+ * @publicApi
+ */
+export interface MockIdentityProviderConfig {
+  /**
+   * Base URL answered by `MockBackendInterceptor`; must match `MockBackendConfig.baseUrl`.
+   *
+   * @defaultValue `'/mocks'`
+   */
+  baseUrl?: string;
+
+  /**
+   * Path of the identity provider relative to `baseUrl`.
+   *
+   * The issuer is `baseUrl` followed by `path`; use it as `OidcConfig.issuer`.
+   *
+   * @defaultValue `'/oidc'`
+   */
+  path?: string;
+
+  /**
+   * User signed in by the identity provider, merged over the default user.
+   */
+  user?: Partial<User>;
+
+  /**
+   * Lifetime of the issued access and ID tokens, in seconds.
+   *
+   * @defaultValue `3600`
+   */
+  expiresIn?: number;
+}
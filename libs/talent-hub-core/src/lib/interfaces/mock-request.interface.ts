@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpHeaders, HttpParams } from '@angular/common/http';
+
+/**
+ * Request passed to a `MockHandler` by `MockBackendInterceptor`.
+ *
+ * Carries the original HTTP method and body, with the path relative to the `/mocks`
+ * base URL and the path parameters extracted from the handler's path template.
+ *
+ * @example
+ * ```typescript
+ * // PATCH /mocks/candidates/42?notify=true matched by '/candidates/{id}'
+ * const request: MockRequest = {
+ *   method: 'PATCH',
+ *   path: '/candidates/42',
+ *   params: { id: '42' },
+ *   query: new HttpParams().set('notify', 'true'),
+ *   body: { status: 'interview' },
+ *   headers: new HttpHeaders(),
+ * };
+ * ```
+ *
+ * @see MockHandler
+ * @see MockBackendInterceptor
+ * @publicApi
+ */
+export interface MockRequest {
+  /**
+   * HTTP method of the request (e.g., `'GET'`, `'POST'`).
+   */
+  method: string;
+
+  /**
+   * Request path relative to the mock base URL, without the query string.
+   *
+   * @example `'/candidates/42'`
+   */
+  path: string;
+
+  /**
+   * Path parameters extracted from the handler's path template, URL-decoded.
+   *
+   * @example `{ id: '42' }` for the template `'/candidates/{id}'`
+   */
+  params: Record<string, string>;
+
+  /**
+   * Query parameters of the request, including those written in the URL.
+   */
+  query: HttpParams;
+
+  /**
+   * Request body as sent by the caller, or `null` for requests without a body.
+   */
+  body: unknown;
+
+  /**
+   * Request headers.
+   */
+  headers: HttpHeaders;
+}
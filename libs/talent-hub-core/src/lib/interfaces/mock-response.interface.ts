@@ -0,0 +1,49 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Response returned by a `MockHandler`.
+ *
+ * `MockBackendInterceptor` turns it into an `HttpResponse`, or into an
+ * `HttpErrorResponse` when `status` is 400 or higher, so callers and interceptors see
+ * the same results as with a real server.
+ *
+ * @example
+ * ```typescript
+ * // Created
+ * const created: MockResponse = { status: 201, body: requisition };
+ *
+ * // Validation error
+ * const invalid: MockResponse = { status: 422, body: { message: 'Title is required' } };
+ * ```
+ *
+ * @see MockHandler
+ * @publicApi
+ */
+export interface MockResponse {
+  /**
+   * HTTP status code of the response.
+   *
+   * @defaultValue `200`
+   */
+  status?: number;
+
+  /**
+   * Response body; for error statuses, the error body passed to the caller.
+   *
+   * @defaultValue `null`
+   */
+  body?: unknown;
+
+  /**
+   * Response headers.
+   */
+  headers?: Record<string, string>;
+}
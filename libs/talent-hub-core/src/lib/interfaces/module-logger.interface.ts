@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { LogLevel } from '../types';
+
+/**
+ * Logger of one module, created by `LoggerService.createLogger()`.
+ *
+ * Logs like `LoggerService`, and adds the module name to the context of every entry.
+ *
+ * @example
+ * ```typescript
+ * private readonly logger: ModuleLogger = inject(LoggerService).createLogger('candidate.search');
+ *
+ * this.logger.info('Search executed', { filters, resultCount: page.total });
+ * // → entry.context.module === 'candidate.search'
+ * ```
+ *
+ * @see LoggerService.createLogger
+ * @publicApi
+ */
+export interface ModuleLogger {
+  /** Name of the module, added to `LogEntry.context.module`. */
+  readonly module: string;
+
+  /**
+   * Logs a message at the specified level.
+   *
+   * @param level - Severity of the message.
+   * @param message - The log message.
+   * @param meta - Optional metadata to include with the log.
+   */
+  log(level: LogLevel, message: string, meta?: unknown): void;
+
+  /** Logs a trace message. */
+  trace(message: string, meta?: unknown): void;
+
+  /** Logs a debug message. */
+  debug(message: string, meta?: unknown): void;
+
+  /** Logs an informational message. */
+  info(message: string, meta?: unknown): void;
+
+  /** Logs a warning message. */
+  warn(message: string, meta?: unknown): void;
+
+  /** Logs an error message. */
+  error(message: string, meta?: unknown): void;
+
+  /** Logs a fatal error message. */
+  fatal(message: string, meta?: unknown): void;
+}
@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Action button of a notification (e.g., "Retry", "Undo").
+ *
+ * Running the action dismisses the notification.
+ *
+ * @example
+ * ```typescript
+ * const undo: NotificationAction = {
+ *   label: 'Undo',
+ *   handler: () => this.restore(candidate),
+ * };
+ * ```
+ *
+ * @see NotificationRequest
+ * @see NotificationCenterService
+ * @publicApi
+ */
+export interface NotificationAction {
+  /**
+   * Text of the button.
+   */
+  label: string;
+
+  /**
+   * Called when the user clicks the button.
+   */
+  handler: () => void;
+}
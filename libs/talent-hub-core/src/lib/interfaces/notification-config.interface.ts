@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { NotificationSeverity } from '../types';
+
+/**
+ * Configuration of `NotificationCenterService`.
+ *
+ * Provided through `provideNotificationConfig()` in the application configuration. Every
+ * property is optional; omitted values fall back to the defaults listed below.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `durations` - `{ info: 5000, success: 5000, warning: 8000, error: 0 }`
+ * - `maxVisible` - `5`
+ *
+ * @example
+ * ```typescript
+ * const notificationConfig: NotificationConfig = {
+ *   durations: { error: 15_000 },
+ *   maxVisible: 3,
+ * };
+ * ```
+ *
+ * @see provideNotificationConfig
+ * @see NotificationCenterService
+ * @publicApi
+ */
+export interface NotificationConfig {
+  /**
+   * Time after which notifications are dismissed by severity, in milliseconds; `0` keeps
+   * them until dismissed. Omitted severities use their defaults.
+   *
+   * @defaultValue `{ info: 5000, success: 5000, warning: 8000, error: 0 }`
+   */
+  durations?: Partial<Record<NotificationSeverity, number>>;
+
+  /**
+   * Maximum number of notifications on screen; the oldest is dismissed first.
+   *
+   * @defaultValue `5`
+   */
+  maxVisible?: number;
+}
@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { NotificationSeverity } from '../types';
+import { NotificationAction } from './notification-action.interface';
+
+/**
+ * Notification to show with `NotificationCenterService.show()`, or to publish under the
+ * `th:notification.show` event key from any remote.
+ *
+ * @example
+ * ```typescript
+ * const request: NotificationRequest = {
+ *   severity: 'success',
+ *   title: 'Candidate archived',
+ *   message: 'Jane Doe was moved to the archive.',
+ *   actions: [{ label: 'Undo', handler: () => this.restore(candidate) }],
+ * };
+ * ```
+ *
+ * @see NotificationCenterService
+ * @see AppNotification
+ * @publicApi
+ */
+export interface NotificationRequest {
+  /**
+   * Text of the notification.
+   */
+  message: string;
+
+  /**
+   * Severity of the notification.
+   *
+   * @defaultValue `'info'`
+   */
+  severity?: NotificationSeverity;
+
+  /**
+   * Title shown above the message.
+   */
+  title?: string;
+
+  /**
+   * Action buttons of the notification.
+   */
+  actions?: NotificationAction[];
+
+  /**
+   * Time after which the notification is dismissed, in milliseconds; `0` keeps it until
+   * the user dismisses it.
+   *
+   * @defaultValue The duration of the severity in `NotificationConfig`
+   */
+  duration?: number;
+
+  /**
+   * Key identifying repeated notifications. A notification with the key of a visible one
+   * is not shown again; the visible one counts the repeat and restarts its duration.
+   *
+   * @defaultValue The severity, title and message
+   */
+  dedupeKey?: string;
+}
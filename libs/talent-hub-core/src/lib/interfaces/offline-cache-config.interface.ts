@@ -0,0 +1,35 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration of the persistent offline cache of `OfflineCacheInterceptor`.
+ *
+ * @remarks
+ * Provide it with `provideOfflineCacheConfig()`. Only requests that opt in with the
+ * `offline` option of `HttpOptions` or the `OFFLINE_CACHE` context token are stored.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * providers: [provideOfflineCacheConfig({ maxAge: 86_400_000 })];
+ * ```
+ *
+ * @see OfflineCacheService
+ * @see provideOfflineCacheConfig
+ * @publicApi
+ */
+export interface OfflineCacheConfig {
+  /**
+   * Oldest response served while offline, in milliseconds.
+   * Older responses are removed instead.
+   * @default 604800000 (7 days)
+   */
+  maxAge?: number;
+}
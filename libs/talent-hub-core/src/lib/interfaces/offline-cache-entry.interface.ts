@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * GET response stored in IndexedDB by `OfflineCacheService`.
+ *
+ * Entries are keyed by tenant, user and URL, so that neither another tenant nor
+ * another user reads them on a shared device.
+ *
+ * @example
+ * ```typescript
+ * this.offlineCache.get('/api/candidates?page=1').subscribe((entry) => {
+ *   if (entry) {
+ *     console.log('Stored', new Date(entry.storedAt), entry.body);
+ *   }
+ * });
+ * ```
+ *
+ * @see OfflineCacheService
+ * @publicApi
+ */
+export interface OfflineCacheEntry {
+  /**
+   * Tenant the response was received for; empty before a tenant is selected.
+   */
+  tenantId: string;
+
+  /**
+   * User the response was received for; empty before sign-in.
+   */
+  userId: string;
+
+  /**
+   * URL of the request, with query parameters.
+   */
+  url: string;
+
+  /**
+   * Parsed JSON body of the response.
+   */
+  body: unknown;
+
+  /**
+   * Time the response was received, in milliseconds since epoch.
+   */
+  storedAt: number;
+}
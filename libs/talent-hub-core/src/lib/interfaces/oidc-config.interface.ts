@@ -0,0 +1,80 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * OpenID Connect (OIDC) client settings for a tenant that signs in through SSO.
+ *
+ * Set on `TenantPreference.oidc` for enterprise tenants. When present, `OidcService`
+ * signs users in with the authorization-code flow and PKCE against the tenant's
+ * identity provider instead of the username/password form.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `redirectUri` - `{origin}/auth/callback`
+ * - `postLogoutRedirectUri` - `{origin}/`
+ * - `scope` - `'openid profile email offline_access'`
+ *
+ * The identity provider's endpoints are read from its discovery document at
+ * `{issuer}/.well-known/openid-configuration`; they are not configured here.
+ *
+ * @example
+ * ```typescript
+ * const oidc: OidcConfig = {
+ *   issuer: 'https://login.acme.com/realms/talent-hub',
+ *   clientId: 'talent-hub-web',
+ * };
+ * ```
+ *
+ * @see OidcService
+ * @see TenantPreference
+ * @publicApi
+ */
+export interface OidcConfig {
+  /**
+   * Issuer URL of the identity provider.
+   *
+   * Used to load the discovery document and validated against the `iss` claim of
+   * the ID token.
+   */
+  issuer: string;
+
+  /**
+   * Client identifier registered with the identity provider.
+   *
+   * Validated against the `aud` claim of the ID token.
+   */
+  clientId: string;
+
+  /**
+   * Absolute URL the identity provider redirects back to after sign-in.
+   *
+   * Must be registered with the identity provider and routed to `oidcCallbackGuard`.
+   *
+   * @defaultValue `{origin}/auth/callback`
+   */
+  redirectUri?: string;
+
+  /**
+   * Absolute URL the identity provider redirects to after sign-out.
+   *
+   * @defaultValue `{origin}/`
+   */
+  postLogoutRedirectUri?: string;
+
+  /**
+   * Space-separated scopes requested from the identity provider.
+   *
+   * Include `offline_access` so that a refresh token is issued; it is required for
+   * silent renew.
+   *
+   * @defaultValue `'openid profile email offline_access'`
+   */
+  scope?: string;
+}
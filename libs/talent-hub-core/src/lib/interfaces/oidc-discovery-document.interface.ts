@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * OpenID Provider metadata published at `{issuer}/.well-known/openid-configuration`.
+ *
+ * Only the fields used by `OidcService` are typed. Property names follow the
+ * OpenID Connect Discovery specification and are therefore snake_case.
+ *
+ * @example
+ * ```typescript
+ * const discovery: OidcDiscoveryDocument = {
+ *   issuer: 'https://login.acme.com/realms/talent-hub',
+ *   authorization_endpoint: 'https://login.acme.com/realms/talent-hub/protocol/openid-connect/auth',
+ *   token_endpoint: 'https://login.acme.com/realms/talent-hub/protocol/openid-connect/token',
+ *   end_session_endpoint: 'https://login.acme.com/realms/talent-hub/protocol/openid-connect/logout',
+ * };
+ * ```
+ *
+ * @see OidcService
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html
+ * @publicApi
+ */
+export interface OidcDiscoveryDocument {
+  /**
+   * Issuer identifier; must match the configured `OidcConfig.issuer`.
+   */
+  issuer: string;
+
+  /**
+   * URL the browser is redirected to in order to sign in.
+   */
+  authorization_endpoint: string;
+
+  /**
+   * URL that exchanges an authorization code or refresh token for tokens.
+   */
+  token_endpoint: string;
+
+  /**
+   * URL the browser is redirected to in order to sign out of the identity provider.
+   */
+  end_session_endpoint?: string;
+
+  /**
+   * PKCE methods supported by the provider; `OidcService` always uses `S256`.
+   */
+  code_challenge_methods_supported?: string[];
+}
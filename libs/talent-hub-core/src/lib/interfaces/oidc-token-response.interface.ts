@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Response of the identity provider's token endpoint.
+ *
+ * Returned for both the authorization-code exchange and the refresh-token grant.
+ * Property names follow RFC 6749 and are therefore snake_case. `OidcService`
+ * converts the response into a `TokenResponse` for `AuthService`.
+ *
+ * @example
+ * ```typescript
+ * const response: OidcTokenResponse = {
+ *   access_token: 'eyJhbGciOiJSUzI1NiIs...',
+ *   id_token: 'eyJhbGciOiJSUzI1NiIs...',
+ *   refresh_token: 'eyJhbGciOiJIUzI1NiIs...',
+ *   token_type: 'Bearer',
+ *   expires_in: 300,
+ * };
+ * ```
+ *
+ * @see OidcService
+ * @see https://datatracker.ietf.org/doc/html/rfc6749#section-5.1
+ * @publicApi
+ */
+export interface OidcTokenResponse {
+  /**
+   * Access token sent to the Talent Hub API.
+   */
+  access_token: string;
+
+  /**
+   * ID token describing the signed-in user; required for the authorization-code exchange.
+   */
+  id_token?: string;
+
+  /**
+   * Refresh token used for silent renew; only issued with the `offline_access` scope.
+   */
+  refresh_token?: string;
+
+  /**
+   * Token type, normally `'Bearer'`.
+   */
+  token_type?: string;
+
+  /**
+   * Lifetime of the access token in seconds.
+   */
+  expires_in?: number;
+}
@@ -0,0 +1,49 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration of the offline outbox of `OutboxService`.
+ *
+ * @remarks
+ * Provide it with `provideOutboxConfig()`. With `enabled`, every mutation sent through
+ * `ApiService` is queued when the network is down; single requests opt out with the
+ * `outbox` option of `HttpOptions` set to `false`.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * providers: [provideOutboxConfig({ enabled: true, maxRetryDelay: 60_000 })];
+ * ```
+ *
+ * @see OutboxService
+ * @see provideOutboxConfig
+ * @publicApi
+ */
+export interface OutboxConfig {
+  /**
+   * Whether mutations sent through `ApiService` use the outbox unless their `outbox`
+   * option is `false`. Without it, only mutations with `outbox: true` are queued.
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * Delay before a failed replay is retried, in milliseconds.
+   * Doubles after each failed attempt, up to `maxRetryDelay`.
+   * @default 5000
+   */
+  retryDelay?: number;
+
+  /**
+   * Longest delay between two replay attempts, in milliseconds.
+   * @default 300000 (5 minutes)
+   */
+  maxRetryDelay?: number;
+}
@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpMethod } from '../types';
+
+/**
+ * Mutation queued by `OutboxService` while the network was down.
+ *
+ * Entries are persisted in IndexedDB and replayed in `createdAt` order, with their
+ * `id` as `Idempotency-Key` header, so that the server applies each mutation once
+ * even when it received the original request.
+ *
+ * @example
+ * ```typescript
+ * // @for (entry of outbox.pending(); track entry.id) {
+ * //   <li>{{ entry.method }} {{ entry.url }} - queued {{ entry.createdAt | date: 'shortTime' }}</li>
+ * // }
+ * ```
+ *
+ * @see OutboxService
+ * @publicApi
+ */
+export interface OutboxEntry {
+  /**
+   * Unique id of the mutation, sent as `Idempotency-Key` header.
+   */
+  id: string;
+
+  /**
+   * Tenant the mutation was made in; empty before a tenant is selected.
+   */
+  tenantId: string;
+
+  /**
+   * User who made the mutation.
+   */
+  userId: string;
+
+  /**
+   * HTTP method of the mutation.
+   */
+  method: HttpMethod;
+
+  /**
+   * URL of the request, as passed to `ApiService`.
+   */
+  url: string;
+
+  /**
+   * Request body; must be structured-cloneable.
+   */
+  body: unknown;
+
+  /**
+   * Request headers, including `Idempotency-Key`.
+   */
+  headers: Record<string, string | string[]>;
+
+  /**
+   * Query parameters of the request.
+   */
+  params: Record<string, string | number | boolean | readonly (string | number | boolean)[]>;
+
+  /**
+   * Time the mutation was queued, in milliseconds since epoch.
+   */
+  createdAt: number;
+}
@@ -0,0 +1,44 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { OutboxEntry } from './outbox-entry.interface';
+
+/**
+ * Payload of the `th:outbox.conflict` and `th:outbox.failed` events.
+ *
+ * Published by `OutboxService` when the server rejects a replayed mutation. The
+ * mutation has been removed from the outbox when the event is published.
+ *
+ * @example
+ * ```typescript
+ * this.eventBus
+ *   .on(APP_CONSTANT.EVENT_BUS_KEYS.OUTBOX_CONFLICT)
+ *   .subscribe(({ data }) => this.openConflictDialog(data.entry, data.error));
+ * ```
+ *
+ * @see OutboxService
+ * @publicApi
+ */
+export interface OutboxFailure {
+  /**
+   * The rejected mutation.
+   */
+  entry: OutboxEntry;
+
+  /**
+   * HTTP status of the response (e.g., `409`, `412`, `422`).
+   */
+  status: number;
+
+  /**
+   * Body of the error response.
+   */
+  error: unknown;
+}
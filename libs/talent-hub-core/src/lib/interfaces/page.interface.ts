@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * One page of a paginated list returned by the Talent Hub APIs.
+ *
+ * List endpoints accept `page` (1-based), `size` and `sort` query parameters and
+ * return the requested page with the total number of matching items.
+ *
+ * @template T - The type of the items.
+ *
+ * @example
+ * ```typescript
+ * // GET /candidates?page=2&size=20&sort=lastName,asc
+ * const page: Page<Candidate> = {
+ *   items: [...],
+ *   total: 57,
+ *   page: 2,
+ *   size: 20,
+ *   sort: 'lastName,asc',
+ * };
+ * ```
+ *
+ * @publicApi
+ */
+export interface Page<T> {
+  /**
+   * Items of the current page.
+   */
+  items: T[];
+
+  /**
+   * Total number of items matching the request, across all pages.
+   */
+  total: number;
+
+  /**
+   * Number of the current page, starting at 1.
+   */
+  page: number;
+
+  /**
+   * Maximum number of items per page.
+   */
+  size: number;
+
+  /**
+   * Sort applied to the items as `field` or `field,asc|desc`, or `null` if unsorted.
+   */
+  sort: string | null;
+}
@@ -0,0 +1,62 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Observable } from 'rxjs';
+
+import { Page } from './page.interface';
+
+/**
+ * Page returned by a paginated resource client method, with navigation helpers.
+ *
+ * `next()` and `prev()` repeat the original call with the same path parameters,
+ * query parameters and page size, for the following or preceding page.
+ *
+ * @template T - The type of the items.
+ *
+ * @example
+ * ```typescript
+ * candidates.list({ query: { status: 'active', size: 20 } }).subscribe((page) => {
+ *   this.candidates.set(page.items);
+ *   this.page = page;
+ * });
+ *
+ * // "Next" button
+ * this.page.next()?.subscribe((page) => (this.page = page));
+ * ```
+ *
+ * @see Page
+ * @see ResourceClient
+ * @publicApi
+ */
+export interface PagedResult<T> extends Page<T> {
+  /**
+   * `true` if there is a page after this one.
+   */
+  hasNext: boolean;
+
+  /**
+   * `true` if there is a page before this one.
+   */
+  hasPrev: boolean;
+
+  /**
+   * Requests the next page.
+   *
+   * @returns The request for the next page, or `null` on the last page.
+   */
+  next(): Observable<PagedResult<T>> | null;
+
+  /**
+   * Requests the previous page.
+   *
+   * @returns The request for the previous page, or `null` on the first page.
+   */
+  prev(): Observable<PagedResult<T>> | null;
+}
@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration for the performance telemetry of `PerformanceMonitorService`.
+ *
+ * Provided through `providePerformanceConfig()` in the application configuration.
+ * Every property is optional; omitted values fall back to the defaults listed below.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `slowHttpThreshold` - `1000` (1 second)
+ * - `maxMetrics` - `100`
+ * - `batchSize` - `20`
+ * - `flushInterval` - `30000` (30 seconds)
+ *
+ * @example
+ * ```typescript
+ * const performanceConfig: PerformanceConfig = {
+ *   slowHttpThreshold: 2_000,
+ *   flushInterval: 60_000,
+ * };
+ * ```
+ *
+ * @see providePerformanceConfig
+ * @see PerformanceMonitorService
+ * @publicApi
+ */
+export interface PerformanceConfig {
+  /**
+   * Duration above which an HTTP call is recorded, in milliseconds.
+   *
+   * @defaultValue `1000`
+   */
+  slowHttpThreshold?: number;
+
+  /**
+   * Number of most recent metrics kept for the diagnostics view.
+   *
+   * @defaultValue `100`
+   */
+  maxMetrics?: number;
+
+  /**
+   * Number of metrics that triggers sending a batch.
+   *
+   * @defaultValue `20`
+   */
+  batchSize?: number;
+
+  /**
+   * Time after which the pending metrics are sent, in milliseconds.
+   *
+   * @defaultValue `30000`
+   */
+  flushInterval?: number;
+}
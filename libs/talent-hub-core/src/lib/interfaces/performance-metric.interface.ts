@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { PerformanceMetricName } from '../types';
+
+/**
+ * Measurement recorded by `PerformanceMonitorService`, tagged by remote and tenant.
+ *
+ * Sent in batches through `LoggerService`, and kept for a diagnostics view.
+ *
+ * @example
+ * ```typescript
+ * const metric: PerformanceMetric = {
+ *   name: 'remote-load',
+ *   value: 842,
+ *   detail: 'candidates',
+ *   remote: 'talent-hub-candidate',
+ *   tenantId: 'acme',
+ *   route: '/candidates',
+ *   timestamp: '2026-03-02T09:00:00.000Z',
+ * };
+ * ```
+ *
+ * @see PerformanceMonitorService
+ * @publicApi
+ */
+export interface PerformanceMetric {
+  /** What was measured. */
+  name: PerformanceMetricName;
+
+  /** Duration in milliseconds, or the layout shift score for `'CLS'`. */
+  value: number;
+
+  /**
+   * What the measurement applies to: the route path of a remote load, the URL of a
+   * navigation, or the method, URL (without query parameters) and status of an HTTP call.
+   * `null` for Web Vitals.
+   */
+  detail: string | null;
+
+  /** Remote (micro-frontend) the measurement belongs to, or `null` for the host. */
+  remote: string | null;
+
+  /** Tenant of the signed-in user, or `null`. */
+  tenantId: string | null;
+
+  /** URL the user was on, or navigating to. */
+  route: string | null;
+
+  /** Time of the measurement, as an ISO 8601 string. */
+  timestamp: string;
+}
@@ -0,0 +1,72 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Outcome of a traced HTTP request, kept by `RequestTraceService` for diagnostics.
+ *
+ * @example
+ * ```typescript
+ * const summary: RequestSummary = {
+ *   requestId: '0f8fad5b-d9cb-469f-a165-70867728950e',
+ *   traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+ *   method: 'PUT',
+ *   url: 'https://api.talent-hub.com/candidates/42',
+ *   status: 409,
+ *   errorCode: 'conflict',
+ *   startedAt: 1772442000000,
+ *   duration: 184,
+ * };
+ * ```
+ *
+ * @see RequestTraceService
+ * @publicApi
+ */
+export interface RequestSummary {
+  /**
+   * Id sent in the `X-Request-Id` header.
+   */
+  requestId: string;
+
+  /**
+   * Trace id sent in the `traceparent` header.
+   */
+  traceId: string;
+
+  /**
+   * HTTP method of the request.
+   */
+  method: string;
+
+  /**
+   * URL of the request, with query parameters.
+   */
+  url: string;
+
+  /**
+   * Status of the response (`0` for network errors), or `null` if the request was
+   * cancelled before a response arrived.
+   */
+  status: number | null;
+
+  /**
+   * `ApiError.code` of a failed request, or `null`.
+   */
+  errorCode: string | null;
+
+  /**
+   * Time the request was sent, in milliseconds since epoch.
+   */
+  startedAt: number;
+
+  /**
+   * Time until the response (including retries), in milliseconds.
+   */
+  duration: number;
+}
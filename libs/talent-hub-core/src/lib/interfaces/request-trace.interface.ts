@@ -0,0 +1,45 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Ids sent with an HTTP request so that browser logs can be matched with backend traces.
+ *
+ * `RequestTracingInterceptor` sends them in the `X-Request-Id` and W3C `traceparent`
+ * headers (`00-{traceId}-{spanId}-01`).
+ *
+ * @example
+ * ```typescript
+ * const trace: RequestTrace = {
+ *   requestId: '0f8fad5b-d9cb-469f-a165-70867728950e',
+ *   traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+ *   spanId: '00f067aa0ba902b7',
+ * };
+ * ```
+ *
+ * @see RequestTraceService
+ * @see RequestTracingInterceptor
+ * @publicApi
+ */
+export interface RequestTrace {
+  /**
+   * Unique id of the request (UUID), sent as `X-Request-Id`.
+   */
+  requestId: string;
+
+  /**
+   * W3C trace id (32 lowercase hex characters).
+   */
+  traceId: string;
+
+  /**
+   * W3C parent span id of the request (16 lowercase hex characters).
+   */
+  spanId: string;
+}
@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Configuration of `RequestTracingInterceptor` and `RequestTraceService`.
+ *
+ * Provided through `provideRequestTracingConfig()` in the application configuration.
+ * Every property is optional; omitted values fall back to the defaults listed below.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `maxSummaries` - `50`
+ * - `origins` - `[]`
+ *
+ * Trace headers are always sent to the origin of the application and of `API_BASE_URL`.
+ *
+ * @example
+ * ```typescript
+ * const requestTracingConfig: RequestTracingConfig = {
+ *   maxSummaries: 100,
+ *   origins: ['https://files.talent-hub.com'],
+ * };
+ * ```
+ *
+ * @see provideRequestTracingConfig
+ * @see RequestTracingInterceptor
+ * @publicApi
+ */
+export interface RequestTracingConfig {
+  /**
+   * Number of request summaries kept for diagnostics; the oldest are dropped first.
+   *
+   * @defaultValue `50`
+   */
+  maxSummaries?: number;
+
+  /**
+   * Other origins that receive the trace headers (e.g., `'https://files.talent-hub.com'`).
+   * Requests to other servers are not traced, so they do not need to allow the headers.
+   *
+   * @defaultValue `[]`
+   */
+  origins?: string[];
+}
@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpMethod } from '../types';
+import { HttpOptions } from './http-options.interface';
+
+/**
+ * Endpoint of a resource client created with `ApiService.createResource()`.
+ *
+ * Declares the HTTP method and path template of the endpoint. The type parameters
+ * declare the response and request body types; they are used by `ResourceClient` to
+ * type the generated method and are not needed at runtime.
+ *
+ * @template TResponse - Type of the response body. Use `Page<T>` for paginated lists.
+ * @template TBody - Type of the request body, for POST, PUT and PATCH endpoints.
+ *
+ * @example
+ * ```typescript
+ * interface CandidateEndpoints {
+ *   list: ResourceEndpoint<Page<Candidate>>;
+ *   get: ResourceEndpoint<Candidate>;
+ *   update: ResourceEndpoint<Candidate, Partial<Candidate>>;
+ * }
+ *
+ * const endpoints: CandidateEndpoints = {
+ *   list: { method: 'GET', path: '/candidates' },
+ *   get: { method: 'GET', path: '/candidates/{id}' },
+ *   update: { method: 'PATCH', path: '/candidates/{id}' },
+ * };
+ * ```
+ *
+ * @see ApiService.createResource
+ * @see ResourceClient
+ * @publicApi
+ */
+export interface ResourceEndpoint<TResponse = unknown, TBody = unknown> {
+  /**
+   * HTTP method of the endpoint.
+   */
+  method: HttpMethod;
+
+  /**
+   * Path template with `{param}` placeholders, relative to the API base URL.
+   *
+   * @example `'/candidates/{id}'`
+   */
+  path: string;
+
+  /**
+   * HTTP options applied to every call, merged under the options of the call.
+   */
+  options?: HttpOptions;
+
+  /**
+   * Phantom property carrying the response and body types for `ResourceClient`.
+   *
+   * Never set at runtime; it only keeps the type parameters part of the interface.
+   */
+  readonly __types?: [TResponse, TBody];
+}
@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { QueryParams } from '../types';
+import { HttpOptions } from './http-options.interface';
+import { UrlParams } from './url-parameters.interface';
+
+/**
+ * Arguments of a call to a resource client method.
+ *
+ * `params` fill the `{param}` placeholders of the endpoint's path template and
+ * `query` is appended as a query string, using `ApiUtil.replacePathParams` and
+ * `ApiUtil.buildQueryParams`.
+ *
+ * @template TBody - Type of the request body.
+ *
+ * @example
+ * ```typescript
+ * candidates.update({
+ *   params: { id: 'c-1001' },
+ *   query: { notify: true },
+ *   body: { status: 'offer' },
+ * });
+ * ```
+ *
+ * @see ResourceClient
+ * @publicApi
+ */
+export interface ResourceRequest<TBody = unknown> {
+  /**
+   * Values of the path template placeholders.
+   */
+  params?: UrlParams;
+
+  /**
+   * Query parameters; `undefined` and `null` values are left out.
+   */
+  query?: QueryParams;
+
+  /**
+   * Request body, for POST, PUT and PATCH endpoints.
+   */
+  body?: TBody;
+
+  /**
+   * HTTP options of this call (headers, context, ...).
+   */
+  options?: HttpOptions;
+}
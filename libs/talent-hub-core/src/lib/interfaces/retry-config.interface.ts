@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Retry behavior of `RetryInterceptor` for failed idempotent requests.
+ *
+ * Provided application-wide through `provideRetryConfig()`, and per request through
+ * the `retry` option of `HttpOptions` (or the `RETRY` HTTP context token). Every
+ * property is optional; omitted values fall back to the application configuration,
+ * then to the defaults listed below.
+ *
+ * @remarks
+ * **Defaults:**
+ * - `count` - `2`
+ * - `statuses` - `[429, 500, 502, 503, 504]`
+ * - `baseDelay` - `500`
+ * - `maxDelay` - `10000`
+ *
+ * Network errors (status `0`) are always retried, whatever `statuses` contains.
+ *
+ * @example
+ * ```typescript
+ * // More patience for a slow reporting endpoint
+ * this.api.get<Report>('/reports/42', { retry: { count: 4, baseDelay: 1_000 } });
+ *
+ * // Never retry this request
+ * this.api.get<Status>('/health', { retry: false });
+ * ```
+ *
+ * @see RetryInterceptor
+ * @see provideRetryConfig
+ * @publicApi
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of retries after the first attempt. `0` disables retrying.
+   *
+   * @defaultValue `2`
+   */
+  count?: number;
+
+  /**
+   * HTTP status codes that are retried, in addition to network errors.
+   *
+   * @defaultValue `[429, 500, 502, 503, 504]`
+   */
+  statuses?: number[];
+
+  /**
+   * Delay before the first retry, in milliseconds. Doubles with every retry.
+   *
+   * @defaultValue `500`
+   */
+  baseDelay?: number;
+
+  /**
+   * Longest delay between two attempts, in milliseconds.
+   *
+   * A `Retry-After` header asking for a longer wait ends the retries.
+   *
+   * @defaultValue `10000`
+   */
+  maxDelay?: number;
+}
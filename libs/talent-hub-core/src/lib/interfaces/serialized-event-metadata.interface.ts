@@ -0,0 +1,49 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Plain-object form of an `EventMetaData`, as returned by `EventMetaData.toJSON()`.
+ *
+ * Used to send events outside the current page (e.g., to other tabs with
+ * `EventBusBridgeService`) and to restore them with `EventMetaData.fromJSON()`, keeping
+ * the id and timestamp of the original event.
+ *
+ * @template T - The type of the event payload.
+ *
+ * @example
+ * ```typescript
+ * const json: SerializedEventMetaData = metadata.toJSON();
+ * channel.postMessage(json);
+ * ```
+ *
+ * @see EventMetaData
+ * @publicApi
+ */
+export interface SerializedEventMetaData<T = unknown> {
+  /**
+   * Unique identifier of the event (UUID v4).
+   */
+  id: string;
+
+  /**
+   * Event key.
+   */
+  key: string;
+
+  /**
+   * ISO8601 timestamp of when the event was published.
+   */
+  timestamp: string;
+
+  /**
+   * Payload of the event; must be structured-cloneable to be sent to other tabs.
+   */
+  data?: T;
+}
@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { SessionSyncMessageType } from '../types';
+import { AuthSession } from '../interfaces';
+
+/**
+ * Message exchanged between browser tabs to keep their sessions consistent.
+ *
+ * Published and received by `SessionSyncService`. A tab never receives its own
+ * messages; `tabId` identifies the sender.
+ *
+ * @remarks
+ * **Properties:**
+ * - `type` - What changed in the sending tab.
+ * - `tabId` - Identifier of the sending tab.
+ * - `session` - The sender's session, for `'session'` messages.
+ *
+ * @example
+ * ```typescript
+ * const message: SessionSyncMessage = {
+ *   type: 'session',
+ *   tabId: 'e3b0c442-98fc-4c14-9afb-f4c8996fb924',
+ *   session: { token: 'eyJhbGciOi...', user: currentUser, expiresAt: 1767225600000 },
+ * };
+ * ```
+ *
+ * @see SessionSyncService
+ * @see SessionSyncMessageType
+ * @publicApi
+ */
+export interface SessionSyncMessage {
+  /**
+   * What changed in the sending tab.
+   *
+   * @see SessionSyncMessageType
+   */
+  type: SessionSyncMessageType;
+
+  /**
+   * Identifier of the sending tab (`SessionSyncService.tabId`).
+   */
+  tabId: string;
+
+  /**
+   * The sender's current session, included with `'session'` messages.
+   *
+   * @see AuthSession
+   */
+  session?: AuthSession;
+}
@@ -9,7 +9,7 @@
  */
 
 import { DateFormat, Theme, TimeFormat } from '../types';
-import { TenantBranding, TenantNotificationSettings } from '../interfaces';
+import { OidcConfig, TenantBranding, TenantNotificationSettings } from '../interfaces';
 
 /**
  * Represents tenant-level (organization-wide) preference settings.
@@ -243,6 +243,7 @@ export interface TenantPreference {
    * - Keys are feature identifiers (e.g., 'newDashboard', 'advancedSearch').
    * - Values are boolean flags (`true` = enabled, `false` = disabled).
    * - Used for gradual rollouts, A/B testing, and feature gating.
+   * - \`FeatureFlagService\` uses them for the keys its endpoint does not define.
    *
    * @example
    * ```typescript
@@ -283,6 +284,47 @@ export interface TenantPreference {
    */
   notifications?: TenantNotificationSettings;
 
+  /**
+   * Single sign-on settings for tenants that authenticate through OpenID Connect.
+   *
+   * When present, users sign in through the tenant's identity provider using
+   * `OidcService` (authorization code + PKCE) instead of the password form.
+   *
+   * @see OidcConfig
+   * @see OidcService
+   *
+   * @example
+   * ```typescript
+   * const pref: TenantPreference = {
+   *   tenantId: 'tenant_123',
+   *   oidc: {
+   *     issuer: 'https://login.acme.com/realms/talent-hub',
+   *     clientId: 'talent-hub-web',
+   *   },
+   *   // ...other properties
+   * };
+   * ```
+   */
+  oidc?: OidcConfig;
+
+  /**
+   * Minutes without user activity after which users of this tenant are signed out.
+   *
+   * Overrides `IdleConfig.timeout` for the tenant. Set to `0` to disable the idle
+   * timeout, e.g. for kiosk-style deployments with their own session handling.
+   *
+   * @see IdleService
+   *
+   * @example
+   * ```typescript
+   * const pref: TenantPreference = {
+   *   idleTimeoutMinutes: 15,
+   *   // ...other properties
+   * };
+   * ```
+   */
+  idleTimeoutMinutes?: number;
+
   /**
    * Timestamp when these preferences were last updated.
    *
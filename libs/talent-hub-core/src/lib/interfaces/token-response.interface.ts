@@ -0,0 +1,63 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Token pair returned by the authentication endpoints.
+ *
+ * The refresh endpoint returns this payload on its own; the login endpoint extends
+ * it with the user profile (see `AuthResponse`).
+ *
+ * @remarks
+ * **Properties:**
+ * - `accessToken` - Short-lived token sent as `Authorization: Bearer <token>`.
+ * - `refreshToken` - Long-lived token exchanged for a new access token on 401.
+ * - `expiresIn` - Optional lifetime of the access token in seconds.
+ *
+ * When the refresh endpoint omits `refreshToken`, the previous refresh token is kept
+ * (no rotation).
+ *
+ * @example
+ * ```typescript
+ * const tokens: TokenResponse = {
+ *   accessToken: 'eyJhbGciOiJIUzI1NiIs...',
+ *   refreshToken: 'def50200a1b2c3...',
+ *   expiresIn: 900,
+ * };
+ * ```
+ *
+ * @see AuthResponse
+ * @see AuthService
+ * @publicApi
+ */
+export interface TokenResponse {
+  /**
+   * The access token issued for the session.
+   *
+   * Stored in `AuthStore.token` and attached to outgoing requests by `AuthInterceptor`.
+   */
+  accessToken: string;
+
+  /**
+   * The refresh token used to obtain a new access token, if the server issues one.
+   *
+   * Stored in `AuthStore.refreshToken` and never sent as a bearer token.
+   */
+  refreshToken?: string;
+
+  /**
+   * Lifetime of the access token in seconds, if the server provides it.
+   *
+   * @example
+   * ```typescript
+   * { expiresIn: 900 } // 15 minutes
+   * ```
+   */
+  expiresIn?: number;
+}
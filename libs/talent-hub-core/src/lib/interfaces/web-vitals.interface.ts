@@ -0,0 +1,40 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Latest Core Web Vitals of the page, from `PerformanceMonitorService.vitals`.
+ *
+ * Values are `null` until measured, and stay `null` in browsers that do not support them.
+ *
+ * @remarks
+ * | Vital | Good | Poor |
+ * |-------|------|------|
+ * | `lcp` | ≤ 2500 ms | > 4000 ms |
+ * | `inp` | ≤ 200 ms | > 500 ms |
+ * | `cls` | ≤ 0.1 | > 0.25 |
+ *
+ * @example
+ * ```typescript
+ * const vitals: WebVitals = { lcp: 1840, inp: 96, cls: 0.02 };
+ * ```
+ *
+ * @see PerformanceMonitorService
+ * @publicApi
+ */
+export interface WebVitals {
+  /** Largest Contentful Paint, in milliseconds. */
+  lcp: number | null;
+
+  /** Interaction to Next Paint, in milliseconds. */
+  inp: number | null;
+
+  /** Cumulative Layout Shift score. */
+  cls: number | null;
+}
@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { FormArray, FormControl, FormGroup } from '@angular/forms';
+
+import { ApiError } from '../models';
+
+describe('ApiError', () => {
+  function normalize(status: number, error: unknown, headers?: HttpHeaders): ApiError {
+    return new ApiError(
+      new HttpErrorResponse({ status, error, headers, url: '/api/requisitions' }),
+      'POST',
+    );
+  }
+
+  it('should keep the response of the failed request', () => {
+    const apiError = normalize(404, null);
+
+    expect(apiError).toBeInstanceOf(HttpErrorResponse);
+    expect(apiError.status).toBe(404);
+    expect(apiError.url).toBe('/api/requisitions');
+    expect(apiError.method).toBe('POST');
+    expect(apiError.code).toBe('not_found');
+    expect(apiError.message).toBe('The requested item could not be found.');
+    expect(apiError.fieldErrors).toEqual({});
+    expect(apiError.correlationId).toBeNull();
+    expect(apiError.retryable).toBe(false);
+    expect(apiError.requestId).toBeNull();
+    expect(apiError.traceId).toBeNull();
+  });
+
+  it('should read RFC 7807 problem details', () => {
+    const apiError = normalize(422, {
+      type: 'https://api.talent-hub.io/problems/validation-error',
+      title: 'Validation failed',
+      status: 422,
+      detail: 'The requisition has invalid fields.',
+      errors: { title: ['Required', 'Too short'], '/location/city': 'Unknown city' },
+      traceId: 'trace-1',
+    });
+
+    expect(apiError.code).toBe('validation-error');
+    expect(apiError.message).toBe('The requisition has invalid fields.');
+    expect(apiError.fieldErrors).toEqual({
+      title: ['Required', 'Too short'],
+      'location.city': ['Unknown city'],
+    });
+    expect(apiError.correlationId).toBe('trace-1');
+  });
+
+  it('should read RFC 7807 invalid params', () => {
+    const apiError = normalize(400, {
+      type: 'about:blank',
+      title: 'Your request parameters did not validate.',
+      'invalid-params': [{ name: 'openings', reason: 'must be positive' }],
+    });
+
+    expect(apiError.code).toBe('bad_request');
+    expect(apiError.message).toBe('Your request parameters did not validate.');
+    expect(apiError.fieldErrors).toEqual({ openings: ['must be positive'] });
+  });
+
+  it('should read the legacy error bodies', () => {
+    expect(normalize(409, { code: 'JOB_CLOSED', message: 'The job is closed' })).toMatchObject({
+      code: 'JOB_CLOSED',
+      message: 'The job is closed',
+    });
+    expect(
+      normalize(400, {
+        error: {
+          code: 'INVALID',
+          message: 'Invalid',
+          details: [{ field: 'title', message: 'Required' }],
+        },
+      }),
+    ).toMatchObject({ code: 'INVALID', message: 'Invalid', fieldErrors: { title: ['Required'] } });
+    expect(
+      normalize(400, {
+        message: 'Validation failed',
+        fieldErrors: [{ field: 'salary.max', defaultMessage: 'must be greater than min' }],
+      }),
+    ).toMatchObject({ fieldErrors: { 'salary.max': ['must be greater than min'] } });
+    expect(normalize(400, '{"message":"Bad date"}').message).toBe('Bad date');
+  });
+
+  it('should show the detail, then the title, of a problem+json body', () => {
+    const headers = new HttpHeaders({ 'Content-Type': 'application/problem+json' });
+    const problem = {
+      type: 'https://api.talent-hub.io/problems/job-closed',
+      title: 'Job closed',
+      status: 409,
+      detail: 'The job was closed on 1 October and no longer accepts applications.',
+    };
+
+    expect(normalize(409, problem, headers).message).toBe(
+      'The job was closed on 1 October and no longer accepts applications.',
+    );
+    expect(normalize(409, { ...problem, detail: undefined }, headers).message).toBe('Job closed');
+    expect(normalize(409, { ...problem, detail: ' ', title: '' }, headers).message).toBe(
+      'This item was changed by someone else.',
+    );
+    expect(normalize(409, { ...problem, message: 'The job is closed' }, headers).message).toBe(
+      'The job is closed',
+    );
+  });
+
+  it('should only show the message, detail and title fields of a JSON body', () => {
+    expect(normalize(403, { error: 'Access denied' }).message).toBe(
+      'You do not have permission to do this.',
+    );
+    expect(normalize(400, 'SQLSTATE[23000]: Integrity constraint violation').message).toBe(
+      'The request could not be processed.',
+    );
+    expect(normalize(404, { message: '   ' }).message).toBe(
+      'The requested item could not be found.',
+    );
+  });
+
+  it('should never show the message of a server error', () => {
+    const apiError = normalize(500, { detail: 'NullPointerException at Requisitions.java:42' });
+
+    expect(apiError.code).toBe('server_error');
+    expect(apiError.message).toBe('Something went wrong. Please try again later.');
+    expect(apiError.error).toEqual({ detail: 'NullPointerException at Requisitions.java:42' });
+  });
+
+  it('should read the correlation id from the response headers', () => {
+    const apiError = normalize(502, null, new HttpHeaders({ 'X-Request-Id': 'req-7' }));
+
+    expect(apiError.correlationId).toBe('req-7');
+  });
+
+  it('should keep the trace ids of the request', () => {
+    const apiError = new ApiError(new HttpErrorResponse({ status: 500 }), 'GET', {
+      requestId: 'request-1',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+    });
+
+    expect(apiError.requestId).toBe('request-1');
+    expect(apiError.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+  });
+
+  it.each([
+    [0, true],
+    [408, true],
+    [429, true],
+    [503, true],
+    [400, false],
+    [401, false],
+    [501, false],
+  ])('should flag status %i as retryable: %s', (status, retryable) => {
+    expect(normalize(status, null).retryable).toBe(retryable);
+  });
+
+  describe('applyToForm', () => {
+    function createForm(): FormGroup {
+      return new FormGroup({
+        title: new FormControl(''),
+        location: new FormGroup({ city: new FormControl('') }),
+        skills: new FormArray([new FormControl('')]),
+      });
+    }
+
+    it('should set the field errors on the matching controls', () => {
+      const form = createForm();
+      const apiError = normalize(422, {
+        errors: {
+          Title: ['Required', 'Too short'],
+          'location.city': ['Unknown city'],
+          'skills[0]': ['Unknown skill'],
+        },
+      });
+
+      const unmatched = apiError.applyToForm(form);
+
+      expect(unmatched).toEqual({});
+      expect(form.get('title')?.errors).toEqual({ server: 'Required Too short' });
+      expect(form.get('title')?.touched).toBe(true);
+      expect(form.get('location.city')?.errors).toEqual({ server: 'Unknown city' });
+      expect(form.get('skills.0')?.errors).toEqual({ server: 'Unknown skill' });
+      expect(form.valid).toBe(false);
+    });
+
+    it('should return the field errors without a matching control', () => {
+      const form = createForm();
+      const apiError = normalize(422, { errors: { budget: ['Over limit'], title: 'Taken' } });
+
+      expect(apiError.applyToForm(form)).toEqual({ budget: ['Over limit'] });
+      expect(form.get('title')?.errors).toEqual({ server: 'Taken' });
+    });
+  });
+});
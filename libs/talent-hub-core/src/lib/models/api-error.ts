@@ -0,0 +1,433 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpErrorResponse, HttpHeaders, HttpStatusCode } from '@angular/common/http';
+import { AbstractControl } from '@angular/forms';
+
+import { RequestTrace } from '../interfaces';
+
+/**
+ * Messages shown to the user by status, when the server gives none that can be shown.
+ *
+ * @internal
+ */
+const DEFAULT_MESSAGES: Readonly<Record<number, string>> = {
+  0: 'The server could not be reached. Check your connection and try again.',
+  400: 'The request could not be processed.',
+  401: 'Your session has expired. Please sign in again.',
+  403: 'You do not have permission to do this.',
+  404: 'The requested item could not be found.',
+  408: 'The server took too long to respond. Please try again.',
+  409: 'This item was changed by someone else.',
+  412: 'This item was changed by someone else.',
+  422: 'Some fields are invalid.',
+  429: 'Too many requests. Please wait a moment and try again.',
+};
+
+/**
+ * Message shown to the user for server errors and statuses without a default message.
+ *
+ * @internal
+ */
+const FALLBACK_MESSAGE = 'Something went wrong. Please try again later.';
+
+/**
+ * Error codes by status, used when the server gives none.
+ *
+ * @internal
+ */
+const DEFAULT_CODES: Readonly<Record<number, string>> = {
+  0: 'network_error',
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  408: 'timeout',
+  409: 'conflict',
+  412: 'precondition_failed',
+  422: 'validation_failed',
+  429: 'too_many_requests',
+};
+
+/**
+ * Statuses of failures that may succeed when the request is sent again later.
+ *
+ * @internal
+ */
+const RETRYABLE_STATUSES: readonly number[] = [
+  0,
+  HttpStatusCode.RequestTimeout,
+  HttpStatusCode.TooManyRequests,
+  HttpStatusCode.InternalServerError,
+  HttpStatusCode.BadGateway,
+  HttpStatusCode.ServiceUnavailable,
+  HttpStatusCode.GatewayTimeout,
+];
+
+/**
+ * Response headers carrying the id that correlates the request with the server logs.
+ *
+ * @internal
+ */
+const CORRELATION_ID_HEADERS: readonly string[] = ['X-Correlation-Id', 'X-Request-Id'];
+
+/**
+ * Error body fields carrying the correlation id, in order of preference.
+ *
+ * @internal
+ */
+const CORRELATION_ID_FIELDS: readonly string[] = ['correlationId', 'traceId', 'requestId'];
+
+/**
+ * Key of the validation error set on form controls by `applyToForm()`.
+ *
+ * @internal
+ */
+const FORM_ERROR_KEY = 'server';
+
+/**
+ * Field of a validation error in the shapes the backends use.
+ *
+ * @internal
+ */
+interface RawFieldError {
+  field?: unknown;
+  name?: unknown;
+  pointer?: unknown;
+  message?: unknown;
+  reason?: unknown;
+  detail?: unknown;
+  defaultMessage?: unknown;
+}
+
+/**
+ * ApiError is the normalized error of a failed HTTP request.
+ *
+ * `ErrorHandlingInterceptor` turns every `HttpErrorResponse` into an `ApiError`: it is
+ * the error that request subscribers receive and the payload of `th:http.error` events.
+ * As a subclass of `HttpErrorResponse`, it keeps `status`, `url`, `headers` and the raw
+ * `error` body, so existing `instanceof HttpErrorResponse` checks keep working.
+ *
+ * @remarks
+ * **Supported Error Bodies:**
+ * | Shape | Example |
+ * |-------|---------|
+ * | RFC 7807 problem details | `{ type, title, status, detail, errors: { title: ['Required'] } }` |
+ * | RFC 7807 invalid params | `{ title, 'invalid-params': [{ name: 'title', reason: 'Required' }] }` |
+ * | Legacy message | `{ code: 'JOB_CLOSED', message: 'The job is closed' }` |
+ * | Legacy nested error | `{ error: { code, message, details: [{ field, message }] } }` |
+ * | Legacy field list | `{ message, fieldErrors: [{ field: 'title', defaultMessage: 'Required' }] }` |
+ * | Plain text | `'The job is closed'` |
+ *
+ * **User-Safe Message:**
+ * `message` can be shown to the user. For client errors (4xx) it is the `message` field
+ * of a JSON body (`{ message }` or `{ error: { message } }`), else the problem `detail`,
+ * else the problem `title`; otherwise, and for every other status, it is a generic
+ * message by status. Plain text bodies and 5xx bodies never reach the screen. The raw
+ * body stays in `error`.
+ *
+ * **Field Errors:**
+ * `fieldErrors` holds validation messages by field path (e.g., `'address.city'`,
+ * `'items[0].name'`). `applyToForm()` sets them on the controls of a reactive form.
+ *
+ * @example
+ * ```typescript
+ * this.api.post<Requisition>('/requisitions', this.form.value).subscribe({
+ *   error: (error: unknown) => {
+ *     if (error instanceof ApiError) {
+ *       const unmatched = error.applyToForm(this.form);
+ *       this.formMessage.set(error.message);
+ *       console.warn(error.code, error.requestId, error.correlationId, unmatched);
+ *     }
+ *   },
+ * });
+ * ```
+ *
+ * @see ErrorHandlingInterceptor
+ * @publicApi
+ */
+export class ApiError extends HttpErrorResponse {
+  /**
+   * Message that can be shown to the user.
+   */
+  override readonly message: string;
+
+  /**
+   * Machine-readable error code, from the server (e.g., `'JOB_CLOSED'`) or derived from
+   * the status (e.g., `'not_found'`, `'server_error'`).
+   */
+  readonly code: string;
+
+  /**
+   * Validation messages by field path; empty when the server reported none.
+   */
+  readonly fieldErrors: Readonly<Record<string, string[]>>;
+
+  /**
+   * Id correlating the request with the server logs, or `null` if the server sent none.
+   */
+  readonly correlationId: string | null;
+
+  /**
+   * Whether sending the request again later may succeed (network errors, timeouts,
+   * rate limits and server unavailability).
+   */
+  readonly retryable: boolean;
+
+  /**
+   * HTTP method of the failed request, or `null` if unknown.
+   */
+  readonly method: string | null;
+
+  /**
+   * `X-Request-Id` sent with the failed request, or `null` if it was not traced.
+   */
+  readonly requestId: string | null;
+
+  /**
+   * W3C trace id sent with the failed request, or `null` if it was not traced.
+   */
+  readonly traceId: string | null;
+
+  /**
+   * Normalizes a failed HTTP response.
+   *
+   * @param response - The failed response.
+   * @param method - HTTP method of the request, if known.
+   * @param trace - Ids sent with the request by `RequestTracingInterceptor`, if any.
+   *
+   * @example
+   * ```typescript
+   * const apiError = new ApiError(httpErrorResponse, 'POST');
+   * apiError.code; // 'validation_failed'
+   * ```
+   */
+  constructor(
+    response: HttpErrorResponse,
+    method: string | null = null,
+    trace: RequestTrace | null = null,
+  ) {
+    super({
+      error: response.error,
+      headers: response.headers,
+      status: response.status,
+      statusText: response.statusText,
+      url: response.url ?? undefined,
+    });
+    const body: unknown = ApiError.parseBody(response.error);
+    const problem: Record<string, unknown> = ApiError.isRecord(body) ? body : {};
+    const nested: Record<string, unknown> = ApiError.isRecord(problem['error'])
+      ? problem['error']
+      : {};
+
+    this.method = method;
+    this.code = ApiError.readCode(response.status, problem, nested);
+    this.message = ApiError.readMessage(response.status, problem, nested);
+    this.fieldErrors = ApiError.readFieldErrors(problem, nested);
+    this.correlationId = ApiError.readCorrelationId(response.headers, problem);
+    this.retryable = RETRYABLE_STATUSES.includes(response.status);
+    this.requestId = trace?.requestId ?? null;
+    this.traceId = trace?.traceId ?? null;
+  }
+
+  /**
+   * Sets the field errors on the matching controls of a reactive form.
+   *
+   * Each matching control gets a `server` validation error with the messages of its
+   * field and is marked as touched, so that it is shown at once. Field paths are matched
+   * as given, then with each segment starting in lower case (e.g., `'Address.City'`
+   * matches the `address.city` control).
+   *
+   * @param form - The form, or the form group the field paths are relative to.
+   * @returns The field errors without a matching control, to show at form level.
+   *
+   * @example
+   * ```typescript
+   * const unmatched = error.applyToForm(this.form);
+   *
+   * // <ix-input formControlName="title" />
+   * // @if (form.controls.title.errors?.['server']; as message) {
+   * //   <span class="error">{{ message }}</span>
+   * // }
+   * ```
+   */
+  applyToForm(form: AbstractControl): Record<string, string[]> {
+    const unmatched: Record<string, string[]> = {};
+    for (const [field, messages] of Object.entries(this.fieldErrors)) {
+      const path: string[] = field
+        .replace(/\[(\w+)\]/g, '.$1')
+        .split('.')
+        .filter(Boolean);
+      const control: AbstractControl | null =
+        (path.length ? form.get(path) : null) ??
+        (path.length
+          ? form.get(path.map((segment: string) => segment[0].toLowerCase() + segment.slice(1)))
+          : null);
+      if (!control) {
+        unmatched[field] = messages;
+        continue;
+      }
+      control.setErrors({ ...control.errors, [FORM_ERROR_KEY]: messages.join(' ') });
+      control.markAsTouched();
+    }
+    return unmatched;
+  }
+
+  /**
+   * Parses a JSON error body received as text.
+   *
+   * @param error - The raw error body.
+   * @internal
+   */
+  private static parseBody(error: unknown): unknown {
+    if (typeof error !== 'string') {
+      return error;
+    }
+    try {
+      return JSON.parse(error);
+    } catch {
+      return error;
+    }
+  }
+
+  /**
+   * Reads the error code of the server, or derives it from the status.
+   *
+   * @internal
+   */
+  private static readCode(
+    status: number,
+    problem: Record<string, unknown>,
+    nested: Record<string, unknown>,
+  ): string {
+    const code: unknown = problem['code'] ?? problem['errorCode'] ?? nested['code'];
+    if (typeof code === 'string' && code) {
+      return code;
+    }
+    // RFC 7807: the last segment of a problem type URI names the problem
+    const type: unknown = problem['type'];
+    if (typeof type === 'string' && type && type !== 'about:blank') {
+      const segment: string | undefined = type.split(/[/#]/).filter(Boolean).pop();
+      if (segment) {
+        return segment;
+      }
+    }
+    return DEFAULT_CODES[status] ?? (status >= 500 ? 'server_error' : 'http_error');
+  }
+
+  /**
+   * Reads the structured message of the server for client errors, or picks a generic one.
+   *
+   * Only the `message`, `detail` and `title` fields of a JSON body are used, in that
+   * order; raw text and other fields may carry details that are not meant for users.
+   *
+   * @internal
+   */
+  private static readMessage(
+    status: number,
+    problem: Record<string, unknown>,
+    nested: Record<string, unknown>,
+  ): string {
+    if (status >= 400 && status < 500) {
+      const message: unknown = [
+        problem['message'],
+        nested['message'],
+        problem['detail'],
+        problem['title'],
+      ].find((value: unknown): boolean => typeof value === 'string' && value.trim() !== '');
+      if (typeof message === 'string') {
+        return message;
+      }
+    }
+    return DEFAULT_MESSAGES[status] ?? FALLBACK_MESSAGE;
+  }
+
+  /**
+   * Reads the validation messages by field path from the known body shapes.
+   *
+   * @internal
+   */
+  private static readFieldErrors(
+    problem: Record<string, unknown>,
+    nested: Record<string, unknown>,
+  ): Record<string, string[]> {
+    const fieldErrors: Record<string, string[]> = {};
+    const add = (field: unknown, message: unknown): void => {
+      if (typeof field !== 'string' || typeof message !== 'string') {
+        return;
+      }
+      // JSON pointer (e.g., '/address/city') to field path
+      const path: string = field.startsWith('/') ? field.slice(1).split('/').join('.') : field;
+      (fieldErrors[path] ??= []).push(message);
+    };
+
+    for (const source of [
+      problem['errors'],
+      problem['invalid-params'],
+      problem['fieldErrors'],
+      nested['details'],
+    ]) {
+      if (Array.isArray(source)) {
+        for (const item of source as unknown[]) {
+          if (ApiError.isRecord(item)) {
+            const fieldError: RawFieldError = item;
+            add(
+              fieldError.field ?? fieldError.name ?? fieldError.pointer,
+              fieldError.message ??
+                fieldError.reason ??
+                fieldError.detail ??
+                fieldError.defaultMessage,
+            );
+          }
+        }
+      } else if (ApiError.isRecord(source)) {
+        for (const [field, messages] of Object.entries(source)) {
+          for (const message of Array.isArray(messages) ? messages : [messages]) {
+            add(field, message);
+          }
+        }
+      }
+    }
+    return fieldErrors;
+  }
+
+  /**
+   * Reads the correlation id from the body or the response headers.
+   *
+   * @internal
+   */
+  private static readCorrelationId(
+    headers: HttpHeaders,
+    problem: Record<string, unknown>,
+  ): string | null {
+    for (const field of CORRELATION_ID_FIELDS) {
+      const value: unknown = problem[field];
+      if (typeof value === 'string' && value) {
+        return value;
+      }
+    }
+    for (const header of CORRELATION_ID_HEADERS) {
+      const value: string | null = headers.get(header);
+      if (value) {
+        return value;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Checks whether a value is a plain object.
+   *
+   * @internal
+   */
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { ConcurrencyConflictError } from '../models';
+
+interface Requisition {
+  title: string;
+  openings: number;
+}
+
+describe('ConcurrencyConflictError', () => {
+  const response = new HttpErrorResponse({ status: 412 });
+
+  it('should carry the local and server versions', () => {
+    const error = new ConcurrencyConflictError<Requisition>(
+      'PATCH',
+      '/requisitions/42',
+      { openings: 2 },
+      { title: 'Staff Engineer', openings: 1 },
+      response,
+    );
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.method).toBe('PATCH');
+    expect(error.url).toBe('/requisitions/42');
+    expect(error.localVersion).toEqual({ openings: 2 });
+    expect(error.serverVersion).toEqual({ title: 'Staff Engineer', openings: 1 });
+    expect(error.response).toBe(response);
+  });
+
+  it('should describe the conflict', () => {
+    const error = new ConcurrencyConflictError(
+      'DELETE',
+      '/requisitions/42',
+      undefined,
+      null,
+      response,
+    );
+
+    expect(error.name).toBe('ConcurrencyConflictError');
+    expect(error.message).toBe(
+      'DELETE /requisitions/42 conflicts with a newer version of the resource',
+    );
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { HttpMethod } from '../types';
+
+/**
+ * ConcurrencyConflictError is thrown by `ApiService` when a mutation is rejected because
+ * the resource was changed by someone else since it was loaded.
+ *
+ * `ApiService` sends the ETag of the last loaded version of a resource as `If-Match`
+ * with every PUT, PATCH and DELETE of that resource. When the server answers
+ * `412 Precondition Failed`, the service loads the current version of the resource and
+ * fails the mutation with this error, carrying both versions.
+ *
+ * @typeParam T - The type of the resource.
+ *
+ * @remarks
+ * **Resolving the Conflict:**
+ * Loading the current version also makes it the version `ApiService` sends `If-Match`
+ * for. The editing screen can therefore:
+ * - **Overwrite** - send `localVersion` again; it replaces `serverVersion`.
+ * - **Merge** - combine both versions and send the result.
+ * - **Discard** - show `serverVersion` and drop the local changes.
+ *
+ * **Deleted Resources:**
+ * `serverVersion` is `null` when the resource no longer exists.
+ *
+ * @example
+ * ```typescript
+ * this.api.put<Requisition>(`/requisitions/${id}`, draft).subscribe({
+ *   next: (saved) => this.form.reset(saved),
+ *   error: (error: unknown) => {
+ *     if (error instanceof ConcurrencyConflictError) {
+ *       this.conflict.set(error as ConcurrencyConflictError<Requisition>);
+ *     }
+ *   },
+ * });
+ *
+ * // "Overwrite" action of the conflict dialog
+ * overwrite(conflict: ConcurrencyConflictError<Requisition>): void {
+ *   this.api.put<Requisition>(conflict.url, conflict.localVersion).subscribe();
+ * }
+ * ```
+ *
+ * @see ApiService
+ * @publicApi
+ */
+export class ConcurrencyConflictError<T = unknown> extends Error {
+  /**
+   * Name of the error, for logs and error reports.
+   */
+  override readonly name = 'ConcurrencyConflictError';
+
+  /**
+   * Constructs a new ConcurrencyConflictError.
+   *
+   * @param method - HTTP method of the rejected mutation.
+   * @param url - URL of the resource, as passed to `ApiService`.
+   * @param localVersion - Body of the rejected mutation; `undefined` for a DELETE.
+   * @param serverVersion - Current version of the resource, or `null` if it was deleted.
+   * @param response - The `412 Precondition Failed` response of the mutation.
+   *
+   * @example
+   * ```typescript
+   * const error = new ConcurrencyConflictError('PUT', '/requisitions/42', draft, current, response);
+   * ```
+   */
+  constructor(
+    readonly method: HttpMethod,
+    readonly url: string,
+    readonly localVersion: Partial<T> | undefined,
+    readonly serverVersion: T | null,
+    readonly response: HttpErrorResponse,
+  ) {
+    super(`${method} ${url} conflicts with a newer version of the resource`);
+  }
+}
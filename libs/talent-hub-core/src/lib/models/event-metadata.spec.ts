@@ -63,4 +63,31 @@ describe('EventMetaData', () => {
     expect(id.length).toBeGreaterThan(0);
     expect((): Date => new Date(timestamp)).not.toThrow();
   });
+
+  it('should have no origin when created in this tab', () => {
+    expect(new EventMetaData('LOCAL_EVENT').origin).toBeNull();
+  });
+
+  it('should serialize to a plain object', () => {
+    const meta = new EventMetaData<TestPayload>('SERIALIZED_EVENT', { foo: 'a', bar: 1 });
+    expect(meta.toJSON()).toEqual({
+      id: meta.id,
+      key: 'SERIALIZED_EVENT',
+      timestamp: meta.timestamp,
+      data: { foo: 'a', bar: 1 },
+    });
+    expect(JSON.parse(JSON.stringify(meta))).toEqual(meta.toJSON());
+  });
+
+  it('should restore a serialized event with its identity and origin', () => {
+    const meta = new EventMetaData<TestPayload>('RESTORED_EVENT', { foo: 'a', bar: 1 });
+    const restored = EventMetaData.fromJSON<TestPayload>(meta.toJSON(), 'tab-2');
+
+    expect(restored).toBeInstanceOf(EventMetaData);
+    expect(restored.id).toBe(meta.id);
+    expect(restored.key).toBe('RESTORED_EVENT');
+    expect(restored.timestamp).toBe(meta.timestamp);
+    expect(restored.data).toEqual({ foo: 'a', bar: 1 });
+    expect(restored.origin).toBe('tab-2');
+  });
 });
@@ -10,6 +10,8 @@
 
 import { v4 } from 'uuid';
 
+import { SerializedEventMetaData } from '../interfaces';
+
 /**
  * EventMetaData encapsulates metadata for events published via the EventBusService.
  *
@@ -25,12 +27,18 @@ import { v4 } from 'uuid';
  * - `key` - Event key/type identifier used for routing and filtering.
  * - `data` - Optional payload of type `T` associated with the event.
  * - `timestamp` - ISO8601 string indicating when the event was created.
+ * - `origin` - Id of the tab the event was published in, or `null` for this tab.
  *
  * **Usage:**
  * This class is typically instantiated by the `EventBusService.publish()` method
  * and consumed by subscribers via `EventBusService.on()`. You generally don't
  * need to create instances manually unless building custom event infrastructure.
  *
+ * **Serialization:**
+ * `toJSON()` returns a plain object that can be sent to other tabs; `fromJSON()`
+ * restores it there with the id and timestamp of the original event and the id of the
+ * tab it came from.
+ *
  * **Immutability:**
  * All properties are readonly and set at construction time, ensuring that
  * event metadata cannot be modified after creation.
@@ -98,6 +106,13 @@ export class EventMetaData<T> {
    */
   private readonly _timestamp: string;
 
+  /**
+   * Id of the tab the event was published in, or `null` for events of this tab.
+   *
+   * @internal
+   */
+  private readonly _origin: string | null = null;
+
   /**
    * Constructs a new EventMetaData instance with the specified key and optional data.
    *
@@ -213,4 +228,66 @@ export class EventMetaData<T> {
   public get timestamp(): string {
     return this._timestamp;
   }
+
+  /**
+   * Gets the id of the tab the event was published in.
+   *
+   * `null` for events published in this tab; the tab id of `SessionSyncService` for
+   * events received from another tab, e.g., through `EventBusBridgeService`.
+   *
+   * @returns The id of the originating tab, or `null`.
+   *
+   * @example
+   * ```typescript
+   * eventBus.on('th:candidate.*').subscribe((meta) => {
+   *   if (meta.origin !== null) {
+   *     console.log(`Changed in another tab: ${meta.key}`);
+   *   }
+   * });
+   * ```
+   */
+  public get origin(): string | null {
+    return this._origin;
+  }
+
+  /**
+   * Returns the plain-object form of the event, for sending it outside the page.
+   *
+   * Called by `JSON.stringify()`. The payload is included as is.
+   *
+   * @returns The id, key, timestamp and data of the event.
+   *
+   * @example
+   * ```typescript
+   * const event = new EventMetaData('th:candidate.updated', { id: 'c-1' });
+   * channel.postMessage(event.toJSON());
+   * ```
+   */
+  public toJSON(): SerializedEventMetaData<T> {
+    return { id: this._id, key: this._key, timestamp: this._timestamp, data: this._data };
+  }
+
+  /**
+   * Restores an event received from another tab.
+   *
+   * The event keeps the id and timestamp of the original event, so that it can be
+   * correlated across tabs, and records the tab it came from as its `origin`.
+   *
+   * @typeParam T - The type of the event payload.
+   * @param json - The serialized event, from `toJSON()`.
+   * @param origin - Id of the tab the event was published in.
+   * @returns The restored event.
+   *
+   * @example
+   * ```typescript
+   * channel.onmessage = ({ data }) => {
+   *   const event = EventMetaData.fromJSON(data.metadata, data.tabId);
+   * };
+   * ```
+   */
+  public static fromJSON<T>(json: SerializedEventMetaData<T>, origin: string): EventMetaData<T> {
+    const metadata = new EventMetaData<T>(json.key, json.data);
+    // Keep the identity of the original event instead of the generated one
+    return Object.assign(metadata, { _id: json.id, _timestamp: json.timestamp, _origin: origin });
+  }
 }
@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { EventRequestTimeoutError } from '../models';
+
+describe('EventRequestTimeoutError', () => {
+  it('should describe the request that timed out', () => {
+    const error = new EventRequestTimeoutError('th:requisition.get', 5000);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('EventRequestTimeoutError');
+    expect(error.key).toBe('th:requisition.get');
+    expect(error.timeout).toBe(5000);
+    expect(error.message).toBe('No reply to th:requisition.get within 5000 ms');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * EventRequestTimeoutError is thrown by `EventBusService.request()` when no reply arrives
+ * in time.
+ *
+ * This happens when no handler is registered for the key within the timeout (e.g., the
+ * remote that answers it has not been loaded), or when the handler takes too long.
+ *
+ * @example
+ * ```typescript
+ * this.eventBus.request('th:requisition.get', { id }).subscribe({
+ *   next: (requisition) => this.requisition.set(requisition),
+ *   error: (error: unknown) => {
+ *     if (error instanceof EventRequestTimeoutError) {
+ *       this.unavailable.set(true);
+ *     }
+ *   },
+ * });
+ * ```
+ *
+ * @see EventBusService.request
+ * @see EventRequestOptions
+ * @publicApi
+ */
+export class EventRequestTimeoutError extends Error {
+  /**
+   * Name of the error, for logs and error reports.
+   */
+  override readonly name = 'EventRequestTimeoutError';
+
+  /**
+   * Constructs a new EventRequestTimeoutError.
+   *
+   * @param key - Key of the request.
+   * @param timeout - Time waited for the reply, in milliseconds.
+   *
+   * @example
+   * ```typescript
+   * const error = new EventRequestTimeoutError('th:requisition.get', 5000);
+   * ```
+   */
+  constructor(
+    readonly key: string,
+    readonly timeout: number,
+  ) {
+    super(`No reply to ${key} within ${timeout} ms`);
+  }
+}
@@ -16,7 +16,7 @@
  * ## Usage
  *
  * ```typescript
- * import { EventMetadata } from '@talent-hub/core/models';
+ * import { ApiError, ConcurrencyConflictError, EventMetadata } from '@talent-hub/core/models';
  *
  * const event = new EventMetadata('user.login', { userId: '123' });
  * ```
@@ -25,11 +25,27 @@
  *
  * | Model | Description |
  * |-------|-------------|
+ * | `ApiError` | Normalized error of a failed HTTP request |
+ * | `ConcurrencyConflictError` | Mutation rejected because the resource changed |
  * | `EventMetadata` | Metadata for event tracking and auditing |
+ * | `EventRequestTimeoutError` | Event bus request without a reply in time |
+ * | `MutationQueuedError` | Mutation queued in the offline outbox |
  *
  * @module models
  * @publicApi
  */
 
+/** Normalized error of a failed HTTP request */
+export * from './api-error';
+
+/** Mutation rejected because the resource was changed by someone else */
+export * from './concurrency-conflict-error';
+
 /** Metadata for event tracking and auditing */
 export * from './event-metadata';
+
+/** Event bus request that received no reply within its timeout */
+export * from './event-request-timeout-error';
+
+/** Mutation queued in the offline outbox instead of reaching the server */
+export * from './mutation-queued-error';
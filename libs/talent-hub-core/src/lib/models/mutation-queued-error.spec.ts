@@ -0,0 +1,45 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { OutboxEntry } from '../interfaces';
+import { MutationQueuedError } from '../models';
+
+describe('MutationQueuedError', () => {
+  const response = new HttpErrorResponse({ status: 0 });
+  const entry: OutboxEntry = {
+    id: 'k-1',
+    method: 'POST',
+    url: '/interviews/42/feedback',
+    body: { score: 4 },
+    headers: { 'Idempotency-Key': 'k-1' },
+    params: {},
+    tenantId: 'acme',
+    userId: 'user-1',
+    createdAt: 0,
+  };
+
+  it('should carry the queued mutation', () => {
+    const error = new MutationQueuedError(entry, response);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.entry).toBe(entry);
+    expect(error.response).toBe(response);
+  });
+
+  it('should describe the queued mutation', () => {
+    const error = new MutationQueuedError(entry, response);
+
+    expect(error.name).toBe('MutationQueuedError');
+    expect(error.message).toBe('POST /interviews/42/feedback was queued until the network is back');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { OutboxEntry } from '../interfaces';
+
+/**
+ * MutationQueuedError is thrown by `ApiService` when a mutation could not reach the
+ * server and was queued in the offline outbox instead.
+ *
+ * The mutation is not lost: `OutboxService` replays it once the network is back. The
+ * error lets the caller tell a queued mutation from one the server applied, e.g. to
+ * show "Saved offline" instead of "Saved".
+ *
+ * @remarks
+ * **Following the Replay:**
+ * `entry.id` is the `Idempotency-Key` of the mutation. The entry stays in
+ * `OutboxService.pending` until it is replayed; rejected replays are published as
+ * `th:outbox.conflict` or `th:outbox.failed` with an `OutboxFailure`.
+ *
+ * @example
+ * ```typescript
+ * this.api.post<void>(`/interviews/${id}/feedback`, feedback).subscribe({
+ *   complete: () => this.close('Feedback sent'),
+ *   error: (error: unknown) => {
+ *     if (error instanceof MutationQueuedError) {
+ *       this.close('Feedback saved; it will be sent when you are back online');
+ *     }
+ *   },
+ * });
+ * ```
+ *
+ * @see ApiService
+ * @see OutboxService
+ * @publicApi
+ */
+export class MutationQueuedError extends Error {
+  /**
+   * Name of the error, for logs and error reports.
+   */
+  override readonly name = 'MutationQueuedError';
+
+  /**
+   * Constructs a new MutationQueuedError.
+   *
+   * @param entry - The queued mutation.
+   * @param response - The network error of the mutation.
+   *
+   * @example
+   * ```typescript
+   * const error = new MutationQueuedError(entry, response);
+   * ```
+   */
+  constructor(
+    readonly entry: OutboxEntry,
+    readonly response: HttpErrorResponse,
+  ) {
+    super(`${entry.method} ${entry.url} was queued until the network is back`);
+  }
+}
@@ -9,49 +9,68 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { of } from 'rxjs';
+import {
+  HttpClient,
+  HttpContext,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpResponse,
+} from '@angular/common/http';
+import { DestroyRef, Injector, runInInjectionContext, StaticProvider } from '@angular/core';
+import { lastValueFrom, of, Subject, throwError } from 'rxjs';
 
-import { ApiService } from '../services';
+import { ConcurrencyConflictError, MutationQueuedError } from '../models';
+import { ApiService, OutboxService } from '../services';
+import { Page, PagedResult, ResourceEndpoint } from '../interfaces';
+import { CACHE, OFFLINE_CACHE, OUTBOX, OUTBOX_CONFIG, RETRY } from '../tokens';
 import { AppUtil } from '../utils';
 
-// Use vi.hoisted to declare variables that can be accessed inside vi.mock
-const { mockHttpClient } = vi.hoisted(() => {
-  return {
-    mockHttpClient: {
-      get: vi.fn(),
-      post: vi.fn(),
-      put: vi.fn(),
-      patch: vi.fn(),
-      delete: vi.fn(),
-    },
-  };
-});
+const mockHttpClient = {
+  get: vi.fn(),
+  post: vi.fn(),
+  put: vi.fn(),
+  patch: vi.fn(),
+  delete: vi.fn(),
+};
 
-// Mock @angular/core inject before importing ApiService
-vi.mock('@angular/core', async (importOriginal) => {
-  const actual = await importOriginal();
-  return Object.assign({}, actual, {
-    inject: vi.fn((token: any) => {
-      // Check if token is HttpClient by checking its name property
-      if (token?.name === 'HttpClient' || String(token).includes('HttpClient')) {
-        return mockHttpClient;
-      }
-      // For unknown tokens in test environment, throw a helpful error
-      throw new Error(`Unmocked token in test: ${token?.name || String(token)}`);
-    }),
-    isDevMode: () => false,
-  });
-});
+const mockOutbox = {
+  enqueue: vi.fn(),
+};
+
+/** Successful HttpClient response with the given body and headers. */
+const ok = <T>(body: T, headers: Record<string, string> = {}) =>
+  of(new HttpResponse({ body, headers: new HttpHeaders(headers) }));
 
 let isDevModeSpy: ReturnType<typeof vi.spyOn>;
 
+/** Creates the service with the mock HttpClient and outbox, outside of dev mode. */
+function createService(providers: StaticProvider[] = []): ApiService {
+  vi.clearAllMocks();
+  isDevModeSpy = vi.spyOn(AppUtil, 'isDevMode');
+  isDevModeSpy.mockReturnValue(false);
+  const injector = Injector.create({
+    providers: [
+      { provide: HttpClient, useValue: mockHttpClient },
+      { provide: OutboxService, useValue: mockOutbox },
+      ...providers,
+    ],
+  });
+  return runInInjectionContext(injector, () => new ApiService());
+}
+
 describe('ApiService', () => {
   let service: ApiService;
 
   beforeEach(() => {
     // Reset all mocks
     vi.clearAllMocks();
-    service = new ApiService();
+    const injector = Injector.create({
+      providers: [
+        { provide: HttpClient, useValue: mockHttpClient },
+        { provide: OutboxService, useValue: mockOutbox },
+      ],
+    });
+    service = runInInjectionContext(injector, () => new ApiService());
     isDevModeSpy = vi.spyOn(AppUtil, 'isDevMode');
     isDevModeSpy.mockReturnValue(false);
   });
@@ -66,73 +85,581 @@ describe('ApiService', () => {
 
   describe('get', () => {
     it('should call get with correct params', () => {
-      mockHttpClient.get.mockReturnValue(of('data'));
+      mockHttpClient.get.mockReturnValue(ok('data'));
       const options = {
         headers: { test: '1' },
         params: { a: 'b' },
       };
       service.get('url', options).subscribe();
-      expect(mockHttpClient.get).toHaveBeenCalledWith('url', options);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('url', { ...options, observe: 'response' });
     });
   });
 
   describe('post', () => {
     it('should call post when not in dev mode', () => {
       isDevModeSpy.mockReturnValue(false);
-      mockHttpClient.post.mockReturnValue(of('data'));
+      mockHttpClient.post.mockReturnValue(ok('data'));
       service.post('url', { foo: 'bar' }).subscribe();
-      expect(mockHttpClient.post).toHaveBeenCalledWith('url', { foo: 'bar' }, undefined);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        'url',
+        { foo: 'bar' },
+        { observe: 'response' },
+      );
     });
-    it('should call get instead of post in dev mode', () => {
+    it('should keep the post method and body in dev mode', () => {
       isDevModeSpy.mockReturnValue(true);
-      mockHttpClient.get.mockReturnValue(of('data'));
+      mockHttpClient.post.mockReturnValue(ok('data'));
       service.post('url', { foo: 'bar' }).subscribe();
-      expect(mockHttpClient.get).toHaveBeenCalledWith('url', undefined);
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        'url',
+        { foo: 'bar' },
+        { observe: 'response' },
+      );
     });
   });
 
   describe('put', () => {
     it('should call put when not in dev mode', () => {
       isDevModeSpy.mockReturnValue(false);
-      mockHttpClient.put.mockReturnValue(of('data'));
+      mockHttpClient.put.mockReturnValue(ok('data'));
       service.put('url', { foo: 'bar' }).subscribe();
-      expect(mockHttpClient.put).toHaveBeenCalledWith('url', { foo: 'bar' }, undefined);
+      expect(mockHttpClient.put).toHaveBeenCalledWith(
+        'url',
+        { foo: 'bar' },
+        { observe: 'response' },
+      );
     });
-    it('should call get instead of put in dev mode', () => {
+    it('should keep the put method and body in dev mode', () => {
       isDevModeSpy.mockReturnValue(true);
-      mockHttpClient.get.mockReturnValue(of('data'));
+      mockHttpClient.put.mockReturnValue(ok('data'));
       service.put('url', { foo: 'bar' }).subscribe();
-      expect(mockHttpClient.get).toHaveBeenCalledWith('url', undefined);
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+      expect(mockHttpClient.put).toHaveBeenCalledWith(
+        'url',
+        { foo: 'bar' },
+        { observe: 'response' },
+      );
     });
   });
 
   describe('patch', () => {
     it('should call patch when not in dev mode', () => {
       isDevModeSpy.mockReturnValue(false);
-      mockHttpClient.patch.mockReturnValue(of('data'));
+      mockHttpClient.patch.mockReturnValue(ok('data'));
       service.patch('url', { foo: 'bar' }).subscribe();
-      expect(mockHttpClient.patch).toHaveBeenCalledWith('url', { foo: 'bar' }, undefined);
+      expect(mockHttpClient.patch).toHaveBeenCalledWith(
+        'url',
+        { foo: 'bar' },
+        { observe: 'response' },
+      );
     });
-    it('should call get instead of patch in dev mode', () => {
+    it('should keep the patch method and body in dev mode', () => {
       isDevModeSpy.mockReturnValue(true);
-      mockHttpClient.get.mockReturnValue(of('data'));
+      mockHttpClient.patch.mockReturnValue(ok('data'));
       service.patch('url', { foo: 'bar' }).subscribe();
-      expect(mockHttpClient.get).toHaveBeenCalledWith('url', undefined);
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+      expect(mockHttpClient.patch).toHaveBeenCalledWith(
+        'url',
+        { foo: 'bar' },
+        { observe: 'response' },
+      );
     });
   });
 
   describe('delete', () => {
     it('should call delete when not in dev mode', () => {
       isDevModeSpy.mockReturnValue(false);
-      mockHttpClient.delete.mockReturnValue(of('data'));
+      mockHttpClient.delete.mockReturnValue(ok('data'));
       service.delete('url').subscribe();
-      expect(mockHttpClient.delete).toHaveBeenCalledWith('url', undefined);
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('url', { observe: 'response' });
     });
-    it('should call get instead of delete in dev mode', () => {
+    it('should keep the delete method in dev mode', () => {
       isDevModeSpy.mockReturnValue(true);
-      mockHttpClient.get.mockReturnValue(of('data'));
+      mockHttpClient.delete.mockReturnValue(ok('data'));
       service.delete('url').subscribe();
-      expect(mockHttpClient.get).toHaveBeenCalledWith('url', undefined);
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('url', { observe: 'response' });
+    });
+  });
+});
+
+describe('ApiService createResource', () => {
+  let service: ApiService;
+
+  beforeEach(() => {
+    service = createService();
+  });
+
+  interface Candidate {
+    id: string;
+    name: string;
+  }
+
+  interface CandidateEndpoints {
+    list: ResourceEndpoint<Page<Candidate>>;
+    get: ResourceEndpoint<Candidate>;
+    update: ResourceEndpoint<Candidate, Partial<Candidate>>;
+    remove: ResourceEndpoint<void>;
+  }
+
+  const candidate: Candidate = { id: 'c-1', name: 'Ada' };
+
+  function createClient() {
+    return service.createResource<CandidateEndpoints>({
+      list: { method: 'GET', path: '/candidates' },
+      get: { method: 'GET', path: '/candidates/{id}' },
+      update: { method: 'PATCH', path: '/candidates/{id}', options: { headers: { b: '2' } } },
+      remove: { method: 'DELETE', path: '/candidates/{id}' },
+    });
+  }
+
+  function page(number: number, total = 45): Page<Candidate> {
+    return { items: [candidate], total, page: number, size: 20, sort: null };
+  }
+
+  it('should fill path parameters and send the endpoint method', () => {
+    mockHttpClient.get.mockReturnValue(ok(candidate));
+    mockHttpClient.delete.mockReturnValue(ok(null));
+    const client = createClient();
+
+    let result: Candidate | undefined;
+    client.get({ params: { id: 'c 1' } }).subscribe((value) => (result = value));
+    client.remove({ params: { id: 'c-1' } }).subscribe();
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/candidates/c%201', { observe: 'response' });
+    expect(mockHttpClient.delete).toHaveBeenCalledWith('/candidates/c-1', {
+      observe: 'response',
+    });
+    expect(result).toEqual(candidate);
+  });
+
+  it('should send the body with the call options over the endpoint options', () => {
+    mockHttpClient.patch.mockReturnValue(ok(candidate));
+
+    createClient()
+      .update({ params: { id: 'c-1' }, body: { name: 'Ada' }, options: { headers: { a: '1' } } })
+      .subscribe();
+
+    expect(mockHttpClient.patch).toHaveBeenCalledWith(
+      '/candidates/c-1',
+      { name: 'Ada' },
+      { headers: { a: '1' }, observe: 'response' },
+    );
+  });
+
+  it('should append the query parameters', () => {
+    mockHttpClient.get.mockReturnValue(ok(page(1)));
+
+    createClient()
+      .list({ query: { status: ['new', 'active'], q: undefined, page: 1 } })
+      .subscribe();
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/candidates?status=new&status=active&page=1', {
+      observe: 'response',
+    });
+  });
+
+  it('should return pages with next() and prev() helpers', () => {
+    mockHttpClient.get.mockImplementation((url: string) =>
+      ok(page(Number(new URL(url, 'http://x').searchParams.get('page') ?? 1))),
+    );
+    const client = createClient();
+
+    let first: PagedResult<Candidate> | undefined;
+    client.list({ query: { status: 'new' } }).subscribe((value) => (first = value));
+    expect(first).toMatchObject({ page: 1, hasNext: true, hasPrev: false });
+    expect(first?.prev()).toBeNull();
+
+    let second: PagedResult<Candidate> | undefined;
+    first?.next()?.subscribe((value) => (second = value));
+    expect(mockHttpClient.get).toHaveBeenLastCalledWith('/candidates?status=new&page=2&size=20', {
+      observe: 'response',
+    });
+    expect(second).toMatchObject({ page: 2, hasNext: true, hasPrev: true });
+
+    second?.prev()?.subscribe();
+    expect(mockHttpClient.get).toHaveBeenLastCalledWith('/candidates?status=new&page=1&size=20', {
+      observe: 'response',
+    });
+  });
+
+  it('should return null from next() on the last page', () => {
+    mockHttpClient.get.mockReturnValue(ok(page(3)));
+
+    let last: PagedResult<Candidate> | undefined;
+    createClient()
+      .list({ query: { page: 3 } })
+      .subscribe((value) => (last = value));
+
+    expect(last?.hasNext).toBe(false);
+    expect(last?.next()).toBeNull();
+  });
+});
+
+describe('ApiService retry option', () => {
+  let service: ApiService;
+
+  beforeEach(() => {
+    service = createService();
+  });
+
+  it('should pass the retry option through the RETRY context token', () => {
+    mockHttpClient.get.mockReturnValue(ok('data'));
+    service.get('url', { headers: { a: '1' }, retry: { count: 4 } }).subscribe();
+
+    const options = mockHttpClient.get.mock.calls[0][1];
+    expect(options).toEqual({
+      headers: { a: '1' },
+      context: expect.any(HttpContext),
+      observe: 'response',
+    });
+    expect(options.context.get(RETRY)).toEqual({ count: 4 });
+  });
+
+  it('should keep the context of the options', () => {
+    mockHttpClient.put.mockReturnValue(ok('data'));
+    const context = new HttpContext();
+    service.put('url', {}, { context, retry: false }).subscribe();
+
+    expect(mockHttpClient.put).toHaveBeenCalledWith('url', {}, { context, observe: 'response' });
+    expect(context.get(RETRY)).toBe(false);
+  });
+});
+
+describe('ApiService request groups', () => {
+  let service: ApiService;
+
+  beforeEach(() => {
+    service = createService();
+  });
+
+  it('should not pass the group option to HttpClient', () => {
+    mockHttpClient.get.mockReturnValue(ok('data'));
+    service.get('url', { headers: { a: '1' }, group: 'search' }).subscribe();
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith('url', {
+      headers: { a: '1' },
+      observe: 'response',
+    });
+  });
+
+  it('should cancel the pending requests of a group without an error', () => {
+    const response = new Subject<HttpResponse<string>>();
+    mockHttpClient.get.mockReturnValue(response);
+    const observer = { next: vi.fn(), error: vi.fn(), complete: vi.fn() };
+    service.get('a', { group: 'search' }).subscribe(observer);
+    service.get('b', { group: 'search' }).subscribe(observer);
+
+    service.cancelGroup('search');
+    response.next(new HttpResponse({ body: 'late' }));
+
+    expect(observer.next).not.toHaveBeenCalled();
+    expect(observer.error).not.toHaveBeenCalled();
+    expect(observer.complete).toHaveBeenCalledTimes(2);
+    expect(response.observed).toBe(false);
+  });
+
+  it('should leave other groups and later requests untouched', () => {
+    const response = new Subject<HttpResponse<string>>();
+    mockHttpClient.get.mockReturnValue(response);
+    const values: string[] = [];
+    service.get<string>('a', { group: 'other' }).subscribe((v) => values.push(`other:${v}`));
+    service.cancelGroup('search');
+    service.get<string>('b', { group: 'search' }).subscribe((v) => values.push(`search:${v}`));
+
+    response.next(new HttpResponse({ body: 'ok' }));
+
+    expect(values).toEqual(['other:ok', 'search:ok']);
+  });
+
+  it('should cancel a created group when its owner is destroyed', () => {
+    const response = new Subject<string>();
+    mockHttpClient.get.mockReturnValue(response);
+    let onDestroy: () => void = () => undefined;
+    const destroyRef = { onDestroy: (callback: () => void) => (onDestroy = callback) };
+    const group = service.createRequestGroup(destroyRef as unknown as DestroyRef);
+    const complete = vi.fn();
+    service.get('a', { group }).subscribe({ complete });
+
+    onDestroy();
+
+    expect(group).toMatch(/^request-group-/);
+    expect(complete).toHaveBeenCalled();
+    expect(response.observed).toBe(false);
+  });
+});
+
+describe('ApiService caching option', () => {
+  let service: ApiService;
+
+  beforeEach(() => {
+    service = createService();
+  });
+
+  it('should pass the caching option through the CACHE context token', () => {
+    mockHttpClient.get.mockReturnValue(ok('data'));
+    service.get('url', { caching: { policy: 'no-store' } }).subscribe();
+
+    const options = mockHttpClient.get.mock.calls[0][1];
+    expect(options).toEqual({ context: expect.any(HttpContext), observe: 'response' });
+    expect(options.context.get(CACHE)).toEqual({ policy: 'no-store' });
+    expect(options.context.get(RETRY)).toBeNull();
+  });
+});
+
+describe('ApiService offline option', () => {
+  let service: ApiService;
+
+  beforeEach(() => {
+    service = createService();
+  });
+
+  it('should pass the offline option through the OFFLINE_CACHE context token', () => {
+    mockHttpClient.get.mockReturnValue(ok('data'));
+    service.get('url', { offline: false }).subscribe();
+
+    const options = mockHttpClient.get.mock.calls[0][1];
+    expect(options).toEqual({ context: expect.any(HttpContext), observe: 'response' });
+    expect(options.context.get(OFFLINE_CACHE)).toBe(false);
+  });
+});
+
+describe('ApiService outbox option', () => {
+  let service: ApiService;
+
+  beforeEach(() => {
+    service = createService();
+  });
+
+  const networkError = new HttpErrorResponse({ status: 0 });
+
+  it('should send the mutation with an idempotency key', () => {
+    mockHttpClient.post.mockReturnValue(ok('created'));
+    service.post('/feedback', { score: 4 }, { outbox: true }).subscribe();
+
+    const options = mockHttpClient.post.mock.calls[0][2];
+    expect(options.headers['Idempotency-Key']).toEqual(expect.any(String));
+    expect(options.context.get(OUTBOX)).toBe(true);
+    expect(mockOutbox.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should keep an idempotency key of the caller', () => {
+    mockHttpClient.put.mockReturnValue(ok('updated'));
+    const headers = new HttpHeaders({ 'idempotency-key': 'k-1', 'X-Source': 'mobile' });
+    service.put('/feedback/1', {}, { headers, outbox: true }).subscribe();
+
+    expect(mockHttpClient.put.mock.calls[0][2].headers).toEqual({
+      'idempotency-key': ['k-1'],
+      'X-Source': ['mobile'],
+    });
+  });
+
+  it('should queue the mutation on network errors and fail with MutationQueuedError', async () => {
+    const entry = { id: 'k-1' };
+    mockHttpClient.patch.mockReturnValue(throwError(() => networkError));
+    mockOutbox.enqueue.mockReturnValue(of(entry));
+
+    const error = await lastValueFrom(
+      service.patch('/feedback/1', { score: 5 }, { params: { draft: true }, outbox: true }),
+    ).catch((queued: unknown) => queued);
+
+    expect(error).toBeInstanceOf(MutationQueuedError);
+    expect((error as MutationQueuedError).entry).toBe(entry);
+    expect((error as MutationQueuedError).response).toBe(networkError);
+    const key = mockHttpClient.patch.mock.calls[0][2].headers['Idempotency-Key'];
+    expect(mockOutbox.enqueue).toHaveBeenCalledWith({
+      id: key,
+      method: 'PATCH',
+      url: '/feedback/1',
+      body: { score: 5 },
+      headers: { 'Idempotency-Key': key },
+      params: { draft: true },
+    });
+  });
+
+  it('should pass other errors on', async () => {
+    const serverError = new HttpErrorResponse({ status: 500 });
+    mockHttpClient.delete.mockReturnValue(throwError(() => serverError));
+
+    await expect(lastValueFrom(service.delete('/feedback/1', { outbox: true }))).rejects.toBe(
+      serverError,
+    );
+    expect(mockOutbox.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should pass the network error on when the mutation cannot be queued', async () => {
+    mockHttpClient.post.mockReturnValue(throwError(() => networkError));
+    mockOutbox.enqueue.mockReturnValue(throwError(() => new Error('QuotaExceededError')));
+
+    await expect(lastValueFrom(service.post('/feedback', {}, { outbox: true }))).rejects.toBe(
+      networkError,
+    );
+  });
+
+  it('should not queue mutations without the option', async () => {
+    mockHttpClient.post.mockReturnValue(throwError(() => networkError));
+
+    await expect(lastValueFrom(service.post('/feedback', {}))).rejects.toBe(networkError);
+    expect(mockOutbox.enqueue).not.toHaveBeenCalled();
+  });
+
+  describe('enabled for every mutation', () => {
+    beforeEach(() => {
+      service = createService([{ provide: OUTBOX_CONFIG, useValue: { enabled: true } }]);
+    });
+
+    it('should queue mutations without the option', async () => {
+      mockHttpClient.delete.mockReturnValue(throwError(() => networkError));
+      mockOutbox.enqueue.mockReturnValue(of({ id: 'k-1' }));
+
+      await expect(lastValueFrom(service.delete('/feedback/1'))).rejects.toBeInstanceOf(
+        MutationQueuedError,
+      );
+      expect(mockHttpClient.delete.mock.calls[0][1].context.get(OUTBOX)).toBe(true);
+      expect(mockOutbox.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'DELETE', url: '/feedback/1' }),
+      );
     });
+
+    it('should not queue mutations that opt out', async () => {
+      mockHttpClient.post.mockReturnValue(throwError(() => networkError));
+
+      await expect(lastValueFrom(service.post('/auth/login', {}, { outbox: false }))).rejects.toBe(
+        networkError,
+      );
+      expect(mockHttpClient.post.mock.calls[0][2].headers).toBeUndefined();
+      expect(mockOutbox.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('ApiService optimistic concurrency', () => {
+  let service: ApiService;
+
+  beforeEach(() => {
+    service = createService();
+  });
+
+  const draft = { title: 'Senior Engineer' };
+  const current = { title: 'Staff Engineer' };
+  const preconditionFailed = new HttpErrorResponse({ status: 412 });
+
+  /** Loads the requisition, remembering its ETag. */
+  function load(entityTag = '"v1"'): void {
+    mockHttpClient.get.mockReturnValueOnce(ok(current, { ETag: entityTag }));
+    service.get('/requisitions/42').subscribe();
+  }
+
+  it('should send the ETag of the loaded version with PUT, PATCH and DELETE', () => {
+    load();
+    mockHttpClient.put.mockReturnValue(ok(draft, { ETag: '"v1"' }));
+    mockHttpClient.patch.mockReturnValue(ok(draft, { ETag: '"v1"' }));
+    mockHttpClient.delete.mockReturnValue(ok(null));
+    mockHttpClient.post.mockReturnValue(ok(null));
+
+    service.put('/requisitions/42', draft).subscribe();
+    service.patch('/requisitions/42', draft, { headers: { a: '1' } }).subscribe();
+    service.post('/requisitions/42', draft).subscribe();
+    service.delete('/requisitions/42').subscribe();
+
+    expect(mockHttpClient.put.mock.calls[0][2].headers).toEqual({ 'If-Match': '"v1"' });
+    expect(mockHttpClient.patch.mock.calls[0][2].headers).toEqual({ a: '1', 'If-Match': '"v1"' });
+    expect(mockHttpClient.post.mock.calls[0][2]).toEqual({ observe: 'response' });
+    expect(mockHttpClient.delete.mock.calls[0][1].headers).toEqual({ 'If-Match': '"v1"' });
+  });
+
+  it('should keep an If-Match header of the caller', () => {
+    load();
+    mockHttpClient.put.mockReturnValue(ok(draft));
+
+    service.put('/requisitions/42', draft, { headers: { 'if-match': '*' } }).subscribe();
+    service
+      .put('/requisitions/42', draft, { headers: new HttpHeaders({ 'If-Match': '*' }) })
+      .subscribe();
+
+    expect(mockHttpClient.put.mock.calls[0][2].headers).toEqual({ 'if-match': '*' });
+    expect(mockHttpClient.put.mock.calls[1][2].headers.get('If-Match')).toBe('*');
+  });
+
+  it('should send the ETag of the last saved version', () => {
+    load();
+    mockHttpClient.put.mockReturnValue(ok(draft, { ETag: '"v2"' }));
+
+    service.put('/requisitions/42', draft).subscribe();
+    service.put('/requisitions/42', draft).subscribe();
+
+    expect(mockHttpClient.put.mock.calls[1][2].headers).toEqual({ 'If-Match': '"v2"' });
+  });
+
+  it('should forget the ETag of a deleted resource or a response without one', () => {
+    load();
+    mockHttpClient.delete.mockReturnValue(ok(null));
+    service.delete('/requisitions/42').subscribe();
+    load();
+    mockHttpClient.get.mockReturnValueOnce(ok(current));
+    service.get('/requisitions/42').subscribe();
+    mockHttpClient.put.mockReturnValue(ok(draft));
+
+    service.delete('/requisitions/42').subscribe();
+    service.put('/requisitions/42', draft).subscribe();
+
+    expect(mockHttpClient.delete.mock.calls[1][1]).toEqual({ observe: 'response' });
+    expect(mockHttpClient.put.mock.calls[0][2]).toEqual({ observe: 'response' });
+  });
+
+  it('should fail a rejected mutation with both versions', async () => {
+    load();
+    mockHttpClient.put.mockReturnValue(throwError(() => preconditionFailed));
+    mockHttpClient.get.mockReturnValueOnce(ok(current, { ETag: '"v3"' }));
+
+    const error = await lastValueFrom(service.put('/requisitions/42', draft)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConcurrencyConflictError);
+    expect(error).toMatchObject({
+      name: 'ConcurrencyConflictError',
+      method: 'PUT',
+      url: '/requisitions/42',
+      localVersion: draft,
+      serverVersion: current,
+      response: preconditionFailed,
+    });
+    const reload = mockHttpClient.get.mock.calls[1][1];
+    expect(reload.context.get(CACHE)).toEqual({ policy: 'no-cache' });
+    expect(reload.context.get(OFFLINE_CACHE)).toBe(false);
+  });
+
+  it('should overwrite the server version when the mutation is sent again', async () => {
+    load();
+    mockHttpClient.put.mockReturnValueOnce(throwError(() => preconditionFailed));
+    mockHttpClient.get.mockReturnValueOnce(ok(current, { ETag: '"v3"' }));
+    await lastValueFrom(service.put('/requisitions/42', draft)).catch(() => undefined);
+
+    mockHttpClient.put.mockReturnValueOnce(ok(draft));
+    service.put('/requisitions/42', draft).subscribe();
+
+    expect(mockHttpClient.put.mock.calls[1][2].headers).toEqual({ 'If-Match': '"v3"' });
+  });
+
+  it('should report a deleted resource as a null server version', async () => {
+    load();
+    mockHttpClient.patch.mockReturnValue(throwError(() => preconditionFailed));
+    mockHttpClient.get.mockReturnValueOnce(
+      throwError(() => new HttpErrorResponse({ status: 404 })),
+    );
+
+    const error = await lastValueFrom(service.patch('/requisitions/42', draft)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConcurrencyConflictError);
+    expect((error as ConcurrencyConflictError).serverVersion).toBeNull();
+  });
+
+  it('should pass the 412 response on when the server version cannot be loaded', async () => {
+    mockHttpClient.delete.mockReturnValue(throwError(() => preconditionFailed));
+    mockHttpClient.get.mockReturnValueOnce(throwError(() => new HttpErrorResponse({ status: 0 })));
+
+    await expect(lastValueFrom(service.delete('/requisitions/42'))).rejects.toBe(
+      preconditionFailed,
+    );
   });
 });
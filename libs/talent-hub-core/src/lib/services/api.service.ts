@@ -8,25 +8,94 @@
  * @version 1.0.0
  */
 
-import { inject, Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { DestroyRef, inject, Injectable } from '@angular/core';
+import {
+  HttpClient,
+  HttpContext,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpParams,
+  HttpResponse,
+  HttpStatusCode,
+} from '@angular/common/http';
+import { defer, Observable, of, Subject, throwError } from 'rxjs';
+import { catchError, finalize, map, switchMap, takeUntil } from 'rxjs/operators';
+import { v4 } from 'uuid';
 
-import { HttpOptions } from '../interfaces';
-import { AppUtil } from '../utils';
+import {
+  HttpOptions,
+  OutboxEntry,
+  Page,
+  PagedResult,
+  ResourceEndpoint,
+  ResourceRequest,
+} from '../interfaces';
+import { ConcurrencyConflictError, MutationQueuedError } from '../models';
+import { CACHE, OFFLINE_CACHE, OUTBOX, OUTBOX_CONFIG, RETRY } from '../tokens';
+import { HttpMethod, ResourceClient } from '../types';
+import { ApiUtil } from '../utils';
+import { OutboxService } from './outbox.service';
+
+/**
+ * Header identifying a mutation, so that the server applies a replayed one only once.
+ *
+ * @internal
+ */
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Header carrying the version a mutation was made on, compared by the server with the
+ * current version of the resource.
+ *
+ * @internal
+ */
+const IF_MATCH_HEADER = 'If-Match';
+
+/**
+ * Maximum number of resource versions remembered for `If-Match`; the least recently
+ * loaded are forgotten first.
+ *
+ * @internal
+ */
+const MAX_ENTITY_TAGS = 500;
+
+/**
+ * Pending requests of a request group.
+ *
+ * @internal
+ */
+interface RequestGroupState {
+  /** Emits once to cancel every pending request of the group. */
+  cancel$: Subject<void>;
+
+  /** Number of pending requests in the group. */
+  pending: number;
+}
 
 /**
  * ApiService - A centralized HTTP client wrapper for all micro-frontends (MFEs).
  *
  * This service provides a consistent, type-safe, and testable API for making HTTP requests
- * across the Talent Hub application. It wraps Angular's HttpClient and adds development-mode
- * safety features to prevent accidental mutations during local testing.
+ * across the Talent Hub application. It wraps Angular's HttpClient and sends every request
+ * with its real HTTP method and body, in development and production alike.
  *
  * @remarks
  * - All HTTP methods (GET, POST, PUT, PATCH, DELETE) are strongly typed using generics.
  * - Uses the shared `HttpOptions` interface for consistent request configuration.
- * - In development mode (`AppUtil.isDevMode()`), all mutating requests (POST, PUT, PATCH, DELETE)
- *   are automatically routed as GET requests to prevent accidental backend state changes.
+ * - In development mode, requests go to the `/mocks` base URL, where `MockBackendInterceptor`
+ *   answers them from the registered mock handlers instead of a real backend.
+ * - The `group` option adds a request to a request group, whose pending requests can be
+ *   cancelled together with `cancelGroup()` (e.g., when a component is destroyed).
+ * - The `retry` and `caching` options set the retry and caching behavior of
+ *   `RetryInterceptor` and `CacheInterceptor` for a request.
+ * - The `outbox` option queues a mutation in `OutboxService` when the network is down;
+ *   the observable then fails with a `MutationQueuedError`, and the mutation is sent later.
+ *   With `OutboxConfig.enabled`, every mutation uses the outbox unless `outbox` is `false`.
+ * - The `ETag` of every loaded resource is remembered by URL and sent as `If-Match` with
+ *   its PUT, PATCH and DELETE requests. A `412 Precondition Failed` response fails the
+ *   mutation with a `ConcurrencyConflictError` carrying the server and local versions.
+ * - `createResource()` builds typed clients from endpoint declarations, filling path
+ *   parameters and query strings and wrapping `Page<T>` responses with `next()`/`prev()`.
  * - Designed to be extended with interceptors for authentication, error handling, and logging.
  * - Provided in root as a singleton service.
  *
@@ -47,11 +116,20 @@ import { AppUtil } from '../utils';
  *   headers: new HttpHeaders({ 'X-Custom-Header': 'value' }),
  *   params: new HttpParams().set('include', 'roles')
  * }).subscribe(user => console.log(user));
+ *
+ * // Typed resource client
+ * readonly candidates = this.api.createResource<CandidateEndpoints>({
+ *   list: { method: 'GET', path: '/candidates' },
+ *   get: { method: 'GET', path: '/candidates/{id}' },
+ * });
+ * this.candidates.get({ params: { id: 'c-1001' } }).subscribe(candidate => console.log(candidate));
  * ```
  *
  * @see HttpOptions
+ * @see ResourceClient
+ * @see ConcurrencyConflictError
  * @see HttpClient
- * @see AppUtil.isDevMode
+ * @see MockBackendInterceptor
  * @publicApi
  */
 @Injectable({ providedIn: 'root' })
@@ -63,11 +141,35 @@ export class ApiService {
    */
   private readonly http: HttpClient = inject(HttpClient);
 
+  /**
+   * Persistent queue of the mutations sent with the `outbox` option while offline.
+   * @internal
+   */
+  private readonly outbox: OutboxService = inject(OutboxService);
+
+  /**
+   * Whether mutations use the outbox when their `outbox` option is not set.
+   * @internal
+   */
+  private readonly outboxEnabled: boolean =
+    inject(OUTBOX_CONFIG, { optional: true })?.enabled ?? false;
+
+  /**
+   * Request groups with pending requests, by group name.
+   * @internal
+   */
+  private readonly groups = new Map<string, RequestGroupState>();
+
+  /**
+   * ETag of the last loaded version of each resource, by URL, least recently loaded first.
+   * @internal
+   */
+  private readonly entityTags = new Map<string, string>();
+
   /**
    * Performs an HTTP GET request.
    *
-   * Retrieves data from the specified URL. This method does not modify server state
-   * and behaves the same in both development and production modes.
+   * Retrieves data from the specified URL. This method does not modify server state.
    *
    * @template T - The expected response type.
    * @param url - The endpoint URL to request.
@@ -88,14 +190,18 @@ export class ApiService {
    * ```
    */
   get<T>(url: string, options?: HttpOptions): Observable<T> {
-    return this.http.get<T>(url, options);
+    return this.withGroup(
+      this.http
+        .get<T>(url, this.toResponseOptions(options))
+        .pipe(map((response: HttpResponse<T>): T => this.readResponse('GET', url, response))),
+      options?.group,
+    );
   }
 
   /**
    * Performs an HTTP POST request.
    *
-   * Creates a new resource on the server. In development mode (`AppUtil.isDevMode()`),
-   * this method is routed as a GET request to prevent accidental data creation.
+   * Creates a new resource on the server.
    *
    * @template T - The expected response type.
    * @param url - The endpoint URL to request.
@@ -118,18 +224,15 @@ export class ApiService {
    * ```
    */
   post<T>(url: string, body: unknown, options?: HttpOptions): Observable<T> {
-    if (AppUtil.isDevMode()) {
-      // In dev mode, treat POST as GET to avoid mutating backend state.
-      return this.http.get<T>(url, options);
-    }
-    return this.http.post<T>(url, body, options);
+    return this.mutate<T>('POST', url, body, options, (sendOptions?: HttpOptions) =>
+      this.http.post<T>(url, body, this.toResponseOptions(sendOptions)),
+    );
   }
 
   /**
    * Performs an HTTP PUT request.
    *
-   * Replaces an existing resource on the server. In development mode (`AppUtil.isDevMode()`),
-   * this method is routed as a GET request to prevent accidental data modification.
+   * Replaces an existing resource on the server.
    *
    * @template T - The expected response type.
    * @param url - The endpoint URL to request.
@@ -147,18 +250,15 @@ export class ApiService {
    * ```
    */
   put<T>(url: string, body: unknown, options?: HttpOptions): Observable<T> {
-    if (AppUtil.isDevMode()) {
-      // In dev mode, treat PUT as GET to avoid mutating backend state.
-      return this.http.get<T>(url, options);
-    }
-    return this.http.put<T>(url, body, options);
+    return this.mutate<T>('PUT', url, body, options, (sendOptions?: HttpOptions) =>
+      this.http.put<T>(url, body, this.toResponseOptions(sendOptions)),
+    );
   }
 
   /**
    * Performs an HTTP PATCH request.
    *
-   * Partially updates an existing resource on the server. In development mode (`AppUtil.isDevMode()`),
-   * this method is routed as a GET request to prevent accidental data modification.
+   * Partially updates an existing resource on the server.
    *
    * @template T - The expected response type.
    * @param url - The endpoint URL to request.
@@ -174,18 +274,15 @@ export class ApiService {
    * ```
    */
   patch<T>(url: string, body: unknown, options?: HttpOptions): Observable<T> {
-    if (AppUtil.isDevMode()) {
-      // In dev mode, treat PATCH as GET to avoid mutating backend state.
-      return this.http.get<T>(url, options);
-    }
-    return this.http.patch<T>(url, body, options);
+    return this.mutate<T>('PATCH', url, body, options, (sendOptions?: HttpOptions) =>
+      this.http.patch<T>(url, body, this.toResponseOptions(sendOptions)),
+    );
   }
 
   /**
    * Performs an HTTP DELETE request.
    *
-   * Removes a resource from the server. In development mode (`AppUtil.isDevMode()`),
-   * this method is routed as a GET request to prevent accidental data deletion.
+   * Removes a resource from the server.
    *
    * @template T - The expected response type.
    * @param url - The endpoint URL to request.
@@ -208,10 +305,536 @@ export class ApiService {
    * ```
    */
   delete<T>(url: string, options?: HttpOptions): Observable<T> {
-    if (AppUtil.isDevMode()) {
-      // In dev mode, treat DELETE as GET to avoid mutating backend state.
-      return this.http.get<T>(url, options);
+    return this.mutate<T>('DELETE', url, undefined, options, (sendOptions?: HttpOptions) =>
+      this.http.delete<T>(url, this.toResponseOptions(sendOptions)),
+    );
+  }
+
+  /**
+   * Creates a request group that is cancelled when the caller is destroyed.
+   *
+   * Returns a unique group name to pass as the `group` option. Called in an injection
+   * context (e.g., a component field initializer), the group's pending requests are
+   * cancelled when the component, directive or service is destroyed.
+   *
+   * @param destroyRef - Lifecycle that cancels the group; defaults to the current one.
+   * @returns The name of the new group.
+   *
+   * @example
+   * ```typescript
+   * export class CandidateSearchComponent {
+   *   private readonly api = inject(ApiService);
+   *   private readonly requests = this.api.createRequestGroup();
+   *
+   *   search(q: string): void {
+   *     // Only the latest search matters
+   *     this.api.cancelGroup(this.requests);
+   *     this.api
+   *       .get<Candidate[]>('/candidates', { params: { q }, group: this.requests })
+   *       .subscribe((candidates) => this.results.set(candidates));
+   *   }
+   * }
+   * ```
+   */
+  createRequestGroup(destroyRef: DestroyRef = inject(DestroyRef)): string {
+    const group = `request-group-${v4()}`;
+    destroyRef.onDestroy((): void => this.cancelGroup(group));
+    return group;
+  }
+
+  /**
+   * Cancels every pending request of a request group.
+   *
+   * Cancelled requests are aborted and their observables complete without emitting.
+   * A cancellation is not an error: subscribers' `error` callbacks are not called and
+   * `ErrorHandlingInterceptor` neither logs nor publishes anything. Requests sent with
+   * the group afterwards are not affected.
+   *
+   * @param group - Name of the group, as passed in the `group` option.
+   *
+   * @example
+   * ```typescript
+   * // Cancel the page's requests when leaving the route
+   * this.router.events
+   *   .pipe(filter((event) => event instanceof NavigationStart))
+   *   .subscribe(() => this.api.cancelGroup('candidate-page'));
+   * ```
+   */
+  cancelGroup(group: string): void {
+    const state: RequestGroupState | undefined = this.groups.get(group);
+    if (!state) {
+      return;
+    }
+    this.groups.delete(group);
+    state.cancel$.next();
+    state.cancel$.complete();
+  }
+
+  /**
+   * Creates a typed client for a set of endpoints of a resource.
+   *
+   * Each endpoint becomes a method of the client. Calling it fills the `{param}`
+   * placeholders of the path template with `params`, appends `query` as a query string
+   * and sends the request with the endpoint's HTTP method through this service.
+   *
+   * Responses shaped like `Page<T>` (`items`, `total`, `page`, `size`) are returned as
+   * `PagedResult<T>`, whose `next()` and `prev()` request the adjacent pages with the
+   * same parameters and page size.
+   *
+   * @template TEndpoints - Interface mapping method names to `ResourceEndpoint` types.
+   * @param endpoints - The HTTP method and path template of every endpoint.
+   * @returns A client with one typed method per endpoint.
+   *
+   * @example
+   * ```typescript
+   * interface CandidateEndpoints {
+   *   list: ResourceEndpoint<Page<Candidate>>;
+   *   get: ResourceEndpoint<Candidate>;
+   *   create: ResourceEndpoint<Candidate, NewCandidate>;
+   *   remove: ResourceEndpoint<void>;
+   * }
+   *
+   * @Injectable({ providedIn: 'root' })
+   * export class CandidateService {
+   *   private readonly candidates = inject(ApiService).createResource<CandidateEndpoints>({
+   *     list: { method: 'GET', path: '/candidates' },
+   *     get: { method: 'GET', path: '/candidates/{id}' },
+   *     create: { method: 'POST', path: '/candidates' },
+   *     remove: { method: 'DELETE', path: '/candidates/{id}' },
+   *   });
+   *
+   *   search(status: string, page = 1): Observable<PagedResult<Candidate>> {
+   *     // GET /candidates?status=active&page=1&sort=lastName
+   *     return this.candidates.list({ query: { status, page, sort: 'lastName' } });
+   *   }
+   *
+   *   load(id: string): Observable<Candidate> {
+   *     // GET /candidates/c-1001
+   *     return this.candidates.get({ params: { id } });
+   *   }
+   * }
+   * ```
+   *
+   * @see ResourceEndpoint
+   * @see ResourceClient
+   * @see PagedResult
+   */
+  createResource<TEndpoints extends { [K in keyof TEndpoints]: ResourceEndpoint }>(
+    endpoints: TEndpoints,
+  ): ResourceClient<TEndpoints> {
+    const client: Record<string, (request?: ResourceRequest) => Observable<unknown>> = {};
+    for (const [name, endpoint] of Object.entries<ResourceEndpoint>(endpoints)) {
+      client[name] = (request: ResourceRequest = {}): Observable<unknown> =>
+        this.callEndpoint(endpoint, request);
+    }
+    return client as ResourceClient<TEndpoints>;
+  }
+
+  /**
+   * Converts `HttpOptions` to `HttpClient` options.
+   *
+   * Moves the `retry`, `caching`, `offline` and `outbox` options to the `RETRY`, `CACHE`,
+   * `OFFLINE_CACHE` and `OUTBOX` context tokens read by the interceptors, and drops the
+   * `group` option, which only this service reads.
+   *
+   * @param options - The options passed to this service.
+   * @internal
+   */
+  private toHttpClientOptions(options?: HttpOptions): HttpOptions | undefined {
+    if (
+      options?.retry === undefined &&
+      options?.caching === undefined &&
+      options?.offline === undefined &&
+      options?.outbox === undefined &&
+      options?.group === undefined
+    ) {
+      return options;
+    }
+    const { retry, caching, offline, outbox, group: _group, ...httpOptions } = options;
+    if (retry === undefined && caching === undefined && offline === undefined && !outbox) {
+      return httpOptions;
+    }
+    const context: HttpContext = httpOptions.context ?? new HttpContext();
+    if (retry !== undefined) {
+      context.set(RETRY, retry);
+    }
+    if (caching !== undefined) {
+      context.set(CACHE, caching);
+    }
+    if (offline !== undefined) {
+      context.set(OFFLINE_CACHE, offline);
+    }
+    if (outbox) {
+      context.set(OUTBOX, true);
+    }
+    return { ...httpOptions, context };
+  }
+
+  /**
+   * Converts `HttpOptions` to `HttpClient` options that observe the full response, so
+   * that its `ETag` header can be read.
+   *
+   * @param options - The options passed to this service.
+   * @internal
+   */
+  private toResponseOptions(options?: HttpOptions): HttpOptions & { observe: 'response' } {
+    return { ...this.toHttpClientOptions(options), observe: 'response' };
+  }
+
+  /**
+   * Sends a mutation on the version of the resource that was last loaded.
+   *
+   * PUT, PATCH and DELETE requests get an `If-Match` header with the remembered `ETag`
+   * of the resource, unless they have one. A `412 Precondition Failed` response fails
+   * the mutation with a `ConcurrencyConflictError`.
+   *
+   * @param method - HTTP method of the mutation.
+   * @param url - The endpoint URL.
+   * @param body - The request payload.
+   * @param options - The options passed to this service.
+   * @param send - Sends the request with the given options.
+   * @internal
+   */
+  private mutate<T>(
+    method: HttpMethod,
+    url: string,
+    body: unknown,
+    options: HttpOptions | undefined,
+    send: (options?: HttpOptions) => Observable<HttpResponse<T>>,
+  ): Observable<T> {
+    const sendOptions: HttpOptions | undefined =
+      method === 'POST' ? options : this.withIfMatch(url, options);
+    return this.withGroup(
+      this.withOutbox<T>(method, url, body, sendOptions, (outboxOptions?: HttpOptions) =>
+        send(outboxOptions).pipe(
+          map((response: HttpResponse<T>): T => this.readResponse(method, url, response)),
+        ),
+      ).pipe(
+        catchError(
+          (error: unknown): Observable<T> =>
+            error instanceof HttpErrorResponse && error.status === HttpStatusCode.PreconditionFailed
+              ? this.toConflict<T>(method, url, body, error)
+              : throwError((): unknown => error),
+        ),
+      ),
+      options?.group,
+    );
+  }
+
+  /**
+   * Adds the remembered `ETag` of a resource to the options as `If-Match` header.
+   *
+   * Options that already have an `If-Match` header (e.g., `*` to overwrite any version)
+   * are returned as they are.
+   *
+   * @param url - URL of the resource.
+   * @param options - The options passed to this service.
+   * @internal
+   */
+  private withIfMatch(url: string, options?: HttpOptions): HttpOptions | undefined {
+    const entityTag: string | undefined = this.entityTags.get(url);
+    const headers: HttpOptions['headers'] = options?.headers;
+    if (!entityTag) {
+      return options;
+    }
+    if (headers instanceof HttpHeaders) {
+      return headers.has(IF_MATCH_HEADER)
+        ? options
+        : { ...options, headers: headers.set(IF_MATCH_HEADER, entityTag) };
+    }
+    const hasIfMatch: boolean = Object.keys(headers ?? {}).some(
+      (name: string): boolean => name.toLowerCase() === IF_MATCH_HEADER.toLowerCase(),
+    );
+    return hasIfMatch
+      ? options
+      : { ...options, headers: { ...headers, [IF_MATCH_HEADER]: entityTag } };
+  }
+
+  /**
+   * Remembers the `ETag` of a response and returns its body.
+   *
+   * GET, PUT and PATCH responses replace the remembered `ETag` of the resource; responses
+   * without one make it forgotten, as does a DELETE. POST responses describe a new
+   * resource at another URL and are ignored.
+   *
+   * @param method - HTTP method of the request.
+   * @param url - URL of the resource.
+   * @param response - The response.
+   * @internal
+   */
+  private readResponse<T>(method: HttpMethod, url: string, response: HttpResponse<T>): T {
+    if (method !== 'POST') {
+      const entityTag: string | null = method === 'DELETE' ? null : response.headers.get('ETag');
+      this.entityTags.delete(url);
+      if (entityTag) {
+        this.entityTags.set(url, entityTag);
+        if (this.entityTags.size > MAX_ENTITY_TAGS) {
+          this.entityTags.delete(this.entityTags.keys().next().value as string);
+        }
+      }
+    }
+    return response.body as T;
+  }
+
+  /**
+   * Loads the current version of a resource after a `412 Precondition Failed` response
+   * and fails with a `ConcurrencyConflictError` carrying both versions.
+   *
+   * Loading the current version also remembers its `ETag`, so that sending the mutation
+   * again overwrites it. If the current version cannot be loaded, the `412` response is
+   * passed on.
+   *
+   * @param method - HTTP method of the rejected mutation.
+   * @param url - URL of the resource.
+   * @param body - Body of the rejected mutation.
+   * @param response - The `412` response.
+   * @internal
+   */
+  private toConflict<T>(
+    method: HttpMethod,
+    url: string,
+    body: unknown,
+    response: HttpErrorResponse,
+  ): Observable<never> {
+    return this.get<T>(url, { caching: { policy: 'no-cache' }, offline: false }).pipe(
+      catchError((error: unknown): Observable<T | null> => {
+        if (
+          error instanceof HttpErrorResponse &&
+          (error.status === HttpStatusCode.NotFound || error.status === HttpStatusCode.Gone)
+        ) {
+          // Deleted in the meantime
+          this.entityTags.delete(url);
+          return of(null);
+        }
+        return throwError((): unknown => response);
+      }),
+      switchMap(
+        (serverVersion: T | null): Observable<never> =>
+          throwError(
+            (): ConcurrencyConflictError<T> =>
+              new ConcurrencyConflictError<T>(
+                method,
+                url,
+                body as Partial<T> | undefined,
+                serverVersion,
+                response,
+              ),
+          ),
+      ),
+    );
+  }
+
+  /**
+   * Sends a mutation, queueing it in the outbox when it fails with a network error.
+   *
+   * With the `outbox` option (or `OutboxConfig.enabled` when it is not set), the request
+   * gets an `Idempotency-Key` header (unless it has one), which the queued mutation keeps.
+   * Once queued, the observable fails with a `MutationQueuedError`. Other errors, and
+   * network errors that cannot be queued, are passed on.
+   *
+   * @param method - HTTP method of the mutation.
+   * @param url - The endpoint URL.
+   * @param body - The request payload.
+   * @param options - The options passed to this service.
+   * @param send - Sends the request with the given options.
+   * @internal
+   */
+  private withOutbox<T>(
+    method: HttpMethod,
+    url: string,
+    body: unknown,
+    options: HttpOptions | undefined,
+    send: (options?: HttpOptions) => Observable<T>,
+  ): Observable<T> {
+    if (!(options?.outbox ?? this.outboxEnabled)) {
+      return send(options);
+    }
+    return defer((): Observable<T> => {
+      const headers: Record<string, string | string[]> = this.toHeaderRecord(options?.headers);
+      const keyHeader: string =
+        Object.keys(headers).find(
+          (name: string): boolean => name.toLowerCase() === IDEMPOTENCY_KEY_HEADER.toLowerCase(),
+        ) ?? IDEMPOTENCY_KEY_HEADER;
+      headers[keyHeader] ??= v4();
+      const id: string = ([] as string[]).concat(headers[keyHeader])[0];
+
+      return send({ ...options, headers, outbox: true }).pipe(
+        catchError((error: unknown): Observable<T> => {
+          if (!(error instanceof HttpErrorResponse) || error.status !== 0) {
+            return throwError((): unknown => error);
+          }
+          return this.outbox
+            .enqueue({
+              id,
+              method,
+              url,
+              body,
+              headers,
+              params: this.toParamRecord(options?.params),
+            })
+            .pipe(
+              catchError((): Observable<OutboxEntry> => throwError((): unknown => error)),
+              switchMap(
+                (entry: OutboxEntry): Observable<T> =>
+                  throwError((): MutationQueuedError => new MutationQueuedError(entry, error)),
+              ),
+            );
+        }),
+      );
+    });
+  }
+
+  /**
+   * Converts request headers to a plain object that can be stored.
+   *
+   * @param headers - Headers of the options.
+   * @internal
+   */
+  private toHeaderRecord(headers?: HttpOptions['headers']): Record<string, string | string[]> {
+    if (!(headers instanceof HttpHeaders)) {
+      return { ...headers };
+    }
+    const record: Record<string, string | string[]> = {};
+    for (const name of headers.keys()) {
+      record[name] = headers.getAll(name) ?? [];
+    }
+    return record;
+  }
+
+  /**
+   * Converts query parameters to a plain object that can be stored.
+   *
+   * @param params - Query parameters of the options.
+   * @internal
+   */
+  private toParamRecord(params?: HttpOptions['params']): OutboxEntry['params'] {
+    if (!(params instanceof HttpParams)) {
+      return { ...params };
+    }
+    const record: OutboxEntry['params'] = {};
+    for (const name of params.keys()) {
+      record[name] = params.getAll(name) ?? [];
+    }
+    return record;
+  }
+
+  /**
+   * Adds a request to a request group, so that `cancelGroup()` can cancel it.
+   *
+   * @param request$ - The request.
+   * @param group - Name of the group, if any.
+   * @internal
+   */
+  private withGroup<T>(request$: Observable<T>, group?: string): Observable<T> {
+    if (!group) {
+      return request$;
+    }
+    return defer((): Observable<T> => {
+      let state: RequestGroupState | undefined = this.groups.get(group);
+      if (!state) {
+        state = { cancel$: new Subject<void>(), pending: 0 };
+        this.groups.set(group, state);
+      }
+      const current: RequestGroupState = state;
+      current.pending++;
+      return request$.pipe(
+        takeUntil(current.cancel$),
+        finalize((): void => {
+          current.pending--;
+          if (current.pending === 0 && this.groups.get(group) === current) {
+            this.groups.delete(group);
+          }
+        }),
+      );
+    });
+  }
+
+  /**
+   * Sends a request to a resource endpoint.
+   *
+   * @param endpoint - The endpoint to call.
+   * @param request - Path parameters, query parameters, body and options of the call.
+   * @returns The response, as `PagedResult` for `Page` responses.
+   * @internal
+   */
+  private callEndpoint(endpoint: ResourceEndpoint, request: ResourceRequest): Observable<unknown> {
+    const url: string =
+      ApiUtil.replacePathParams(endpoint.path, request.params) +
+      ApiUtil.buildQueryParams(request.query ?? {});
+    const options: HttpOptions | undefined =
+      endpoint.options || request.options ? { ...endpoint.options, ...request.options } : undefined;
+
+    let response$: Observable<unknown>;
+    switch (endpoint.method) {
+      case 'POST':
+        response$ = this.post<unknown>(url, request.body, options);
+        break;
+      case 'PUT':
+        response$ = this.put<unknown>(url, request.body, options);
+        break;
+      case 'PATCH':
+        response$ = this.patch<unknown>(url, request.body, options);
+        break;
+      case 'DELETE':
+        response$ = this.delete<unknown>(url, options);
+        break;
+      default:
+        response$ = this.get<unknown>(url, options);
+    }
+
+    return response$.pipe(
+      map((response: unknown): unknown =>
+        this.isPage(response) ? this.toPagedResult(endpoint, request, response) : response,
+      ),
+    );
+  }
+
+  /**
+   * Adds the navigation helpers to a page returned by a resource endpoint.
+   *
+   * @param endpoint - The endpoint that returned the page.
+   * @param request - The call that returned the page, repeated for other pages.
+   * @param page - The returned page.
+   * @internal
+   */
+  private toPagedResult<T>(
+    endpoint: ResourceEndpoint,
+    request: ResourceRequest,
+    page: Page<T>,
+  ): PagedResult<T> {
+    const goTo = (target: number): Observable<PagedResult<T>> =>
+      this.callEndpoint(endpoint, {
+        ...request,
+        query: { ...request.query, page: target, size: page.size },
+      }) as Observable<PagedResult<T>>;
+    const hasNext: boolean = page.page * page.size < page.total;
+    const hasPrev: boolean = page.page > 1;
+
+    return {
+      ...page,
+      hasNext,
+      hasPrev,
+      next: (): Observable<PagedResult<T>> | null => (hasNext ? goTo(page.page + 1) : null),
+      prev: (): Observable<PagedResult<T>> | null => (hasPrev ? goTo(page.page - 1) : null),
+    };
+  }
+
+  /**
+   * Checks whether a response is a `Page` envelope.
+   *
+   * @param response - The response body.
+   * @internal
+   */
+  private isPage(response: unknown): response is Page<unknown> {
+    if (typeof response !== 'object' || response === null) {
+      return false;
     }
-    return this.http.delete<T>(url, options);
+    const page = response as Partial<Page<unknown>>;
+    return (
+      Array.isArray(page.items) &&
+      typeof page.total === 'number' &&
+      typeof page.page === 'number' &&
+      typeof page.size === 'number'
+    );
   }
 }
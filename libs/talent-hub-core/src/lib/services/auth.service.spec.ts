@@ -9,53 +9,88 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Injector, runInInjectionContext } from '@angular/core';
+import { Router } from '@angular/router';
+import { HttpContext } from '@angular/common/http';
+import { firstValueFrom, of, Subject, throwError } from 'rxjs';
 
-import { AuthService } from '../services';
-import { User } from '../interfaces';
+import {
+  ApiService,
+  AuthService,
+  OfflineCacheService,
+  SessionSyncService,
+  StorageService,
+} from '../services';
+import { AuthResponse, AuthSession, SessionSyncMessage, User } from '../interfaces';
+import { AuthStore } from '../store';
+import { SKIP_AUTH } from '../tokens';
+import { JwtUtil } from '../utils';
 
-// Use vi.hoisted to declare mock store that can be accessed inside vi.mock
-const { mockAuthStore } = vi.hoisted(() => {
+function createMockAuthStore() {
   let mockUser: User | null = null;
   let mockToken: string | null = null;
+  let mockRefreshToken: string | null = null;
 
   return {
-    mockAuthStore: {
-      isAuthenticated: vi.fn(() => mockToken !== null && mockUser !== null),
-      hasRole: vi.fn((role: string) => mockUser?.roles?.includes(role) ?? false),
-      hasPermission: vi.fn(
-        (permission: string) => mockUser?.permissions?.includes(permission) ?? false,
-      ),
-      getToken: vi.fn(() => mockToken),
-      user: vi.fn(() => mockUser),
-      setUser: (user: User | null) => {
-        mockUser = user;
-      },
-      setToken: (token: string | null) => {
-        mockToken = token;
-      },
-      reset: () => {
-        mockUser = null;
-        mockToken = null;
-      },
+    isAuthenticated: vi.fn(() => mockToken !== null && mockUser !== null),
+    sessionExpired: vi.fn(() => false),
+    hasRole: vi.fn((role: string) => mockUser?.roles?.includes(role) ?? false),
+    hasPermission: vi.fn(
+      (permission: string) => mockUser?.permissions?.includes(permission) ?? false,
+    ),
+    getToken: vi.fn(() => mockToken),
+    tokenExpiresAt: vi.fn(() => JwtUtil.getExpiresAt(mockToken)),
+    checkTokenExpiry: vi.fn(() => {
+      const expiresAt = JwtUtil.getExpiresAt(mockToken);
+      return expiresAt !== null && expiresAt <= Date.now();
+    }),
+    refreshToken: vi.fn(() => mockRefreshToken),
+    user: vi.fn(() => mockUser),
+    setSession: vi.fn((token: string, user: User, refreshToken: string | null = null) => {
+      mockToken = token;
+      mockUser = user;
+      mockRefreshToken = refreshToken;
+    }),
+    setTokens: vi.fn((token: string, refreshToken: string | null) => {
+      mockToken = token;
+      mockRefreshToken = refreshToken;
+    }),
+    clearSession: vi.fn(() => {
+      mockToken = null;
+      mockUser = null;
+    }),
+    expireSession: vi.fn(() => {
+      mockToken = null;
+      mockUser = null;
+    }),
+    setLoading: vi.fn(),
+    setError: vi.fn(),
+    setUser: (user: User | null) => {
+      mockUser = user;
+    },
+    setToken: (token: string | null) => {
+      mockToken = token;
+    },
+    reset: () => {
+      mockUser = null;
+      mockToken = null;
+      mockRefreshToken = null;
     },
   };
-});
+}
 
-// Mock @angular/core inject before importing AuthService
-vi.mock('@angular/core', async (importOriginal) => {
-  const actual = await importOriginal();
-  return Object.assign({}, actual, {
-    inject: vi.fn((token: unknown) => {
-      // SignalStore tokens have name 'SignalStore', so check the string representation
-      const tokenStr = String(token);
-      if (tokenStr.includes('SignalStore') || tokenStr.includes('AuthStore')) {
-        return mockAuthStore;
-      }
-      // For unknown tokens in test environment, throw a helpful error
-      throw new Error(`Unmocked token in test: ${tokenStr}`);
-    }),
-  });
-});
+const mockAuthStore = createMockAuthStore();
+const mockApi = { post: vi.fn() };
+const mockStorage = { getItem: vi.fn(), setItem: vi.fn(), removeItem: vi.fn() };
+const mockRouter = { navigateByUrl: vi.fn().mockResolvedValue(true) };
+const mockSessionSync = { messages$: new Subject<SessionSyncMessage>(), publish: vi.fn() };
+const mockOfflineCache = { clear: vi.fn(() => of(undefined)) };
+
+/** Encodes a payload as an unsigned JWT. */
+function createJwt(payload: object): string {
+  const encode = (value: object): string => btoa(JSON.stringify(value)).replace(/=+$/, '');
+  return `${encode({ alg: 'HS256' })}.${encode(payload)}.signature`;
+}
 
 describe('AuthService', () => {
   let service: AuthService;
@@ -70,12 +105,26 @@ describe('AuthService', () => {
   };
 
   beforeEach(() => {
+    // Expiry timers are scheduled on login; fake timers keep them from outliving a test
+    vi.useFakeTimers();
     vi.clearAllMocks();
     mockAuthStore.reset();
-    service = new AuthService();
+    mockSessionSync.messages$ = new Subject<SessionSyncMessage>();
+    const injector = Injector.create({
+      providers: [
+        { provide: AuthStore, useValue: mockAuthStore },
+        { provide: ApiService, useValue: mockApi },
+        { provide: StorageService, useValue: mockStorage },
+        { provide: Router, useValue: mockRouter },
+        { provide: SessionSyncService, useValue: mockSessionSync },
+        { provide: OfflineCacheService, useValue: mockOfflineCache },
+      ],
+    });
+    service = runInInjectionContext(injector, () => new AuthService());
   });
 
   afterEach(() => {
+    vi.useRealTimers();
     vi.restoreAllMocks();
   });
 
@@ -150,4 +199,444 @@ describe('AuthService', () => {
       expect(service.getUser()).toBeNull();
     });
   });
+
+  describe('login', () => {
+    const response: AuthResponse = { accessToken: 'access-token', expiresIn: 60, user: mockUser };
+
+    it('should post credentials to the default login endpoint', async () => {
+      mockApi.post.mockReturnValue(of(response));
+      await firstValueFrom(service.login({ email: 'test@example.com', password: 'secret' }));
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/auth/login',
+        { email: 'test@example.com', password: 'secret' },
+        { outbox: false },
+      );
+    });
+
+    it('should start and persist the session on success', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1_000);
+      mockApi.post.mockReturnValue(of(response));
+      const result = await firstValueFrom(service.login({ email: 'a', password: 'b' }));
+      expect(result).toEqual(response);
+      expect(mockAuthStore.setLoading).toHaveBeenCalledWith(true);
+      expect(mockAuthStore.setSession).toHaveBeenCalledWith('access-token', mockUser, null);
+      expect(mockStorage.setItem).toHaveBeenCalledWith(
+        'th_auth_session',
+        { token: 'access-token', user: mockUser, expiresAt: 61_000 },
+        'session',
+      );
+      expect(service.isAuthenticated()).toBe(true);
+    });
+
+    it('should record and re-throw the error on failure', async () => {
+      const error = new Error('Invalid credentials');
+      mockApi.post.mockReturnValue(throwError(() => error));
+      await expect(firstValueFrom(service.login({ email: 'a', password: 'wrong' }))).rejects.toBe(
+        error,
+      );
+      expect(mockAuthStore.setError).toHaveBeenCalledWith(error);
+      expect(mockAuthStore.setSession).not.toHaveBeenCalled();
+      expect(mockStorage.setItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshToken', () => {
+    beforeEach(() => {
+      mockAuthStore.setSession('old-access', mockUser, 'refresh-1');
+    });
+
+    it('should error without calling the server when there is no refresh token', async () => {
+      mockAuthStore.reset();
+      await expect(firstValueFrom(service.refreshToken())).rejects.toThrow(
+        'No refresh token available',
+      );
+      expect(mockApi.post).not.toHaveBeenCalled();
+    });
+
+    it('should post the refresh token to the refresh endpoint with SKIP_AUTH', async () => {
+      mockApi.post.mockReturnValue(of({ accessToken: 'new-access' }));
+      await firstValueFrom(service.refreshToken());
+      const [url, body, options] = mockApi.post.mock.calls[0];
+      expect(url).toBe('/auth/refresh');
+      expect(body).toEqual({ refreshToken: 'refresh-1' });
+      expect((options.context as HttpContext).get(SKIP_AUTH)).toBe(true);
+    });
+
+    it('should rotate and persist both tokens', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1_000);
+      mockApi.post.mockReturnValue(
+        of({ accessToken: 'new-access', refreshToken: 'refresh-2', expiresIn: 60 }),
+      );
+      await firstValueFrom(service.refreshToken());
+      expect(mockAuthStore.setTokens).toHaveBeenCalledWith('new-access', 'refresh-2');
+      expect(mockStorage.setItem).toHaveBeenCalledWith(
+        'th_auth_session',
+        { token: 'new-access', refreshToken: 'refresh-2', user: mockUser, expiresAt: 61_000 },
+        'session',
+      );
+    });
+
+    it('should keep the previous refresh token when the server does not rotate it', async () => {
+      mockApi.post.mockReturnValue(of({ accessToken: 'new-access' }));
+      await firstValueFrom(service.refreshToken());
+      expect(mockAuthStore.setTokens).toHaveBeenCalledWith('new-access', 'refresh-1');
+      expect(service.getRefreshToken()).toBe('refresh-1');
+    });
+
+    it('should leave the session untouched when the refresh fails', async () => {
+      mockApi.post.mockReturnValue(throwError(() => new Error('invalid_grant')));
+      await expect(firstValueFrom(service.refreshToken())).rejects.toThrow('invalid_grant');
+      expect(mockAuthStore.setTokens).not.toHaveBeenCalled();
+      expect(mockStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    it('should use the registered token refresher instead of the refresh endpoint', async () => {
+      const refresher = vi.fn().mockReturnValue(of({ accessToken: 'idp-access' }));
+      service.useTokenRefresher(refresher);
+      await firstValueFrom(service.refreshToken());
+      expect(refresher).toHaveBeenCalledWith('refresh-1');
+      expect(mockApi.post).not.toHaveBeenCalled();
+      expect(mockAuthStore.setTokens).toHaveBeenCalledWith('idp-access', 'refresh-1');
+    });
+
+    it('should restore the refresh endpoint when the refresher is removed', async () => {
+      service.useTokenRefresher(vi.fn());
+      service.useTokenRefresher(null);
+      mockApi.post.mockReturnValue(of({ accessToken: 'new-access' }));
+      await firstValueFrom(service.refreshToken());
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/auth/refresh',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('startSession', () => {
+    it('should start and persist a session obtained outside of login()', () => {
+      vi.setSystemTime(1_000);
+      service.startSession({
+        accessToken: 'sso-access',
+        refreshToken: 'r',
+        expiresIn: 60,
+        user: mockUser,
+      });
+      expect(mockAuthStore.setSession).toHaveBeenCalledWith('sso-access', mockUser, 'r');
+      expect(mockStorage.setItem).toHaveBeenCalledWith(
+        'th_auth_session',
+        { token: 'sso-access', refreshToken: 'r', user: mockUser, expiresAt: 61_000 },
+        'session',
+      );
+    });
+  });
+
+  describe('logout', () => {
+    it('should notify the server and clear the session', () => {
+      mockApi.post.mockReturnValue(of(undefined));
+      mockAuthStore.setToken('test-token');
+      mockAuthStore.setUser(mockUser);
+      service.logout();
+      expect(mockApi.post).toHaveBeenCalledWith('/auth/logout', {}, { outbox: false });
+      expect(mockStorage.removeItem).toHaveBeenCalledWith('th_auth_session', 'session');
+      expect(mockAuthStore.clearSession).toHaveBeenCalled();
+      expect(service.isAuthenticated()).toBe(false);
+    });
+
+    it('should clear the session even if the server call fails', () => {
+      mockApi.post.mockReturnValue(throwError(() => new Error('offline')));
+      mockAuthStore.setToken('test-token');
+      mockAuthStore.setUser(mockUser);
+      service.logout();
+      expect(mockAuthStore.clearSession).toHaveBeenCalled();
+    });
+
+    it('should not call the server when not authenticated', () => {
+      service.logout();
+      expect(mockApi.post).not.toHaveBeenCalled();
+      expect(mockAuthStore.clearSession).toHaveBeenCalled();
+    });
+
+    it('should clear the offline cache', () => {
+      service.logout();
+      expect(mockOfflineCache.clear).toHaveBeenCalled();
+    });
+
+    it('should clear the session even if the offline cache cannot be cleared', () => {
+      mockOfflineCache.clear.mockReturnValueOnce(throwError(() => new Error('unavailable')));
+      service.logout();
+      expect(mockAuthStore.clearSession).toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreSession', () => {
+    it('should return false when no session is persisted', () => {
+      mockStorage.getItem.mockReturnValue(null);
+      expect(service.restoreSession()).toBe(false);
+      expect(mockAuthStore.setSession).not.toHaveBeenCalled();
+    });
+
+    it('should restore a valid session into the store', () => {
+      const session: AuthSession = {
+        token: 'stored',
+        user: mockUser,
+        expiresAt: Date.now() + 60_000,
+      };
+      mockStorage.getItem.mockReturnValue(session);
+      expect(service.restoreSession()).toBe(true);
+      expect(mockStorage.getItem).toHaveBeenCalledWith('th_auth_session', 'session');
+      expect(mockAuthStore.setSession).toHaveBeenCalledWith('stored', mockUser, null);
+    });
+
+    it('should keep an expired session that can be refreshed', () => {
+      mockStorage.getItem.mockReturnValue({
+        token: 'stored',
+        refreshToken: 'refresh-1',
+        user: mockUser,
+        expiresAt: Date.now() - 1,
+      });
+      expect(service.restoreSession()).toBe(true);
+      expect(mockAuthStore.setSession).toHaveBeenCalledWith('stored', mockUser, 'refresh-1');
+      expect(mockAuthStore.expireSession).not.toHaveBeenCalled();
+    });
+
+    it('should restore a session without an expiry', () => {
+      mockStorage.getItem.mockReturnValue({ token: 'stored', user: mockUser });
+      expect(service.restoreSession()).toBe(true);
+    });
+
+    it('should expire a session that is past its expiry', () => {
+      mockStorage.getItem.mockReturnValue({
+        token: 'stored',
+        user: mockUser,
+        expiresAt: Date.now() - 1,
+      });
+      expect(service.restoreSession()).toBe(false);
+      expect(mockStorage.removeItem).toHaveBeenCalledWith('th_auth_session', 'session');
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+      expect(mockAuthStore.setSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isTokenExpired', () => {
+    it('should re-check the token expiry in the store', () => {
+      vi.setSystemTime(10_000);
+      mockAuthStore.setToken(createJwt({ exp: 5 }));
+      expect(service.isTokenExpired()).toBe(true);
+      expect(mockAuthStore.checkTokenExpiry).toHaveBeenCalled();
+    });
+
+    it('should return false for an opaque token', () => {
+      mockAuthStore.setToken('opaque');
+      expect(service.isTokenExpired()).toBe(false);
+    });
+  });
+
+  describe('proactive expiry', () => {
+    const token = createJwt({ sub: '1', exp: 600 }); // expires at 600_000 ms
+
+    beforeEach(() => {
+      vi.setSystemTime(0);
+    });
+
+    it('should refresh the tokens one minute before the JWT expires', () => {
+      mockApi.post.mockReturnValue(
+        of({ accessToken: token, refreshToken: 'refresh-1', user: mockUser }),
+      );
+      service.login({ email: 'a', password: 'b' }).subscribe();
+      mockApi.post.mockClear();
+      mockApi.post.mockReturnValue(of({ accessToken: 'opaque-access' }));
+
+      vi.advanceTimersByTime(539_999);
+      expect(mockApi.post).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/auth/refresh',
+        { refreshToken: 'refresh-1' },
+        expect.anything(),
+      );
+    });
+
+    it('should expire the session and redirect when there is no refresh token', () => {
+      mockApi.post.mockReturnValue(of({ accessToken: token, user: mockUser }));
+      service.login({ email: 'a', password: 'b' }).subscribe();
+
+      vi.advanceTimersByTime(540_000);
+
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/login');
+    });
+
+    it('should expire the session and redirect when the refresh fails', () => {
+      mockApi.post.mockReturnValue(
+        of({ accessToken: token, refreshToken: 'refresh-1', user: mockUser }),
+      );
+      service.login({ email: 'a', password: 'b' }).subscribe();
+      mockApi.post.mockReturnValue(throwError(() => new Error('invalid_grant')));
+
+      vi.advanceTimersByTime(540_000);
+
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/login');
+    });
+
+    it('should act halfway through a lifetime shorter than twice the lead time', () => {
+      mockApi.post.mockReturnValue(of({ accessToken: createJwt({ exp: 60 }), user: mockUser }));
+      service.login({ email: 'a', password: 'b' }).subscribe();
+
+      vi.advanceTimersByTime(29_999);
+      expect(mockAuthStore.expireSession).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+    });
+
+    it('should fall back to expiresIn for opaque tokens', () => {
+      mockApi.post.mockReturnValue(of({ accessToken: 'opaque', expiresIn: 300, user: mockUser }));
+      service.login({ email: 'a', password: 'b' }).subscribe();
+
+      vi.advanceTimersByTime(240_000);
+
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+    });
+
+    it('should cancel the timer on logout', () => {
+      mockApi.post.mockReturnValue(of({ accessToken: token, user: mockUser }));
+      service.login({ email: 'a', password: 'b' }).subscribe();
+      service.logout();
+
+      vi.advanceTimersByTime(600_000);
+
+      expect(mockAuthStore.expireSession).not.toHaveBeenCalled();
+    });
+
+    it('should schedule the expiry of a restored session', () => {
+      mockStorage.getItem.mockReturnValue({ token, user: mockUser });
+      service.restoreSession();
+
+      vi.advanceTimersByTime(540_000);
+
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+    });
+
+    it('should expire a restored session whose JWT has expired', () => {
+      vi.setSystemTime(700_000);
+      mockStorage.getItem.mockReturnValue({ token, user: mockUser });
+      expect(service.restoreSession()).toBe(false);
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+    });
+  });
+
+  describe('expireSession', () => {
+    it('should remove the persisted session and flag it as expired', () => {
+      service.expireSession();
+      expect(mockStorage.removeItem).toHaveBeenCalledWith('th_auth_session', 'session');
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+    });
+
+    it('should clear the offline cache', () => {
+      service.expireSession();
+      expect(mockOfflineCache.clear).toHaveBeenCalled();
+    });
+  });
+
+  describe('multiple tabs', () => {
+    const session: AuthSession = {
+      token: 'synced',
+      refreshToken: 'refresh-1',
+      user: mockUser,
+      expiresAt: 600_000,
+    };
+    const receive = (message: Omit<SessionSyncMessage, 'tabId'>): void =>
+      mockSessionSync.messages$.next({ tabId: 'other-tab', ...message });
+
+    beforeEach(() => {
+      vi.setSystemTime(0);
+    });
+
+    it('should share a new session with the other tabs', () => {
+      mockApi.post.mockReturnValue(
+        of({ accessToken: 'access-token', expiresIn: 60, user: mockUser }),
+      );
+      service.login({ email: 'a', password: 'b' }).subscribe();
+      expect(mockSessionSync.publish).toHaveBeenCalledWith('session', {
+        token: 'access-token',
+        user: mockUser,
+        expiresAt: 60_000,
+      });
+    });
+
+    it('should share logout and expiry with the other tabs', () => {
+      service.logout();
+      expect(mockSessionSync.publish).toHaveBeenCalledWith('logout');
+      service.expireSession();
+      expect(mockSessionSync.publish).toHaveBeenCalledWith('expired');
+    });
+
+    it('should apply and persist a session from another tab without sharing it again', () => {
+      receive({ type: 'session', session });
+
+      expect(mockAuthStore.setSession).toHaveBeenCalledWith('synced', mockUser, 'refresh-1');
+      expect(mockStorage.setItem).toHaveBeenCalledWith('th_auth_session', session, 'session');
+      expect(mockSessionSync.publish).not.toHaveBeenCalled();
+    });
+
+    it('should renew a synced session after the tab that obtained it', () => {
+      receive({ type: 'session', session });
+      mockApi.post.mockReturnValue(of({ accessToken: 'renewed' }));
+
+      vi.advanceTimersByTime(544_999);
+      expect(mockApi.post).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(5_001);
+      expect(mockApi.post).toHaveBeenCalledWith(
+        '/auth/refresh',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should end the session when another tab logs out', () => {
+      receive({ type: 'session', session });
+      receive({ type: 'logout' });
+
+      expect(mockAuthStore.clearSession).toHaveBeenCalled();
+      expect(mockStorage.removeItem).toHaveBeenCalledWith('th_auth_session', 'session');
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/login');
+      expect(mockApi.post).not.toHaveBeenCalled();
+      expect(mockSessionSync.publish).not.toHaveBeenCalled();
+    });
+
+    it('should expire the session when it expired in another tab', () => {
+      receive({ type: 'session', session });
+      receive({ type: 'expired' });
+
+      expect(mockAuthStore.expireSession).toHaveBeenCalled();
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/login');
+    });
+
+    it('should ignore a logout from another tab when not signed in', () => {
+      receive({ type: 'logout' });
+      expect(mockAuthStore.clearSession).not.toHaveBeenCalled();
+      expect(mockRouter.navigateByUrl).not.toHaveBeenCalled();
+    });
+
+    it('should ask the other tabs for their session when none is persisted', () => {
+      mockStorage.getItem.mockReturnValue(null);
+      service.restoreSession();
+      expect(mockSessionSync.publish).toHaveBeenCalledWith('request');
+    });
+
+    it('should answer a session request while signed in', () => {
+      mockAuthStore.setSession('token', mockUser);
+      mockStorage.getItem.mockReturnValue(session);
+
+      receive({ type: 'request' });
+
+      expect(mockSessionSync.publish).toHaveBeenCalledWith('session', session);
+    });
+
+    it('should not answer a session request while signed out', () => {
+      receive({ type: 'request' });
+      expect(mockSessionSync.publish).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -8,25 +8,108 @@
  * @version 1.0.0
  */
 
-import { inject, Injectable } from '@angular/core';
+import { inject, Injectable, Signal } from '@angular/core';
+import { HttpContext } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
 
 import { AuthStore } from '../store';
-import { User } from '../interfaces';
+import {
+  AuthConfig,
+  AuthResponse,
+  AuthSession,
+  LoginCredentials,
+  SessionSyncMessage,
+  TokenResponse,
+  User,
+} from '../interfaces';
+import { AUTH_CONFIG, SKIP_AUTH } from '../tokens';
+import { JwtUtil } from '../utils';
+import { TokenRefresher } from '../types';
+import { ApiService } from './api.service';
+import { OfflineCacheService } from './offline-cache.service';
+import { SessionSyncService } from './session-sync.service';
+import { StorageService } from './storage.service';
 
 /**
- * AuthService - Provides authentication-related utilities and state selectors for guards and components.
+ * Default authentication configuration used when `AUTH_CONFIG` is not provided
+ * or omits a property.
  *
- * This service acts as a facade over the global AuthStore (NgRx Signal Store), exposing
- * authentication state, role checks, permission checks, and user/token retrieval methods.
- * It is designed for use in guards, components, interceptors, and other services that
- * require authentication logic.
+ * @internal
+ */
+const DEFAULT_AUTH_CONFIG: Required<AuthConfig> = {
+  loginEndpoint: '/auth/login',
+  logoutEndpoint: '/auth/logout',
+  refreshEndpoint: '/auth/refresh',
+  loginRoute: '/login',
+  expiryLeadTime: 60_000,
+  storageType: 'session',
+};
+
+/**
+ * Storage key under which the current session is persisted.
+ *
+ * @internal
+ */
+const AUTH_SESSION_STORAGE_KEY = 'th_auth_session';
+
+/**
+ * Longest delay accepted by `setTimeout`; longer delays are split into several timers.
+ *
+ * @internal
+ */
+const MAX_TIMER_DELAY = 2_147_483_647;
+
+/**
+ * Minimum extra delay before a tab renews a session it received from another tab, in
+ * milliseconds. The tab that obtained the tokens renews them first and shares the result,
+ * so the other tabs do not spend the same refresh token.
+ *
+ * @internal
+ */
+const SYNCED_RENEWAL_DELAY = 5_000;
+
+/**
+ * AuthService - Manages the session lifecycle and exposes authentication state for guards and components.
+ *
+ * This service acts as a facade over the global AuthStore (NgRx Signal Store). It signs users
+ * in and out against the configured auth endpoints, persists the session through
+ * `StorageService` so it survives page reloads, and exposes authentication state, role checks,
+ * permission checks, and user/token retrieval methods.
  *
  * @remarks
  * - Uses the `inject()` function for dependency injection (Angular 14+).
- * - All methods delegate to the AuthStore for state access.
+ * - `login()`, `logout()`, `refreshToken()` and `restoreSession()` are the only entry points that
+ *   change the session.
+ * - Endpoints and the storage type are configured with `provideAuthConfig()`.
  * - The service is provided in root and is a singleton across the application.
  * - Designed to be used across all micro-frontends (MFEs) for consistent auth logic.
  *
+ * **Session Lifecycle:**
+ * 1. On startup, `restoreSession()` rehydrates `AuthStore` from storage.
+ * 2. `login()` posts credentials, starts the session and persists it.
+ * 3. `refreshToken()` exchanges the refresh token for a new access token (called by
+ *    `AuthInterceptor` on 401) and persists the rotated tokens.
+ * 4. `logout()` notifies the server (best-effort) and clears the session everywhere.
+ * 5. An expired session that cannot be refreshed is discarded and reported through `sessionExpired`.
+ *
+ * **Offline Data:**
+ * `logout()` and `expireSession()` clear `OfflineCacheService`, so that the next user of the
+ * browser cannot read the responses stored for offline use.
+ *
+ * **Proactive Expiry:**
+ * When the access token is a JWT with an `exp` claim (or the server returned `expiresIn`),
+ * a timer renews the session `expiryLeadTime` before it expires. With a refresh token the
+ * tokens are refreshed; without one, or if the refresh fails, the session is expired and
+ * the user is sent to `loginRoute`.
+ *
+ * **Multiple Tabs:**
+ * Sign-ins, token renewals, sign-outs and expiries are shared with the other open tabs
+ * through `SessionSyncService`, so `AuthStore` holds the same session in every tab. A tab
+ * that starts without a persisted session asks the others for theirs. Tabs that are
+ * signed out by another tab are sent to `loginRoute`.
+ *
  * @example
  * ```typescript
  * @Component({ ... })
@@ -49,6 +132,7 @@ import { User } from '../interfaces';
  * ```
  *
  * @see AuthStore
+ * @see AuthConfig
  * @see User
  * @publicApi
  */
@@ -61,6 +145,278 @@ export class AuthService {
    */
   private readonly authStore = inject(AuthStore);
 
+  /** @internal HTTP client wrapper used to call the auth endpoints. */
+  private readonly api: ApiService = inject(ApiService);
+
+  /** @internal Service used to persist the session between page loads. */
+  private readonly storage: StorageService = inject(StorageService);
+
+  /** @internal Router used to send the user to the login route when the session expires. */
+  private readonly router: Router = inject(Router);
+
+  /** @internal Channel used to keep the session consistent across browser tabs. */
+  private readonly sessionSync: SessionSyncService = inject(SessionSyncService);
+
+  /** @internal Responses stored for offline reads, removed when the session ends. */
+  private readonly offlineCache: OfflineCacheService = inject(OfflineCacheService);
+
+  /**
+   * Effective authentication configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<AuthConfig> = {
+    ...DEFAULT_AUTH_CONFIG,
+    ...inject(AUTH_CONFIG, { optional: true }),
+  };
+
+  /**
+   * Timer that renews or ends the session shortly before the access token expires.
+   * @internal
+   */
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Custom refresh registered by an external sign-in flow, or `null` to use `refreshEndpoint`.
+   * @internal
+   */
+  private tokenRefresher: TokenRefresher | null = null;
+
+  /**
+   * Read-only signal that is `true` when the last session ended because it expired.
+   *
+   * Resets to `false` on the next successful login or an explicit logout.
+   *
+   * @example
+   * ```typescript
+   * readonly sessionExpired = inject(AuthService).sessionExpired;
+   *
+   * // In template
+   * // @if (sessionExpired()) {
+   * //   <p>Your session has expired. Please sign in again.</p>
+   * // }
+   * ```
+   */
+  readonly sessionExpired: Signal<boolean> = this.authStore.sessionExpired;
+
+  constructor() {
+    this.sessionSync.messages$.subscribe((message: SessionSyncMessage): void =>
+      this.applySyncMessage(message),
+    );
+  }
+
+  /**
+   * Signs the user in with the given credentials.
+   *
+   * Posts the credentials to the configured `loginEndpoint`. On success, the access
+   * token and user are stored in `AuthStore` and the session is persisted. On failure,
+   * the error is recorded in `AuthStore.error` and re-thrown to the caller.
+   *
+   * @param credentials - The user's email and password.
+   * @returns An Observable that emits the `AuthResponse` once the session has started.
+   *
+   * @example
+   * ```typescript
+   * this.authService.login({ email, password }).subscribe({
+   *   next: () => this.router.navigate(['/dashboard']),
+   *   error: () => this.showInvalidCredentials(),
+   * });
+   * ```
+   */
+  login(credentials: LoginCredentials): Observable<AuthResponse> {
+    this.authStore.setLoading(true);
+    // Credentials are never queued in the offline outbox
+    return this.api
+      .post<AuthResponse>(this.config.loginEndpoint, credentials, { outbox: false })
+      .pipe(
+        tap((response: AuthResponse): void => this.startSession(response)),
+        catchError((error: unknown) => {
+          this.authStore.setError(error);
+          return throwError((): unknown => error);
+        }),
+      );
+  }
+
+  /**
+   * Exchanges the current refresh token for a new access token.
+   *
+   * Posts `{ refreshToken }` to the configured `refreshEndpoint` with `SKIP_AUTH` set, so
+   * the request neither carries the rejected access token nor triggers another refresh.
+   * If a `TokenRefresher` was registered with `useTokenRefresher()`, it is called instead.
+   * On success, the new tokens replace the old ones in `AuthStore` and in storage. When
+   * the server does not rotate the refresh token, the previous one is kept.
+   *
+   * Callers are responsible for ending the session if the refresh fails;
+   * `AuthInterceptor` does so and redirects to the login route.
+   *
+   * @returns An Observable that emits the `TokenResponse`, or errors if there is no
+   * refresh token or the server rejects it.
+   *
+   * @example
+   * ```typescript
+   * this.authService.refreshToken().subscribe({
+   *   error: () => this.authService.expireSession(),
+   * });
+   * ```
+   *
+   * @see AuthInterceptor
+   */
+  refreshToken(): Observable<TokenResponse> {
+    const refreshToken: string | null = this.getRefreshToken();
+    if (!refreshToken) {
+      return throwError((): Error => new Error('No refresh token available'));
+    }
+
+    const refresh$: Observable<TokenResponse> = this.tokenRefresher
+      ? this.tokenRefresher(refreshToken)
+      : this.api.post<TokenResponse>(
+          this.config.refreshEndpoint,
+          { refreshToken },
+          { context: new HttpContext().set(SKIP_AUTH, true), outbox: false },
+        );
+
+    return refresh$.pipe(
+      tap((response: TokenResponse): void => {
+        this.authStore.setTokens(response.accessToken, response.refreshToken ?? refreshToken);
+        this.persistSession(response.expiresIn);
+      }),
+    );
+  }
+
+  /**
+   * Replaces the way `refreshToken()` obtains new tokens.
+   *
+   * Used by sign-in flows whose tokens are issued by another server, such as
+   * `OidcService`, which refreshes against the identity provider's token endpoint.
+   * Pass `null` to go back to the configured `refreshEndpoint`.
+   *
+   * @param refresher - Function that exchanges a refresh token for new tokens, or `null`.
+   *
+   * @example
+   * ```typescript
+   * authService.useTokenRefresher((refreshToken) => this.renewAtIdentityProvider(refreshToken));
+   * ```
+   *
+   * @see TokenRefresher
+   */
+  useTokenRefresher(refresher: TokenRefresher | null): void {
+    this.tokenRefresher = refresher;
+  }
+
+  /**
+   * Signs the current user out.
+   *
+   * Notifies the configured `logoutEndpoint` (fire-and-forget) while the token is
+   * still attached, then removes the persisted session, the offline cache and resets
+   * `AuthStore`. The local session is always cleared, even if the server call fails.
+   *
+   * @example
+   * ```typescript
+   * logout(): void {
+   *   this.authService.logout();
+   *   this.router.navigate(['/login']);
+   * }
+   * ```
+   */
+  logout(): void {
+    const endpoint: string = this.config.logoutEndpoint;
+    if (endpoint && this.authStore.isAuthenticated()) {
+      // Fire-and-forget: a failed logout call must not keep the user signed in
+      this.api
+        .post<void>(endpoint, {}, { outbox: false })
+        .subscribe({ error: (): void => undefined });
+    }
+    this.clearExpiryTimer();
+    this.storage.removeItem(AUTH_SESSION_STORAGE_KEY, this.config.storageType);
+    this.clearOfflineCache();
+    this.authStore.clearSession();
+    this.sessionSync.publish('logout');
+  }
+
+  /**
+   * Restores a persisted session into `AuthStore`.
+   *
+   * Call this once during application startup (e.g., in `provideAppInitializer`)
+   * so that a page reload does not sign the user out. A session that has passed its
+   * expiry is removed from storage and reported through `sessionExpired`, unless it
+   * carries a refresh token; in that case it is restored and refreshed right away.
+   * The expiry is read from the token's `exp` claim, falling back to the stored value.
+   * When nothing is persisted, other open tabs are asked to share their session.
+   *
+   * @returns `true` if a valid session was restored, `false` otherwise.
+   *
+   * @example
+   * ```typescript
+   * // app.config.ts
+   * providers: [
+   *   provideAppInitializer(() => {
+   *     inject(AuthService).restoreSession();
+   *   }),
+   * ]
+   * ```
+   */
+  restoreSession(): boolean {
+    const session: AuthSession | null = this.storage.getItem<AuthSession>(
+      AUTH_SESSION_STORAGE_KEY,
+      this.config.storageType,
+    );
+    if (!session?.token || !session.user) {
+      // A tab opened from a signed-in tab starts with empty session storage
+      this.sessionSync.publish('request');
+      return false;
+    }
+
+    const expiresAt: number | null =
+      JwtUtil.getExpiresAt(session.token) ?? session.expiresAt ?? null;
+    if (expiresAt !== null && expiresAt <= Date.now() && !session.refreshToken) {
+      this.expireSession();
+      return false;
+    }
+
+    this.authStore.setSession(session.token, session.user, session.refreshToken ?? null);
+    this.scheduleExpiry(expiresAt);
+    return true;
+  }
+
+  /**
+   * Starts a session from an auth response and persists it.
+   *
+   * `login()` calls this after a successful password sign-in. Other sign-in flows
+   * (e.g., `OidcService` after the identity provider redirects back) call it to
+   * hand their tokens and user to `AuthStore`.
+   *
+   * @param response - The successful authentication response.
+   *
+   * @example
+   * ```typescript
+   * this.authService.startSession({ accessToken, refreshToken, expiresIn, user });
+   * ```
+   */
+  startSession(response: AuthResponse): void {
+    this.authStore.setSession(response.accessToken, response.user, response.refreshToken ?? null);
+    this.persistSession(response.expiresIn);
+  }
+
+  /**
+   * Ends the current session because it is no longer valid.
+   *
+   * Removes the persisted session and the offline cache, clears `AuthStore` and sets
+   * `sessionExpired` to `true`. Unlike `logout()`, the server is not notified.
+   *
+   * @example
+   * ```typescript
+   * // The backend rejected the token
+   * this.authService.expireSession();
+   * this.router.navigate(['/login']);
+   * ```
+   */
+  expireSession(): void {
+    this.clearExpiryTimer();
+    this.storage.removeItem(AUTH_SESSION_STORAGE_KEY, this.config.storageType);
+    this.clearOfflineCache();
+    this.authStore.expireSession();
+    this.sessionSync.publish('expired');
+  }
+
   /**
    * Checks if the current user is authenticated.
    *
@@ -80,6 +436,25 @@ export class AuthService {
     return this.authStore.isAuthenticated();
   }
 
+  /**
+   * Checks whether the current access token has expired.
+   *
+   * Re-evaluates `AuthStore.isTokenExpired` against the current time. Tokens without
+   * a known expiry (opaque tokens) are never reported as expired.
+   *
+   * @returns `true` if the token's `exp` claim lies in the past, `false` otherwise.
+   *
+   * @example
+   * ```typescript
+   * if (authService.isAuthenticated() && !authService.isTokenExpired()) {
+   *   // The session can be used without a refresh
+   * }
+   * ```
+   */
+  isTokenExpired(): boolean {
+    return this.authStore.checkTokenExpiry();
+  }
+
   /**
    * Checks if the current user has the specified role.
    *
@@ -140,6 +515,22 @@ export class AuthService {
     return this.authStore.getToken();
   }
 
+  /**
+   * Retrieves the current refresh token.
+   *
+   * @returns The refresh token string, or `null` if none was issued.
+   *
+   * @example
+   * ```typescript
+   * if (authService.getRefreshToken()) {
+   *   // The session can be renewed without signing in again
+   * }
+   * ```
+   */
+  getRefreshToken(): string | null {
+    return this.authStore.refreshToken();
+  }
+
   /**
    * Retrieves the current authenticated user object.
    *
@@ -162,4 +553,162 @@ export class AuthService {
   getUser(): User | null {
     return this.authStore.user();
   }
+
+  /**
+   * Writes the session currently held in `AuthStore` to storage.
+   *
+   * @param expiresIn - Lifetime of the access token in seconds, if known.
+   * @internal
+   */
+  private persistSession(expiresIn?: number): void {
+    const token: string | null = this.authStore.getToken();
+    const user: User | null = this.authStore.user();
+    if (!token || !user) {
+      return;
+    }
+
+    const expiresAt: number | null =
+      this.authStore.tokenExpiresAt() ??
+      (expiresIn !== undefined ? Date.now() + expiresIn * 1000 : null);
+    const session: AuthSession = {
+      token,
+      user,
+      refreshToken: this.authStore.refreshToken() ?? undefined,
+      expiresAt: expiresAt ?? undefined,
+    };
+    this.storage.setItem(AUTH_SESSION_STORAGE_KEY, session, this.config.storageType);
+    this.scheduleExpiry(expiresAt);
+    this.sessionSync.publish('session', session);
+  }
+
+  /**
+   * Applies a session change made in another browser tab.
+   *
+   * Changes are applied locally only; they are not published again.
+   *
+   * @param message - The message received from the other tab.
+   * @internal
+   */
+  private applySyncMessage(message: SessionSyncMessage): void {
+    switch (message.type) {
+      case 'session': {
+        const session: AuthSession | undefined = message.session;
+        if (!session?.token || !session.user) {
+          return;
+        }
+        this.authStore.setSession(session.token, session.user, session.refreshToken ?? null);
+        this.storage.setItem(AUTH_SESSION_STORAGE_KEY, session, this.config.storageType);
+        this.scheduleExpiry(
+          JwtUtil.getExpiresAt(session.token) ?? session.expiresAt ?? null,
+          SYNCED_RENEWAL_DELAY * (1 + Math.random()),
+        );
+        return;
+      }
+      case 'logout':
+      case 'expired':
+        if (!this.authStore.isAuthenticated()) {
+          return;
+        }
+        this.clearExpiryTimer();
+        this.storage.removeItem(AUTH_SESSION_STORAGE_KEY, this.config.storageType);
+        if (message.type === 'logout') {
+          this.authStore.clearSession();
+        } else {
+          this.authStore.expireSession();
+        }
+        void this.router.navigateByUrl(this.config.loginRoute);
+        return;
+      case 'request': {
+        const session: AuthSession | null = this.authStore.isAuthenticated()
+          ? this.storage.getItem<AuthSession>(AUTH_SESSION_STORAGE_KEY, this.config.storageType)
+          : null;
+        if (session) {
+          this.sessionSync.publish('session', session);
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Schedules the session to be renewed (or ended) shortly before it expires.
+   *
+   * Replaces any previously scheduled timer. Does nothing when the expiry is unknown.
+   *
+   * @param expiresAt - Expiry of the access token in milliseconds since epoch.
+   * @param extraDelay - Milliseconds to wait in addition, without passing the expiry.
+   * @internal
+   */
+  private scheduleExpiry(expiresAt: number | null, extraDelay = 0): void {
+    this.clearExpiryTimer();
+    if (expiresAt === null) {
+      return;
+    }
+
+    const remaining: number = Math.max(0, expiresAt - Date.now());
+    const delay: number = Math.min(
+      remaining - Math.min(this.config.expiryLeadTime, remaining / 2) + extraDelay,
+      remaining,
+    );
+    if (delay > MAX_TIMER_DELAY) {
+      this.expiryTimer = setTimeout(
+        (): void => this.scheduleExpiry(expiresAt, extraDelay),
+        MAX_TIMER_DELAY,
+      );
+      return;
+    }
+
+    this.expiryTimer = setTimeout((): void => {
+      this.expiryTimer = null;
+      this.renewExpiringSession();
+    }, delay);
+  }
+
+  /**
+   * Refreshes the tokens of a session that is about to expire, or ends the session
+   * when it cannot be refreshed.
+   *
+   * @internal
+   */
+  private renewExpiringSession(): void {
+    if (!this.getRefreshToken()) {
+      this.endExpiredSession();
+      return;
+    }
+    this.refreshToken().subscribe({ error: (): void => this.endExpiredSession() });
+  }
+
+  /**
+   * Expires the session and sends the user to the configured login route.
+   *
+   * @internal
+   */
+  private endExpiredSession(): void {
+    this.expireSession();
+    void this.router.navigateByUrl(this.config.loginRoute);
+  }
+
+  /**
+   * Removes the responses stored for offline reads.
+   *
+   * The other tabs share the IndexedDB database, so they do not clear it again.
+   *
+   * @internal
+   */
+  private clearOfflineCache(): void {
+    // Best-effort: IndexedDB may be unavailable, and the session must end regardless
+    this.offlineCache.clear().subscribe({ error: (): void => undefined });
+  }
+
+  /**
+   * Cancels the scheduled expiry timer, if any.
+   *
+   * @internal
+   */
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer !== null) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
 }
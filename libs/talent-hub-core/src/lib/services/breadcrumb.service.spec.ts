@@ -0,0 +1,192 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext, signal } from '@angular/core';
+import {
+  Event as RouterEvent,
+  NavigationCancel,
+  NavigationEnd,
+  NavigationError,
+  NavigationStart,
+  Router,
+} from '@angular/router';
+import { Subject } from 'rxjs';
+
+import { BreadcrumbService, RequestTraceService } from '../services';
+import { RequestSummary } from '../interfaces';
+import { ERROR_HANDLER_CONFIG } from '../tokens';
+
+describe('BreadcrumbService', () => {
+  let service: BreadcrumbService;
+  let routerEvents: Subject<RouterEvent>;
+  let summaries: ReturnType<typeof signal<RequestSummary[]>>;
+
+  function createService(providers: { provide: unknown; useValue: unknown }[] = []) {
+    const injector = Injector.create({
+      providers: [
+        { provide: DOCUMENT, useValue: document },
+        { provide: Router, useValue: { url: '/', events: routerEvents } },
+        { provide: RequestTraceService, useValue: { summaries } },
+        ...providers,
+      ],
+    });
+    return runInInjectionContext(injector, () => new BreadcrumbService());
+  }
+
+  function summary(url: string, startedAt: number, status: number | null): RequestSummary {
+    return {
+      requestId: 'r',
+      traceId: 't',
+      method: 'GET',
+      url,
+      status,
+      errorCode: null,
+      startedAt,
+      duration: 100,
+    };
+  }
+
+  function click(html: string, selector: string): void {
+    document.body.innerHTML = html;
+    document.querySelector(selector)?.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+  }
+
+  const messages = (): string[] => service.getBreadcrumbs().map((crumb) => crumb.message);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    routerEvents = new Subject<RouterEvent>();
+    summaries = signal<RequestSummary[]>([]);
+    service = createService();
+    service.start();
+  });
+
+  afterEach(() => {
+    service.stop();
+    document.body.innerHTML = '';
+    vi.useRealTimers();
+  });
+
+  describe('navigation', () => {
+    it('should record completed, cancelled and failed navigations', () => {
+      routerEvents.next(new NavigationStart(1, '/candidates'));
+      routerEvents.next(new NavigationEnd(1, '/candidates', '/candidates/list'));
+      routerEvents.next(new NavigationCancel(2, '/admin', 'guard'));
+      routerEvents.next(new NavigationError(3, '/reports', new Error('Remote unavailable')));
+
+      expect(service.getBreadcrumbs()).toEqual([
+        {
+          type: 'navigation',
+          message: 'NavigationEnd /candidates/list',
+          timestamp: '2026-03-02T09:00:00.000Z',
+        },
+        {
+          type: 'navigation',
+          message: 'NavigationCancel /admin',
+          timestamp: '2026-03-02T09:00:00.000Z',
+        },
+        {
+          type: 'navigation',
+          message: 'NavigationError /reports: Remote unavailable',
+          timestamp: '2026-03-02T09:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should return the URL being navigated to as the current route', () => {
+      expect(service.currentRoute()).toBe('/');
+
+      routerEvents.next(new NavigationStart(1, '/candidates'));
+      expect(service.currentRoute()).toBe('/candidates');
+
+      routerEvents.next(new NavigationEnd(1, '/candidates', '/candidates/list'));
+      expect(service.currentRoute()).toBe('/candidates/list');
+
+      routerEvents.next(new NavigationStart(2, '/admin'));
+      routerEvents.next(new NavigationCancel(2, '/admin', 'guard'));
+      expect(service.currentRoute()).toBe('/candidates/list');
+    });
+  });
+
+  describe('clicks', () => {
+    it('should describe the clicked control by tag, id and text', () => {
+      click('<button id="save"><span>Save  candidate</span></button>', 'span');
+
+      expect(messages()).toEqual(['button#save "Save candidate"']);
+    });
+
+    it('should prefer the accessible label', () => {
+      click('<a aria-label="Close dialog"><i></i></a>', 'i');
+
+      expect(messages()).toEqual(['a "Close dialog"']);
+    });
+
+    it('should use the name of form fields instead of their value', () => {
+      click('<input name="email" value="jane@example.com" />', 'input');
+
+      expect(messages()).toEqual(['input "email"']);
+    });
+
+    it('should stop recording after stop()', () => {
+      service.stop();
+      click('<button>Save</button>', 'button');
+      routerEvents.next(new NavigationEnd(1, '/a', '/a'));
+
+      expect(messages()).toEqual([]);
+    });
+  });
+
+  describe('HTTP calls', () => {
+    it('should merge traced requests by time, without query parameters', () => {
+      const now = Date.now();
+      service.record('click', 'button "Search"');
+      vi.advanceTimersByTime(1_000);
+      service.record('navigation', 'NavigationEnd /candidates');
+      summaries.set([
+        summary('/api/candidates?q=jane', now + 400, 200),
+        summary('/api/tags', now - 5_000, null),
+      ]);
+
+      expect(messages()).toEqual([
+        'GET /api/tags cancelled',
+        'button "Search"',
+        'GET /api/candidates 200',
+        'NavigationEnd /candidates',
+      ]);
+      expect(service.getBreadcrumbs()[2]).toEqual({
+        type: 'http',
+        message: 'GET /api/candidates 200',
+        timestamp: '2026-03-02T09:00:00.500Z',
+      });
+    });
+  });
+
+  describe('limits', () => {
+    it('should keep the last maxBreadcrumbs breadcrumbs', () => {
+      service = createService([{ provide: ERROR_HANDLER_CONFIG, useValue: { maxBreadcrumbs: 2 } }]);
+      service.record('click', 'a');
+      service.record('click', 'b');
+      vi.advanceTimersByTime(1_000);
+      service.record('click', 'c');
+      summaries.set([summary('/api/x', Date.now(), 200)]);
+
+      expect(messages()).toEqual(['c', 'GET /api/x 200']);
+    });
+
+    it('should remove every breadcrumb on clear()', () => {
+      service.record('click', 'a');
+      service.clear();
+
+      expect(messages()).toEqual([]);
+    });
+  });
+});
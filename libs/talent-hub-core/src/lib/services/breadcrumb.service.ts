@@ -0,0 +1,315 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { DOCUMENT, inject, Injectable, Injector, OnDestroy } from '@angular/core';
+import {
+  Event as RouterEvent,
+  NavigationCancel,
+  NavigationEnd,
+  NavigationError,
+  NavigationStart,
+  Router,
+} from '@angular/router';
+import { Subscription } from 'rxjs';
+
+import { Breadcrumb, RequestSummary } from '../interfaces';
+import { BreadcrumbType } from '../types';
+import { ERROR_HANDLER_CONFIG } from '../tokens';
+import { RequestTraceService } from './request-trace.service';
+
+/**
+ * Number of breadcrumbs kept when `ERROR_HANDLER_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_MAX_BREADCRUMBS = 30;
+
+/**
+ * Maximum length of the text describing a clicked element.
+ *
+ * @internal
+ */
+const MAX_LABEL_LENGTH = 50;
+
+/**
+ * Elements a click is attributed to, instead of the innermost element clicked.
+ *
+ * @internal
+ */
+const CLICKABLE_SELECTOR = 'a, button, input, select, textarea, [role="button"], [routerLink]';
+
+/**
+ * BreadcrumbService - Records recent navigation, clicks and HTTP calls for error reports.
+ *
+ * Once started, keeps the last `maxBreadcrumbs` navigations and clicks. HTTP calls are
+ * not recorded separately; they are read from `RequestTraceService.summaries` and merged
+ * by time when the breadcrumbs are requested. `GlobalErrorHandler` attaches the result to
+ * every `ErrorReport`.
+ *
+ * @remarks
+ * - Clicks are described by the tag, id and accessible label (or text) of the clicked
+ *   control, never by the value of form fields.
+ * - HTTP breadcrumbs omit query parameters.
+ * - `currentRoute()` returns the URL being navigated to while a navigation is in progress,
+ *   so that errors thrown while loading a remote are attributed to it.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * provideAppInitializer(() => {
+ *   inject(BreadcrumbService).start();
+ * }),
+ *
+ * // Record an application-specific step
+ * this.breadcrumbs.record('click', 'Bulk action "Reject" confirmed');
+ * ```
+ *
+ * @see Breadcrumb
+ * @see GlobalErrorHandler
+ * @see RequestTraceService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class BreadcrumbService implements OnDestroy {
+  /** @internal Document on which clicks are observed. */
+  private readonly document: Document = inject(DOCUMENT);
+
+  /** @internal Source of the HTTP breadcrumbs. */
+  private readonly requestTrace: RequestTraceService = inject(RequestTraceService);
+
+  /**
+   * Injector used to resolve `Router` when started, so that the service can be created
+   * by `GlobalErrorHandler` before the router exists.
+   * @internal
+   */
+  private readonly injector: Injector = inject(Injector);
+
+  /** @internal Number of breadcrumbs kept and returned. */
+  private readonly maxBreadcrumbs: number =
+    inject(ERROR_HANDLER_CONFIG, { optional: true })?.maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS;
+
+  /** @internal Recorded navigations and clicks, oldest first. */
+  private breadcrumbs: Breadcrumb[] = [];
+
+  /** @internal URL of the last completed navigation. */
+  private lastUrl: string | null = null;
+
+  /** @internal URL of the navigation in progress, or of the last completed one. */
+  private route: string | null = null;
+
+  /** @internal Subscription to router events, while started. */
+  private routerSubscription: Subscription | null = null;
+
+  /** @internal Listener registered for clicks. */
+  private readonly onClick = (event: Event): void => {
+    const label: string | null = describeElement(event.target);
+    if (label) {
+      this.record('click', label);
+    }
+  };
+
+  /**
+   * Starts recording navigation and clicks.
+   *
+   * Call once at application startup; calling `start()` again has no effect.
+   *
+   * @example
+   * ```typescript
+   * provideAppInitializer(() => {
+   *   inject(BreadcrumbService).start();
+   * }),
+   * ```
+   */
+  start(): void {
+    if (this.routerSubscription) {
+      return;
+    }
+
+    const router: Router = this.injector.get(Router);
+    this.route = router.url;
+    this.lastUrl = router.url;
+    this.routerSubscription = router.events.subscribe((event: RouterEvent): void =>
+      this.onRouterEvent(event),
+    );
+    this.document.addEventListener('click', this.onClick, { capture: true, passive: true });
+  }
+
+  /**
+   * Stops recording navigation and clicks. Recorded breadcrumbs are kept.
+   *
+   * @example
+   * ```typescript
+   * this.breadcrumbs.stop();
+   * ```
+   */
+  stop(): void {
+    this.routerSubscription?.unsubscribe();
+    this.routerSubscription = null;
+    this.document.removeEventListener('click', this.onClick, { capture: true });
+  }
+
+  /**
+   * Records a breadcrumb, dropping the oldest above `maxBreadcrumbs`.
+   *
+   * @param type - Kind of activity.
+   * @param message - Short description of the activity.
+   *
+   * @example
+   * ```typescript
+   * this.breadcrumbs.record('navigation', 'Wizard step 3 of 5');
+   * ```
+   */
+  record(type: BreadcrumbType, message: string): void {
+    this.breadcrumbs = keepLast(
+      [...this.breadcrumbs, { type, message, timestamp: new Date().toISOString() }],
+      this.maxBreadcrumbs,
+    );
+  }
+
+  /**
+   * Returns the last `maxBreadcrumbs` navigations, clicks and HTTP calls, oldest first.
+   *
+   * @returns The recent activity, merged by time.
+   *
+   * @example
+   * ```typescript
+   * const report = { ...details, breadcrumbs: this.breadcrumbs.getBreadcrumbs() };
+   * ```
+   */
+  getBreadcrumbs(): Breadcrumb[] {
+    const requests: Breadcrumb[] = this.requestTrace
+      .summaries()
+      .slice(0, this.maxBreadcrumbs)
+      .map(toBreadcrumb);
+    return keepLast(
+      [...this.breadcrumbs, ...requests].sort((a: Breadcrumb, b: Breadcrumb): number =>
+        a.timestamp.localeCompare(b.timestamp),
+      ),
+      this.maxBreadcrumbs,
+    );
+  }
+
+  /**
+   * Returns the URL being navigated to, or the current URL when no navigation is in
+   * progress.
+   *
+   * @returns The URL, or `null` before `start()`.
+   *
+   * @example
+   * ```typescript
+   * const route = this.breadcrumbs.currentRoute(); // '/candidates/42'
+   * ```
+   */
+  currentRoute(): string | null {
+    return this.route;
+  }
+
+  /**
+   * Removes every recorded breadcrumb.
+   *
+   * @example
+   * ```typescript
+   * this.breadcrumbs.clear();
+   * ```
+   */
+  clear(): void {
+    this.breadcrumbs = [];
+  }
+
+  /**
+   * Stops recording when the application is destroyed.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Tracks the current route and records the outcome of navigations.
+   *
+   * @param event - The router event.
+   * @internal
+   */
+  private onRouterEvent(event: RouterEvent): void {
+    if (event instanceof NavigationStart) {
+      this.route = event.url;
+    } else if (event instanceof NavigationEnd) {
+      this.route = this.lastUrl = event.urlAfterRedirects;
+      this.record('navigation', `NavigationEnd ${event.urlAfterRedirects}`);
+    } else if (event instanceof NavigationCancel) {
+      this.route = this.lastUrl;
+      this.record('navigation', `NavigationCancel ${event.url}`);
+    } else if (event instanceof NavigationError) {
+      this.record('navigation', `NavigationError ${event.url}: ${errorMessage(event.error)}`);
+    }
+  }
+}
+
+/**
+ * Describes the control a click was made on by its tag, id and label.
+ *
+ * @param target - The element clicked.
+ * @returns E.g. `'button#save "Save candidate"'`, or `null` for non-elements.
+ * @internal
+ */
+function describeElement(target: EventTarget | null): string | null {
+  if (!target || typeof (target as Element).closest !== 'function') {
+    return null;
+  }
+  const element: Element = (target as Element).closest(CLICKABLE_SELECTOR) ?? (target as Element);
+  const id: string = element.id ? `#${element.id}` : '';
+  const isField: boolean = ['input', 'select', 'textarea'].includes(element.localName);
+  const text: string = (
+    element.getAttribute('aria-label') ??
+    (isField ? element.getAttribute('name') : element.textContent) ??
+    ''
+  )
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_LABEL_LENGTH);
+  return `${element.localName}${id}${text ? ` "${text}"` : ''}`;
+}
+
+/**
+ * Converts the summary of a traced request to a breadcrumb, without query parameters.
+ *
+ * @param summary - The outcome of the request.
+ * @returns E.g. `'GET /api/candidates 200'`, timed at the response.
+ * @internal
+ */
+function toBreadcrumb(summary: RequestSummary): Breadcrumb {
+  return {
+    type: 'http',
+    message: `${summary.method} ${summary.url.split('?')[0]} ${summary.status ?? 'cancelled'}`,
+    timestamp: new Date(summary.startedAt + summary.duration).toISOString(),
+  };
+}
+
+/**
+ * Returns the last items of a list.
+ *
+ * @param items - The list, oldest first.
+ * @param count - Number of items to keep.
+ * @internal
+ */
+function keepLast<T>(items: T[], count: number): T[] {
+  return items.slice(Math.max(0, items.length - count));
+}
+
+/**
+ * Returns the message of an error of any type.
+ *
+ * @param error - The error.
+ * @internal
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ConsoleLogSink } from '../services';
+import { LogEntry } from '../interfaces';
+import { LogLevel } from '../types';
+
+describe('ConsoleLogSink', () => {
+  let sink: ConsoleLogSink;
+
+  /** Creates an entry of the given level and module. */
+  function entry(level: LogLevel, module: string | null = null, meta?: unknown): LogEntry {
+    return {
+      id: 'id',
+      level,
+      message: `${level} message`,
+      ...(meta === undefined ? {} : { meta }),
+      timestamp: '2026-03-02T09:00:00.000Z',
+      context: { module, tenantId: null, userId: null, route: null, appVersion: null },
+    };
+  }
+
+  beforeEach(() => {
+    for (const method of ['info', 'warn', 'error', 'debug', 'trace'] as const) {
+      vi.spyOn(console, method).mockImplementation(() => undefined);
+    }
+    sink = new ConsoleLogSink();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use the console method of each level', () => {
+    sink.write(entry('info'));
+    sink.write(entry('warn', null, { a: 1 }));
+    sink.write(entry('error'));
+    sink.write(entry('fatal'));
+    sink.write(entry('debug'));
+    sink.write(entry('trace'));
+
+    expect(console.info).toHaveBeenCalledWith('info message', undefined);
+    expect(console.warn).toHaveBeenCalledWith('warn message', { a: 1 });
+    expect(console.error).toHaveBeenCalledWith('error message', undefined);
+    expect(console.error).toHaveBeenCalledWith('fatal message', undefined);
+    expect(console.debug).toHaveBeenCalledWith('debug message', undefined);
+    expect(console.trace).toHaveBeenCalledWith('trace message', undefined);
+  });
+
+  it('should prefix the messages of module loggers with the module name', () => {
+    sink.write(entry('warn', 'candidate.search', { ms: 2300 }));
+
+    expect(console.warn).toHaveBeenCalledWith('[candidate.search] warn message', { ms: 2300 });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Injectable } from '@angular/core';
+
+import { LogEntry, LogSink } from '../interfaces';
+
+/**
+ * ConsoleLogSink - Writes log entries to the browser console.
+ *
+ * One of the two sinks that always receive entries from `LoggerService`. Messages of
+ * module loggers are prefixed with the module name.
+ *
+ * @remarks
+ * Console methods are mapped as follows:
+ * - `info` → `console.info()`
+ * - `warn` → `console.warn()`
+ * - `error`, `fatal` → `console.error()`
+ * - `debug` → `console.debug()`
+ * - `trace` → `console.trace()`
+ *
+ * @example
+ * ```typescript
+ * inject(LoggerService).createLogger('candidate.search').warn('Slow search', { ms: 2300 });
+ * // console: [candidate.search] Slow search { ms: 2300 }
+ * ```
+ *
+ * @see LoggerService
+ * @see LogSink
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class ConsoleLogSink implements LogSink {
+  /**
+   * Writes an entry with the console method of its level.
+   *
+   * @param entry - The redacted entry.
+   */
+  write(entry: LogEntry): void {
+    const message: string = entry.context.module
+      ? `[${entry.context.module}] ${entry.message}`
+      : entry.message;
+
+    switch (entry.level) {
+      case 'info':
+        console.info(message, entry.meta);
+        break;
+      case 'warn':
+        console.warn(message, entry.meta);
+        break;
+      case 'error':
+      case 'fatal':
+        console.error(message, entry.meta);
+        break;
+      case 'debug':
+        console.debug(message, entry.meta);
+        break;
+      case 'trace':
+        console.trace(message, entry.meta);
+        break;
+    }
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext, signal } from '@angular/core';
+
+import {
+  EventBusBridgeService,
+  EventBusService,
+  LoggerService,
+  SessionSyncService,
+} from '../services';
+import { EventMetaData } from '../models';
+import { TenantStore } from '../store';
+import { EVENT_BUS_BRIDGE_CONFIG } from '../tokens';
+
+/** In-memory BroadcastChannel that delivers cloned messages to the other channels of the same name. */
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  static posted: unknown[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(message: unknown): void {
+    const data: unknown = structuredClone(message);
+    FakeBroadcastChannel.posted.push(data);
+    FakeBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => channel.onmessage?.({ data } as MessageEvent));
+  }
+
+  close(): void {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter((c) => c !== this);
+  }
+}
+
+interface Tab {
+  bridge: EventBusBridgeService;
+  eventBus: EventBusService;
+  tenantId: ReturnType<typeof signal<string | null>>;
+  received: EventMetaData<unknown>[];
+}
+
+describe('EventBusBridgeService', () => {
+  let logger: { warn: ReturnType<typeof vi.fn> };
+  let tabs: Tab[];
+
+  function createTab(
+    keys: string[] | null = ['th:candidate.*'],
+    window: object | null = { BroadcastChannel: FakeBroadcastChannel },
+  ): Tab {
+    const eventBus = new EventBusService();
+    const tenantId = signal<string | null>('acme');
+    const injector = Injector.create({
+      providers: [
+        { provide: EventBusService, useValue: eventBus },
+        { provide: SessionSyncService, useValue: { tabId: `tab-${tabs.length + 1}` } },
+        { provide: TenantStore, useValue: { tenantId } },
+        { provide: LoggerService, useValue: { createLogger: () => logger } },
+        { provide: DOCUMENT, useValue: { defaultView: window } },
+        ...(keys ? [{ provide: EVENT_BUS_BRIDGE_CONFIG, useValue: { keys } }] : []),
+      ],
+    });
+    const bridge = runInInjectionContext(injector, () => new EventBusBridgeService());
+    const received: EventMetaData<unknown>[] = [];
+    eventBus.on('*').subscribe((metadata) => received.push(metadata));
+    const tab: Tab = { bridge, eventBus, tenantId, received };
+    tabs.push(tab);
+    return tab;
+  }
+
+  beforeEach(() => {
+    logger = { warn: vi.fn() };
+    tabs = [];
+    FakeBroadcastChannel.channels = [];
+    FakeBroadcastChannel.posted = [];
+  });
+
+  afterEach(() => {
+    tabs.forEach((tab) => tab.bridge.stop());
+  });
+
+  describe('when started', () => {
+    let tabA: Tab;
+    let tabB: Tab;
+
+    beforeEach(() => {
+      tabA = createTab();
+      tabB = createTab();
+      tabA.bridge.start();
+      tabB.bridge.start();
+    });
+
+    it('should publish the configured events in the other tabs with their metadata', () => {
+      tabA.eventBus.publish('th:candidate.status-changed', { candidateId: 'c-1', status: 'hired' });
+
+      const [sent] = tabA.received;
+      expect(tabB.received).toHaveLength(1);
+      const [received] = tabB.received;
+      expect(received).toBeInstanceOf(EventMetaData);
+      expect(received.id).toBe(sent.id);
+      expect(received.key).toBe('th:candidate.status-changed');
+      expect(received.timestamp).toBe(sent.timestamp);
+      expect(received.data).toEqual({ candidateId: 'c-1', status: 'hired' });
+      expect(received.origin).toBe('tab-1');
+      expect(sent.origin).toBeNull();
+    });
+
+    it('should not share events of other keys', () => {
+      tabA.eventBus.publish('th:requisition.published', { id: 'r-1' });
+
+      expect(tabB.received).toEqual([]);
+      expect(FakeBroadcastChannel.posted).toEqual([]);
+    });
+
+    it('should not send received events back', () => {
+      tabA.eventBus.publish('th:candidate.updated');
+
+      expect(FakeBroadcastChannel.posted).toHaveLength(1);
+      expect(tabA.received).toHaveLength(1);
+    });
+
+    it('should ignore events of another tenant', () => {
+      tabB.tenantId.set('globex');
+
+      tabA.eventBus.publish('th:candidate.updated');
+
+      expect(tabB.received).toEqual([]);
+    });
+
+    it('should stop sharing after stop()', () => {
+      tabB.bridge.stop();
+
+      tabA.eventBus.publish('th:candidate.updated');
+      tabB.eventBus.publish('th:candidate.updated');
+
+      expect(tabA.received).toHaveLength(1);
+      expect(tabB.received).toHaveLength(1);
+    });
+
+    it('should log and skip events whose payload cannot be cloned', () => {
+      tabA.eventBus.publish('th:candidate.updated', { callback: () => undefined });
+
+      expect(tabB.received).toEqual([]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Could not share th:candidate.updated with other tabs',
+        expect.anything(),
+      );
+    });
+  });
+
+  it('should only deliver the keys listed in the receiving tab', () => {
+    const tabA = createTab(['th:candidate.*', 'th:requisition.*']);
+    const tabB = createTab(['th:candidate.*']);
+    tabA.bridge.start();
+    tabB.bridge.start();
+
+    tabA.eventBus.publish('th:requisition.published');
+
+    expect(FakeBroadcastChannel.posted).toHaveLength(1);
+    expect(tabB.received).toEqual([]);
+  });
+
+  it('should not send replayed events published before start()', () => {
+    const tabA = createTab();
+    const tabB = createTab();
+    tabA.eventBus.publish('th:candidate.selected', { id: 'c-1' }, { replay: true });
+
+    tabA.bridge.start();
+    tabB.bridge.start();
+
+    expect(FakeBroadcastChannel.posted).toEqual([]);
+  });
+
+  it('should ignore malformed messages', () => {
+    createTab().bridge.start();
+    const [channel] = FakeBroadcastChannel.channels;
+
+    expect(() => {
+      channel.onmessage?.({ data: null } as MessageEvent);
+      channel.onmessage?.({ data: { tabId: 'x', tenantId: 'acme' } } as MessageEvent);
+      channel.onmessage?.({ data: { tabId: 'x', tenantId: 'acme', metadata: {} } } as MessageEvent);
+    }).not.toThrow();
+    expect(tabs[0].received).toEqual([]);
+  });
+
+  it('should do nothing without configured keys or BroadcastChannel', () => {
+    createTab(null).bridge.start();
+    createTab(['th:candidate.*'], {}).bridge.start();
+    createTab(['th:candidate.*'], null).bridge.start();
+
+    expect(FakeBroadcastChannel.channels).toEqual([]);
+  });
+});
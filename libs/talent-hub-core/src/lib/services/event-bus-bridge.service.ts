@@ -0,0 +1,231 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { DOCUMENT, inject, Injectable, OnDestroy } from '@angular/core';
+import { filter, Subscription } from 'rxjs';
+
+import { EventBusBridgeMessage, ModuleLogger } from '../interfaces';
+import { EventMetaData } from '../models';
+import { TenantStore } from '../store';
+import { EVENT_BUS_BRIDGE_CONFIG } from '../tokens';
+import { EventKeyUtil } from '../utils';
+import { EventBusService } from './event-bus.service';
+import { LoggerService } from './logger.service';
+import { SessionSyncService } from './session-sync.service';
+
+/**
+ * Name of the `BroadcastChannel` shared by the bridges of all tabs.
+ *
+ * @internal
+ */
+const EVENT_BUS_BRIDGE_CHANNEL = 'th_event_bus';
+
+/**
+ * Module name of the bridge's logger.
+ *
+ * @internal
+ */
+const LOGGER_MODULE = 'event-bus-bridge';
+
+/**
+ * EventBusBridgeService - Shares selected `EventBusService` events with the other tabs.
+ *
+ * Once started, events whose key matches one of the keys of `EventBusBridgeConfig` are
+ * sent over a `BroadcastChannel` and published again on the event bus of every other
+ * tab of the same origin, so that a change made in one tab (e.g., a candidate's status)
+ * also refreshes the candidate lists and dashboards open in other tabs.
+ *
+ * @remarks
+ * **Opt-In:**
+ * Nothing is shared until the application provides the keys with
+ * `provideEventBusBridgeConfig()` and calls `start()`. A tab only delivers the events
+ * of the keys it lists itself.
+ *
+ * **Serialization:**
+ * Events are sent with `EventMetaData.toJSON()` and restored with
+ * `EventMetaData.fromJSON()`, so they keep their id and timestamp in every tab. Their
+ * payload must be structured-cloneable; events that cannot be sent are logged and
+ * skipped.
+ *
+ * **Loop Prevention:**
+ * Each message carries the `SessionSyncService.tabId` of the tab the event was
+ * published in, which becomes the `origin` of the received event. Only events
+ * published in the current tab (`origin === null`) are sent, so received events are
+ * never sent back.
+ *
+ * **Tenants:**
+ * Each message carries the tenant selected in the sending tab. Tabs with another tenant
+ * ignore it, so two tenants open side by side never exchange events.
+ *
+ * - Replayed events published before `start()` are not sent.
+ * - Without `BroadcastChannel` (SSR, old browsers), `start()` does nothing.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * provideEventBusBridgeConfig({ keys: ['th:candidate.*'] }),
+ * provideAppInitializer(() => {
+ *   inject(EventBusBridgeService).start();
+ * }),
+ *
+ * // Tab A
+ * this.eventBus.publish('th:candidate.status-changed', { candidateId: 'c-1001', status: 'hired' });
+ *
+ * // Tab B
+ * this.eventBus.on('th:candidate.*').subscribe((meta) => {
+ *   console.log(meta.origin); // Tab id of tab A
+ *   this.reload();
+ * });
+ * ```
+ *
+ * @see EventBusBridgeConfig
+ * @see provideEventBusBridgeConfig
+ * @see EventBusService
+ * @see SessionSyncService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class EventBusBridgeService implements OnDestroy {
+  /** @internal Event bus whose events are shared. */
+  private readonly eventBus: EventBusService = inject(EventBusService);
+
+  /** @internal Source of the id of the current tab. */
+  private readonly sessionSync: SessionSyncService = inject(SessionSyncService);
+
+  /** @internal Source of the tenant that scopes the messages. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Logger for events that cannot be sent. */
+  private readonly logger: ModuleLogger = inject(LoggerService).createLogger(LOGGER_MODULE);
+
+  /** @internal Window of the current tab, or `null` outside the browser. */
+  private readonly window: (Window & typeof globalThis) | null =
+    inject(DOCUMENT).defaultView ?? null;
+
+  /** @internal Keys or patterns of the shared events. */
+  private readonly keys: string[] = inject(EVENT_BUS_BRIDGE_CONFIG, { optional: true })?.keys ?? [];
+
+  /** @internal Channel shared by all tabs, while started. */
+  private channel: BroadcastChannel | null = null;
+
+  /** @internal Subscription to the events of the current tab, while started. */
+  private subscription: Subscription | null = null;
+
+  /**
+   * Starts sharing the configured events with the other tabs.
+   *
+   * Call once at application startup. Does nothing without configured keys, without
+   * `BroadcastChannel`, or when already started.
+   *
+   * @example
+   * ```typescript
+   * provideAppInitializer(() => {
+   *   inject(EventBusBridgeService).start();
+   * }),
+   * ```
+   */
+  start(): void {
+    if (this.channel || !this.keys.length || typeof this.window?.BroadcastChannel !== 'function') {
+      return;
+    }
+
+    this.channel = new this.window.BroadcastChannel(EVENT_BUS_BRIDGE_CHANNEL);
+    this.channel.onmessage = (event: MessageEvent<EventBusBridgeMessage>): void =>
+      this.receive(event.data);
+
+    let started = false;
+    this.subscription = this.eventBus
+      .on('*', { subscriber: 'EventBusBridgeService' })
+      .pipe(
+        filter(
+          (metadata: EventMetaData<unknown>): boolean =>
+            started && metadata.origin === null && this.isShared(metadata.key),
+        ),
+      )
+      .subscribe((metadata: EventMetaData<unknown>): void => this.send(metadata));
+    // Replayed events are emitted during the subscription; they were published before
+    started = true;
+  }
+
+  /**
+   * Stops sharing events and closes the channel.
+   *
+   * @example
+   * ```typescript
+   * this.eventBusBridge.stop();
+   * ```
+   */
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  /**
+   * Stops sharing events when the application is destroyed.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Sends an event of the current tab to the other tabs.
+   *
+   * @param metadata - The event.
+   * @internal
+   */
+  private send(metadata: EventMetaData<unknown>): void {
+    const message: EventBusBridgeMessage = {
+      tabId: this.sessionSync.tabId,
+      tenantId: this.tenantStore.tenantId(),
+      metadata: metadata.toJSON(),
+    };
+    try {
+      this.channel?.postMessage(message);
+    } catch (error: unknown) {
+      // The payload cannot be cloned (e.g., functions or class instances with handles)
+      this.logger.warn(`Could not share ${metadata.key} with other tabs`, error);
+    }
+  }
+
+  /**
+   * Publishes an event received from another tab of the same tenant.
+   *
+   * @param message - The received message.
+   * @internal
+   */
+  private receive(message: EventBusBridgeMessage | null | undefined): void {
+    const key: unknown = message?.metadata?.key;
+    if (
+      !message ||
+      typeof key !== 'string' ||
+      !key.trim() ||
+      message.tabId === this.sessionSync.tabId ||
+      message.tenantId !== this.tenantStore.tenantId() ||
+      !this.isShared(key)
+    ) {
+      return;
+    }
+    this.eventBus.republish(EventMetaData.fromJSON(message.metadata, message.tabId));
+  }
+
+  /**
+   * Returns whether events of a key are shared with the other tabs.
+   *
+   * @param key - Key of the event.
+   * @internal
+   */
+  private isShared(key: string): boolean {
+    return this.keys.some((pattern: string): boolean => EventKeyUtil.matches(pattern, key));
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Injector, runInInjectionContext } from '@angular/core';
+
+import { EventBusInspectorService, EventBusService } from '../services';
+import { AppUtil } from '../utils';
+
+describe('EventBusInspectorService', () => {
+  let eventBus: EventBusService;
+  let inspector: EventBusInspectorService;
+
+  beforeEach(() => {
+    eventBus = new EventBusService();
+    const injector = Injector.create({
+      providers: [{ provide: EventBusService, useValue: eventBus }],
+    });
+    inspector = runInInjectionContext(injector, () => new EventBusInspectorService());
+  });
+
+  afterEach(() => {
+    inspector.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should record events newest first with the subscribers that received them', () => {
+    inspector.start();
+    eventBus.on('th:candidate.*', { subscriber: 'Dashboard' }).subscribe();
+    eventBus.on('th:candidate.updated').subscribe();
+
+    eventBus.publish('th:candidate.updated', { id: 'c-1' });
+    eventBus.publish('th:requisition.published');
+
+    const [requisition, candidate] = inspector.events();
+    expect(requisition.metadata.key).toBe('th:requisition.published');
+    expect(requisition.subscribers).toEqual([]);
+    expect(candidate.metadata.data).toEqual({ id: 'c-1' });
+    expect(candidate.subscribers).toEqual([
+      { id: expect.any(Number), name: 'Dashboard', pattern: 'th:candidate.*' },
+      { id: expect.any(Number), name: null, pattern: 'th:candidate.updated' },
+    ]);
+  });
+
+  it('should not list subscriptions that ended', () => {
+    inspector.start();
+    eventBus.on('th:candidate.updated', { subscriber: 'Gone' }).subscribe().unsubscribe();
+
+    eventBus.publish('th:candidate.updated');
+
+    expect(inspector.events()[0].subscribers).toEqual([]);
+  });
+
+  it('should keep a bounded history', () => {
+    inspector.start();
+    for (let i = 0; i < 205; i++) {
+      eventBus.publish('th:counter.updated', i);
+    }
+
+    expect(inspector.events()).toHaveLength(200);
+    expect(inspector.events()[0].metadata.data).toBe(204);
+    expect(inspector.events()[199].metadata.data).toBe(5);
+  });
+
+  it('should replay a recorded event as a new event', () => {
+    inspector.start();
+    const received: unknown[] = [];
+    eventBus.on('th:candidate.updated').subscribe((meta) => received.push(meta.data));
+    eventBus.publish('th:candidate.updated', { id: 'c-1' });
+
+    const [recorded] = inspector.events();
+    inspector.replay(recorded);
+
+    expect(received).toEqual([{ id: 'c-1' }, { id: 'c-1' }]);
+    expect(inspector.events()).toHaveLength(2);
+    expect(inspector.events()[0].metadata.id).not.toBe(recorded.metadata.id);
+  });
+
+  it('should stop recording and clear the history', () => {
+    inspector.start();
+    eventBus.publish('th:candidate.updated');
+    inspector.stop();
+    eventBus.publish('th:candidate.updated');
+
+    expect(inspector.events()).toHaveLength(1);
+    inspector.clear();
+    expect(inspector.events()).toEqual([]);
+  });
+
+  it('should not record anything in production builds', () => {
+    vi.spyOn(AppUtil, 'isDevMode').mockReturnValue(false);
+    inspector.start();
+
+    eventBus.publish('th:candidate.updated');
+
+    expect(inspector.events()).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { inject, Injectable, OnDestroy, Signal, signal, WritableSignal } from '@angular/core';
+import { Subscription } from 'rxjs';
+
+import { EventDispatch } from '../interfaces';
+import { AppUtil } from '../utils';
+import { EventBusService } from './event-bus.service';
+
+/**
+ * Number of events kept in the history.
+ *
+ * @internal
+ */
+const MAX_EVENTS = 200;
+
+/**
+ * EventBusInspectorService - Records the events of `EventBusService` for debugging.
+ *
+ * Once started, every published event is kept with the subscriptions it was delivered
+ * to, so that the interactions between the host and the remotes can be followed after
+ * the fact. Backs the event inspector panel of the host.
+ *
+ * @remarks
+ * **Development Only:**
+ * `start()` does nothing in production builds (`isDevMode()` is `false`), so events
+ * and their payloads are never recorded there.
+ *
+ * **History:**
+ * The last 200 events are kept, newest first, including their `EventMetaData` (id,
+ * key, timestamp, data and origin tab).
+ *
+ * **Subscribers:**
+ * Subscriptions are listed by the name given with `EventSubscribeOptions.subscriber`, or
+ * by their number and pattern.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts (host)
+ * provideAppInitializer(() => {
+ *   inject(EventBusInspectorService).start();
+ * }),
+ *
+ * // Anywhere
+ * const inspector = inject(EventBusInspectorService);
+ * inspector.events().forEach(({ metadata, subscribers }) =>
+ *   console.log(metadata.key, subscribers.length),
+ * );
+ * inspector.replay(inspector.events()[0]);
+ * ```
+ *
+ * @see EventBusService.dispatched$
+ * @see EventDispatch
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class EventBusInspectorService implements OnDestroy {
+  /** @internal Event bus whose events are recorded. */
+  private readonly eventBus: EventBusService = inject(EventBusService);
+
+  /** @internal Writable state behind `events`. */
+  private readonly _events: WritableSignal<EventDispatch[]> = signal([]);
+
+  /** @internal Subscription to the published events, while started. */
+  private subscription: Subscription | null = null;
+
+  /**
+   * Read-only signal with the recorded events, newest first.
+   *
+   * @example
+   * ```typescript
+   * // @for (event of inspector.events(); track event.metadata.id) { ... }
+   * ```
+   */
+  readonly events: Signal<EventDispatch[]> = this._events.asReadonly();
+
+  /**
+   * Starts recording events.
+   *
+   * Does nothing in production builds or when already started.
+   *
+   * @example
+   * ```typescript
+   * provideAppInitializer(() => {
+   *   inject(EventBusInspectorService).start();
+   * }),
+   * ```
+   */
+  start(): void {
+    if (this.subscription || !AppUtil.isDevMode()) {
+      return;
+    }
+    this.subscription = this.eventBus.dispatched$.subscribe((dispatch: EventDispatch): void =>
+      this._events.update((events: EventDispatch[]): EventDispatch[] =>
+        [dispatch, ...events].slice(0, MAX_EVENTS),
+      ),
+    );
+  }
+
+  /**
+   * Stops recording events. The history is kept.
+   *
+   * @example
+   * ```typescript
+   * this.inspector.stop();
+   * ```
+   */
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Removes all recorded events.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="inspector.clear()">Clear</button>
+   * ```
+   */
+  clear(): void {
+    this._events.set([]);
+  }
+
+  /**
+   * Publishes a recorded event again, with the same key and data.
+   *
+   * The event is published as a new event of the current tab (new id and timestamp),
+   * and is recorded again.
+   *
+   * @param dispatch - The recorded event.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="inspector.replay(event)">Replay</button>
+   * ```
+   */
+  replay(dispatch: EventDispatch): void {
+    this.eventBus.publish(dispatch.metadata.key, dispatch.metadata.data);
+  }
+
+  /**
+   * Stops recording when the application is destroyed.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.stop();
+  }
+}
@@ -8,11 +8,13 @@
  * @version 1.0.0
  */
 
-import { beforeEach, describe, expect, it } from 'vitest';
-import { take } from 'rxjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { firstValueFrom, of, take, throwError } from 'rxjs';
 
+import { APP_CONSTANT } from '../constants';
+import { EventDispatch } from '../interfaces';
 import { EventBusService } from '../services';
-import { EventMetaData } from '../models';
+import { EventMetaData, EventRequestTimeoutError } from '../models';
 
 describe('EventBusService', () => {
   let service: EventBusService;
@@ -94,4 +96,195 @@ describe('EventBusService', () => {
       expect(count).toBe(2);
     });
   });
+
+  describe('republish', () => {
+    it('should deliver the given metadata as is', () => {
+      const metadata = EventMetaData.fromJSON(
+        new EventMetaData('th:candidate.updated').toJSON(),
+        'tab-2',
+      );
+      const received: EventMetaData<unknown>[] = [];
+      service.on('th:candidate.updated').subscribe((meta) => received.push(meta));
+
+      service.republish(metadata, { replay: true });
+      service.on('th:candidate.updated').subscribe((meta) => received.push(meta));
+
+      expect(received).toEqual([metadata, metadata]);
+    });
+  });
+
+  describe('wildcards', () => {
+    function keysOf(pattern: string): string[] {
+      const keys: string[] = [];
+      service.on(pattern).subscribe((meta) => keys.push(meta.key));
+      return keys;
+    }
+
+    it('should receive every event of a namespace', () => {
+      const keys = keysOf('th:candidate.*');
+
+      service.publish('th:candidate.updated');
+      service.publish('th:candidate.status.changed');
+      service.publish('th:candidates.updated');
+      service.publish('th:requisition.updated');
+
+      expect(keys).toEqual(['th:candidate.updated', 'th:candidate.status.changed']);
+    });
+
+    it('should receive every event for a single asterisk', () => {
+      const keys = keysOf('*');
+
+      service.publish('th:candidate.updated');
+      service.publish('legacy');
+
+      expect(keys).toEqual(['th:candidate.updated', 'legacy']);
+    });
+
+    it('should match other characters literally', () => {
+      const keys = keysOf('th:outbox.*');
+
+      service.publish('th:outboxXconflict');
+      service.publish(APP_CONSTANT.EVENT_BUS_KEYS.OUTBOX_CONFLICT);
+
+      expect(keys).toEqual(['th:outbox.conflict']);
+    });
+  });
+
+  describe('replay', () => {
+    it('should deliver the last replayed event of a key to later subscribers', () => {
+      service.publish('th:candidate.selected', { id: 'c-1' }, { replay: true });
+      service.publish('th:candidate.selected', { id: 'c-2' }, { replay: true });
+
+      const data: unknown[] = [];
+      service.on('th:candidate.selected').subscribe((meta) => data.push(meta.data));
+      service.publish('th:candidate.selected', { id: 'c-3' });
+
+      expect(data).toEqual([{ id: 'c-2' }, { id: 'c-3' }]);
+    });
+
+    it('should not replay events published without the option', () => {
+      service.publish('th:candidate.selected', { id: 'c-1' });
+
+      const data: unknown[] = [];
+      service.on('th:candidate.selected').subscribe((meta) => data.push(meta.data));
+
+      expect(data).toEqual([]);
+    });
+
+    it('should stop replaying a key published again without the option', () => {
+      service.publish('th:candidate.selected', { id: 'c-1' }, { replay: true });
+      service.publish('th:candidate.selected', { id: 'c-2' });
+
+      const data: unknown[] = [];
+      service.on('th:candidate.selected').subscribe((meta) => data.push(meta.data));
+
+      expect(data).toEqual([]);
+    });
+
+    it('should replay the matching keys of a pattern in publication order', () => {
+      service.publish('th:candidate.selected', 1, { replay: true });
+      service.publish('th:tenant.changed', 2, { replay: true });
+      service.publish('th:candidate.filtered', 3, { replay: true });
+      service.publish('th:candidate.selected', 4, { replay: true });
+
+      const keys: string[] = [];
+      service.on('th:candidate.*').subscribe((meta) => keys.push(`${meta.key}=${meta.data}`));
+
+      expect(keys).toEqual(['th:candidate.filtered=3', 'th:candidate.selected=4']);
+    });
+  });
+
+  describe('dispatched$', () => {
+    it('should emit published events with the subscriptions they were delivered to', () => {
+      const dispatches: EventDispatch[] = [];
+      service.dispatched$.subscribe((dispatch) => dispatches.push(dispatch));
+      const subscription = service
+        .on('th:candidate.*', { subscriber: 'Dashboard' })
+        .pipe(take(1))
+        .subscribe();
+
+      service.publish('th:candidate.updated');
+      service.publish('th:candidate.updated');
+
+      expect(subscription.closed).toBe(true);
+      expect(dispatches.map((dispatch) => dispatch.subscribers)).toEqual([
+        [{ id: expect.any(Number), name: 'Dashboard', pattern: 'th:candidate.*' }],
+        [],
+      ]);
+      expect(dispatches[0].metadata.key).toBe('th:candidate.updated');
+    });
+  });
+
+  describe('request/reply', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should answer a request with the reply of the handler', async () => {
+      service.reply('th:requisition.get', (data) => ({ id: (data as { id: string }).id }));
+
+      const reply = await firstValueFrom(service.request('th:requisition.get', { id: 'r-42' }));
+
+      expect(reply).toEqual({ id: 'r-42' });
+    });
+
+    it('should accept promises and observables as replies', async () => {
+      service.reply('th:promise', () => Promise.resolve('from a promise'));
+      service.reply('th:observable', () => of('first', 'second'));
+
+      expect(await firstValueFrom(service.request('th:promise'))).toBe('from a promise');
+      expect(await firstValueFrom(service.request('th:observable'))).toBe('first');
+    });
+
+    it('should wait for a handler registered after the request', async () => {
+      vi.useFakeTimers();
+      const reply = firstValueFrom(service.request('th:host.ready'));
+
+      vi.advanceTimersByTime(1_000);
+      service.reply('th:host.ready', () => true);
+
+      await expect(reply).resolves.toBe(true);
+    });
+
+    it('should fail when no reply arrives within the timeout', async () => {
+      vi.useFakeTimers();
+      const reply = firstValueFrom(service.request('th:host.ready', undefined, { timeout: 2_000 }));
+      const failed = expect(reply).rejects.toBeInstanceOf(EventRequestTimeoutError);
+
+      vi.advanceTimersByTime(2_000);
+
+      await failed;
+      await expect(reply).rejects.toThrow('No reply to th:host.ready within 2000 ms');
+    });
+
+    it('should fail with the error of the handler', async () => {
+      service.reply('th:thrown', () => {
+        throw new Error('thrown');
+      });
+      service.reply('th:errored', () => throwError(() => new Error('errored')));
+
+      await expect(firstValueFrom(service.request('th:thrown'))).rejects.toThrow('thrown');
+      await expect(firstValueFrom(service.request('th:errored'))).rejects.toThrow('errored');
+    });
+
+    it('should use the last registered handler and unregister it on unsubscribe', async () => {
+      vi.useFakeTimers();
+      const first = service.reply('th:version', () => 1);
+      const second = service.reply('th:version', () => 2);
+      first.unsubscribe();
+
+      await expect(firstValueFrom(service.request('th:version'))).resolves.toBe(2);
+
+      second.unsubscribe();
+      const reply = firstValueFrom(service.request('th:version', undefined, { timeout: 100 }));
+      const failed = expect(reply).rejects.toBeInstanceOf(EventRequestTimeoutError);
+      vi.advanceTimersByTime(100);
+      await failed;
+    });
+
+    it('should throw if key is empty', () => {
+      expect(() => service.request(' ')).toThrowError('key must not be empty');
+      expect(() => service.reply('', () => null)).toThrowError('key must not be empty');
+    });
+  });
 });
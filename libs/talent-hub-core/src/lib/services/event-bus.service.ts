@@ -9,24 +9,88 @@
  */
 
 import { Injectable } from '@angular/core';
-import { filter, map, Observable, Subject } from 'rxjs';
+import {
+  BehaviorSubject,
+  concat,
+  defer,
+  filter,
+  from,
+  isObservable,
+  map,
+  Observable,
+  Subject,
+  Subscription,
+  switchMap,
+  take,
+  throwError,
+  timeout,
+} from 'rxjs';
 
-import { EventBusMessage } from '../interfaces';
-import { EventMetaData } from '../models';
+import {
+  EventBusMessage,
+  EventDispatch,
+  EventPublishOptions,
+  EventRequestOptions,
+  EventSubscribeOptions,
+  EventSubscriberInfo,
+} from '../interfaces';
+import { EventMetaData, EventRequestTimeoutError } from '../models';
+import { EventPayload, EventReply, EventReplyHandler, EventRequest } from '../types';
+import { EventKeyUtil } from '../utils';
 
 /**
- * EventBusService - Provides a simple, type-safe publish-subscribe (pub-sub) mechanism
- * for application-wide event communication.
+ * Time `request()` waits for a reply when no timeout is given, in milliseconds.
+ *
+ * @internal
+ */
+const DEFAULT_REQUEST_TIMEOUT = 5_000;
+
+/**
+ * Throws if an event key or pattern is empty or contains only whitespace.
+ *
+ * @param key - The key to validate.
+ * @throws {Error} If the key is empty.
+ * @internal
+ */
+function assertKey(key: string): void {
+  if (!key.trim().length) {
+    throw new Error('key must not be empty');
+  }
+}
+
+/**
+ * EventBusService - Provides a typed publish-subscribe (pub-sub) mechanism for
+ * application-wide event communication.
  *
  * This service enables loosely-coupled communication between components, services,
  * and micro-frontends (MFEs) without requiring direct references. Events are identified
- * by string keys and can carry typed payloads.
+ * by string keys; the payload of each key is declared in `EventCatalog`.
  *
  * @remarks
- * - Uses RxJS `Subject` internally for event publishing and subscribing.
- * - Fully type-safe with generic support for event payloads.
+ * **Typed Events:**
+ * For keys of `EventCatalog`, `publish()` checks the payload and `on()` emits typed
+ * metadata without a type argument. Remotes add their events by augmenting the
+ * catalog. Keys that are not in the catalog have an `unknown` payload, unless a type
+ * argument is passed as before.
+ *
+ * **Wildcards:**
+ * `on()` accepts patterns in which `*` matches any characters, so `th:candidate.*`
+ * receives every event of the `th:candidate` namespace and `*` receives all events.
+ *
+ * **Replay:**
+ * Events are ephemeral by default - subscribers only receive events published after
+ * subscribing. Events published with `{ replay: true }` are also delivered to later
+ * subscribers of their key (e.g., a remote that finishes loading after the event).
+ * Only the last event of each key is replayed.
+ *
+ * **Request/Reply:**
+ * `request()` asks for data that another part of the application answers with
+ * `reply()`, so remotes can get data from the host without importing it. The request
+ * waits for a handler to be registered and fails with `EventRequestTimeoutError` when
+ * no reply arrives within its timeout. Requests and replies are declared in
+ * `EventRequestCatalog`.
+ *
  * - Validates that event keys are non-empty strings.
- * - Events are ephemeral - subscribers only receive events published after subscribing.
  * - Designed for cross-component and cross-MFE communication in the Talent Hub platform.
  * - Provided in root as a singleton service.
  *
@@ -35,20 +99,25 @@ import { EventMetaData } from '../models';
  * // Inject the service
  * private readonly eventBus = inject(EventBusService);
  *
- * // Subscribe to an event
- * this.eventBus.on<User>('user:login').subscribe(metadata => {
- *   console.log('User logged in:', metadata.data);
- *   console.log('Event key:', metadata.key);
+ * // Subscribe to an event of the catalog; `metadata.data` is an `ApiError`
+ * this.eventBus.on(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR).subscribe((metadata) => {
+ *   console.log('Request failed:', metadata.data?.status);
  *   console.log('Timestamp:', metadata.timestamp);
  * });
  *
- * // Publish an event with data
- * this.eventBus.publish<User>('user:login', { id: '123', name: 'John' });
+ * // Subscribe to a namespace
+ * this.eventBus.on('th:candidate.*').subscribe((metadata) => console.log(metadata.key));
  *
- * // Publish an event without data
- * this.eventBus.publish('app:initialized');
+ * // Publish an event that remotes loaded later still receive
+ * this.eventBus.publish('th:candidate.selected', candidate, { replay: true });
+ *
+ * // Answer requests in the host, and send them from a remote
+ * this.eventBus.reply('th:requisition.get', ({ id }) => this.requisitions.get(id));
+ * this.eventBus.request('th:requisition.get', { id: 'r-42' }).subscribe(console.log);
  * ```
  *
+ * @see EventCatalog
+ * @see EventRequestCatalog
  * @see EventBusMessage
  * @see EventMetaData
  * @publicApi
@@ -62,99 +131,340 @@ export class EventBusService {
    */
   private readonly eventSubject: Subject<EventBusMessage> = new Subject<EventBusMessage>();
 
+  /**
+   * Last event of each key published with `replay: true`, in publication order.
+   * @internal
+   */
+  private readonly replayedEvents = new Map<string, EventBusMessage>();
+
+  /**
+   * Handlers registered with `reply()`, by request key.
+   * @internal
+   */
+  private readonly replyHandlers = new BehaviorSubject<
+    ReadonlyMap<string, EventReplyHandler<string>>
+  >(new Map());
+
+  /**
+   * Active subscriptions made with `on()`.
+   * @internal
+   */
+  private readonly subscribers = new Set<EventSubscriberInfo>();
+
+  /**
+   * Number given to the next subscription.
+   * @internal
+   */
+  private nextSubscriberId = 1;
+
+  /**
+   * Subject behind `dispatched$`.
+   * @internal
+   */
+  private readonly dispatchedSubject = new Subject<EventDispatch>();
+
+  /**
+   * Emits every published event with the subscriptions it was delivered to.
+   *
+   * Meant for development tools such as `EventBusInspectorService`; the subscriptions
+   * are only collected while this stream is observed.
+   *
+   * @example
+   * ```typescript
+   * this.eventBus.dispatched$.subscribe(({ metadata, subscribers }) =>
+   *   console.log(metadata.key, subscribers.map((subscriber) => subscriber.name)),
+   * );
+   * ```
+   */
+  readonly dispatched$: Observable<EventDispatch> = this.dispatchedSubject.asObservable();
+
   /**
    * Publishes an event to all subscribers listening for the specified key.
    *
    * Creates an `EventMetaData` wrapper containing the key, data, and timestamp,
    * then emits it through the internal subject. Subscribers listening for this
-   * key will receive the event.
+   * key, or for a pattern matching it, will receive the event.
    *
-   * @template T - The type of the event payload data.
+   * @template K - The event key; for keys of `EventCatalog`, determines the payload type.
    * @param key - The event key/identifier (must be a non-empty string).
    * @param data - Optional payload data to include with the event.
+   * @param options - Whether the event is replayed to later subscribers.
    * @throws {Error} If the key is empty or contains only whitespace.
    *
    * @example
    * ```typescript
-   * // Publish an event with typed data
-   * interface OrderCreatedEvent {
-   *   orderId: string;
-   *   amount: number;
-   * }
-   * this.eventBus.publish<OrderCreatedEvent>('order:created', {
-   *   orderId: 'ORD-123',
-   *   amount: 99.99
+   * // Publish an event of the catalog; the payload must be a NotificationRequest
+   * this.eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.NOTIFICATION_SHOW, {
+   *   severity: 'success',
+   *   message: 'Candidate saved',
    * });
    *
+   * // Publish an event that later subscribers also receive
+   * this.eventBus.publish('th:candidate.selected', candidate, { replay: true });
+   *
    * // Publish a simple notification event (no data)
    * this.eventBus.publish('cache:cleared');
+   * ```
    *
-   * // Publish with primitive data
+   * @see EventMetaData
+   */
+  publish<K extends string>(key: K, data?: EventPayload<K>, options?: EventPublishOptions): void;
+
+  /**
+   * Publishes an event with an explicitly typed payload.
+   *
+   * Kept for keys that are not in `EventCatalog`; prefer adding the key to the catalog.
+   *
+   * @template T - The type of the event payload data.
+   * @param key - The event key/identifier (must be a non-empty string).
+   * @param data - Optional payload data to include with the event.
+   * @param options - Whether the event is replayed to later subscribers.
+   * @throws {Error} If the key is empty or contains only whitespace.
+   *
+   * @example
+   * ```typescript
    * this.eventBus.publish<number>('counter:updated', 42);
    * ```
+   */
+  publish<T = never>(key: string, data?: NoInfer<T>, options?: EventPublishOptions): void;
+
+  publish(key: string, data?: unknown, options?: EventPublishOptions): void {
+    assertKey(key);
+    this.dispatch(new EventMetaData(key, data), options);
+  }
+
+  /**
+   * Publishes an event created elsewhere, keeping its metadata.
+   *
+   * Used to deliver events received from outside the page (e.g., by
+   * `EventBusBridgeService` from other tabs) with the id, timestamp and origin of the
+   * original event. Subscribers receive the given `EventMetaData` as is.
+   *
+   * @param metadata - The event to publish.
+   * @param options - Whether the event is replayed to later subscribers.
+   * @throws {Error} If the key of the event is empty or contains only whitespace.
+   *
+   * @example
+   * ```typescript
+   * channel.onmessage = ({ data }) =>
+   *   this.eventBus.republish(EventMetaData.fromJSON(data.metadata, data.tabId));
+   * ```
    *
-   * @see EventMetaData
+   * @see EventMetaData.fromJSON
    */
-  publish<T>(key: string, data?: T): void {
-    if (!key.trim().length) {
-      throw new Error('key must not be empty');
-    }
-    const metadata: EventMetaData<T> = new EventMetaData<T>(key, data);
-    this.eventSubject.next({ key, metadata });
+  republish(metadata: EventMetaData<unknown>, options?: EventPublishOptions): void {
+    assertKey(metadata.key);
+    this.dispatch(metadata, options);
   }
 
   /**
-   * Subscribes to events matching the specified key.
+   * Subscribes to events matching the specified key or wildcard pattern.
    *
-   * Returns an Observable that emits `EventMetaData` objects whenever an event
-   * with the matching key is published. The Observable filters out events with
-   * different keys and maps the result to the typed metadata.
+   * Returns an Observable that emits `EventMetaData` objects whenever a matching
+   * event is published, starting with the replayed events of the matching keys.
    *
-   * @template T - The expected type of the event payload data.
-   * @param key - The event key to listen for (must be a non-empty string).
-   * @returns An Observable that emits `EventMetaData<T>` for each matching event.
+   * @template K - The event key or pattern; determines the payload type for keys of
+   * `EventCatalog`.
+   * @param key - The event key to listen for, or a pattern in which `*` matches any
+   * characters (must be a non-empty string).
+   * @param options - Name of the subscriber, shown by the event inspector.
+   * @returns An Observable that emits `EventMetaData` for each matching event.
    * @throws {Error} If the key is empty or contains only whitespace.
    *
    * @remarks
-   * - Subscribers only receive events published after the subscription is created.
+   * - Subscribers receive events published after the subscription is created, preceded
+   *   by the last event of each matching key that was published with `replay: true`.
    * - Remember to unsubscribe to prevent memory leaks (use `takeUntilDestroyed()`,
    *   `takeUntil()`, or manual unsubscription).
    * - The returned Observable never completes unless the service is destroyed.
    *
    * @example
    * ```typescript
-   * // Subscribe to typed events
-   * interface UserUpdatedEvent {
-   *   userId: string;
-   *   changes: Record<string, unknown>;
-   * }
-   *
-   * this.eventBus.on<UserUpdatedEvent>('user:updated').subscribe(metadata => {
-   *   console.log('User updated:', metadata.data?.userId);
-   *   console.log('Changes:', metadata.data?.changes);
+   * // Subscribe to an event of the catalog; `metadata.data` is an `OutboxFailure`
+   * this.eventBus.on(APP_CONSTANT.EVENT_BUS_KEYS.OUTBOX_CONFLICT).subscribe((metadata) => {
+   *   this.openConflictDialog(metadata.data?.entry);
    * });
    *
    * // Subscribe with automatic cleanup (Angular 16+)
-   * this.eventBus.on<void>('session:expired')
+   * this.eventBus.on('th:candidate.*', { subscriber: 'DashboardComponent' })
    *   .pipe(takeUntilDestroyed())
-   *   .subscribe(() => {
-   *     this.router.navigate(['/login']);
+   *   .subscribe((metadata) => this.reload(metadata.key));
+   * ```
+   *
+   * @see EventMetaData
+   */
+  on<K extends string>(
+    key: K,
+    options?: EventSubscribeOptions,
+  ): Observable<EventMetaData<EventPayload<K>>>;
+
+  /**
+   * Subscribes to events with an explicitly typed payload.
+   *
+   * Kept for keys that are not in `EventCatalog`; prefer adding the key to the catalog.
+   *
+   * @template T - The expected type of the event payload data.
+   * @param key - The event key or pattern to listen for (must be a non-empty string).
+   * @param options - Name of the subscriber, shown by the event inspector.
+   * @returns An Observable that emits `EventMetaData<T>` for each matching event.
+   * @throws {Error} If the key is empty or contains only whitespace.
+   *
+   * @example
+   * ```typescript
+   * this.eventBus.on<string>('notification:info').subscribe((m) => this.showInfo(m.data));
+   * ```
+   */
+  on<T>(key: string, options?: EventSubscribeOptions): Observable<EventMetaData<T>>;
+
+  on(key: string, options?: EventSubscribeOptions): Observable<EventMetaData<unknown>> {
+    assertKey(key);
+    return new Observable<EventMetaData<unknown>>((subscriber) => {
+      const info: EventSubscriberInfo = {
+        id: this.nextSubscriberId++,
+        name: options?.subscriber ?? null,
+        pattern: key,
+      };
+      this.subscribers.add(info);
+      const subscription: Subscription = concat(
+        from([...this.replayedEvents.values()]),
+        this.eventSubject,
+      )
+        .pipe(
+          filter((event: EventBusMessage): boolean => EventKeyUtil.matches(key, event.key)),
+          map((event: EventBusMessage): EventMetaData<unknown> => event.metadata),
+        )
+        .subscribe(subscriber);
+      return (): void => {
+        this.subscribers.delete(info);
+        subscription.unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * Sends a request and emits the reply of the handler registered for the key.
+   *
+   * The request is sent on subscription. It waits for a handler to be registered with
+   * `reply()`, calls it with `data`, emits its reply and completes.
+   *
+   * @template K - The request key; for keys of `EventRequestCatalog`, determines the
+   * types of the data and the reply.
+   * @param key - The request key (must be a non-empty string).
+   * @param data - Data passed to the handler.
+   * @param options - Time to wait for the reply.
+   * @returns An Observable that emits the reply once and completes.
+   * @throws {Error} If the key is empty or contains only whitespace.
+   *
+   * @remarks
+   * The Observable fails with `EventRequestTimeoutError` when no reply arrives within
+   * the timeout (default 5 seconds), and with the handler's error when it fails.
+   *
+   * @example
+   * ```typescript
+   * this.eventBus
+   *   .request('th:requisition.get', { id: 'r-42' }, { timeout: 10_000 })
+   *   .subscribe({
+   *     next: (requisition) => this.requisition.set(requisition),
+   *     error: () => this.unavailable.set(true),
    *   });
+   * ```
+   *
+   * @see reply
+   * @see EventRequestTimeoutError
+   */
+  request<K extends string>(
+    key: K,
+    data?: EventRequest<K>,
+    options?: EventRequestOptions,
+  ): Observable<EventReply<K>> {
+    assertKey(key);
+    const wait: number = options?.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+    return this.replyHandlers.pipe(
+      map((handlers): EventReplyHandler<string> | undefined => handlers.get(key)),
+      filter((handler): handler is EventReplyHandler<string> => !!handler),
+      take(1),
+      switchMap(
+        (handler: EventReplyHandler<string>): Observable<unknown> =>
+          defer((): Observable<unknown> => {
+            const reply: unknown = handler(data);
+            return isObservable(reply) ? reply : from(Promise.resolve(reply));
+          }),
+      ),
+      take(1),
+      timeout({
+        first: wait,
+        with: (): Observable<never> =>
+          throwError((): EventRequestTimeoutError => new EventRequestTimeoutError(key, wait)),
+      }),
+    ) as Observable<EventReply<K>>;
+  }
+
+  /**
+   * Registers the handler that answers the requests of a key.
+   *
+   * Requests sent before the handler was registered and still waiting are answered
+   * as well. Only one handler answers each key; registering another one replaces it.
    *
-   * // Subscribe to multiple events using a naming convention
-   * this.eventBus.on<string>('notification:info').subscribe(m => this.showInfo(m.data));
-   * this.eventBus.on<string>('notification:error').subscribe(m => this.showError(m.data));
+   * @template K - The request key; for keys of `EventRequestCatalog`, determines the
+   * types of the data and the reply.
+   * @param key - The request key (must be a non-empty string).
+   * @param handler - Function returning the reply, directly, as a Promise or as an
+   * Observable.
+   * @returns A subscription that unregisters the handler when unsubscribed.
+   * @throws {Error} If the key is empty or contains only whitespace.
+   *
+   * @example
+   * ```typescript
+   * // Host
+   * const registration = this.eventBus.reply('th:requisition.get', ({ id }) =>
+   *   this.api.get<Requisition>(`/requisitions/${id}`),
+   * );
+   *
+   * // Stop answering
+   * registration.unsubscribe();
    * ```
    *
-   * @see EventMetaData
+   * @see request
    */
-  on<T>(key: string): Observable<EventMetaData<T>> {
-    if (!key.trim().length) {
-      throw new Error('key must not be empty');
+  reply<K extends string>(key: K, handler: EventReplyHandler<K>): Subscription {
+    assertKey(key);
+    const registered = handler as EventReplyHandler<string>;
+    this.replyHandlers.next(new Map(this.replyHandlers.value).set(key, registered));
+    return new Subscription((): void => {
+      if (this.replyHandlers.value.get(key) === registered) {
+        const handlers = new Map(this.replyHandlers.value);
+        handlers.delete(key);
+        this.replyHandlers.next(handlers);
+      }
+    });
+  }
+
+  /**
+   * Emits an event to the subscribers and updates the replayed event of its key.
+   *
+   * While `dispatched$` is observed, the event is also emitted there with the
+   * subscriptions it was delivered to.
+   *
+   * @param metadata - The event to emit.
+   * @param options - Whether the event is replayed to later subscribers.
+   * @internal
+   */
+  private dispatch(metadata: EventMetaData<unknown>, options?: EventPublishOptions): void {
+    const message: EventBusMessage = { key: metadata.key, metadata };
+    this.replayedEvents.delete(metadata.key);
+    if (options?.replay) {
+      this.replayedEvents.set(metadata.key, message);
+    }
+    if (!this.dispatchedSubject.observed) {
+      this.eventSubject.next(message);
+      return;
     }
-    return this.eventSubject.asObservable().pipe(
-      filter((event: EventBusMessage): event is EventBusMessage<T> => event.key === key),
-      map((event: EventBusMessage): EventMetaData<T> => event.metadata as EventMetaData<T>),
+
+    // Collected before delivery, as subscribers may unsubscribe when they receive it
+    const subscribers: EventSubscriberInfo[] = [...this.subscribers].filter(
+      (info: EventSubscriberInfo): boolean => EventKeyUtil.matches(info.pattern, metadata.key),
     );
+    this.eventSubject.next(message);
+    this.dispatchedSubject.next({ metadata, subscribers });
   }
 }
@@ -9,89 +9,216 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Injector, runInInjectionContext, signal } from '@angular/core';
+import { Subject, throwError } from 'rxjs';
 
-import { FeatureFlagService } from '../services';
-
-// Use vi.hoisted to declare mock store that can be accessed inside vi.mock
-const { mockAppStore } = vi.hoisted(() => {
-  let features: Record<string, boolean> | null = {};
-
-  return {
-    mockAppStore: {
-      isFeatureEnabled: vi.fn((key: string) => features?.[key] ?? false),
-      setFeatures: (newFeatures: Record<string, boolean> | null) => {
-        features = newFeatures;
-      },
-      reset: () => {
-        features = {};
-      },
-    },
-  };
-});
+import { ApiService, FeatureFlagService, LoggerService } from '../services';
+import { FeatureFlag } from '../interfaces';
+import { AppStore, AuthStore, TenantStore } from '../store';
+import { Environment, TenantPlan } from '../types';
+import { FEATURE_FLAG_CONFIG } from '../tokens';
 
-// Mock @angular/core inject before importing FeatureFlagService
-vi.mock('@angular/core', async (importOriginal) => {
-  const actual = await importOriginal();
-  return Object.assign({}, actual, {
-    inject: vi.fn((token: unknown) => {
-      // SignalStore tokens have name 'SignalStore', so check the string representation
-      const tokenStr = String(token);
-      if (tokenStr.includes('SignalStore') || tokenStr.includes('AppStore')) {
-        return mockAppStore;
-      }
-      throw new Error(`Unmocked token in test: ${tokenStr}`);
-    }),
-  });
-});
+const MINUTE = 60_000;
 
 describe('FeatureFlagService', () => {
   let service: FeatureFlagService;
+  let responses: Subject<FeatureFlag[]>[];
+  let mockApi: { get: ReturnType<typeof vi.fn> };
+  let logger: { warn: ReturnType<typeof vi.fn> };
+  let plan: ReturnType<typeof signal<TenantPlan | null>>;
+  let roles: ReturnType<typeof signal<string[]>>;
+  let userId: ReturnType<typeof signal<string>>;
+  let environment: ReturnType<typeof signal<Environment>>;
+  let tenantFeatures: ReturnType<typeof signal<Record<string, boolean>>>;
+  let overrides: ReturnType<typeof signal<Record<string, boolean> | null>>;
+
+  function createService(providers: { provide: unknown; useValue: unknown }[] = []) {
+    const injector = Injector.create({
+      providers: [
+        { provide: ApiService, useValue: mockApi },
+        { provide: LoggerService, useValue: { createLogger: () => logger } },
+        { provide: AppStore, useValue: { currentEnvironment: environment, features: overrides } },
+        { provide: AuthStore, useValue: { userRoles: roles, userId } },
+        { provide: TenantStore, useValue: { tenantPlan: plan, tenantFeatures } },
+        ...providers,
+      ],
+    });
+    return runInInjectionContext(injector, () => new FeatureFlagService());
+  }
+
+  /** Answers the pending request for the flags. */
+  function respond(flags: FeatureFlag[]): void {
+    const response = responses[responses.length - 1];
+    response.next(flags);
+    response.complete();
+  }
 
   beforeEach(() => {
-    vi.clearAllMocks();
-    mockAppStore.reset();
-    service = new FeatureFlagService();
+    vi.useFakeTimers();
+    responses = [];
+    mockApi = {
+      get: vi.fn(() => {
+        const response = new Subject<FeatureFlag[]>();
+        responses.push(response);
+        return response;
+      }),
+    };
+    logger = { warn: vi.fn() };
+    plan = signal<TenantPlan | null>('professional');
+    roles = signal<string[]>(['recruiter']);
+    userId = signal('u-42');
+    environment = signal<Environment>('production');
+    tenantFeatures = signal<Record<string, boolean>>({});
+    overrides = signal<Record<string, boolean> | null>(null);
+    service = createService();
   });
 
   afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
     vi.restoreAllMocks();
   });
 
-  it('should return true if feature flag is enabled', () => {
-    mockAppStore.setFeatures({ featureA: true });
-    expect(service.isEnabled('featureA')).toBe(true);
-  });
+  describe('loading', () => {
+    it('should load the flags from the default endpoint on start', () => {
+      service.start();
+      expect(mockApi.get).toHaveBeenCalledWith('/feature-flags');
+      expect(service.isLoaded()).toBe(false);
 
-  it('should return false if feature flag is disabled', () => {
-    mockAppStore.setFeatures({ featureB: false });
-    expect(service.isEnabled('featureB')).toBe(false);
-  });
+      respond([{ key: 'bulkImport', enabled: true }]);
 
-  it('should return false if feature flag is missing', () => {
-    mockAppStore.setFeatures({});
-    expect(service.isEnabled('missingFeature')).toBe(false);
-  });
+      expect(service.isLoaded()).toBe(true);
+      expect(service.isEnabled('bulkImport')).toBe(true);
+    });
 
-  it('should return false if features is null', () => {
-    mockAppStore.setFeatures(null);
-    expect(service.isEnabled('anyFeature')).toBe(false);
-  });
+    it('should load the flags again every refresh interval', () => {
+      service.start();
+      respond([{ key: 'bulkImport', enabled: true }]);
+
+      vi.advanceTimersByTime(5 * MINUTE);
+      expect(mockApi.get).toHaveBeenCalledTimes(2);
+      respond([{ key: 'bulkImport', enabled: false }]);
+
+      expect(service.isEnabled('bulkImport')).toBe(false);
+    });
+
+    it('should use the configured endpoint and refresh interval', () => {
+      service = createService([
+        { provide: FEATURE_FLAG_CONFIG, useValue: { endpoint: '/api/flags', refreshInterval: 0 } },
+      ]);
+      service.start();
+      respond([]);
+      vi.advanceTimersByTime(60 * MINUTE);
+
+      expect(mockApi.get).toHaveBeenCalledTimes(1);
+      expect(mockApi.get).toHaveBeenCalledWith('/api/flags');
+    });
+
+    it('should keep the last flags and warn when loading fails', () => {
+      service.start();
+      respond([{ key: 'bulkImport', enabled: true }]);
+      mockApi.get.mockReturnValueOnce(throwError(() => new Error('offline')));
+
+      service.refresh();
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Could not load the feature flags',
+        expect.any(Error),
+      );
+      expect(service.isEnabled('bulkImport')).toBe(true);
+    });
 
-  it('featureFlagSignal should reflect the current flag value', () => {
-    mockAppStore.setFeatures({ featureC: true });
-    const signal = service.featureFlagSignal('featureC');
-    expect(signal()).toBe(true);
+    it('should reject responses that are not a list of flags', () => {
+      service.start();
+      respond({ bulkImport: true } as unknown as FeatureFlag[]);
+
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(service.isLoaded()).toBe(false);
+    });
+
+    it('should emit whenLoaded after the first load attempt', () => {
+      const loaded = vi.fn();
+      service.start();
+      service.whenLoaded().subscribe(loaded);
+      expect(loaded).not.toHaveBeenCalled();
+
+      respond([]);
+
+      expect(loaded).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit whenLoaded right away when not started', () => {
+      const loaded = vi.fn();
+      service.whenLoaded().subscribe(loaded);
+      expect(loaded).toHaveBeenCalledTimes(1);
+    });
   });
 
-  it('featureFlagSignal should be false for missing flag', () => {
-    mockAppStore.setFeatures({});
-    const signal = service.featureFlagSignal('missingFeature');
-    expect(signal()).toBe(false);
+  describe('targeting', () => {
+    beforeEach(() => {
+      service.start();
+      respond([
+        { key: 'aiScreening', enabled: true, rules: [{ plans: ['enterprise'] }] },
+        { key: 'pipelineV2', enabled: true, rules: [{ roles: ['admin'] }] },
+        { key: 'stagingTools', enabled: true, rules: [{ environments: ['staging'] }] },
+        { key: 'newSearch', enabled: true, rules: [{ percentage: 100 }] },
+      ]);
+    });
+
+    it('should evaluate the rules against the current tenant, user and environment', () => {
+      expect(service.flags()).toEqual({
+        aiScreening: false,
+        pipelineV2: false,
+        stagingTools: false,
+        newSearch: true,
+      });
+    });
+
+    it('should update the flag signals when the tenant or user changes', () => {
+      const aiScreening = service.featureFlagSignal('aiScreening');
+      const pipelineV2 = service.featureFlagSignal('pipelineV2');
+
+      plan.set('enterprise');
+      roles.set(['admin']);
+
+      expect(aiScreening()).toBe(true);
+      expect(pipelineV2()).toBe(true);
+    });
+
+    it('should update the flag signals when the environment changes', () => {
+      const stagingTools = service.featureFlagSignal('stagingTools');
+      environment.set('staging');
+      expect(stagingTools()).toBe(true);
+    });
+
+    it('should return the same signal for the same key', () => {
+      expect(service.featureFlagSignal('newSearch')).toBe(service.featureFlagSignal('newSearch'));
+    });
   });
 
-  it('featureFlagSignal should be false when features is null', () => {
-    mockAppStore.setFeatures(null);
-    const signal = service.featureFlagSignal('anyFeature');
-    expect(signal()).toBe(false);
+  describe('sources', () => {
+    it('should fall back to the tenant toggles for flags the endpoint does not define', () => {
+      tenantFeatures.set({ bulkImport: true, aiScreening: true });
+      service.start();
+      respond([{ key: 'aiScreening', enabled: false }]);
+
+      expect(service.isEnabled('bulkImport')).toBe(true);
+      expect(service.isEnabled('aiScreening')).toBe(false);
+    });
+
+    it('should let local overrides win over the loaded flags', () => {
+      service.start();
+      respond([{ key: 'aiScreening', enabled: false }]);
+      const aiScreening = service.featureFlagSignal('aiScreening');
+
+      overrides.set({ aiScreening: true });
+
+      expect(aiScreening()).toBe(true);
+    });
+
+    it('should be false for unknown flags', () => {
+      expect(service.isEnabled('missingFeature')).toBe(false);
+      expect(service.featureFlagSignal('missingFeature')()).toBe(false);
+    });
   });
 });
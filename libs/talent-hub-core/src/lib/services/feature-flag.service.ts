@@ -8,126 +8,316 @@
  * @version 1.0.0
  */
 
-import { inject, Injectable, signal, Signal } from '@angular/core';
+import {
+  computed,
+  inject,
+  Injectable,
+  OnDestroy,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { EMPTY, interval, Observable, of, Subject, Subscription } from 'rxjs';
+import { catchError, exhaustMap, map, startWith, take, tap } from 'rxjs/operators';
 
-import { AppStore } from '../store';
+import { FeatureFlag, FeatureFlagConfig, FeatureFlagContext, ModuleLogger } from '../interfaces';
+import { AppStore, AuthStore, TenantStore } from '../store';
+import { FEATURE_FLAG_CONFIG } from '../tokens';
+import { FeatureFlagUtil } from '../utils';
+import { ApiService } from './api.service';
+import { LoggerService } from './logger.service';
 
 /**
- * FeatureFlagService - Provides feature flag checks using the global AppStore.
+ * Feature flag settings used when `FEATURE_FLAG_CONFIG` is not provided.
  *
- * This service acts as a facade over the AppStore's feature flag functionality,
- * providing a clean API for checking whether specific features are enabled.
- * Feature flags allow for controlled rollout of new features, A/B testing,
- * and environment-specific behavior.
+ * @internal
+ */
+const DEFAULT_FEATURE_FLAG_CONFIG: Required<FeatureFlagConfig> = {
+  endpoint: '/feature-flags',
+  refreshInterval: 300_000,
+};
+
+/**
+ * Module name of the service's logger.
+ *
+ * @internal
+ */
+const LOGGER_MODULE = 'feature-flags';
+
+/**
+ * FeatureFlagService - Single source of the feature flags of the application.
+ *
+ * Once started, the service loads the `FeatureFlag` list from the configured endpoint
+ * and loads it again periodically. The targeting rules of each flag (tenant plan, user
+ * roles, environment, percentage rollout) are evaluated in the browser against the
+ * current tenant and user, so flags follow sign-ins and tenant switches immediately.
  *
  * @remarks
- * - Feature flags are stored in the AppStore as a `Record<string, boolean>`.
- * - Use `isEnabled()` for one-time checks in logic or guards.
- * - Use `featureFlagSignal()` for reactive UI bindings that update when flags change.
- * - Keep feature flag keys as constants or enums for maintainability and refactoring.
- * - Designed for use across all micro-frontends (MFEs) for consistent feature toggling.
- * - Provided in root as a singleton service.
+ * **Sources:**
+ * Flags are merged from three sources, the later ones winning:
+ * 1. `TenantPreference.features` - tenant-level toggles, for keys the endpoint does not define.
+ * 2. The flags loaded from the endpoint, evaluated for the current user.
+ * 3. `AppStore.features` - local overrides set with `AppStore.setFeatures()` (development, tests).
+ *
+ * **Signals:**
+ * `flags` and the signals returned by `featureFlagSignal()` are computed, so they update
+ * whenever the flags are loaded again or the tenant, user or overrides change.
+ *
+ * **Errors:**
+ * When the flags cannot be loaded, the last loaded flags are kept and a warning is logged.
  *
  * @example
  * ```typescript
- * // Inject the service
- * private readonly featureFlags = inject(FeatureFlagService);
- *
- * // Check if a feature is enabled (imperative)
- * if (this.featureFlags.isEnabled('newDashboard')) {
- *   this.loadNewDashboard();
- * } else {
- *   this.loadLegacyDashboard();
- * }
+ * // app.config.ts
+ * provideFeatureFlagConfig({ endpoint: '/api/feature-flags' }),
+ * provideAppInitializer(() => {
+ *   inject(FeatureFlagService).start();
+ * }),
  *
- * // Use in a template with a signal (reactive)
- * readonly showBetaFeatures = this.featureFlags.featureFlagSignal('betaFeatures');
+ * // Component
+ * private readonly featureFlags = inject(FeatureFlagService);
+ * readonly showAiScreening = this.featureFlags.featureFlagSignal('aiScreening');
  *
- * // In template:
- * // @if (showBetaFeatures()) {
- * //   <app-beta-panel />
+ * // @if (showAiScreening()) {
+ * //   <app-ai-screening />
  * // }
  * ```
  *
- * @see AppStore
+ * @see FeatureFlag
+ * @see FeatureFlagConfig
+ * @see featureFlagGuard
  * @publicApi
  */
 @Injectable({ providedIn: 'root' })
-export class FeatureFlagService {
+export class FeatureFlagService implements OnDestroy {
+  /** @internal HTTP client wrapper used to load the flags. */
+  private readonly api: ApiService = inject(ApiService);
+
+  /** @internal Source of the environment and of the local overrides. */
+  private readonly appStore = inject(AppStore);
+
+  /** @internal Source of the user id and roles. */
+  private readonly authStore = inject(AuthStore);
+
+  /** @internal Source of the tenant plan and of the tenant-level toggles. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Logger for flags that cannot be loaded. */
+  private readonly logger: ModuleLogger = inject(LoggerService).createLogger(LOGGER_MODULE);
+
   /**
-   * Reference to the global AppStore (NgRx Signal Store).
-   * Used to access feature flags from the application state.
+   * Effective feature flag configuration (provided values merged over defaults).
    * @internal
    */
-  private readonly appStore = inject(AppStore);
+  private readonly config: Required<FeatureFlagConfig> = {
+    ...DEFAULT_FEATURE_FLAG_CONFIG,
+    ...inject(FEATURE_FLAG_CONFIG, { optional: true }),
+  };
+
+  /** @internal Flags loaded from the endpoint, or `null` before the first load. */
+  private readonly definitions: WritableSignal<FeatureFlag[] | null> = signal(null);
+
+  /** @internal Emits after every load attempt, successful or not. */
+  private readonly loads = new Subject<void>();
+
+  /** @internal Signal of each flag, by key, shared between callers. */
+  private readonly flagSignals = new Map<string, Signal<boolean>>();
+
+  /** @internal Subscription to the periodic loads, while started. */
+  private subscription: Subscription | null = null;
+
+  /** @internal Current tenant plan, roles, environment and user id. */
+  private readonly context: Signal<FeatureFlagContext> = computed(
+    (): FeatureFlagContext => ({
+      plan: this.tenantStore.tenantPlan(),
+      roles: this.authStore.userRoles(),
+      environment: this.appStore.currentEnvironment(),
+      userId: this.authStore.userId(),
+    }),
+  );
 
   /**
-   * Returns a signal for the feature flag value (reactive).
+   * Read-only signal that is `true` once the flags have been loaded from the endpoint.
    *
-   * Creates a new signal that reflects the current state of the specified feature flag.
-   * Use this method when you need reactive updates in templates or computed values.
+   * @example
+   * ```typescript
+   * // @if (featureFlags.isLoaded()) { ... }
+   * ```
+   */
+  readonly isLoaded: Signal<boolean> = computed((): boolean => this.definitions() !== null);
+
+  /**
+   * Computed signal with the state of every known flag, by key.
    *
-   * @param key - The feature flag key to observe (e.g., 'newDashboard', 'darkMode').
-   * @returns A `Signal<boolean>` that emits `true` if the feature is enabled, `false` otherwise.
+   * @example
+   * ```typescript
+   * const enabledKeys = Object.keys(this.featureFlags.flags()).filter(
+   *   (key) => this.featureFlags.flags()[key],
+   * );
+   * ```
+   */
+  readonly flags: Signal<Record<string, boolean>> = computed((): Record<string, boolean> => {
+    const context: FeatureFlagContext = this.context();
+    const loaded: Record<string, boolean> = {};
+    for (const flag of this.definitions() ?? []) {
+      loaded[flag.key] = FeatureFlagUtil.isOn(flag, context);
+    }
+    return {
+      ...this.tenantStore.tenantFeatures(),
+      ...loaded,
+      ...this.appStore.features(),
+    };
+  });
+
+  /**
+   * Starts loading the flags, now and then every `refreshInterval`.
    *
-   * @remarks
-   * - The returned signal is created at call time with the current flag value.
-   * - For truly reactive behavior that updates when flags change, consider using
-   *   a computed signal with `this.appStore.isFeatureEnabled(key)` directly.
+   * Calling `start()` again has no effect.
    *
    * @example
    * ```typescript
-   * // Create a reactive signal for template binding
-   * readonly isDarkModeEnabled = this.featureFlags.featureFlagSignal('darkMode');
+   * provideAppInitializer(() => {
+   *   inject(FeatureFlagService).start();
+   * }),
+   * ```
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+    const { refreshInterval } = this.config;
+    this.subscription = (refreshInterval > 0 ? interval(refreshInterval) : EMPTY)
+      .pipe(
+        startWith(0),
+        exhaustMap((): Observable<void> => this.load()),
+      )
+      .subscribe();
+  }
+
+  /**
+   * Stops loading the flags. The last loaded flags are kept.
    *
-   * // Use in template
-   * // @if (isDarkModeEnabled()) {
-   * //   <app-dark-theme />
-   * // }
+   * @example
+   * ```typescript
+   * this.featureFlags.stop();
+   * ```
+   */
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Loads the flags now, e.g., after an administrator changed them.
+   *
+   * @example
+   * ```typescript
+   * this.adminApi.saveFlag(flag).subscribe(() => this.featureFlags.refresh());
+   * ```
+   */
+  refresh(): void {
+    this.load().subscribe();
+  }
+
+  /**
+   * Emits once the flags can be checked: after their first load attempt, or right away
+   * when they are already loaded or the service was not started.
+   *
+   * @returns An Observable that emits once and completes.
+   *
+   * @example
+   * ```typescript
+   * this.featureFlags.whenLoaded().subscribe(() => this.initialize());
+   * ```
+   */
+  whenLoaded(): Observable<void> {
+    if (this.isLoaded() || !this.subscription) {
+      return of(undefined);
+    }
+    return this.loads.pipe(take(1));
+  }
+
+  /**
+   * Returns a signal with the state of a flag.
+   *
+   * The signal is computed: it updates when the flags are loaded again or the tenant,
+   * user or overrides change. Calls with the same key return the same signal.
+   *
+   * @param key - The feature flag key to observe (e.g., 'newDashboard', 'darkMode').
+   * @returns A `Signal<boolean>` that is `true` while the feature is enabled.
+   *
+   * @example
+   * ```typescript
+   * readonly isDarkModeEnabled = this.featureFlags.featureFlagSignal('darkMode');
    *
-   * // Use in computed
    * readonly themeClass = computed(() =>
    *   this.isDarkModeEnabled() ? 'dark-theme' : 'light-theme'
    * );
    * ```
    */
   featureFlagSignal(key: string): Signal<boolean> {
-    return signal(this.appStore.isFeatureEnabled(key));
+    let flag: Signal<boolean> | undefined = this.flagSignals.get(key);
+    if (!flag) {
+      flag = computed((): boolean => this.flags()[key] ?? false);
+      this.flagSignals.set(key, flag);
+    }
+    return flag;
   }
 
   /**
    * Checks if a feature flag is enabled.
    *
-   * Performs a one-time lookup of the feature flag in the AppStore.
-   * Use this method for imperative checks in services, guards, or lifecycle hooks.
+   * Use this method for imperative checks in services, guards, or lifecycle hooks; it
+   * registers a dependency when called inside `computed()` or `effect()`.
    *
    * @param key - The feature flag key to check (e.g., 'analyticsV2', 'experimentalApi').
    * @returns `true` if the feature is enabled, `false` if disabled or not defined.
    *
    * @example
    * ```typescript
-   * // Check in a service method
    * loadData(): Observable<Data[]> {
    *   if (this.featureFlags.isEnabled('newApiEndpoint')) {
    *     return this.http.get<Data[]>('/api/v2/data');
    *   }
    *   return this.http.get<Data[]>('/api/v1/data');
    * }
-   *
-   * // Check in a route guard
-   * canActivate(): boolean {
-   *   return this.featureFlags.isEnabled('premiumFeatures');
-   * }
-   *
-   * // Conditional component initialization
-   * ngOnInit(): void {
-   *   if (this.featureFlags.isEnabled('advancedAnalytics')) {
-   *     this.initializeAnalytics();
-   *   }
-   * }
    * ```
    */
   isEnabled(key: string): boolean {
-    return this.appStore.isFeatureEnabled(key);
+    return this.flags()[key] ?? false;
+  }
+
+  /**
+   * Stops loading the flags when the application is destroyed.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.stop();
+    this.loads.complete();
+  }
+
+  /**
+   * Loads the flags from the endpoint, keeping the last ones on failure.
+   *
+   * @returns An Observable that completes once the flags are loaded or failed to load.
+   * @internal
+   */
+  private load(): Observable<void> {
+    return this.api.get<FeatureFlag[]>(this.config.endpoint).pipe(
+      map((flags: FeatureFlag[]): void => {
+        if (!Array.isArray(flags)) {
+          throw new TypeError('Expected a list of feature flags');
+        }
+        this.definitions.set(
+          flags.filter((flag: FeatureFlag): boolean => typeof flag?.key === 'string'),
+        );
+      }),
+      catchError((error: unknown): Observable<void> => {
+        this.logger.warn('Could not load the feature flags', error);
+        return of(undefined);
+      }),
+      tap((): void => this.loads.next()),
+    );
   }
 }
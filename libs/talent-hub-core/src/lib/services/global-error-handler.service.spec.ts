@@ -0,0 +1,284 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Injector, runInInjectionContext } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Router } from '@angular/router';
+
+import { BreadcrumbService, GlobalErrorHandler, LoggerService } from '../services';
+import { Breadcrumb, ErrorReport } from '../interfaces';
+import { ApiError } from '../models';
+import { ERROR_HANDLER_CONFIG } from '../tokens';
+
+describe('GlobalErrorHandler', () => {
+  let handler: GlobalErrorHandler;
+  let route: string | null;
+  let mockLogger: { error: ReturnType<typeof vi.fn> };
+  let mockRouter: {
+    url: string;
+    navigated: boolean;
+    config: { path: string; data?: Record<string, unknown> }[];
+    navigateByUrl: ReturnType<typeof vi.fn>;
+  };
+  const breadcrumbs: Breadcrumb[] = [
+    { type: 'click', message: 'button "Save"', timestamp: '2026-03-02T08:59:59.000Z' },
+  ];
+
+  function createHandler(providers: { provide: unknown; useValue: unknown }[] = []) {
+    const injector = Injector.create({
+      providers: [
+        { provide: LoggerService, useValue: { createLogger: vi.fn(() => mockLogger) } },
+        {
+          provide: BreadcrumbService,
+          useValue: { currentRoute: () => route, getBreadcrumbs: () => breadcrumbs },
+        },
+        { provide: Router, useValue: mockRouter },
+        ...providers,
+      ],
+    });
+    return runInInjectionContext(injector, () => new GlobalErrorHandler());
+  }
+
+  function createError(message: string, frame = 'at CandidateCard.ngOnInit (card.ts:10:5)') {
+    const error = new TypeError(message);
+    error.stack = `TypeError: ${message}\n    ${frame}\n    at callHook (core.mjs:1:1)`;
+    return error;
+  }
+
+  const reports = (): ErrorReport[] =>
+    mockLogger.error.mock.calls.map(([, report]) => report as ErrorReport);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    route = '/candidates/42';
+    mockLogger = { error: vi.fn() };
+    mockRouter = {
+      url: '/candidates/42',
+      navigated: true,
+      config: [
+        { path: '', data: {} },
+        { path: 'candidates', data: { remote: 'talent-hub-candidate' } },
+      ],
+      navigateByUrl: vi.fn().mockResolvedValue(true),
+    };
+    handler = createHandler();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('reporting', () => {
+    it('should report the error with its stack, route, remote and breadcrumbs', () => {
+      const error = createError("Cannot read properties of undefined (reading 'id')");
+      handler.handleError(error);
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        "Uncaught TypeError: Cannot read properties of undefined (reading 'id')",
+        {
+          id: expect.any(String),
+          fingerprint:
+            "TypeError|Cannot read properties of undefined (reading 'id')|" +
+            'at CandidateCard.ngOnInit (card.ts:10:5)',
+          name: 'TypeError',
+          message: "Cannot read properties of undefined (reading 'id')",
+          stack: error.stack,
+          route: '/candidates/42',
+          remote: 'talent-hub-candidate',
+          breadcrumbs,
+          occurrences: 1,
+          timestamp: '2026-03-02T09:00:00.000Z',
+        },
+      );
+    });
+
+    it('should not name a remote for host routes', () => {
+      route = '/settings?tab=profile';
+      handler.handleError(new Error('boom'));
+
+      expect(reports()[0].remote).toBeNull();
+      expect(reports()[0].route).toBe('/settings?tab=profile');
+    });
+
+    it('should unwrap unhandled promise rejections', () => {
+      handler.handleError({ rejection: createError('Async failure') });
+
+      expect(reports()[0]).toMatchObject({ name: 'TypeError', message: 'Async failure' });
+    });
+
+    it('should report thrown values that are not errors', () => {
+      handler.handleError('Something bad');
+
+      expect(reports()[0]).toMatchObject({ name: 'Error', message: 'Something bad', stack: null });
+    });
+
+    it('should fall back to the console when logging fails', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockLogger.error.mockImplementation(() => {
+        throw new Error('Logger down');
+      });
+
+      expect(() => handler.handleError(new Error('boom'))).not.toThrow();
+      expect(consoleError).toHaveBeenCalled();
+    });
+  });
+
+  describe('deduplication', () => {
+    it('should report the same error once per dedupe window and count repeats', () => {
+      handler.handleError(createError('Flaky'));
+      handler.handleError(createError('Flaky'));
+      handler.handleError(createError('Flaky'));
+      expect(mockLogger.error).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(60_000);
+      handler.handleError(createError('Flaky'));
+
+      expect(reports().map((report) => report.occurrences)).toEqual([1, 3]);
+    });
+
+    it('should report errors thrown from different places separately', () => {
+      handler.handleError(createError('Flaky', 'at A (a.ts:1:1)'));
+      handler.handleError(createError('Flaky', 'at B (b.ts:1:1)'));
+
+      expect(mockLogger.error).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the configured dedupe window', () => {
+      handler = createHandler([{ provide: ERROR_HANDLER_CONFIG, useValue: { dedupeWindow: 0 } }]);
+      handler.handleError(createError('Flaky'));
+      handler.handleError(createError('Flaky'));
+
+      expect(mockLogger.error).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('skipped errors', () => {
+    it('should skip ApiError, already logged by the interceptor', () => {
+      handler.handleError(new ApiError(new HttpErrorResponse({ status: 500 })));
+
+      expect(mockLogger.error).not.toHaveBeenCalled();
+      expect(handler.crash()).toBeNull();
+    });
+
+    it('should report other HTTP errors without showing the error screen', () => {
+      handler.handleError(new HttpErrorResponse({ status: 500, url: '/api/x' }));
+
+      expect(mockLogger.error).toHaveBeenCalledTimes(1);
+      expect(handler.crash()).toBeNull();
+    });
+
+    it('should ignore the default and configured errors', () => {
+      handler.handleError(
+        new Error('ResizeObserver loop completed with undelivered notifications'),
+      );
+      expect(mockLogger.error).not.toHaveBeenCalled();
+
+      handler = createHandler([
+        { provide: ERROR_HANDLER_CONFIG, useValue: { ignoredErrors: ['Script error'] } },
+      ]);
+      handler.handleError(new Error('Script error.'));
+
+      expect(mockLogger.error).not.toHaveBeenCalled();
+      expect(handler.crash()).toBeNull();
+    });
+  });
+
+  describe('error screen', () => {
+    const chunkLoadError = 'Failed to fetch dynamically imported module: /remote-entry.js';
+
+    it('should only report errors of a rendered page', () => {
+      handler.handleError(createError('Widget failure'));
+
+      expect(mockLogger.error).toHaveBeenCalledTimes(1);
+      expect(handler.crash()).toBeNull();
+    });
+
+    it('should show errors before the first navigation ended', () => {
+      mockRouter.navigated = false;
+      handler.handleError(createError('Bootstrap failure'));
+
+      expect(handler.crash()?.message).toBe('Bootstrap failure');
+    });
+
+    it('should show errors of a navigation that did not end', () => {
+      mockRouter.url = '/dashboard';
+      handler.handleError(createError('Resolver failure'));
+
+      expect(handler.crash()?.message).toBe('Resolver failure');
+    });
+
+    it('should show chunks that cannot be loaded', () => {
+      handler.handleError(createError(chunkLoadError));
+
+      expect(handler.crash()?.message).toBe(chunkLoadError);
+    });
+
+    it('should show repeated errors within the crash window', () => {
+      for (let i = 0; i < 4; i++) {
+        handler.handleError(createError('Flaky'));
+      }
+      expect(handler.crash()).toBeNull();
+
+      handler.handleError(createError('Flaky'));
+      expect(handler.crash()?.message).toBe('Flaky');
+    });
+
+    it('should not count errors outside the crash window', () => {
+      for (let i = 0; i < 5; i++) {
+        handler.handleError(createError('Flaky'));
+        vi.advanceTimersByTime(2_500);
+      }
+
+      expect(handler.crash()).toBeNull();
+    });
+
+    it('should use the configured crash threshold and window', () => {
+      handler = createHandler([
+        { provide: ERROR_HANDLER_CONFIG, useValue: { crashThreshold: 2, crashWindow: 1_000 } },
+      ]);
+      handler.handleError(createError('Flaky'));
+      vi.advanceTimersByTime(1_000);
+      handler.handleError(createError('Flaky'));
+      expect(handler.crash()).toBeNull();
+
+      handler.handleError(createError('Flaky'));
+      expect(handler.crash()).not.toBeNull();
+    });
+
+    it('should set the crash for every fatal occurrence', () => {
+      handler.handleError(createError(chunkLoadError));
+      const first = handler.crash();
+      handler.handleError(createError(chunkLoadError));
+
+      expect(first?.message).toBe(chunkLoadError);
+      expect(handler.crash()).not.toBe(first);
+      expect(handler.crash()?.message).toBe(chunkLoadError);
+    });
+
+    it('should clear the crash and render the current page again on recover()', () => {
+      handler.handleError(createError(chunkLoadError));
+      handler.recover();
+
+      expect(handler.crash()).toBeNull();
+      expect(mockRouter.navigateByUrl).not.toHaveBeenCalled();
+    });
+
+    it('should retry the navigation the error interrupted on recover()', () => {
+      mockRouter.url = '/dashboard';
+      handler.handleError(new Error('Failed to load remote'));
+      handler.recover();
+
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/candidates/42');
+    });
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  ErrorHandler,
+  inject,
+  Injectable,
+  Injector,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { v4 } from 'uuid';
+
+import { ErrorHandlerConfig, ErrorReport, ModuleLogger } from '../interfaces';
+import { ApiError } from '../models';
+import { ERROR_HANDLER_CONFIG } from '../tokens';
+import { RouteUtil } from '../utils';
+import { BreadcrumbService } from './breadcrumb.service';
+import { LoggerService } from './logger.service';
+
+/**
+ * Error handler settings used when `ERROR_HANDLER_CONFIG` is not provided.
+ *
+ * `maxBreadcrumbs` is applied by `BreadcrumbService`.
+ *
+ * @internal
+ */
+const DEFAULT_ERROR_HANDLER_CONFIG: Required<Omit<ErrorHandlerConfig, 'maxBreadcrumbs'>> = {
+  dedupeWindow: 60_000,
+  ignoredErrors: [/ResizeObserver loop/],
+  crashThreshold: 5,
+  crashWindow: 10_000,
+};
+
+/**
+ * Messages of errors thrown when a lazy-loaded chunk or remote entry cannot be fetched,
+ * in Chrome, Firefox, Safari and webpack builds.
+ *
+ * @internal
+ */
+const CHUNK_LOAD_ERROR =
+  /ChunkLoadError|Loading chunk [\w-]+ failed|Failed to fetch dynamically imported module|error loading dynamically imported module|Importing a module script failed/i;
+
+/**
+ * Module name of the entries logged for uncaught errors.
+ *
+ * @internal
+ */
+const LOGGER_MODULE = 'global-error-handler';
+
+/**
+ * Fingerprint state of an error reported within the dedupe window.
+ *
+ * @internal
+ */
+interface ReportedError {
+  /** Time the error was last reported, in milliseconds since epoch. */
+  reportedAt: number;
+
+  /** Number of occurrences since then that were not reported. */
+  suppressed: number;
+}
+
+/**
+ * GlobalErrorHandler - Reports uncaught errors and shows a recoverable error screen.
+ *
+ * Replaces Angular's default `ErrorHandler`, which only writes to the console. Together
+ * with `provideBrowserGlobalErrorListeners()`, it receives the uncaught exceptions and
+ * unhandled promise rejections of the host and of every remote. Each error is turned into
+ * an `ErrorReport` with its stack, the current route, the remote that route belongs to and
+ * the breadcrumbs from `BreadcrumbService`, and logged as an `error` entry through
+ * `LoggerService`, which sends it to the log endpoint.
+ *
+ * @remarks
+ * **Deduplication:**
+ * Errors with the same fingerprint (name, message and top stack frame) are reported once
+ * per `dedupeWindow`. Later occurrences are counted, and the count is sent with the next
+ * report of the error as `occurrences`.
+ *
+ * **Error Screen:**
+ * `crash` holds the last error the application may not have recovered from. The host
+ * renders an error screen instead of the router outlet while it is set; `recover()`
+ * clears it and retries the navigation the error interrupted. Only fatal errors set it:
+ * - Errors before the first navigation ended (bootstrap, first page).
+ * - Errors of a navigation that did not end, e.g. a failing guard or resolver.
+ * - Chunks and remote entries that cannot be loaded.
+ * - `crashThreshold` errors (default 5) within `crashWindow` (default 10 seconds).
+ *
+ * Other errors, e.g. in the template of one widget, are only reported, so that the rest
+ * of the page keeps working.
+ *
+ * **Skipped Errors:**
+ * - `ApiError` - Already logged and published by `errorHandlingInterceptor`.
+ * - Other `HttpErrorResponse` - Reported, but never show the error screen.
+ * - Errors matching `ignoredErrors` - Neither reported nor shown.
+ *
+ * **Remote Name:**
+ * The remote is read from the `remote` route data of the host's top-level routes:
+ * `{ path: 'candidates', data: { remote: 'talent-hub-candidate' }, loadChildren }`.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * providers: [
+ *   provideBrowserGlobalErrorListeners(),
+ *   { provide: ErrorHandler, useExisting: GlobalErrorHandler },
+ *   provideAppInitializer(() => {
+ *     inject(BreadcrumbService).start();
+ *   }),
+ * ],
+ *
+ * // app.component.html
+ * @if (errorHandler.crash()) {
+ *   <th-error-screen></th-error-screen>
+ * } @else {
+ *   <router-outlet></router-outlet>
+ * }
+ * ```
+ *
+ * @see ErrorReport
+ * @see ErrorHandlerConfig
+ * @see BreadcrumbService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class GlobalErrorHandler implements ErrorHandler {
+  /** @internal Logger the reports are written to. */
+  private readonly logger: ModuleLogger = inject(LoggerService).createLogger(LOGGER_MODULE);
+
+  /** @internal Source of the breadcrumbs and current route. */
+  private readonly breadcrumbs: BreadcrumbService = inject(BreadcrumbService);
+
+  /**
+   * Injector used to resolve `Router` on use, since the router depends on `ErrorHandler`.
+   * @internal
+   */
+  private readonly injector: Injector = inject(Injector);
+
+  /**
+   * Effective error handler configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<Omit<ErrorHandlerConfig, 'maxBreadcrumbs'>> = {
+    ...DEFAULT_ERROR_HANDLER_CONFIG,
+    ...inject(ERROR_HANDLER_CONFIG, { optional: true }),
+  };
+
+  /** @internal Errors reported within the dedupe window, by fingerprint. */
+  private readonly reported = new Map<string, ReportedError>();
+
+  /** @internal Times of the uncaught errors within the crash window, oldest first. */
+  private recentErrors: number[] = [];
+
+  /** @internal Writable state behind `crash`. */
+  private readonly _crash: WritableSignal<ErrorReport | null> = signal(null);
+
+  /**
+   * Read-only signal with the last error that should be shown on the error screen, or
+   * `null` while the application runs normally.
+   *
+   * @example
+   * ```typescript
+   * // <p>Error id: {{ errorHandler.crash()?.id }}</p>
+   * ```
+   */
+  readonly crash: Signal<ErrorReport | null> = this._crash.asReadonly();
+
+  /**
+   * Reports an uncaught error, and shows the error screen for it if it is fatal.
+   *
+   * Called by Angular; never throws.
+   *
+   * @param error - The thrown value, or the rejection wrapper of an unhandled promise.
+   *
+   * @example
+   * ```typescript
+   * // Report an error caught by the application, without rethrowing it
+   * inject(ErrorHandler).handleError(error);
+   * ```
+   */
+  handleError(error: unknown): void {
+    try {
+      const unwrapped: unknown = unwrapRejection(error);
+      if (unwrapped instanceof ApiError || this.isIgnored(unwrapped)) {
+        return;
+      }
+
+      const report: ErrorReport = this.createReport(unwrapped);
+      if (!(unwrapped instanceof HttpErrorResponse) && this.isFatal(report)) {
+        this._crash.set(report);
+      }
+      this.report(report);
+    } catch (handlingError) {
+      console.error(error, handlingError);
+    }
+  }
+
+  /**
+   * Hides the error screen and retries the navigation the error interrupted.
+   *
+   * If the error occurred on the current page, the page is rendered again.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="errorHandler.recover()">Try again</button>
+   * ```
+   */
+  recover(): void {
+    const report: ErrorReport | null = this._crash();
+    this._crash.set(null);
+
+    const router: Router | null = this.injector.get(Router, null);
+    if (router && report?.route && report.route !== router.url) {
+      void router.navigateByUrl(report.route);
+    }
+  }
+
+  /**
+   * Returns whether an error leaves the application in a state it may not recover from.
+   *
+   * @param report - The report of the error.
+   * @internal
+   */
+  private isFatal(report: ErrorReport): boolean {
+    const now: number = Date.now();
+    this.recentErrors = [
+      ...this.recentErrors.filter((time: number): boolean => now - time < this.config.crashWindow),
+      now,
+    ];
+
+    const router: Router | null = this.injector.get(Router, null);
+    return (
+      // Nothing was rendered yet: bootstrap or first navigation
+      (router !== null && !router.navigated) ||
+      // The navigation to the route of the error did not end
+      (router !== null && report.route !== null && report.route !== router.url) ||
+      report.name === 'ChunkLoadError' ||
+      CHUNK_LOAD_ERROR.test(report.message) ||
+      this.recentErrors.length >= this.config.crashThreshold
+    );
+  }
+
+  /**
+   * Logs a report, unless the same error was reported within the dedupe window.
+   *
+   * @param report - The report of the current occurrence.
+   * @internal
+   */
+  private report(report: ErrorReport): void {
+    const now: number = Date.now();
+    const previous: ReportedError | undefined = this.reported.get(report.fingerprint);
+    if (previous && now - previous.reportedAt < this.config.dedupeWindow) {
+      previous.suppressed++;
+      return;
+    }
+
+    for (const [fingerprint, reported] of this.reported) {
+      if (now - reported.reportedAt >= this.config.dedupeWindow) {
+        this.reported.delete(fingerprint);
+      }
+    }
+    this.reported.set(report.fingerprint, { reportedAt: now, suppressed: 0 });
+
+    try {
+      this.logger.error(`Uncaught ${report.name}: ${report.message}`, {
+        ...report,
+        occurrences: (previous?.suppressed ?? 0) + 1,
+      });
+    } catch (loggingError) {
+      console.error(report, loggingError);
+    }
+  }
+
+  /**
+   * Creates the report of an error.
+   *
+   * @param error - The unwrapped error.
+   * @returns The report of this occurrence alone.
+   * @internal
+   */
+  private createReport(error: unknown): ErrorReport {
+    const name: string = error instanceof Error ? error.name : 'Error';
+    const message: string = errorMessage(error);
+    const stack: string | null = error instanceof Error ? (error.stack ?? null) : null;
+    const fingerprint = `${name}|${message}|${topStackFrame(stack)}`;
+    const route: string | null = this.breadcrumbs.currentRoute();
+
+    return {
+      id: v4(),
+      fingerprint,
+      name,
+      message,
+      stack,
+      route,
+      remote: RouteUtil.findRemote(this.injector.get(Router, null)?.config ?? [], route),
+      breadcrumbs: this.breadcrumbs.getBreadcrumbs(),
+      occurrences: 1,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Returns whether an error matches one of the ignored errors.
+   *
+   * @param error - The unwrapped error.
+   * @internal
+   */
+  private isIgnored(error: unknown): boolean {
+    const message: string = errorMessage(error);
+    return this.config.ignoredErrors.some((ignored: string | RegExp): boolean =>
+      typeof ignored === 'string' ? message.includes(ignored) : ignored.test(message),
+    );
+  }
+}
+
+/**
+ * Returns the reason of an unhandled promise rejection wrapped by Zone.js, or the error.
+ *
+ * @param error - The value passed to `handleError()`.
+ * @internal
+ */
+function unwrapRejection(error: unknown): unknown {
+  const rejection: unknown = (error as { rejection?: unknown } | null)?.rejection;
+  return rejection ?? error;
+}
+
+/**
+ * Returns the message of an error of any type.
+ *
+ * @param error - The error.
+ * @internal
+ */
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  const message: unknown = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' ? message : String(error);
+}
+
+/**
+ * Returns the first frame of a stack trace, in the Chrome (`at ...`) or Firefox
+ * (`fn@url`) format.
+ *
+ * @param stack - The stack trace.
+ * @returns The trimmed frame, or an empty string.
+ * @internal
+ */
+function topStackFrame(stack: string | null): string {
+  return (
+    stack
+      ?.split('\n')
+      .slice(1)
+      .find((line: string): boolean => /^\s*at\s|@/.test(line))
+      ?.trim() ?? ''
+  );
+}
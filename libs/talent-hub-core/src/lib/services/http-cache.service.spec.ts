@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { HttpResponse } from '@angular/common/http';
+import { Injector, runInInjectionContext, signal } from '@angular/core';
+
+import { HttpCacheService } from '../services';
+import { AuthStore, TenantStore } from '../store';
+import { CACHE_CONFIG } from '../tokens';
+
+describe('HttpCacheService', () => {
+  let service: HttpCacheService;
+  let userId: ReturnType<typeof signal<string>>;
+  let tenantId: ReturnType<typeof signal<string | null>>;
+  const response = new HttpResponse({ body: ['ann'] });
+
+  function createService(maxEntries?: number): HttpCacheService {
+    const injector = Injector.create({
+      providers: [
+        { provide: AuthStore, useValue: { userId } },
+        { provide: TenantStore, useValue: { tenantId } },
+        ...(maxEntries ? [{ provide: CACHE_CONFIG, useValue: { maxEntries } }] : []),
+      ],
+    });
+    return runInInjectionContext(injector, () => new HttpCacheService());
+  }
+
+  beforeEach(() => {
+    userId = signal('user-1');
+    tenantId = signal<string | null>('acme');
+    service = createService();
+  });
+
+  it('should store and return responses with their tags', () => {
+    service.set('/api/candidates', response, ['candidates']);
+
+    expect(service.get('/api/candidates')).toEqual(
+      expect.objectContaining({ response, tags: ['candidates'] }),
+    );
+    expect(service.get('/api/other')).toBeNull();
+  });
+
+  it('should ignore error responses', () => {
+    service.set('/api/candidates', new HttpResponse({ status: 500 }));
+
+    expect(service.size).toBe(0);
+  });
+
+  it('should scope entries to the current tenant and user', () => {
+    service.set('/api/candidates', response);
+    expect(service.scope()).toBe('acme:user-1');
+
+    userId.set('user-2');
+    expect(service.get('/api/candidates')).toBeNull();
+
+    userId.set('user-1');
+    tenantId.set(null);
+    expect(service.get('/api/candidates')).toBeNull();
+  });
+
+  it('should evict the least recently used entry', () => {
+    service = createService(2);
+    service.set('/a', response);
+    service.set('/b', response);
+    service.get('/a');
+    service.set('/c', response);
+
+    expect(service.get('/a')).not.toBeNull();
+    expect(service.get('/b')).toBeNull();
+    expect(service.size).toBe(2);
+  });
+
+  it('should invalidate tags in every scope', () => {
+    service.set('/api/candidates', response, ['candidates']);
+    service.set('/api/requisitions', response, ['requisitions']);
+    userId.set('user-2');
+    service.set('/api/candidates', response, ['candidates']);
+
+    service.invalidate('candidates');
+
+    expect(service.size).toBe(1);
+    userId.set('user-1');
+    expect(service.get('/api/requisitions')).not.toBeNull();
+  });
+
+  it('should delete and clear entries', () => {
+    service.set('/a', response);
+    service.set('/b', response);
+
+    service.delete('/a');
+    expect(service.get('/a')).toBeNull();
+
+    service.clear();
+    expect(service.size).toBe(0);
+  });
+});
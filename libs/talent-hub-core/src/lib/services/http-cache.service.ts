@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { computed, inject, Injectable, Signal } from '@angular/core';
+import { HttpResponse } from '@angular/common/http';
+
+import { HttpCacheEntry } from '../interfaces';
+import { AuthStore, TenantStore } from '../store';
+import { CACHE_CONFIG } from '../tokens';
+
+/**
+ * Number of cached responses kept when `CACHE_CONFIG.maxEntries` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_MAX_ENTRIES = 100;
+
+/**
+ * HttpCacheService - In-memory store of the responses cached by `CacheInterceptor`.
+ *
+ * Entries are kept per tenant and user: a response cached for one account is never
+ * returned to another one, even in the same tab. The store holds at most
+ * `CacheConfig.maxEntries` responses and evicts the least recently used first.
+ *
+ * @remarks
+ * - Entries are keyed by URL with query parameters, within the current scope.
+ * - `invalidate()` evicts entries by tag in every scope, so a change made by one
+ *   account never leaves stale data for another.
+ * - The store lives in memory and is lost on page reload.
+ *
+ * @example
+ * ```typescript
+ * private readonly httpCache = inject(HttpCacheService);
+ *
+ * // After a change made outside ApiService (e.g., a WebSocket event)
+ * this.httpCache.invalidate('candidates');
+ *
+ * // On sign-out
+ * this.httpCache.clear();
+ * ```
+ *
+ * @see CacheInterceptor
+ * @see HttpCacheEntry
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class HttpCacheService {
+  /** @internal Source of the current user. */
+  private readonly authStore = inject(AuthStore);
+
+  /** @internal Source of the current tenant. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Maximum number of entries before the least recently used is evicted. */
+  private readonly maxEntries: number =
+    inject(CACHE_CONFIG, { optional: true })?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+  /**
+   * Cached responses by scoped key, from least to most recently used.
+   * @internal
+   */
+  private readonly entries = new Map<string, HttpCacheEntry>();
+
+  /**
+   * Scope of the cache entries: the current tenant and user.
+   *
+   * @example
+   * ```typescript
+   * this.httpCache.scope(); // 'acme:user-42'
+   * ```
+   */
+  readonly scope: Signal<string> = computed(
+    (): string => `${this.tenantStore.tenantId() ?? ''}:${this.authStore.userId()}`,
+  );
+
+  /**
+   * Number of cached responses, in every scope.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns the cached response for a URL in the current scope.
+   *
+   * Marks the entry as the most recently used.
+   *
+   * @param url - URL with query parameters.
+   * @returns The entry, or `null` if the URL is not cached.
+   *
+   * @example
+   * ```typescript
+   * const entry = this.httpCache.get('/api/candidates?page=1');
+   * ```
+   */
+  get(url: string): HttpCacheEntry | null {
+    const key: string = this.getKey(url);
+    const entry: HttpCacheEntry | undefined = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Caches a successful response for a URL in the current scope.
+   *
+   * Evicts the least recently used entries beyond `maxEntries`. Error responses are
+   * ignored.
+   *
+   * @param url - URL with query parameters.
+   * @param response - The response to cache.
+   * @param tags - Invalidation tags of the response.
+   *
+   * @example
+   * ```typescript
+   * this.httpCache.set('/api/candidates', response, ['candidates']);
+   * ```
+   */
+  set(url: string, response: HttpResponse<unknown>, tags: string[] = []): void {
+    if (!response.ok) {
+      return;
+    }
+    const key: string = this.getKey(url);
+    this.entries.delete(key);
+    this.entries.set(key, { response, storedAt: Date.now(), tags });
+    while (this.entries.size > Math.max(0, this.maxEntries)) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Removes the cached response for a URL in the current scope.
+   *
+   * @param url - URL with query parameters.
+   *
+   * @example
+   * ```typescript
+   * this.httpCache.delete('/api/candidates/42');
+   * ```
+   */
+  delete(url: string): void {
+    this.entries.delete(this.getKey(url));
+  }
+
+  /**
+   * Evicts every cached response carrying one of the tags, in every scope.
+   *
+   * @param tags - Tags to evict (e.g., `'candidates'`).
+   *
+   * @example
+   * ```typescript
+   * this.httpCache.invalidate('candidates', 'dashboard');
+   * ```
+   */
+  invalidate(...tags: string[]): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some((tag: string): boolean => tags.includes(tag))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Removes every cached response, in every scope.
+   *
+   * @example
+   * ```typescript
+   * this.httpCache.clear();
+   * ```
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Builds the key of a URL in the current scope.
+   *
+   * @param url - URL with query parameters.
+   * @internal
+   */
+  private getKey(url: string): string {
+    return `${this.scope()} ${url}`;
+  }
+}
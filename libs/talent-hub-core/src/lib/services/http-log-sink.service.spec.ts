@@ -0,0 +1,222 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext } from '@angular/core';
+import { HttpBackend, HttpErrorResponse, HttpRequest, HttpResponse } from '@angular/common/http';
+import { of, throwError } from 'rxjs';
+
+import { HttpLogSink } from '../services';
+import { LogConfig, LogEntry, LogTransportConfig } from '../interfaces';
+import { AppStore } from '../store';
+import { LOG_TRANSPORT_CONFIG } from '../tokens';
+
+describe('HttpLogSink', () => {
+  let sink: HttpLogSink;
+  let logConfig: Partial<LogConfig> | undefined;
+  let mockBackend: { handle: ReturnType<typeof vi.fn> };
+  let sendBeacon: ReturnType<typeof vi.fn>;
+  let fakeWindow: EventTarget & {
+    document: EventTarget & { visibilityState: string };
+    navigator: { sendBeacon: ReturnType<typeof vi.fn> };
+  };
+
+  function createSink(config: LogTransportConfig): HttpLogSink {
+    const injector = Injector.create({
+      providers: [
+        { provide: HttpBackend, useValue: mockBackend },
+        { provide: AppStore, useValue: { getConfig: () => ({ logConfig }) } },
+        { provide: DOCUMENT, useValue: { defaultView: fakeWindow } },
+        { provide: LOG_TRANSPORT_CONFIG, useValue: config },
+      ],
+    });
+    return runInInjectionContext(injector, () => new HttpLogSink());
+  }
+
+  /** Creates an entry with the given message. */
+  function entry(message: string): LogEntry {
+    return {
+      id: `id-${message}`,
+      level: 'info',
+      message,
+      timestamp: '2026-03-02T09:00:00.000Z',
+      context: { module: null, tenantId: null, userId: null, route: null, appVersion: null },
+    };
+  }
+
+  /** Returns the messages of every batch posted to the backend. */
+  function sentBatches(): string[][] {
+    return mockBackend.handle.mock.calls.map(([request]) =>
+      ((request as HttpRequest<{ entries: LogEntry[] }>).body?.entries ?? []).map(
+        (sent: LogEntry) => sent.message,
+      ),
+    );
+  }
+
+  /** Reads a Blob as text (the jsdom Blob has no `text()`). */
+  function readBlob(blob: Blob): Promise<string> {
+    return new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+  }
+
+  const failWith = (status: number): void => {
+    mockBackend.handle.mockReturnValue(throwError(() => new HttpErrorResponse({ status })));
+  };
+
+  const succeed = (): void => {
+    mockBackend.handle.mockReturnValue(of(new HttpResponse({ status: 204 })));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    logConfig = { logToServer: true, logEndpoint: '/api/logs' };
+    mockBackend = { handle: vi.fn() };
+    succeed();
+    sendBeacon = vi.fn(() => true);
+    fakeWindow = Object.assign(new EventTarget(), {
+      document: Object.assign(new EventTarget(), { visibilityState: 'visible' }),
+      navigator: { sendBeacon },
+    });
+    sink = createSink({ batchSize: 3, flushInterval: 1_000 });
+  });
+
+  afterEach(() => {
+    sink.ngOnDestroy();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('batching', () => {
+    it('should send entries in one batch after the flush interval', () => {
+      sink.write(entry('first'));
+      sink.write(entry('second'));
+      expect(mockBackend.handle).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1_000);
+
+      const request: HttpRequest<{ entries: LogEntry[] }> = mockBackend.handle.mock.calls[0][0];
+      expect(request.method).toBe('POST');
+      expect(request.url).toBe('/api/logs');
+      expect(request.body).toEqual({ entries: [entry('first'), entry('second')] });
+    });
+
+    it('should send immediately when the batch size is reached', () => {
+      ['1', '2', '3'].forEach((message) => sink.write(entry(message)));
+
+      expect(sentBatches()).toEqual([['1', '2', '3']]);
+    });
+
+    it('should send the next batch on flush()', () => {
+      sink.write(entry('now'));
+      sink.flush();
+
+      expect(sentBatches()).toEqual([['now']]);
+    });
+
+    it('should not send entries when logToServer is disabled or no endpoint is set', () => {
+      logConfig = { logToServer: false, logEndpoint: '/api/logs' };
+      sink.write(entry('not sent'));
+      logConfig = { logToServer: true };
+      sink.write(entry('not sent either'));
+      logConfig = { logToServer: true, logEndpoint: '/api/logs' };
+      vi.advanceTimersByTime(10_000);
+
+      expect(mockBackend.handle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry a failed batch with exponential backoff', () => {
+      failWith(503);
+      sink.write(entry('lost?'));
+      vi.advanceTimersByTime(1_000);
+      expect(mockBackend.handle).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1_000);
+      expect(mockBackend.handle).toHaveBeenCalledTimes(2);
+
+      succeed();
+      vi.advanceTimersByTime(1_999);
+      expect(mockBackend.handle).toHaveBeenCalledTimes(2);
+      vi.advanceTimersByTime(1);
+      expect(sentBatches()).toEqual([['lost?'], ['lost?'], ['lost?']]);
+    });
+
+    it('should drop a batch after the maximum number of retries', () => {
+      sink.ngOnDestroy();
+      sink = createSink({ batchSize: 3, flushInterval: 1_000, maxRetries: 1 });
+      failWith(500);
+      sink.write(entry('dropped'));
+      vi.advanceTimersByTime(1_000 + 1_000);
+      expect(mockBackend.handle).toHaveBeenCalledTimes(2);
+
+      succeed();
+      sink.write(entry('next'));
+      vi.advanceTimersByTime(1_000);
+
+      expect(sentBatches()[2]).toEqual(['next']);
+    });
+
+    it('should keep at most maxBufferSize entries while the endpoint is unreachable', () => {
+      sink.ngOnDestroy();
+      sink = createSink({ batchSize: 2, flushInterval: 1_000, maxBufferSize: 3 });
+      failWith(0);
+      ['1', '2', '3', '4', '5'].forEach((message) => sink.write(entry(message)));
+
+      succeed();
+      vi.advanceTimersByTime(1_000);
+      vi.advanceTimersByTime(1_000);
+
+      expect(sentBatches().slice(1).flat()).toEqual(['3', '4', '5']);
+    });
+  });
+
+  describe('page hide', () => {
+    it('should send the buffered entries with sendBeacon when the page is hidden', async () => {
+      sink.write(entry('before leaving'));
+      fakeWindow.document.visibilityState = 'hidden';
+      fakeWindow.document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(sendBeacon).toHaveBeenCalledWith('/api/logs', expect.any(Blob));
+      vi.advanceTimersByTime(1_000);
+      expect(mockBackend.handle).not.toHaveBeenCalled();
+
+      vi.useRealTimers();
+      const body = JSON.parse(await readBlob(sendBeacon.mock.calls[0][1] as Blob));
+      expect(body).toEqual({ entries: [entry('before leaving')] });
+    });
+
+    it('should keep the entries when the beacon is refused', () => {
+      sendBeacon.mockReturnValue(false);
+      sink.write(entry('kept'));
+      fakeWindow.dispatchEvent(new Event('pagehide'));
+
+      vi.advanceTimersByTime(1_000);
+      expect(sentBatches()).toEqual([['kept']]);
+    });
+
+    it('should ignore visibility changes to visible', () => {
+      sink.write(entry('buffered'));
+      fakeWindow.document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+    });
+
+    it('should send the remaining entries with sendBeacon on destroy', () => {
+      sink.write(entry('last words'));
+      sink.ngOnDestroy();
+
+      expect(sendBeacon).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { DOCUMENT, inject, Injectable, OnDestroy } from '@angular/core';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+
+import { LogEntry, LogSink, LogTransportConfig } from '../interfaces';
+import { AppStore } from '../store';
+import { LOG_TRANSPORT_CONFIG } from '../tokens';
+
+/**
+ * Batching and retry settings used when `LOG_TRANSPORT_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_HTTP_LOG_CONFIG: Required<
+  Pick<
+    LogTransportConfig,
+    'batchSize' | 'flushInterval' | 'maxBufferSize' | 'maxRetries' | 'retryDelay' | 'maxRetryDelay'
+  >
+> = {
+  batchSize: 20,
+  flushInterval: 10_000,
+  maxBufferSize: 500,
+  maxRetries: 5,
+  retryDelay: 1_000,
+  maxRetryDelay: 60_000,
+};
+
+/**
+ * HttpLogSink - Sends log entries in batches to the configured log endpoint.
+ *
+ * One of the two sinks that always receive entries from `LoggerService`. It only sends
+ * entries when `LogConfig.logToServer` is `true` and `LogConfig.logEndpoint` is set.
+ *
+ * @remarks
+ * - Entries are buffered and POSTed as `{ entries: LogEntry[] }` when `batchSize`
+ *   entries are waiting, after `flushInterval`, or when the page is hidden
+ *   (`pagehide`, `visibilitychange`). When the page is hidden, the entries are sent
+ *   with `navigator.sendBeacon()` so that they survive the page being closed.
+ * - Failed batches are sent again with exponential backoff, up to `maxRetries` times.
+ *   While the endpoint cannot be reached, at most `maxBufferSize` entries are kept.
+ * - Requests go straight to `HttpBackend`, bypassing every `HttpInterceptor`, so that
+ *   a failing log request is never logged again by `ErrorHandlingInterceptor`.
+ *
+ * @example
+ * ```typescript
+ * // Send the buffered entries before a planned redirect to another application
+ * inject(HttpLogSink).flush();
+ * window.location.href = externalUrl;
+ * ```
+ *
+ * @see LoggerService
+ * @see LogTransportConfig
+ * @see LogConfig
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class HttpLogSink implements LogSink, OnDestroy {
+  /**
+   * HttpClient bound directly to `HttpBackend`, so that log requests skip all interceptors.
+   * @internal
+   */
+  private readonly http: HttpClient = new HttpClient(inject(HttpBackend));
+
+  /**
+   * Reference to the global AppStore (NgRx Signal Store).
+   * Used to access the current log configuration (`logConfig`).
+   * @internal
+   */
+  private readonly appStore = inject(AppStore);
+
+  /** @internal Window of the current tab, or `null` outside the browser. */
+  private readonly window: (Window & typeof globalThis) | null =
+    inject(DOCUMENT).defaultView ?? null;
+
+  /**
+   * Effective batching configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: typeof DEFAULT_HTTP_LOG_CONFIG = {
+    ...DEFAULT_HTTP_LOG_CONFIG,
+    ...inject(LOG_TRANSPORT_CONFIG, { optional: true }),
+  };
+
+  /** @internal Entries waiting to be sent, oldest first. */
+  private buffer: LogEntry[] = [];
+
+  /** @internal Timer of the next scheduled send, if any. */
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** @internal `true` while a batch is being sent. */
+  private sending = false;
+
+  /** @internal Number of consecutive failed attempts to send the current batch. */
+  private failedAttempts = 0;
+
+  /**
+   * Sends the buffered entries with `sendBeacon()` when the page is hidden.
+   * @internal
+   */
+  private readonly onPageHide = (event: Event): void => {
+    if (event.type === 'pagehide' || this.window?.document.visibilityState === 'hidden') {
+      this.flushWithBeacon();
+    }
+  };
+
+  constructor() {
+    this.window?.addEventListener('pagehide', this.onPageHide);
+    this.window?.document.addEventListener('visibilitychange', this.onPageHide);
+  }
+
+  /**
+   * Buffers an entry and schedules or triggers the next send.
+   *
+   * Does nothing while server logging is disabled.
+   *
+   * @param entry - The redacted entry.
+   */
+  write(entry: LogEntry): void {
+    if (!this.getEndpoint()) {
+      return;
+    }
+
+    this.buffer.push(entry);
+    if (this.buffer.length > this.config.maxBufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.config.maxBufferSize);
+    }
+
+    if (this.buffer.length >= this.config.batchSize && this.failedAttempts === 0) {
+      this.flush();
+    } else if (this.flushTimer === null && !this.sending) {
+      this.scheduleFlush(this.config.flushInterval);
+    }
+  }
+
+  /**
+   * Sends the next batch of buffered entries to the log endpoint now.
+   *
+   * Does nothing while a batch is already being sent.
+   */
+  flush(): void {
+    const endpoint: string | null = this.getEndpoint();
+    if (this.sending || this.buffer.length === 0 || !endpoint) {
+      return;
+    }
+
+    this.clearFlushTimer();
+    const batch: LogEntry[] = this.buffer.splice(0, this.config.batchSize);
+    this.sending = true;
+    this.http.post(endpoint, { entries: batch }).subscribe({
+      next: (): void => this.onBatchSent(),
+      error: (): void => this.onBatchFailed(batch),
+    });
+  }
+
+  /**
+   * Stops listening for page visibility changes and sends the remaining entries.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.window?.removeEventListener('pagehide', this.onPageHide);
+    this.window?.document.removeEventListener('visibilitychange', this.onPageHide);
+    this.flushWithBeacon();
+    this.clearFlushTimer();
+  }
+
+  /**
+   * Resets the retry state after a successful send and continues with the next batch.
+   *
+   * @internal
+   */
+  private onBatchSent(): void {
+    this.sending = false;
+    this.failedAttempts = 0;
+    if (this.buffer.length >= this.config.batchSize) {
+      this.flush();
+    } else if (this.buffer.length > 0) {
+      this.scheduleFlush(this.config.flushInterval);
+    }
+  }
+
+  /**
+   * Puts a failed batch back in the buffer and retries it with backoff, or drops it
+   * once `maxRetries` is exceeded.
+   *
+   * @param batch - The batch that could not be sent.
+   * @internal
+   */
+  private onBatchFailed(batch: LogEntry[]): void {
+    this.sending = false;
+    this.failedAttempts++;
+    if (this.failedAttempts > this.config.maxRetries) {
+      // Give up on this batch; the next one starts with a fresh retry budget
+      this.failedAttempts = 0;
+      if (this.buffer.length > 0) {
+        this.scheduleFlush(this.config.flushInterval);
+      }
+      return;
+    }
+
+    this.buffer = [...batch, ...this.buffer].slice(-this.config.maxBufferSize);
+    this.scheduleFlush(
+      Math.min(this.config.retryDelay * 2 ** (this.failedAttempts - 1), this.config.maxRetryDelay),
+    );
+  }
+
+  /**
+   * Sends every buffered entry with `navigator.sendBeacon()`, which outlives the page.
+   *
+   * Entries stay in the buffer if the browser refuses the beacon.
+   *
+   * @internal
+   */
+  private flushWithBeacon(): void {
+    const endpoint: string | null = this.getEndpoint();
+    const navigator: Navigator | undefined = this.window?.navigator;
+    if (this.buffer.length === 0 || !endpoint || typeof navigator?.sendBeacon !== 'function') {
+      return;
+    }
+
+    const body = new Blob([JSON.stringify({ entries: this.buffer })], {
+      type: 'application/json',
+    });
+    if (navigator.sendBeacon(endpoint, body)) {
+      this.buffer = [];
+      this.clearFlushTimer();
+    }
+  }
+
+  /**
+   * Schedules the next send, replacing any scheduled one.
+   *
+   * @param delay - Time until the send, in milliseconds.
+   * @internal
+   */
+  private scheduleFlush(delay: number): void {
+    this.clearFlushTimer();
+    this.flushTimer = setTimeout((): void => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /**
+   * Cancels the scheduled send, if any.
+   *
+   * @internal
+   */
+  private clearFlushTimer(): void {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Returns the log endpoint when server logging is enabled, otherwise `null`.
+   *
+   * @internal
+   */
+  private getEndpoint(): string | null {
+    const logConfig = this.appStore.getConfig()?.logConfig;
+    return logConfig?.logToServer && logConfig.logEndpoint ? logConfig.logEndpoint : null;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subject } from 'rxjs';
+
+import { AuthService, IdleService, SessionSyncService } from '../services';
+import { SessionSyncMessage } from '../interfaces';
+import { TenantStore } from '../store';
+import { AUTH_CONFIG, IDLE_CONFIG } from '../tokens';
+
+const MINUTE = 60_000;
+
+describe('IdleService', () => {
+  let service: IdleService;
+  let authenticated: boolean;
+  let tenantIdleTimeout: ReturnType<typeof signal<number | null>>;
+  let syncMessages: Subject<SessionSyncMessage>;
+  let mockAuthService: {
+    isAuthenticated: ReturnType<typeof vi.fn>;
+    logout: ReturnType<typeof vi.fn>;
+  };
+  let mockSessionSync: {
+    messages$: Subject<SessionSyncMessage>;
+    publish: ReturnType<typeof vi.fn>;
+  };
+  let mockRouter: { navigateByUrl: ReturnType<typeof vi.fn> };
+
+  function createService(providers: { provide: unknown; useValue: unknown }[] = []): IdleService {
+    const injector = Injector.create({
+      providers: [
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: TenantStore, useValue: { idleTimeout: tenantIdleTimeout } },
+        { provide: SessionSyncService, useValue: mockSessionSync },
+        { provide: Router, useValue: mockRouter },
+        { provide: DOCUMENT, useValue: document },
+        { provide: IDLE_CONFIG, useValue: { timeout: 10 * MINUTE, warningDuration: MINUTE } },
+        ...providers,
+      ],
+    });
+    return runInInjectionContext(injector, () => new IdleService());
+  }
+
+  const userActs = (): boolean => document.dispatchEvent(new Event('keydown'));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    authenticated = true;
+    tenantIdleTimeout = signal<number | null>(null);
+    syncMessages = new Subject<SessionSyncMessage>();
+    mockAuthService = { isAuthenticated: vi.fn(() => authenticated), logout: vi.fn() };
+    mockSessionSync = { messages$: syncMessages, publish: vi.fn() };
+    mockRouter = { navigateByUrl: vi.fn().mockResolvedValue(true) };
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('timeout', () => {
+    beforeEach(() => {
+      service.start();
+    });
+
+    it('should show the warning before the timeout and count down', () => {
+      vi.advanceTimersByTime(9 * MINUTE - 1);
+      expect(service.isWarning()).toBe(false);
+
+      vi.advanceTimersByTime(1);
+      expect(service.isWarning()).toBe(true);
+      expect(service.remainingSeconds()).toBe(60);
+
+      vi.advanceTimersByTime(15_000);
+      expect(service.remainingSeconds()).toBe(45);
+    });
+
+    it('should sign the user out when the countdown ends', () => {
+      vi.advanceTimersByTime(10 * MINUTE);
+
+      expect(mockAuthService.logout).toHaveBeenCalledTimes(1);
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/login');
+      expect(service.isWarning()).toBe(false);
+    });
+
+    it('should sign the user out on signOut() during the warning', () => {
+      vi.advanceTimersByTime(9 * MINUTE);
+      service.signOut();
+
+      expect(mockAuthService.logout).toHaveBeenCalledTimes(1);
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/login');
+      expect(service.isWarning()).toBe(false);
+    });
+
+    it('should restart the idle period on user activity', () => {
+      vi.advanceTimersByTime(8 * MINUTE);
+      userActs();
+      vi.advanceTimersByTime(8 * MINUTE);
+      expect(service.isWarning()).toBe(false);
+
+      vi.advanceTimersByTime(MINUTE);
+      expect(service.isWarning()).toBe(true);
+    });
+
+    it('should dismiss the warning on user activity', () => {
+      vi.advanceTimersByTime(9 * MINUTE + 30_000);
+      userActs();
+
+      expect(service.isWarning()).toBe(false);
+      vi.advanceTimersByTime(5 * MINUTE);
+      expect(mockAuthService.logout).not.toHaveBeenCalled();
+    });
+
+    it('should not warn or sign out when nobody is signed in', () => {
+      authenticated = false;
+      vi.advanceTimersByTime(30 * MINUTE);
+
+      expect(service.isWarning()).toBe(false);
+      expect(mockAuthService.logout).not.toHaveBeenCalled();
+    });
+
+    it('should hide the warning when the session ends elsewhere', () => {
+      vi.advanceTimersByTime(9 * MINUTE);
+      authenticated = false;
+      vi.advanceTimersByTime(1_000);
+
+      expect(service.isWarning()).toBe(false);
+      vi.advanceTimersByTime(MINUTE);
+      expect(mockAuthService.logout).not.toHaveBeenCalled();
+    });
+
+    it('should stop watching after stop()', () => {
+      service.stop();
+      vi.advanceTimersByTime(30 * MINUTE);
+      expect(mockAuthService.logout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('configuration', () => {
+    it('should use the tenant idle timeout over the configured one', () => {
+      tenantIdleTimeout.set(5 * MINUTE);
+      service.start();
+
+      vi.advanceTimersByTime(4 * MINUTE);
+      expect(service.isWarning()).toBe(true);
+    });
+
+    it('should be disabled by a timeout of 0', () => {
+      tenantIdleTimeout.set(0);
+      service.start();
+
+      vi.advanceTimersByTime(60 * MINUTE);
+      expect(service.isWarning()).toBe(false);
+      expect(mockAuthService.logout).not.toHaveBeenCalled();
+    });
+
+    it('should redirect to the configured login route', () => {
+      service = createService([{ provide: AUTH_CONFIG, useValue: { loginRoute: '/sign-in' } }]);
+      service.start();
+
+      vi.advanceTimersByTime(10 * MINUTE);
+      expect(mockRouter.navigateByUrl).toHaveBeenCalledWith('/sign-in');
+    });
+  });
+
+  describe('multiple tabs', () => {
+    beforeEach(() => {
+      service.start();
+    });
+
+    it('should share activity with other tabs at most every few seconds', () => {
+      userActs();
+      userActs();
+      expect(mockSessionSync.publish).toHaveBeenCalledTimes(1);
+      expect(mockSessionSync.publish).toHaveBeenCalledWith('activity');
+
+      vi.advanceTimersByTime(5_000);
+      userActs();
+      expect(mockSessionSync.publish).toHaveBeenCalledTimes(2);
+    });
+
+    it('should restart the idle period on activity in another tab', () => {
+      vi.advanceTimersByTime(9 * MINUTE + 30_000);
+      syncMessages.next({ type: 'activity', tabId: 'other-tab' });
+
+      expect(service.isWarning()).toBe(false);
+      expect(mockSessionSync.publish).not.toHaveBeenCalled();
+    });
+
+    it('should dismiss the warning in every tab on keepAlive()', () => {
+      userActs();
+      vi.advanceTimersByTime(9 * MINUTE);
+      service.keepAlive();
+
+      expect(service.isWarning()).toBe(false);
+      expect(mockSessionSync.publish).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  DOCUMENT,
+  inject,
+  Injectable,
+  OnDestroy,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+import { IdleConfig, SessionSyncMessage } from '../interfaces';
+import { TenantStore } from '../store';
+import { AUTH_CONFIG, IDLE_CONFIG } from '../tokens';
+import { AuthService } from './auth.service';
+import { SessionSyncService } from './session-sync.service';
+
+/**
+ * Idle settings used when `IDLE_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_IDLE_CONFIG: Required<IdleConfig> = {
+  timeout: 1_800_000,
+  warningDuration: 60_000,
+  activityEvents: ['mousedown', 'mousemove', 'keydown', 'wheel', 'touchstart', 'scroll'],
+};
+
+/**
+ * Route used to send the user to sign in when `AUTH_CONFIG.loginRoute` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_LOGIN_ROUTE = '/login';
+
+/**
+ * Minimum time between two activity messages sent to other tabs, in milliseconds.
+ *
+ * @internal
+ */
+const ACTIVITY_SYNC_INTERVAL = 5_000;
+
+/**
+ * Interval at which the countdown is updated while the warning is shown, in milliseconds.
+ *
+ * @internal
+ */
+const COUNTDOWN_INTERVAL = 1_000;
+
+/**
+ * IdleService - Signs the user out after a period without activity.
+ *
+ * Watches user activity (mouse, keyboard, touch, scrolling) on the document. When the
+ * signed-in user has been inactive for `timeout` minus `warningDuration`, `isWarning`
+ * becomes `true` and `remainingSeconds` counts down. If the user stays inactive until
+ * the countdown ends, the service calls `AuthService.logout()` and navigates to the
+ * login route.
+ *
+ * @remarks
+ * **Timeout:**
+ * The timeout is `TenantPreference.idleTimeoutMinutes` for the current tenant, falling
+ * back to `IdleConfig.timeout` (default 30 minutes). A timeout of `0` disables it.
+ *
+ * **Multiple Tabs:**
+ * Activity is shared with the other open tabs through `SessionSyncService`, so a tab
+ * left in the background does not sign the user out while they work in another tab.
+ * The sign-out itself is shared by `AuthService`, which ends the session in every tab.
+ *
+ * **Warning:**
+ * The service does not render anything; `th-idle-warning` (`@talent-hub/ui/components`)
+ * shows `isWarning` and `remainingSeconds` as a dialog. Any user activity dismisses the
+ * warning; `keepAlive()` is bound to its "Stay signed in" button and `signOut()` to its
+ * "Sign out" button.
+ *
+ * **Session:**
+ * Start the service when a session starts and stop it when the session ends, so that
+ * activity is only watched while a user is signed in.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * provideAppInitializer(() => {
+ *   const auth = inject(AuthService);
+ *   const idle = inject(IdleService);
+ *   effect(() => {
+ *     const authenticated = auth.isAuthenticated();
+ *     untracked(() => (authenticated ? idle.start() : idle.stop()));
+ *   });
+ * }),
+ *
+ * // app.component.html
+ * <th-idle-warning />
+ * ```
+ *
+ * @see IdleConfig
+ * @see provideIdleConfig
+ * @see SessionSyncService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class IdleService implements OnDestroy {
+  /** @internal Session facade used to check and end the session. */
+  private readonly authService: AuthService = inject(AuthService);
+
+  /** @internal Source of the tenant's idle timeout. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Channel used to share activity with other tabs. */
+  private readonly sessionSync: SessionSyncService = inject(SessionSyncService);
+
+  /** @internal Router used to send the user to the login route after the timeout. */
+  private readonly router: Router = inject(Router);
+
+  /** @internal Document on which user activity is observed. */
+  private readonly document: Document = inject(DOCUMENT);
+
+  /**
+   * Effective idle configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<IdleConfig> = {
+    ...DEFAULT_IDLE_CONFIG,
+    ...inject(IDLE_CONFIG, { optional: true }),
+  };
+
+  /** @internal Route the user is sent to after being signed out. */
+  private readonly loginRoute: string =
+    inject(AUTH_CONFIG, { optional: true })?.loginRoute ?? DEFAULT_LOGIN_ROUTE;
+
+  /** @internal Writable state behind `isWarning`. */
+  private readonly _isWarning: WritableSignal<boolean> = signal(false);
+
+  /** @internal Writable state behind `remainingSeconds`. */
+  private readonly _remainingSeconds: WritableSignal<number> = signal(0);
+
+  /** @internal Time of the last activity in this or another tab, in milliseconds since epoch. */
+  private lastActivityAt = 0;
+
+  /** @internal Time the last activity message was sent to other tabs. */
+  private lastSyncedAt = 0;
+
+  /** @internal Timer that shows the warning once the user has been idle long enough. */
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** @internal Timer that updates the countdown while the warning is shown. */
+  private countdownTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** @internal Subscription to activity messages from other tabs, while started. */
+  private syncSubscription: Subscription | null = null;
+
+  /** @internal Listener registered for the activity events. */
+  private readonly onActivity = (): void => this.registerActivity(true);
+
+  /**
+   * Read-only signal that is `true` while the countdown warning should be shown.
+   *
+   * @example
+   * ```typescript
+   * // @if (idle.isWarning()) {
+   * //   <ix-modal>...</ix-modal>
+   * // }
+   * ```
+   */
+  readonly isWarning: Signal<boolean> = this._isWarning.asReadonly();
+
+  /**
+   * Read-only signal with the seconds left before the user is signed out.
+   *
+   * Only meaningful while `isWarning()` is `true`.
+   *
+   * @example
+   * ```typescript
+   * // <p>Signing out in {{ idle.remainingSeconds() }}s</p>
+   * ```
+   */
+  readonly remainingSeconds: Signal<number> = this._remainingSeconds.asReadonly();
+
+  /**
+   * Starts watching user activity.
+   *
+   * Call once at application startup. The timeout only applies while a user is signed
+   * in; calling `start()` again has no effect.
+   *
+   * @example
+   * ```typescript
+   * provideAppInitializer(() => {
+   *   inject(IdleService).start();
+   * }),
+   * ```
+   */
+  start(): void {
+    if (this.syncSubscription) {
+      return;
+    }
+
+    for (const eventName of this.config.activityEvents) {
+      this.document.addEventListener(eventName, this.onActivity, { capture: true, passive: true });
+    }
+    this.syncSubscription = this.sessionSync.messages$
+      .pipe(filter((message: SessionSyncMessage): boolean => message.type === 'activity'))
+      .subscribe((): void => this.registerActivity(false));
+
+    this.lastActivityAt = Date.now();
+    this.scheduleWarning();
+  }
+
+  /**
+   * Stops watching user activity and hides the warning.
+   *
+   * @example
+   * ```typescript
+   * // Kiosk mode handles sessions on its own
+   * this.idleService.stop();
+   * ```
+   */
+  stop(): void {
+    for (const eventName of this.config.activityEvents) {
+      this.document.removeEventListener(eventName, this.onActivity, { capture: true });
+    }
+    this.syncSubscription?.unsubscribe();
+    this.syncSubscription = null;
+    this.clearIdleTimer();
+    this.hideWarning();
+  }
+
+  /**
+   * Records activity, dismissing the warning in this and every other tab.
+   *
+   * Bind to the "Stay signed in" action of the warning.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="idle.keepAlive()">Stay signed in</button>
+   * ```
+   */
+  keepAlive(): void {
+    this.lastSyncedAt = 0;
+    this.registerActivity(true);
+  }
+
+  /**
+   * Signs the user out now, as when the countdown ends, and navigates to the login route.
+   *
+   * Bind to the "Sign out" action of the warning.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="idle.signOut()">Sign out</button>
+   * ```
+   */
+  signOut(): void {
+    this.authService.logout();
+    void this.router.navigateByUrl(this.loginRoute);
+    this.restartIdlePeriod();
+  }
+
+  /**
+   * Stops watching when the application is destroyed.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Records user activity and restarts the idle period.
+   *
+   * @param local - `true` for activity in this tab, which is shared with the other tabs.
+   * @internal
+   */
+  private registerActivity(local: boolean): void {
+    const now: number = Date.now();
+    this.lastActivityAt = now;
+    if (this._isWarning()) {
+      this.hideWarning();
+      this.scheduleWarning();
+    }
+    if (local && now - this.lastSyncedAt >= ACTIVITY_SYNC_INTERVAL) {
+      this.lastSyncedAt = now;
+      this.sessionSync.publish('activity');
+    }
+  }
+
+  /**
+   * Schedules the idle check for when the warning is due.
+   *
+   * Activity does not reschedule the timer; the check moves itself forward instead.
+   *
+   * @internal
+   */
+  private scheduleWarning(): void {
+    this.clearIdleTimer();
+    const timeout: number = this.getTimeout();
+    if (timeout <= 0 || !this.syncSubscription) {
+      return;
+    }
+
+    const warningAt: number =
+      this.lastActivityAt + timeout - Math.min(this.config.warningDuration, timeout);
+    this.idleTimer = setTimeout(
+      (): void => {
+        this.idleTimer = null;
+        this.checkIdle();
+      },
+      Math.max(0, warningAt - Date.now()),
+    );
+  }
+
+  /**
+   * Shows the warning if the user has been idle long enough, or reschedules the check.
+   *
+   * @internal
+   */
+  private checkIdle(): void {
+    const timeout: number = this.getTimeout();
+    if (timeout <= 0) {
+      return;
+    }
+    const warningAt: number =
+      this.lastActivityAt + timeout - Math.min(this.config.warningDuration, timeout);
+    if (Date.now() < warningAt) {
+      this.scheduleWarning();
+      return;
+    }
+    if (!this.authService.isAuthenticated()) {
+      // Nobody to sign out; start a new idle period for the next session
+      this.lastActivityAt = Date.now();
+      this.scheduleWarning();
+      return;
+    }
+
+    this._isWarning.set(true);
+    this.updateCountdown();
+    if (this._isWarning()) {
+      this.countdownTimer = setInterval((): void => this.updateCountdown(), COUNTDOWN_INTERVAL);
+    }
+  }
+
+  /**
+   * Updates `remainingSeconds` and signs the user out once it reaches zero.
+   *
+   * @internal
+   */
+  private updateCountdown(): void {
+    if (!this.authService.isAuthenticated() || this.getTimeout() <= 0) {
+      // Signed out elsewhere (e.g., in another tab) or disabled while the warning was shown
+      this.restartIdlePeriod();
+      return;
+    }
+
+    const remaining: number = this.lastActivityAt + this.getTimeout() - Date.now();
+    if (remaining > 0) {
+      this._remainingSeconds.set(Math.ceil(remaining / 1000));
+      return;
+    }
+
+    this.signOut();
+  }
+
+  /**
+   * Hides the warning and starts a new idle period.
+   *
+   * @internal
+   */
+  private restartIdlePeriod(): void {
+    this.hideWarning();
+    this.lastActivityAt = Date.now();
+    this.scheduleWarning();
+  }
+
+  /**
+   * Hides the warning and stops the countdown.
+   *
+   * @internal
+   */
+  private hideWarning(): void {
+    if (this.countdownTimer !== null) {
+      clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+    this._isWarning.set(false);
+    this._remainingSeconds.set(0);
+  }
+
+  /**
+   * Cancels the scheduled idle check, if any.
+   *
+   * @internal
+   */
+  private clearIdleTimer(): void {
+    if (this.idleTimer !== null) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  /**
+   * Returns the effective idle timeout in milliseconds.
+   *
+   * @internal
+   */
+  private getTimeout(): number {
+    return this.tenantStore.idleTimeout() ?? this.config.timeout;
+  }
+}
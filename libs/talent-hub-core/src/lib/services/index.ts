@@ -31,12 +31,31 @@
  * |---------|-------------|
  * | `ApiService` | Base HTTP client with typed requests |
  * | `AuthService` | Authentication and session management |
+ * | `BreadcrumbService` | Recent navigation, clicks and HTTP calls for error reports |
+ * | `ConsoleLogSink` | Log sink writing to the browser console |
  * | `CookieService` | Cookie storage operations |
- * | `EventBusService` | Cross-component event communication |
+ * | `EventBusBridgeService` | Selected events shared with the other tabs of the tenant |
+ * | `EventBusInspectorService` | Development history of event bus events with replay |
+ * | `EventBusService` | Typed events, replay and request/reply |
  * | `FeatureFlagService` | Feature toggle management |
+ * | `GlobalErrorHandler` | Reporting of uncaught errors and error screen state |
+ * | `HttpLogSink` | Log sink sending batches to the log endpoint |
+ * | `HttpCacheService` | Per-account LRU store of cached HTTP responses |
+ * | `IndexedDbLogSink` | Log sink keeping recent entries in IndexedDB |
+ * | `IndexedDbService` | Observable access to the IndexedDB database |
+ * | `IdleService` | Idle timeout with countdown warning |
  * | `LoadingIndicatorService` | Global loading state management |
  * | `LoggerService` | Structured logging with levels |
+ * | `MemoryLogSink` | Log sink keeping recent entries in memory |
  * | `MaintenanceService` | Maintenance mode detection |
+ * | `MockDatabaseService` | In-memory database behind the mock backend |
+ * | `NotificationCenterService` | Toast notifications from errors and remotes |
+ * | `OfflineCacheService` | Offline reads of GET responses with sync status |
+ * | `OutboxService` | Offline mutation queue replayed in order |
+ * | `PerformanceMonitorService` | Web Vitals, remote load, navigation and slow HTTP metrics |
+ * | `OidcService` | OpenID Connect (SSO) sign-in with PKCE |
+ * | `RequestTraceService` | Trace ids and summaries of recent HTTP requests |
+ * | `SessionSyncService` | Session changes shared between browser tabs |
  * | `StorageService` | LocalStorage/SessionStorage abstraction |
  * | `UserService` | User data and preferences management |
  *
@@ -50,24 +69,81 @@ export * from './api.service';
 /** Authentication and session management service */
 export * from './auth.service';
 
+/** Recent navigation, clicks and HTTP calls attached to error reports */
+export * from './breadcrumb.service';
+
+/** Log sink that writes entries to the browser console */
+export * from './console-log-sink.service';
+
 /** Cookie storage operations with configurable options */
 export * from './cookie.service';
 
+/** Shares selected event bus events with the other tabs of the same tenant */
+export * from './event-bus-bridge.service';
+
+/** Development history of event bus events and their subscribers */
+export * from './event-bus-inspector.service';
+
 /** Cross-component event communication bus */
 export * from './event-bus.service';
 
 /** Feature toggle management for gradual rollouts */
 export * from './feature-flag.service';
 
+/** ErrorHandler that reports uncaught errors with breadcrumbs and shows the error screen */
+export * from './global-error-handler.service';
+
+/** Log sink that sends entries in batches to the log endpoint */
+export * from './http-log-sink.service';
+
+/** Per-tenant and per-user LRU store of the responses cached by CacheInterceptor */
+export * from './http-cache.service';
+
+/** Log sink that keeps the most recent entries in IndexedDB */
+export * from './indexed-db-log-sink.service';
+
+/** Observable access to the Talent Hub IndexedDB database */
+export * from './indexed-db.service';
+
+/** Idle timeout with countdown warning and cross-tab activity */
+export * from './idle.service';
+
 /** Global loading state management */
 export * from './loading-indicator.service';
 
 /** Structured logging with configurable levels */
 export * from './logger.service';
 
+/** Log sink that keeps the most recent entries in memory */
+export * from './memory-log-sink.service';
+
 /** Maintenance mode detection and handling */
 export * from './maintenance.service';
 
+/** Stateful in-memory database served by the mock backend in development mode */
+export * from './mock-database.service';
+
+/** Notifications shown as toasts, fed by HTTP errors and the event bus */
+export * from './notification-center.service';
+
+/** Per-tenant IndexedDB store of GET responses for offline reads, with sync status */
+export * from './offline-cache.service';
+
+/** Persistent queue of offline mutations, replayed in order with idempotency keys */
+export * from './outbox.service';
+
+/** OpenID Connect authorization-code + PKCE sign-in for SSO tenants */
+export * from './oidc.service';
+
+/** Web Vitals and per-remote performance telemetry sent in batches through the logger */
+export * from './performance-monitor.service';
+
+/** Trace ids of HTTP requests and summaries of the recent ones for diagnostics */
+export * from './request-trace.service';
+
+/** Session changes shared between browser tabs */
+export * from './session-sync.service';
+
 /** LocalStorage/SessionStorage abstraction with type safety */
 export * from './storage.service';
 
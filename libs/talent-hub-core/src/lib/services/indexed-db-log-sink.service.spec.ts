@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Injector, runInInjectionContext } from '@angular/core';
+import { firstValueFrom, of, Subject, throwError } from 'rxjs';
+
+import { IndexedDbLogSink, IndexedDbService } from '../services';
+import { LogEntry } from '../interfaces';
+import { LOG_TRANSPORT_CONFIG } from '../tokens';
+
+describe('IndexedDbLogSink', () => {
+  let stored: Map<string, LogEntry>;
+  let mockIndexedDb: {
+    getAll: ReturnType<typeof vi.fn>;
+    put: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+    clear: ReturnType<typeof vi.fn>;
+  };
+
+  function createSink(indexedDbCapacity = 3): IndexedDbLogSink {
+    const injector = Injector.create({
+      providers: [
+        { provide: IndexedDbService, useValue: mockIndexedDb },
+        { provide: LOG_TRANSPORT_CONFIG, useValue: { indexedDbCapacity } },
+      ],
+    });
+    return runInInjectionContext(injector, () => new IndexedDbLogSink());
+  }
+
+  /** Creates an entry logged at the given second. */
+  function entry(message: string, second: number): LogEntry {
+    return {
+      id: message,
+      level: 'info',
+      message,
+      timestamp: `2026-03-02T09:00:${String(second).padStart(2, '0')}.000Z`,
+      context: { module: null, tenantId: null, userId: null, route: null, appVersion: null },
+    };
+  }
+
+  const storedMessages = (): string[] => [...stored.values()].map((kept) => kept.message).sort();
+
+  beforeEach(() => {
+    stored = new Map();
+    mockIndexedDb = {
+      getAll: vi.fn(() => of([...stored.values()])),
+      put: vi.fn((_store: string, key: string, value: LogEntry) => {
+        stored.set(key, value);
+        return of(undefined);
+      }),
+      delete: vi.fn((_store: string, key: string) => {
+        stored.delete(key);
+        return of(undefined);
+      }),
+      clear: vi.fn(() => {
+        stored.clear();
+        return of(undefined);
+      }),
+    };
+  });
+
+  it('should store entries in the logs store, keyed by time and id', () => {
+    const sink = createSink();
+    sink.write(entry('a', 1));
+
+    expect(mockIndexedDb.put).toHaveBeenCalledWith(
+      'logs',
+      '2026-03-02T09:00:01.000Z|a',
+      entry('a', 1),
+    );
+  });
+
+  it('should remove the oldest entries beyond the capacity, including earlier ones', () => {
+    stored.set('2026-03-02T09:00:02.000Z|old-2', entry('old-2', 2));
+    stored.set('2026-03-02T09:00:01.000Z|old-1', entry('old-1', 1));
+    const sink = createSink();
+
+    sink.write(entry('new-1', 10));
+    sink.write(entry('new-2', 11));
+
+    expect(storedMessages()).toEqual(['new-1', 'new-2', 'old-2']);
+    expect(mockIndexedDb.getAll).toHaveBeenCalledTimes(1);
+  });
+
+  it('should store the entries written while the stored keys are loading', () => {
+    const loaded = new Subject<LogEntry[]>();
+    mockIndexedDb.getAll.mockReturnValueOnce(loaded);
+    const sink = createSink();
+
+    sink.write(entry('a', 1));
+    sink.write(entry('b', 2));
+    expect(mockIndexedDb.put).not.toHaveBeenCalled();
+
+    loaded.next([]);
+    loaded.complete();
+    expect(storedMessages()).toEqual(['a', 'b']);
+  });
+
+  it('should ignore storage errors', () => {
+    mockIndexedDb.getAll.mockReturnValueOnce(throwError(() => new Error('blocked')));
+    mockIndexedDb.put.mockReturnValue(throwError(() => new Error('quota exceeded')));
+    const sink = createSink();
+
+    expect(() => sink.write(entry('a', 1))).not.toThrow();
+  });
+
+  it('should read the stored entries, oldest first', async () => {
+    const sink = createSink();
+    sink.write(entry('b', 2));
+    sink.write(entry('a', 1));
+
+    const entries: LogEntry[] = await firstValueFrom(sink.read());
+
+    expect(entries.map((kept) => kept.message)).toEqual(['a', 'b']);
+  });
+
+  it('should remove all entries on clear()', async () => {
+    const sink = createSink(2);
+    sink.write(entry('a', 1));
+    await firstValueFrom(sink.clear());
+    sink.write(entry('b', 2));
+    sink.write(entry('c', 3));
+
+    expect(mockIndexedDb.clear).toHaveBeenCalledWith('logs');
+    expect(mockIndexedDb.delete).not.toHaveBeenCalled();
+    expect(storedMessages()).toEqual(['b', 'c']);
+  });
+});
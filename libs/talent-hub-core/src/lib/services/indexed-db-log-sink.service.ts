@@ -0,0 +1,184 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { inject, Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map, tap } from 'rxjs/operators';
+
+import { LogEntry, LogSink } from '../interfaces';
+import { LOG_TRANSPORT_CONFIG } from '../tokens';
+import { IndexedDbService } from './indexed-db.service';
+
+/**
+ * Number of entries kept when `LogTransportConfig.indexedDbCapacity` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_INDEXED_DB_CAPACITY = 1_000;
+
+/**
+ * Returns the IndexedDB key of an entry; keys sort in the order the entries were logged.
+ *
+ * @param entry - The log entry.
+ * @returns The key of the entry in the `'logs'` store.
+ * @internal
+ */
+function toKey(entry: LogEntry): string {
+  return `${entry.timestamp}|${entry.id}`;
+}
+
+/**
+ * IndexedDbLogSink - Keeps the most recent log entries in IndexedDB, across reloads and
+ * while offline.
+ *
+ * Register it with `provideLogSinks(IndexedDbLogSink)`. Entries are stored in the
+ * `'logs'` store of the Talent Hub database, so that the logs of a session spent
+ * offline, or of a session that ended in a crash, can be read afterwards (e.g., for a
+ * "Download diagnostics" action). Only the last `LogTransportConfig.indexedDbCapacity`
+ * entries (default 1000) are kept.
+ *
+ * @remarks
+ * - Entries are redacted by `LoggerService` before they are stored.
+ * - Storage errors are ignored; logging never fails because IndexedDB is unavailable.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * provideLogSinks(IndexedDbLogSink),
+ *
+ * // support.component.ts
+ * downloadDiagnostics(): void {
+ *   this.logSink.read().subscribe((entries) => this.download('logs.json', entries));
+ * }
+ * ```
+ *
+ * @see provideLogSinks
+ * @see IndexedDbService
+ * @see LogSink
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class IndexedDbLogSink implements LogSink {
+  /** @internal Observable access to the IndexedDB database. */
+  private readonly indexedDb: IndexedDbService = inject(IndexedDbService);
+
+  /** @internal Maximum number of entries kept. */
+  private readonly capacity: number =
+    inject(LOG_TRANSPORT_CONFIG, { optional: true })?.indexedDbCapacity ??
+    DEFAULT_INDEXED_DB_CAPACITY;
+
+  /**
+   * Keys of the stored entries, oldest first, or `null` until they have been loaded.
+   * @internal
+   */
+  private keys: string[] | null = null;
+
+  /** @internal Entries written while the stored keys are being loaded. */
+  private pending: LogEntry[] = [];
+
+  /** @internal `true` while the stored keys are being loaded. */
+  private loading = false;
+
+  /**
+   * Stores an entry, removing the oldest ones beyond the capacity.
+   *
+   * @param entry - The redacted entry.
+   */
+  write(entry: LogEntry): void {
+    if (this.keys) {
+      this.store(entry);
+      return;
+    }
+
+    this.pending.push(entry);
+    this.loadKeys();
+  }
+
+  /**
+   * Reads the stored entries, oldest first.
+   *
+   * @returns Observable that emits the entries and completes.
+   *
+   * @example
+   * ```typescript
+   * this.logSink.read().subscribe((entries) => console.table(entries));
+   * ```
+   */
+  read(): Observable<LogEntry[]> {
+    return this.indexedDb
+      .getAll<LogEntry>('logs')
+      .pipe(
+        map((entries: LogEntry[]): LogEntry[] =>
+          [...entries].sort((a: LogEntry, b: LogEntry): number => toKey(a).localeCompare(toKey(b))),
+        ),
+      );
+  }
+
+  /**
+   * Removes all stored entries.
+   *
+   * @returns Observable that completes once the entries are removed.
+   *
+   * @example
+   * ```typescript
+   * this.logSink.clear().subscribe();
+   * ```
+   */
+  clear(): Observable<void> {
+    return this.indexedDb.clear('logs').pipe(
+      tap((): void => {
+        if (this.keys) {
+          this.keys = [];
+        }
+      }),
+    );
+  }
+
+  /**
+   * Loads the keys of the stored entries, then stores the pending entries.
+   *
+   * @internal
+   */
+  private loadKeys(): void {
+    if (this.loading) {
+      return;
+    }
+
+    this.loading = true;
+    const done = (keys: string[]): void => {
+      this.loading = false;
+      this.keys = keys;
+      const pending: LogEntry[] = this.pending;
+      this.pending = [];
+      pending.forEach((entry: LogEntry): void => this.store(entry));
+    };
+    this.indexedDb.getAll<LogEntry>('logs').subscribe({
+      next: (entries: LogEntry[]): void => done(entries.map(toKey).sort()),
+      error: (): void => done([]),
+    });
+  }
+
+  /**
+   * Stores an entry and removes the oldest entries beyond the capacity.
+   *
+   * @param entry - The entry to store.
+   * @internal
+   */
+  private store(entry: LogEntry): void {
+    const keys: string[] = this.keys ?? [];
+    const key: string = toKey(entry);
+    keys.push(key);
+    this.indexedDb.put('logs', key, entry).subscribe({ error: (): void => undefined });
+
+    for (const oldest of keys.splice(0, Math.max(0, keys.length - this.capacity))) {
+      this.indexedDb.delete('logs', oldest).subscribe({ error: (): void => undefined });
+    }
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+
+import { IndexedDbService } from '../services';
+
+/** Request whose callbacks are invoked asynchronously, like IndexedDB does. */
+interface FakeRequest {
+  result?: unknown;
+  error?: Error | null;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: () => void;
+}
+
+/** In-memory IndexedDB factory with one database. */
+function createFakeIndexedDb() {
+  const stores = new Map<string, Map<IDBValidKey, unknown>>();
+  const database = {
+    objectStoreNames: { contains: (name: string): boolean => stores.has(name) },
+    createObjectStore: vi.fn((name: string) => stores.set(name, new Map())),
+    close: vi.fn(),
+    onversionchange: null as (() => void) | null,
+    transaction: (name: string) => {
+      const store = stores.get(name) as Map<IDBValidKey, unknown>;
+      const transaction: { oncomplete?: () => void; objectStore?: unknown } = {};
+      const run = (compute: () => unknown): FakeRequest => {
+        const request: FakeRequest = {};
+        queueMicrotask(() => {
+          request.result = compute();
+          transaction.oncomplete?.();
+        });
+        return request;
+      };
+      transaction.objectStore = () => ({
+        get: (key: IDBValidKey) => run(() => store.get(key)),
+        getAll: () => run(() => [...store.values()]),
+        put: (value: unknown, key: IDBValidKey) => run(() => store.set(key, value) && key),
+        delete: (key: IDBValidKey) => run(() => void store.delete(key)),
+        clear: () => run(() => store.clear()),
+      });
+      return transaction;
+    },
+  };
+  let failNextOpen = false;
+  const factory = {
+    failNextOpen: (): void => {
+      failNextOpen = true;
+    },
+    open: vi.fn(() => {
+      const request: FakeRequest = { result: database };
+      const fail = failNextOpen;
+      failNextOpen = false;
+      queueMicrotask(() => {
+        if (fail) {
+          request.error = new Error('blocked');
+          request.onerror?.();
+          return;
+        }
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      });
+      return request;
+    }),
+  };
+  return { factory, database };
+}
+
+describe('IndexedDbService', () => {
+  let service: IndexedDbService;
+  let fake: ReturnType<typeof createFakeIndexedDb>;
+
+  function createService(window: object | null): IndexedDbService {
+    const injector = Injector.create({
+      providers: [{ provide: DOCUMENT, useValue: { defaultView: window } }],
+    });
+    return runInInjectionContext(injector, () => new IndexedDbService());
+  }
+
+  beforeEach(() => {
+    fake = createFakeIndexedDb();
+    service = createService({ indexedDB: fake.factory });
+  });
+
+  it('should write and read values', async () => {
+    await firstValueFrom(service.put('offline-responses', 'a', { n: 1 }));
+
+    expect(await firstValueFrom(service.get('offline-responses', 'a'))).toEqual({ n: 1 });
+    expect(await firstValueFrom(service.get('offline-responses', 'b'))).toBeUndefined();
+  });
+
+  it('should read, delete and clear every value of a store', async () => {
+    await firstValueFrom(service.put('offline-responses', 'a', 1));
+    await firstValueFrom(service.put('offline-responses', 'b', 2));
+    expect(await firstValueFrom(service.getAll('offline-responses'))).toEqual([1, 2]);
+
+    await firstValueFrom(service.delete('offline-responses', 'a'));
+    expect(await firstValueFrom(service.getAll('offline-responses'))).toEqual([2]);
+
+    await firstValueFrom(service.clear('offline-responses'));
+    expect(await firstValueFrom(service.getAll('offline-responses'))).toEqual([]);
+  });
+
+  it('should open the database once and create its stores', async () => {
+    await firstValueFrom(service.getAll('offline-responses'));
+    await firstValueFrom(service.getAll('offline-responses'));
+
+    expect(fake.factory.open).toHaveBeenCalledTimes(1);
+    expect(fake.factory.open).toHaveBeenCalledWith('talent-hub', 3);
+    expect(fake.database.createObjectStore).toHaveBeenCalledWith('offline-responses');
+    expect(fake.database.createObjectStore).toHaveBeenCalledWith('outbox');
+    expect(fake.database.createObjectStore).toHaveBeenCalledWith('logs');
+  });
+
+  it('should open the database again after a failed open', async () => {
+    fake.factory.failNextOpen();
+
+    await expect(firstValueFrom(service.getAll('offline-responses'))).rejects.toThrow('blocked');
+    expect(await firstValueFrom(service.getAll('offline-responses'))).toEqual([]);
+    expect(fake.factory.open).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close the database when another tab upgrades it', async () => {
+    await firstValueFrom(service.getAll('offline-responses'));
+    fake.database.onversionchange?.();
+
+    expect(fake.database.close).toHaveBeenCalled();
+    await firstValueFrom(service.getAll('offline-responses'));
+    expect(fake.factory.open).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail without IndexedDB', async () => {
+    service = createService(null);
+
+    await expect(firstValueFrom(service.get('offline-responses', 'a'))).rejects.toThrow(
+      'IndexedDB is not available',
+    );
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { DOCUMENT, inject, Injectable, OnDestroy } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map, shareReplay, switchMap } from 'rxjs/operators';
+
+import { IndexedDbStore } from '../types';
+
+/**
+ * Name of the IndexedDB database shared by the Talent Hub applications.
+ *
+ * @internal
+ */
+const INDEXED_DB_NAME = 'talent-hub';
+
+/**
+ * Version of the database; increase it when adding a store.
+ *
+ * @internal
+ */
+const INDEXED_DB_VERSION = 3;
+
+/**
+ * Object stores created when the database is opened.
+ *
+ * @internal
+ */
+const INDEXED_DB_STORES: readonly IndexedDbStore[] = ['offline-responses', 'outbox', 'logs'];
+
+/**
+ * IndexedDbService - Observable access to the Talent Hub IndexedDB database.
+ *
+ * Wraps the callback-based IndexedDB API in cold observables that emit once and
+ * complete. The database is opened on first use and kept open; every store listed in
+ * `IndexedDbStore` is created on the first open of a new database version.
+ *
+ * @remarks
+ * - Values are stored with structured cloning: plain objects, arrays, dates and
+ *   primitives, but no class instances or functions.
+ * - Keys are passed explicitly (out-of-line keys).
+ * - Every operation errors when IndexedDB is unavailable (SSR, some private browsing
+ *   modes) or fails (e.g., quota exceeded); callers decide how to degrade.
+ * - The database is closed when another tab upgrades it, and opened again on the
+ *   next operation.
+ *
+ * @example
+ * ```typescript
+ * private readonly indexedDb = inject(IndexedDbService);
+ *
+ * this.indexedDb.put('offline-responses', key, entry).subscribe();
+ * this.indexedDb
+ *   .get<OfflineCacheEntry>('offline-responses', key)
+ *   .subscribe((entry) => console.log(entry));
+ * ```
+ *
+ * @see IndexedDbStore
+ * @see OfflineCacheService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class IndexedDbService implements OnDestroy {
+  /** @internal IndexedDB factory of the current window, or `null` outside the browser. */
+  private readonly factory: IDBFactory | null = inject(DOCUMENT).defaultView?.indexedDB ?? null;
+
+  /** @internal Shared connection, opened on first use. */
+  private database$: Observable<IDBDatabase> | null = null;
+
+  /** @internal The open connection, closed on destroy. */
+  private database: IDBDatabase | null = null;
+
+  /**
+   * Reads a value.
+   *
+   * @param store - The object store.
+   * @param key - Key of the value.
+   * @returns Observable of the value, or `undefined` if the key is not stored.
+   *
+   * @example
+   * ```typescript
+   * this.indexedDb.get<OfflineCacheEntry>('offline-responses', 'acme /api/candidates');
+   * ```
+   */
+  get<T>(store: IndexedDbStore, key: IDBValidKey): Observable<T | undefined> {
+    return this.request<T | undefined>(store, 'readonly', (objectStore) => objectStore.get(key));
+  }
+
+  /**
+   * Reads every value of a store, in key order.
+   *
+   * @param store - The object store.
+   * @returns Observable of the values.
+   *
+   * @example
+   * ```typescript
+   * this.indexedDb.getAll<OfflineCacheEntry>('offline-responses').subscribe();
+   * ```
+   */
+  getAll<T>(store: IndexedDbStore): Observable<T[]> {
+    return this.request<T[]>(store, 'readonly', (objectStore) => objectStore.getAll());
+  }
+
+  /**
+   * Writes a value, replacing the value stored under the same key.
+   *
+   * Emits once the write is committed.
+   *
+   * @param store - The object store.
+   * @param key - Key of the value.
+   * @param value - The value; must be structured-cloneable.
+   *
+   * @example
+   * ```typescript
+   * this.indexedDb.put('offline-responses', key, entry).subscribe();
+   * ```
+   */
+  put<T>(store: IndexedDbStore, key: IDBValidKey, value: T): Observable<void> {
+    return this.request<IDBValidKey>(store, 'readwrite', (objectStore) =>
+      objectStore.put(value, key),
+    ).pipe(map((): void => undefined));
+  }
+
+  /**
+   * Removes a value.
+   *
+   * @param store - The object store.
+   * @param key - Key of the value.
+   *
+   * @example
+   * ```typescript
+   * this.indexedDb.delete('offline-responses', key).subscribe();
+   * ```
+   */
+  delete(store: IndexedDbStore, key: IDBValidKey): Observable<void> {
+    return this.request<undefined>(store, 'readwrite', (objectStore) => objectStore.delete(key));
+  }
+
+  /**
+   * Removes every value of a store.
+   *
+   * @param store - The object store.
+   *
+   * @example
+   * ```typescript
+   * this.indexedDb.clear('offline-responses').subscribe();
+   * ```
+   */
+  clear(store: IndexedDbStore): Observable<void> {
+    return this.request<undefined>(store, 'readwrite', (objectStore) => objectStore.clear());
+  }
+
+  /**
+   * Closes the database.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.database?.close();
+    this.database = null;
+    this.database$ = null;
+  }
+
+  /**
+   * Runs a request in its own transaction and emits its result once committed.
+   *
+   * @param store - The object store.
+   * @param mode - Transaction mode.
+   * @param action - Creates the request on the object store.
+   * @internal
+   */
+  private request<T>(
+    store: IndexedDbStore,
+    mode: IDBTransactionMode,
+    action: (objectStore: IDBObjectStore) => IDBRequest,
+  ): Observable<T> {
+    return this.open().pipe(
+      switchMap(
+        (database: IDBDatabase): Observable<T> =>
+          new Observable<T>((subscriber) => {
+            const transaction: IDBTransaction = database.transaction(store, mode);
+            const request: IDBRequest = action(transaction.objectStore(store));
+            transaction.oncomplete = (): void => {
+              subscriber.next(request.result as T);
+              subscriber.complete();
+            };
+            transaction.onerror = (): void => subscriber.error(request.error ?? transaction.error);
+            transaction.onabort = (): void =>
+              subscriber.error(transaction.error ?? new Error('IndexedDB transaction aborted'));
+          }),
+      ),
+    );
+  }
+
+  /**
+   * Opens the database once, creating the missing stores.
+   *
+   * A failed open is not kept; the next operation tries again.
+   *
+   * @internal
+   */
+  private open(): Observable<IDBDatabase> {
+    this.database$ ??= new Observable<IDBDatabase>((subscriber) => {
+      if (!this.factory) {
+        subscriber.error(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request: IDBOpenDBRequest = this.factory.open(INDEXED_DB_NAME, INDEXED_DB_VERSION);
+      request.onupgradeneeded = (): void => {
+        for (const store of INDEXED_DB_STORES) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store);
+          }
+        }
+      };
+      request.onsuccess = (): void => {
+        const database: IDBDatabase = request.result;
+        database.onversionchange = (): void => this.ngOnDestroy();
+        this.database = database;
+        subscriber.next(database);
+        subscriber.complete();
+      };
+      request.onerror = (): void => subscriber.error(request.error);
+    }).pipe(shareReplay(1));
+    return this.database$;
+  }
+}
@@ -9,86 +9,291 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Injector, runInInjectionContext, signal } from '@angular/core';
+import { Router } from '@angular/router';
 
-import { LoggerService } from '../services';
-import { AppUtil } from '../utils';
-
-// Use vi.hoisted to declare variables that can be accessed inside vi.mock
-const { mockHttpClient, mockAppStore } = vi.hoisted(() => {
-  return {
-    mockHttpClient: { post: vi.fn(() => ({ subscribe: vi.fn() })) },
-    mockAppStore: { getConfig: vi.fn() },
-  };
-});
-
-// Mock @angular/core inject before importing LoggerService
-vi.mock('@angular/core', async (importOriginal) => {
-  const actual = await importOriginal();
-  return Object.assign({}, actual, {
-    inject: vi.fn((token: any) => {
-      const tokenStr = String(token);
-      if (token?.name === 'HttpClient' || tokenStr.includes('HttpClient')) {
-        return mockHttpClient;
-      }
-      if (
-        token?.name === 'AppStore' ||
-        tokenStr.includes('AppStore') ||
-        token?.name === 'SignalStore' ||
-        tokenStr.includes('SignalStore')
-      ) {
-        return mockAppStore;
-      }
-      throw new Error(`Unmocked token in test: ${token?.name || tokenStr}`);
-    }),
-    isDevMode: () => false,
-  });
-});
+import { ConsoleLogSink, HttpLogSink, LoggerService } from '../services';
+import { LogEntry, LogSink, LogTransportConfig } from '../interfaces';
+import { AppStore, AuthStore, TenantStore } from '../store';
+import { LOG_SINKS, LOG_TRANSPORT_CONFIG } from '../tokens';
+import { LogLevel } from '../types';
 
 describe('LoggerService', () => {
   let service: LoggerService;
-  let originalIsDevMode: () => boolean;
+  let logLevel: ReturnType<typeof signal<LogLevel | undefined>>;
+  let tenantId: ReturnType<typeof signal<string | null>>;
+  let userId: ReturnType<typeof signal<string>>;
+  let consoleSink: { write: ReturnType<typeof vi.fn> };
+  let httpSink: { write: ReturnType<typeof vi.fn>; flush: ReturnType<typeof vi.fn> };
+
+  function createService(
+    providers: { provide: unknown; useValue: unknown; multi?: boolean }[] = [],
+  ): LoggerService {
+    const injector = Injector.create({
+      providers: [
+        { provide: ConsoleLogSink, useValue: consoleSink },
+        { provide: HttpLogSink, useValue: httpSink },
+        {
+          provide: AppStore,
+          useValue: { currentLogLevel: logLevel, getConfig: () => ({ appVersion: '2.1.0' }) },
+        },
+        { provide: AuthStore, useValue: { userId } },
+        { provide: TenantStore, useValue: { tenantId } },
+        { provide: Router, useValue: { url: '/candidates?page=2' } },
+        ...providers,
+      ],
+    });
+    return runInInjectionContext(injector, () => new LoggerService());
+  }
+
+  /** Returns the entries written to the console sink. */
+  const written = (): LogEntry[] => consoleSink.write.mock.calls.map(([entry]) => entry);
+
+  /** Logs a message with metadata and returns the metadata written to the sinks. */
+  function writtenMeta(meta: unknown): unknown {
+    service.info('message', meta);
+    return written()[0].meta;
+  }
 
   beforeEach(() => {
-    vi.clearAllMocks();
-    service = new LoggerService();
-    originalIsDevMode = AppUtil.isDevMode;
-    AppUtil.isDevMode = vi.fn(() => false); // Simulate production
-    mockAppStore.getConfig.mockReturnValue({ logConfig: { logEndpoint: '/api/logs' } });
-    vi.spyOn(console, 'info').mockImplementation(() => {});
-    vi.spyOn(console, 'warn').mockImplementation(() => {});
-    vi.spyOn(console, 'error').mockImplementation(() => {});
-    vi.spyOn(console, 'debug').mockImplementation(() => {});
-    vi.spyOn(console, 'trace').mockImplementation(() => {});
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    logLevel = signal<LogLevel | undefined>('trace');
+    tenantId = signal<string | null>('acme');
+    userId = signal('u-17');
+    consoleSink = { write: vi.fn() };
+    httpSink = { write: vi.fn(), flush: vi.fn() };
+    service = createService();
   });
 
   afterEach(() => {
-    AppUtil.isDevMode = originalIsDevMode;
+    vi.useRealTimers();
     vi.restoreAllMocks();
   });
 
-  it('should log info to console', () => {
-    service.info('test message');
-    expect(console.info).toHaveBeenCalledWith('test message', undefined);
+  describe('entries', () => {
+    it('should write an entry with its context to the console and HTTP sinks', () => {
+      service.warn('Slow search', { ms: 2300 });
+
+      const expected: LogEntry = {
+        id: expect.any(String),
+        level: 'warn',
+        message: 'Slow search',
+        meta: { ms: 2300 },
+        timestamp: '2026-03-02T09:00:00.000Z',
+        context: {
+          module: null,
+          tenantId: 'acme',
+          userId: 'u-17',
+          route: '/candidates?page=2',
+          appVersion: '2.1.0',
+        },
+      };
+      expect(consoleSink.write).toHaveBeenCalledWith(expected);
+      expect(httpSink.write).toHaveBeenCalledWith(consoleSink.write.mock.calls[0][0]);
+    });
+
+    it('should log each convenience method at its level', () => {
+      service.trace('t');
+      service.debug('d');
+      service.info('i');
+      service.warn('w');
+      service.error('e');
+      service.fatal('f');
+      service.log('info', 'l');
+
+      expect(written().map((entry) => entry.level)).toEqual([
+        'trace',
+        'debug',
+        'info',
+        'warn',
+        'error',
+        'fatal',
+        'info',
+      ]);
+      expect(new Set(written().map((entry) => entry.id)).size).toBe(7);
+    });
+
+    it('should omit meta when none is given', () => {
+      service.info('no meta');
+      expect(written()[0]).not.toHaveProperty('meta');
+    });
+
+    it('should use null for unknown context values', () => {
+      tenantId.set(null);
+      userId.set('');
+      service = createService([{ provide: Router, useValue: null }]);
+
+      service.info('signed out');
+
+      expect(written()[0].context).toEqual(
+        expect.objectContaining({ tenantId: null, userId: null, route: null }),
+      );
+    });
   });
 
-  it('should send logs to server in production', () => {
-    service.error('server error', { foo: 1 });
-    expect(mockHttpClient.post).toHaveBeenCalled();
+  describe('level filtering', () => {
+    it('should discard messages below the configured level', () => {
+      logLevel.set('warn');
+
+      service.info('ignored');
+      service.debug('ignored');
+      service.warn('kept');
+
+      expect(written().map((entry) => entry.message)).toEqual(['kept']);
+      expect(httpSink.write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should default to info when no level is configured', () => {
+      logLevel.set(undefined);
+
+      expect(service.isEnabled('debug')).toBe(false);
+      expect(service.isEnabled('info')).toBe(true);
+      expect(service.isEnabled('fatal')).toBe(true);
+    });
   });
 
-  it('should not send logs to server if logEndpoint is missing', () => {
-    mockAppStore.getConfig.mockReturnValue({ logConfig: {} });
-    service.error('no endpoint');
-    expect(mockHttpClient.post).not.toHaveBeenCalled();
+  describe('report', () => {
+    it('should send an entry of the module to the HTTP sink whatever the level', () => {
+      logLevel.set('error');
+
+      service.report('performance', 'Performance metrics', { metrics: [], email: 'a@b.c' });
+
+      expect(consoleSink.write).not.toHaveBeenCalled();
+      expect(httpSink.write).toHaveBeenCalledWith(
+        expect.objectContaining({
+          level: 'info',
+          message: 'Performance metrics',
+          meta: { metrics: [], email: '[REDACTED]' },
+          context: expect.objectContaining({ module: 'performance', tenantId: 'acme' }),
+        }),
+      );
+    });
+
+    it('should not throw when the HTTP sink fails', () => {
+      httpSink.write.mockImplementation(() => {
+        throw new Error('full');
+      });
+
+      expect(() => service.report('performance', 'Performance metrics')).not.toThrow();
+    });
   });
 
-  it('should log at all levels', () => {
-    service.info('info');
-    service.warn('warn');
-    service.error('error');
-    service.debug('debug');
-    service.trace('trace');
-    service.fatal('fatal');
-    expect(console.info).toHaveBeenCalled();
+  describe('createLogger', () => {
+    it('should add the module name to every entry', () => {
+      const logger = service.createLogger('candidate.search');
+
+      logger.info('Search executed');
+      logger.log('error', 'Search failed');
+
+      expect(logger.module).toBe('candidate.search');
+      expect(written().map((entry) => [entry.level, entry.context.module])).toEqual([
+        ['info', 'candidate.search'],
+        ['error', 'candidate.search'],
+      ]);
+    });
+
+    it('should apply the level filter', () => {
+      logLevel.set('error');
+      service.createLogger('candidate.search').warn('ignored');
+
+      expect(consoleSink.write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sinks', () => {
+    it('should write to the provided sinks after the built-in ones', () => {
+      const extraSink = { write: vi.fn() };
+      service = createService([{ provide: LOG_SINKS, useValue: extraSink, multi: true }]);
+
+      service.info('to every sink');
+
+      expect(extraSink.write).toHaveBeenCalledWith(written()[0]);
+    });
+
+    it('should keep writing to the other sinks when one throws', () => {
+      const failingSink: LogSink = {
+        write: () => {
+          throw new Error('quota exceeded');
+        },
+        flush: () => {
+          throw new Error('quota exceeded');
+        },
+      };
+      const extraSink = { write: vi.fn(), flush: vi.fn() };
+      service = createService([
+        { provide: LOG_SINKS, useValue: failingSink, multi: true },
+        { provide: LOG_SINKS, useValue: extraSink, multi: true },
+      ]);
+
+      expect(() => service.error('still logged')).not.toThrow();
+      expect(() => service.flush()).not.toThrow();
+      expect(extraSink.write).toHaveBeenCalledTimes(1);
+      expect(extraSink.flush).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush the sinks that buffer entries', () => {
+      service.flush();
+      expect(httpSink.flush).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact sensitive fields at any depth', () => {
+      expect(
+        writtenMeta({
+          user: { id: 'u1', email: 'a@b.com', Phone_Number: '123' },
+          accessToken: 'abc',
+          'x-refresh-token': 'def',
+          headers: [{ Authorization: 'Bearer abc' }],
+          status: 401,
+        }),
+      ).toEqual({
+        user: { id: 'u1', email: '[REDACTED]', Phone_Number: '[REDACTED]' },
+        accessToken: '[REDACTED]',
+        'x-refresh-token': '[REDACTED]',
+        headers: [{ Authorization: '[REDACTED]' }],
+        status: 401,
+      });
+    });
+
+    it('should redact email addresses in the message and string values', () => {
+      service.info('Invited jane.doe@example.com', { note: 'cc admin@example.org' });
+
+      expect(written()[0]).toEqual(
+        expect.objectContaining({
+          message: 'Invited [REDACTED]',
+          meta: { note: 'cc [REDACTED]' },
+        }),
+      );
+    });
+
+    it('should use the configured redacted fields', () => {
+      const config: LogTransportConfig = { redactedFields: ['salary'] };
+      service = createService([{ provide: LOG_TRANSPORT_CONFIG, useValue: config }]);
+
+      expect(writtenMeta({ baseSalary: 1, token: 't' })).toEqual({
+        baseSalary: '[REDACTED]',
+        token: 't',
+      });
+    });
+
+    it('should serialize errors, dates and circular references', () => {
+      const error = new TypeError('boom');
+      const circular: Record<string, unknown> = { id: 1 };
+      circular['self'] = circular;
+
+      const meta = writtenMeta({
+        error,
+        at: new Date('2026-03-02T09:00:00Z'),
+        circular,
+      }) as Record<string, Record<string, unknown>>;
+
+      expect(meta['error']).toEqual(
+        expect.objectContaining({ name: 'TypeError', message: 'boom', stack: expect.any(String) }),
+      );
+      expect(meta['at']).toBe('2026-03-02T09:00:00.000Z');
+      expect(meta['circular']).toEqual({ id: 1, self: '[Circular]' });
+    });
   });
 });
@@ -8,29 +8,110 @@
  * @version 1.0.0
  */
 
-import { computed, inject, Injectable, Signal } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { inject, Injectable, Injector } from '@angular/core';
+import { Router } from '@angular/router';
+import { v4 } from 'uuid';
 
-import { AppStore } from '../store';
+import { APP_CONSTANT } from '../constants';
+import { LogContext, LogEntry, LogSink, ModuleLogger } from '../interfaces';
+import { AppStore, AuthStore, TenantStore } from '../store';
+import { LOG_SINKS, LOG_TRANSPORT_CONFIG } from '../tokens';
 import { LogLevel } from '../types';
-import { AppUtil } from '../utils';
+import { ConsoleLogSink } from './console-log-sink.service';
+import { HttpLogSink } from './http-log-sink.service';
+
+/**
+ * Metadata fields redacted when `LogTransportConfig.redactedFields` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_REDACTED_FIELDS: readonly string[] = [
+  'password',
+  'secret',
+  'token',
+  'authorization',
+  'cookie',
+  'email',
+  'phone',
+];
+
+/**
+ * Rank of each log level; a message is logged when its rank is at least the rank of
+ * the configured level.
+ *
+ * @internal
+ */
+const LOG_LEVEL_RANK: Record<LogLevel, number> = {
+  trace: 0,
+  debug: 1,
+  info: 2,
+  warn: 3,
+  error: 4,
+  fatal: 5,
+};
+
+/**
+ * Value written in place of redacted fields and email addresses.
+ *
+ * @internal
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Matches email addresses in logged strings.
+ *
+ * @internal
+ */
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
+
+/**
+ * Depth below which nested metadata is replaced with `'[Truncated]'`.
+ *
+ * @internal
+ */
+const MAX_META_DEPTH = 6;
+
+/**
+ * Lower-cases a field name and removes dashes and underscores, so that `accessToken`,
+ * `access_token` and `Access-Token` are compared alike.
+ *
+ * @param field - The field name.
+ * @returns The normalized field name.
+ * @internal
+ */
+function normalizeField(field: string): string {
+  return field.toLowerCase().replace(/[-_]/g, '');
+}
 
 /**
  * LoggerService - Provides structured logging for browser console and server-side persistence.
  *
  * This service offers a unified logging API with multiple log levels (info, warn, error,
- * debug, trace, fatal). Logs are written to the browser console and optionally sent to
- * a backend server for centralized logging and monitoring.
+ * debug, trace, fatal). Every message becomes a `LogEntry` that is written to each log
+ * sink: the browser console, the log endpoint, and any sink registered with
+ * `provideLogSinks()`.
  *
  * @remarks
- * - Supports six log levels via the `LogLevel` type: Info, Warn, Error, Debug, Trace, Fatal.
- * - Console output uses the appropriate `console.*` method for each log level.
- * - Server-side logging is only enabled in production mode (`!AppUtil.isDevMode()`).
- * - The log endpoint is dynamically read from `AppStore.config.logConfig.logEndpoint`.
- * - Server logging is fire-and-forget; failures do not affect application flow.
- * - Designed for extension with features like log batching, user context, session tracking.
- * - Uses strict typing throughout; avoids `any` type.
- * - Provided in root as a singleton service.
+ * **Level Filtering:**
+ * Messages below `AppStore.currentLogLevel()` (`LogConfig.level`, default `'info'`) are
+ * discarded before they reach any sink.
+ *
+ * **Context:**
+ * Every entry carries the tenant, user, route and application version it was logged
+ * in. `createLogger()` returns a logger that also adds a module name, so that entries
+ * from different features and micro-frontends can be filtered apart.
+ *
+ * **Sinks:**
+ * - `ConsoleLogSink` and `HttpLogSink` always receive entries. `HttpLogSink` sends them
+ *   in batches when `LogConfig.logToServer` is `true` and `LogConfig.logEndpoint` is set.
+ * - `provideLogSinks()` adds sinks, e.g., `MemoryLogSink` for a debug panel or
+ *   `IndexedDbLogSink` to keep logs across reloads and while offline.
+ * - An error thrown by a sink is ignored, so the other sinks still receive the entry.
+ *
+ * **Redaction:**
+ * Before an entry reaches the sinks, sensitive metadata fields (e.g., `email`, `token`)
+ * and email addresses in the message are replaced with `'[REDACTED]'`. `Error` objects
+ * are reduced to their name, message and stack.
  *
  * @example
  * ```typescript
@@ -52,62 +133,81 @@ import { AppUtil } from '../utils';
  *
  * // Log fatal errors (application-breaking issues)
  * this.logger.fatal('Database connection lost', { retryAttempts: 3 });
+ *
+ * // Module logger
+ * private readonly searchLogger = inject(LoggerService).createLogger('candidate.search');
+ * this.searchLogger.info('Search executed', { resultCount: 42 });
  * ```
  *
  * @see LogLevel
+ * @see LogSink
+ * @see ModuleLogger
+ * @see LogConfig
+ * @see LogTransportConfig
  * @see AppStore
- * @see AppUtil.isDevMode
  * @publicApi
  */
 @Injectable({ providedIn: 'root' })
 export class LoggerService {
   /**
-   * Angular HttpClient for sending logs to the backend server.
-   * Used only in production mode when a log endpoint is configured.
+   * Reference to the global AppStore (NgRx Signal Store).
+   * Used to access the current log level and application version.
    * @internal
    */
-  private readonly http: HttpClient = inject(HttpClient);
+  private readonly appStore = inject(AppStore);
+
+  /** @internal Source of the signed-in user of the log context. */
+  private readonly authStore = inject(AuthStore);
+
+  /** @internal Source of the tenant of the log context. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Injector used to resolve the router on first use. */
+  private readonly injector: Injector = inject(Injector);
+
+  /** @internal Sink sending entries to the log endpoint, also used by `report()`. */
+  private readonly httpSink: HttpLogSink = inject(HttpLogSink);
 
   /**
-   * Reference to the global AppStore (NgRx Signal Store).
-   * Used to access the current log configuration (`logConfig`).
+   * Destinations of the log entries: the built-in sinks followed by the provided ones.
    * @internal
    */
-  private readonly appStore = inject(AppStore);
+  private readonly sinks: LogSink[] = [
+    inject(ConsoleLogSink),
+    this.httpSink,
+    ...(inject(LOG_SINKS, { optional: true }) ?? []),
+  ];
+
+  /**
+   * Normalized names of the redacted metadata fields.
+   * @internal
+   */
+  private readonly redactedFields: string[] = (
+    inject(LOG_TRANSPORT_CONFIG, { optional: true })?.redactedFields ?? DEFAULT_REDACTED_FIELDS
+  ).map((field: string): string => normalizeField(field));
 
   /**
-   * Computed signal for the log endpoint URL from the app store configuration.
+   * Router of the application, resolved on first use (`null` without a router).
    *
-   * Returns the `logEndpoint` string if configured in `AppStore.config.logConfig`,
-   * otherwise `undefined`. This ensures the logger dynamically reads the latest
-   * endpoint from global state.
+   * The router is not injected up front because services it depends on (such as the
+   * `ErrorHandler`) may log, which would make the dependency circular.
    * @internal
    */
-  private readonly logEndpoint: Signal<string | undefined> = computed(
-    () => this.appStore.getConfig()?.logConfig?.logEndpoint,
-  );
+  private router: Router | null | undefined;
 
   /**
    * Logs a message at the specified log level.
    *
    * This is the core logging method used by all convenience methods (`info`, `warn`, etc.).
-   * It performs two operations:
-   * 1. Logs to the browser console using the appropriate `console.*` method.
-   * 2. Optionally sends the log to a backend server (production mode only).
+   * Messages below the configured log level are discarded. Otherwise a redacted
+   * `LogEntry` with the current context is written to every sink.
    *
    * @param level - The log level from the `LogLevel` type (Info, Warn, Error, Debug, Trace, Fatal).
    * @param message - The log message string describing the event.
    * @param meta - Optional metadata to include with the log (object, error, context, etc.).
    *
    * @remarks
-   * - Console methods are mapped as follows:
-   *   - `Info` → `console.info()`
-   *   - `Warn` → `console.warn()`
-   *   - `Error`, `Fatal` → `console.error()`
-   *   - `Debug` → `console.debug()`
-   *   - `Trace` → `console.trace()`
-   * - Server logging is fire-and-forget; subscription errors are silently ignored.
-   * - Server logging is disabled in development mode to avoid polluting logs.
+   * Logging never throws; errors of sinks are ignored.
    *
    * @example
    * ```typescript
@@ -117,31 +217,108 @@ export class LoggerService {
    * ```
    */
   log(level: LogLevel, message: string, meta?: unknown): void {
-    // Log to browser console using the appropriate method for the level
-    switch (level) {
-      case 'info':
-        console.info(message, meta);
-        break;
-      case 'warn':
-        console.warn(message, meta);
-        break;
-      case 'error':
-      case 'fatal':
-        console.error(message, meta);
-        break;
-      case 'debug':
-        console.debug(message, meta);
-        break;
-      case 'trace':
-        console.trace(message, meta);
-        break;
+    this.write(null, level, message, meta);
+  }
+
+  /**
+   * Creates a logger that adds a module name to the context of every entry.
+   *
+   * Use dotted names from the general to the specific (`'<feature>.<area>'`), so that
+   * log queries can match a whole feature (`module:candidate.*`).
+   *
+   * @param module - Name of the module, e.g., `'candidate.search'`.
+   * @returns A logger with the same methods as `LoggerService`.
+   *
+   * @example
+   * ```typescript
+   * @Injectable({ providedIn: 'root' })
+   * export class CandidateSearchService {
+   *   private readonly logger = inject(LoggerService).createLogger('candidate.search');
+   *
+   *   search(filters: CandidateFilters): void {
+   *     this.logger.debug('Searching', { filters });
+   *   }
+   * }
+   * ```
+   */
+  createLogger(module: string): ModuleLogger {
+    const log = (level: LogLevel, message: string, meta?: unknown): void =>
+      this.write(module, level, message, meta);
+    return {
+      module,
+      log,
+      trace: (message: string, meta?: unknown): void => log('trace', message, meta),
+      debug: (message: string, meta?: unknown): void => log('debug', message, meta),
+      info: (message: string, meta?: unknown): void => log('info', message, meta),
+      warn: (message: string, meta?: unknown): void => log('warn', message, meta),
+      error: (message: string, meta?: unknown): void => log('error', message, meta),
+      fatal: (message: string, meta?: unknown): void => log('fatal', message, meta),
+    };
+  }
+
+  /**
+   * Checks whether messages of a level are logged with the current configuration.
+   *
+   * Use to skip building expensive metadata for messages that would be discarded.
+   *
+   * @param level - The log level to check.
+   * @returns `true` if `level` is at or above `AppStore.currentLogLevel()`.
+   *
+   * @example
+   * ```typescript
+   * if (this.logger.isEnabled('debug')) {
+   *   this.logger.debug('Store snapshot', structuredClone(state));
+   * }
+   * ```
+   */
+  isEnabled(level: LogLevel): boolean {
+    const threshold: LogLevel = this.appStore.currentLogLevel() ?? APP_CONSTANT.DEFAULT_LOG_LEVEL;
+    return LOG_LEVEL_RANK[level] >= LOG_LEVEL_RANK[threshold];
+  }
+
+  /**
+   * Asks every sink to send or persist its buffered entries now.
+   *
+   * Sinks flush on their own; call this before a planned navigation away from the
+   * application.
+   *
+   * @example
+   * ```typescript
+   * this.logger.error('Checkout failed', { orderId });
+   * this.logger.flush();
+   * ```
+   */
+  flush(): void {
+    for (const sink of this.sinks) {
+      try {
+        sink.flush?.();
+      } catch {
+        // A failing sink must not break logging
+      }
     }
+  }
 
-    // Send to server in production mode if logEndpoint is configured
-    const endpoint = this.logEndpoint();
-    if (!AppUtil.isDevMode() && endpoint) {
-      // Fire-and-forget: errors in logging should not affect app flow
-      this.http.post(endpoint, { level, message, meta }).subscribe({});
+  /**
+   * Sends an `info` entry of a module to the log endpoint, whatever the configured level.
+   *
+   * For telemetry that must reach the server even when `logConfig.level` discards `info`
+   * messages, e.g., performance metrics. The entry is redacted and carries the same
+   * context as logged entries, but is written to `HttpLogSink` only.
+   *
+   * @param module - Name of the module, e.g., `'performance'`.
+   * @param message - The message of the entry.
+   * @param meta - Optional metadata.
+   *
+   * @example
+   * ```typescript
+   * this.loggerService.report('performance', 'Performance metrics', { metrics });
+   * ```
+   */
+  report(module: string, message: string, meta?: unknown): void {
+    try {
+      this.httpSink.write(this.createEntry(module, 'info', message, meta));
+    } catch {
+      // A failing sink must not break the caller
     }
   }
 
@@ -246,7 +423,8 @@ export class LoggerService {
    * @param meta - Optional metadata for tracing context.
    *
    * @remarks
-   * Uses `console.trace()` which includes a full stack trace in the console output.
+   * `ConsoleLogSink` uses `console.trace()`, which includes a full stack trace in the
+   * console output.
    *
    * @example
    * ```typescript
@@ -257,4 +435,131 @@ export class LoggerService {
   trace(message: string, meta?: unknown): void {
     this.log('trace', message, meta);
   }
+
+  /**
+   * Builds a redacted entry with its context and writes it to every sink.
+   *
+   * @param module - Module of the logger, or `null` for the root logger.
+   * @param level - Severity of the message.
+   * @param message - The log message.
+   * @param meta - Optional metadata.
+   * @internal
+   */
+  private write(module: string | null, level: LogLevel, message: string, meta: unknown): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const entry: LogEntry = this.createEntry(module, level, message, meta);
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch {
+        // A failing sink must not break logging or keep the entry from the other sinks
+      }
+    }
+  }
+
+  /**
+   * Builds a redacted entry with the current context.
+   *
+   * @param module - Module of the logger, or `null` for the root logger.
+   * @param level - Severity of the message.
+   * @param message - The log message.
+   * @param meta - Optional metadata.
+   * @internal
+   */
+  private createEntry(
+    module: string | null,
+    level: LogLevel,
+    message: string,
+    meta: unknown,
+  ): LogEntry {
+    return {
+      id: v4(),
+      level,
+      message: message.replace(EMAIL_PATTERN, REDACTED),
+      ...(meta === undefined ? {} : { meta: this.redact(meta, MAX_META_DEPTH, new WeakSet()) }),
+      timestamp: new Date().toISOString(),
+      context: this.getContext(module),
+    };
+  }
+
+  /**
+   * Returns the context of an entry logged now.
+   *
+   * @param module - Module of the logger, or `null` for the root logger.
+   * @internal
+   */
+  private getContext(module: string | null): LogContext {
+    if (this.router === undefined) {
+      this.router = this.injector.get(Router, null);
+    }
+    return {
+      module,
+      tenantId: this.tenantStore.tenantId(),
+      userId: this.authStore.userId() || null,
+      route: this.router?.url ?? null,
+      appVersion: this.appStore.getConfig()?.appVersion ?? null,
+    };
+  }
+
+  /**
+   * Returns a JSON-safe copy of logged metadata with sensitive values redacted.
+   *
+   * @param value - The value to copy.
+   * @param depth - Remaining nesting depth.
+   * @param seen - Objects already visited, to break circular references.
+   * @returns The redacted copy.
+   * @internal
+   */
+  private redact(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return value.replace(EMAIL_PATTERN, REDACTED);
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (typeof value === 'function' || typeof value === 'symbol') {
+      return undefined;
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    if (depth <= 0) {
+      return '[Truncated]';
+    }
+
+    seen.add(value);
+    if (Array.isArray(value)) {
+      return value.map((item: unknown): unknown => this.redact(item, depth - 1, seen));
+    }
+
+    const source: Record<string, unknown> =
+      value instanceof Error
+        ? { ...value, name: value.name, message: value.message, stack: value.stack }
+        : (value as Record<string, unknown>);
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(source)) {
+      copy[key] = this.isRedactedField(key) ? REDACTED : this.redact(item, depth - 1, seen);
+    }
+    return copy;
+  }
+
+  /**
+   * Checks whether the value of a metadata field must be redacted.
+   *
+   * @param key - The field name.
+   * @internal
+   */
+  private isRedactedField(key: string): boolean {
+    const normalized: string = normalizeField(key);
+    return this.redactedFields.some((field: string): boolean => normalized.includes(field));
+  }
 }
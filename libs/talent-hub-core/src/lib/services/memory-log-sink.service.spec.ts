@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Injector, runInInjectionContext } from '@angular/core';
+
+import { MemoryLogSink } from '../services';
+import { LogEntry } from '../interfaces';
+import { LOG_TRANSPORT_CONFIG } from '../tokens';
+
+describe('MemoryLogSink', () => {
+  function createSink(memoryCapacity?: number): MemoryLogSink {
+    const injector = Injector.create({
+      providers: memoryCapacity
+        ? [{ provide: LOG_TRANSPORT_CONFIG, useValue: { memoryCapacity } }]
+        : [],
+    });
+    return runInInjectionContext(injector, () => new MemoryLogSink());
+  }
+
+  /** Creates an entry with the given message. */
+  function entry(message: string): LogEntry {
+    return {
+      id: message,
+      level: 'info',
+      message,
+      timestamp: '2026-03-02T09:00:00.000Z',
+      context: { module: null, tenantId: null, userId: null, route: null, appVersion: null },
+    };
+  }
+
+  it('should keep the entries, oldest first', () => {
+    const sink = createSink();
+    sink.write(entry('1'));
+    sink.write(entry('2'));
+
+    expect(sink.entries()).toEqual([entry('1'), entry('2')]);
+  });
+
+  it('should drop the oldest entries beyond the capacity', () => {
+    const sink = createSink(2);
+    ['1', '2', '3'].forEach((message) => sink.write(entry(message)));
+
+    expect(sink.entries().map((kept) => kept.message)).toEqual(['2', '3']);
+  });
+
+  it('should keep 200 entries by default', () => {
+    const sink = createSink();
+    for (let i = 0; i < 201; i++) {
+      sink.write(entry(String(i)));
+    }
+
+    expect(sink.entries().length).toBe(200);
+    expect(sink.entries()[0].message).toBe('1');
+  });
+
+  it('should remove all entries on clear()', () => {
+    const sink = createSink();
+    sink.write(entry('1'));
+    sink.clear();
+
+    expect(sink.entries()).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { inject, Injectable, Signal, signal, WritableSignal } from '@angular/core';
+
+import { LogEntry, LogSink } from '../interfaces';
+import { LOG_TRANSPORT_CONFIG } from '../tokens';
+
+/**
+ * Number of entries kept when `LogTransportConfig.memoryCapacity` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_MEMORY_CAPACITY = 200;
+
+/**
+ * MemoryLogSink - Keeps the most recent log entries in memory, e.g., for a debug panel.
+ *
+ * Register it with `provideLogSinks(MemoryLogSink)`, then inject it where the entries
+ * are shown. Only the last `LogTransportConfig.memoryCapacity` entries (default 200)
+ * are kept; older ones are dropped.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * provideLogSinks(MemoryLogSink),
+ *
+ * // debug-panel.component.ts
+ * @Component({
+ *   template: `
+ *     @for (entry of logs.entries(); track entry.id) {
+ *       <div [class]="entry.level">{{ entry.timestamp }} {{ entry.message }}</div>
+ *     }
+ *     <button (click)="logs.clear()">Clear</button>
+ *   `,
+ * })
+ * export class DebugPanelComponent {
+ *   readonly logs = inject(MemoryLogSink);
+ * }
+ * ```
+ *
+ * @see provideLogSinks
+ * @see LogSink
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class MemoryLogSink implements LogSink {
+  /** @internal Maximum number of entries kept. */
+  private readonly capacity: number =
+    inject(LOG_TRANSPORT_CONFIG, { optional: true })?.memoryCapacity ?? DEFAULT_MEMORY_CAPACITY;
+
+  /** @internal Writable state behind `entries`. */
+  private readonly _entries: WritableSignal<LogEntry[]> = signal([]);
+
+  /**
+   * Read-only signal with the kept entries, oldest first.
+   */
+  readonly entries: Signal<LogEntry[]> = this._entries.asReadonly();
+
+  /**
+   * Keeps an entry, dropping the oldest one when the capacity is reached.
+   *
+   * @param entry - The redacted entry.
+   */
+  write(entry: LogEntry): void {
+    this._entries.update((entries: LogEntry[]): LogEntry[] =>
+      [...entries, entry].slice(-this.capacity),
+    );
+  }
+
+  /**
+   * Removes all kept entries.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="logs.clear()">Clear</button>
+   * ```
+   */
+  clear(): void {
+    this._entries.set([]);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { HttpParams } from '@angular/common/http';
+
+import { MockDatabaseService } from '../services';
+
+describe('MockDatabaseService', () => {
+  let db: MockDatabaseService;
+
+  const candidates = [
+    { id: 'c-1', firstName: 'Ada', lastName: 'Lovelace', status: 'active', score: 92 },
+    { id: 'c-2', firstName: 'Alan', lastName: 'Turing', status: 'hired', score: 88 },
+    { id: 'c-3', firstName: 'Grace', lastName: 'Hopper', status: 'active', score: 95 },
+  ];
+
+  const query = (fromString: string): HttpParams => new HttpParams({ fromString });
+
+  beforeEach(() => {
+    db = new MockDatabaseService();
+    db.seed('candidates', candidates);
+  });
+
+  describe('list', () => {
+    it('should return the first page with defaults', () => {
+      expect(db.list('candidates')).toEqual({
+        items: candidates,
+        total: 3,
+        page: 1,
+        size: 20,
+        sort: null,
+      });
+    });
+
+    it('should paginate', () => {
+      const page = db.list('candidates', query('page=2&size=2'));
+
+      expect(page.items.map((c) => c['id'])).toEqual(['c-3']);
+      expect(page.total).toBe(3);
+      expect(page.page).toBe(2);
+      expect(page.size).toBe(2);
+    });
+
+    it('should filter by field and match any repeated value', () => {
+      expect(db.list('candidates', query('status=active')).total).toBe(2);
+      expect(db.list('candidates', query('status=active&status=hired')).total).toBe(3);
+    });
+
+    it('should search text fields case-insensitively', () => {
+      expect(db.list('candidates', query('q=HOP')).items.map((c) => c['id'])).toEqual(['c-3']);
+    });
+
+    it('should sort ascending and descending', () => {
+      const byName = db.list('candidates', query('sort=lastName'));
+      const byScore = db.list('candidates', query('sort=score,desc'));
+
+      expect(byName.items.map((c) => c['id'])).toEqual(['c-3', 'c-1', 'c-2']);
+      expect(byScore.items.map((c) => c['id'])).toEqual(['c-3', 'c-1', 'c-2']);
+      expect(byScore.sort).toBe('score,desc');
+    });
+
+    it('should return an empty page for an unknown collection', () => {
+      expect(db.list('jobs').items).toEqual([]);
+    });
+  });
+
+  describe('records', () => {
+    it('should get a record by id', () => {
+      expect(db.get('candidates', 'c-2')).toEqual(candidates[1]);
+      expect(db.get('candidates', 'missing')).toBeNull();
+    });
+
+    it('should insert a record with a generated id', () => {
+      const created = db.insert('requisitions', { title: 'Frontend Engineer' });
+
+      expect(created['id']).toEqual(expect.any(String));
+      expect(db.has('requisitions')).toBe(true);
+      expect(db.get('requisitions', created['id'] as string)).toEqual(created);
+    });
+
+    it('should merge or replace on update', () => {
+      expect(db.update('candidates', 'c-1', { status: 'hired' })).toEqual({
+        ...candidates[0],
+        status: 'hired',
+      });
+      expect(db.update('candidates', 'c-2', { firstName: 'A.' }, true)).toEqual({
+        id: 'c-2',
+        firstName: 'A.',
+      });
+      expect(db.update('candidates', 'missing', {})).toBeNull();
+    });
+
+    it('should remove a record', () => {
+      expect(db.remove('candidates', 'c-1')).toBe(true);
+      expect(db.remove('candidates', 'c-1')).toBe(false);
+      expect(db.list('candidates').total).toBe(2);
+    });
+
+    it('should not share stored records with callers', () => {
+      const record = db.get('candidates', 'c-1') as Record<string, unknown>;
+      record['status'] = 'changed';
+
+      expect(db.get('candidates', 'c-1')?.['status']).toBe('active');
+    });
+
+    it('should remove every collection on reset', () => {
+      db.reset();
+      expect(db.has('candidates')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Injectable } from '@angular/core';
+import { HttpParams } from '@angular/common/http';
+import { v4 } from 'uuid';
+
+import { Page } from '../interfaces';
+
+/**
+ * Page size used when a list request has no valid `size` parameter.
+ *
+ * @internal
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Query parameters that control paging, sorting and search rather than filter by field.
+ *
+ * @internal
+ */
+const RESERVED_PARAMS: readonly string[] = ['page', 'size', 'sort', 'q'];
+
+/**
+ * MockDatabaseService - Stateful in-memory database behind the mock backend.
+ *
+ * Holds named collections of JSON records, each identified by its `id` property.
+ * `MockBackendInterceptor` seeds the collections from the JSON fixtures in the app's
+ * `src/mocks` folder and serves each of them as a REST resource, so records created,
+ * updated or deleted through the mock API are visible to later requests until the page
+ * is reloaded.
+ *
+ * @remarks
+ * **List Queries:**
+ * `list()` understands the same query parameters as the Talent Hub list endpoints:
+ * - `page` - Page number, starting at 1 (default `1`).
+ * - `size` - Items per page (default `20`).
+ * - `sort` - `field` or `field,asc|desc`.
+ * - `q` - Case-insensitive search in all text fields.
+ * - Any other parameter filters on the record field of that name; repeated
+ *   parameters match any of the values (`?status=open&status=draft`).
+ *
+ * **Isolation:**
+ * Records are copied on the way in and out, so callers cannot change stored records
+ * by mutating the objects they receive.
+ *
+ * @example
+ * ```typescript
+ * // Custom mock handler with access to the database
+ * {
+ *   provide: MOCK_HANDLERS,
+ *   multi: true,
+ *   useFactory: (): MockHandler => {
+ *     const db = inject(MockDatabaseService);
+ *     return {
+ *       method: 'POST',
+ *       path: '/requisitions/{id}/approve',
+ *       handle: ({ params }) => {
+ *         const requisition = db.update('requisitions', params['id'], { status: 'approved' });
+ *         return requisition ? { body: requisition } : { status: 404 };
+ *       },
+ *     };
+ *   },
+ * }
+ * ```
+ *
+ * @see MockBackendInterceptor
+ * @see MockBackendConfig
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class MockDatabaseService {
+  /**
+   * Records of every collection, by collection name.
+   * @internal
+   */
+  private readonly collections = new Map<string, Record<string, unknown>[]>();
+
+  /**
+   * Replaces the records of a collection.
+   *
+   * @param collection - Name of the collection (e.g., `'candidates'`).
+   * @param records - Records to store.
+   *
+   * @example
+   * ```typescript
+   * db.seed('candidates', [{ id: 'c-1', firstName: 'Ada', lastName: 'Lovelace' }]);
+   * ```
+   */
+  seed(collection: string, records: Record<string, unknown>[]): void {
+    this.collections.set(collection, structuredClone(records));
+  }
+
+  /**
+   * Checks whether a collection exists.
+   *
+   * @param collection - Name of the collection.
+   * @returns `true` if the collection was seeded or has had records inserted.
+   */
+  has(collection: string): boolean {
+    return this.collections.has(collection);
+  }
+
+  /**
+   * Returns one page of the records of a collection.
+   *
+   * @param collection - Name of the collection.
+   * @param query - Paging, sorting, search and filter parameters.
+   * @returns The requested page; empty if the collection does not exist.
+   *
+   * @example
+   * ```typescript
+   * db.list('candidates', new HttpParams({ fromString: 'status=active&sort=lastName&page=2' }));
+   * // { items: [...], total: 42, page: 2, size: 20, sort: 'lastName' }
+   * ```
+   */
+  list(collection: string, query: HttpParams = new HttpParams()): Page<Record<string, unknown>> {
+    const page: number = this.toPositiveInteger(query.get('page'), 1);
+    const size: number = this.toPositiveInteger(query.get('size'), DEFAULT_PAGE_SIZE);
+    const sort: string | null = query.get('sort');
+    const search: string = (query.get('q') ?? '').toLowerCase();
+
+    let records: Record<string, unknown>[] = (this.collections.get(collection) ?? []).filter(
+      (record: Record<string, unknown>): boolean =>
+        query
+          .keys()
+          .filter((key: string): boolean => !RESERVED_PARAMS.includes(key))
+          .every((key: string): boolean =>
+            (query.getAll(key) ?? []).includes(String(record[key])),
+          ) &&
+        (!search ||
+          Object.values(record).some(
+            (value: unknown): boolean =>
+              typeof value === 'string' && value.toLowerCase().includes(search),
+          )),
+    );
+
+    if (sort) {
+      const [field, direction] = sort.split(',');
+      const order: number = direction?.toLowerCase() === 'desc' ? -1 : 1;
+      records = [...records].sort(
+        (a: Record<string, unknown>, b: Record<string, unknown>): number =>
+          this.compare(a[field], b[field]) * order,
+      );
+    }
+
+    return {
+      items: structuredClone(records.slice((page - 1) * size, page * size)),
+      total: records.length,
+      page,
+      size,
+      sort,
+    };
+  }
+
+  /**
+   * Returns a record by id.
+   *
+   * @param collection - Name of the collection.
+   * @param id - Id of the record.
+   * @returns A copy of the record, or `null` if it does not exist.
+   */
+  get(collection: string, id: string): Record<string, unknown> | null {
+    const record: Record<string, unknown> | undefined = this.find(collection, id);
+    return record ? structuredClone(record) : null;
+  }
+
+  /**
+   * Adds a record to a collection, creating the collection if needed.
+   *
+   * @param collection - Name of the collection.
+   * @param record - Record to add; an `id` is generated when it has none.
+   * @returns A copy of the stored record.
+   *
+   * @example
+   * ```typescript
+   * const requisition = db.insert('requisitions', { title: 'Frontend Engineer' });
+   * // { id: '3f2b…', title: 'Frontend Engineer' }
+   * ```
+   */
+  insert(collection: string, record: Record<string, unknown>): Record<string, unknown> {
+    const stored: Record<string, unknown> = {
+      ...structuredClone(record),
+      id: record['id'] ?? v4(),
+    };
+    this.collections.set(collection, [...(this.collections.get(collection) ?? []), stored]);
+    return structuredClone(stored);
+  }
+
+  /**
+   * Updates a record.
+   *
+   * @param collection - Name of the collection.
+   * @param id - Id of the record.
+   * @param changes - Fields to change, or the whole record when `replace` is `true`.
+   * @param replace - `true` to replace the record (PUT), `false` to merge (PATCH).
+   * @returns A copy of the updated record, or `null` if it does not exist.
+   */
+  update(
+    collection: string,
+    id: string,
+    changes: Record<string, unknown>,
+    replace = false,
+  ): Record<string, unknown> | null {
+    const record: Record<string, unknown> | undefined = this.find(collection, id);
+    if (!record) {
+      return null;
+    }
+
+    const updated: Record<string, unknown> = replace
+      ? { ...structuredClone(changes), id: record['id'] }
+      : { ...record, ...structuredClone(changes), id: record['id'] };
+    this.collections.set(
+      collection,
+      (this.collections.get(collection) ?? []).map(
+        (item: Record<string, unknown>): Record<string, unknown> =>
+          item === record ? updated : item,
+      ),
+    );
+    return structuredClone(updated);
+  }
+
+  /**
+   * Deletes a record.
+   *
+   * @param collection - Name of the collection.
+   * @param id - Id of the record.
+   * @returns `true` if the record existed.
+   */
+  remove(collection: string, id: string): boolean {
+    const record: Record<string, unknown> | undefined = this.find(collection, id);
+    if (!record) {
+      return false;
+    }
+    this.collections.set(
+      collection,
+      (this.collections.get(collection) ?? []).filter(
+        (item: Record<string, unknown>): boolean => item !== record,
+      ),
+    );
+    return true;
+  }
+
+  /**
+   * Removes every collection.
+   *
+   * The next mock request seeds the configured fixtures again.
+   */
+  reset(): void {
+    this.collections.clear();
+  }
+
+  /**
+   * Returns the stored record with the given id.
+   *
+   * @internal
+   */
+  private find(collection: string, id: string): Record<string, unknown> | undefined {
+    return this.collections
+      .get(collection)
+      ?.find((record: Record<string, unknown>): boolean => String(record['id']) === id);
+  }
+
+  /**
+   * Orders two field values; numbers numerically, everything else as text.
+   *
+   * @internal
+   */
+  private compare(a: unknown, b: unknown): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+      return a - b;
+    }
+    return String(a ?? '').localeCompare(String(b ?? ''));
+  }
+
+  /**
+   * Parses a positive integer query parameter.
+   *
+   * @internal
+   */
+  private toPositiveInteger(value: string | null, fallback: number): number {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+  }
+}
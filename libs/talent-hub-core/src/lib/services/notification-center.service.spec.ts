@@ -0,0 +1,246 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Injector, runInInjectionContext } from '@angular/core';
+
+import { APP_CONSTANT } from '../constants';
+import { ApiError } from '../models';
+import { EventBusService, NotificationCenterService } from '../services';
+import { NOTIFICATION_CONFIG } from '../tokens';
+
+describe('NotificationCenterService', () => {
+  let service: NotificationCenterService;
+  let eventBus: EventBusService;
+
+  function createService(providers: { provide: unknown; useValue: unknown }[] = []) {
+    const injector = Injector.create({
+      providers: [{ provide: EventBusService, useValue: eventBus }, ...providers],
+    });
+    return runInInjectionContext(injector, () => new NotificationCenterService());
+  }
+
+  const apiError = (status: number, error: unknown = null): ApiError =>
+    new ApiError(new HttpErrorResponse({ status, error, url: '/api/candidates' }), 'GET');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    eventBus = new EventBusService();
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.ngOnDestroy();
+    vi.useRealTimers();
+  });
+
+  describe('show', () => {
+    it('should add a notification with defaults', () => {
+      const id = service.show({ message: 'Saved' });
+
+      expect(service.notifications()).toEqual([
+        {
+          id,
+          severity: 'info',
+          title: null,
+          message: 'Saved',
+          actions: [],
+          duration: 5_000,
+          dedupeKey: 'info||Saved',
+          count: 1,
+          raisedAt: Date.parse('2026-03-02T09:00:00Z'),
+        },
+      ]);
+    });
+
+    it('should provide a shortcut per severity', () => {
+      service.info('a');
+      service.success('b');
+      service.warning('c');
+      service.error('d', { title: 'Failed' });
+
+      expect(service.notifications().map((n) => [n.severity, n.message, n.title])).toEqual([
+        ['info', 'a', null],
+        ['success', 'b', null],
+        ['warning', 'c', null],
+        ['error', 'd', 'Failed'],
+      ]);
+    });
+
+    it('should count repeats instead of showing them twice', () => {
+      const id = service.error('Offline');
+      vi.advanceTimersByTime(1_000);
+
+      expect(service.error('Offline')).toBe(id);
+      expect(service.notifications()).toHaveLength(1);
+      expect(service.notifications()[0].count).toBe(2);
+      expect(service.notifications()[0].raisedAt).toBe(Date.parse('2026-03-02T09:00:01Z'));
+    });
+
+    it('should dedupe by the given key', () => {
+      service.info('Uploading 1 file', { dedupeKey: 'upload' });
+      service.info('Uploading 2 files', { dedupeKey: 'upload' });
+
+      expect(service.notifications()).toHaveLength(1);
+    });
+
+    it('should dismiss the oldest notification above maxVisible', () => {
+      service = createService([{ provide: NOTIFICATION_CONFIG, useValue: { maxVisible: 2 } }]);
+      service.error('a');
+      service.error('b');
+      service.error('c');
+
+      expect(service.notifications().map((n) => n.message)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('auto-dismiss', () => {
+    it('should dismiss after the duration of the severity', () => {
+      service.success('Saved');
+      service.warning('Careful');
+
+      vi.advanceTimersByTime(5_000);
+      expect(service.notifications().map((n) => n.message)).toEqual(['Careful']);
+
+      vi.advanceTimersByTime(3_000);
+      expect(service.notifications()).toEqual([]);
+    });
+
+    it('should keep errors until dismissed', () => {
+      service.error('Failed');
+      vi.advanceTimersByTime(60_000);
+
+      expect(service.notifications()).toHaveLength(1);
+    });
+
+    it('should use the requested or configured duration', () => {
+      service = createService([
+        { provide: NOTIFICATION_CONFIG, useValue: { durations: { error: 10_000 } } },
+      ]);
+      service.error('Failed');
+      service.info('Sticky', { duration: 0 });
+
+      vi.advanceTimersByTime(10_000);
+      expect(service.notifications().map((n) => n.message)).toEqual(['Sticky']);
+    });
+
+    it('should restart the duration on a repeat', () => {
+      service.info('Saved');
+      vi.advanceTimersByTime(4_000);
+      service.info('Saved');
+      vi.advanceTimersByTime(4_000);
+
+      expect(service.notifications()).toHaveLength(1);
+      vi.advanceTimersByTime(1_000);
+      expect(service.notifications()).toEqual([]);
+    });
+  });
+
+  describe('dismiss and actions', () => {
+    it('should dismiss one or all notifications', () => {
+      const id = service.error('a');
+      service.error('b');
+
+      service.dismiss(id);
+      expect(service.notifications().map((n) => n.message)).toEqual(['b']);
+
+      service.clear();
+      expect(service.notifications()).toEqual([]);
+    });
+
+    it('should run an action and dismiss the notification', () => {
+      const handler = vi.fn();
+      const id = service.success('Archived', { actions: [{ label: 'Undo', handler }] });
+
+      service.runAction(id, 0);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(service.notifications()).toEqual([]);
+    });
+
+    it('should ignore unknown actions', () => {
+      const id = service.error('Failed');
+
+      service.runAction(id, 0);
+      service.runAction('unknown', 0);
+
+      expect(service.notifications()).toHaveLength(1);
+    });
+  });
+
+  describe('event bus', () => {
+    beforeEach(() => {
+      service.start();
+    });
+
+    it('should show HTTP errors with their user-safe message', () => {
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR, apiError(404));
+
+      expect(service.notifications()).toMatchObject([
+        { severity: 'error', message: apiError(404).message },
+      ]);
+    });
+
+    it('should show repeated HTTP errors once', () => {
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR, apiError(503));
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR, apiError(503));
+
+      expect(service.notifications()).toHaveLength(1);
+      expect(service.notifications()[0].count).toBe(2);
+    });
+
+    it('should not show errors handled elsewhere', () => {
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR, apiError(401));
+      eventBus.publish(
+        APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR,
+        apiError(422, { errors: { email: ['is invalid'] } }),
+      );
+
+      expect(service.notifications()).toEqual([]);
+    });
+
+    it('should show unknown errors with a generic message', () => {
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_UNKNOWN_ERROR, {
+        error: new Error(),
+        requestId: null,
+        traceId: null,
+      });
+
+      expect(service.notifications()).toMatchObject([
+        { severity: 'error', message: 'Something went wrong. Please try again later.' },
+      ]);
+    });
+
+    it('should show notifications published by remotes', () => {
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.NOTIFICATION_SHOW, {
+        severity: 'warning',
+        message: 'Posting expires tomorrow',
+      });
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.NOTIFICATION_SHOW);
+
+      expect(service.notifications()).toMatchObject([
+        { severity: 'warning', message: 'Posting expires tomorrow' },
+      ]);
+    });
+
+    it('should subscribe once and stop on destroy', () => {
+      const unknownError = { error: new Error(), requestId: null, traceId: null };
+      service.start();
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_UNKNOWN_ERROR, unknownError);
+      expect(service.notifications()[0].count).toBe(1);
+
+      service.ngOnDestroy();
+      eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_UNKNOWN_ERROR, unknownError);
+      expect(service.notifications()).toEqual([]);
+    });
+  });
+});
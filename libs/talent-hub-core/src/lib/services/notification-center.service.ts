@@ -0,0 +1,444 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { inject, Injectable, OnDestroy, Signal, signal, WritableSignal } from '@angular/core';
+import { merge, Observable, Subscription } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import { v4 } from 'uuid';
+
+import { APP_CONSTANT } from '../constants';
+import {
+  AppNotification,
+  EventSubscribeOptions,
+  NotificationConfig,
+  NotificationRequest,
+} from '../interfaces';
+import { ApiError, EventMetaData } from '../models';
+import { NOTIFICATION_CONFIG } from '../tokens';
+import { NotificationSeverity } from '../types';
+import { EventBusService } from './event-bus.service';
+
+/**
+ * Notification settings used when `NOTIFICATION_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_NOTIFICATION_CONFIG: Required<NotificationConfig> = {
+  durations: { info: 5_000, success: 5_000, warning: 8_000, error: 0 },
+  maxVisible: 5,
+};
+
+/**
+ * Message shown for errors that are not HTTP error responses.
+ *
+ * @internal
+ */
+const UNKNOWN_ERROR_MESSAGE = 'Something went wrong. Please try again later.';
+
+/**
+ * Name of the service's event bus subscriptions, shown by the event inspector.
+ *
+ * @internal
+ */
+const EVENT_SUBSCRIBER: EventSubscribeOptions = { subscriber: 'NotificationCenterService' };
+
+/**
+ * NotificationCenterService - Shows notifications (toasts) raised anywhere in the application.
+ *
+ * Holds the notifications currently on screen in the `notifications` signal, which the
+ * notification center of the host renders as Siemens iX toasts. Notifications are raised
+ * with `show()` (or `info()`, `success()`, `warning()`, `error()`), or by publishing a
+ * `NotificationRequest` under `EVENT_BUS_KEYS.NOTIFICATION_SHOW`, so remotes can show
+ * notifications without importing the host.
+ *
+ * @remarks
+ * **HTTP Errors:**
+ * Once started, failed requests published by `ErrorHandlingInterceptor` are shown as error
+ * notifications with the user-safe `ApiError.message`. Errors handled elsewhere are not
+ * shown: 401 Unauthorized (handled by `AuthInterceptor`) and validation errors with field
+ * errors (shown next to the form fields through `ApiError.applyToForm()`).
+ *
+ * **Repeats:**
+ * A notification raised while another with the same `dedupeKey` is on screen is not shown
+ * twice; the visible one increments its `count` and restarts its duration. The key defaults
+ * to the severity, title and message.
+ *
+ * **Duration:**
+ * Notifications are dismissed after the duration of their severity (`NotificationConfig`),
+ * or `NotificationRequest.duration`. Errors stay until dismissed by default. When more than
+ * `maxVisible` notifications are on screen, the oldest is dismissed.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts (host)
+ * provideAppInitializer(() => {
+ *   inject(NotificationCenterService).start();
+ * }),
+ *
+ * // Any component of the host
+ * this.notificationCenter.success('Candidate archived', {
+ *   actions: [{ label: 'Undo', handler: () => this.restore(candidate) }],
+ * });
+ *
+ * // Any remote, without depending on the host
+ * this.eventBus.publish(APP_CONSTANT.EVENT_BUS_KEYS.NOTIFICATION_SHOW, {
+ *   severity: 'warning',
+ *   message: 'The job posting expires tomorrow.',
+ * });
+ * ```
+ *
+ * @see NotificationRequest
+ * @see AppNotification
+ * @see provideNotificationConfig
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class NotificationCenterService implements OnDestroy {
+  /** @internal Event bus on which errors and notification requests are received. */
+  private readonly eventBus: EventBusService = inject(EventBusService);
+
+  /**
+   * Effective notification configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<NotificationConfig>;
+
+  /** @internal Writable state behind `notifications`. */
+  private readonly _notifications: WritableSignal<AppNotification[]> = signal([]);
+
+  /** @internal Timers that dismiss notifications, by notification id. */
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /** @internal Subscription to the event bus, while started. */
+  private subscription: Subscription | null = null;
+
+  /**
+   * Read-only signal with the notifications on screen, oldest first.
+   *
+   * @example
+   * ```typescript
+   * // @for (notification of notificationCenter.notifications(); track notification.id) {
+   * //   <ix-toast [type]="notification.severity">{{ notification.message }}</ix-toast>
+   * // }
+   * ```
+   */
+  readonly notifications: Signal<AppNotification[]> = this._notifications.asReadonly();
+
+  constructor() {
+    const config: NotificationConfig | null = inject(NOTIFICATION_CONFIG, { optional: true });
+    this.config = {
+      ...DEFAULT_NOTIFICATION_CONFIG,
+      ...config,
+      durations: { ...DEFAULT_NOTIFICATION_CONFIG.durations, ...config?.durations },
+    };
+  }
+
+  /**
+   * Starts showing HTTP errors and the notifications published on the event bus.
+   *
+   * Call once at application startup, in the host; calling `start()` again has no effect.
+   *
+   * @example
+   * ```typescript
+   * provideAppInitializer(() => {
+   *   inject(NotificationCenterService).start();
+   * }),
+   * ```
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    const httpErrors: Observable<NotificationRequest> = this.eventBus
+      .on(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_ERROR, EVENT_SUBSCRIBER)
+      .pipe(
+        map((event: EventMetaData<ApiError>): ApiError | undefined => event.data),
+        filter((error: ApiError | undefined): error is ApiError => this.shouldShow(error)),
+        map(
+          (error: ApiError): NotificationRequest => ({
+            severity: 'error',
+            message: error.message,
+          }),
+        ),
+      );
+    const unknownErrors: Observable<NotificationRequest> = this.eventBus
+      .on(APP_CONSTANT.EVENT_BUS_KEYS.HTTP_UNKNOWN_ERROR, EVENT_SUBSCRIBER)
+      .pipe(
+        map((): NotificationRequest => ({ severity: 'error', message: UNKNOWN_ERROR_MESSAGE })),
+      );
+    const requests: Observable<NotificationRequest> = this.eventBus
+      .on(APP_CONSTANT.EVENT_BUS_KEYS.NOTIFICATION_SHOW, EVENT_SUBSCRIBER)
+      .pipe(
+        map(
+          (event: EventMetaData<NotificationRequest>): NotificationRequest | undefined =>
+            event.data,
+        ),
+        filter(
+          (request: NotificationRequest | undefined): request is NotificationRequest =>
+            !!request?.message,
+        ),
+      );
+
+    this.subscription = merge(httpErrors, unknownErrors, requests).subscribe(
+      (request: NotificationRequest): void => {
+        this.show(request);
+      },
+    );
+  }
+
+  /**
+   * Shows a notification, or counts a repeat of the visible one with the same `dedupeKey`.
+   *
+   * @param request - The notification to show.
+   * @returns The id of the notification on screen.
+   *
+   * @example
+   * ```typescript
+   * const id = this.notificationCenter.show({
+   *   severity: 'error',
+   *   title: 'Upload failed',
+   *   message: 'The resume could not be uploaded.',
+   *   actions: [{ label: 'Retry', handler: () => this.upload(file) }],
+   * });
+   * ```
+   */
+  show(request: NotificationRequest): string {
+    const severity: NotificationSeverity = request.severity ?? 'info';
+    const title: string | null = request.title ?? null;
+    const dedupeKey: string = request.dedupeKey ?? `${severity}|${title ?? ''}|${request.message}`;
+    const duration: number = request.duration ?? this.config.durations[severity] ?? 0;
+
+    const repeated: AppNotification | undefined = this._notifications().find(
+      (notification: AppNotification): boolean => notification.dedupeKey === dedupeKey,
+    );
+    if (repeated) {
+      const updated: AppNotification = {
+        ...repeated,
+        count: repeated.count + 1,
+        raisedAt: Date.now(),
+      };
+      this._notifications.update((notifications: AppNotification[]): AppNotification[] =>
+        notifications.map(
+          (notification: AppNotification): AppNotification =>
+            notification.id === repeated.id ? updated : notification,
+        ),
+      );
+      this.scheduleDismiss(updated);
+      return repeated.id;
+    }
+
+    const notification: AppNotification = {
+      id: v4(),
+      severity,
+      title,
+      message: request.message,
+      actions: request.actions ?? [],
+      duration,
+      dedupeKey,
+      count: 1,
+      raisedAt: Date.now(),
+    };
+    this._notifications.update((notifications: AppNotification[]): AppNotification[] => [
+      ...notifications,
+      notification,
+    ]);
+    this.scheduleDismiss(notification);
+
+    const overflow: AppNotification[] = this._notifications().slice(
+      0,
+      Math.max(0, this._notifications().length - this.config.maxVisible),
+    );
+    overflow.forEach((oldest: AppNotification): void => this.dismiss(oldest.id));
+    return notification.id;
+  }
+
+  /**
+   * Shows an information notification.
+   *
+   * @param message - Text of the notification.
+   * @param options - Title, actions, duration or dedupe key of the notification.
+   * @returns The id of the notification on screen.
+   *
+   * @example
+   * ```typescript
+   * this.notificationCenter.info('A new version of the interview guide is available.');
+   * ```
+   */
+  info(message: string, options?: Omit<NotificationRequest, 'message' | 'severity'>): string {
+    return this.show({ ...options, message, severity: 'info' });
+  }
+
+  /**
+   * Shows a success notification.
+   *
+   * @param message - Text of the notification.
+   * @param options - Title, actions, duration or dedupe key of the notification.
+   * @returns The id of the notification on screen.
+   *
+   * @example
+   * ```typescript
+   * this.notificationCenter.success('Candidate archived', {
+   *   actions: [{ label: 'Undo', handler: () => this.restore(candidate) }],
+   * });
+   * ```
+   */
+  success(message: string, options?: Omit<NotificationRequest, 'message' | 'severity'>): string {
+    return this.show({ ...options, message, severity: 'success' });
+  }
+
+  /**
+   * Shows a warning notification.
+   *
+   * @param message - Text of the notification.
+   * @param options - Title, actions, duration or dedupe key of the notification.
+   * @returns The id of the notification on screen.
+   *
+   * @example
+   * ```typescript
+   * this.notificationCenter.warning('You are offline. Changes will be sent when you reconnect.');
+   * ```
+   */
+  warning(message: string, options?: Omit<NotificationRequest, 'message' | 'severity'>): string {
+    return this.show({ ...options, message, severity: 'warning' });
+  }
+
+  /**
+   * Shows an error notification.
+   *
+   * @param message - Text of the notification.
+   * @param options - Title, actions, duration or dedupe key of the notification.
+   * @returns The id of the notification on screen.
+   *
+   * @example
+   * ```typescript
+   * this.notificationCenter.error('The offer could not be sent.', {
+   *   actions: [{ label: 'Retry', handler: () => this.sendOffer() }],
+   * });
+   * ```
+   */
+  error(message: string, options?: Omit<NotificationRequest, 'message' | 'severity'>): string {
+    return this.show({ ...options, message, severity: 'error' });
+  }
+
+  /**
+   * Removes a notification from the screen.
+   *
+   * @param id - Id of the notification; unknown ids are ignored.
+   *
+   * @example
+   * ```typescript
+   * // <ix-toast (closeToast)="notificationCenter.dismiss(notification.id)">
+   * ```
+   */
+  dismiss(id: string): void {
+    this.clearTimer(id);
+    this._notifications.update((notifications: AppNotification[]): AppNotification[] =>
+      notifications.filter((notification: AppNotification): boolean => notification.id !== id),
+    );
+  }
+
+  /**
+   * Removes every notification from the screen.
+   *
+   * @example
+   * ```typescript
+   * // Start over after the user signs out
+   * this.notificationCenter.clear();
+   * ```
+   */
+  clear(): void {
+    this.timers.forEach((timer: ReturnType<typeof setTimeout>): void => clearTimeout(timer));
+    this.timers.clear();
+    this._notifications.set([]);
+  }
+
+  /**
+   * Runs an action of a notification and dismisses the notification.
+   *
+   * @param id - Id of the notification.
+   * @param index - Index of the action in `AppNotification.actions`.
+   *
+   * @example
+   * ```typescript
+   * // @for (action of notification.actions; track $index) {
+   * //   <ix-button (click)="notificationCenter.runAction(notification.id, $index)">
+   * //     {{ action.label }}
+   * //   </ix-button>
+   * // }
+   * ```
+   */
+  runAction(id: string, index: number): void {
+    const notification: AppNotification | undefined = this._notifications().find(
+      (candidate: AppNotification): boolean => candidate.id === id,
+    );
+    const action = notification?.actions[index];
+    if (!action) {
+      return;
+    }
+    this.dismiss(id);
+    action.handler();
+  }
+
+  /**
+   * Stops listening to the event bus and cancels the dismiss timers.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.clear();
+  }
+
+  /**
+   * Returns whether an HTTP error is shown, or handled elsewhere.
+   *
+   * @param error - The error published by `ErrorHandlingInterceptor`.
+   * @internal
+   */
+  private shouldShow(error: ApiError | undefined): error is ApiError {
+    if (!error || error.status === 401) {
+      return false;
+    }
+    return Object.keys(error.fieldErrors ?? {}).length === 0;
+  }
+
+  /**
+   * (Re)starts the timer that dismisses a notification after its duration.
+   *
+   * @param notification - The notification to dismiss.
+   * @internal
+   */
+  private scheduleDismiss(notification: AppNotification): void {
+    this.clearTimer(notification.id);
+    if (notification.duration <= 0) {
+      return;
+    }
+    this.timers.set(
+      notification.id,
+      setTimeout((): void => this.dismiss(notification.id), notification.duration),
+    );
+  }
+
+  /**
+   * Cancels the dismiss timer of a notification, if any.
+   *
+   * @param id - Id of the notification.
+   * @internal
+   */
+  private clearTimer(id: string): void {
+    const timer: ReturnType<typeof setTimeout> | undefined = this.timers.get(id);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext, signal } from '@angular/core';
+import { firstValueFrom, Observable, of } from 'rxjs';
+
+import { IndexedDbService, OfflineCacheService } from '../services';
+import { AuthStore, TenantStore } from '../store';
+import { OFFLINE_CACHE_CONFIG } from '../tokens';
+
+const HOUR = 3_600_000;
+
+describe('OfflineCacheService', () => {
+  let service: OfflineCacheService;
+  let tenantId: ReturnType<typeof signal<string | null>>;
+  let userId: ReturnType<typeof signal<string>>;
+  let stored: Map<IDBValidKey, unknown>;
+  let window: EventTarget & { navigator: { onLine: boolean } };
+  let mockIndexedDb: {
+    get: (store: string, key: IDBValidKey) => Observable<unknown>;
+    put: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+    clear: ReturnType<typeof vi.fn>;
+  };
+
+  function createService(providers: { provide: unknown; useValue: unknown }[] = []) {
+    const injector = Injector.create({
+      providers: [
+        { provide: IndexedDbService, useValue: mockIndexedDb },
+        { provide: TenantStore, useValue: { tenantId } },
+        { provide: AuthStore, useValue: { userId } },
+        { provide: DOCUMENT, useValue: { defaultView: window } },
+        ...providers,
+      ],
+    });
+    return runInInjectionContext(injector, () => new OfflineCacheService());
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    tenantId = signal<string | null>('acme');
+    userId = signal('user-1');
+    stored = new Map();
+    window = Object.assign(new EventTarget(), { navigator: { onLine: true } });
+    mockIndexedDb = {
+      get: (_store, key) => of(stored.get(key)),
+      put: vi.fn((_store: string, key: IDBValidKey, value: unknown) => {
+        stored.set(key, value);
+        return of(undefined);
+      }),
+      delete: vi.fn((_store: string, key: IDBValidKey) => {
+        stored.delete(key);
+        return of(undefined);
+      }),
+      clear: vi.fn(() => of(undefined)),
+    };
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.ngOnDestroy();
+    vi.useRealTimers();
+  });
+
+  describe('storage', () => {
+    it('should store responses per tenant', async () => {
+      await firstValueFrom(service.put('/api/candidates', ['ann']));
+
+      expect(await firstValueFrom(service.get('/api/candidates'))).toEqual({
+        tenantId: 'acme',
+        userId: 'user-1',
+        url: '/api/candidates',
+        body: ['ann'],
+        storedAt: Date.now(),
+      });
+      expect(mockIndexedDb.put).toHaveBeenCalledWith(
+        'offline-responses',
+        'acme user-1 /api/candidates',
+        expect.anything(),
+      );
+
+      tenantId.set('globex');
+      expect(await firstValueFrom(service.get('/api/candidates'))).toBeNull();
+    });
+
+    it('should store responses per user', async () => {
+      await firstValueFrom(service.put('/api/candidates', ['ann']));
+      expect(await firstValueFrom(service.get('/api/candidates'))).not.toBeNull();
+
+      userId.set('user-2');
+      expect(await firstValueFrom(service.get('/api/candidates'))).toBeNull();
+    });
+
+    it('should remove responses older than maxAge', async () => {
+      service = createService([{ provide: OFFLINE_CACHE_CONFIG, useValue: { maxAge: HOUR } }]);
+      await firstValueFrom(service.put('/api/candidates', []));
+
+      vi.advanceTimersByTime(HOUR);
+      expect(await firstValueFrom(service.get('/api/candidates'))).not.toBeNull();
+
+      vi.advanceTimersByTime(1);
+      expect(await firstValueFrom(service.get('/api/candidates'))).toBeNull();
+      expect(stored.size).toBe(0);
+    });
+
+    it('should clear every response', async () => {
+      await firstValueFrom(service.clear());
+      expect(mockIndexedDb.clear).toHaveBeenCalledWith('offline-responses');
+    });
+  });
+
+  describe('sync status', () => {
+    it('should follow the network status of the browser', () => {
+      expect(service.isOffline()).toBe(false);
+
+      window.dispatchEvent(new Event('offline'));
+      expect(service.isOffline()).toBe(true);
+
+      window.dispatchEvent(new Event('online'));
+      expect(service.isOffline()).toBe(false);
+    });
+
+    it('should start offline when the browser is offline', () => {
+      window.navigator.onLine = false;
+      expect(createService().isOffline()).toBe(true);
+    });
+
+    it('should record the time of the last response', () => {
+      expect(service.lastSyncedAt()).toBeNull();
+      service.markOffline();
+
+      service.markSynced();
+      expect(service.isOffline()).toBe(false);
+      expect(service.lastSyncedAt()).toBe(Date.now());
+    });
+
+    it('should keep the time of the last response while offline', () => {
+      service.markSynced();
+      const syncedAt = Date.now();
+      vi.advanceTimersByTime(HOUR);
+
+      service.markOffline(Date.now() - 2 * HOUR);
+      expect(service.isOffline()).toBe(true);
+      expect(service.lastSyncedAt()).toBe(syncedAt);
+    });
+
+    it('should use the oldest response served before any sync', () => {
+      service.markOffline(Date.now() - HOUR);
+      service.markOffline(Date.now() - 2 * HOUR);
+      service.markOffline(Date.now() - 0.5 * HOUR);
+
+      expect(service.lastSyncedAt()).toBe(Date.now() - 2 * HOUR);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  DOCUMENT,
+  inject,
+  Injectable,
+  OnDestroy,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+
+import { OfflineCacheConfig, OfflineCacheEntry } from '../interfaces';
+import { AuthStore, TenantStore } from '../store';
+import { OFFLINE_CACHE_CONFIG } from '../tokens';
+import { IndexedDbService } from './indexed-db.service';
+
+/**
+ * Offline cache settings used when `OFFLINE_CACHE_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_OFFLINE_CACHE_CONFIG: Required<OfflineCacheConfig> = {
+  maxAge: 604_800_000,
+};
+
+/**
+ * IndexedDB store holding the responses.
+ *
+ * @internal
+ */
+const OFFLINE_RESPONSES_STORE = 'offline-responses';
+
+/**
+ * OfflineCacheService - Persistent store of GET responses for offline reads, with sync status.
+ *
+ * `OfflineCacheInterceptor` writes the successful JSON GET responses of requests that opt
+ * in (`HttpOptions.offline`) to IndexedDB and, when the network is down, answers the
+ * request with the stored response instead.
+ * The service also tracks whether the application is offline and when it last
+ * received a response from the server, so that the UI can tell the user they are
+ * looking at cached data.
+ *
+ * @remarks
+ * **Scope:**
+ * Responses are stored per tenant, user and URL; neither another tenant nor another
+ * user signed in on the same browser reads them. `AuthService` clears the store when
+ * the session ends. Responses older than `OfflineCacheConfig.maxAge` (7 days by default) are not
+ * served and are removed when read.
+ *
+ * **Sync Status:**
+ * - `isOffline` becomes `true` when the browser goes offline or a request fails with a
+ *   network error, and `false` when the browser is back online or a response arrives.
+ * - `lastSyncedAt` is the time of the last response received from the server. After
+ *   a reload without network, it is the time of the oldest cached response served.
+ *
+ * **Storage:**
+ * The responses survive reloads and browser restarts, unlike the in-memory
+ * `HttpCacheService`. Writes that fail (IndexedDB unavailable, quota exceeded) are
+ * logged and otherwise ignored.
+ *
+ * @example
+ * ```typescript
+ * @Component({
+ *   template: `
+ *     @if (offlineCache.isOffline()) {
+ *       <ix-message-bar type="warning">
+ *         Offline - viewing cached data from {{ offlineCache.lastSyncedAt() | date: 'short' }}
+ *       </ix-message-bar>
+ *     }
+ *   `,
+ * })
+ * export class OfflineBannerComponent {
+ *   readonly offlineCache = inject(OfflineCacheService);
+ * }
+ * ```
+ *
+ * @see OfflineCacheInterceptor
+ * @see OfflineCacheConfig
+ * @see IndexedDbService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class OfflineCacheService implements OnDestroy {
+  /** @internal Database holding the responses. */
+  private readonly indexedDb: IndexedDbService = inject(IndexedDbService);
+
+  /** @internal Source of the current tenant. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Source of the signed-in user. */
+  private readonly authStore = inject(AuthStore);
+
+  /** @internal Window of the current tab, or `null` outside the browser. */
+  private readonly window: (Window & typeof globalThis) | null =
+    inject(DOCUMENT).defaultView ?? null;
+
+  /**
+   * Effective offline cache configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<OfflineCacheConfig> = {
+    ...DEFAULT_OFFLINE_CACHE_CONFIG,
+    ...inject(OFFLINE_CACHE_CONFIG, { optional: true }),
+  };
+
+  /** @internal Writable state behind `isOffline`. */
+  private readonly _isOffline: WritableSignal<boolean> = signal(
+    this.window?.navigator?.onLine === false,
+  );
+
+  /** @internal Writable state behind `lastSyncedAt`. */
+  private readonly _lastSyncedAt: WritableSignal<number | null> = signal(null);
+
+  /** @internal Whether a response was received from the server since the page loaded. */
+  private synced = false;
+
+  /** @internal Listener for the `online` event of the window. */
+  private readonly onOnline = (): void => this._isOffline.set(false);
+
+  /** @internal Listener for the `offline` event of the window. */
+  private readonly onOffline = (): void => this._isOffline.set(true);
+
+  /**
+   * Read-only signal that is `true` while the server cannot be reached.
+   *
+   * @example
+   * ```typescript
+   * // @if (offlineCache.isOffline()) { <p>You are offline</p> }
+   * ```
+   */
+  readonly isOffline: Signal<boolean> = this._isOffline.asReadonly();
+
+  /**
+   * Read-only signal with the time data was last received from the server, in
+   * milliseconds since epoch, or `null` if none was received or served yet.
+   *
+   * @example
+   * ```typescript
+   * // <p>Last synced {{ offlineCache.lastSyncedAt() | date: 'shortTime' }}</p>
+   * ```
+   */
+  readonly lastSyncedAt: Signal<number | null> = this._lastSyncedAt.asReadonly();
+
+  constructor() {
+    this.window?.addEventListener('online', this.onOnline);
+    this.window?.addEventListener('offline', this.onOffline);
+  }
+
+  /**
+   * Reads the stored response for a URL of the current tenant and user.
+   *
+   * @param url - URL with query parameters.
+   * @returns Observable of the entry, or `null` if none or expired.
+   *
+   * @example
+   * ```typescript
+   * this.offlineCache.get('/api/candidates?page=1').subscribe((entry) => {
+   *   this.candidates.set((entry?.body as Candidate[]) ?? []);
+   * });
+   * ```
+   */
+  get(url: string): Observable<OfflineCacheEntry | null> {
+    const key: string = this.getKey(url);
+    return this.indexedDb.get<OfflineCacheEntry>(OFFLINE_RESPONSES_STORE, key).pipe(
+      switchMap((entry: OfflineCacheEntry | undefined): Observable<OfflineCacheEntry | null> => {
+        if (!entry) {
+          return of(null);
+        }
+        if (Date.now() - entry.storedAt > this.config.maxAge) {
+          return this.indexedDb.delete(OFFLINE_RESPONSES_STORE, key).pipe(map((): null => null));
+        }
+        return of(entry);
+      }),
+    );
+  }
+
+  /**
+   * Stores a response body for a URL of the current tenant and user.
+   *
+   * @param url - URL with query parameters.
+   * @param body - Parsed JSON body of the response.
+   *
+   * @example
+   * ```typescript
+   * this.offlineCache.put('/api/candidates?page=1', candidates).subscribe();
+   * ```
+   */
+  put(url: string, body: unknown): Observable<void> {
+    const entry: OfflineCacheEntry = {
+      tenantId: this.tenantStore.tenantId() ?? '',
+      userId: this.authStore.userId(),
+      url,
+      body,
+      storedAt: Date.now(),
+    };
+    return this.indexedDb.put(OFFLINE_RESPONSES_STORE, this.getKey(url), entry);
+  }
+
+  /**
+   * Removes every stored response, for every tenant and user.
+   *
+   * Called by `AuthService` when the session ends.
+   *
+   * @example
+   * ```typescript
+   * this.offlineCache.clear().subscribe();
+   * ```
+   */
+  clear(): Observable<void> {
+    return this.indexedDb.clear(OFFLINE_RESPONSES_STORE);
+  }
+
+  /**
+   * Records that a response was received from the server.
+   *
+   * Called by `OfflineCacheInterceptor`.
+   *
+   * @example
+   * ```typescript
+   * this.offlineCache.markSynced();
+   * ```
+   */
+  markSynced(): void {
+    this.synced = true;
+    this._isOffline.set(false);
+    this._lastSyncedAt.set(Date.now());
+  }
+
+  /**
+   * Records that the server could not be reached.
+   *
+   * Called by `OfflineCacheInterceptor`.
+   *
+   * @param storedAt - Time of the cached response served instead, if any.
+   *
+   * @example
+   * ```typescript
+   * this.offlineCache.markOffline(entry.storedAt);
+   * ```
+   */
+  markOffline(storedAt?: number): void {
+    this._isOffline.set(true);
+    const lastSyncedAt: number | null = this._lastSyncedAt();
+    if (
+      !this.synced &&
+      storedAt !== undefined &&
+      (lastSyncedAt === null || storedAt < lastSyncedAt)
+    ) {
+      this._lastSyncedAt.set(storedAt);
+    }
+  }
+
+  /**
+   * Stops listening to the network status of the window.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.window?.removeEventListener('online', this.onOnline);
+    this.window?.removeEventListener('offline', this.onOffline);
+  }
+
+  /**
+   * Builds the key of a URL for the current tenant and user.
+   *
+   * @param url - URL with query parameters.
+   * @internal
+   */
+  private getKey(url: string): string {
+    return `${this.tenantStore.tenantId() ?? ''} ${this.authStore.userId()} ${url}`;
+  }
+}
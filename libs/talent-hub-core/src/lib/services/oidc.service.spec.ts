@@ -0,0 +1,548 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext, signal } from '@angular/core';
+import {
+  HttpClient,
+  HttpContext,
+  HttpErrorResponse,
+  HttpHandler,
+  HttpParams,
+  HttpRequest,
+} from '@angular/common/http';
+import { Router } from '@angular/router';
+import { firstValueFrom, Observable, of, throwError } from 'rxjs';
+
+import {
+  ApiService,
+  AuthService,
+  LoggerService,
+  MockDatabaseService,
+  OfflineCacheService,
+  OidcService,
+  SessionSyncService,
+  StorageService,
+} from '../services';
+import { mockIdentityProviderGuard } from '../guards';
+import { MockBackendInterceptor } from '../interceptors';
+import { OidcConfig, OidcDiscoveryDocument, TokenResponse, User } from '../interfaces';
+import { AuthStore, TenantStore } from '../store';
+import { provideMockBackendConfig, provideMockIdentityProvider, SKIP_AUTH } from '../tokens';
+import { AppUtil, PkceUtil } from '../utils';
+
+const ISSUER = 'https://idp.test/realms/acme';
+
+const discovery: OidcDiscoveryDocument = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  end_session_endpoint: `${ISSUER}/logout`,
+};
+
+/** Encodes a payload as an unsigned JWT. */
+function createJwt(payload: object): string {
+  const encode = (value: object): string => btoa(JSON.stringify(value)).replace(/=+$/, '');
+  return `${encode({ alg: 'RS256' })}.${encode(payload)}.signature`;
+}
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let oidcConfig: ReturnType<typeof signal<OidcConfig | null>>;
+  let storage: Map<string, unknown>;
+  let mockHttp: { get: ReturnType<typeof vi.fn>; post: ReturnType<typeof vi.fn> };
+  let mockAuthService: {
+    startSession: ReturnType<typeof vi.fn>;
+    logout: ReturnType<typeof vi.fn>;
+    restoreSession: ReturnType<typeof vi.fn>;
+    useTokenRefresher: ReturnType<typeof vi.fn>;
+  };
+  let mockDocument: { location: { origin: string; assign: ReturnType<typeof vi.fn> } };
+
+  /** Runs `signIn()` and returns the authorization request parameters sent to the IdP. */
+  async function signIn(returnUrl?: string): Promise<URLSearchParams> {
+    await firstValueFrom(service.signIn(returnUrl), { defaultValue: undefined });
+    return new URL(mockDocument.location.assign.mock.lastCall?.[0]).searchParams;
+  }
+
+  /** Simulates the IdP issuing tokens for the pending authorization request. */
+  function issueTokens(claims: Record<string, unknown> = {}): void {
+    const nonce = (storage.get('th_oidc_request') as { nonce: string }).nonce;
+    mockHttp.post.mockReturnValue(
+      of({
+        access_token: 'access-1',
+        refresh_token: 'refresh-1',
+        expires_in: 300,
+        id_token: createJwt({
+          iss: ISSUER,
+          aud: 'talent-hub-web',
+          sub: 'user-42',
+          email: 'jane@acme.com',
+          given_name: 'Jane',
+          family_name: 'Doe',
+          roles: ['recruiter'],
+          nonce,
+          exp: Math.floor(Date.now() / 1000) + 300,
+          ...claims,
+        }),
+      }),
+    );
+  }
+
+  beforeEach(() => {
+    oidcConfig = signal<OidcConfig | null>({ issuer: ISSUER, clientId: 'talent-hub-web' });
+    storage = new Map();
+    mockHttp = { get: vi.fn().mockReturnValue(of(discovery)), post: vi.fn() };
+    mockAuthService = {
+      startSession: vi.fn(),
+      logout: vi.fn(),
+      restoreSession: vi.fn().mockReturnValue(true),
+      useTokenRefresher: vi.fn(),
+    };
+    mockDocument = { location: { origin: 'https://app.test', assign: vi.fn() } };
+
+    const injector = Injector.create({
+      providers: [
+        { provide: TenantStore, useValue: { oidcConfig } },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: HttpClient, useValue: mockHttp },
+        { provide: DOCUMENT, useValue: mockDocument },
+        {
+          provide: StorageService,
+          useValue: {
+            getItem: vi.fn((key: string) => storage.get(key) ?? null),
+            setItem: vi.fn((key: string, value: unknown) => storage.set(key, value)),
+            removeItem: vi.fn((key: string) => storage.delete(key)),
+          },
+        },
+      ],
+    });
+    service = runInInjectionContext(injector, () => new OidcService());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('isEnabled', () => {
+    it('should reflect whether the tenant has OIDC settings', () => {
+      expect(service.isEnabled()).toBe(true);
+      oidcConfig.set(null);
+      expect(service.isEnabled()).toBe(false);
+    });
+  });
+
+  describe('loadDiscoveryDocument', () => {
+    it('should load the well-known configuration without authentication', async () => {
+      await firstValueFrom(service.loadDiscoveryDocument(`${ISSUER}/`));
+      const [url, options] = mockHttp.get.mock.calls[0];
+      expect(url).toBe(`${ISSUER}/.well-known/openid-configuration`);
+      expect((options.context as HttpContext).get(SKIP_AUTH)).toBe(true);
+    });
+
+    it('should request the document once per issuer', async () => {
+      await firstValueFrom(service.loadDiscoveryDocument(ISSUER));
+      await firstValueFrom(service.loadDiscoveryDocument(ISSUER));
+      expect(mockHttp.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache a failed request', async () => {
+      mockHttp.get.mockReturnValueOnce(throwError(() => new Error('offline')));
+      await expect(firstValueFrom(service.loadDiscoveryDocument(ISSUER))).rejects.toThrow();
+      await firstValueFrom(service.loadDiscoveryDocument(ISSUER));
+      expect(mockHttp.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('signIn', () => {
+    it('should redirect to the authorization endpoint with PKCE, state and nonce', async () => {
+      const params = await signIn('/candidates');
+      const request = storage.get('th_oidc_request') as Record<string, string>;
+
+      expect(mockDocument.location.assign.mock.calls[0][0]).toMatch(`${ISSUER}/authorize?`);
+      expect(params.get('response_type')).toBe('code');
+      expect(params.get('client_id')).toBe('talent-hub-web');
+      expect(params.get('redirect_uri')).toBe('https://app.test/auth/callback');
+      expect(params.get('scope')).toBe('openid profile email offline_access');
+      expect(params.get('state')).toBe(request['state']);
+      expect(params.get('nonce')).toBe(request['nonce']);
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('code_challenge')).toBe(
+        await PkceUtil.createCodeChallenge(request['codeVerifier']),
+      );
+      expect(request['returnUrl']).toBe('/candidates');
+    });
+
+    it('should use the configured redirect URI and scope', async () => {
+      oidcConfig.set({
+        issuer: ISSUER,
+        clientId: 'talent-hub-web',
+        redirectUri: 'https://acme.talent-hub.com/sso',
+        scope: 'openid',
+      });
+      const params = await signIn();
+      expect(params.get('redirect_uri')).toBe('https://acme.talent-hub.com/sso');
+      expect(params.get('scope')).toBe('openid');
+    });
+
+    it('should error when the tenant has no OIDC settings', async () => {
+      oidcConfig.set(null);
+      await expect(firstValueFrom(service.signIn())).rejects.toThrow('not configured');
+      expect(mockDocument.location.assign).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleCallback', () => {
+    let state: string;
+
+    beforeEach(async () => {
+      state = (await signIn('/candidates')).get('state') as string;
+    });
+
+    it('should exchange the code with the code verifier and start the session', async () => {
+      const { codeVerifier } = storage.get('th_oidc_request') as { codeVerifier: string };
+      issueTokens();
+
+      const returnUrl = await firstValueFrom(service.handleCallback({ code: 'code-1', state }));
+
+      const [url, body, options] = mockHttp.post.mock.calls[0];
+      expect(url).toBe(`${ISSUER}/token`);
+      expect((body as HttpParams).get('grant_type')).toBe('authorization_code');
+      expect((body as HttpParams).get('code')).toBe('code-1');
+      expect((body as HttpParams).get('code_verifier')).toBe(codeVerifier);
+      expect((body as HttpParams).get('redirect_uri')).toBe('https://app.test/auth/callback');
+      expect((options.context as HttpContext).get(SKIP_AUTH)).toBe(true);
+      expect(mockAuthService.startSession).toHaveBeenCalledWith({
+        accessToken: 'access-1',
+        refreshToken: 'refresh-1',
+        expiresIn: 300,
+        user: {
+          id: 'user-42',
+          email: 'jane@acme.com',
+          firstName: 'Jane',
+          lastName: 'Doe',
+          roles: ['recruiter'],
+          permissions: [],
+        },
+      });
+      expect(mockAuthService.useTokenRefresher).toHaveBeenCalledWith(expect.any(Function));
+      expect(returnUrl).toBe('/candidates');
+    });
+
+    it('should consume the sign-in request so the callback cannot be replayed', async () => {
+      issueTokens();
+      await firstValueFrom(service.handleCallback({ code: 'code-1', state }));
+      await expect(
+        firstValueFrom(service.handleCallback({ code: 'code-1', state })),
+      ).rejects.toThrow('state');
+    });
+
+    it('should reject a callback with a different state', async () => {
+      await expect(
+        firstValueFrom(service.handleCallback({ code: 'code-1', state: 'forged' })),
+      ).rejects.toThrow('state does not match');
+      expect(mockHttp.post).not.toHaveBeenCalled();
+    });
+
+    it('should report an error returned by the identity provider', async () => {
+      await expect(
+        firstValueFrom(
+          service.handleCallback({ error: 'access_denied', error_description: 'User cancelled' }),
+        ),
+      ).rejects.toThrow('access_denied: User cancelled');
+    });
+
+    it('should reject an ID token with a different nonce', async () => {
+      issueTokens({ nonce: 'replayed' });
+      await expect(
+        firstValueFrom(service.handleCallback({ code: 'code-1', state })),
+      ).rejects.toThrow('nonce');
+      expect(mockAuthService.startSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject an ID token from another issuer or for another client', async () => {
+      issueTokens({ iss: 'https://evil.test' });
+      await expect(
+        firstValueFrom(service.handleCallback({ code: 'code-1', state })),
+      ).rejects.toThrow('issuer');
+
+      state = (await signIn()).get('state') as string;
+      issueTokens({ aud: ['another-client'] });
+      await expect(
+        firstValueFrom(service.handleCallback({ code: 'code-1', state })),
+      ).rejects.toThrow('another client');
+    });
+
+    it('should reject an expired ID token', async () => {
+      issueTokens({ exp: 1 });
+      await expect(
+        firstValueFrom(service.handleCallback({ code: 'code-1', state })),
+      ).rejects.toThrow('expired');
+    });
+  });
+
+  describe('silent renew', () => {
+    it('should register a refresher that uses the refresh-token grant', async () => {
+      service.initialize();
+      const refresher = mockAuthService.useTokenRefresher.mock.calls[0][0];
+      mockHttp.post.mockReturnValue(
+        of({ access_token: 'access-2', refresh_token: 'refresh-2', expires_in: 300 }),
+      );
+
+      const tokens = await firstValueFrom(refresher('refresh-1'));
+
+      const body = mockHttp.post.mock.calls[0][1] as HttpParams;
+      expect(body.get('grant_type')).toBe('refresh_token');
+      expect(body.get('refresh_token')).toBe('refresh-1');
+      expect(body.get('client_id')).toBe('talent-hub-web');
+      expect(tokens).toEqual({
+        accessToken: 'access-2',
+        refreshToken: 'refresh-2',
+        expiresIn: 300,
+      });
+    });
+
+    it('should register the refresher before restoring the session of a reloaded page', () => {
+      mockAuthService.restoreSession.mockImplementation(() => {
+        expect(mockAuthService.useTokenRefresher).toHaveBeenCalledWith(expect.any(Function));
+        return true;
+      });
+
+      expect(service.restoreSession()).toBe(true);
+      expect(mockAuthService.restoreSession).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore the default refresher for tenants without OIDC', () => {
+      oidcConfig.set(null);
+      service.initialize();
+      expect(mockAuthService.useTokenRefresher).toHaveBeenCalledWith(null);
+    });
+  });
+
+  describe('page reload', () => {
+    let authService: AuthService;
+    let mockApi: { post: ReturnType<typeof vi.fn> };
+    const user: User = {
+      id: 'user-42',
+      email: 'jane@acme.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      roles: [],
+      permissions: [],
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      let session: { token: string; user: User; refreshToken: string | null } | null = null;
+      mockApi = { post: vi.fn() };
+      const storageService = {
+        getItem: vi.fn((key: string) => storage.get(key) ?? null),
+        setItem: vi.fn((key: string, value: unknown) => storage.set(key, value)),
+        removeItem: vi.fn((key: string) => storage.delete(key)),
+      };
+
+      const injector = Injector.create({
+        providers: [
+          { provide: TenantStore, useValue: { oidcConfig } },
+          { provide: HttpClient, useValue: mockHttp },
+          { provide: DOCUMENT, useValue: mockDocument },
+          { provide: StorageService, useValue: storageService },
+          { provide: ApiService, useValue: mockApi },
+          { provide: Router, useValue: { navigateByUrl: vi.fn().mockResolvedValue(true) } },
+          { provide: SessionSyncService, useValue: { messages$: of(), publish: vi.fn() } },
+          { provide: OfflineCacheService, useValue: { clear: () => of(undefined) } },
+          {
+            provide: AuthStore,
+            useValue: {
+              setSession: (token: string, sessionUser: User, refreshToken: string | null) =>
+                (session = { token, user: sessionUser, refreshToken }),
+              setTokens: (token: string, refreshToken: string | null) =>
+                (session = session && { ...session, token, refreshToken }),
+              getToken: () => session?.token ?? null,
+              refreshToken: () => session?.refreshToken ?? null,
+              user: () => session?.user ?? null,
+              tokenExpiresAt: () => null,
+            },
+          },
+        ],
+      });
+      authService = runInInjectionContext(injector, () => new AuthService());
+      service = runInInjectionContext(
+        Injector.create({
+          providers: [{ provide: AuthService, useValue: authService }],
+          parent: injector,
+        }),
+        () => new OidcService(),
+      );
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should renew a restored session at the identity provider', async () => {
+      // Persisted by the tab that signed in; its access token has expired since
+      storage.set('th_auth_session', {
+        token: createJwt({ sub: 'user-42', exp: Math.floor(Date.now() / 1000) - 60 }),
+        refreshToken: 'refresh-1',
+        user,
+      });
+      mockHttp.post.mockReturnValue(
+        of({ access_token: 'access-2', refresh_token: 'refresh-2', expires_in: 300 }),
+      );
+
+      expect(service.restoreSession()).toBe(true);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        discovery.token_endpoint,
+        expect.any(HttpParams),
+        expect.anything(),
+      );
+      expect((mockHttp.post.mock.calls[0][1] as HttpParams).get('refresh_token')).toBe('refresh-1');
+      expect(mockApi.post).not.toHaveBeenCalled();
+      expect(authService.getToken()).toBe('access-2');
+    });
+  });
+
+  describe('signOut', () => {
+    it('should end the local session and redirect to the end-session endpoint', async () => {
+      storage.set('th_oidc_id_token', 'id-token-1');
+      await firstValueFrom(service.signOut(), { defaultValue: undefined });
+
+      expect(mockAuthService.logout).toHaveBeenCalled();
+      const params = new URL(mockDocument.location.assign.mock.calls[0][0]).searchParams;
+      expect(params.get('id_token_hint')).toBe('id-token-1');
+      expect(params.get('post_logout_redirect_uri')).toBe('https://app.test/');
+      expect(storage.has('th_oidc_id_token')).toBe(false);
+    });
+
+    it('should only end the local session for tenants without OIDC', async () => {
+      oidcConfig.set(null);
+      await firstValueFrom(service.signOut(), { defaultValue: undefined });
+      expect(mockAuthService.logout).toHaveBeenCalled();
+      expect(mockDocument.location.assign).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('round trip with the mock identity provider', () => {
+    let injector: Injector;
+
+    /**
+     * Opens the authorization URL passed to the browser, as the host route does, and
+     * returns the query parameters of the callback URL it redirects to.
+     */
+    async function authorize(): Promise<Record<string, string>> {
+      const authorizationUrl: string = mockDocument.location.assign.mock.lastCall?.[0];
+      const callbackUrl = (await firstValueFrom(
+        runInInjectionContext(injector, () =>
+          mockIdentityProviderGuard({} as any, { url: authorizationUrl } as any),
+        ) as Observable<unknown>,
+      )) as string;
+      expect(callbackUrl).toMatch(/^\/auth\/callback\?code=/);
+      return Object.fromEntries(new URL(callbackUrl, 'https://app.test').searchParams);
+    }
+
+    beforeEach(() => {
+      vi.spyOn(AppUtil, 'isDevMode').mockReturnValue(true);
+      oidcConfig.set({ issuer: '/mocks/oidc', clientId: 'talent-hub-web' });
+
+      const mockLogger = { log: vi.fn(), warn: vi.fn() };
+      const backend: MockBackendInterceptor = runInInjectionContext(
+        Injector.create({
+          providers: [
+            ...provideMockIdentityProvider({ user: { id: 'u-7', email: 'ada@acme.com' } }),
+            provideMockBackendConfig({ minLatency: 0, maxLatency: 0 }),
+            { provide: MockDatabaseService, useValue: new MockDatabaseService() },
+            { provide: LoggerService, useValue: mockLogger },
+          ],
+        }),
+        () => new MockBackendInterceptor(),
+      );
+      const notFound: HttpHandler = {
+        handle: () => throwError(() => new HttpErrorResponse({ status: 404 })),
+      };
+      const http = new HttpClient({
+        handle: (req: HttpRequest<unknown>) => backend.intercept(req, notFound),
+      });
+
+      injector = Injector.create({
+        providers: [
+          { provide: HttpClient, useValue: http },
+          { provide: LoggerService, useValue: mockLogger },
+          { provide: Router, useValue: { parseUrl: (url: string) => url } },
+        ],
+        parent: Injector.create({
+          providers: [
+            { provide: TenantStore, useValue: { oidcConfig } },
+            { provide: AuthService, useValue: mockAuthService },
+            { provide: DOCUMENT, useValue: mockDocument },
+            {
+              provide: StorageService,
+              useValue: {
+                getItem: vi.fn((key: string) => storage.get(key) ?? null),
+                setItem: vi.fn((key: string, value: unknown) => storage.set(key, value)),
+                removeItem: vi.fn((key: string) => storage.delete(key)),
+              },
+            },
+          ],
+        }),
+      });
+      service = runInInjectionContext(injector, () => new OidcService());
+    });
+
+    it('should sign in through the authorize, callback and token endpoints and renew', async () => {
+      await firstValueFrom(service.signIn('/candidates'), { defaultValue: undefined });
+      expect(mockDocument.location.assign.mock.lastCall?.[0]).toMatch(
+        /^\/mocks\/oidc\/authorize\?/,
+      );
+
+      const params = await authorize();
+      const returnUrl = await firstValueFrom(service.handleCallback(params));
+
+      expect(returnUrl).toBe('/candidates');
+      expect(mockAuthService.startSession).toHaveBeenCalledWith({
+        accessToken: expect.any(String),
+        refreshToken: expect.any(String),
+        expiresIn: 3600,
+        user: {
+          id: 'u-7',
+          email: 'ada@acme.com',
+          firstName: 'Jane',
+          lastName: 'Doe',
+          roles: ['recruiter'],
+          permissions: [],
+        },
+      });
+
+      const { refreshToken } = mockAuthService.startSession.mock.calls[0][0] as TokenResponse;
+      const refresher = mockAuthService.useTokenRefresher.mock.lastCall?.[0];
+      const renewed: TokenResponse = await firstValueFrom(refresher(refreshToken));
+      expect(renewed).toEqual({
+        accessToken: expect.any(String),
+        refreshToken: expect.any(String),
+        expiresIn: 3600,
+      });
+    });
+
+    it('should reject a callback whose code was issued for another verifier', async () => {
+      await firstValueFrom(service.signIn(), { defaultValue: undefined });
+      const params = await authorize();
+      const request = storage.get('th_oidc_request') as { codeVerifier: string };
+      request.codeVerifier = PkceUtil.createCodeVerifier();
+
+      const error = await firstValueFrom(service.handleCallback(params)).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpErrorResponse);
+      expect((error as HttpErrorResponse).error).toMatchObject({ error: 'invalid_grant' });
+      expect(mockAuthService.startSession).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,575 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { computed, DOCUMENT, inject, Injectable, Signal } from '@angular/core';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, map, shareReplay, switchMap, tap } from 'rxjs/operators';
+
+import { TenantStore } from '../store';
+import {
+  JwtClaims,
+  OidcConfig,
+  OidcDiscoveryDocument,
+  OidcTokenResponse,
+  TokenResponse,
+  User,
+} from '../interfaces';
+import { SKIP_AUTH } from '../tokens';
+import { JwtUtil, PkceUtil } from '../utils';
+import { AuthService } from './auth.service';
+import { StorageService } from './storage.service';
+
+/**
+ * Scopes requested when `OidcConfig.scope` is not set.
+ *
+ * @internal
+ */
+const DEFAULT_OIDC_SCOPE = 'openid profile email offline_access';
+
+/**
+ * Path of the callback route used when `OidcConfig.redirectUri` is not set.
+ *
+ * @internal
+ */
+const DEFAULT_CALLBACK_PATH = '/auth/callback';
+
+/**
+ * Session storage key of the authorization request awaiting its callback.
+ *
+ * @internal
+ */
+const OIDC_REQUEST_STORAGE_KEY = 'th_oidc_request';
+
+/**
+ * Session storage key of the ID token, used as `id_token_hint` on sign-out.
+ *
+ * @internal
+ */
+const OIDC_ID_TOKEN_STORAGE_KEY = 'th_oidc_id_token';
+
+/**
+ * Authorization request persisted across the redirect to the identity provider.
+ *
+ * @internal
+ */
+interface OidcAuthorizationRequest {
+  /** Opaque value echoed back by the identity provider; protects against CSRF. */
+  state: string;
+
+  /** Value the identity provider must embed in the ID token; protects against replay. */
+  nonce: string;
+
+  /** PKCE code verifier sent with the code exchange. */
+  codeVerifier: string;
+
+  /** Redirect URI used for the request; must be repeated in the code exchange. */
+  redirectUri: string;
+
+  /** In-app URL to navigate to once the sign-in has completed. */
+  returnUrl: string;
+}
+
+/**
+ * OidcService - Signs users in through their tenant's OpenID Connect identity provider.
+ *
+ * Implements the OAuth 2.0 authorization-code flow with PKCE for tenants whose
+ * `TenantPreference.oidc` is set. The resulting tokens and user are handed to
+ * `AuthService`, so guards, `AuthInterceptor` and the rest of the app work exactly as
+ * after a password sign-in.
+ *
+ * @remarks
+ * **Flow:**
+ * 1. `signIn()` loads the discovery document, creates `state`, `nonce` and a PKCE code
+ *    verifier, stores them in `sessionStorage` and redirects to the authorization endpoint.
+ * 2. The identity provider redirects back to the callback route, where
+ *    `oidcCallbackGuard` calls `handleCallback()`.
+ * 3. `handleCallback()` validates `state`, exchanges the code (with the code verifier)
+ *    at the token endpoint, validates the ID token's `nonce`, `iss`, `aud` and `exp`,
+ *    and starts the session through `AuthService.startSession()`.
+ *
+ * **Silent Renew:**
+ * `initialize()` registers a `TokenRefresher` with `AuthService`, so the 401 retry in
+ * `AuthInterceptor` and the proactive expiry timer renew tokens with the refresh-token
+ * grant at the identity provider's token endpoint, without a redirect. Request the
+ * `offline_access` scope (the default) so that a refresh token is issued.
+ *
+ * **Page Reloads:**
+ * `handleCallback()` only runs in the tab that comes back from the identity provider.
+ * At startup, `restoreSession()` registers silent renew before handing over to
+ * `AuthService.restoreSession()`, so a restored OIDC session is not refreshed against
+ * `AuthConfig.refreshEndpoint` with the identity provider's refresh token.
+ *
+ * **Security Considerations:**
+ * - The authorization request is single-use; it is removed as soon as the callback runs.
+ * - ID token claims are validated, but its signature is not; the access token is
+ *   verified by the Talent Hub API on every request.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts - restore the session, and register silent renew again once the
+ * // tenant is loaded or switched
+ * provideAppInitializer(() => {
+ *   const oidc = inject(OidcService);
+ *   oidc.restoreSession();
+ *   effect(() => {
+ *     oidc.isEnabled();
+ *     untracked(() => oidc.initialize());
+ *   });
+ * }),
+ *
+ * // app.routes.ts - callback route
+ * { path: 'auth/callback', canActivate: [oidcCallbackGuard], children: [] },
+ *
+ * // login.component.ts
+ * signIn(): void {
+ *   if (this.oidc.isEnabled()) {
+ *     this.oidc.signIn('/dashboard').subscribe();
+ *   }
+ * }
+ * ```
+ *
+ * @see OidcConfig
+ * @see oidcCallbackGuard
+ * @see AuthService
+ * @see https://openid.net/specs/openid-connect-core-1_0.html
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class OidcService {
+  /** @internal Source of the tenant's OIDC settings. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Session facade that receives the tokens and user. */
+  private readonly authService: AuthService = inject(AuthService);
+
+  /** @internal Service used to keep the authorization request across the redirect. */
+  private readonly storage: StorageService = inject(StorageService);
+
+  /**
+   * HTTP client used to call the identity provider directly.
+   *
+   * `ApiService` is not used: the identity provider is not the Talent Hub API and the
+   * token endpoint requires form-encoded POST requests.
+   * @internal
+   */
+  private readonly http: HttpClient = inject(HttpClient);
+
+  /** @internal Document used to read the origin and to redirect the browser. */
+  private readonly document: Document = inject(DOCUMENT);
+
+  /**
+   * Discovery documents by issuer, shared by concurrent callers.
+   * @internal
+   */
+  private readonly discoveryDocuments = new Map<string, Observable<OidcDiscoveryDocument>>();
+
+  /**
+   * Read-only signal that is `true` when the current tenant signs in through OIDC.
+   *
+   * @example
+   * ```typescript
+   * // @if (oidc.isEnabled()) {
+   * //   <button (click)="oidc.signIn().subscribe()">Sign in with SSO</button>
+   * // }
+   * ```
+   */
+  readonly isEnabled: Signal<boolean> = computed(
+    (): boolean => this.tenantStore.oidcConfig() !== null,
+  );
+
+  /**
+   * Registers silent renew with `AuthService` when the current tenant uses OIDC.
+   *
+   * Call this once the tenant preference has been loaded, and again after switching
+   * tenants. For tenants without OIDC the default refresh endpoint is restored.
+   *
+   * @example
+   * ```typescript
+   * this.tenantStore.initialize(tenant, preference);
+   * this.oidcService.initialize();
+   * ```
+   */
+  initialize(): void {
+    this.authService.useTokenRefresher(
+      this.isEnabled() ? (refreshToken: string) => this.renewTokens(refreshToken) : null,
+    );
+  }
+
+  /**
+   * Restores the persisted session after a page reload, renewing OIDC sessions silently.
+   *
+   * Registers silent renew for the current tenant, then calls
+   * `AuthService.restoreSession()`. Call it at startup in place of
+   * `AuthService.restoreSession()`.
+   *
+   * @returns `true` if a valid session was restored, `false` otherwise.
+   *
+   * @example
+   * ```typescript
+   * provideAppInitializer(() => {
+   *   inject(OidcService).restoreSession();
+   * }),
+   * ```
+   */
+  restoreSession(): boolean {
+    // Before restoring: an expired session with a refresh token is refreshed right away
+    this.initialize();
+    return this.authService.restoreSession();
+  }
+
+  /**
+   * Starts the sign-in by redirecting the browser to the identity provider.
+   *
+   * @param returnUrl - In-app URL to open after the sign-in has completed.
+   * @returns An Observable that completes once the redirect has been started, or errors
+   * if the tenant has no OIDC settings or the discovery document cannot be loaded.
+   *
+   * @example
+   * ```typescript
+   * this.oidcService.signIn(this.route.snapshot.queryParams['returnUrl'] ?? '/').subscribe();
+   * ```
+   */
+  signIn(returnUrl = '/'): Observable<void> {
+    const config: OidcConfig | null = this.tenantStore.oidcConfig();
+    if (!config) {
+      return throwError((): Error => new Error('OIDC is not configured for the current tenant'));
+    }
+
+    const codeVerifier: string = PkceUtil.createCodeVerifier();
+    const request: OidcAuthorizationRequest = {
+      state: PkceUtil.createRandomString(),
+      nonce: PkceUtil.createRandomString(),
+      codeVerifier,
+      redirectUri: config.redirectUri ?? `${this.document.location.origin}${DEFAULT_CALLBACK_PATH}`,
+      returnUrl,
+    };
+
+    return this.loadDiscoveryDocument(config.issuer).pipe(
+      switchMap((discovery: OidcDiscoveryDocument) =>
+        from(PkceUtil.createCodeChallenge(codeVerifier)).pipe(
+          map((codeChallenge: string): string => {
+            const params = new HttpParams({
+              fromObject: {
+                response_type: 'code',
+                client_id: config.clientId,
+                redirect_uri: request.redirectUri,
+                scope: config.scope ?? DEFAULT_OIDC_SCOPE,
+                state: request.state,
+                nonce: request.nonce,
+                code_challenge: codeChallenge,
+                code_challenge_method: 'S256',
+              },
+            });
+            return `${discovery.authorization_endpoint}?${params.toString()}`;
+          }),
+        ),
+      ),
+      map((authorizationUrl: string): void => {
+        this.storage.setItem(OIDC_REQUEST_STORAGE_KEY, request, 'session');
+        this.document.location.assign(authorizationUrl);
+      }),
+    );
+  }
+
+  /**
+   * Completes the sign-in when the identity provider redirects back.
+   *
+   * Validates the callback against the stored authorization request, exchanges the
+   * authorization code for tokens, validates the ID token and starts the session.
+   * The stored request is removed first, so a callback URL cannot be replayed.
+   *
+   * @param params - Query parameters of the callback URL (`code`, `state` or `error`).
+   * @returns An Observable that emits the in-app URL passed to `signIn()`, or errors if
+   * the callback is invalid or the code exchange fails.
+   *
+   * @example
+   * ```typescript
+   * this.oidcService
+   *   .handleCallback(this.route.snapshot.queryParams)
+   *   .subscribe((returnUrl) => this.router.navigateByUrl(returnUrl));
+   * ```
+   */
+  handleCallback(params: Record<string, string | undefined>): Observable<string> {
+    const request: OidcAuthorizationRequest | null = this.storage.getItem<OidcAuthorizationRequest>(
+      OIDC_REQUEST_STORAGE_KEY,
+      'session',
+    );
+    this.storage.removeItem(OIDC_REQUEST_STORAGE_KEY, 'session');
+
+    const config: OidcConfig | null = this.tenantStore.oidcConfig();
+    if (!config) {
+      return this.fail('OIDC is not configured for the current tenant');
+    }
+    if (params['error']) {
+      return this.fail(
+        `sign-in was rejected (${params['error']}${params['error_description'] ? `: ${params['error_description']}` : ''})`,
+      );
+    }
+    if (!request || !params['state'] || params['state'] !== request.state) {
+      return this.fail('state does not match the sign-in request');
+    }
+    const code: string | undefined = params['code'];
+    if (!code) {
+      return this.fail('authorization code is missing');
+    }
+
+    return this.loadDiscoveryDocument(config.issuer).pipe(
+      switchMap((discovery: OidcDiscoveryDocument) =>
+        this.requestTokens(discovery, {
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: request.redirectUri,
+          client_id: config.clientId,
+          code_verifier: request.codeVerifier,
+        }).pipe(
+          map((response: OidcTokenResponse): string => {
+            const claims: JwtClaims = this.validateIdToken(
+              response.id_token,
+              discovery,
+              config,
+              request.nonce,
+            );
+            this.storage.setItem(OIDC_ID_TOKEN_STORAGE_KEY, response.id_token, 'session');
+            this.authService.startSession({
+              ...this.toTokenResponse(response),
+              user: this.toUser(claims),
+            });
+            this.initialize();
+            return request.returnUrl;
+          }),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Signs the user out of Talent Hub and of the identity provider.
+   *
+   * Ends the local session with `AuthService.logout()`, then redirects to the identity
+   * provider's `end_session_endpoint` if it has one.
+   *
+   * @returns An Observable that completes once the local session has ended and the
+   * redirect (if any) has been started.
+   *
+   * @example
+   * ```typescript
+   * this.oidcService.signOut().subscribe();
+   * ```
+   */
+  signOut(): Observable<void> {
+    const config: OidcConfig | null = this.tenantStore.oidcConfig();
+    const idToken: string | null = this.storage.getItem<string>(
+      OIDC_ID_TOKEN_STORAGE_KEY,
+      'session',
+    );
+    this.storage.removeItem(OIDC_ID_TOKEN_STORAGE_KEY, 'session');
+    this.authService.logout();
+
+    if (!config) {
+      return of(undefined);
+    }
+
+    return this.loadDiscoveryDocument(config.issuer).pipe(
+      map((discovery: OidcDiscoveryDocument): void => {
+        if (!discovery.end_session_endpoint) {
+          return;
+        }
+        let params = new HttpParams({
+          fromObject: {
+            client_id: config.clientId,
+            post_logout_redirect_uri:
+              config.postLogoutRedirectUri ?? `${this.document.location.origin}/`,
+          },
+        });
+        if (idToken) {
+          params = params.set('id_token_hint', idToken);
+        }
+        this.document.location.assign(`${discovery.end_session_endpoint}?${params.toString()}`);
+      }),
+      // The local session has already ended; a missing discovery document is not an error
+      catchError(() => of(undefined)),
+    );
+  }
+
+  /**
+   * Loads the identity provider's discovery document.
+   *
+   * The document is requested once per issuer and shared; a failed request is not cached.
+   *
+   * @param issuer - The issuer URL from `OidcConfig.issuer`.
+   * @returns An Observable that emits the discovery document.
+   *
+   * @example
+   * ```typescript
+   * this.oidcService.loadDiscoveryDocument(config.issuer).subscribe((doc) => {
+   *   console.log(doc.authorization_endpoint);
+   * });
+   * ```
+   */
+  loadDiscoveryDocument(issuer: string): Observable<OidcDiscoveryDocument> {
+    const cached: Observable<OidcDiscoveryDocument> | undefined =
+      this.discoveryDocuments.get(issuer);
+    if (cached) {
+      return cached;
+    }
+
+    const discovery$: Observable<OidcDiscoveryDocument> = this.http
+      .get<OidcDiscoveryDocument>(
+        `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`,
+        { context: new HttpContext().set(SKIP_AUTH, true) },
+      )
+      .pipe(
+        catchError((error: unknown) => {
+          this.discoveryDocuments.delete(issuer);
+          return throwError((): unknown => error);
+        }),
+        shareReplay(1),
+      );
+    this.discoveryDocuments.set(issuer, discovery$);
+    return discovery$;
+  }
+
+  /**
+   * Renews the tokens with the refresh-token grant at the identity provider.
+   *
+   * @param refreshToken - The refresh token of the current session.
+   * @returns An Observable that emits the renewed tokens.
+   * @internal
+   */
+  private renewTokens(refreshToken: string): Observable<TokenResponse> {
+    const config: OidcConfig | null = this.tenantStore.oidcConfig();
+    if (!config) {
+      return this.fail('OIDC is not configured for the current tenant');
+    }
+
+    return this.loadDiscoveryDocument(config.issuer).pipe(
+      switchMap((discovery: OidcDiscoveryDocument) =>
+        this.requestTokens(discovery, {
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          client_id: config.clientId,
+        }),
+      ),
+      tap((response: OidcTokenResponse): void => {
+        if (response.id_token) {
+          this.storage.setItem(OIDC_ID_TOKEN_STORAGE_KEY, response.id_token, 'session');
+        }
+      }),
+      map((response: OidcTokenResponse): TokenResponse => this.toTokenResponse(response)),
+    );
+  }
+
+  /**
+   * Posts a form-encoded grant to the token endpoint.
+   *
+   * @param discovery - The identity provider's discovery document.
+   * @param body - The grant parameters.
+   * @returns An Observable of the token endpoint response.
+   * @internal
+   */
+  private requestTokens(
+    discovery: OidcDiscoveryDocument,
+    body: Record<string, string>,
+  ): Observable<OidcTokenResponse> {
+    return this.http.post<OidcTokenResponse>(
+      discovery.token_endpoint,
+      new HttpParams({ fromObject: body }),
+      { context: new HttpContext().set(SKIP_AUTH, true) },
+    );
+  }
+
+  /**
+   * Validates the ID token returned by the code exchange.
+   *
+   * @param idToken - The encoded ID token.
+   * @param discovery - The identity provider's discovery document.
+   * @param config - The tenant's OIDC settings.
+   * @param nonce - The nonce sent with the authorization request.
+   * @returns The validated claims.
+   * @throws Error if the token is missing or a claim does not match.
+   * @internal
+   */
+  private validateIdToken(
+    idToken: string | undefined,
+    discovery: OidcDiscoveryDocument,
+    config: OidcConfig,
+    nonce: string,
+  ): JwtClaims {
+    const claims: JwtClaims | null = JwtUtil.decode(idToken);
+    if (!claims) {
+      throw new Error('OIDC: ID token is missing or malformed');
+    }
+
+    const audience: unknown = claims['aud'];
+    const audiences: unknown[] = Array.isArray(audience) ? audience : [audience];
+    if (claims['nonce'] !== nonce) {
+      throw new Error('OIDC: ID token nonce does not match the sign-in request');
+    }
+    if (claims['iss'] !== discovery.issuer) {
+      throw new Error('OIDC: ID token was issued by an unexpected issuer');
+    }
+    if (!audiences.includes(config.clientId)) {
+      throw new Error('OIDC: ID token was issued for another client');
+    }
+    if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) {
+      throw new Error('OIDC: ID token has expired');
+    }
+    return claims;
+  }
+
+  /**
+   * Converts a token endpoint response into the format used by `AuthService`.
+   *
+   * @param response - The token endpoint response.
+   * @returns The equivalent `TokenResponse`.
+   * @internal
+   */
+  private toTokenResponse(response: OidcTokenResponse): TokenResponse {
+    return {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token,
+      expiresIn: response.expires_in,
+    };
+  }
+
+  /**
+   * Builds the Talent Hub user from standard OIDC claims.
+   *
+   * @param claims - The validated ID token claims.
+   * @returns The signed-in user.
+   * @internal
+   */
+  private toUser(claims: JwtClaims): User {
+    const text = (value: unknown): string => (typeof value === 'string' ? value : '');
+    const list = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((item: unknown) => typeof item === 'string') : [];
+
+    return {
+      id: text(claims.sub),
+      email: text(claims['email']),
+      firstName: text(claims['given_name']),
+      lastName: text(claims['family_name']),
+      roles: list(claims.roles),
+      permissions: list(claims['permissions']),
+    };
+  }
+
+  /**
+   * Creates an Observable that errors with an OIDC error.
+   *
+   * @param reason - Why the operation failed.
+   * @returns An Observable that errors immediately.
+   * @internal
+   */
+  private fail(reason: string): Observable<never> {
+    return throwError((): Error => new Error(`OIDC: ${reason}`));
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { DOCUMENT, Injector, runInInjectionContext, signal } from '@angular/core';
+import { EMPTY, Observable, of, Subject, throwError } from 'rxjs';
+
+import { APP_CONSTANT } from '../constants';
+import { OutboxEntry } from '../interfaces';
+import { EventBusService, IndexedDbService, LoggerService, OutboxService } from '../services';
+import { AuthStore, TenantStore } from '../store';
+import { OUTBOX } from '../tokens';
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+  let stored: Map<string, OutboxEntry>;
+  let tenantId: ReturnType<typeof signal<string | null>>;
+  let userId: ReturnType<typeof signal<string>>;
+  let window: EventTarget;
+  let mockHttpClient: { request: ReturnType<typeof vi.fn> };
+  let mockEventBus: { publish: ReturnType<typeof vi.fn> };
+  let mockLogger: { warn: ReturnType<typeof vi.fn> };
+
+  const mockIndexedDb = {
+    getAll: vi.fn(() => of([...stored.values()])),
+    put: vi.fn((_store: string, key: string, value: OutboxEntry) => {
+      stored.set(key, value);
+      return of(undefined);
+    }),
+    delete: vi.fn((_store: string, key: string) => {
+      stored.delete(key);
+      return of(undefined);
+    }),
+  };
+
+  /** Creates a stored entry of the current account. */
+  function entry(id: string, createdAt: number, overrides: Partial<OutboxEntry> = {}): OutboxEntry {
+    return {
+      id,
+      tenantId: 'acme',
+      userId: 'u-1',
+      method: 'POST',
+      url: `/feedback/${id}`,
+      body: { id },
+      headers: { 'Idempotency-Key': id },
+      params: {},
+      createdAt,
+      ...overrides,
+    };
+  }
+
+  /** Answers the replayed requests in order. */
+  function respond(...responses: Observable<unknown>[]): void {
+    responses.forEach((response) => mockHttpClient.request.mockReturnValueOnce(response));
+  }
+
+  const replayedUrls = (): string[] => mockHttpClient.request.mock.calls.map((call) => call[1]);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    stored = new Map();
+    tenantId = signal<string | null>('acme');
+    userId = signal('u-1');
+    window = new EventTarget();
+    mockHttpClient = { request: vi.fn(() => EMPTY) };
+    mockEventBus = { publish: vi.fn() };
+    mockLogger = { warn: vi.fn() };
+
+    const injector = Injector.create({
+      providers: [
+        { provide: HttpClient, useValue: mockHttpClient },
+        { provide: IndexedDbService, useValue: mockIndexedDb },
+        { provide: EventBusService, useValue: mockEventBus },
+        { provide: LoggerService, useValue: mockLogger },
+        { provide: AuthStore, useValue: { userId } },
+        { provide: TenantStore, useValue: { tenantId } },
+        { provide: DOCUMENT, useValue: { defaultView: window } },
+      ],
+    });
+    service = runInInjectionContext(injector, () => new OutboxService());
+  });
+
+  afterEach(() => {
+    service.ngOnDestroy();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('should store the mutation for the current tenant and user', () => {
+      let queued: OutboxEntry | undefined;
+      service
+        .enqueue({ id: 'k-1', method: 'PUT', url: '/jobs/1', body: {}, headers: {}, params: {} })
+        .subscribe((result) => (queued = result));
+
+      expect(queued).toEqual({
+        id: 'k-1',
+        method: 'PUT',
+        url: '/jobs/1',
+        body: {},
+        headers: {},
+        params: {},
+        tenantId: 'acme',
+        userId: 'u-1',
+        createdAt: Date.parse('2026-03-02T09:00:00Z'),
+      });
+      expect(stored.get('k-1')).toEqual(queued);
+      expect(service.pending()).toEqual([queued]);
+    });
+
+    it('should only list the mutations of the current tenant and user', () => {
+      service
+        .enqueue({ id: 'k-1', method: 'POST', url: '/jobs', body: {}, headers: {}, params: {} })
+        .subscribe();
+
+      tenantId.set('globex');
+      expect(service.pending()).toEqual([]);
+
+      tenantId.set('acme');
+      userId.set('u-2');
+      expect(service.pending()).toEqual([]);
+    });
+  });
+
+  describe('replay', () => {
+    it('should send the stored mutations oldest first on start', () => {
+      stored.set('b', entry('b', 2));
+      stored.set('a', entry('a', 1));
+      respond(of('ok'), of('ok'));
+
+      service.start();
+
+      expect(replayedUrls()).toEqual(['/feedback/a', '/feedback/b']);
+      const [method, url, options] = mockHttpClient.request.mock.calls[0];
+      expect(method).toBe('POST');
+      expect(url).toBe('/feedback/a');
+      expect(options.body).toEqual({ id: 'a' });
+      expect(options.headers).toEqual({ 'Idempotency-Key': 'a' });
+      expect(options.context.get(OUTBOX)).toBe(true);
+      expect(stored.size).toBe(0);
+      expect(service.pending()).toEqual([]);
+    });
+
+    it('should skip the mutations of other accounts', () => {
+      stored.set('a', entry('a', 1, { tenantId: 'globex' }));
+      stored.set('b', entry('b', 2));
+
+      service.start();
+
+      expect(replayedUrls()).toEqual(['/feedback/b']);
+      expect(stored.has('a')).toBe(true);
+    });
+
+    it.each([409, 412])('should drop the mutation and report a conflict on %i', (status) => {
+      const error = new HttpErrorResponse({ status, error: { version: 3 } });
+      stored.set('a', entry('a', 1));
+      stored.set('b', entry('b', 2));
+      respond(throwError(() => error));
+
+      service.start();
+
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        APP_CONSTANT.EVENT_BUS_KEYS.OUTBOX_CONFLICT,
+        { entry: entry('a', 1), status, error: { version: 3 } },
+      );
+      expect(replayedUrls()).toEqual(['/feedback/a', '/feedback/b']);
+      expect(stored.size).toBe(0);
+    });
+
+    it('should drop the mutation and report it as failed on other client errors', () => {
+      stored.set('a', entry('a', 1));
+      respond(throwError(() => new HttpErrorResponse({ status: 422, error: 'invalid' })));
+
+      service.start();
+
+      expect(mockEventBus.publish).toHaveBeenCalledWith(APP_CONSTANT.EVENT_BUS_KEYS.OUTBOX_FAILED, {
+        entry: entry('a', 1),
+        status: 422,
+        error: 'invalid',
+      });
+      expect(stored.size).toBe(0);
+    });
+
+    it.each([0, 401, 429, 503])('should keep the order and stop on %i', (status) => {
+      stored.set('a', entry('a', 1));
+      stored.set('b', entry('b', 2));
+      respond(throwError(() => new HttpErrorResponse({ status })));
+
+      service.start();
+
+      expect(replayedUrls()).toEqual(['/feedback/a']);
+      expect(service.pending().map((queued) => queued.id)).toEqual(['a', 'b']);
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should retry a failed replay after a delay that doubles', () => {
+      const networkError = throwError(() => new HttpErrorResponse({ status: 0 }));
+      stored.set('a', entry('a', 1));
+      respond(networkError, networkError, of('ok'));
+      service.start();
+
+      vi.advanceTimersByTime(4_999);
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(1);
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(9_999);
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(2);
+      vi.advanceTimersByTime(1);
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(3);
+      expect(service.pending()).toEqual([]);
+    });
+
+    it('should not wait longer than the maximum retry delay', () => {
+      const networkError = throwError(() => new HttpErrorResponse({ status: 0 }));
+      stored.set('a', entry('a', 1));
+      respond(...Array<Observable<unknown>>(7).fill(networkError), of('ok'));
+      service.start();
+
+      // 5 + 10 + 20 + 40 + 80 + 160 seconds
+      vi.advanceTimersByTime(315_000);
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(7);
+
+      vi.advanceTimersByTime(300_000);
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(8);
+      expect(service.pending()).toEqual([]);
+    });
+
+    it('should replay again when the browser comes back online', () => {
+      stored.set('a', entry('a', 1));
+      respond(
+        throwError(() => new HttpErrorResponse({ status: 0 })),
+        of('ok'),
+      );
+      service.start();
+
+      window.dispatchEvent(new Event('online'));
+
+      expect(replayedUrls()).toEqual(['/feedback/a', '/feedback/a']);
+      expect(service.pending()).toEqual([]);
+    });
+
+    it('should not start a second replay while one is in progress', () => {
+      const response = new Subject<unknown>();
+      stored.set('a', entry('a', 1));
+      respond(response);
+      service.start();
+
+      service.replay();
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(1);
+
+      response.complete();
+      expect(service.pending()).toEqual([]);
+    });
+
+    it('should load the stored queue only once', () => {
+      service.start();
+      service.start();
+
+      expect(mockIndexedDb.getAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log when the stored queue cannot be loaded', () => {
+      mockIndexedDb.getAll.mockReturnValueOnce(throwError(() => new Error('blocked')));
+
+      service.start();
+
+      expect(mockLogger.warn).toHaveBeenCalledWith('Could not load the outbox:', expect.any(Error));
+    });
+  });
+
+  it('should discard a mutation without sending it', () => {
+    stored.set('a', entry('a', 1));
+    service.start();
+    mockHttpClient.request.mockClear();
+    service
+      .enqueue({ id: 'k-1', method: 'DELETE', url: '/jobs/1', body: null, headers: {}, params: {} })
+      .subscribe();
+
+    service.discard('k-1').subscribe();
+
+    expect(service.pending()).toEqual([]);
+    expect(stored.has('k-1')).toBe(false);
+    expect(mockHttpClient.request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  computed,
+  DOCUMENT,
+  inject,
+  Injectable,
+  OnDestroy,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse, HttpStatusCode } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map, tap } from 'rxjs/operators';
+
+import { APP_CONSTANT } from '../constants';
+import { OutboxConfig, OutboxEntry, OutboxFailure } from '../interfaces';
+import { AuthStore, TenantStore } from '../store';
+import { OUTBOX, OUTBOX_CONFIG } from '../tokens';
+import { EventBusService } from './event-bus.service';
+import { IndexedDbService } from './indexed-db.service';
+import { LoggerService } from './logger.service';
+
+/**
+ * Outbox settings used when `OUTBOX_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_OUTBOX_CONFIG: Required<OutboxConfig> = {
+  enabled: false,
+  retryDelay: 5_000,
+  maxRetryDelay: 300_000,
+};
+
+/**
+ * IndexedDB store holding the queued mutations.
+ *
+ * @internal
+ */
+const OUTBOX_STORE = 'outbox';
+
+/**
+ * Statuses reporting that the mutation conflicts with the current server state.
+ *
+ * @internal
+ */
+const CONFLICT_STATUSES: readonly number[] = [
+  HttpStatusCode.Conflict,
+  HttpStatusCode.PreconditionFailed,
+];
+
+/**
+ * Client error statuses after which the mutation is kept and replayed later.
+ *
+ * @internal
+ */
+const DEFERRED_STATUSES: readonly number[] = [
+  HttpStatusCode.Unauthorized,
+  HttpStatusCode.RequestTimeout,
+  HttpStatusCode.TooManyRequests,
+];
+
+/**
+ * OutboxService - Persistent queue of mutations made offline, replayed in order.
+ *
+ * Mutations sent through `ApiService` with the `outbox` option, or every mutation with
+ * `OutboxConfig.enabled`, that fail with a network error are queued here; the caller
+ * receives a `MutationQueuedError`. The queue is stored in IndexedDB, so it survives
+ * reloads, and is replayed one mutation at a time, oldest first, as soon as the browser
+ * is back online.
+ *
+ * @remarks
+ * **Idempotency:**
+ * Every queued mutation keeps the `Idempotency-Key` header of its original request.
+ * A server that saw the original request before the connection dropped can recognize
+ * the replay and apply the mutation only once.
+ *
+ * **Replay Results:**
+ * | Response | Outcome |
+ * |----------|---------|
+ * | 2xx | Removed; the next mutation is sent |
+ * | 409, 412 | Removed; `th:outbox.conflict` is published with an `OutboxFailure` |
+ * | Other 4xx | Removed; `th:outbox.failed` is published with an `OutboxFailure` |
+ * | Network error, 401, 408, 429, 5xx | Kept; the replay stops and is retried later |
+ *
+ * A mutation that is kept stops the replay, so later mutations never overtake it. The
+ * replay is retried after `OutboxConfig.retryDelay` (5 seconds by default), doubling the
+ * delay after each failed attempt up to `maxRetryDelay` (5 minutes), and right away when
+ * the browser comes back online.
+ *
+ * **Scope:**
+ * Mutations belong to the tenant and user who made them. `pending` and the replay
+ * only cover the mutations of the current tenant and user; the others wait until that
+ * account signs in again.
+ *
+ * **Start:**
+ * Call `start()` once at application startup to load the stored queue and replay it
+ * whenever the browser comes back online. Call `replay()` when the user signs in, so
+ * that the mutations kept after a 401 or queued by that account earlier are sent.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * provideOutboxConfig({ enabled: true }),
+ * provideAppInitializer(() => {
+ *   inject(OutboxService).start();
+ * }),
+ * provideAppInitializer(() => {
+ *   const auth = inject(AuthService);
+ *   const outbox = inject(OutboxService);
+ *   let wasAuthenticated = auth.isAuthenticated();
+ *   effect(() => {
+ *     const authenticated = auth.isAuthenticated();
+ *     if (authenticated && !wasAuthenticated) {
+ *       untracked(() => outbox.replay());
+ *     }
+ *     wasAuthenticated = authenticated;
+ *   });
+ * }),
+ *
+ * // feedback.component.ts
+ * submit(feedback: Feedback): void {
+ *   this.api.post<void>('/interviews/42/feedback', feedback).subscribe({
+ *     complete: () => this.close('Feedback sent'),
+ *     error: (error: unknown) => {
+ *       if (error instanceof MutationQueuedError) {
+ *         this.close('Feedback will be sent when you are back online');
+ *       }
+ *     },
+ *   });
+ * }
+ *
+ * // @if (outbox.pending().length) {
+ * //   <p>{{ outbox.pending().length }} changes will be sent when you are back online</p>
+ * // }
+ * ```
+ *
+ * @see OutboxEntry
+ * @see OutboxFailure
+ * @see OutboxConfig
+ * @see MutationQueuedError
+ * @see ApiService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class OutboxService implements OnDestroy {
+  /** @internal HTTP client used to replay the mutations through the interceptors. */
+  private readonly http: HttpClient = inject(HttpClient);
+
+  /** @internal Database holding the queue. */
+  private readonly indexedDb: IndexedDbService = inject(IndexedDbService);
+
+  /** @internal Event bus used to report rejected mutations. */
+  private readonly eventBus: EventBusService = inject(EventBusService);
+
+  /** @internal Logger used to record storage failures. */
+  private readonly logger: LoggerService = inject(LoggerService);
+
+  /** @internal Source of the current user. */
+  private readonly authStore = inject(AuthStore);
+
+  /** @internal Source of the current tenant. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Window of the current tab, or `null` outside the browser. */
+  private readonly window: (Window & typeof globalThis) | null =
+    inject(DOCUMENT).defaultView ?? null;
+
+  /**
+   * Effective outbox configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<OutboxConfig> = {
+    ...DEFAULT_OUTBOX_CONFIG,
+    ...inject(OUTBOX_CONFIG, { optional: true }),
+  };
+
+  /** @internal Queued mutations of every account, oldest first. */
+  private readonly entries: WritableSignal<OutboxEntry[]> = signal([]);
+
+  /** @internal Whether `start()` was called. */
+  private started = false;
+
+  /** @internal Whether a replay is in progress. */
+  private replaying = false;
+
+  /** @internal Replay attempts that failed in a row, for the retry delay. */
+  private failedAttempts = 0;
+
+  /** @internal Timer that retries a replay that failed. */
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** @internal Listener for the `online` event of the window. */
+  private readonly onOnline = (): void => {
+    this.failedAttempts = 0;
+    this.replay();
+  };
+
+  /**
+   * Read-only signal with the queued mutations of the current tenant and user, oldest
+   * first.
+   *
+   * @example
+   * ```typescript
+   * readonly pendingCount = computed(() => this.outbox.pending().length);
+   * ```
+   */
+  readonly pending: Signal<OutboxEntry[]> = computed((): OutboxEntry[] => {
+    const tenantId: string = this.tenantStore.tenantId() ?? '';
+    const userId: string = this.authStore.userId();
+    return this.entries().filter(
+      (entry: OutboxEntry): boolean => entry.tenantId === tenantId && entry.userId === userId,
+    );
+  });
+
+  /**
+   * Loads the stored queue, replays it, and replays it again whenever the browser
+   * comes back online.
+   *
+   * Calling `start()` again has no effect.
+   *
+   * @example
+   * ```typescript
+   * provideAppInitializer(() => {
+   *   inject(OutboxService).start();
+   * }),
+   * ```
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.window?.addEventListener('online', this.onOnline);
+
+    this.indexedDb.getAll<OutboxEntry>(OUTBOX_STORE).subscribe({
+      next: (stored: OutboxEntry[]): void => {
+        this.entries.update((entries: OutboxEntry[]): OutboxEntry[] =>
+          [
+            ...stored.filter(
+              (entry: OutboxEntry): boolean =>
+                !entries.some((queued: OutboxEntry): boolean => queued.id === entry.id),
+            ),
+            ...entries,
+          ].sort((a: OutboxEntry, b: OutboxEntry): number => a.createdAt - b.createdAt),
+        );
+        this.replay();
+      },
+      error: (error: unknown): void => this.logger.warn('Could not load the outbox:', error),
+    });
+  }
+
+  /**
+   * Queues a mutation for the current tenant and user.
+   *
+   * Called by `ApiService` for mutations sent with the `outbox` option that fail
+   * with a network error.
+   *
+   * @param request - The mutation; its `id` is the `Idempotency-Key` of the request.
+   * @returns Observable of the queued entry, emitted once it is stored.
+   *
+   * @example
+   * ```typescript
+   * this.outbox
+   *   .enqueue({ id: v4(), method: 'POST', url: '/feedback', body, headers: {}, params: {} })
+   *   .subscribe();
+   * ```
+   */
+  enqueue(
+    request: Omit<OutboxEntry, 'tenantId' | 'userId' | 'createdAt'>,
+  ): Observable<OutboxEntry> {
+    const entry: OutboxEntry = {
+      ...request,
+      tenantId: this.tenantStore.tenantId() ?? '',
+      userId: this.authStore.userId(),
+      createdAt: Date.now(),
+    };
+    return this.indexedDb.put(OUTBOX_STORE, entry.id, entry).pipe(
+      tap((): void => this.entries.update((entries: OutboxEntry[]) => [...entries, entry])),
+      map((): OutboxEntry => entry),
+    );
+  }
+
+  /**
+   * Removes a queued mutation without sending it.
+   *
+   * @param id - Id of the mutation.
+   * @returns Observable that completes once the mutation is removed from IndexedDB.
+   *
+   * @example
+   * ```typescript
+   * // "Discard" action of the pending changes list
+   * this.outbox.discard(entry.id).subscribe();
+   * ```
+   */
+  discard(id: string): Observable<void> {
+    this.entries.update((entries: OutboxEntry[]) =>
+      entries.filter((entry: OutboxEntry): boolean => entry.id !== id),
+    );
+    return this.indexedDb.delete(OUTBOX_STORE, id);
+  }
+
+  /**
+   * Sends the pending mutations of the current tenant and user, oldest first.
+   *
+   * Does nothing while a replay is in progress. Called on startup, when the browser
+   * comes back online and after the retry delay of a failed replay; call it after
+   * sign-in or from a "Retry now" action.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="outbox.replay()">Retry now</button>
+   * ```
+   */
+  replay(): void {
+    if (this.replaying) {
+      return;
+    }
+    this.clearRetryTimer();
+    this.replaying = true;
+    this.replayNext();
+  }
+
+  /**
+   * Stops replaying when the browser comes back online or a retry is due.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.window?.removeEventListener('online', this.onOnline);
+    this.clearRetryTimer();
+  }
+
+  /**
+   * Sends the oldest pending mutation, then the next one once it is settled.
+   *
+   * @internal
+   */
+  private replayNext(): void {
+    const entry: OutboxEntry | undefined = this.pending()[0];
+    if (!entry) {
+      this.replaying = false;
+      this.failedAttempts = 0;
+      return;
+    }
+
+    this.http
+      .request(entry.method, entry.url, {
+        body: entry.body,
+        headers: entry.headers,
+        params: entry.params,
+        context: new HttpContext().set(OUTBOX, true),
+      })
+      .subscribe({
+        complete: (): void => this.settle(entry),
+        error: (error: unknown): void => {
+          if (!(error instanceof HttpErrorResponse) || !this.isRejected(error)) {
+            // Network or server unavailable; keep the order and try again later
+            this.replaying = false;
+            this.scheduleRetry();
+            return;
+          }
+          const key: string = CONFLICT_STATUSES.includes(error.status)
+            ? APP_CONSTANT.EVENT_BUS_KEYS.OUTBOX_CONFLICT
+            : APP_CONSTANT.EVENT_BUS_KEYS.OUTBOX_FAILED;
+          this.settle(entry, key, { entry, status: error.status, error: error.error });
+        },
+      });
+  }
+
+  /**
+   * Removes a mutation that reached the server, reports it if rejected, and continues.
+   *
+   * @param entry - The mutation.
+   * @param key - Event key reporting the rejection, if rejected.
+   * @param failure - Payload of the event.
+   * @internal
+   */
+  private settle(entry: OutboxEntry, key?: string, failure?: OutboxFailure): void {
+    this.discard(entry.id).subscribe({
+      error: (error: unknown): void =>
+        this.logger.warn('Could not remove a replayed mutation from the outbox:', error),
+    });
+    if (key) {
+      this.eventBus.publish(key, failure);
+    }
+    this.replayNext();
+  }
+
+  /**
+   * Retries the replay after a delay that doubles with every failed attempt.
+   *
+   * @internal
+   */
+  private scheduleRetry(): void {
+    const delay: number = Math.min(
+      this.config.retryDelay * 2 ** this.failedAttempts,
+      this.config.maxRetryDelay,
+    );
+    this.failedAttempts++;
+    this.clearRetryTimer();
+    this.retryTimer = setTimeout((): void => {
+      this.retryTimer = null;
+      this.replay();
+    }, delay);
+  }
+
+  /**
+   * Cancels the scheduled retry, if any.
+   *
+   * @internal
+   */
+  private clearRetryTimer(): void {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Checks whether the server rejected a mutation for good.
+   *
+   * @param error - The error of the replayed mutation.
+   * @internal
+   */
+  private isRejected(error: HttpErrorResponse): boolean {
+    return error.status >= 400 && error.status < 500 && !DEFERRED_STATUSES.includes(error.status);
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext } from '@angular/core';
+import {
+  Event as RouterEvent,
+  NavigationCancel,
+  NavigationEnd,
+  NavigationStart,
+  Route,
+  RouteConfigLoadEnd,
+  RouteConfigLoadStart,
+  Router,
+} from '@angular/router';
+import { Subject } from 'rxjs';
+
+import { LoggerService, PerformanceMonitorService, RequestTraceService } from '../services';
+import { PerformanceMetric, RequestSummary } from '../interfaces';
+import { TenantStore } from '../store';
+import { PERFORMANCE_CONFIG } from '../tokens';
+
+/** PerformanceObserver whose entries are emitted by the tests. */
+class FakePerformanceObserver {
+  static supportedEntryTypes = ['largest-contentful-paint', 'event', 'layout-shift'];
+  static instances: FakePerformanceObserver[] = [];
+  type = '';
+  disconnected = false;
+
+  constructor(private readonly callback: (list: { getEntries(): unknown[] }) => void) {
+    FakePerformanceObserver.instances.push(this);
+  }
+
+  static emit(type: string, entries: object[]): void {
+    FakePerformanceObserver.instances
+      .filter((observer) => observer.type === type && !observer.disconnected)
+      .forEach((observer) => observer.callback({ getEntries: () => entries }));
+  }
+
+  observe(options: { type: string }): void {
+    this.type = options.type;
+  }
+
+  disconnect(): void {
+    this.disconnected = true;
+  }
+}
+
+describe('PerformanceMonitorService', () => {
+  let service: PerformanceMonitorService;
+  let routerEvents: Subject<RouterEvent>;
+  let recorded: Subject<RequestSummary>;
+  let fakeWindow: EventTarget & { PerformanceObserver?: unknown };
+  let fakeDocument: EventTarget & { defaultView: unknown; visibilityState: string };
+  let mockLoggerService: {
+    report: ReturnType<typeof vi.fn>;
+    flush: ReturnType<typeof vi.fn>;
+  };
+  const candidatesRoute: Route = { path: 'candidates', data: { remote: 'talent-hub-candidate' } };
+  const settingsRoute: Route = { path: 'settings' };
+
+  function createService(providers: { provide: unknown; useValue: unknown }[] = []) {
+    const injector = Injector.create({
+      providers: [
+        { provide: DOCUMENT, useValue: fakeDocument },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: TenantStore, useValue: { tenantId: () => 'acme' } },
+        { provide: RequestTraceService, useValue: { recorded$: recorded } },
+        {
+          provide: Router,
+          useValue: { url: '/', config: [candidatesRoute, settingsRoute], events: routerEvents },
+        },
+        ...providers,
+      ],
+    });
+    return runInInjectionContext(injector, () => new PerformanceMonitorService());
+  }
+
+  function summary(url: string, duration: number): RequestSummary {
+    return {
+      requestId: 'r',
+      traceId: 't',
+      method: 'GET',
+      url,
+      status: 200,
+      errorCode: null,
+      startedAt: 0,
+      duration,
+    };
+  }
+
+  function hidePage(): void {
+    fakeDocument.visibilityState = 'hidden';
+    fakeDocument.dispatchEvent(new Event('visibilitychange'));
+  }
+
+  const names = (): string[] => service.metrics().map((metric) => metric.name);
+  const sentBatches = (): PerformanceMetric[][] =>
+    mockLoggerService.report.mock.calls.map(
+      ([, , meta]) => (meta as { metrics: PerformanceMetric[] }).metrics,
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    FakePerformanceObserver.instances = [];
+    routerEvents = new Subject<RouterEvent>();
+    recorded = new Subject<RequestSummary>();
+    fakeWindow = Object.assign(new EventTarget(), { PerformanceObserver: FakePerformanceObserver });
+    fakeDocument = Object.assign(new EventTarget(), {
+      defaultView: fakeWindow,
+      visibilityState: 'visible',
+    });
+    mockLoggerService = { report: vi.fn(), flush: vi.fn() };
+    service = createService();
+    service.start();
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+  });
+
+  describe('remotes and navigation', () => {
+    it('should record the load time of a remote entry', () => {
+      routerEvents.next(new NavigationStart(1, '/candidates/42'));
+      routerEvents.next(new RouteConfigLoadStart(candidatesRoute));
+      vi.advanceTimersByTime(842);
+      routerEvents.next(new RouteConfigLoadEnd(candidatesRoute));
+
+      expect(service.metrics()).toEqual([
+        {
+          name: 'remote-load',
+          value: 842,
+          detail: 'candidates',
+          remote: 'talent-hub-candidate',
+          tenantId: 'acme',
+          route: '/candidates/42',
+          timestamp: '2026-03-02T09:00:00.842Z',
+        },
+      ]);
+    });
+
+    it('should not record lazy routes that do not load a remote', () => {
+      routerEvents.next(new RouteConfigLoadStart(settingsRoute));
+      routerEvents.next(new RouteConfigLoadEnd(settingsRoute));
+
+      expect(service.metrics()).toEqual([]);
+    });
+
+    it('should record the duration of completed navigations', () => {
+      routerEvents.next(new NavigationStart(1, '/candidates'));
+      vi.advanceTimersByTime(120);
+      routerEvents.next(new NavigationEnd(1, '/candidates', '/candidates/list'));
+
+      expect(service.metrics()[0]).toMatchObject({
+        name: 'navigation',
+        value: 120,
+        detail: '/candidates/list',
+        remote: 'talent-hub-candidate',
+        route: '/candidates/list',
+      });
+    });
+
+    it('should not record cancelled navigations', () => {
+      routerEvents.next(new NavigationStart(1, '/settings'));
+      routerEvents.next(new NavigationCancel(1, '/settings', 'guard'));
+      routerEvents.next(new NavigationEnd(1, '/settings', '/settings'));
+
+      expect(service.metrics()).toEqual([]);
+    });
+  });
+
+  describe('HTTP calls', () => {
+    it('should record calls slower than the threshold, without query parameters', () => {
+      recorded.next(summary('/api/candidates?q=jane', 1_500));
+      recorded.next(summary('/api/tags', 200));
+
+      expect(service.metrics()).toEqual([
+        expect.objectContaining({ name: 'http', value: 1_500, detail: 'GET /api/candidates 200' }),
+      ]);
+    });
+
+    it('should use the configured threshold', () => {
+      service.stop();
+      service = createService([
+        { provide: PERFORMANCE_CONFIG, useValue: { slowHttpThreshold: 100 } },
+      ]);
+      service.start();
+      recorded.next(summary('/api/tags', 200));
+
+      expect(names()).toEqual(['http']);
+    });
+  });
+
+  describe('batching', () => {
+    beforeEach(() => {
+      service.stop();
+      service = createService([
+        { provide: PERFORMANCE_CONFIG, useValue: { batchSize: 2, maxMetrics: 2 } },
+      ]);
+      service.start();
+    });
+
+    it('should send a batch once it is full', () => {
+      recorded.next(summary('/api/a', 2_000));
+      expect(mockLoggerService.report).not.toHaveBeenCalled();
+
+      recorded.next(summary('/api/b', 2_000));
+      expect(mockLoggerService.report).toHaveBeenCalledWith('performance', 'Performance metrics', {
+        metrics: [
+          expect.objectContaining({ detail: 'GET /api/a 200' }),
+          expect.objectContaining({ detail: 'GET /api/b 200' }),
+        ],
+      });
+    });
+
+    it('should send the pending metrics every flush interval', () => {
+      vi.advanceTimersByTime(30_000);
+      expect(mockLoggerService.report).not.toHaveBeenCalled();
+
+      recorded.next(summary('/api/a', 2_000));
+      vi.advanceTimersByTime(30_000);
+
+      expect(sentBatches()).toEqual([[expect.objectContaining({ detail: 'GET /api/a 200' })]]);
+    });
+
+    it('should keep the newest metrics first, up to maxMetrics', () => {
+      recorded.next(summary('/api/a', 2_000));
+      recorded.next(summary('/api/b', 2_000));
+      recorded.next(summary('/api/c', 2_000));
+
+      expect(service.metrics().map((metric) => metric.detail)).toEqual([
+        'GET /api/c 200',
+        'GET /api/b 200',
+      ]);
+
+      service.clear();
+      expect(service.metrics()).toEqual([]);
+    });
+  });
+
+  describe('Web Vitals', () => {
+    it('should report the last LCP on the first input', () => {
+      FakePerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1_200 }]);
+      FakePerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1_840.4 }]);
+      expect(service.vitals().lcp).toBe(1_840.4);
+
+      fakeWindow.dispatchEvent(new Event('pointerdown'));
+      FakePerformanceObserver.emit('largest-contentful-paint', [{ startTime: 3_000 }]);
+      fakeWindow.dispatchEvent(new Event('keydown'));
+
+      expect(service.metrics()).toEqual([
+        expect.objectContaining({ name: 'LCP', value: 1_840, detail: null, route: '/' }),
+      ]);
+      expect(service.vitals().lcp).toBe(1_840.4);
+    });
+
+    it('should measure INP as the longest interaction', () => {
+      FakePerformanceObserver.emit('event', [
+        { interactionId: 1, duration: 48 },
+        { interactionId: 1, duration: 96 },
+        { interactionId: 2, duration: 64 },
+        { interactionId: 0, duration: 400 },
+      ]);
+
+      expect(service.vitals().inp).toBe(96);
+    });
+
+    it('should ignore one interaction in 50 for INP', () => {
+      const entries = Array.from({ length: 50 }, (_, i) => ({
+        interactionId: i + 1,
+        duration: i === 0 ? 900 : 100 + i,
+      }));
+      FakePerformanceObserver.emit('event', entries);
+
+      expect(service.vitals().inp).toBe(149);
+    });
+
+    it('should measure CLS as the largest session window of layout shifts', () => {
+      expect(service.vitals().cls).toBe(0);
+
+      FakePerformanceObserver.emit('layout-shift', [
+        { startTime: 0, value: 0.05, hadRecentInput: false },
+        { startTime: 500, value: 0.05, hadRecentInput: false },
+        { startTime: 600, value: 0.3, hadRecentInput: true },
+        { startTime: 3_000, value: 0.02, hadRecentInput: false },
+      ]);
+
+      expect(service.vitals().cls).toBe(0.1);
+    });
+
+    it('should report the changed vitals and send every metric when the page is hidden', () => {
+      FakePerformanceObserver.emit('largest-contentful-paint', [{ startTime: 1_000 }]);
+      FakePerformanceObserver.emit('event', [{ interactionId: 1, duration: 120 }]);
+      hidePage();
+
+      expect(names()).toEqual(['CLS', 'INP', 'LCP']);
+      expect(sentBatches()).toHaveLength(1);
+      expect(mockLoggerService.flush).toHaveBeenCalled();
+
+      fakeDocument.visibilityState = 'visible';
+      FakePerformanceObserver.emit('event', [{ interactionId: 2, duration: 240 }]);
+      hidePage();
+
+      expect(names()).toEqual(['INP', 'CLS', 'INP', 'LCP']);
+    });
+
+    it('should not measure vitals without PerformanceObserver', () => {
+      service.stop();
+      delete fakeWindow.PerformanceObserver;
+      service = createService();
+      service.start();
+      hidePage();
+
+      expect(service.vitals()).toEqual({ lcp: null, inp: null, cls: null });
+      expect(service.metrics()).toEqual([]);
+    });
+  });
+
+  it('should stop recording and send the pending metrics on stop()', () => {
+    recorded.next(summary('/api/a', 2_000));
+    service.stop();
+    recorded.next(summary('/api/b', 2_000));
+    FakePerformanceObserver.emit('event', [{ interactionId: 1, duration: 120 }]);
+
+    expect(sentBatches()).toEqual([[expect.objectContaining({ detail: 'GET /api/a 200' })]]);
+    expect(service.vitals().inp).toBeNull();
+  });
+});
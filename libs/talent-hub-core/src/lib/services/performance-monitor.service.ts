@@ -0,0 +1,644 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  DOCUMENT,
+  inject,
+  Injectable,
+  Injector,
+  OnDestroy,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import {
+  Event as RouterEvent,
+  NavigationCancel,
+  NavigationEnd,
+  NavigationError,
+  NavigationStart,
+  Route,
+  RouteConfigLoadEnd,
+  RouteConfigLoadStart,
+  Router,
+} from '@angular/router';
+import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+import { PerformanceConfig, PerformanceMetric, RequestSummary, WebVitals } from '../interfaces';
+import { TenantStore } from '../store';
+import { PERFORMANCE_CONFIG } from '../tokens';
+import { PerformanceMetricName } from '../types';
+import { RouteUtil } from '../utils';
+import { LoggerService } from './logger.service';
+import { RequestTraceService } from './request-trace.service';
+
+/**
+ * Performance settings used when `PERFORMANCE_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_PERFORMANCE_CONFIG: Required<PerformanceConfig> = {
+  slowHttpThreshold: 1_000,
+  maxMetrics: 100,
+  batchSize: 20,
+  flushInterval: 30_000,
+};
+
+/**
+ * Module name of the entries carrying the metric batches.
+ *
+ * @internal
+ */
+const LOGGER_MODULE = 'performance';
+
+/**
+ * Minimum duration of the interactions observed for INP, in milliseconds.
+ *
+ * @internal
+ */
+const EVENT_DURATION_THRESHOLD = 40;
+
+/**
+ * Number of longest interactions kept to estimate INP.
+ *
+ * @internal
+ */
+const MAX_LONGEST_INTERACTIONS = 10;
+
+/**
+ * Gap between two layout shifts that starts a new CLS session window, in milliseconds.
+ *
+ * @internal
+ */
+const CLS_SESSION_GAP = 1_000;
+
+/**
+ * Maximum length of a CLS session window, in milliseconds.
+ *
+ * @internal
+ */
+const CLS_SESSION_MAX_DURATION = 5_000;
+
+/**
+ * Events after which the largest contentful paint no longer changes.
+ *
+ * @internal
+ */
+const LCP_FINAL_EVENTS = ['keydown', 'pointerdown'];
+
+/**
+ * Layout shift entry of the Layout Instability API.
+ *
+ * @internal
+ */
+interface LayoutShiftEntry extends PerformanceEntry {
+  /** Score of the shift. */
+  value: number;
+
+  /** Whether the shift followed user input, which excludes it from CLS. */
+  hadRecentInput: boolean;
+}
+
+/**
+ * Event timing entry of the Event Timing API.
+ *
+ * @internal
+ */
+interface EventTimingEntry extends PerformanceEntry {
+  /** Id shared by the events of one interaction, or `0` for other events. */
+  interactionId?: number;
+}
+
+/**
+ * PerformanceMonitorService - Records Web Vitals and per-remote performance telemetry.
+ *
+ * Once started, records:
+ * - The Core Web Vitals of the page: LCP, INP and CLS.
+ * - The load time of every remote entry, from the router's lazy loading of the host's
+ *   top-level routes.
+ * - The duration of every route navigation.
+ * - Every HTTP call slower than `slowHttpThreshold`, from `RequestTraceService`.
+ *
+ * Each metric is tagged with the remote it belongs to, the tenant and the route. Metrics
+ * are sent in batches of `batchSize`, or every `flushInterval`, as `info` entries of the
+ * `performance` module to the log endpoint with `LoggerService.report()`, whatever the
+ * configured log level. `metrics` and `vitals` expose them to a diagnostics view.
+ *
+ * @remarks
+ * **Web Vitals:**
+ * - LCP is reported on the first key press or click, or when the page is hidden.
+ * - INP (the longest interaction, ignoring one in 50) and CLS (the largest burst of
+ *   layout shifts) are reported when the page is hidden, if they changed.
+ * - Web Vitals are tagged with the route shown when they are reported. They are not
+ *   recorded in browsers without the corresponding `PerformanceObserver` entry types.
+ *
+ * **Remote Name:**
+ * The remote is read from the `remote` route data of the host's top-level routes, as for
+ * `GlobalErrorHandler`.
+ *
+ * **Log Level:**
+ * Metrics are logged at `info` level; they are not sent while `LogConfig.level` is
+ * `'warn'` or above.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * provideAppInitializer(() => {
+ *   inject(PerformanceMonitorService).start();
+ * }),
+ *
+ * // diagnostics.component.ts
+ * @Component({
+ *   template: `
+ *     <p>LCP {{ monitor.vitals().lcp }} ms, INP {{ monitor.vitals().inp }} ms</p>
+ *     @for (metric of monitor.metrics(); track $index) {
+ *       <tr>
+ *         <td>{{ metric.name }}</td>
+ *         <td>{{ metric.remote }}</td>
+ *         <td>{{ metric.detail }}</td>
+ *         <td>{{ metric.value }}</td>
+ *       </tr>
+ *     }
+ *   `,
+ * })
+ * export class DiagnosticsComponent {
+ *   readonly monitor = inject(PerformanceMonitorService);
+ * }
+ * ```
+ *
+ * @see PerformanceMetric
+ * @see PerformanceConfig
+ * @see RequestTraceService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class PerformanceMonitorService implements OnDestroy {
+  /** @internal Document whose visibility ends the measurement of Web Vitals. */
+  private readonly document: Document = inject(DOCUMENT);
+
+  /** @internal Window of the current tab, or `null` outside the browser. */
+  private readonly window: (Window & typeof globalThis) | null = this.document.defaultView ?? null;
+
+  /** @internal Sends the metric batches; flushed when the page is hidden. */
+  private readonly loggerService: LoggerService = inject(LoggerService);
+
+  /** @internal Source of the tenant tag. */
+  private readonly tenantStore = inject(TenantStore);
+
+  /** @internal Source of the HTTP call durations. */
+  private readonly requestTrace: RequestTraceService = inject(RequestTraceService);
+
+  /** @internal Injector used to resolve `Router` when started. */
+  private readonly injector: Injector = inject(Injector);
+
+  /**
+   * Effective performance configuration (provided values merged over defaults).
+   * @internal
+   */
+  private readonly config: Required<PerformanceConfig> = {
+    ...DEFAULT_PERFORMANCE_CONFIG,
+    ...inject(PERFORMANCE_CONFIG, { optional: true }),
+  };
+
+  /** @internal Writable state behind `metrics`. */
+  private readonly _metrics: WritableSignal<PerformanceMetric[]> = signal([]);
+
+  /** @internal Writable state behind `vitals`. */
+  private readonly _vitals: WritableSignal<WebVitals> = signal({
+    lcp: null,
+    inp: null,
+    cls: null,
+  });
+
+  /** @internal Metrics not sent yet, oldest first. */
+  private batch: PerformanceMetric[] = [];
+
+  /** @internal Router of the application, while started. */
+  private router: Router | null = null;
+
+  /** @internal Subscriptions to router events and request summaries, while started. */
+  private subscription: Subscription | null = null;
+
+  /** @internal Observers of the Web Vitals entries, while started. */
+  private observers: PerformanceObserver[] = [];
+
+  /** @internal Timer that sends the pending metrics. */
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** @internal URL and start time (ms since epoch) of the navigation in progress. */
+  private navigation: { url: string; startedAt: number } | null = null;
+
+  /** @internal Start times of the route configurations being loaded. */
+  private readonly loadStartedAt = new Map<Route, number>();
+
+  /** @internal Whether LCP has been reported. */
+  private lcpReported = false;
+
+  /** @internal Last reported INP and CLS, to report them again only when changed. */
+  private reportedVitals: Pick<WebVitals, 'inp' | 'cls'> = { inp: null, cls: null };
+
+  /** @internal Longest interactions of the page, by interaction id. */
+  private readonly longestInteractions = new Map<number, number>();
+
+  /** @internal Highest interaction id seen, to count interactions. */
+  private lastInteractionId = 0;
+
+  /** @internal Number of interactions of the page. */
+  private interactionCount = 0;
+
+  /** @internal Score, start and end time of the current CLS session window. */
+  private clsSession = { value: 0, startTime: 0, endTime: 0 };
+
+  /** @internal Listener that reports LCP once it can no longer change. */
+  private readonly onInput = (): void => this.reportLcp();
+
+  /** @internal Listener that reports the Web Vitals when the page is hidden. */
+  private readonly onHidden = (): void => {
+    if (this.document.visibilityState === 'hidden') {
+      this.reportVitals();
+    }
+  };
+
+  /** @internal Listener that reports the Web Vitals when the page is unloaded. */
+  private readonly onPageHide = (): void => this.reportVitals();
+
+  /**
+   * Read-only signal with the most recent metrics, newest first (up to `maxMetrics`).
+   *
+   * @example
+   * ```typescript
+   * const slowCalls = this.monitor.metrics().filter((metric) => metric.name === 'http');
+   * ```
+   */
+  readonly metrics: Signal<PerformanceMetric[]> = this._metrics.asReadonly();
+
+  /**
+   * Read-only signal with the current Web Vitals of the page.
+   *
+   * Updated as they are measured, before they are reported.
+   *
+   * @example
+   * ```typescript
+   * // <span>CLS {{ monitor.vitals().cls ?? '–' }}</span>
+   * ```
+   */
+  readonly vitals: Signal<WebVitals> = this._vitals.asReadonly();
+
+  /**
+   * Starts recording metrics.
+   *
+   * Call once at application startup; calling `start()` again has no effect.
+   *
+   * @example
+   * ```typescript
+   * provideAppInitializer(() => {
+   *   inject(PerformanceMonitorService).start();
+   * }),
+   * ```
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    this.router = this.injector.get(Router);
+    this.subscription = this.router.events.subscribe((event: RouterEvent): void =>
+      this.onRouterEvent(event),
+    );
+    this.subscription.add(
+      this.requestTrace.recorded$
+        .pipe(
+          filter(
+            (summary: RequestSummary): boolean => summary.duration >= this.config.slowHttpThreshold,
+          ),
+        )
+        .subscribe((summary: RequestSummary): void => this.recordHttp(summary)),
+    );
+    this.flushTimer = setInterval((): void => this.flush(), this.config.flushInterval);
+    this.observeVitals();
+  }
+
+  /**
+   * Stops recording metrics and sends the pending ones.
+   *
+   * @example
+   * ```typescript
+   * this.monitor.stop();
+   * ```
+   */
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.router = null;
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.observers.forEach((observer: PerformanceObserver): void => observer.disconnect());
+    this.observers = [];
+    this.removeInputListeners();
+    this.document.removeEventListener('visibilitychange', this.onHidden);
+    this.window?.removeEventListener('pagehide', this.onPageHide);
+    this.flush();
+  }
+
+  /**
+   * Sends the pending metrics now, as one `info` entry of the `performance` module.
+   *
+   * @example
+   * ```typescript
+   * this.monitor.flush();
+   * ```
+   */
+  flush(): void {
+    if (!this.batch.length) {
+      return;
+    }
+    const metrics: PerformanceMetric[] = this.batch;
+    this.batch = [];
+    this.loggerService.report(LOGGER_MODULE, 'Performance metrics', { metrics });
+  }
+
+  /**
+   * Removes every kept metric. Pending metrics are still sent.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="monitor.clear()">Clear</button>
+   * ```
+   */
+  clear(): void {
+    this._metrics.set([]);
+  }
+
+  /**
+   * Stops recording when the application is destroyed.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Records remote load and navigation durations.
+   *
+   * @param event - The router event.
+   * @internal
+   */
+  private onRouterEvent(event: RouterEvent): void {
+    const now: number = Date.now();
+    if (event instanceof NavigationStart) {
+      this.navigation = { url: event.url, startedAt: now };
+    } else if (event instanceof NavigationEnd) {
+      if (this.navigation) {
+        this.record('navigation', now - this.navigation.startedAt, event.urlAfterRedirects, {
+          route: event.urlAfterRedirects,
+        });
+      }
+      this.navigation = null;
+    } else if (event instanceof NavigationCancel || event instanceof NavigationError) {
+      this.navigation = null;
+      this.loadStartedAt.clear();
+    } else if (event instanceof RouteConfigLoadStart) {
+      this.loadStartedAt.set(event.route, now);
+    } else if (event instanceof RouteConfigLoadEnd) {
+      const startedAt: number | undefined = this.loadStartedAt.get(event.route);
+      const remote: string | null = RouteUtil.getRemote(event.route);
+      this.loadStartedAt.delete(event.route);
+      if (startedAt !== undefined && remote) {
+        this.record('remote-load', now - startedAt, event.route.path ?? null, {
+          remote,
+          route: this.navigation?.url,
+        });
+      }
+    }
+  }
+
+  /**
+   * Records a slow HTTP call.
+   *
+   * @param summary - The outcome of the call.
+   * @internal
+   */
+  private recordHttp(summary: RequestSummary): void {
+    const url: string = summary.url.split('?')[0];
+    this.record(
+      'http',
+      summary.duration,
+      `${summary.method} ${url} ${summary.status ?? 'cancelled'}`,
+    );
+  }
+
+  /**
+   * Keeps a metric and adds it to the pending batch, sending the batch when full.
+   *
+   * @param name - What was measured.
+   * @param value - The measured value.
+   * @param detail - What the measurement applies to.
+   * @param tags - Remote and route, when not those of the current URL.
+   * @internal
+   */
+  private record(
+    name: PerformanceMetricName,
+    value: number,
+    detail: string | null,
+    tags: { remote?: string | null; route?: string | null } = {},
+  ): void {
+    const route: string | null = tags.route ?? this.router?.url ?? null;
+    const metric: PerformanceMetric = {
+      name,
+      value: name === 'CLS' ? Math.round(value * 10_000) / 10_000 : Math.round(value),
+      detail,
+      remote: tags.remote ?? RouteUtil.findRemote(this.router?.config ?? [], route),
+      tenantId: this.tenantStore.tenantId(),
+      route,
+      timestamp: new Date().toISOString(),
+    };
+
+    this._metrics.update((metrics: PerformanceMetric[]): PerformanceMetric[] =>
+      [metric, ...metrics].slice(0, Math.max(0, this.config.maxMetrics)),
+    );
+    this.batch.push(metric);
+    if (this.batch.length >= this.config.batchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Observes the entries behind LCP, INP and CLS, where the browser supports them.
+   *
+   * @internal
+   */
+  private observeVitals(): void {
+    this.observe('largest-contentful-paint', (entries: PerformanceEntry[]): void => {
+      const last: PerformanceEntry | undefined = entries[entries.length - 1];
+      if (last && !this.lcpReported) {
+        this._vitals.update((vitals: WebVitals): WebVitals => ({ ...vitals, lcp: last.startTime }));
+      }
+    });
+    this.observe('event', (entries: PerformanceEntry[]): void =>
+      entries.forEach((entry: PerformanceEntry): void =>
+        this.addInteraction(entry as EventTimingEntry),
+      ),
+    );
+    const layoutShifts: boolean = this.observe(
+      'layout-shift',
+      (entries: PerformanceEntry[]): void =>
+        entries.forEach((entry: PerformanceEntry): void =>
+          this.addLayoutShift(entry as LayoutShiftEntry),
+        ),
+    );
+    if (layoutShifts) {
+      // A page without layout shifts has a CLS of 0
+      this._vitals.update((vitals: WebVitals): WebVitals => ({ ...vitals, cls: vitals.cls ?? 0 }));
+    }
+
+    if (this.observers.length) {
+      LCP_FINAL_EVENTS.forEach((eventName: string): void =>
+        this.window?.addEventListener(eventName, this.onInput, { capture: true, passive: true }),
+      );
+      this.document.addEventListener('visibilitychange', this.onHidden);
+      this.window?.addEventListener('pagehide', this.onPageHide);
+    }
+  }
+
+  /**
+   * Observes one entry type, including the entries buffered before the call.
+   *
+   * @param type - The entry type.
+   * @param callback - Called with the new entries.
+   * @returns Whether the entry type is observed.
+   * @internal
+   */
+  private observe(type: string, callback: (entries: PerformanceEntry[]) => void): boolean {
+    const Observer: typeof PerformanceObserver | undefined = this.window?.PerformanceObserver;
+    if (!Observer?.supportedEntryTypes?.includes(type)) {
+      return false;
+    }
+    try {
+      const observer = new Observer((list: PerformanceObserverEntryList): void =>
+        callback(list.getEntries()),
+      );
+      observer.observe({
+        type,
+        buffered: true,
+        durationThreshold: EVENT_DURATION_THRESHOLD,
+      } as PerformanceObserverInit);
+      this.observers.push(observer);
+      return true;
+    } catch {
+      // Entry type not observable in this browser; the vital is not measured
+      return false;
+    }
+  }
+
+  /**
+   * Updates INP with an event of an interaction.
+   *
+   * INP is the longest interaction, ignoring the longest one of every 50 interactions.
+   *
+   * @param entry - The event timing entry.
+   * @internal
+   */
+  private addInteraction(entry: EventTimingEntry): void {
+    const id: number = entry.interactionId ?? 0;
+    if (!id) {
+      return;
+    }
+    if (id > this.lastInteractionId) {
+      this.lastInteractionId = id;
+      this.interactionCount++;
+    }
+
+    const durations: Map<number, number> = this.longestInteractions;
+    durations.set(id, Math.max(durations.get(id) ?? 0, entry.duration));
+    if (durations.size > MAX_LONGEST_INTERACTIONS) {
+      const [shortestId] = [...durations].reduce((a, b) => (b[1] < a[1] ? b : a));
+      durations.delete(shortestId);
+    }
+
+    const sorted: number[] = [...durations.values()].sort((a: number, b: number) => b - a);
+    const inp: number = sorted[Math.min(Math.floor(this.interactionCount / 50), sorted.length - 1)];
+    this._vitals.update((vitals: WebVitals): WebVitals => ({ ...vitals, inp }));
+  }
+
+  /**
+   * Updates CLS with a layout shift, grouping shifts into session windows.
+   *
+   * @param entry - The layout shift entry.
+   * @internal
+   */
+  private addLayoutShift(entry: LayoutShiftEntry): void {
+    if (entry.hadRecentInput) {
+      return;
+    }
+    const session = this.clsSession;
+    if (
+      !session.value ||
+      entry.startTime - session.endTime > CLS_SESSION_GAP ||
+      entry.startTime - session.startTime > CLS_SESSION_MAX_DURATION
+    ) {
+      this.clsSession = { value: 0, startTime: entry.startTime, endTime: entry.startTime };
+    }
+    this.clsSession.value += entry.value;
+    this.clsSession.endTime = entry.startTime;
+
+    const cls: number = Math.max(this._vitals().cls ?? 0, this.clsSession.value);
+    this._vitals.update((vitals: WebVitals): WebVitals => ({ ...vitals, cls }));
+  }
+
+  /**
+   * Records LCP once, and stops waiting for input.
+   *
+   * @internal
+   */
+  private reportLcp(): void {
+    this.removeInputListeners();
+    const lcp: number | null = this._vitals().lcp;
+    if (this.lcpReported || lcp === null) {
+      return;
+    }
+    this.lcpReported = true;
+    this.record('LCP', lcp, null);
+  }
+
+  /**
+   * Records the Web Vitals that changed since they were last reported, and sends every
+   * pending metric before the page goes away.
+   *
+   * @internal
+   */
+  private reportVitals(): void {
+    this.reportLcp();
+    const { inp, cls } = this._vitals();
+    if (inp !== null && inp !== this.reportedVitals.inp) {
+      this.record('INP', inp, null);
+    }
+    if (cls !== null && cls !== this.reportedVitals.cls) {
+      this.record('CLS', cls, null);
+    }
+    this.reportedVitals = { inp, cls };
+    this.flush();
+    this.loggerService.flush();
+  }
+
+  /**
+   * Stops listening for the input that ends LCP.
+   *
+   * @internal
+   */
+  private removeInputListeners(): void {
+    LCP_FINAL_EVENTS.forEach((eventName: string): void =>
+      this.window?.removeEventListener(eventName, this.onInput, { capture: true }),
+    );
+  }
+}
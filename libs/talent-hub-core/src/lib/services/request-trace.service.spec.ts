@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpHeaders } from '@angular/common/http';
+import { Injector, runInInjectionContext } from '@angular/core';
+
+import { RequestSummary } from '../interfaces';
+import { RequestTraceService } from '../services';
+import { REQUEST_TRACING_CONFIG } from '../tokens';
+
+describe('RequestTraceService', () => {
+  function createService(providers: { provide: unknown; useValue: unknown }[] = []) {
+    return runInInjectionContext(Injector.create({ providers }), () => new RequestTraceService());
+  }
+
+  const summary = (requestId: string): RequestSummary => ({
+    requestId,
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    method: 'GET',
+    url: '/api/candidates',
+    status: 200,
+    errorCode: null,
+    startedAt: 0,
+    duration: 12,
+  });
+
+  it('should create W3C compliant ids', () => {
+    const trace = createService().createTrace();
+
+    expect(trace.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(trace.spanId).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should create new ids for every request', () => {
+    const service = createService();
+
+    expect(service.createTrace().traceId).not.toBe(service.createTrace().traceId);
+  });
+
+  it('should write and read the trace headers', () => {
+    const service = createService();
+    const trace = service.createTrace();
+    const headers = new HttpHeaders(service.toHeaders(trace));
+
+    expect(headers.get('X-Request-Id')).toBe(trace.requestId);
+    expect(headers.get('traceparent')).toBe(`00-${trace.traceId}-${trace.spanId}-01`);
+    expect(service.readTrace(headers)).toEqual(trace);
+  });
+
+  it('should not read incomplete or malformed trace headers', () => {
+    const service = createService();
+
+    expect(service.readTrace(new HttpHeaders())).toBeNull();
+    expect(service.readTrace(new HttpHeaders({ 'X-Request-Id': 'request-1' }))).toBeNull();
+    expect(
+      service.readTrace(new HttpHeaders({ 'X-Request-Id': 'request-1', traceparent: 'bad' })),
+    ).toBeNull();
+  });
+
+  it('should keep the newest summaries first, up to the configured number', () => {
+    const service = createService([
+      { provide: REQUEST_TRACING_CONFIG, useValue: { maxSummaries: 2 } },
+    ]);
+    service.record(summary('a'));
+    service.record(summary('b'));
+    service.record(summary('c'));
+
+    expect(service.summaries().map((s) => s.requestId)).toEqual(['c', 'b']);
+
+    service.clear();
+    expect(service.summaries()).toEqual([]);
+  });
+
+  it('should emit every recorded summary', () => {
+    const service = createService([
+      { provide: REQUEST_TRACING_CONFIG, useValue: { maxSummaries: 0 } },
+    ]);
+    const recorded: string[] = [];
+    service.recorded$.subscribe((s) => recorded.push(s.requestId));
+
+    service.record(summary('a'));
+    service.record(summary('b'));
+
+    expect(recorded).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpHeaders } from '@angular/common/http';
+import { inject, Injectable, Signal, signal, WritableSignal } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { v4 } from 'uuid';
+
+import { RequestSummary, RequestTrace } from '../interfaces';
+import { REQUEST_TRACING_CONFIG } from '../tokens';
+
+/**
+ * Header carrying the request id.
+ *
+ * @internal
+ */
+const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * W3C Trace Context header carrying the trace id and parent span id.
+ *
+ * @internal
+ */
+const TRACEPARENT_HEADER = 'traceparent';
+
+/**
+ * Format of a sampled W3C `traceparent` header (version `00`).
+ *
+ * @internal
+ */
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/**
+ * Number of request summaries kept when `REQUEST_TRACING_CONFIG` is not provided.
+ *
+ * @internal
+ */
+const DEFAULT_MAX_SUMMARIES = 50;
+
+/**
+ * RequestTraceService - Creates the trace ids of HTTP requests and keeps their outcomes.
+ *
+ * `RequestTracingInterceptor` uses it to stamp every request with an `X-Request-Id` and a
+ * W3C `traceparent` header, and to record a summary of every traced request. The ids
+ * appear in the `LoggerService` entries of failed requests and in `ApiError.requestId`
+ * and `ApiError.traceId`, so that support can find the backend trace of a browser log line.
+ *
+ * @remarks
+ * - `summaries` holds the last `maxSummaries` requests (default 50), newest first, for a
+ *   diagnostics panel. It keeps methods, URLs, statuses and timings; no headers or bodies.
+ * - \`recorded$\` emits every summary as it is recorded, e.g., for \`PerformanceMonitorService\`.
+ * - Retries of a request keep its ids; every request sent by the application gets new ones.
+ *
+ * @example
+ * ```typescript
+ * // diagnostics-panel.component.ts
+ * @Component({
+ *   template: `
+ *     @for (request of requestTrace.summaries(); track request.requestId) {
+ *       <tr>
+ *         <td>{{ request.method }} {{ request.url }}</td>
+ *         <td>{{ request.status ?? 'cancelled' }}</td>
+ *         <td>{{ request.duration }} ms</td>
+ *         <td>{{ request.requestId }}</td>
+ *       </tr>
+ *     }
+ *   `,
+ * })
+ * export class DiagnosticsPanelComponent {
+ *   readonly requestTrace = inject(RequestTraceService);
+ * }
+ * ```
+ *
+ * @see RequestTracingInterceptor
+ * @see RequestSummary
+ * @see provideRequestTracingConfig
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class RequestTraceService {
+  /** @internal Number of request summaries kept. */
+  private readonly maxSummaries: number =
+    inject(REQUEST_TRACING_CONFIG, { optional: true })?.maxSummaries ?? DEFAULT_MAX_SUMMARIES;
+
+  /** @internal Writable state behind `summaries`. */
+  private readonly _summaries: WritableSignal<RequestSummary[]> = signal([]);
+
+  /** @internal Subject that emits the recorded summaries. */
+  private readonly recordedSubject = new Subject<RequestSummary>();
+
+  /**
+   * Read-only signal with the summaries of the last traced requests, newest first.
+   *
+   * @example
+   * ```typescript
+   * const failed = this.requestTrace.summaries().filter((request) => request.errorCode);
+   * ```
+   */
+  readonly summaries: Signal<RequestSummary[]> = this._summaries.asReadonly();
+
+  /**
+   * Emits the summary of every traced request as it is recorded.
+   *
+   * @example
+   * ```typescript
+   * this.requestTrace.recorded$
+   *   .pipe(filter((request) => request.duration > 3_000))
+   *   .subscribe((request) => console.warn('Slow request', request.url));
+   * ```
+   */
+  readonly recorded$: Observable<RequestSummary> = this.recordedSubject.asObservable();
+
+  /**
+   * Creates new ids for a request.
+   *
+   * @returns A new request id, trace id and span id.
+   *
+   * @example
+   * ```typescript
+   * const trace = this.requestTrace.createTrace();
+   * ```
+   */
+  createTrace(): RequestTrace {
+    return {
+      requestId: v4(),
+      traceId: v4().replace(/-/g, ''),
+      spanId: v4().replace(/-/g, '').slice(0, 16),
+    };
+  }
+
+  /**
+   * Returns the trace headers of a request.
+   *
+   * @param trace - The ids of the request.
+   * @returns The `X-Request-Id` and `traceparent` headers.
+   *
+   * @example
+   * ```typescript
+   * req.clone({ setHeaders: this.requestTrace.toHeaders(trace) });
+   * ```
+   */
+  toHeaders(trace: RequestTrace): Record<string, string> {
+    return {
+      [REQUEST_ID_HEADER]: trace.requestId,
+      [TRACEPARENT_HEADER]: `00-${trace.traceId}-${trace.spanId}-01`,
+    };
+  }
+
+  /**
+   * Reads the ids from the headers of a request.
+   *
+   * @param headers - The headers of the request.
+   * @returns The ids of the request, or `null` if it was not traced.
+   *
+   * @example
+   * ```typescript
+   * const trace = this.requestTrace.readTrace(req.headers);
+   * this.logger.error('Upload failed', { requestId: trace?.requestId });
+   * ```
+   */
+  readTrace(headers: HttpHeaders): RequestTrace | null {
+    const requestId: string | null = headers.get(REQUEST_ID_HEADER);
+    const traceparent: RegExpExecArray | null = TRACEPARENT_PATTERN.exec(
+      headers.get(TRACEPARENT_HEADER) ?? '',
+    );
+    if (!requestId || !traceparent) {
+      return null;
+    }
+    return { requestId, traceId: traceparent[1], spanId: traceparent[2] };
+  }
+
+  /**
+   * Keeps the summary of a traced request, dropping the oldest above `maxSummaries`.
+   *
+   * @param summary - The outcome of the request.
+   *
+   * @example
+   * ```typescript
+   * this.requestTrace.record({ requestId, traceId, method: 'GET', url, status: 200, ... });
+   * ```
+   */
+  record(summary: RequestSummary): void {
+    this._summaries.update((summaries: RequestSummary[]): RequestSummary[] =>
+      [summary, ...summaries].slice(0, Math.max(0, this.maxSummaries)),
+    );
+    this.recordedSubject.next(summary);
+  }
+
+  /**
+   * Removes every request summary.
+   *
+   * @example
+   * ```typescript
+   * // <button (click)="requestTrace.clear()">Clear</button>
+   * ```
+   */
+  clear(): void {
+    this._summaries.set([]);
+  }
+}
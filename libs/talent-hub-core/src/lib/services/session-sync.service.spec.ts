@@ -0,0 +1,156 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT, Injector, runInInjectionContext } from '@angular/core';
+
+import { SessionSyncService } from '../services';
+import { SessionSyncMessage, User } from '../interfaces';
+
+/** In-memory BroadcastChannel that delivers to the other channels of the same name. */
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown): void {
+    FakeBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => channel.onmessage?.({ data } as MessageEvent));
+  }
+
+  close(): void {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter((c) => c !== this);
+  }
+}
+
+describe('SessionSyncService', () => {
+  const user = { id: '1', email: 'a@b.c' } as User;
+
+  function createTab(window: object): SessionSyncService {
+    const injector = Injector.create({
+      providers: [{ provide: DOCUMENT, useValue: { defaultView: window } }],
+    });
+    return runInInjectionContext(injector, () => new SessionSyncService());
+  }
+
+  function collect(service: SessionSyncService): SessionSyncMessage[] {
+    const messages: SessionSyncMessage[] = [];
+    service.messages$.subscribe((message) => messages.push(message));
+    return messages;
+  }
+
+  afterEach(() => {
+    FakeBroadcastChannel.channels = [];
+  });
+
+  describe('with BroadcastChannel', () => {
+    let tabA: SessionSyncService;
+    let tabB: SessionSyncService;
+
+    beforeEach(() => {
+      const window = { BroadcastChannel: FakeBroadcastChannel };
+      tabA = createTab(window);
+      tabB = createTab(window);
+    });
+
+    it('should give every tab its own id', () => {
+      expect(tabA.tabId).toBeTruthy();
+      expect(tabA.tabId).not.toBe(tabB.tabId);
+    });
+
+    it('should deliver messages to the other tabs only', () => {
+      const receivedByA = collect(tabA);
+      const receivedByB = collect(tabB);
+
+      tabA.publish('session', { token: 't', user });
+
+      expect(receivedByA).toEqual([]);
+      expect(receivedByB).toEqual([
+        { type: 'session', tabId: tabA.tabId, session: { token: 't', user } },
+      ]);
+    });
+
+    it('should close the channel on destroy', () => {
+      const receivedByB = collect(tabB);
+      tabB.ngOnDestroy();
+
+      tabA.publish('logout');
+
+      expect(receivedByB).toEqual([]);
+    });
+  });
+
+  describe('with the storage fallback', () => {
+    let listeners: ((event: StorageEvent) => void)[];
+    let windows: { removeEventListener: ReturnType<typeof vi.fn> }[];
+
+    /** Creates a tab whose localStorage writes fire `storage` events in the other tabs. */
+    function createStorageTab(): SessionSyncService {
+      let listener: (event: StorageEvent) => void = () => undefined;
+      const window = {
+        addEventListener: vi.fn((_: string, callback: (event: StorageEvent) => void) => {
+          listener = callback;
+          listeners.push(callback);
+        }),
+        removeEventListener: vi.fn(),
+        localStorage: {
+          setItem: vi.fn((key: string, newValue: string) =>
+            listeners
+              .filter((other) => other !== listener)
+              .forEach((other) => other({ key, newValue } as StorageEvent)),
+          ),
+          removeItem: vi.fn(),
+        },
+      };
+      windows.push(window);
+      return createTab(window);
+    }
+
+    beforeEach(() => {
+      listeners = [];
+      windows = [];
+    });
+
+    it('should deliver messages through storage events', () => {
+      const tabA = createStorageTab();
+      const tabB = createStorageTab();
+      const receivedByB = collect(tabB);
+
+      tabA.publish('logout');
+
+      expect(receivedByB).toEqual([{ type: 'logout', tabId: tabA.tabId }]);
+    });
+
+    it('should ignore unrelated or malformed storage values', () => {
+      const tab = createStorageTab();
+      const received = collect(tab);
+
+      listeners[0]({ key: 'other', newValue: '{"type":"logout"}' } as StorageEvent);
+      listeners[0]({ key: 'th_session_sync', newValue: 'not json' } as StorageEvent);
+
+      expect(received).toEqual([]);
+    });
+
+    it('should stop listening on destroy', () => {
+      const tab = createStorageTab();
+      tab.ngOnDestroy();
+      expect(windows[0].removeEventListener).toHaveBeenCalledWith('storage', listeners[0]);
+    });
+  });
+
+  it('should do nothing without a browser window', () => {
+    const tab = createTab(null as unknown as object);
+    expect(() => tab.publish('activity')).not.toThrow();
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { DOCUMENT, inject, Injectable, OnDestroy } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { v4 } from 'uuid';
+
+import { AuthSession, SessionSyncMessage } from '../interfaces';
+import { SessionSyncMessageType } from '../types';
+
+/**
+ * Name of the `BroadcastChannel` and of the `localStorage` fallback key.
+ *
+ * @internal
+ */
+const SESSION_SYNC_CHANNEL = 'th_session_sync';
+
+/**
+ * SessionSyncService - Shares session changes between browser tabs of the same origin.
+ *
+ * Messages are sent over a `BroadcastChannel`. In browsers without `BroadcastChannel`,
+ * they are written to `localStorage` and picked up through `storage` events in the
+ * other tabs. Each tab only receives messages sent by other tabs.
+ *
+ * `AuthService` publishes sign-ins, token renewals, sign-outs and expiries, and applies
+ * those it receives, so that `AuthStore` holds the same session in every open tab.
+ * `IdleService` publishes user activity so that a tab left in the background is not
+ * signed out while the user works in another one.
+ *
+ * @remarks
+ * - Messages are only shared between tabs of the same origin.
+ * - Without a browser window (SSR), `publish()` does nothing and `messages$` never emits.
+ * - Messages carry the session including its tokens; they never leave the browser.
+ *
+ * @example
+ * ```typescript
+ * private readonly sessionSync = inject(SessionSyncService);
+ *
+ * this.sessionSync.messages$.subscribe((message) => {
+ *   if (message.type === 'logout') {
+ *     console.log(`Signed out in tab ${message.tabId}`);
+ *   }
+ * });
+ *
+ * this.sessionSync.publish('activity');
+ * ```
+ *
+ * @see SessionSyncMessage
+ * @see AuthService
+ * @see IdleService
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class SessionSyncService implements OnDestroy {
+  /** @internal Window of the current tab, or `null` outside the browser. */
+  private readonly window: (Window & typeof globalThis) | null =
+    inject(DOCUMENT).defaultView ?? null;
+
+  /** @internal Channel shared by all tabs, or `null` when using the storage fallback. */
+  private readonly channel: BroadcastChannel | null =
+    this.window && typeof this.window.BroadcastChannel === 'function'
+      ? new this.window.BroadcastChannel(SESSION_SYNC_CHANNEL)
+      : null;
+
+  /** @internal Subject that emits the messages received from other tabs. */
+  private readonly messagesSubject = new Subject<SessionSyncMessage>();
+
+  /**
+   * Listener for the `storage` events of the `localStorage` fallback.
+   * @internal
+   */
+  private readonly onStorage = (event: StorageEvent): void => {
+    if (event.key !== SESSION_SYNC_CHANNEL || !event.newValue) {
+      return;
+    }
+    try {
+      this.receive(JSON.parse(event.newValue) as SessionSyncMessage);
+    } catch {
+      // Ignore values not written by this service
+    }
+  };
+
+  /**
+   * Identifier of the current tab, unique for the lifetime of the page.
+   */
+  readonly tabId: string = v4();
+
+  /**
+   * Emits every message published by another tab.
+   *
+   * @example
+   * ```typescript
+   * this.sessionSync.messages$
+   *   .pipe(filter((message) => message.type === 'session'))
+   *   .subscribe((message) => console.log('Session updated in another tab', message.session));
+   * ```
+   */
+  readonly messages$: Observable<SessionSyncMessage> = this.messagesSubject.asObservable();
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<SessionSyncMessage>): void =>
+        this.receive(event.data);
+    } else {
+      this.window?.addEventListener('storage', this.onStorage);
+    }
+  }
+
+  /**
+   * Sends a message to all other tabs.
+   *
+   * @param type - What changed in this tab.
+   * @param session - The current session, for `'session'` messages.
+   *
+   * @example
+   * ```typescript
+   * this.sessionSync.publish('session', { token, user, expiresAt });
+   * this.sessionSync.publish('logout');
+   * ```
+   */
+  publish(type: SessionSyncMessageType, session?: AuthSession): void {
+    const message: SessionSyncMessage = { type, tabId: this.tabId, session };
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    try {
+      // Writing then removing the key fires a `storage` event in every other tab
+      this.window?.localStorage.setItem(SESSION_SYNC_CHANNEL, JSON.stringify(message));
+      this.window?.localStorage.removeItem(SESSION_SYNC_CHANNEL);
+    } catch {
+      // Storage unavailable (e.g., private browsing); tabs are not synchronized
+    }
+  }
+
+  /**
+   * Closes the channel and stops listening for messages.
+   *
+   * @internal
+   */
+  ngOnDestroy(): void {
+    if (this.channel) {
+      this.channel.close();
+    } else {
+      this.window?.removeEventListener('storage', this.onStorage);
+    }
+    this.messagesSubject.complete();
+  }
+
+  /**
+   * Emits a message received from another tab.
+   *
+   * @param message - The received message.
+   * @internal
+   */
+  private receive(message: SessionSyncMessage | null | undefined): void {
+    if (message?.type && message.tabId !== this.tabId) {
+      this.messagesSubject.next(message);
+    }
+  }
+}
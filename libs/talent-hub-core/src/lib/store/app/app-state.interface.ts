@@ -129,6 +129,8 @@ export interface AppState {
    * @remarks
    * Feature flags enable controlled rollout of new features, A/B testing,
    * and environment-specific behavior without code changes.
+   * \`FeatureFlagService\` applies these flags as local overrides over the flags it loads,
+   * e.g., to switch a feature on during development or in tests.
    *
    * @example
    * ```typescript
@@ -23,6 +23,7 @@ import { User } from '../../interfaces';
  * - `isAuthenticated` - Whether the user is currently logged in.
  * - `token` - The JWT or session token for API authorization.
  * - `user` - The authenticated user's profile with identity, roles, and permissions.
+ * - `sessionExpired` - Whether the last session ended because it expired.
  *
  * **Usage:**
  * This interface is used as the state type for `AuthStore` and should not be
@@ -35,6 +36,7 @@ import { User } from '../../interfaces';
  *   isAuthenticated: false,
  *   token: null,
  *   user: null,
+ *   sessionExpired: false,
  * };
  *
  * // Access state via AuthStore
@@ -101,6 +103,31 @@ export interface AuthState {
    */
   token: string | null;
 
+  /**
+   * The refresh token used to obtain a new access token, or `null` if none was issued.
+   *
+   * Exchanged by `AuthService.refreshToken()` when the access token is rejected with 401.
+   * Never attached to regular API requests.
+   *
+   * @remarks
+   * - Replaced on every refresh when the server rotates refresh tokens.
+   * - Cleared together with the access token on logout or session expiry.
+   */
+  refreshToken: string | null;
+
+  /**
+   * Time (milliseconds since epoch) at which the token expiry was last checked.
+   *
+   * `isTokenExpired` compares the token's `exp` claim against this value rather than
+   * the wall clock, so the computed signal only changes when the state changes.
+   * Updated whenever a token is set and by `checkTokenExpiry()`.
+   *
+   * @remarks
+   * Read `isTokenExpired()` instead of this value; call `checkTokenExpiry()` to
+   * re-evaluate it against the current time.
+   */
+  expiryCheckedAt: number;
+
   /**
    * The currently authenticated user's profile.
    *
@@ -127,4 +154,24 @@ export interface AuthState {
    * ```
    */
   user: User | null;
+
+  /**
+   * Indicates whether the previous session ended because it expired.
+   *
+   * Set to `true` when a persisted session is found to be past its expiry or
+   * when the session is expired explicitly. Reset to `false` on the next
+   * successful login or an explicit logout.
+   *
+   * @remarks
+   * Use this flag to explain to the user why they were signed out, instead of
+   * silently redirecting to the login page.
+   *
+   * @example
+   * ```typescript
+   * // @if (authStore.sessionExpired()) {
+   * //   <p>Your session has expired. Please sign in again.</p>
+   * // }
+   * ```
+   */
+  sessionExpired: boolean;
 }
@@ -8,11 +8,17 @@
  * @version 1.0.0
  */
 
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { Injector, runInInjectionContext } from '@angular/core';
 
 import { AuthStore } from './auth.store';
 
+/** Encodes a payload as an unsigned JWT. */
+function createJwt(payload: object): string {
+  const encode = (value: object): string => btoa(JSON.stringify(value)).replace(/=+$/, '');
+  return `${encode({ alg: 'HS256' })}.${encode(payload)}.signature`;
+}
+
 describe('AuthStore', () => {
   let store: InstanceType<typeof AuthStore>;
   let injector: Injector;
@@ -168,4 +174,114 @@ describe('AuthStore', () => {
     expect(store.hasRole('admin')).toBe(false);
     expect(store.hasPermission('read')).toBe(false);
   });
+
+  describe('session lifecycle', () => {
+    const user = {
+      id: 'u1',
+      email: 'user@example.com',
+      firstName: 'Test',
+      lastName: 'User',
+      roles: ['admin'],
+      permissions: ['read'],
+    };
+
+    it('should mark the user as authenticated on setSession', () => {
+      store.setSession('token-1', user);
+      expect(store.isAuthenticated()).toBe(true);
+      expect(store.getToken()).toBe('token-1');
+      expect(store.user()).toEqual(user);
+      expect(store.sessionExpired()).toBe(false);
+    });
+
+    it('should reset the state on clearSession', () => {
+      store.setSession('token-1', user);
+      store.clearSession();
+      expect(store.isAuthenticated()).toBe(false);
+      expect(store.getToken()).toBeNull();
+      expect(store.user()).toBeNull();
+      expect(store.sessionExpired()).toBe(false);
+    });
+
+    it('should clear the session and flag it on expireSession', () => {
+      store.setSession('token-1', user);
+      store.expireSession();
+      expect(store.isAuthenticated()).toBe(false);
+      expect(store.getToken()).toBeNull();
+      expect(store.sessionExpired()).toBe(true);
+    });
+
+    it('should reset the expired flag on the next setSession', () => {
+      store.expireSession();
+      store.setSession('token-2', user);
+      expect(store.sessionExpired()).toBe(false);
+    });
+
+    it('should store the refresh token on setSession', () => {
+      store.setSession('token-1', user, 'refresh-1');
+      expect(store.refreshToken()).toBe('refresh-1');
+    });
+
+    it('should replace both tokens and keep the user on setTokens', () => {
+      store.setSession('token-1', user, 'refresh-1');
+      store.setTokens('token-2', 'refresh-2');
+      expect(store.getToken()).toBe('token-2');
+      expect(store.refreshToken()).toBe('refresh-2');
+      expect(store.user()).toEqual(user);
+      expect(store.isAuthenticated()).toBe(true);
+    });
+
+    it('should clear the refresh token on expireSession', () => {
+      store.setSession('token-1', user, 'refresh-1');
+      store.expireSession();
+      expect(store.refreshToken()).toBeNull();
+    });
+
+    it('should clear loading when an error is set', () => {
+      store.setLoading(true);
+      store.setError('Invalid credentials');
+      expect(store.isLoading?.()).toBe(false);
+      expect(store.error?.()).toBe('Invalid credentials');
+    });
+  });
+
+  describe('token claims and expiry', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should decode the claims of a JWT', () => {
+      store.setToken(createJwt({ sub: 'u1', tenant: 'acme', roles: ['admin'], exp: 2_000 }));
+      expect(store.tokenClaims()).toEqual({
+        sub: 'u1',
+        tenant: 'acme',
+        roles: ['admin'],
+        exp: 2_000,
+      });
+      expect(store.tokenExpiresAt()).toBe(2_000_000);
+    });
+
+    it('should return null claims and expiry for an opaque token', () => {
+      store.setToken('opaque-token');
+      expect(store.tokenClaims()).toBeNull();
+      expect(store.tokenExpiresAt()).toBeNull();
+      expect(store.isTokenExpired()).toBe(false);
+    });
+
+    it('should report a token that is past its exp claim as expired', () => {
+      vi.useFakeTimers({ now: 3_000_000 });
+      store.setToken(createJwt({ exp: 2_000 }));
+      expect(store.isTokenExpired()).toBe(true);
+    });
+
+    it('should re-evaluate expiry against the current time on checkTokenExpiry', () => {
+      vi.useFakeTimers({ now: 1_000_000 });
+      store.setToken(createJwt({ exp: 2_000 }));
+      expect(store.isTokenExpired()).toBe(false);
+
+      vi.setSystemTime(2_000_000);
+      expect(store.isTokenExpired()).toBe(false);
+      expect(store.checkTokenExpiry()).toBe(true);
+      expect(store.isTokenExpired()).toBe(true);
+    });
+  });
 });
@@ -13,7 +13,8 @@ import { patchState, signalStore, withComputed, withMethods, withState } from '@
 
 import { AuthState } from './auth-state.interface';
 import { AsyncState } from '../async-state.interface';
-import { User } from '../../interfaces';
+import { JwtClaims, User } from '../../interfaces';
+import { JwtUtil } from '../../utils';
 
 /**
  * Initial authentication state for AuthStore.
@@ -25,6 +26,7 @@ import { User } from '../../interfaces';
  * - `isAuthenticated` - Whether the user is currently authenticated.
  * - `token` - The JWT or session token for the current user session.
  * - `user` - The authenticated user's profile (id, email, name, roles, permissions).
+ * - `sessionExpired` - Whether the last session ended because it expired.
  * - `isLoading` - Whether an authentication operation is in progress.
  * - `error` - Holds any authentication error (login failure, token expiration, etc.).
  *
@@ -33,7 +35,10 @@ import { User } from '../../interfaces';
 const initialState: AuthState & AsyncState = {
   isAuthenticated: false,
   token: null,
+  refreshToken: null,
+  expiryCheckedAt: 0,
   user: null,
+  sessionExpired: false,
   isLoading: false,
   error: undefined,
 };
@@ -52,16 +57,22 @@ const initialState: AuthState & AsyncState = {
  * - Provides computed signals for authorization (`userRoles`, `userPermissions`, `isAdmin`).
  * - Exposes methods for role and permission checks (`hasRole()`, `hasPermission()`).
  * - Exposes setters for authentication state (`setToken()`, `setUser()`).
+ * - Manages the session lifecycle (`setSession()`, `setTokens()`, `clearSession()`, `expireSession()`).
  *
  * **State Signals (Readable):**
  * - `isAuthenticated()` - Whether the user is authenticated.
  * - `token()` - The current authentication token or `null`.
+ * - `refreshToken()` - The current refresh token or `null`.
  * - `user()` - The current `User` object or `null`.
+ * - `sessionExpired()` - Whether the last session ended because it expired.
  * - `isLoading()` - Whether an auth operation is in progress.
  * - `error()` - The current error object, if any.
  *
  * **Computed Signals:**
  * - `authToken()` - The authentication token (alias for `token()`).
+ * - `tokenClaims()` - Claims decoded from the token (`exp`, `iat`, `sub`, `tenant`, `roles`).
+ * - `tokenExpiresAt()` - Token expiry in milliseconds since epoch, or `null`.
+ * - `isTokenExpired()` - Whether the token had expired at the last expiry check.
  * - `userId()` - The user's unique identifier.
  * - `userEmail()` - The user's email address.
  * - `fullName()` - The user's full name (firstName + lastName).
@@ -92,9 +103,8 @@ const initialState: AuthState & AsyncState = {
  * //   <app-admin-dashboard />
  * // }
  *
- * // Set user after login
- * this.authStore.setToken(response.token);
- * this.authStore.setUser(response.user);
+ * // Start a session after login
+ * this.authStore.setSession(response.accessToken, response.user);
  * ```
  *
  * @see AuthState
@@ -222,6 +232,74 @@ export const AuthStore = signalStore(
     ),
   })),
 
+  withComputed(({ token }) => ({
+    /**
+     * Computed signal that returns the claims decoded from the access token.
+     *
+     * Returns `null` if there is no token or the token is not a JWT (opaque token).
+     * The signature is not verified.
+     *
+     * @returns The decoded `JwtClaims`, or `null`.
+     *
+     * @example
+     * ```typescript
+     * const claims = authStore.tokenClaims();
+     * console.log(claims?.sub, claims?.tenant, claims?.roles);
+     * ```
+     *
+     * @see JwtUtil.decode
+     */
+    tokenClaims: computed((): JwtClaims | null => JwtUtil.decode(token())),
+  })),
+
+  withComputed(({ tokenClaims, expiryCheckedAt }) => {
+    const tokenExpiresAt = computed((): number | null => {
+      const exp: number | undefined = tokenClaims()?.exp;
+      return typeof exp === 'number' ? exp * 1000 : null;
+    });
+
+    return {
+      /**
+       * Computed signal that returns when the access token expires.
+       *
+       * Derived from the token's `exp` claim. Returns `null` if there is no token, the
+       * token is opaque, or it has no `exp` claim.
+       *
+       * @returns The expiry in milliseconds since epoch, or `null`.
+       *
+       * @example
+       * ```typescript
+       * const expiresAt = authStore.tokenExpiresAt();
+       * if (expiresAt) {
+       *   console.log(`Session ends at ${new Date(expiresAt).toLocaleTimeString()}`);
+       * }
+       * ```
+       */
+      tokenExpiresAt,
+
+      /**
+       * Computed signal that returns `true` if the access token had expired when the
+       * expiry was last checked.
+       *
+       * Tokens without a known expiry are never considered expired. Call
+       * `checkTokenExpiry()` to re-evaluate the signal against the current time.
+       *
+       * @returns `true` if the token is expired, `false` otherwise.
+       *
+       * @example
+       * ```typescript
+       * if (authStore.isTokenExpired()) {
+       *   authService.expireSession();
+       * }
+       * ```
+       */
+      isTokenExpired: computed((): boolean => {
+        const expiresAt: number | null = tokenExpiresAt();
+        return expiresAt !== null && expiresAt <= expiryCheckedAt();
+      }),
+    };
+  }),
+
   withMethods((store) => ({
     /**
      * Checks if the user has a specific role.
@@ -393,7 +471,7 @@ export const AuthStore = signalStore(
      * ```
      */
     setToken(token: string | null): void {
-      patchState(store, { token });
+      patchState(store, { token, expiryCheckedAt: Date.now() });
     },
 
     /**
@@ -423,5 +501,133 @@ export const AuthStore = signalStore(
     setUser(user: User | null): void {
       patchState(store, { user });
     },
+
+    /**
+     * Starts an authenticated session with the given token and user.
+     *
+     * Sets `isAuthenticated` to `true` and clears any previous expiry flag or error.
+     * This is the only method that marks the user as authenticated; `AuthService`
+     * calls it after a successful login or when a persisted session is restored.
+     *
+     * @param token - The access token for the session.
+     * @param user - The authenticated user's profile.
+     * @param refreshToken - The refresh token for the session, if one was issued.
+     *
+     * @example
+     * ```typescript
+     * authStore.setSession(response.accessToken, response.user, response.refreshToken);
+     * authStore.isAuthenticated(); // true
+     * ```
+     */
+    setSession(token: string, user: User, refreshToken: string | null = null): void {
+      patchState(store, {
+        isAuthenticated: true,
+        token,
+        refreshToken,
+        expiryCheckedAt: Date.now(),
+        user,
+        sessionExpired: false,
+        isLoading: false,
+        error: undefined,
+      });
+    },
+
+    /**
+     * Replaces the access and refresh tokens of the current session.
+     *
+     * Called by `AuthService` after a successful token refresh. The user and the
+     * authentication flag are left untouched.
+     *
+     * @param token - The new access token.
+     * @param refreshToken - The new (or unchanged) refresh token.
+     *
+     * @example
+     * ```typescript
+     * authStore.setTokens(response.accessToken, response.refreshToken ?? null);
+     * ```
+     */
+    setTokens(token: string, refreshToken: string | null): void {
+      patchState(store, { token, refreshToken, expiryCheckedAt: Date.now() });
+    },
+
+    /**
+     * Re-evaluates `isTokenExpired` against the current time.
+     *
+     * `isTokenExpired` is a pure computed signal and does not change on its own as
+     * time passes. Call this method before relying on it, e.g. in a route guard.
+     *
+     * @returns `true` if the access token has expired, `false` otherwise.
+     *
+     * @example
+     * ```typescript
+     * if (authStore.checkTokenExpiry()) {
+     *   // Treat the user as signed out
+     * }
+     * ```
+     */
+    checkTokenExpiry(): boolean {
+      patchState(store, { expiryCheckedAt: Date.now() });
+      return store.isTokenExpired();
+    },
+
+    /**
+     * Ends the current session and resets the store to its initial state.
+     *
+     * Call this method on an explicit logout. Use `expireSession()` instead when
+     * the session ended because it was no longer valid.
+     *
+     * @example
+     * ```typescript
+     * authStore.clearSession();
+     * authStore.isAuthenticated(); // false
+     * ```
+     */
+    clearSession(): void {
+      patchState(store, initialState);
+    },
+
+    /**
+     * Ends the current session and flags it as expired.
+     *
+     * Clears the token and user like `clearSession()`, but sets `sessionExpired`
+     * to `true` so the UI can tell the user why they were signed out.
+     *
+     * @example
+     * ```typescript
+     * authStore.expireSession();
+     * authStore.sessionExpired(); // true
+     * ```
+     */
+    expireSession(): void {
+      patchState(store, { ...initialState, sessionExpired: true });
+    },
+
+    /**
+     * Sets the loading state for authentication operations.
+     *
+     * @param isLoading - `true` while a login or logout request is in progress.
+     *
+     * @example
+     * ```typescript
+     * authStore.setLoading(true);
+     * ```
+     */
+    setLoading(isLoading: boolean): void {
+      patchState(store, { isLoading });
+    },
+
+    /**
+     * Sets the authentication error and clears the loading state.
+     *
+     * @param error - The error raised by a failed authentication operation.
+     *
+     * @example
+     * ```typescript
+     * authStore.setError(new Error('Invalid credentials'));
+     * ```
+     */
+    setError(error: unknown): void {
+      patchState(store, { error, isLoading: false });
+    },
   })),
 );
@@ -267,6 +267,27 @@ describe('TenantStore', () => {
 
       expect(store.tenantFeatures()).toEqual({});
     });
+
+    it('should return null for oidcConfig when the tenant does not use SSO', () => {
+      expect(store.oidcConfig()).toBeNull();
+    });
+
+    it('should compute oidcConfig from tenantPreference', () => {
+      const oidc = { issuer: 'https://login.acme.com', clientId: 'talent-hub-web' };
+      store.setTenantPreference({ ...store.tenantPreference()!, oidc });
+
+      expect(store.oidcConfig()).toEqual(oidc);
+    });
+
+    it('should return null for idleTimeout when the tenant does not set one', () => {
+      expect(store.idleTimeout()).toBeNull();
+    });
+
+    it('should convert idleTimeoutMinutes to milliseconds', () => {
+      store.setTenantPreference({ ...store.tenantPreference()!, idleTimeoutMinutes: 15 });
+
+      expect(store.idleTimeout()).toBe(900_000);
+    });
   });
 
   // ============================================
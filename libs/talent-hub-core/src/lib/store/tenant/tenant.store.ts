@@ -11,7 +11,7 @@
 import { computed } from '@angular/core';
 import { patchState, signalStore, withComputed, withMethods, withState } from '@ngrx/signals';
 
-import { Tenant, TenantBranding, TenantPreference } from '../../interfaces';
+import { OidcConfig, Tenant, TenantBranding, TenantPreference } from '../../interfaces';
 import { TenantState } from './tenant-state.interface';
 import { AsyncState } from '../async-state.interface';
 import { TenantPlan, Theme, TimeFormat } from '../../types';
@@ -67,6 +67,8 @@ const initialState: TenantState & AsyncState = {
  * - `defaultTimezone()` - Tenant's default timezone.
  * - `branding()` - Tenant's branding configuration.
  * - `tenantFeatures()` - Tenant's feature flags.
+ * - `oidcConfig()` - Tenant's single sign-on settings, if it uses OIDC.
+ * - `idleTimeout()` - Tenant's idle timeout in milliseconds, if it sets one.
  *
  * @example
  * ```typescript
@@ -174,6 +176,19 @@ export const TenantStore = signalStore(
      * Tenant feature flags.
      */
     tenantFeatures: computed((): Record<string, boolean> => tenantPreference()?.features ?? {}),
+
+    /**
+     * Tenant single sign-on (OIDC) settings, or `null` for password sign-in.
+     */
+    oidcConfig: computed((): OidcConfig | null => tenantPreference()?.oidc ?? null),
+
+    /**
+     * Tenant idle timeout in milliseconds, or `null` to use the application default.
+     */
+    idleTimeout: computed((): number | null => {
+      const minutes: number | undefined = tenantPreference()?.idleTimeoutMinutes;
+      return minutes === undefined ? null : minutes * 60_000;
+    }),
   })),
 
   withMethods((store) => ({
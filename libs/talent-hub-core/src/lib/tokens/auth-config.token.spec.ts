@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { AUTH_CONFIG, provideAuthConfig } from '../tokens';
+
+describe('auth-config.token', () => {
+  describe('AUTH_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(AUTH_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(AUTH_CONFIG.toString()).toBe('InjectionToken AUTH_CONFIG');
+    });
+  });
+
+  describe('provideAuthConfig', () => {
+    it('should use AUTH_CONFIG as the provide token', () => {
+      const provider = provideAuthConfig({});
+
+      expect(provider.provide).toBe(AUTH_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { loginEndpoint: '/identity/login', storageType: 'local' as const };
+      const provider = provideAuthConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { AuthConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the authentication configuration to AuthService.
+ *
+ * The token is optional; when it is not provided, `AuthService` uses its built-in
+ * defaults. Prefer `provideAuthConfig()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: AUTH_CONFIG, useValue: { loginEndpoint: '/identity/login' } }
+ * ```
+ *
+ * @see provideAuthConfig
+ * @see AuthService
+ * @see AuthConfig
+ */
+export const AUTH_CONFIG = new InjectionToken<AuthConfig>('AUTH_CONFIG');
+
+/**
+ * Provider function for the authentication configuration.
+ *
+ * Call this function in your app.config.ts providers array to override the
+ * default auth endpoints or the storage used to persist the session.
+ *
+ * @param config - Partial authentication configuration; omitted values use defaults.
+ * @returns Provider object for the AUTH_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideAuthConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideAuthConfig({
+ *       loginEndpoint: '/identity/login',
+ *       storageType: 'local',
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see AuthService
+ * @see AuthConfig
+ * @publicApi
+ */
+export function provideAuthConfig(config: AuthConfig) {
+  return {
+    provide: AUTH_CONFIG,
+    useValue: config,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { CACHE_CONFIG, provideCacheConfig } from '../tokens';
+
+describe('cache-config.token', () => {
+  describe('CACHE_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(CACHE_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(CACHE_CONFIG.toString()).toBe('InjectionToken CACHE_CONFIG');
+    });
+  });
+
+  describe('provideCacheConfig', () => {
+    it('should use CACHE_CONFIG as the provide token', () => {
+      const provider = provideCacheConfig({});
+
+      expect(provider.provide).toBe(CACHE_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { ttl: 60_000, maxEntries: 10 };
+      const provider = provideCacheConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { CacheConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the application-wide cache configuration to CacheInterceptor.
+ *
+ * The token is optional; when it is not provided, `CacheInterceptor` and
+ * `HttpCacheService` use their built-in defaults. Prefer `provideCacheConfig()` over
+ * providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: CACHE_CONFIG, useValue: { policy: 'no-store' } }
+ * ```
+ *
+ * @see provideCacheConfig
+ * @see CacheInterceptor
+ * @see CacheConfig
+ */
+export const CACHE_CONFIG = new InjectionToken<CacheConfig>('CACHE_CONFIG');
+
+/**
+ * Provider function for the application-wide cache configuration.
+ *
+ * Call this function in your app.config.ts providers array to change the default
+ * policy, lifetimes and size of the HTTP cache. Single requests can still override
+ * it with the `caching` option of `HttpOptions`.
+ *
+ * @param config - Partial cache configuration; omitted values use defaults.
+ * @returns Provider object for the CACHE_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideCacheConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideCacheConfig({ ttl: 60_000, maxEntries: 200 }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see CacheInterceptor
+ * @see CacheConfig
+ * @publicApi
+ */
+export function provideCacheConfig(config: CacheConfig) {
+  return {
+    provide: CACHE_CONFIG,
+    useValue: config,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpContext, HttpContextToken } from '@angular/common/http';
+
+import { CACHE } from '../tokens';
+
+describe('cache.token', () => {
+  it('should be an HttpContextToken', () => {
+    expect(CACHE).toBeInstanceOf(HttpContextToken);
+  });
+
+  it('should default to null', () => {
+    expect(new HttpContext().get(CACHE)).toBeNull();
+  });
+
+  it('should return the value set on the context', () => {
+    const config = { policy: 'no-cache' as const };
+    expect(new HttpContext().set(CACHE, config).get(CACHE)).toBe(config);
+  });
+});
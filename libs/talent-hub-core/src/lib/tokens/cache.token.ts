@@ -0,0 +1,39 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpContextToken } from '@angular/common/http';
+
+import { CacheConfig } from '../interfaces';
+
+/**
+ * HTTP context token that overrides the caching behavior of `CacheInterceptor` for a request.
+ *
+ * Its values take precedence over the application-wide `CACHE_CONFIG`. Defaults to
+ * `null` (application configuration).
+ *
+ * @remarks
+ * `ApiService` sets it from the `caching` option of `HttpOptions`; set it directly only
+ * when calling `HttpClient` yourself.
+ *
+ * @example
+ * ```typescript
+ * import { HttpContext } from '@angular/common/http';
+ * import { CACHE } from '@talent-hub/core';
+ *
+ * this.http.get('/me/notifications', {
+ *   context: new HttpContext().set(CACHE, { policy: 'no-store' }),
+ * });
+ * ```
+ *
+ * @see CacheInterceptor
+ * @see CacheConfig
+ * @publicApi
+ */
+export const CACHE = new HttpContextToken<CacheConfig | null>((): CacheConfig | null => null);
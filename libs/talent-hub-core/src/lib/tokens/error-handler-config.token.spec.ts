@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { ERROR_HANDLER_CONFIG, provideErrorHandlerConfig } from '../tokens';
+
+describe('error-handler-config.token', () => {
+  describe('ERROR_HANDLER_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(ERROR_HANDLER_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(ERROR_HANDLER_CONFIG.toString()).toBe('InjectionToken ERROR_HANDLER_CONFIG');
+    });
+  });
+
+  describe('provideErrorHandlerConfig', () => {
+    it('should use ERROR_HANDLER_CONFIG as the provide token', () => {
+      const provider = provideErrorHandlerConfig({});
+
+      expect(provider.provide).toBe(ERROR_HANDLER_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { dedupeWindow: 300_000, maxBreadcrumbs: 50 };
+      const provider = provideErrorHandlerConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { ErrorHandlerConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the error reporting configuration to GlobalErrorHandler.
+ *
+ * The token is optional; when it is not provided, `GlobalErrorHandler` uses its built-in
+ * defaults. Prefer `provideErrorHandlerConfig()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: ERROR_HANDLER_CONFIG, useValue: { dedupeWindow: 300_000 } }
+ * ```
+ *
+ * @see provideErrorHandlerConfig
+ * @see GlobalErrorHandler
+ * @see ErrorHandlerConfig
+ */
+export const ERROR_HANDLER_CONFIG = new InjectionToken<ErrorHandlerConfig>('ERROR_HANDLER_CONFIG');
+
+/**
+ * Provider function for the error reporting configuration.
+ *
+ * Call this function in your app.config.ts providers array to change how repeated
+ * errors are grouped, how many breadcrumbs are attached, or which errors are ignored.
+ *
+ * @param config - Partial error handler configuration; omitted values use defaults.
+ * @returns Provider object for the ERROR_HANDLER_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideErrorHandlerConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideErrorHandlerConfig({
+ *       dedupeWindow: 5 * 60_000,
+ *       ignoredErrors: [/ResizeObserver loop/, 'Script error.'],
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see GlobalErrorHandler
+ * @see ErrorHandlerConfig
+ * @publicApi
+ */
+export function provideErrorHandlerConfig(config: ErrorHandlerConfig) {
+  return {
+    provide: ERROR_HANDLER_CONFIG,
+    useValue: config,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { EVENT_BUS_BRIDGE_CONFIG, provideEventBusBridgeConfig } from '../tokens';
+
+describe('event-bus-bridge-config.token', () => {
+  describe('EVENT_BUS_BRIDGE_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(EVENT_BUS_BRIDGE_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(EVENT_BUS_BRIDGE_CONFIG.toString()).toBe('InjectionToken EVENT_BUS_BRIDGE_CONFIG');
+    });
+  });
+
+  describe('provideEventBusBridgeConfig', () => {
+    it('should use EVENT_BUS_BRIDGE_CONFIG as the provide token', () => {
+      const provider = provideEventBusBridgeConfig({ keys: [] });
+
+      expect(provider.provide).toBe(EVENT_BUS_BRIDGE_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { keys: ['th:candidate.*'] };
+      const provider = provideEventBusBridgeConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { EventBusBridgeConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the cross-tab event configuration to EventBusBridgeService.
+ *
+ * The token is optional; when it is not provided, `EventBusBridgeService` does not share
+ * any events with other tabs. Prefer `provideEventBusBridgeConfig()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: EVENT_BUS_BRIDGE_CONFIG, useValue: { keys: ['th:candidate.*'] } }
+ * ```
+ *
+ * @see provideEventBusBridgeConfig
+ * @see EventBusBridgeService
+ * @see EventBusBridgeConfig
+ */
+export const EVENT_BUS_BRIDGE_CONFIG = new InjectionToken<EventBusBridgeConfig>(
+  'EVENT_BUS_BRIDGE_CONFIG',
+);
+
+/**
+ * Provider function for the cross-tab event configuration.
+ *
+ * Call this function in your app.config.ts providers array to choose which events
+ * `EventBusBridgeService` shares with the other tabs of the same tenant.
+ *
+ * @param config - Keys or wildcard patterns of the shared events.
+ * @returns Provider object for the EVENT_BUS_BRIDGE_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideEventBusBridgeConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideEventBusBridgeConfig({
+ *       keys: ['th:candidate.*', 'th:requisition.published'],
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see EventBusBridgeService
+ * @see EventBusBridgeConfig
+ * @publicApi
+ */
+export function provideEventBusBridgeConfig(config: EventBusBridgeConfig) {
+  return {
+    provide: EVENT_BUS_BRIDGE_CONFIG,
+    useValue: config,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { FEATURE_FLAG_CONFIG, provideFeatureFlagConfig } from '../tokens';
+
+describe('feature-flag-config.token', () => {
+  describe('FEATURE_FLAG_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(FEATURE_FLAG_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(FEATURE_FLAG_CONFIG.toString()).toBe('InjectionToken FEATURE_FLAG_CONFIG');
+    });
+  });
+
+  describe('provideFeatureFlagConfig', () => {
+    it('should use FEATURE_FLAG_CONFIG as the provide token', () => {
+      const provider = provideFeatureFlagConfig({});
+
+      expect(provider.provide).toBe(FEATURE_FLAG_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { endpoint: '/api/feature-flags', refreshInterval: 60_000 };
+      const provider = provideFeatureFlagConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
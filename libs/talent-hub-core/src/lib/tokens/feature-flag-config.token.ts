@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { FeatureFlagConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the feature flag configuration to FeatureFlagService.
+ *
+ * The token is optional; when it is not provided, `FeatureFlagService` uses its built-in
+ * defaults. Prefer `provideFeatureFlagConfig()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: FEATURE_FLAG_CONFIG, useValue: { refreshInterval: 0 } }
+ * ```
+ *
+ * @see provideFeatureFlagConfig
+ * @see FeatureFlagService
+ * @see FeatureFlagConfig
+ */
+export const FEATURE_FLAG_CONFIG = new InjectionToken<FeatureFlagConfig>('FEATURE_FLAG_CONFIG');
+
+/**
+ * Provider function for the feature flag configuration.
+ *
+ * Call this function in your app.config.ts providers array to change where
+ * `FeatureFlagService` loads the flags from, or how often it loads them again.
+ *
+ * @param config - Partial feature flag configuration; omitted values use defaults.
+ * @returns Provider object for the FEATURE_FLAG_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideFeatureFlagConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideFeatureFlagConfig({
+ *       endpoint: '/api/feature-flags',
+ *       refreshInterval: 60_000,
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see FeatureFlagService
+ * @see FeatureFlagConfig
+ * @publicApi
+ */
+export function provideFeatureFlagConfig(config: FeatureFlagConfig) {
+  return {
+    provide: FEATURE_FLAG_CONFIG,
+    useValue: config,
+  };
+}
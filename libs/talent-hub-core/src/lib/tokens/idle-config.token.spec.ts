@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { IDLE_CONFIG, provideIdleConfig } from '../tokens';
+
+describe('idle-config.token', () => {
+  describe('IDLE_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(IDLE_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(IDLE_CONFIG.toString()).toBe('InjectionToken IDLE_CONFIG');
+    });
+  });
+
+  describe('provideIdleConfig', () => {
+    it('should use IDLE_CONFIG as the provide token', () => {
+      const provider = provideIdleConfig({});
+
+      expect(provider.provide).toBe(IDLE_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { timeout: 900_000, warningDuration: 120_000 };
+      const provider = provideIdleConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { IdleConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the idle-timeout configuration to IdleService.
+ *
+ * The token is optional; when it is not provided, `IdleService` uses its built-in
+ * defaults. Prefer `provideIdleConfig()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: IDLE_CONFIG, useValue: { timeout: 900_000 } }
+ * ```
+ *
+ * @see provideIdleConfig
+ * @see IdleService
+ * @see IdleConfig
+ */
+export const IDLE_CONFIG = new InjectionToken<IdleConfig>('IDLE_CONFIG');
+
+/**
+ * Provider function for the idle-timeout configuration.
+ *
+ * Call this function in your app.config.ts providers array to change the default
+ * idle timeout or the length of the countdown warning.
+ *
+ * @param config - Partial idle configuration; omitted values use defaults.
+ * @returns Provider object for the IDLE_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideIdleConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideIdleConfig({
+ *       timeout: 15 * 60_000,
+ *       warningDuration: 2 * 60_000,
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see IdleService
+ * @see IdleConfig
+ * @publicApi
+ */
+export function provideIdleConfig(config: IdleConfig) {
+  return {
+    provide: IDLE_CONFIG,
+    useValue: config,
+  };
+}
@@ -32,6 +32,27 @@
  * | Token | Type | Description |
  * |-------|------|-------------|
  * | `API_BASE_URL` | `string` | Base URL for API requests |
+ * | `AUTH_CONFIG` | `AuthConfig` | Authentication endpoints and session storage |
+ * | `CACHE` | `HttpContextToken<CacheConfig \| null>` | Per-request cache override for `CacheInterceptor` |
+ * | `CACHE_CONFIG` | `CacheConfig` | Application-wide cache behavior |
+ * | `ERROR_HANDLER_CONFIG` | `ErrorHandlerConfig` | Dedupe window, breadcrumbs and ignored errors |
+ * | `EVENT_BUS_BRIDGE_CONFIG` | `EventBusBridgeConfig` | Events shared with the other tabs of the tenant |
+ * | `FEATURE_FLAG_CONFIG` | `FeatureFlagConfig` | Endpoint and refresh interval of feature flags |
+ * | `IDLE_CONFIG` | `IdleConfig` | Idle timeout and countdown warning |
+ * | `LOG_SINKS` | `LogSink[]` | Additional destinations of log entries |
+ * | `LOG_TRANSPORT_CONFIG` | `LogTransportConfig` | Batching, retries, capacities and redaction of logs |
+ * | `MOCK_BACKEND_CONFIG` | `MockBackendConfig` | Mock backend fixtures, latency and errors |
+ * | `MOCK_HANDLERS` | `MockHandler[]` | Mock endpoints for development mode |
+ * | `NOTIFICATION_CONFIG` | `NotificationConfig` | Notification durations and maximum visible count |
+ * | `OFFLINE_CACHE` | `HttpContextToken<boolean>` | Opts a GET request in to `OfflineCacheInterceptor` |
+ * | `OFFLINE_CACHE_CONFIG` | `OfflineCacheConfig` | Maximum age of offline responses |
+ * | `OUTBOX` | `HttpContextToken<boolean>` | Marks a mutation backed by the offline outbox |
+ * | `OUTBOX_CONFIG` | `OutboxConfig` | Outbox for every mutation and replay retry delays |
+ * | `PERFORMANCE_CONFIG` | `PerformanceConfig` | Slow HTTP threshold, kept metrics and batching of telemetry |
+ * | `REQUEST_TRACING_CONFIG` | `RequestTracingConfig` | Request summaries kept and traced origins |
+ * | `RETRY` | `HttpContextToken<RetryConfig \| false \| null>` | Per-request retry override for `RetryInterceptor` |
+ * | `RETRY_CONFIG` | `RetryConfig` | Application-wide retry behavior |
+ * | `SKIP_AUTH` | `HttpContextToken<boolean>` | Opts a request out of `AuthInterceptor` |
  * | `TRANSLATE_CONFIG` | `TranslateConfig` | Translation configuration |
  *
  * @module tokens
@@ -41,5 +62,68 @@
 /** Injection token for API base URL configuration */
 export * from './api-base-url.token';
 
+/** Injection token and provider for authentication configuration */
+export * from './auth-config.token';
+
+/** HTTP context token that overrides the caching behavior of a request */
+export * from './cache.token';
+
+/** Injection token and provider for the cache configuration */
+export * from './cache-config.token';
+
+/** Injection token and provider for the error reporting configuration */
+export * from './error-handler-config.token';
+
+/** Injection token and provider for the events shared between tabs */
+export * from './event-bus-bridge-config.token';
+
+/** Injection token and provider for the feature flag endpoint and refresh interval */
+export * from './feature-flag-config.token';
+
+/** Injection token and provider for the idle-timeout configuration */
+export * from './idle-config.token';
+
+/** Multi-provider injection token and provider for additional log sinks */
+export * from './log-sinks.token';
+
+/** Injection token and provider for the log batching and retry configuration */
+export * from './log-transport-config.token';
+
+/** Injection token and provider for the mock backend configuration */
+export * from './mock-backend-config.token';
+
+/** Multi-provider injection token and provider for mock endpoints */
+export * from './mock-handlers.token';
+
+/** Injection token and provider for the notification center configuration */
+export * from './notification-config.token';
+
+/** HTTP context token that keeps a response in the offline cache */
+export * from './offline-cache.token';
+
+/** Injection token and provider for the offline cache configuration */
+export * from './offline-cache-config.token';
+
+/** HTTP context token that marks a mutation backed by the offline outbox */
+export * from './outbox.token';
+
+/** Injection token and provider for the offline outbox configuration */
+export * from './outbox-config.token';
+
+/** Injection token and provider for the performance telemetry configuration */
+export * from './performance-config.token';
+
+/** Injection token and provider for the request tracing configuration */
+export * from './request-tracing-config.token';
+
+/** HTTP context token that overrides the retry behavior of a request */
+export * from './retry.token';
+
+/** Injection token and provider for the retry configuration */
+export * from './retry-config.token';
+
+/** HTTP context token that opts a request out of authentication */
+export * from './skip-auth.token';
+
 /** Injection token and provider for translation configuration */
 export * from './translate.token';
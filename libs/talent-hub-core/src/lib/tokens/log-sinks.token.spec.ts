@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Injectable, InjectionToken, Injector } from '@angular/core';
+
+import { LogEntry, LogSink } from '../interfaces';
+import { LOG_SINKS, provideLogSinks } from '../tokens';
+
+@Injectable()
+class TestLogSink implements LogSink {
+  readonly entries: LogEntry[] = [];
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+}
+
+describe('log-sinks.token', () => {
+  const objectSink: LogSink = { write: () => undefined };
+
+  describe('LOG_SINKS', () => {
+    it('should be an InjectionToken', () => {
+      expect(LOG_SINKS).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(LOG_SINKS.toString()).toBe('InjectionToken LOG_SINKS');
+    });
+  });
+
+  describe('provideLogSinks', () => {
+    it('should return one multi-provider per sink', () => {
+      const providers = provideLogSinks(TestLogSink, objectSink);
+
+      expect(providers).toEqual([
+        { provide: LOG_SINKS, useExisting: TestLogSink, multi: true },
+        { provide: LOG_SINKS, useValue: objectSink, multi: true },
+      ]);
+    });
+
+    it('should register the injectable instance of a sink class', () => {
+      const injector = Injector.create({
+        providers: [TestLogSink, ...provideLogSinks(TestLogSink), ...provideLogSinks(objectSink)],
+      });
+
+      expect(injector.get(LOG_SINKS)).toEqual([injector.get(TestLogSink), objectSink]);
+      expect(injector.get(LOG_SINKS)[0]).toBe(injector.get(TestLogSink));
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken, Type } from '@angular/core';
+
+import { LogSink } from '../interfaces';
+
+/**
+ * Multi-provider injection token for the log sinks that receive entries from LoggerService
+ * in addition to `ConsoleLogSink` and `HttpLogSink`.
+ *
+ * Every provider adds one sink; apps and libraries can each register their own.
+ * Prefer `provideLogSinks()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: LOG_SINKS, useExisting: MemoryLogSink, multi: true }
+ * ```
+ *
+ * @see provideLogSinks
+ * @see LoggerService
+ * @see LogSink
+ */
+export const LOG_SINKS = new InjectionToken<LogSink[]>('LOG_SINKS');
+
+/**
+ * Provider function for additional log sinks.
+ *
+ * Call this function in your app.config.ts providers array to write log entries to
+ * further destinations. Pass an injectable class (such as `MemoryLogSink` or
+ * `IndexedDbLogSink`) to register the root instance, which can then be injected
+ * elsewhere to read its entries, or pass a sink object.
+ *
+ * @param sinks - Sink classes or sink objects to register.
+ * @returns Multi-providers for the LOG_SINKS token, one per sink
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { IndexedDbLogSink, MemoryLogSink } from '@talent-hub/core/services';
+ * import { provideLogSinks } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideLogSinks(MemoryLogSink, IndexedDbLogSink, {
+ *       write: (entry) => window.dispatchEvent(new CustomEvent('th-log', { detail: entry })),
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see LoggerService
+ * @see LogSink
+ * @publicApi
+ */
+export function provideLogSinks(...sinks: (LogSink | Type<LogSink>)[]) {
+  return sinks.map((sink: LogSink | Type<LogSink>) =>
+    typeof sink === 'function'
+      ? { provide: LOG_SINKS, useExisting: sink, multi: true }
+      : { provide: LOG_SINKS, useValue: sink, multi: true },
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { LOG_TRANSPORT_CONFIG, provideLogTransportConfig } from '../tokens';
+
+describe('log-transport-config.token', () => {
+  describe('LOG_TRANSPORT_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(LOG_TRANSPORT_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(LOG_TRANSPORT_CONFIG.toString()).toBe('InjectionToken LOG_TRANSPORT_CONFIG');
+    });
+  });
+
+  describe('provideLogTransportConfig', () => {
+    it('should use LOG_TRANSPORT_CONFIG as the provide token', () => {
+      const provider = provideLogTransportConfig({});
+
+      expect(provider.provide).toBe(LOG_TRANSPORT_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { batchSize: 50, flushInterval: 30_000 };
+      const provider = provideLogTransportConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { LogTransportConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the log batching, retry and capacity configuration to
+ * LoggerService and its sinks.
+ *
+ * The token is optional; when it is not provided, `LoggerService` and its sinks use
+ * their built-in defaults. Prefer `provideLogTransportConfig()` over providing the token
+ * directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: LOG_TRANSPORT_CONFIG, useValue: { batchSize: 1 } }
+ * ```
+ *
+ * @see provideLogTransportConfig
+ * @see LoggerService
+ * @see LogTransportConfig
+ */
+export const LOG_TRANSPORT_CONFIG = new InjectionToken<LogTransportConfig>('LOG_TRANSPORT_CONFIG');
+
+/**
+ * Provider function for the log batching and retry configuration.
+ *
+ * Call this function in your app.config.ts providers array to change how often log
+ * messages are sent, how failed sends are retried, or which fields are redacted.
+ *
+ * @param config - Partial log transport configuration; omitted values use defaults.
+ * @returns Provider object for the LOG_TRANSPORT_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideLogTransportConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideLogTransportConfig({
+ *       batchSize: 50,
+ *       flushInterval: 30_000,
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see LoggerService
+ * @see LogTransportConfig
+ * @publicApi
+ */
+export function provideLogTransportConfig(config: LogTransportConfig) {
+  return {
+    provide: LOG_TRANSPORT_CONFIG,
+    useValue: config,
+  };
+}
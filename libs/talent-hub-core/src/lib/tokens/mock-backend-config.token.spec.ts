@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { MOCK_BACKEND_CONFIG, provideMockBackendConfig } from '../tokens';
+
+describe('mock-backend-config.token', () => {
+  describe('MOCK_BACKEND_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(MOCK_BACKEND_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(MOCK_BACKEND_CONFIG.toString()).toBe('InjectionToken MOCK_BACKEND_CONFIG');
+    });
+  });
+
+  describe('provideMockBackendConfig', () => {
+    it('should use MOCK_BACKEND_CONFIG as the provide token', () => {
+      const provider = provideMockBackendConfig({});
+
+      expect(provider.provide).toBe(MOCK_BACKEND_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { fixtures: ['candidates'], errorRate: 0.1 };
+      const provider = provideMockBackendConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { MockBackendConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the mock backend configuration to MockBackendInterceptor.
+ *
+ * The token is optional; when it is not provided, `MockBackendInterceptor` uses its
+ * built-in defaults and serves no fixtures. Prefer `provideMockBackendConfig()` over
+ * providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: MOCK_BACKEND_CONFIG, useValue: { minLatency: 0, maxLatency: 0 } }
+ * ```
+ *
+ * @see provideMockBackendConfig
+ * @see MockBackendInterceptor
+ * @see MockBackendConfig
+ */
+export const MOCK_BACKEND_CONFIG = new InjectionToken<MockBackendConfig>('MOCK_BACKEND_CONFIG');
+
+/**
+ * Provider function for the mock backend configuration.
+ *
+ * Call this function in your app.config.ts providers array to seed the mock database
+ * from the app's `src/mocks` fixtures and to tune latency and error injection. The
+ * configuration is only used in development mode.
+ *
+ * @param config - Partial mock backend configuration; omitted values use defaults.
+ * @returns Provider object for the MOCK_BACKEND_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideMockBackendConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideMockBackendConfig({
+ *       fixtures: ['candidates'],
+ *       errorRate: 0.05,
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see MockBackendInterceptor
+ * @see MockBackendConfig
+ * @publicApi
+ */
+export function provideMockBackendConfig(config: MockBackendConfig) {
+  return {
+    provide: MOCK_BACKEND_CONFIG,
+    useValue: config,
+  };
+}
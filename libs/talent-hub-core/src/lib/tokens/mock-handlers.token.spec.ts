@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken, Injector } from '@angular/core';
+
+import { MockHandler } from '../interfaces';
+import { MOCK_HANDLERS, provideMockHandlers, provideMockIdentityProvider } from '../tokens';
+
+describe('mock-handlers.token', () => {
+  const getCandidate: MockHandler = { method: 'GET', path: '/candidates/{id}', handle: () => ({}) };
+  const deleteCandidate: MockHandler = {
+    method: 'DELETE',
+    path: '/candidates/{id}',
+    handle: () => ({ status: 204 }),
+  };
+
+  describe('MOCK_HANDLERS', () => {
+    it('should be an InjectionToken', () => {
+      expect(MOCK_HANDLERS).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(MOCK_HANDLERS.toString()).toBe('InjectionToken MOCK_HANDLERS');
+    });
+  });
+
+  describe('provideMockHandlers', () => {
+    it('should return one multi-provider per handler', () => {
+      const providers = provideMockHandlers(getCandidate, deleteCandidate);
+
+      expect(providers).toEqual([
+        { provide: MOCK_HANDLERS, useValue: getCandidate, multi: true },
+        { provide: MOCK_HANDLERS, useValue: deleteCandidate, multi: true },
+      ]);
+    });
+
+    it('should collect the handlers of several calls', () => {
+      const injector = Injector.create({
+        providers: [...provideMockHandlers(getCandidate), ...provideMockHandlers(deleteCandidate)],
+      });
+
+      expect(injector.get(MOCK_HANDLERS)).toEqual([getCandidate, deleteCandidate]);
+    });
+  });
+
+  describe('provideMockIdentityProvider', () => {
+    it('should register the endpoints of the identity provider', () => {
+      const injector = Injector.create({
+        providers: provideMockIdentityProvider({ path: '/sso' }),
+      });
+
+      expect(
+        injector.get(MOCK_HANDLERS).map(({ method, path }: MockHandler) => `${method} ${path}`),
+      ).toEqual([
+        'GET /sso/.well-known/openid-configuration',
+        'GET /sso/authorize',
+        'POST /sso/token',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { MockHandler, MockIdentityProviderConfig } from '../interfaces';
+import { MockIdentityProviderUtil } from '../utils';
+
+/**
+ * Multi-provider injection token for the mock endpoints answered by MockBackendInterceptor.
+ *
+ * Every provider adds one handler; apps and libraries can each register their own.
+ * Prefer `provideMockHandlers()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: MOCK_HANDLERS, useValue: candidateHandler, multi: true }
+ * ```
+ *
+ * @see provideMockHandlers
+ * @see MockBackendInterceptor
+ * @see MockHandler
+ */
+export const MOCK_HANDLERS = new InjectionToken<MockHandler[]>('MOCK_HANDLERS');
+
+/**
+ * Provider function for mock endpoints.
+ *
+ * Call this function in your app.config.ts providers array to answer requests to the
+ * `/mocks` base URL in development mode. The handlers are only used while
+ * `MockBackendInterceptor` runs in development mode, so they can stay registered in
+ * the shared configuration.
+ *
+ * @param handlers - Mock endpoints to register.
+ * @returns Multi-providers for the MOCK_HANDLERS token, one per handler
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideMockHandlers } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideMockHandlers(
+ *       { method: 'GET', path: '/candidates/{id}', handle: ({ params }) => ({ body: { id: params['id'] } }) },
+ *       { method: 'DELETE', path: '/candidates/{id}', handle: () => ({ status: 204 }) },
+ *     ),
+ *   ],
+ * };
+ * ```
+ *
+ * @see MockBackendInterceptor
+ * @see MockHandler
+ * @publicApi
+ */
+export function provideMockHandlers(...handlers: MockHandler[]) {
+  return handlers.map((handler: MockHandler) => ({
+    provide: MOCK_HANDLERS,
+    useValue: handler,
+    multi: true,
+  }));
+}
+
+/**
+ * Provider function for the local OpenID Connect identity provider.
+ *
+ * Registers the discovery, authorization and token endpoints of
+ * `MockIdentityProviderUtil` as mock handlers, so tenants whose `OidcConfig.issuer` is
+ * `/mocks/oidc` sign in without a real identity provider in development mode. The
+ * browser opens the authorization endpoint with a full page load, so also route
+ * `mocks/oidc/authorize` to `mockIdentityProviderGuard` and the redirect URI to
+ * `oidcCallbackGuard`.
+ *
+ * @param config - Base URL, path, user and token lifetime of the identity provider.
+ * @returns Multi-providers for the MOCK_HANDLERS token, one per endpoint
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * providers: [
+ *   provideMockIdentityProvider({ user: { roles: ['admin'] } }),
+ *   { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true },
+ * ]
+ *
+ * // app.routes.ts
+ * { path: 'auth/callback', canActivate: [oidcCallbackGuard], children: [] },
+ * { path: 'mocks/oidc/authorize', canActivate: [mockIdentityProviderGuard], children: [] },
+ * ```
+ *
+ * @see MockIdentityProviderUtil
+ * @see mockIdentityProviderGuard
+ * @see OidcService
+ * @publicApi
+ */
+export function provideMockIdentityProvider(config: MockIdentityProviderConfig = {}) {
+  return provideMockHandlers(...MockIdentityProviderUtil.createHandlers(config));
+}
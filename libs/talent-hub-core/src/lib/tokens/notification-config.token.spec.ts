@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { NOTIFICATION_CONFIG, provideNotificationConfig } from '../tokens';
+
+describe('notification-config.token', () => {
+  describe('NOTIFICATION_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(NOTIFICATION_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(NOTIFICATION_CONFIG.toString()).toBe('InjectionToken NOTIFICATION_CONFIG');
+    });
+  });
+
+  describe('provideNotificationConfig', () => {
+    it('should use NOTIFICATION_CONFIG as the provide token', () => {
+      const provider = provideNotificationConfig({});
+
+      expect(provider.provide).toBe(NOTIFICATION_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { durations: { error: 15_000 }, maxVisible: 3 };
+      const provider = provideNotificationConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { NotificationConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the configuration of NotificationCenterService.
+ *
+ * The token is optional; when it is not provided, `NotificationCenterService` uses its
+ * built-in defaults. Prefer `provideNotificationConfig()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: NOTIFICATION_CONFIG, useValue: { maxVisible: 3 } }
+ * ```
+ *
+ * @see provideNotificationConfig
+ * @see NotificationCenterService
+ * @see NotificationConfig
+ */
+export const NOTIFICATION_CONFIG = new InjectionToken<NotificationConfig>('NOTIFICATION_CONFIG');
+
+/**
+ * Provider function for the notification configuration.
+ *
+ * Call this function in your app.config.ts providers array to change how long
+ * notifications stay on screen or how many are shown at once.
+ *
+ * @param config - Partial notification configuration; omitted values use defaults.
+ * @returns Provider object for the NOTIFICATION_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideNotificationConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideNotificationConfig({
+ *       durations: { error: 15_000 },
+ *       maxVisible: 3,
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see NotificationCenterService
+ * @see NotificationConfig
+ * @publicApi
+ */
+export function provideNotificationConfig(config: NotificationConfig) {
+  return {
+    provide: NOTIFICATION_CONFIG,
+    useValue: config,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { OFFLINE_CACHE_CONFIG, provideOfflineCacheConfig } from '../tokens';
+
+describe('offline-cache-config.token', () => {
+  describe('OFFLINE_CACHE_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(OFFLINE_CACHE_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(OFFLINE_CACHE_CONFIG.toString()).toBe('InjectionToken OFFLINE_CACHE_CONFIG');
+    });
+  });
+
+  describe('provideOfflineCacheConfig', () => {
+    it('should use OFFLINE_CACHE_CONFIG as the provide token', () => {
+      const provider = provideOfflineCacheConfig({});
+
+      expect(provider.provide).toBe(OFFLINE_CACHE_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { maxAge: 3_600_000 };
+      const provider = provideOfflineCacheConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { OfflineCacheConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the offline cache configuration to OfflineCacheService.
+ *
+ * The token is optional; when it is not provided, `OfflineCacheService` uses its
+ * built-in defaults. Prefer `provideOfflineCacheConfig()` over providing the token
+ * directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: OFFLINE_CACHE_CONFIG, useValue: { maxAge: 3_600_000 } }
+ * ```
+ *
+ * @see provideOfflineCacheConfig
+ * @see OfflineCacheService
+ * @see OfflineCacheConfig
+ */
+export const OFFLINE_CACHE_CONFIG = new InjectionToken<OfflineCacheConfig>('OFFLINE_CACHE_CONFIG');
+
+/**
+ * Provider function for the offline cache configuration.
+ *
+ * Call this function in your app.config.ts providers array to change how long
+ * responses stay available offline.
+ *
+ * @param config - Partial offline cache configuration; omitted values use defaults.
+ * @returns Provider object for the OFFLINE_CACHE_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideOfflineCacheConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideOfflineCacheConfig({ maxAge: 86_400_000 }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see OfflineCacheService
+ * @see OfflineCacheConfig
+ * @publicApi
+ */
+export function provideOfflineCacheConfig(config: OfflineCacheConfig) {
+  return {
+    provide: OFFLINE_CACHE_CONFIG,
+    useValue: config,
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpContext, HttpContextToken } from '@angular/common/http';
+
+import { OFFLINE_CACHE } from '../tokens';
+
+describe('offline-cache.token', () => {
+  it('should be an HttpContextToken', () => {
+    expect(OFFLINE_CACHE).toBeInstanceOf(HttpContextToken);
+  });
+
+  it('should default to true', () => {
+    expect(new HttpContext().get(OFFLINE_CACHE)).toBe(false);
+  });
+
+  it('should return the value set on the context', () => {
+    expect(new HttpContext().set(OFFLINE_CACHE, true).get(OFFLINE_CACHE)).toBe(true);
+  });
+});
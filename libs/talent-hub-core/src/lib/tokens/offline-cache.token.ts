@@ -0,0 +1,37 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * HTTP context token that controls whether `OfflineCacheInterceptor` keeps a GET
+ * response for offline reads.
+ *
+ * Defaults to `false`: nothing is written to the device unless a request opts in. Set it
+ * to `true` only for responses a screen needs offline and that are safe to store.
+ *
+ * @remarks
+ * `ApiService` sets it from the `offline` option of `HttpOptions`; set it directly
+ * only when calling `HttpClient` yourself.
+ *
+ * @example
+ * ```typescript
+ * import { HttpContext } from '@angular/common/http';
+ * import { OFFLINE_CACHE } from '@talent-hub/core';
+ *
+ * this.http.get('/candidates?page=1', {
+ *   context: new HttpContext().set(OFFLINE_CACHE, true),
+ * });
+ * ```
+ *
+ * @see OfflineCacheInterceptor
+ * @publicApi
+ */
+export const OFFLINE_CACHE = new HttpContextToken<boolean>((): boolean => false);
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { OUTBOX_CONFIG, provideOutboxConfig } from '../tokens';
+
+describe('outbox-config.token', () => {
+  describe('OUTBOX_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(OUTBOX_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(OUTBOX_CONFIG.toString()).toBe('InjectionToken OUTBOX_CONFIG');
+    });
+  });
+
+  describe('provideOutboxConfig', () => {
+    it('should use OUTBOX_CONFIG as the provide token', () => {
+      const provider = provideOutboxConfig({});
+
+      expect(provider.provide).toBe(OUTBOX_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { enabled: true, retryDelay: 1_000 };
+      const provider = provideOutboxConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
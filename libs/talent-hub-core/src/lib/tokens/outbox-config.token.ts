@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { OutboxConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the offline outbox configuration to OutboxService.
+ *
+ * The token is optional; when it is not provided, `OutboxService` and `ApiService` use
+ * their built-in defaults. Prefer `provideOutboxConfig()` over providing the token
+ * directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: OUTBOX_CONFIG, useValue: { enabled: true } }
+ * ```
+ *
+ * @see provideOutboxConfig
+ * @see OutboxService
+ * @see OutboxConfig
+ */
+export const OUTBOX_CONFIG = new InjectionToken<OutboxConfig>('OUTBOX_CONFIG');
+
+/**
+ * Provider function for the offline outbox configuration.
+ *
+ * Call this function in your app.config.ts providers array to queue every mutation
+ * while offline, or to change how often failed replays are retried.
+ *
+ * @param config - Partial outbox configuration; omitted values use defaults.
+ * @returns Provider object for the OUTBOX_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideOutboxConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideOutboxConfig({ enabled: true }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see OutboxService
+ * @see OutboxConfig
+ * @publicApi
+ */
+export function provideOutboxConfig(config: OutboxConfig) {
+  return {
+    provide: OUTBOX_CONFIG,
+    useValue: config,
+  };
+}
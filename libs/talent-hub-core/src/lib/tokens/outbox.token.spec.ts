@@ -0,0 +1,28 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpContext, HttpContextToken } from '@angular/common/http';
+
+import { OUTBOX } from '../tokens';
+
+describe('outbox.token', () => {
+  it('should be an HttpContextToken', () => {
+    expect(OUTBOX).toBeInstanceOf(HttpContextToken);
+  });
+
+  it('should default to false', () => {
+    expect(new HttpContext().get(OUTBOX)).toBe(false);
+  });
+
+  it('should return the value set on the context', () => {
+    expect(new HttpContext().set(OUTBOX, true).get(OUTBOX)).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * HTTP context token that marks a mutation backed by the offline outbox.
+ *
+ * Network errors of such requests are not errors for the user: the mutation is queued
+ * by `OutboxService` and replayed later. `ErrorHandlingInterceptor` therefore neither
+ * logs nor publishes them. Defaults to `false`.
+ *
+ * @remarks
+ * `ApiService` sets it from the `outbox` option of `HttpOptions`, and `OutboxService`
+ * sets it on replayed mutations. It does not queue anything by itself.
+ *
+ * @example
+ * ```typescript
+ * const queued: boolean = req.context.get(OUTBOX);
+ * ```
+ *
+ * @see OutboxService
+ * @publicApi
+ */
+export const OUTBOX = new HttpContextToken<boolean>((): boolean => false);
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { PERFORMANCE_CONFIG, providePerformanceConfig } from '../tokens';
+
+describe('performance-config.token', () => {
+  describe('PERFORMANCE_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(PERFORMANCE_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(PERFORMANCE_CONFIG.toString()).toBe('InjectionToken PERFORMANCE_CONFIG');
+    });
+  });
+
+  describe('providePerformanceConfig', () => {
+    it('should use PERFORMANCE_CONFIG as the provide token', () => {
+      const provider = providePerformanceConfig({});
+
+      expect(provider.provide).toBe(PERFORMANCE_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { slowHttpThreshold: 2_000, flushInterval: 60_000 };
+      const provider = providePerformanceConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
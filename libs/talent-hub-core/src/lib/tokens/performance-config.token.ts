@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { PerformanceConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the performance telemetry configuration to PerformanceMonitorService.
+ *
+ * The token is optional; when it is not provided, `PerformanceMonitorService` uses its built-in
+ * defaults. Prefer `providePerformanceConfig()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: PERFORMANCE_CONFIG, useValue: { slowHttpThreshold: 2_000 } }
+ * ```
+ *
+ * @see providePerformanceConfig
+ * @see PerformanceMonitorService
+ * @see PerformanceConfig
+ */
+export const PERFORMANCE_CONFIG = new InjectionToken<PerformanceConfig>('PERFORMANCE_CONFIG');
+
+/**
+ * Provider function for the performance telemetry configuration.
+ *
+ * Call this function in your app.config.ts providers array to change which HTTP calls
+ * count as slow, how many metrics are kept, or how often they are sent.
+ *
+ * @param config - Partial performance configuration; omitted values use defaults.
+ * @returns Provider object for the PERFORMANCE_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { providePerformanceConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     providePerformanceConfig({
+ *       slowHttpThreshold: 2_000,
+ *       flushInterval: 60_000,
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see PerformanceMonitorService
+ * @see PerformanceConfig
+ * @publicApi
+ */
+export function providePerformanceConfig(config: PerformanceConfig) {
+  return {
+    provide: PERFORMANCE_CONFIG,
+    useValue: config,
+  };
+}
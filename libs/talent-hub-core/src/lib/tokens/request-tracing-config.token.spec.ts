@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { REQUEST_TRACING_CONFIG, provideRequestTracingConfig } from '../tokens';
+
+describe('request-tracing-config.token', () => {
+  describe('REQUEST_TRACING_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(REQUEST_TRACING_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(REQUEST_TRACING_CONFIG.toString()).toBe('InjectionToken REQUEST_TRACING_CONFIG');
+    });
+  });
+
+  describe('provideRequestTracingConfig', () => {
+    it('should use REQUEST_TRACING_CONFIG as the provide token', () => {
+      const provider = provideRequestTracingConfig({});
+
+      expect(provider.provide).toBe(REQUEST_TRACING_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { maxSummaries: 100, origins: ['https://files.talent-hub.com'] };
+      const provider = provideRequestTracingConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
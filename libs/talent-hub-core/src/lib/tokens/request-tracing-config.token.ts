@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { RequestTracingConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the configuration of request tracing.
+ *
+ * The token is optional; when it is not provided, `RequestTracingInterceptor` and
+ * `RequestTraceService` use their built-in defaults. Prefer `provideRequestTracingConfig()`
+ * over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: REQUEST_TRACING_CONFIG, useValue: { maxSummaries: 10 } }
+ * ```
+ *
+ * @see provideRequestTracingConfig
+ * @see RequestTracingInterceptor
+ * @see RequestTracingConfig
+ */
+export const REQUEST_TRACING_CONFIG = new InjectionToken<RequestTracingConfig>(
+  'REQUEST_TRACING_CONFIG',
+);
+
+/**
+ * Provider function for the request tracing configuration.
+ *
+ * Call this function in your app.config.ts providers array to keep more request
+ * summaries or to send the trace headers to other origins.
+ *
+ * @param config - Partial request tracing configuration; omitted values use defaults.
+ * @returns Provider object for the REQUEST_TRACING_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideRequestTracingConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideRequestTracingConfig({
+ *       maxSummaries: 100,
+ *       origins: ['https://files.talent-hub.com'],
+ *     }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see RequestTracingInterceptor
+ * @see RequestTracingConfig
+ * @publicApi
+ */
+export function provideRequestTracingConfig(config: RequestTracingConfig) {
+  return {
+    provide: REQUEST_TRACING_CONFIG,
+    useValue: config,
+  };
+}
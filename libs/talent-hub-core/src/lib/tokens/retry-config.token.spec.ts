@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { InjectionToken } from '@angular/core';
+
+import { provideRetryConfig, RETRY_CONFIG } from '../tokens';
+
+describe('retry-config.token', () => {
+  describe('RETRY_CONFIG', () => {
+    it('should be an InjectionToken', () => {
+      expect(RETRY_CONFIG).toBeInstanceOf(InjectionToken);
+    });
+
+    it('should have correct token name', () => {
+      expect(RETRY_CONFIG.toString()).toBe('InjectionToken RETRY_CONFIG');
+    });
+  });
+
+  describe('provideRetryConfig', () => {
+    it('should use RETRY_CONFIG as the provide token', () => {
+      const provider = provideRetryConfig({});
+
+      expect(provider.provide).toBe(RETRY_CONFIG);
+    });
+
+    it('should pass the config as useValue', () => {
+      const config = { count: 3, statuses: [503] };
+      const provider = provideRetryConfig(config);
+
+      expect(provider.useValue).toBe(config);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { RetryConfig } from '../interfaces';
+
+/**
+ * Injection token for providing the application-wide retry configuration to RetryInterceptor.
+ *
+ * The token is optional; when it is not provided, `RetryInterceptor` uses its built-in
+ * defaults. Prefer `provideRetryConfig()` over providing the token directly.
+ *
+ * @example
+ * ```typescript
+ * // Direct token usage (advanced/testing scenarios)
+ * { provide: RETRY_CONFIG, useValue: { count: 0 } }
+ * ```
+ *
+ * @see provideRetryConfig
+ * @see RetryInterceptor
+ * @see RetryConfig
+ */
+export const RETRY_CONFIG = new InjectionToken<RetryConfig>('RETRY_CONFIG');
+
+/**
+ * Provider function for the application-wide retry configuration.
+ *
+ * Call this function in your app.config.ts providers array to change how often and how
+ * long `RetryInterceptor` retries failed requests. Single requests can still override it
+ * with the `retry` option of `HttpOptions`.
+ *
+ * @param config - Partial retry configuration; omitted values use defaults.
+ * @returns Provider object for the RETRY_CONFIG token
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { provideRetryConfig } from '@talent-hub/core';
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [
+ *     provideRetryConfig({ count: 3, maxDelay: 20_000 }),
+ *   ],
+ * };
+ * ```
+ *
+ * @see RetryInterceptor
+ * @see RetryConfig
+ * @publicApi
+ */
+export function provideRetryConfig(config: RetryConfig) {
+  return {
+    provide: RETRY_CONFIG,
+    useValue: config,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpContextToken } from '@angular/common/http';
+
+import { RetryConfig } from '../interfaces';
+
+/**
+ * HTTP context token that overrides the retry behavior of `RetryInterceptor` for a request.
+ *
+ * Set it to `false` to never retry the request, or to a `RetryConfig` whose values take
+ * precedence over the application-wide `RETRY_CONFIG`. Defaults to `null` (application
+ * configuration).
+ *
+ * @remarks
+ * `ApiService` sets it from the `retry` option of `HttpOptions`; set it directly only
+ * when calling `HttpClient` yourself.
+ *
+ * @example
+ * ```typescript
+ * import { HttpContext } from '@angular/common/http';
+ * import { RETRY } from '@talent-hub/core';
+ *
+ * this.http.get('/health', {
+ *   context: new HttpContext().set(RETRY, false),
+ * });
+ * ```
+ *
+ * @see RetryInterceptor
+ * @see RetryConfig
+ * @publicApi
+ */
+export const RETRY = new HttpContextToken<RetryConfig | false | null>(
+  (): RetryConfig | false | null => null,
+);
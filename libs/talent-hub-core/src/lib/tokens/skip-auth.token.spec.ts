@@ -0,0 +1,28 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpContext, HttpContextToken } from '@angular/common/http';
+
+import { SKIP_AUTH } from '../tokens';
+
+describe('skip-auth.token', () => {
+  it('should be an HttpContextToken', () => {
+    expect(SKIP_AUTH).toBeInstanceOf(HttpContextToken);
+  });
+
+  it('should default to false', () => {
+    expect(new HttpContext().get(SKIP_AUTH)).toBe(false);
+  });
+
+  it('should return true when set on the context', () => {
+    expect(new HttpContext().set(SKIP_AUTH, true).get(SKIP_AUTH)).toBe(true);
+  });
+});
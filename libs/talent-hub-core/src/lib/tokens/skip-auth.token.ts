@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpContextToken } from '@angular/common/http';
+
+/**
+ * HTTP context token that opts a single request out of `AuthInterceptor`.
+ *
+ * When set to `true`, the request is sent without an `Authorization` header, is not
+ * held back while a token refresh is in progress, and a 401 response is passed to
+ * the caller instead of triggering a refresh. Defaults to `false`.
+ *
+ * @remarks
+ * Use it for public endpoints and for the auth endpoints themselves; `AuthService`
+ * sets it on the token refresh request.
+ *
+ * @example
+ * ```typescript
+ * import { HttpContext } from '@angular/common/http';
+ * import { SKIP_AUTH } from '@talent-hub/core';
+ *
+ * this.http.get('/public/jobs', {
+ *   context: new HttpContext().set(SKIP_AUTH, true),
+ * });
+ * ```
+ *
+ * @see AuthInterceptor
+ * @see AuthService
+ * @publicApi
+ */
+export const SKIP_AUTH = new HttpContextToken<boolean>((): boolean => false);
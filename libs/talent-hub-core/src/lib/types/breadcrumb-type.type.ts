@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Kind of user or application activity recorded as a breadcrumb by `BreadcrumbService`.
+ *
+ * @remarks
+ * | Type | Recorded when |
+ * |------|---------------|
+ * | `'navigation'` | A navigation starts, ends, is cancelled or fails |
+ * | `'click'` | The user clicks an element of the page |
+ * | `'http'` | A traced HTTP request completes (from `RequestTraceService`) |
+ *
+ * @example
+ * ```typescript
+ * const type: BreadcrumbType = 'navigation';
+ * ```
+ *
+ * @see Breadcrumb
+ * @see BreadcrumbService
+ * @publicApi
+ */
+export type BreadcrumbType = 'navigation' | 'click' | 'http';
@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * How `CacheInterceptor` uses the cache for a GET request.
+ *
+ * | Policy | Reads the cache | Stores the response |
+ * |--------|-----------------|---------------------|
+ * | `'ttl'` | While the entry is younger than `ttl` | Yes |
+ * | `'stale-while-revalidate'` | Also up to `maxStale` after `ttl`, refreshing in the background | Yes |
+ * | `'no-cache'` | No, always asks the server | Yes |
+ * | `'no-store'` | No | No |
+ *
+ * @example
+ * ```typescript
+ * this.api.get<Candidate[]>('/candidates', { caching: { policy: 'stale-while-revalidate' } });
+ * ```
+ *
+ * @see CacheConfig
+ * @see CacheInterceptor
+ * @publicApi
+ */
+export type CachePolicy = 'ttl' | 'stale-while-revalidate' | 'no-cache' | 'no-store';
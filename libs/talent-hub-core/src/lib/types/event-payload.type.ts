@@ -0,0 +1,40 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { EventCatalog } from '../interfaces';
+
+/**
+ * Payload of the events matching a key or a wildcard pattern of `EventBusService`.
+ *
+ * - For a key of `EventCatalog`, the payload declared in the catalog.
+ * - For a pattern ending with `*`, the union of the payloads of the catalogued keys
+ *   it matches.
+ * - Otherwise, `unknown`.
+ *
+ * @template K - Event key or wildcard pattern.
+ *
+ * @example
+ * ```typescript
+ * type HttpError = EventPayload<'th:http.error'>; // ApiError
+ * type OutboxEvent = EventPayload<'th:outbox.*'>; // OutboxFailure
+ * type Unknown = EventPayload<'legacy:event'>; // unknown
+ * ```
+ *
+ * @see EventCatalog
+ * @see EventBusService.on
+ * @publicApi
+ */
+export type EventPayload<K extends string> = K extends `${infer Prefix}*`
+  ? [Extract<keyof EventCatalog, `${Prefix}${string}`>] extends [never]
+    ? unknown
+    : EventCatalog[Extract<keyof EventCatalog, `${Prefix}${string}`>]
+  : K extends keyof EventCatalog
+    ? EventCatalog[K]
+    : unknown;
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Observable } from 'rxjs';
+
+import { EventReply } from './event-reply.type';
+import { EventRequest } from './event-request.type';
+
+/**
+ * Function registered with `EventBusService.reply()` to answer the requests of a key.
+ *
+ * Receives the data of the request and returns the reply, directly, as a `Promise` or
+ * as an `Observable` whose first value is used. Throwing, rejecting or erroring fails
+ * the request with that error.
+ *
+ * @template K - Request key.
+ *
+ * @example
+ * ```typescript
+ * const handler: EventReplyHandler<'th:requisition.get'> = ({ id }) =>
+ *   this.api.get<Requisition>(`/requisitions/${id}`);
+ * ```
+ *
+ * @see EventBusService.reply
+ * @publicApi
+ */
+export type EventReplyHandler<K extends string> = (
+  data: EventRequest<K>,
+) => EventReply<K> | Promise<EventReply<K>> | Observable<EventReply<K>>;
@@ -0,0 +1,34 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { EventRequestCatalog } from '../interfaces';
+
+/**
+ * Reply to a request of `EventBusService.request()`.
+ *
+ * The `reply` type declared for the key in `EventRequestCatalog`, or `unknown` for
+ * keys that are not in the catalog.
+ *
+ * @template K - Request key.
+ *
+ * @example
+ * ```typescript
+ * type Reply = EventReply<'th:requisition.get'>; // Requisition
+ * ```
+ *
+ * @see EventRequestCatalog
+ * @see EventRequest
+ * @publicApi
+ */
+export type EventReply<K extends string> = K extends keyof EventRequestCatalog
+  ? EventRequestCatalog[K] extends { reply: infer TReply }
+    ? TReply
+    : unknown
+  : unknown;
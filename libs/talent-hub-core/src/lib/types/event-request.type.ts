@@ -0,0 +1,34 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { EventRequestCatalog } from '../interfaces';
+
+/**
+ * Data sent with a request of `EventBusService.request()`.
+ *
+ * The `request` type declared for the key in `EventRequestCatalog`, or `unknown`
+ * for keys that are not in the catalog.
+ *
+ * @template K - Request key.
+ *
+ * @example
+ * ```typescript
+ * type GetRequisition = EventRequest<'th:requisition.get'>; // { id: string }
+ * ```
+ *
+ * @see EventRequestCatalog
+ * @see EventReply
+ * @publicApi
+ */
+export type EventRequest<K extends string> = K extends keyof EventRequestCatalog
+  ? EventRequestCatalog[K] extends { request: infer TRequest }
+    ? TRequest
+    : unknown
+  : unknown;
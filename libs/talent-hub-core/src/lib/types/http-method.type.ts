@@ -0,0 +1,26 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * HTTP methods used by the Talent Hub APIs.
+ *
+ * @example
+ * ```typescript
+ * const handler: MockHandler = {
+ *   method: 'POST',
+ *   path: '/requisitions',
+ *   handle: (request) => ({ status: 201, body: request.body }),
+ * };
+ * ```
+ *
+ * @see MockHandler
+ * @publicApi
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
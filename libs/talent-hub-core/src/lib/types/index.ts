@@ -31,13 +31,26 @@
  *
  * | Type | Definition | Description |
  * |------|------------|-------------|
+ * | `BreadcrumbType` | `'navigation' \| 'click' \| 'http'` | Kind of activity recorded as a breadcrumb |
+ * | `CachePolicy` | `'ttl' \| 'stale-while-revalidate' \| 'no-cache' \| 'no-store'` | How a GET request uses the cache |
  * | `DateFormat` | `'MM/DD/YYYY' \| 'DD/MM/YYYY' \| ...` | Date format patterns |
  * | `DigestFrequency` | `'immediate' \| 'daily' \| 'weekly' \| 'none'` | Email digest frequency |
+ * | `EventPayload` | `EventCatalog[K]` or `unknown` | Payload of an event key or wildcard pattern |
+ * | `EventReply` | `EventRequestCatalog[K]['reply']` or `unknown` | Reply to an event bus request |
+ * | `EventReplyHandler` | `(data) => EventReply<K> \| Promise<...> \| Observable<...>` | Handler answering event bus requests |
+ * | `EventRequest` | `EventRequestCatalog[K]['request']` or `unknown` | Data of an event bus request |
  * | `Environment` | `'development' \| 'staging' \| 'production'` | Deployment environments |
+ * | `HttpMethod` | `'GET' \| 'POST' \| 'PUT' \| 'PATCH' \| 'DELETE'` | HTTP request methods |
+ * | `IndexedDbStore` | `'offline-responses' \| 'outbox'` | Object store of the IndexedDB database |
  * | `LogLevel` | `'fatal' \| 'error' \| 'warn' \| 'info' \| 'debug' \| 'trace'` | Log severity levels |
+ * | `NotificationSeverity` | `'info' \| 'success' \| 'warning' \| 'error'` | Severity of a notification |
+ * | `PerformanceMetricName` | `'LCP' \| 'INP' \| 'CLS' \| 'remote-load' \| 'navigation' \| 'http'` | What a performance metric measures |
  * | `QueryParamValue` | `string \| number \| boolean \| undefined \| null` | Single query parameter value |
  * | `QueryParams` | `Record<string, QueryParamValue \| QueryParamValue[]>` | Query parameters object |
+ * | `ResourceClient` | `{ [K in keyof E]: (request?) => Observable<...> }` | Typed client for resource endpoints |
+ * | `SessionSyncMessageType` | `'session' \| 'logout' \| 'expired' \| 'activity' \| 'request'` | Cross-tab session change |
  * | `StorageType` | `'local' \| 'session'` | Browser storage mechanism |
+ * | `TokenRefresher` | `(refreshToken: string) => Observable<TokenResponse>` | Custom token refresh |
  * | `TenantPlan` | `'free' \| 'starter' \| 'professional' \| 'enterprise'` | Subscription plan levels |
  * | `Theme` | `'light' \| 'dark' \| 'system'` | UI theme modes |
  * | `TimeFormat` | `'12h' \| '24h'` | Time display format |
@@ -46,27 +59,66 @@
  * @publicApi
  */
 
+/** Kinds of activity recorded as breadcrumbs (navigation, click, http) */
+export * from './breadcrumb-type.type';
+
+/** Cache policy of a GET request (ttl, stale-while-revalidate, no-cache, no-store) */
+export * from './cache-policy.type';
+
 /** Environment string literal types for deployment contexts */
 export * from './environment.type';
 
+/** Payload of an event bus key or wildcard pattern, from EventCatalog */
+export * from './event-payload.type';
+
+/** Reply to an event bus request, from EventRequestCatalog */
+export * from './event-reply.type';
+
+/** Function answering the event bus requests of a key */
+export * from './event-reply-handler.type';
+
+/** Data of an event bus request, from EventRequestCatalog */
+export * from './event-request.type';
+
 /** Email digest frequency types for notification delivery */
 export * from './digest-frequency.type';
 
 /** Date format string literal types */
 export * from './date-format.type';
 
+/** HTTP request method string literal types */
+export * from './http-method.type';
+
+/** Object stores of the Talent Hub IndexedDB database */
+export * from './indexed-db-store.type';
+
 /** Log level string literal types for logging configuration */
 export * from './log-level.type';
 
+/** Severity of a notification shown by NotificationCenterService */
+export * from './notification-severity.type';
+
+/** Names of the metrics recorded by PerformanceMonitorService */
+export * from './performance-metric-name.type';
+
 /** Query parameters type definition */
 export * from './query-params.type';
 
+/** Typed client created from resource endpoint declarations */
+export * from './resource-client.type';
+
+/** Kinds of session changes shared between browser tabs */
+export * from './session-sync-message-type.type';
+
 /** Storage mechanism types for StorageService (local, session) */
 export * from './storage.type';
 
 /** Tenant subscription plan types (free, starter, professional, enterprise) */
 export * from './tenant-plan.type';
 
+/** Function that exchanges a refresh token for new tokens */
+export * from './token-refresher.type';
+
 /** Theme string literal types for UI theming (light, dark, system) */
 export * from './theme.type';
 
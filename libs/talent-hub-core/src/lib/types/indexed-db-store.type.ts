@@ -0,0 +1,31 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Object store of the Talent Hub IndexedDB database opened by `IndexedDbService`.
+ *
+ * | Store | Content |
+ * |-------|---------|
+ * | `'offline-responses'` | GET responses kept by `OfflineCacheService` for offline reads |
+ * | `'outbox'` | Mutations queued by `OutboxService` while offline |
+ * | `'logs'` | Log entries kept by `IndexedDbLogSink` |
+ *
+ * Every store is created when the database is opened; adding a store requires a new
+ * database version.
+ *
+ * @example
+ * ```typescript
+ * this.indexedDb.get<OfflineCacheEntry>('offline-responses', key).subscribe();
+ * ```
+ *
+ * @see IndexedDbService
+ * @publicApi
+ */
+export type IndexedDbStore = 'offline-responses' | 'outbox' | 'logs';
@@ -0,0 +1,32 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Severity of a notification shown by `NotificationCenterService`.
+ *
+ * Sets the color and icon of the toast and how long it stays on screen by default.
+ *
+ * @remarks
+ * | Severity | Use | Default duration |
+ * |----------|-----|------------------|
+ * | `'info'` | Neutral information | 5 seconds |
+ * | `'success'` | A completed action | 5 seconds |
+ * | `'warning'` | Something needs attention | 8 seconds |
+ * | `'error'` | A failed action | Until dismissed |
+ *
+ * @example
+ * ```typescript
+ * const severity: NotificationSeverity = 'warning';
+ * ```
+ *
+ * @see NotificationCenterService
+ * @publicApi
+ */
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
@@ -0,0 +1,33 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Name of a measurement recorded by `PerformanceMonitorService`.
+ *
+ * @remarks
+ * | Name | Value | Measures |
+ * |------|-------|----------|
+ * | `'LCP'` | ms | Largest Contentful Paint of the page load |
+ * | `'INP'` | ms | Interaction to Next Paint (responsiveness to clicks and keys) |
+ * | `'CLS'` | score | Cumulative Layout Shift (visual stability) |
+ * | `'remote-load'` | ms | Loading of a remote entry and its routes |
+ * | `'navigation'` | ms | Route navigation, from start to end |
+ * | `'http'` | ms | HTTP call slower than `slowHttpThreshold` |
+ *
+ * @example
+ * ```typescript
+ * const remoteLoads = monitor.metrics().filter((metric) => metric.name === 'remote-load');
+ * ```
+ *
+ * @see PerformanceMetric
+ * @see PerformanceMonitorService
+ * @publicApi
+ */
+export type PerformanceMetricName = 'LCP' | 'INP' | 'CLS' | 'remote-load' | 'navigation' | 'http';
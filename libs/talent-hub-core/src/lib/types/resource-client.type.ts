@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Observable } from 'rxjs';
+
+import { Page, PagedResult, ResourceEndpoint, ResourceRequest } from '../interfaces';
+
+/**
+ * Typed client created by `ApiService.createResource()` from a set of endpoints.
+ *
+ * Has one method per endpoint, taking a `ResourceRequest` and returning the typed
+ * response. Endpoints whose response type is `Page<T>` return a `PagedResult<T>`
+ * with `next()` and `prev()` helpers.
+ *
+ * @template TEndpoints - Interface mapping method names to `ResourceEndpoint` types.
+ *
+ * @example
+ * ```typescript
+ * interface CandidateEndpoints {
+ *   list: ResourceEndpoint<Page<Candidate>>;
+ *   get: ResourceEndpoint<Candidate>;
+ * }
+ *
+ * const candidates: ResourceClient<CandidateEndpoints> = api.createResource<CandidateEndpoints>({
+ *   list: { method: 'GET', path: '/candidates' },
+ *   get: { method: 'GET', path: '/candidates/{id}' },
+ * });
+ *
+ * candidates.get({ params: { id: 'c-1001' } }); // Observable<Candidate>
+ * candidates.list({ query: { page: 2 } }); // Observable<PagedResult<Candidate>>
+ * ```
+ *
+ * @see ApiService.createResource
+ * @see ResourceEndpoint
+ * @publicApi
+ */
+export type ResourceClient<TEndpoints> = {
+  [K in keyof TEndpoints]: TEndpoints[K] extends ResourceEndpoint<infer TResponse, infer TBody>
+    ? (
+        request?: ResourceRequest<TBody>,
+      ) => Observable<TResponse extends Page<infer T> ? PagedResult<T> : TResponse>
+    : never;
+};
@@ -0,0 +1,33 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Kind of session change shared between browser tabs by `SessionSyncService`.
+ *
+ * @remarks
+ * **Allowed Values:**
+ * - `'session'` - A tab signed in or renewed its tokens; the message carries the session.
+ * - `'logout'` - A tab signed out (explicitly or after being idle).
+ * - `'expired'` - A tab found the session expired or could not renew it.
+ * - `'activity'` - The user was active in a tab; resets the idle timer in the others.
+ * - `'request'` - A newly opened tab asks the others for the current session.
+ *
+ * @example
+ * ```typescript
+ * sessionSync.messages$
+ *   .pipe(filter((message) => message.type === 'logout'))
+ *   .subscribe(() => console.log('Signed out in another tab'));
+ * ```
+ *
+ * @see SessionSyncMessage
+ * @see SessionSyncService
+ * @publicApi
+ */
+export type SessionSyncMessageType = 'session' | 'logout' | 'expired' | 'activity' | 'request';
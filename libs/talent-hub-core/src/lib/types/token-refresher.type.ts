@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Observable } from 'rxjs';
+
+import { TokenResponse } from '../interfaces';
+
+/**
+ * Function that exchanges a refresh token for new tokens.
+ *
+ * `AuthService` calls its configured `refreshEndpoint` by default. Sign-in flows that
+ * obtain tokens from elsewhere (e.g., an OpenID Connect identity provider) register
+ * their own refresher with `AuthService.useTokenRefresher()` so that the 401 retry in
+ * `AuthInterceptor` and the proactive expiry timer renew tokens at the right place.
+ *
+ * @param refreshToken - The refresh token of the current session.
+ * @returns An Observable that emits the new tokens once, or errors if they cannot be renewed.
+ *
+ * @example
+ * ```typescript
+ * const refresher: TokenRefresher = (refreshToken) =>
+ *   http.post<TokenResponse>('/sso/refresh', { refreshToken });
+ *
+ * authService.useTokenRefresher(refresher);
+ * ```
+ *
+ * @see AuthService.useTokenRefresher
+ * @see TokenResponse
+ * @publicApi
+ */
+export type TokenRefresher = (refreshToken: string) => Observable<TokenResponse>;
@@ -206,4 +206,32 @@ describe('ApiUtil', () => {
       expect(result).toEqual({ page: '1', search: 'test' });
     });
   });
+
+  describe('matchPath', () => {
+    it('should extract path parameters', () => {
+      const result = ApiUtil.matchPath('/users/{userId}/posts/{postId}', '/users/1/posts/42');
+      expect(result).toEqual({ userId: '1', postId: '42' });
+    });
+
+    it('should match a template without parameters', () => {
+      expect(ApiUtil.matchPath('/requisitions', '/requisitions')).toEqual({});
+    });
+
+    it('should ignore leading and trailing slashes', () => {
+      expect(ApiUtil.matchPath('/users/{id}', 'users/1/')).toEqual({ id: '1' });
+    });
+
+    it('should decode URL-encoded values', () => {
+      expect(ApiUtil.matchPath('/users/{id}', '/users/a%20b')).toEqual({ id: 'a b' });
+    });
+
+    it('should return null for a different segment count', () => {
+      expect(ApiUtil.matchPath('/users/{id}', '/users/1/posts')).toBeNull();
+      expect(ApiUtil.matchPath('/users/{id}', '/users')).toBeNull();
+    });
+
+    it('should return null for a different static segment', () => {
+      expect(ApiUtil.matchPath('/users/{id}', '/teams/1')).toBeNull();
+    });
+  });
 });
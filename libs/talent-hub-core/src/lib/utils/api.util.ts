@@ -23,6 +23,7 @@ import { QueryParams, QueryParamValue } from '../types';
  * - **Path Parameter Replacement**: Replace `{param}` placeholders in URL templates
  * - **Query String Building**: Convert objects to URL-encoded query strings
  * - **Query String Parsing**: Parse query strings back to objects
+ * - **Path Matching**: Match URL paths against `{param}` templates and extract the values
  *
  * ## Usage
  *
@@ -41,6 +42,10 @@ import { QueryParams, QueryParamValue } from '../types';
  * const params = ApiUtil.parseQueryParams('?page=1&search=test');
  * // Result: { page: '1', search: 'test' }
  *
+ * // Match a path against a template
+ * const match = ApiUtil.matchPath('/users/{id}', '/users/123');
+ * // Result: { id: '123' }
+ *
  * // Combine for full URL construction
  * const baseUrl = '/api/users/{userId}/posts';
  * const fullUrl = ApiUtil.replacePathParams(baseUrl, { userId: 42 })
@@ -189,4 +194,48 @@ export class ApiUtil {
 
     return result;
   }
+
+  /**
+   * Matches a URL path against a template with `{param}` placeholders.
+   *
+   * The inverse of `replacePathParams`: each placeholder matches exactly one non-empty
+   * path segment, and the other segments must be equal. Leading, trailing and repeated
+   * slashes are ignored. Extracted values are URL-decoded.
+   *
+   * @param template - Path template with `{param}` placeholders
+   * @param path - Path to match, without query string
+   * @returns The extracted parameter values, or `null` if the path does not match
+   *
+   * @example
+   * ```typescript
+   * ApiUtil.matchPath('/users/{userId}/posts/{postId}', '/users/1/posts/42');
+   * // Returns: { userId: '1', postId: '42' }
+   *
+   * ApiUtil.matchPath('/requisitions', '/requisitions/');
+   * // Returns: {}
+   *
+   * ApiUtil.matchPath('/users/{id}', '/users/1/posts');
+   * // Returns: null
+   * ```
+   */
+  static matchPath(template: string, path: string): Record<string, string> | null {
+    const templateSegments: string[] = template.split('/').filter(Boolean);
+    const pathSegments: string[] = path.split('/').filter(Boolean);
+
+    if (templateSegments.length !== pathSegments.length) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < templateSegments.length; i++) {
+      const placeholder: RegExpMatchArray | null = templateSegments[i].match(/^\{(\w+)\}$/);
+      if (placeholder) {
+        params[placeholder[1]] = decodeURIComponent(pathSegments[i]);
+      } else if (templateSegments[i] !== pathSegments[i]) {
+        return null;
+      }
+    }
+
+    return params;
+  }
 }
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { EventKeyUtil } from './event-key.util';
+
+describe('EventKeyUtil', () => {
+  describe('matches', () => {
+    it('should match keys without wildcards exactly', () => {
+      expect(EventKeyUtil.matches('th:http.error', 'th:http.error')).toBe(true);
+      expect(EventKeyUtil.matches('th:http.error', 'th:http.error.retry')).toBe(false);
+    });
+
+    it('should match any characters for an asterisk', () => {
+      expect(EventKeyUtil.matches('th:candidate.*', 'th:candidate.updated')).toBe(true);
+      expect(EventKeyUtil.matches('th:candidate.*', 'th:candidate.status.changed')).toBe(true);
+      expect(EventKeyUtil.matches('th:candidate.*', 'th:candidates.updated')).toBe(false);
+      expect(EventKeyUtil.matches('th:*.error', 'th:http.error')).toBe(true);
+      expect(EventKeyUtil.matches('*', 'legacy')).toBe(true);
+    });
+
+    it('should match other characters literally', () => {
+      expect(EventKeyUtil.matches('th:outbox.*', 'th:outboxXconflict')).toBe(false);
+      expect(EventKeyUtil.matches('th:(a|b)+*', 'th:(a|b)+c')).toBe(true);
+      expect(EventKeyUtil.matches('th:(a|b)+*', 'th:a')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Utility class for the keys of `EventBusService` events.
+ *
+ * Event keys follow the `th:{category}.{event}` convention. Subscriptions, bridges and
+ * tools select events with a key or a wildcard pattern, in which `*` matches any
+ * sequence of characters.
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import { EventKeyUtil } from '@talent-hub/core/utils';
+ *
+ * EventKeyUtil.matches('th:candidate.*', 'th:candidate.status-changed');
+ * // Result: true
+ * ```
+ *
+ * @see EventBusService
+ * @publicApi
+ */
+export class EventKeyUtil {
+  /**
+   * Returns whether an event key matches a key or a wildcard pattern.
+   *
+   * Without `*`, the pattern must equal the key. `th:candidate.*` matches
+   * `th:candidate.updated` and `th:candidate.status.changed`, and `*` matches every key.
+   *
+   * @param pattern - Event key or wildcard pattern.
+   * @param key - Key of the event.
+   * @returns `true` if the key matches the pattern.
+   *
+   * @example
+   * ```typescript
+   * EventKeyUtil.matches('th:http.error', 'th:http.error'); // true
+   * EventKeyUtil.matches('th:outbox.*', 'th:outbox.conflict'); // true
+   * EventKeyUtil.matches('th:outbox.*', 'th:http.error'); // false
+   * ```
+   */
+  static matches(pattern: string, key: string): boolean {
+    if (!pattern.includes('*')) {
+      return key === pattern;
+    }
+    const source: string = pattern
+      .split('*')
+      .map((part: string): string => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(key);
+  }
+}
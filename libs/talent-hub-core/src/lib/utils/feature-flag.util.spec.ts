@@ -0,0 +1,101 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { FeatureFlagContext } from '../interfaces';
+import { FeatureFlagUtil } from './feature-flag.util';
+
+describe('FeatureFlagUtil', () => {
+  const context: FeatureFlagContext = {
+    plan: 'professional',
+    roles: ['recruiter'],
+    environment: 'production',
+    userId: 'u-42',
+  };
+
+  describe('isOn', () => {
+    it('should turn enabled flags without rules on for everybody', () => {
+      expect(FeatureFlagUtil.isOn({ key: 'a', enabled: true }, context)).toBe(true);
+      expect(FeatureFlagUtil.isOn({ key: 'a', enabled: true, rules: [] }, context)).toBe(true);
+    });
+
+    it('should turn disabled flags off whatever their rules', () => {
+      expect(FeatureFlagUtil.isOn({ key: 'a', enabled: false, rules: [{}] }, context)).toBe(false);
+    });
+
+    it('should turn flags on when any rule matches', () => {
+      const flag = {
+        key: 'a',
+        enabled: true,
+        rules: [{ plans: ['enterprise' as const] }, { roles: ['recruiter'] }],
+      };
+      expect(FeatureFlagUtil.isOn(flag, context)).toBe(true);
+      expect(FeatureFlagUtil.isOn(flag, { ...context, roles: ['viewer'] })).toBe(false);
+    });
+  });
+
+  describe('matches', () => {
+    it('should match the tenant plan', () => {
+      expect(FeatureFlagUtil.matches('a', { plans: ['professional'] }, context)).toBe(true);
+      expect(FeatureFlagUtil.matches('a', { plans: ['enterprise'] }, context)).toBe(false);
+      expect(FeatureFlagUtil.matches('a', { plans: ['free'] }, { ...context, plan: null })).toBe(
+        false,
+      );
+    });
+
+    it('should match any of the roles', () => {
+      expect(FeatureFlagUtil.matches('a', { roles: ['admin', 'recruiter'] }, context)).toBe(true);
+      expect(FeatureFlagUtil.matches('a', { roles: ['admin'] }, context)).toBe(false);
+    });
+
+    it('should match the environment', () => {
+      expect(FeatureFlagUtil.matches('a', { environments: ['production'] }, context)).toBe(true);
+      expect(FeatureFlagUtil.matches('a', { environments: ['staging'] }, context)).toBe(false);
+    });
+
+    it('should require every condition of the rule', () => {
+      const rule = { plans: ['professional' as const], roles: ['admin'] };
+      expect(FeatureFlagUtil.matches('a', rule, context)).toBe(false);
+    });
+
+    it('should match users whose bucket is below the percentage', () => {
+      const bucket: number = FeatureFlagUtil.bucket('a', 'u-42');
+
+      expect(FeatureFlagUtil.matches('a', { percentage: bucket + 1 }, context)).toBe(true);
+      expect(FeatureFlagUtil.matches('a', { percentage: bucket }, context)).toBe(false);
+      expect(FeatureFlagUtil.matches('a', { percentage: 0 }, context)).toBe(false);
+    });
+
+    it('should only match anonymous users for a percentage of 100', () => {
+      const anonymous: FeatureFlagContext = { ...context, userId: '' };
+      expect(FeatureFlagUtil.matches('a', { percentage: 99 }, anonymous)).toBe(false);
+      expect(FeatureFlagUtil.matches('a', { percentage: 100 }, anonymous)).toBe(true);
+    });
+  });
+
+  describe('bucket', () => {
+    it('should be stable for a user and a flag', () => {
+      expect(FeatureFlagUtil.bucket('a', 'u-42')).toBe(FeatureFlagUtil.bucket('a', 'u-42'));
+    });
+
+    it('should spread users evenly over 0 to 99', () => {
+      const buckets: number[] = Array.from({ length: 10_000 }, (_, i) =>
+        FeatureFlagUtil.bucket('aiScreening', `u-${i}`),
+      );
+
+      expect(Math.min(...buckets)).toBe(0);
+      expect(Math.max(...buckets)).toBe(99);
+      const inRollout: number = buckets.filter((bucket) => bucket < 20).length;
+      expect(inRollout).toBeGreaterThan(1_800);
+      expect(inRollout).toBeLessThan(2_200);
+    });
+  });
+});
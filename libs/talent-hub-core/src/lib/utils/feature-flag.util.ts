@@ -0,0 +1,118 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { FeatureFlag, FeatureFlagContext, FeatureFlagRule } from '../interfaces';
+
+/**
+ * Utility class evaluating the targeting of feature flags.
+ *
+ * Rules are evaluated in the browser against the current tenant plan, user roles,
+ * environment and user id, so that flags follow tenant switches and sign-ins without
+ * being loaded again.
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import { FeatureFlagUtil } from '@talent-hub/core/utils';
+ *
+ * FeatureFlagUtil.isOn(
+ *   { key: 'aiScreening', enabled: true, rules: [{ plans: ['enterprise'] }] },
+ *   { plan: 'enterprise', roles: [], environment: 'production', userId: 'u-42' },
+ * );
+ * // Result: true
+ * ```
+ *
+ * @see FeatureFlagService
+ * @see FeatureFlagRule
+ * @publicApi
+ */
+export class FeatureFlagUtil {
+  /**
+   * Returns whether a flag is on in a context.
+   *
+   * The flag must be `enabled`, and one of its rules must match when it has any.
+   *
+   * @param flag - The flag to evaluate.
+   * @param context - Current tenant plan, roles, environment and user id.
+   * @returns `true` if the flag is on.
+   *
+   * @example
+   * ```typescript
+   * FeatureFlagUtil.isOn({ key: 'bulkImport', enabled: true }, context); // true
+   * FeatureFlagUtil.isOn({ key: 'bulkImport', enabled: false }, context); // false
+   * ```
+   */
+  static isOn(flag: FeatureFlag, context: FeatureFlagContext): boolean {
+    if (!flag.enabled) {
+      return false;
+    }
+    if (!flag.rules?.length) {
+      return true;
+    }
+    return flag.rules.some((rule: FeatureFlagRule): boolean =>
+      FeatureFlagUtil.matches(flag.key, rule, context),
+    );
+  }
+
+  /**
+   * Returns whether a rule of a flag matches a context.
+   *
+   * @param key - Key of the flag, used for the percentage rollout.
+   * @param rule - The rule to evaluate.
+   * @param context - Current tenant plan, roles, environment and user id.
+   * @returns `true` if every condition of the rule matches.
+   *
+   * @example
+   * ```typescript
+   * FeatureFlagUtil.matches('aiScreening', { roles: ['recruiter'] }, context);
+   * ```
+   */
+  static matches(key: string, rule: FeatureFlagRule, context: FeatureFlagContext): boolean {
+    if (rule.plans && (context.plan === null || !rule.plans.includes(context.plan))) {
+      return false;
+    }
+    if (rule.roles && !rule.roles.some((role: string): boolean => context.roles.includes(role))) {
+      return false;
+    }
+    if (rule.environments && !rule.environments.includes(context.environment)) {
+      return false;
+    }
+    if (rule.percentage !== undefined && rule.percentage < 100) {
+      return !!context.userId && FeatureFlagUtil.bucket(key, context.userId) < rule.percentage;
+    }
+    return true;
+  }
+
+  /**
+   * Returns the rollout bucket of a user for a flag, from `0` to `99`.
+   *
+   * The bucket is a hash of the flag key and the user id: it is stable for a user and
+   * a flag, and independent between flags.
+   *
+   * @param key - Key of the flag.
+   * @param userId - Id of the user.
+   * @returns The bucket, from `0` to `99`.
+   *
+   * @example
+   * ```typescript
+   * // The user is in a 20% rollout when their bucket is below 20
+   * FeatureFlagUtil.bucket('aiScreening', 'u-42') < 20;
+   * ```
+   */
+  static bucket(key: string, userId: string): number {
+    // 32-bit FNV-1a
+    let hash = 0x811c9dc5;
+    for (const char of `${key}:${userId}`) {
+      hash ^= char.codePointAt(0) ?? 0;
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % 100;
+  }
+}
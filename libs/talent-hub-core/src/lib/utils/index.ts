@@ -18,8 +18,15 @@
  * **Available Utilities:**
  * | Utility | Description |
  * |---------|-------------|
+ * | `ApiUtil` | URL helpers (path params, query strings, path matching) |
  * | `AppUtil` | Application-level utilities (dev mode detection) |
+ * | `EventKeyUtil` | Wildcard matching of event bus keys |
+ * | `FeatureFlagUtil` | Targeting and percentage rollout of feature flags |
+ * | `JwtUtil` | JWT decoding (claims, expiry) |
+ * | `MockIdentityProviderUtil` | Mock OpenID Connect identity provider for development |
+ * | `PkceUtil` | PKCE code verifier/challenge generation |
  * | `PlatformUtil` | Platform detection (browser, server, mobile, desktop) |
+ * | `RouteUtil` | Remote (micro-frontend) of a host route or URL |
  *
  * **Usage:**
  * Import utilities using the barrel export path:
@@ -50,8 +57,29 @@
  * @publicApi
  */
 
+/** API URL utilities (path parameters, query strings, path matching) */
+export * from './api.util';
+
 /** Application-level utility functions (dev mode detection, etc.) */
 export * from './app.util';
 
+/** Wildcard matching of event bus keys */
+export * from './event-key.util';
+
+/** Targeting and percentage rollout of feature flags */
+export * from './feature-flag.util';
+
+/** JWT decoding utilities (claims, expiry) */
+export * from './jwt.util';
+
+/** Mock OpenID Connect identity provider endpoints for development */
+export * from './mock-identity-provider.util';
+
+/** PKCE code verifier, challenge and random value generation */
+export * from './pkce.util';
+
 /** Platform detection utilities (browser, server, mobile, desktop) */
 export * from './platform.util';
+
+/** Remote (micro-frontend) a host route or URL belongs to */
+export * from './route.util';
@@ -0,0 +1,76 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { JwtUtil } from './jwt.util';
+
+/** Encodes a payload as an unsigned JWT. */
+function createJwt(payload: object): string {
+  const encode = (value: object): string =>
+    btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('JwtUtil', () => {
+  describe('decode', () => {
+    it('should decode the standard and custom claims', () => {
+      const token = createJwt({
+        sub: 'user_123',
+        tenant: 'acme',
+        roles: ['recruiter'],
+        iat: 1_700_000_000,
+        exp: 1_700_000_900,
+      });
+      expect(JwtUtil.decode(token)).toEqual({
+        sub: 'user_123',
+        tenant: 'acme',
+        roles: ['recruiter'],
+        iat: 1_700_000_000,
+        exp: 1_700_000_900,
+      });
+    });
+
+    it('should decode base64url payloads with UTF-8 characters', () => {
+      const token = createJwt({ name: 'Zoë ~~~ ??? >>>' });
+      expect(JwtUtil.decode(token)?.['name']).toBe('Zoë ~~~ ??? >>>');
+    });
+
+    it('should return null for missing or opaque tokens', () => {
+      expect(JwtUtil.decode(null)).toBeNull();
+      expect(JwtUtil.decode(undefined)).toBeNull();
+      expect(JwtUtil.decode('')).toBeNull();
+      expect(JwtUtil.decode('opaque-token')).toBeNull();
+    });
+
+    it('should return null for a malformed payload', () => {
+      expect(JwtUtil.decode('header.not-base64-json!.signature')).toBeNull();
+    });
+
+    it('should return null when the payload is not an object', () => {
+      expect(JwtUtil.decode(`header.${btoa('42')}.signature`)).toBeNull();
+    });
+  });
+
+  describe('getExpiresAt', () => {
+    it('should convert the exp claim to milliseconds', () => {
+      expect(JwtUtil.getExpiresAt(createJwt({ exp: 1_700_000_900 }))).toBe(1_700_000_900_000);
+    });
+
+    it('should return null without a numeric exp claim', () => {
+      expect(JwtUtil.getExpiresAt(createJwt({ sub: 'user_123' }))).toBeNull();
+      expect(JwtUtil.getExpiresAt(createJwt({ exp: 'soon' }))).toBeNull();
+      expect(JwtUtil.getExpiresAt('opaque-token')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { JwtClaims } from '../interfaces';
+
+/**
+ * Utility class for reading JSON Web Tokens (JWT).
+ *
+ * Provides static helpers to decode the claims of an access token and derive its
+ * expiry. Tokens that are not JWTs (opaque tokens) are handled gracefully: every
+ * method returns `null` instead of throwing.
+ *
+ * @remarks
+ * **Available Methods:**
+ * - `decode()` - Decode the payload of a JWT into `JwtClaims`.
+ * - `getExpiresAt()` - Get the expiry of a JWT in milliseconds since epoch.
+ *
+ * **Security:**
+ * The signature is **not** verified. Decoded claims must only drive client-side
+ * behavior such as scheduling a refresh; authorization decisions belong to the server.
+ *
+ * @example
+ * ```typescript
+ * const claims = JwtUtil.decode(token);
+ * console.log(claims?.sub, claims?.tenant);
+ *
+ * const expiresAt = JwtUtil.getExpiresAt(token);
+ * if (expiresAt !== null && expiresAt <= Date.now()) {
+ *   // Token has expired
+ * }
+ * ```
+ *
+ * @see JwtClaims
+ * @see https://datatracker.ietf.org/doc/html/rfc7519
+ * @publicApi
+ */
+export class JwtUtil {
+  /**
+   * Decodes the payload of a JWT.
+   *
+   * The payload segment is base64url-decoded as UTF-8 and parsed as JSON.
+   *
+   * @param token - The encoded JWT (`header.payload.signature`).
+   * @returns The decoded claims, or `null` if the token is missing, not a JWT, or malformed.
+   *
+   * @example
+   * ```typescript
+   * JwtUtil.decode('eyJhbGciOi...'); // { sub: 'user_123', exp: 1767226500, ... }
+   * JwtUtil.decode('opaque-token'); // null
+   * ```
+   */
+  static decode(token: string | null | undefined): JwtClaims | null {
+    const payload: string | undefined = token?.split('.')[1];
+    if (!payload) {
+      return null;
+    }
+
+    try {
+      const base64: string = payload.replace(/-/g, '+').replace(/_/g, '/');
+      const padded: string = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+      const bytes: Uint8Array = Uint8Array.from(atob(padded), (char: string) => char.charCodeAt(0));
+      const claims: unknown = JSON.parse(new TextDecoder().decode(bytes));
+      return claims !== null && typeof claims === 'object' && !Array.isArray(claims)
+        ? (claims as JwtClaims)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Returns the expiry of a JWT in milliseconds since epoch.
+   *
+   * @param token - The encoded JWT.
+   * @returns The `exp` claim converted to milliseconds, or `null` if the token cannot be
+   * decoded or has no numeric `exp` claim.
+   *
+   * @example
+   * ```typescript
+   * const expiresAt = JwtUtil.getExpiresAt(token);
+   * const secondsLeft = expiresAt ? Math.round((expiresAt - Date.now()) / 1000) : null;
+   * ```
+   */
+  static getExpiresAt(token: string | null | undefined): number | null {
+    const exp: unknown = JwtUtil.decode(token)?.exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HttpHeaders, HttpParams } from '@angular/common/http';
+import { firstValueFrom, isObservable, of } from 'rxjs';
+
+import { MockHandler, MockResponse } from '../interfaces';
+import { JwtUtil } from './jwt.util';
+import { MockIdentityProviderUtil } from './mock-identity-provider.util';
+import { PkceUtil } from './pkce.util';
+
+const REDIRECT_URI = 'https://app.test/auth/callback';
+
+describe('MockIdentityProviderUtil', () => {
+  const [discovery, authorize, token] = MockIdentityProviderUtil.createHandlers({
+    user: { id: 'u-7', email: 'ada@acme.com', roles: ['admin'] },
+    expiresIn: 120,
+  });
+
+  /** Sends a request to a handler and resolves its response. */
+  function send(handler: MockHandler, query: Record<string, string>, body?: unknown) {
+    const response = handler.handle({
+      method: handler.method,
+      path: handler.path,
+      params: {},
+      query: new HttpParams({ fromObject: query }),
+      body: body ?? null,
+      headers: new HttpHeaders(),
+    });
+    return firstValueFrom(isObservable(response) ? response : of(response));
+  }
+
+  /** Runs the authorization request and returns the parameters of its redirect. */
+  async function authorizeWith(query: Record<string, string> = {}): Promise<URLSearchParams> {
+    const response: MockResponse = await send(authorize, {
+      response_type: 'code',
+      client_id: 'talent-hub-web',
+      redirect_uri: REDIRECT_URI,
+      scope: 'openid offline_access',
+      state: 'state-1',
+      nonce: 'nonce-1',
+      code_challenge: await PkceUtil.createCodeChallenge('verifier-1'),
+      code_challenge_method: 'S256',
+      ...query,
+    });
+    return new URL(response.headers?.['Location'] ?? '').searchParams;
+  }
+
+  /** Exchanges an authorization code at the token endpoint. */
+  function exchange(code: string | null, form: Record<string, string> = {}) {
+    return send(
+      token,
+      {},
+      new HttpParams({
+        fromObject: {
+          grant_type: 'authorization_code',
+          code: code ?? '',
+          redirect_uri: REDIRECT_URI,
+          client_id: 'talent-hub-web',
+          code_verifier: 'verifier-1',
+          ...form,
+        },
+      }),
+    );
+  }
+
+  it('should register the endpoints under the default issuer', () => {
+    expect(MockIdentityProviderUtil.createHandlers().map(({ path }) => path)).toEqual([
+      '/oidc/.well-known/openid-configuration',
+      '/oidc/authorize',
+      '/oidc/token',
+    ]);
+  });
+
+  it('should serve the discovery document of the issuer', async () => {
+    const [handler] = MockIdentityProviderUtil.createHandlers({ baseUrl: '/api/', path: '/sso/' });
+    expect(await send(handler, {})).toEqual({
+      body: {
+        issuer: '/api/sso',
+        authorization_endpoint: '/api/sso/authorize',
+        token_endpoint: '/api/sso/token',
+        code_challenge_methods_supported: ['S256'],
+      },
+    });
+    expect((await send(discovery, {})).body).toMatchObject({ issuer: '/mocks/oidc' });
+  });
+
+  describe('authorization endpoint', () => {
+    it('should redirect to the redirect URI with a code and the state', async () => {
+      const params = await authorizeWith();
+      expect(params.get('code')).toEqual(expect.any(String));
+      expect(params.get('state')).toBe('state-1');
+      expect(params.has('error')).toBe(false);
+    });
+
+    it('should redirect with an error when PKCE is missing', async () => {
+      const params = await authorizeWith({ code_challenge_method: 'plain' });
+      expect(params.get('error')).toBe('invalid_request');
+      expect(params.get('state')).toBe('state-1');
+      expect(params.has('code')).toBe(false);
+    });
+
+    it('should redirect with an error for other response types', async () => {
+      expect((await authorizeWith({ response_type: 'token' })).get('error')).toBe(
+        'unsupported_response_type',
+      );
+    });
+
+    it('should reject a request without a redirect URI', async () => {
+      expect(await send(authorize, { client_id: 'talent-hub-web' })).toMatchObject({
+        status: 400,
+        body: { error: 'invalid_request' },
+      });
+    });
+  });
+
+  describe('token endpoint', () => {
+    it('should issue tokens for the user when the code verifier matches', async () => {
+      const response = await exchange((await authorizeWith()).get('code'));
+      const body = response.body as Record<string, string | number>;
+
+      expect(body).toMatchObject({ token_type: 'Bearer', expires_in: 120 });
+      expect(JwtUtil.decode(body['id_token'] as string)).toMatchObject({
+        iss: '/mocks/oidc',
+        aud: 'talent-hub-web',
+        sub: 'u-7',
+        nonce: 'nonce-1',
+        email: 'ada@acme.com',
+        given_name: 'Jane',
+        roles: ['admin'],
+      });
+      expect(JwtUtil.getExpiresAt(body['access_token'] as string)).toBeGreaterThan(Date.now());
+      expect(body['refresh_token']).toEqual(expect.any(String));
+    });
+
+    it('should not issue a refresh token without the offline_access scope', async () => {
+      const response = await exchange((await authorizeWith({ scope: 'openid' })).get('code'));
+      expect(response.body).not.toHaveProperty('refresh_token');
+    });
+
+    it('should reject a wrong code verifier, redirect URI or client', async () => {
+      const code = (await authorizeWith()).get('code');
+      const forms: Record<string, string>[] = [
+        { code_verifier: 'other' },
+        { redirect_uri: 'https://evil.test/callback' },
+        { client_id: 'other-client' },
+      ];
+      for (const form of forms) {
+        expect(await exchange(code, form)).toMatchObject({
+          status: 400,
+          body: { error: 'invalid_grant' },
+        });
+      }
+      expect((await exchange('not-a-code')).status).toBe(400);
+    });
+
+    it('should renew the tokens with a refresh token', async () => {
+      const issued = await exchange((await authorizeWith()).get('code'));
+      const refreshToken = (issued.body as Record<string, string>)['refresh_token'];
+
+      const renewed = await send(
+        token,
+        {},
+        new HttpParams({
+          fromObject: {
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+            client_id: 'talent-hub-web',
+          },
+        }),
+      );
+
+      expect(renewed.status).toBeUndefined();
+      expect(
+        JwtUtil.decode((renewed.body as Record<string, string>)['id_token']),
+      ).not.toHaveProperty('nonce');
+      const accessToken = (issued.body as Record<string, string>)['access_token'];
+      expect(
+        await send(token, {}, `grant_type=refresh_token&refresh_token=${accessToken}`),
+      ).toMatchObject({ status: 400, body: { error: 'invalid_grant' } });
+    });
+
+    it('should reject other grant types', async () => {
+      expect(await send(token, {}, 'grant_type=password')).toMatchObject({
+        status: 400,
+        body: { error: 'unsupported_grant_type' },
+      });
+    });
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { HttpParams } from '@angular/common/http';
+import { from, Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+import {
+  JwtClaims,
+  MockHandler,
+  MockIdentityProviderConfig,
+  MockRequest,
+  MockResponse,
+  OidcDiscoveryDocument,
+  OidcTokenResponse,
+  User,
+} from '../interfaces';
+import { JwtUtil } from './jwt.util';
+import { PkceUtil } from './pkce.util';
+
+/**
+ * User signed in when `MockIdentityProviderConfig.user` is not set.
+ *
+ * @internal
+ */
+const DEFAULT_MOCK_USER: User = {
+  id: 'mock-user-1',
+  email: 'jane.doe@talent-hub.test',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  roles: ['recruiter'],
+  permissions: [],
+};
+
+/**
+ * Lifetime of an authorization code, in seconds.
+ *
+ * @internal
+ */
+const AUTHORIZATION_CODE_LIFETIME = 60;
+
+/**
+ * Utility class for the local OpenID Connect identity provider of the mock backend.
+ *
+ * Creates the `MockHandler`s of an identity provider that implements the
+ * authorization-code flow with PKCE, so that `OidcService` can be exercised end to end
+ * in development. Register them with `provideMockIdentityProvider()`.
+ *
+ * @remarks
+ * **Endpoints** (relative to the issuer):
+ * | Request | Response |
+ * |---------|----------|
+ * | `GET /.well-known/openid-configuration` | Discovery document |
+ * | `GET /authorize` | 302 to `redirect_uri` with `code` and `state`, or with `error` |
+ * | `POST /token` | Tokens for the `authorization_code` and `refresh_token` grants |
+ *
+ * **Stateless:**
+ * Authorization codes and refresh tokens carry the request they were issued for, so
+ * the flow survives the full page loads of a redirect-based sign-in.
+ *
+ * **Security:**
+ * Every token is an unsigned JWT. The identity provider is meant for development only.
+ *
+ * @example
+ * ```typescript
+ * const handlers = MockIdentityProviderUtil.createHandlers({ user: { roles: ['admin'] } });
+ * // provideMockHandlers(...handlers)
+ * ```
+ *
+ * @see provideMockIdentityProvider
+ * @see mockIdentityProviderGuard
+ * @see OidcService
+ * @publicApi
+ */
+export class MockIdentityProviderUtil {
+  /**
+   * Creates the mock endpoints of the identity provider.
+   *
+   * @param config - Base URL, path, user and token lifetime of the identity provider.
+   * @returns The discovery, authorization and token endpoint handlers.
+   *
+   * @example
+   * ```typescript
+   * provideMockHandlers(...MockIdentityProviderUtil.createHandlers());
+   * // issuer: '/mocks/oidc'
+   * ```
+   */
+  static createHandlers(config: MockIdentityProviderConfig = {}): MockHandler[] {
+    const path: string = (config.path ?? '/oidc').replace(/\/+$/, '');
+    const issuer = `${(config.baseUrl ?? '/mocks').replace(/\/+$/, '')}${path}`;
+    const user: User = { ...DEFAULT_MOCK_USER, ...config.user };
+    const expiresIn: number = config.expiresIn ?? 3600;
+
+    return [
+      {
+        method: 'GET',
+        path: `${path}/.well-known/openid-configuration`,
+        handle: (): MockResponse => ({
+          body: {
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            code_challenge_methods_supported: ['S256'],
+          } satisfies OidcDiscoveryDocument,
+        }),
+      },
+      {
+        method: 'GET',
+        path: `${path}/authorize`,
+        handle: (request: MockRequest): MockResponse => MockIdentityProviderUtil.authorize(request),
+      },
+      {
+        method: 'POST',
+        path: `${path}/token`,
+        handle: (request: MockRequest): MockResponse | Observable<MockResponse> =>
+          MockIdentityProviderUtil.token(request, issuer, user, expiresIn),
+      },
+    ];
+  }
+
+  /**
+   * Answers an authorization request with a redirect carrying a code or an error.
+   *
+   * @param request - The authorization request.
+   * @returns A 302 response, or a 400 response when there is nowhere to redirect to.
+   * @internal
+   */
+  private static authorize(request: MockRequest): MockResponse {
+    const query: HttpParams = request.query;
+    const clientId: string | null = query.get('client_id');
+    const redirectUri: string | null = query.get('redirect_uri');
+    if (!clientId || !redirectUri) {
+      return {
+        status: 400,
+        body: {
+          error: 'invalid_request',
+          error_description: 'client_id and redirect_uri are required',
+        },
+      };
+    }
+
+    const state: string | null = query.get('state');
+    const redirect = (params: Record<string, string>): MockResponse => {
+      const search = new HttpParams({ fromObject: state ? { ...params, state } : params });
+      const separator: string = redirectUri.includes('?') ? '&' : '?';
+      return { status: 302, headers: { Location: `${redirectUri}${separator}${search}` } };
+    };
+
+    if (query.get('response_type') !== 'code') {
+      return redirect({ error: 'unsupported_response_type' });
+    }
+    const codeChallenge: string | null = query.get('code_challenge');
+    if (!codeChallenge || query.get('code_challenge_method') !== 'S256') {
+      return redirect({
+        error: 'invalid_request',
+        error_description: 'PKCE with S256 is required',
+      });
+    }
+
+    return redirect({
+      code: MockIdentityProviderUtil.createJwt({
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        scope: query.get('scope') ?? 'openid',
+        nonce: query.get('nonce'),
+        code_challenge: codeChallenge,
+        exp: MockIdentityProviderUtil.now() + AUTHORIZATION_CODE_LIFETIME,
+      }),
+    });
+  }
+
+  /**
+   * Answers a token request for the authorization-code and refresh-token grants.
+   *
+   * @param request - The form-encoded token request.
+   * @param issuer - Issuer of the tokens.
+   * @param user - User the tokens are issued for.
+   * @param expiresIn - Lifetime of the access and ID tokens, in seconds.
+   * @returns The token response, or a 400 response with an OAuth error.
+   * @internal
+   */
+  private static token(
+    request: MockRequest,
+    issuer: string,
+    user: User,
+    expiresIn: number,
+  ): MockResponse | Observable<MockResponse> {
+    const form: HttpParams =
+      request.body instanceof HttpParams
+        ? request.body
+        : new HttpParams({ fromString: typeof request.body === 'string' ? request.body : '' });
+    const clientId: string | null = form.get('client_id');
+
+    switch (form.get('grant_type')) {
+      case 'authorization_code': {
+        const code: JwtClaims | null = JwtUtil.decode(form.get('code'));
+        const codeVerifier: string | null = form.get('code_verifier');
+        if (
+          !code ||
+          typeof code.exp !== 'number' ||
+          code.exp <= MockIdentityProviderUtil.now() ||
+          code['client_id'] !== clientId ||
+          code['redirect_uri'] !== form.get('redirect_uri') ||
+          !codeVerifier
+        ) {
+          return MockIdentityProviderUtil.invalidGrant('authorization code is invalid or expired');
+        }
+        return from(PkceUtil.createCodeChallenge(codeVerifier)).pipe(
+          map(
+            (codeChallenge: string): MockResponse =>
+              codeChallenge === code['code_challenge']
+                ? {
+                    body: MockIdentityProviderUtil.issueTokens(
+                      issuer,
+                      code['client_id'] as string,
+                      String(code['scope']),
+                      user,
+                      expiresIn,
+                      code['nonce'],
+                    ),
+                  }
+                : MockIdentityProviderUtil.invalidGrant('code_verifier does not match'),
+          ),
+        );
+      }
+      case 'refresh_token': {
+        const refreshToken: JwtClaims | null = JwtUtil.decode(form.get('refresh_token'));
+        if (
+          !refreshToken ||
+          refreshToken['token_use'] !== 'refresh' ||
+          refreshToken['aud'] !== clientId
+        ) {
+          return MockIdentityProviderUtil.invalidGrant('refresh token is invalid');
+        }
+        return {
+          body: MockIdentityProviderUtil.issueTokens(
+            issuer,
+            clientId as string,
+            String(refreshToken['scope']),
+            user,
+            expiresIn,
+          ),
+        };
+      }
+      default:
+        return { status: 400, body: { error: 'unsupported_grant_type' } };
+    }
+  }
+
+  /**
+   * Issues the access, ID and (with `offline_access`) refresh tokens.
+   *
+   * @param issuer - Issuer of the tokens.
+   * @param clientId - Client the tokens are issued to.
+   * @param scope - Scopes granted by the authorization request.
+   * @param user - User the tokens are issued for.
+   * @param expiresIn - Lifetime of the access and ID tokens, in seconds.
+   * @param nonce - Nonce of the authorization request, embedded in the ID token.
+   * @returns The token endpoint response.
+   * @internal
+   */
+  private static issueTokens(
+    issuer: string,
+    clientId: string,
+    scope: string,
+    user: User,
+    expiresIn: number,
+    nonce?: unknown,
+  ): OidcTokenResponse {
+    const iat: number = MockIdentityProviderUtil.now();
+    const claims = { iss: issuer, sub: user.id, aud: clientId, iat, exp: iat + expiresIn };
+
+    return {
+      access_token: MockIdentityProviderUtil.createJwt({
+        ...claims,
+        scope,
+        roles: user.roles,
+        permissions: user.permissions,
+      }),
+      id_token: MockIdentityProviderUtil.createJwt({
+        ...claims,
+        ...(typeof nonce === 'string' ? { nonce } : {}),
+        email: user.email,
+        given_name: user.firstName,
+        family_name: user.lastName,
+        roles: user.roles,
+        permissions: user.permissions,
+      }),
+      ...(scope.split(' ').includes('offline_access')
+        ? {
+            refresh_token: MockIdentityProviderUtil.createJwt({
+              iss: issuer,
+              sub: user.id,
+              aud: clientId,
+              scope,
+              token_use: 'refresh',
+            }),
+          }
+        : {}),
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+    };
+  }
+
+  /**
+   * Creates the 400 response of a rejected grant.
+   *
+   * @param description - Why the grant was rejected.
+   * @returns The `invalid_grant` error response.
+   * @internal
+   */
+  private static invalidGrant(description: string): MockResponse {
+    return { status: 400, body: { error: 'invalid_grant', error_description: description } };
+  }
+
+  /**
+   * Encodes claims as an unsigned JWT (`alg: none`).
+   *
+   * @param claims - The claims of the token.
+   * @returns The encoded JWT with an empty signature.
+   * @internal
+   */
+  private static createJwt(claims: Record<string, unknown>): string {
+    const encode = (value: object): string =>
+      btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+    return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.`;
+  }
+
+  /**
+   * Returns the current time in seconds since epoch.
+   *
+   * @internal
+   */
+  private static now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+}
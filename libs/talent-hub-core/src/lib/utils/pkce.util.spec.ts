@@ -0,0 +1,32 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { PkceUtil } from './pkce.util';
+
+describe('PkceUtil', () => {
+  it('should create URL-safe random strings', () => {
+    const value = PkceUtil.createRandomString();
+    expect(value).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(PkceUtil.createRandomString()).not.toBe(value);
+  });
+
+  it('should create a 43 character code verifier', () => {
+    expect(PkceUtil.createCodeVerifier()).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it('should derive the S256 code challenge (RFC 7636 appendix B)', async () => {
+    const challenge = await PkceUtil.createCodeChallenge(
+      'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk',
+    );
+    expect(challenge).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+/**
+ * Utility class for Proof Key for Code Exchange (PKCE, RFC 7636).
+ *
+ * Provides static helpers to create the one-time values used by the OAuth 2.0
+ * authorization-code flow: the code verifier and its S256 code challenge, and random
+ * `state` / `nonce` values. All randomness comes from the Web Crypto API.
+ *
+ * @remarks
+ * **Available Methods:**
+ * - `createRandomString()` - Create a URL-safe random string.
+ * - `createCodeVerifier()` - Create a code verifier (43 characters).
+ * - `createCodeChallenge()` - Derive the S256 code challenge from a verifier.
+ *
+ * @example
+ * ```typescript
+ * const verifier = PkceUtil.createCodeVerifier();
+ * const challenge = await PkceUtil.createCodeChallenge(verifier);
+ * // authorize?code_challenge={challenge}&code_challenge_method=S256
+ * // token: code_verifier={verifier}
+ * ```
+ *
+ * @see OidcService
+ * @see https://datatracker.ietf.org/doc/html/rfc7636
+ * @publicApi
+ */
+export class PkceUtil {
+  /**
+   * Creates a cryptographically random, URL-safe string.
+   *
+   * @param byteLength - Number of random bytes; the result is base64url-encoded.
+   * @returns A random base64url string without padding.
+   *
+   * @example
+   * ```typescript
+   * const state = PkceUtil.createRandomString();
+   * ```
+   */
+  static createRandomString(byteLength = 32): string {
+    return PkceUtil.toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+  }
+
+  /**
+   * Creates a PKCE code verifier.
+   *
+   * 32 random bytes encode to 43 characters, the minimum length allowed by RFC 7636.
+   *
+   * @returns A new code verifier.
+   */
+  static createCodeVerifier(): string {
+    return PkceUtil.createRandomString(32);
+  }
+
+  /**
+   * Derives the S256 code challenge for a code verifier.
+   *
+   * @param codeVerifier - The verifier created by `createCodeVerifier()`.
+   * @returns A promise of `BASE64URL(SHA256(codeVerifier))`.
+   *
+   * @example
+   * ```typescript
+   * const challenge = await PkceUtil.createCodeChallenge(verifier);
+   * ```
+   */
+  static async createCodeChallenge(codeVerifier: string): Promise<string> {
+    const digest: ArrayBuffer = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(codeVerifier),
+    );
+    return PkceUtil.toBase64Url(new Uint8Array(digest));
+  }
+
+  /**
+   * Encodes bytes as base64url without padding.
+   *
+   * @param bytes - The bytes to encode.
+   * @returns The base64url string.
+   * @internal
+   */
+  private static toBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+}
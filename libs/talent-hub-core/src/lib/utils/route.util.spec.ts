@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Route } from '@angular/router';
+
+import { RouteUtil } from './route.util';
+
+describe('RouteUtil', () => {
+  const routes: Route[] = [
+    { path: '', redirectTo: 'dashboard', pathMatch: 'full' },
+    { path: 'settings' },
+    { path: 'candidates', data: { remote: 'talent-hub-candidate' } },
+    { path: 'reports/:year', data: { remote: 'talent-hub-report' } },
+  ];
+
+  describe('getRemote', () => {
+    it('should return the remote of the route data', () => {
+      expect(RouteUtil.getRemote(routes[2])).toBe('talent-hub-candidate');
+    });
+
+    it('should return null for routes without a remote', () => {
+      expect(RouteUtil.getRemote(routes[1])).toBeNull();
+      expect(RouteUtil.getRemote({ path: 'x', data: { remote: 42 } })).toBeNull();
+      expect(RouteUtil.getRemote(undefined)).toBeNull();
+    });
+  });
+
+  describe('findRemote', () => {
+    it('should find the remote from the first path segment', () => {
+      expect(RouteUtil.findRemote(routes, '/candidates/42?tab=notes#top')).toBe(
+        'talent-hub-candidate',
+      );
+      expect(RouteUtil.findRemote(routes, '/reports/2026')).toBe('talent-hub-report');
+    });
+
+    it('should return null for host routes and unknown URLs', () => {
+      expect(RouteUtil.findRemote(routes, '/settings')).toBeNull();
+      expect(RouteUtil.findRemote(routes, '/unknown')).toBeNull();
+      expect(RouteUtil.findRemote(routes, '/')).toBeNull();
+      expect(RouteUtil.findRemote(routes, null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { Route } from '@angular/router';
+
+/**
+ * Key of the route data naming the remote that a top-level route of the host loads.
+ *
+ * @internal
+ */
+const REMOTE_DATA_KEY = 'remote';
+
+/**
+ * Utility class for the routes of the host application.
+ *
+ * The host loads each micro-frontend (remote) from a top-level route and names it in the
+ * `remote` data of that route. These helpers find the remote a URL belongs to, so that
+ * logs, error reports and performance metrics can be attributed to it.
+ *
+ * ## Usage
+ *
+ * ```typescript
+ * import { RouteUtil } from '@talent-hub/core/utils';
+ *
+ * // app.routes.ts (host)
+ * {
+ *   path: 'candidates',
+ *   data: { remote: 'talent-hub-candidate' },
+ *   loadChildren: () => loadRemoteModule('talent-hub-candidate', './routes').then((m) => m.routes),
+ * }
+ *
+ * RouteUtil.findRemote(router.config, '/candidates/42?tab=notes');
+ * // Result: 'talent-hub-candidate'
+ * ```
+ *
+ * @publicApi
+ */
+export class RouteUtil {
+  /**
+   * Returns the remote named by the route data of a route.
+   *
+   * @param route - A top-level route of the host.
+   * @returns The `remote` data of the route, or `null` if it does not load a remote.
+   *
+   * @example
+   * ```typescript
+   * RouteUtil.getRemote({ path: 'users', data: { remote: 'talent-hub-user' } });
+   * // Result: 'talent-hub-user'
+   * ```
+   */
+  static getRemote(route: Route | null | undefined): string | null {
+    const remote: unknown = route?.data?.[REMOTE_DATA_KEY];
+    return typeof remote === 'string' ? remote : null;
+  }
+
+  /**
+   * Returns the remote a URL belongs to, from the top-level route matching its first
+   * path segment.
+   *
+   * @param routes - The top-level routes of the host (`Router.config`).
+   * @param url - The URL, with or without query parameters and fragment.
+   * @returns The remote name, or `null` for host routes and unknown URLs.
+   *
+   * @example
+   * ```typescript
+   * RouteUtil.findRemote(router.config, '/candidates/42'); // 'talent-hub-candidate'
+   * RouteUtil.findRemote(router.config, '/settings'); // null
+   * ```
+   */
+  static findRemote(routes: Route[], url: string | null): string | null {
+    const segment: string | undefined = url?.split(/[?#]/)[0].split('/').filter(Boolean)[0];
+    if (!segment) {
+      return null;
+    }
+    return RouteUtil.getRemote(
+      routes.find((route: Route): boolean => route.path?.split('/')[0] === segment),
+    );
+  }
+}
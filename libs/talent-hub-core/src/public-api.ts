@@ -103,6 +103,8 @@ export * from './lib/interfaces';
  * Data models and classes.
  *
  * Available models:
+ * - `ApiError` - Normalized error of a failed HTTP request
+ * - `ConcurrencyConflictError` - Mutation rejected because the resource changed
  * - `EventMetadata` - Metadata for event tracking and auditing
  *
  * @see {@link ./lib/models} for model definitions
@@ -0,0 +1,127 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router } from '@angular/router';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ErrorReport } from '@talent-hub/core/interfaces';
+import { BreadcrumbService, GlobalErrorHandler, LoggerService } from '@talent-hub/core/services';
+
+import { describeCrash, ErrorScreenComponent } from '../../components';
+
+describe('ErrorScreenComponent', () => {
+  let fixture: ComponentFixture<ErrorScreenComponent>;
+  let errorHandler: GlobalErrorHandler;
+  let mockRouter: {
+    url: string;
+    navigated: boolean;
+    config: { path: string; data?: Record<string, unknown> }[];
+    navigateByUrl: ReturnType<typeof vi.fn>;
+  };
+
+  /** Shows the changes of the crash and returns the error screen, if shown. */
+  function screen(): HTMLElement | null {
+    fixture.detectChanges();
+    return (fixture.nativeElement as HTMLElement).querySelector('.th-error-screen');
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockRouter = {
+      url: '/candidates/42',
+      navigated: true,
+      config: [{ path: 'candidates', data: { remote: 'talent-hub-candidate' } }],
+      navigateByUrl: vi.fn().mockResolvedValue(true),
+    };
+    TestBed.configureTestingModule({
+      imports: [ErrorScreenComponent],
+      providers: [
+        { provide: Router, useValue: mockRouter },
+        { provide: LoggerService, useValue: { createLogger: () => ({ error: vi.fn() }) } },
+        {
+          provide: BreadcrumbService,
+          useValue: { currentRoute: () => '/candidates/42', getBreadcrumbs: () => [] },
+        },
+      ],
+    });
+    errorHandler = TestBed.inject(GlobalErrorHandler);
+    fixture = TestBed.createComponent(ErrorScreenComponent);
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    TestBed.resetTestingModule();
+    vi.useRealTimers();
+  });
+
+  it('should render nothing without a crash', () => {
+    expect(screen()).toBeNull();
+  });
+
+  it('should render nothing for an error that is not fatal', () => {
+    errorHandler.handleError(new TypeError('Widget failure'));
+
+    expect(screen()).toBeNull();
+  });
+
+  it('should show a fatal error with its module and id', () => {
+    errorHandler.handleError(new TypeError('Failed to fetch dynamically imported module'));
+    const element = screen();
+
+    expect(element?.getAttribute('role')).toBe('alert');
+    expect(
+      (element?.querySelector('ix-empty-state') as HTMLElement & { subHeader: string }).subHeader,
+    ).toBe('The Candidate module stopped working.');
+    expect(element?.textContent).toContain(`Error id: ${errorHandler.crash()?.id}`);
+  });
+
+  it('should show errors that repeat within the crash window', () => {
+    for (let i = 0; i < 4; i++) {
+      errorHandler.handleError(new TypeError(`Widget failure ${i}`));
+    }
+    expect(screen()).toBeNull();
+
+    errorHandler.handleError(new TypeError('Widget failure 4'));
+    expect(screen()).not.toBeNull();
+  });
+
+  it('should hide the screen when "Try again" is clicked', () => {
+    errorHandler.handleError(new TypeError('Failed to fetch dynamically imported module'));
+    const tryAgain = Array.from(screen()?.querySelectorAll('ix-button') ?? []).find(
+      (button: Element): boolean => button.textContent?.trim() === 'Try again',
+    ) as HTMLElement;
+
+    tryAgain.click();
+
+    expect(errorHandler.crash()).toBeNull();
+    expect(screen()).toBeNull();
+  });
+});
+
+describe('describeCrash', () => {
+  const report = { id: '1', name: 'TypeError', message: 'Failed' } as ErrorReport;
+
+  it('should name the module of the remote', () => {
+    expect(describeCrash({ ...report, remote: 'talent-hub-candidate' })).toBe(
+      'The Candidate module stopped working.',
+    );
+  });
+
+  it('should name remotes of several words', () => {
+    expect(describeCrash({ ...report, remote: 'talent-hub-job-board' })).toBe(
+      'The Job Board module stopped working.',
+    );
+  });
+
+  it('should name the application outside remotes', () => {
+    expect(describeCrash({ ...report, remote: null })).toBe('The application stopped working.');
+  });
+});
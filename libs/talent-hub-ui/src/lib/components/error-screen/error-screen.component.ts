@@ -0,0 +1,129 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { ChangeDetectionStrategy, Component, DOCUMENT, inject } from '@angular/core';
+import { IxButton, IxEmptyState } from '@siemens/ix-angular/standalone';
+
+import { ErrorReport } from '@talent-hub/core/interfaces';
+import { GlobalErrorHandler } from '@talent-hub/core/services';
+
+/**
+ * Returns the text shown under the title of the error screen.
+ *
+ * Names the part of the application that failed, from the remote of the report
+ * (`'talent-hub-candidate'` is shown as "Candidate").
+ *
+ * @param report - The error shown on the screen.
+ * @returns The description of the failure
+ *
+ * @example
+ * ```typescript
+ * describeCrash({ ...report, remote: 'talent-hub-candidate' });
+ * // 'The Candidate module stopped working.'
+ * describeCrash({ ...report, remote: null });
+ * // 'The application stopped working.'
+ * ```
+ *
+ * @publicApi
+ */
+export function describeCrash(report: ErrorReport): string {
+  const module: string = (report.remote ?? '')
+    .replace(/^talent-hub-/, '')
+    .split('-')
+    .filter(Boolean)
+    .map((word: string): string => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+  return module ? `The ${module} module stopped working.` : 'The application stopped working.';
+}
+
+/**
+ * Shows the error screen of `GlobalErrorHandler` instead of a blank page.
+ *
+ * Place it in the root component of the host, in place of the router outlet while
+ * `GlobalErrorHandler.crash` is set. The screen names the failed module and shows the id of
+ * the error report, so that users can quote it to support.
+ *
+ * @remarks
+ * - "Try again" calls `GlobalErrorHandler.recover()`, which renders the page again or
+ *   retries the navigation the error interrupted.
+ * - "Reload page" reloads the whole application, for errors that leave it in a broken state.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <!-- app.component.html (host) -->
+ * @if (errorHandler.crash()) {
+ *   <th-error-screen />
+ * } @else {
+ *   <router-outlet />
+ * }
+ * ```
+ *
+ * @see {@link GlobalErrorHandler} For the reporting of uncaught errors
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'th-error-screen',
+  imports: [IxButton, IxEmptyState],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    @if (errorHandler.crash(); as report) {
+      <div class="th-error-screen" role="alert">
+        <ix-empty-state
+          layout="large"
+          icon="error"
+          header="Something went wrong"
+          [subHeader]="describeCrash(report)"
+        ></ix-empty-state>
+        <div class="th-error-screen-actions">
+          <ix-button (click)="errorHandler.recover()">Try again</ix-button>
+          <ix-button variant="secondary" (click)="reload()">Reload page</ix-button>
+        </div>
+        <small class="th-error-screen-id">Error id: {{ report.id }}</small>
+      </div>
+    }
+  `,
+  styles: `
+    .th-error-screen {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 1rem;
+      min-height: 60vh;
+      padding: 2rem;
+    }
+
+    .th-error-screen-actions {
+      display: flex;
+      gap: 0.5rem;
+    }
+
+    .th-error-screen-id {
+      opacity: 0.7;
+    }
+  `,
+})
+export class ErrorScreenComponent {
+  /** Handler holding the error shown on the screen. */
+  protected readonly errorHandler: GlobalErrorHandler = inject(GlobalErrorHandler);
+
+  /** Document of the application, used to reload the page. */
+  private readonly document: Document = inject(DOCUMENT);
+
+  /** Description of the failure, for the template. */
+  protected readonly describeCrash = describeCrash;
+
+  /** Reloads the whole application. */
+  protected reload(): void {
+    this.document.defaultView?.location.reload();
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EventDispatch } from '@talent-hub/core/interfaces';
+import { EventMetaData } from '@talent-hub/core/models';
+import { EventBusInspectorService } from '@talent-hub/core/services';
+
+import {
+  describeSubscriber,
+  EventInspectorComponent,
+  filterEvents,
+  formatPayload,
+} from '../../components';
+
+describe('EventInspectorComponent', () => {
+  let fixture: ComponentFixture<EventInspectorComponent>;
+  let mockInspector: {
+    events: ReturnType<typeof signal<EventDispatch[]>>;
+    clear: ReturnType<typeof vi.fn>;
+    replay: ReturnType<typeof vi.fn>;
+  };
+  const updated: EventDispatch = {
+    metadata: new EventMetaData('th:candidate.updated', { id: 'c-1' }),
+    subscribers: [{ id: 1, name: 'Dashboard', pattern: 'th:candidate.*' }],
+  };
+  const failed: EventDispatch = {
+    metadata: new EventMetaData('th:http.error', undefined),
+    subscribers: [],
+  };
+
+  /** Shows the changes of the panel and returns the root element. */
+  function render(): HTMLElement {
+    fixture.detectChanges();
+    return fixture.nativeElement as HTMLElement;
+  }
+
+  /** Clicks the iX button with a label. */
+  function clickButton(label: string): void {
+    const button = Array.from(render().querySelectorAll('ix-button')).find(
+      (candidate: Element): boolean => candidate.textContent?.trim().startsWith(label) ?? false,
+    ) as HTMLElement;
+    button.click();
+  }
+
+  const rows = (): string[] =>
+    Array.from(render().querySelectorAll('.th-event-inspector-row strong')).map(
+      (key: Element): string => key.textContent ?? '',
+    );
+
+  beforeEach(() => {
+    mockInspector = { events: signal([updated, failed]), clear: vi.fn(), replay: vi.fn() };
+    TestBed.configureTestingModule({
+      imports: [EventInspectorComponent],
+      providers: [{ provide: EventBusInspectorService, useValue: mockInspector }],
+    });
+    fixture = TestBed.createComponent(EventInspectorComponent);
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    TestBed.resetTestingModule();
+  });
+
+  it('should show the number of events and open the panel on click', () => {
+    expect(render().querySelector('ix-button')?.textContent?.trim()).toBe('Events (2)');
+    expect(render().querySelector('.th-event-inspector-panel')).toBeNull();
+
+    clickButton('Events');
+
+    expect(rows()).toEqual(['th:candidate.updated', 'th:http.error']);
+  });
+
+  it('should filter the events by key', () => {
+    clickButton('Events');
+    const input = render().querySelector('input') as HTMLInputElement;
+    input.value = 'th:http.*';
+    input.dispatchEvent(new Event('input'));
+
+    expect(rows()).toEqual(['th:http.error']);
+  });
+
+  it('should show the payload and subscribers of a selected event, and replay it', () => {
+    clickButton('Events');
+    (render().querySelector('.th-event-inspector-row') as HTMLElement).click();
+    const details = render().querySelector('.th-event-inspector-details');
+
+    expect(details?.querySelector('pre')?.textContent).toBe(formatPayload({ id: 'c-1' }));
+    expect(details?.textContent).toContain('Dashboard');
+
+    clickButton('Replay');
+    expect(mockInspector.replay).toHaveBeenCalledWith(updated);
+  });
+
+  it('should clear the history', () => {
+    clickButton('Events');
+    clickButton('Clear');
+
+    expect(mockInspector.clear).toHaveBeenCalled();
+  });
+});
+
+describe('filterEvents', () => {
+  const dispatch = (key: string): EventDispatch => ({
+    metadata: new EventMetaData(key, undefined),
+    subscribers: [],
+  });
+  const events: EventDispatch[] = [
+    dispatch('th:candidate.updated'),
+    dispatch('th:http.error'),
+    dispatch('th:http.unknown.error'),
+  ];
+  const keys = (result: EventDispatch[]): string[] => result.map((event) => event.metadata.key);
+
+  it('should keep every event without a filter', () => {
+    expect(filterEvents(events, '  ')).toBe(events);
+  });
+
+  it('should match keys containing the filter, ignoring case', () => {
+    expect(keys(filterEvents(events, 'ERROR'))).toEqual(['th:http.error', 'th:http.unknown.error']);
+  });
+
+  it('should match wildcard patterns against the whole key', () => {
+    expect(keys(filterEvents(events, 'th:http.*'))).toEqual([
+      'th:http.error',
+      'th:http.unknown.error',
+    ]);
+    expect(keys(filterEvents(events, 'candidate.*'))).toEqual([]);
+  });
+});
+
+describe('describeSubscriber', () => {
+  it('should use the subscriber name', () => {
+    expect(describeSubscriber({ id: 1, name: 'Dashboard', pattern: '*' })).toBe('Dashboard');
+  });
+
+  it('should fall back to the number and pattern', () => {
+    expect(describeSubscriber({ id: 4, name: null, pattern: 'th:candidate.*' })).toBe(
+      '#4 (th:candidate.*)',
+    );
+  });
+});
+
+describe('formatPayload', () => {
+  it('should format payloads as indented JSON', () => {
+    expect(formatPayload({ id: 'c-1' })).toBe('{\n  "id": "c-1"\n}');
+  });
+
+  it('should fall back to a string for payloads that are not serializable', () => {
+    const circular: Record<string, unknown> = {};
+    circular['self'] = circular;
+
+    expect(formatPayload(undefined)).toBe('undefined');
+    expect(formatPayload(circular)).toBe('[object Object]');
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  inject,
+  Signal,
+  signal,
+  WritableSignal,
+} from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { IxButton } from '@siemens/ix-angular/standalone';
+
+import { EventDispatch, EventSubscriberInfo } from '@talent-hub/core/interfaces';
+import { EventBusInspectorService } from '@talent-hub/core/services';
+import { EventKeyUtil } from '@talent-hub/core/utils';
+
+/**
+ * Returns the recorded events whose key matches a filter.
+ *
+ * A filter containing `*` is a wildcard pattern matched against the whole key (e.g.,
+ * `th:candidate.*`); any other filter matches keys containing it, ignoring case. An empty
+ * filter keeps every event.
+ *
+ * @param events - The recorded events.
+ * @param filter - Text entered in the filter field.
+ * @returns The matching events, in the same order
+ *
+ * @example
+ * ```typescript
+ * filterEvents(events, 'th:candidate.*'); // events of th:candidate.updated, ...
+ * filterEvents(events, 'error'); // events of th:http.error, th:http.unknown.error, ...
+ * ```
+ *
+ * @publicApi
+ */
+export function filterEvents(events: EventDispatch[], filter: string): EventDispatch[] {
+  const pattern: string = filter.trim();
+  if (!pattern) {
+    return events;
+  }
+  if (pattern.includes('*')) {
+    return events.filter((event: EventDispatch): boolean =>
+      EventKeyUtil.matches(pattern, event.metadata.key),
+    );
+  }
+  const text: string = pattern.toLowerCase();
+  return events.filter((event: EventDispatch): boolean =>
+    event.metadata.key.toLowerCase().includes(text),
+  );
+}
+
+/**
+ * Returns the label of a subscription that received an event.
+ *
+ * @param subscriber - The subscription.
+ * @returns Its name, or its number followed by the pattern it listens to
+ *
+ * @example
+ * ```typescript
+ * describeSubscriber({ id: 3, name: 'NotificationCenterService', pattern: 'th:http.error' });
+ * // 'NotificationCenterService'
+ * describeSubscriber({ id: 4, name: null, pattern: 'th:candidate.*' }); // '#4 (th:candidate.*)'
+ * ```
+ *
+ * @publicApi
+ */
+export function describeSubscriber(subscriber: EventSubscriberInfo): string {
+  return subscriber.name ?? `#${subscriber.id} (${subscriber.pattern})`;
+}
+
+/**
+ * Formats the payload of an event for display.
+ *
+ * @param data - The payload.
+ * @returns Indented JSON, or the payload converted to a string when it is not serializable
+ *
+ * @example
+ * ```typescript
+ * formatPayload({ id: 'c-1' }); // '{\n  "id": "c-1"\n}'
+ * formatPayload(undefined); // 'undefined'
+ * ```
+ *
+ * @publicApi
+ */
+export function formatPayload(data: unknown): string {
+  try {
+    return JSON.stringify(data, null, 2) ?? String(data);
+  } catch {
+    // Circular structures, BigInt, ...
+    return String(data);
+  }
+}
+
+/**
+ * Overlay panel showing the events recorded by `EventBusInspectorService`.
+ *
+ * A button in the bottom-left corner shows the number of recorded events and opens the
+ * panel. The panel lists the events newest first with their time, key, origin tab and
+ * number of subscribers; selecting an event shows its payload and the subscriptions it was
+ * delivered to. Events can be filtered by key, replayed, and the history cleared.
+ *
+ * @remarks
+ * - Development only: render it behind `isDevMode()`. In production builds the service
+ *   records nothing, so the panel would stay empty.
+ * - Replaying publishes the event again in the current tab, reaching every subscriber
+ *   of the host and of the loaded remotes.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <!-- app.component.html (host) -->
+ * @if (isDevMode) {
+ *   <th-event-inspector />
+ * }
+ * ```
+ *
+ * @see {@link EventBusInspectorService} For the recorded events
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'th-event-inspector',
+  imports: [DatePipe, IxButton],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <ix-button class="th-event-inspector-toggle" variant="secondary" (click)="toggle()">
+      Events ({{ inspector.events().length }})
+    </ix-button>
+    @if (isOpen()) {
+      <section class="th-event-inspector-panel" aria-label="Event inspector">
+        <header class="th-event-inspector-header">
+          <input
+            type="search"
+            placeholder="Filter by key, e.g. th:candidate.*"
+            [value]="filter()"
+            (input)="filter.set($any($event.target).value)"
+          />
+          <ix-button variant="tertiary" (click)="inspector.clear()">Clear</ix-button>
+          <ix-button variant="tertiary" (click)="toggle()">Close</ix-button>
+        </header>
+        <ul class="th-event-inspector-list">
+          @for (event of events(); track event.metadata.id) {
+            <li>
+              <button type="button" class="th-event-inspector-row" (click)="select(event)">
+                <time>{{ event.metadata.timestamp | date: 'HH:mm:ss.SSS' }}</time>
+                <strong>{{ event.metadata.key }}</strong>
+                @if (event.metadata.origin) {
+                  <span class="th-event-inspector-muted">other tab</span>
+                }
+                <span class="th-event-inspector-muted">
+                  {{ event.subscribers.length }} subscriber(s)
+                </span>
+              </button>
+              @if (selectedId() === event.metadata.id) {
+                <div class="th-event-inspector-details">
+                  <pre>{{ formatPayload(event.metadata.data) }}</pre>
+                  <ul>
+                    @for (subscriber of event.subscribers; track subscriber.id) {
+                      <li>{{ describeSubscriber(subscriber) }}</li>
+                    } @empty {
+                      <li class="th-event-inspector-muted">No subscribers</li>
+                    }
+                  </ul>
+                  <ix-button variant="secondary" (click)="inspector.replay(event)">
+                    Replay
+                  </ix-button>
+                </div>
+              }
+            </li>
+          } @empty {
+            <li class="th-event-inspector-muted">No events</li>
+          }
+        </ul>
+      </section>
+    }
+  `,
+  styles: `
+    .th-event-inspector-toggle {
+      position: fixed;
+      left: 1rem;
+      bottom: 1rem;
+      z-index: 1001;
+    }
+
+    .th-event-inspector-panel {
+      position: fixed;
+      left: 1rem;
+      bottom: 4rem;
+      z-index: 1001;
+      display: flex;
+      flex-direction: column;
+      width: min(40rem, calc(100vw - 2rem));
+      max-height: 60vh;
+      background: var(--theme-color-1, #fff);
+      border: 1px solid var(--theme-color-soft-bdr, #ccc);
+      border-radius: 0.25rem;
+      box-shadow: 0 0.25rem 1rem rgb(0 0 0 / 20%);
+    }
+
+    .th-event-inspector-header {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.5rem;
+    }
+
+    .th-event-inspector-header input {
+      flex: 1;
+    }
+
+    .th-event-inspector-list {
+      overflow: auto;
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    .th-event-inspector-row {
+      display: flex;
+      gap: 0.5rem;
+      width: 100%;
+      padding: 0.25rem 0.5rem;
+      border: 0;
+      background: none;
+      color: inherit;
+      font: inherit;
+      text-align: left;
+      cursor: pointer;
+    }
+
+    .th-event-inspector-details {
+      padding: 0 0.5rem 0.5rem;
+    }
+
+    .th-event-inspector-details pre {
+      max-height: 12rem;
+      overflow: auto;
+    }
+
+    .th-event-inspector-muted {
+      opacity: 0.7;
+    }
+  `,
+})
+export class EventInspectorComponent {
+  /** Service holding the recorded events. */
+  protected readonly inspector: EventBusInspectorService = inject(EventBusInspectorService);
+
+  /** Whether the panel is open. */
+  protected readonly isOpen: WritableSignal<boolean> = signal(false);
+
+  /** Text of the key filter. */
+  protected readonly filter: WritableSignal<string> = signal('');
+
+  /** Id of the event whose details are shown, or `null`. */
+  protected readonly selectedId: WritableSignal<string | null> = signal(null);
+
+  /** Recorded events matching the filter. */
+  protected readonly events: Signal<EventDispatch[]> = computed((): EventDispatch[] =>
+    filterEvents(this.inspector.events(), this.filter()),
+  );
+
+  /** Label of a subscription, for the template. */
+  protected readonly describeSubscriber = describeSubscriber;
+
+  /** Formatted payload of an event, for the template. */
+  protected readonly formatPayload = formatPayload;
+
+  /** Opens or closes the panel. */
+  protected toggle(): void {
+    this.isOpen.update((isOpen: boolean): boolean => !isOpen);
+  }
+
+  /** Shows or hides the details of an event. */
+  protected select(event: EventDispatch): void {
+    this.selectedId.update((id: string | null): string | null =>
+      id === event.metadata.id ? null : event.metadata.id,
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { IdleService } from '@talent-hub/core/services';
+
+import { formatCountdown, IdleWarningComponent } from '../../components';
+
+describe('IdleWarningComponent', () => {
+  let fixture: ComponentFixture<IdleWarningComponent>;
+  let mockIdle: {
+    isWarning: ReturnType<typeof signal<boolean>>;
+    remainingSeconds: ReturnType<typeof signal<number>>;
+    keepAlive: ReturnType<typeof vi.fn>;
+    signOut: ReturnType<typeof vi.fn>;
+  };
+
+  /** Shows the changes of the idle state and returns the dialog, if shown. */
+  function dialog(): HTMLElement | null {
+    fixture.detectChanges();
+    return (fixture.nativeElement as HTMLElement).querySelector('[role="alertdialog"]');
+  }
+
+  /** Clicks the iX button with a label. */
+  function clickButton(label: string): void {
+    const button = Array.from(dialog()?.querySelectorAll('ix-button') ?? []).find(
+      (candidate: Element): boolean => candidate.textContent?.trim() === label,
+    ) as HTMLElement;
+    button.click();
+  }
+
+  beforeEach(() => {
+    mockIdle = {
+      isWarning: signal(false),
+      remainingSeconds: signal(0),
+      keepAlive: vi.fn(),
+      signOut: vi.fn(),
+    };
+    TestBed.configureTestingModule({
+      imports: [IdleWarningComponent],
+      providers: [{ provide: IdleService, useValue: mockIdle }],
+    });
+    fixture = TestBed.createComponent(IdleWarningComponent);
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    TestBed.resetTestingModule();
+  });
+
+  it('should render nothing while the user is active', () => {
+    expect(dialog()).toBeNull();
+  });
+
+  it('should show the dialog with the countdown in the warning state', () => {
+    mockIdle.isWarning.set(true);
+    mockIdle.remainingSeconds.set(60);
+
+    expect(dialog()?.querySelector('strong')?.textContent).toBe('1:00');
+
+    mockIdle.remainingSeconds.set(45);
+    expect(dialog()?.querySelector('strong')?.textContent).toBe('0:45');
+  });
+
+  it('should hide the dialog when the warning ends', () => {
+    mockIdle.isWarning.set(true);
+    expect(dialog()).not.toBeNull();
+
+    mockIdle.isWarning.set(false);
+    expect(dialog()).toBeNull();
+  });
+
+  it('should keep the session alive on "Stay signed in"', () => {
+    mockIdle.isWarning.set(true);
+    clickButton('Stay signed in');
+
+    expect(mockIdle.keepAlive).toHaveBeenCalledTimes(1);
+    expect(mockIdle.signOut).not.toHaveBeenCalled();
+  });
+
+  it('should sign the user out on "Sign out"', () => {
+    mockIdle.isWarning.set(true);
+    clickButton('Sign out');
+
+    expect(mockIdle.signOut).toHaveBeenCalledTimes(1);
+    expect(mockIdle.keepAlive).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatCountdown', () => {
+  it('should format minutes and seconds', () => {
+    expect(formatCountdown(65)).toBe('1:05');
+  });
+
+  it('should format less than a minute', () => {
+    expect(formatCountdown(9)).toBe('0:09');
+  });
+
+  it('should not go below zero', () => {
+    expect(formatCountdown(-1)).toBe('0:00');
+  });
+
+  it('should drop fractions of a second', () => {
+    expect(formatCountdown(120.7)).toBe('2:00');
+  });
+});
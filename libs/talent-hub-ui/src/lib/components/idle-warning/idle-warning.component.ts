@@ -0,0 +1,126 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { IxButton } from '@siemens/ix-angular/standalone';
+
+import { IdleService } from '@talent-hub/core/services';
+
+/**
+ * Formats the seconds left before the user is signed out as minutes and seconds.
+ *
+ * @param seconds - Seconds left of the countdown.
+ * @returns The countdown as `m:ss`
+ *
+ * @example
+ * ```typescript
+ * formatCountdown(65); // '1:05'
+ * formatCountdown(9); // '0:09'
+ * ```
+ *
+ * @publicApi
+ */
+export function formatCountdown(seconds: number): string {
+  const total: number = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Shows the countdown of `IdleService` before an inactive user is signed out.
+ *
+ * Place it once in the root component of the host. The warning is shown while
+ * `IdleService.isWarning` is set and counts down `IdleService.remainingSeconds`.
+ *
+ * @remarks
+ * - "Stay signed in" calls `IdleService.keepAlive()`, which dismisses the warning in every tab.
+ * - "Sign out" calls `IdleService.signOut()`, which ends the session right away.
+ * - Any other activity (mouse, keyboard, touch, scrolling) dismisses it as well.
+ * - When the countdown ends, `IdleService` signs the user out and the warning disappears.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <!-- app.component.html (host) -->
+ * <th-idle-warning />
+ * ```
+ *
+ * @see {@link IdleService} For the idle timeout
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'th-idle-warning',
+  imports: [IxButton],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    @if (idle.isWarning()) {
+      <div class="th-idle-warning-backdrop">
+        <div
+          class="th-idle-warning"
+          role="alertdialog"
+          aria-modal="true"
+          aria-labelledby="th-idle-warning-title"
+          aria-describedby="th-idle-warning-message"
+        >
+          <h2 id="th-idle-warning-title" class="th-idle-warning-title">Are you still there?</h2>
+          <p id="th-idle-warning-message">
+            You will be signed out in
+            <strong aria-live="polite">{{ formatCountdown(idle.remainingSeconds()) }}</strong>
+            because of inactivity.
+          </p>
+          <div class="th-idle-warning-actions">
+            <ix-button variant="secondary" (click)="idle.signOut()">Sign out</ix-button>
+            <ix-button (click)="idle.keepAlive()">Stay signed in</ix-button>
+          </div>
+        </div>
+      </div>
+    }
+  `,
+  styles: `
+    .th-idle-warning-backdrop {
+      position: fixed;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0, 0, 0, 0.4);
+      z-index: 1002;
+    }
+
+    .th-idle-warning {
+      display: flex;
+      flex-direction: column;
+      gap: 1rem;
+      max-width: 24rem;
+      padding: 1.5rem;
+      border-radius: 0.25rem;
+      background: var(--theme-color-1, #fff);
+      box-shadow: 0 0.5rem 1.5rem rgba(0, 0, 0, 0.3);
+    }
+
+    .th-idle-warning-title {
+      margin: 0;
+      font-size: 1.25rem;
+    }
+
+    .th-idle-warning-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 0.5rem;
+    }
+  `,
+})
+export class IdleWarningComponent {
+  /** Service holding the countdown shown in the warning. */
+  protected readonly idle: IdleService = inject(IdleService);
+
+  /** Formatting of the countdown, for the template. */
+  protected readonly formatCountdown = formatCountdown;
+}
@@ -18,11 +18,20 @@
  * Import custom components from this module:
  *
  * ```typescript
- * import { CandidateCard, StatusBadge } from '@talent-hub/ui/components';
+ * import { NotificationCenterComponent } from '@talent-hub/ui/components';
  * // or
- * import { CandidateCard, StatusBadge } from '@talent-hub/ui';
+ * import { NotificationCenterComponent } from '@talent-hub/ui';
  * ```
  *
+ * ## Available Components
+ *
+ * | Component | Selector | Description |
+ * |-----------|----------|-------------|
+ * | `ErrorScreenComponent` | `th-error-screen` | Recoverable error screen of `GlobalErrorHandler` |
+ * | `EventInspectorComponent` | `th-event-inspector` | Dev-only overlay of the events recorded by `EventBusInspectorService` |
+| `IdleWarningComponent` | `th-idle-warning` | Countdown of `IdleService` before an inactive user is signed out |
+ * | `NotificationCenterComponent` | `th-notification-center` | Toasts and banners of `NotificationCenterService` |
+ *
  * @module components
  * @publicApi
  */
@@ -31,11 +40,14 @@
 // CUSTOM TALENT HUB COMPONENTS
 // =============================================================================
 
-// TODO: Add custom Talent Hub components here as they are created
-// Example:
-// export * from './candidate-card/candidate-card.component';
-// export * from './status-badge/status-badge.component';
+/** Recoverable error screen shown for uncaught errors (Siemens iX) */
+export * from './error-screen/error-screen.component';
+
+/** Dev-only event bus inspector overlay (Siemens iX) */
+export * from './event-inspector/event-inspector.component';
+
+/** Countdown warning shown before an inactive user is signed out (Siemens iX) */
+export * from './idle-warning/idle-warning.component';
 
-// Placeholder export to make this a valid module
-// Remove this line once real components are added
-export {};
+/** Notification toasts and banners of NotificationCenterService (Siemens iX) */
+export * from './notification-center/notification-center.component';
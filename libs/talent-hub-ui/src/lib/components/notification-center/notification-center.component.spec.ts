@@ -0,0 +1,131 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AppNotification } from '@talent-hub/core/interfaces';
+import { NotificationCenterService } from '@talent-hub/core/services';
+
+import {
+  isBannerNotification,
+  NotificationCenterComponent,
+  toMessageBarType,
+} from '../../components';
+
+describe('NotificationCenterComponent', () => {
+  let fixture: ComponentFixture<NotificationCenterComponent>;
+  let notificationCenter: NotificationCenterService;
+
+  /** Shows the changes of the notifications and returns the root element. */
+  function render(): HTMLElement {
+    fixture.detectChanges();
+    return fixture.nativeElement as HTMLElement;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({ imports: [NotificationCenterComponent] });
+    notificationCenter = TestBed.inject(NotificationCenterService);
+    fixture = TestBed.createComponent(NotificationCenterComponent);
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    TestBed.resetTestingModule();
+    vi.useRealTimers();
+  });
+
+  it('should show notifications that stay as banners and the others as toasts', () => {
+    notificationCenter.error('Save failed', { title: 'Error', duration: 0 });
+    notificationCenter.success('Saved', { duration: 5_000 });
+    const element = render();
+
+    const banner = element.querySelector('ix-message-bar');
+    const toast = element.querySelector('ix-toast');
+    expect(element.querySelectorAll('ix-message-bar')).toHaveLength(1);
+    expect((banner as HTMLElement & { type: string }).type).toBe('alarm');
+    expect(banner?.textContent).toContain('Error');
+    expect(banner?.textContent).toContain('Save failed');
+    expect(element.querySelectorAll('ix-toast')).toHaveLength(1);
+    expect(toast?.textContent).toContain('Saved');
+  });
+
+  it('should show the number of repeats', () => {
+    notificationCenter.error('Save failed', { duration: 0 });
+    notificationCenter.error('Save failed', { duration: 0 });
+
+    expect(render().querySelector('.th-notification-count')?.textContent).toBe('(2)');
+  });
+
+  it('should dismiss a banner when it is closed', () => {
+    notificationCenter.error('Save failed', { duration: 0 });
+    render().querySelector('ix-message-bar')?.dispatchEvent(new CustomEvent('closedChange'));
+
+    expect(notificationCenter.notifications()).toEqual([]);
+    expect(render().querySelector('ix-message-bar')).toBeNull();
+  });
+
+  it('should dismiss a toast when it is closed', () => {
+    notificationCenter.info('Imported', { duration: 5_000 });
+    render().querySelector('ix-toast')?.dispatchEvent(new CustomEvent('closeToast'));
+
+    expect(notificationCenter.notifications()).toEqual([]);
+    expect(render().querySelector('ix-toast')).toBeNull();
+  });
+
+  it('should run an action and dismiss the notification when its button is clicked', () => {
+    const handler = vi.fn();
+    notificationCenter.error('Upload failed', {
+      duration: 0,
+      actions: [{ label: 'Retry', handler }],
+    });
+    const button = render().querySelector('ix-button') as HTMLElement;
+    expect(button.textContent?.trim()).toBe('Retry');
+
+    button.click();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(render().querySelector('ix-message-bar')).toBeNull();
+  });
+
+  it('should remove a toast once its duration has elapsed', () => {
+    notificationCenter.success('Saved', { duration: 5_000 });
+    expect(render().querySelector('ix-toast')).not.toBeNull();
+
+    vi.advanceTimersByTime(5_000);
+
+    expect(render().querySelector('ix-toast')).toBeNull();
+  });
+});
+
+describe('isBannerNotification', () => {
+  const notification = { severity: 'error', message: 'Failed' } as AppNotification;
+
+  it('should show notifications that stay until dismissed as banners', () => {
+    expect(isBannerNotification({ ...notification, duration: 0 })).toBe(true);
+  });
+
+  it('should show notifications that close themselves as toasts', () => {
+    expect(isBannerNotification({ ...notification, duration: 5_000 })).toBe(false);
+  });
+});
+
+describe('toMessageBarType', () => {
+  it('should show errors as alarms', () => {
+    expect(toMessageBarType('error')).toBe('alarm');
+  });
+
+  it('should keep the other severities', () => {
+    expect(toMessageBarType('info')).toBe('info');
+    expect(toMessageBarType('success')).toBe('success');
+    expect(toMessageBarType('warning')).toBe('warning');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { ChangeDetectionStrategy, Component, computed, inject, Signal } from '@angular/core';
+import { IxButton, IxMessageBar, IxToast } from '@siemens/ix-angular/standalone';
+
+import { AppNotification } from '@talent-hub/core/interfaces';
+import { NotificationCenterService } from '@talent-hub/core/services';
+import { NotificationSeverity } from '@talent-hub/core/types';
+
+/**
+ * Returns whether a notification is shown as a banner instead of a toast.
+ *
+ * Notifications that stay until dismissed (`duration` of `0`, e.g., errors by default) are
+ * shown as banners at the top of the page; the others as toasts that close themselves.
+ *
+ * @param notification - The notification to show.
+ * @returns `true` for a banner, `false` for a toast
+ *
+ * @example
+ * ```typescript
+ * isBannerNotification({ ...notification, duration: 0 }); // true
+ * isBannerNotification({ ...notification, duration: 5000 }); // false
+ * ```
+ *
+ * @publicApi
+ */
+export function isBannerNotification(notification: AppNotification): boolean {
+  return notification.duration <= 0;
+}
+
+/**
+ * Returns the Siemens iX message bar type of a notification severity.
+ *
+ * @param severity - Severity of the notification.
+ * @returns The `type` of the `ix-message-bar`
+ *
+ * @example
+ * ```typescript
+ * toMessageBarType('error'); // 'alarm'
+ * ```
+ *
+ * @publicApi
+ */
+export function toMessageBarType(
+  severity: NotificationSeverity,
+): 'alarm' | 'warning' | 'success' | 'info' {
+  return severity === 'error' ? 'alarm' : severity;
+}
+
+/**
+ * Shows the notifications of `NotificationCenterService` with Siemens iX components.
+ *
+ * Place it once in the root component of the host. Notifications that close themselves are
+ * shown as toasts in the bottom-right corner; notifications that stay until dismissed are
+ * shown as banners at the top of the page. Both show the title, the message, the number of
+ * repeats and the action buttons of the notification.
+ *
+ * @remarks
+ * - The component only renders; `NotificationCenterService` decides what is shown and
+ *   for how long, so the toasts do not close themselves (`preventAutoClose`).
+ * - Clicking an action runs it and dismisses the notification.
+ * - Remotes do not use the component; they raise notifications through the event bus.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <!-- app.component.html (host) -->
+ * <th-notification-center />
+ * <router-outlet />
+ * ```
+ *
+ * @see {@link NotificationCenterService} For raising and dismissing notifications
+ *
+ * @publicApi
+ */
+@Component({
+  selector: 'th-notification-center',
+  imports: [IxButton, IxMessageBar, IxToast],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="th-notification-banners">
+      @for (notification of banners(); track notification.id) {
+        <ix-message-bar
+          [type]="messageBarType(notification.severity)"
+          (closedChange)="notificationCenter.dismiss(notification.id)"
+        >
+          <div class="th-notification-content">
+            @if (notification.title) {
+              <strong>{{ notification.title }}</strong>
+            }
+            <span>{{ notification.message }}</span>
+            @if (notification.count > 1) {
+              <span class="th-notification-count">({{ notification.count }})</span>
+            }
+            @for (action of notification.actions; track $index) {
+              <ix-button
+                variant="secondary"
+                (click)="notificationCenter.runAction(notification.id, $index)"
+              >
+                {{ action.label }}
+              </ix-button>
+            }
+          </div>
+        </ix-message-bar>
+      }
+    </div>
+    <div class="th-notification-toasts">
+      @for (notification of toasts(); track notification.id) {
+        <ix-toast
+          [type]="notification.severity"
+          [toastTitle]="notification.title ?? undefined"
+          [preventAutoClose]="true"
+          (closeToast)="notificationCenter.dismiss(notification.id)"
+        >
+          <span>{{ notification.message }}</span>
+          @if (notification.count > 1) {
+            <span class="th-notification-count">({{ notification.count }})</span>
+          }
+          @for (action of notification.actions; track $index) {
+            <ix-button
+              variant="tertiary"
+              (click)="notificationCenter.runAction(notification.id, $index)"
+            >
+              {{ action.label }}
+            </ix-button>
+          }
+        </ix-toast>
+      }
+    </div>
+  `,
+  styles: `
+    .th-notification-banners {
+      position: fixed;
+      inset: 0 0 auto 0;
+      z-index: 1000;
+    }
+
+    .th-notification-toasts {
+      position: fixed;
+      right: 1rem;
+      bottom: 1rem;
+      z-index: 1000;
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+    }
+
+    .th-notification-content {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .th-notification-count {
+      opacity: 0.7;
+    }
+  `,
+})
+export class NotificationCenterComponent {
+  /** Service holding the notifications on screen. */
+  protected readonly notificationCenter: NotificationCenterService =
+    inject(NotificationCenterService);
+
+  /** Notifications shown as banners at the top of the page. */
+  protected readonly banners: Signal<AppNotification[]> = computed((): AppNotification[] =>
+    this.notificationCenter.notifications().filter(isBannerNotification),
+  );
+
+  /** Notifications shown as toasts in the bottom-right corner. */
+  protected readonly toasts: Signal<AppNotification[]> = computed((): AppNotification[] =>
+    this.notificationCenter
+      .notifications()
+      .filter((notification: AppNotification): boolean => !isBannerNotification(notification)),
+  );
+
+  /** Message bar type of a severity, for the template. */
+  protected readonly messageBarType = toMessageBarType;
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { checkFeatures, HasFeatureDirective } from '../directives';
+
+describe('HasFeatureDirective', () => {
+  it('should be defined', () => {
+    expect(HasFeatureDirective).toBeDefined();
+  });
+});
+
+describe('checkFeatures', () => {
+  let isEnabledMock: ReturnType<typeof vi.fn<(feature: string) => boolean>>;
+
+  beforeEach(() => {
+    isEnabledMock = vi.fn<(feature: string) => boolean>((feature) => feature === 'aiScreening');
+  });
+
+  it('should check a single flag', () => {
+    expect(checkFeatures('aiScreening', false, isEnabledMock)).toBe(true);
+    expect(checkFeatures('bulkImport', false, isEnabledMock)).toBe(false);
+  });
+
+  it('should require any flag with OR logic', () => {
+    expect(checkFeatures(['bulkImport', 'aiScreening'], false, isEnabledMock)).toBe(true);
+    expect(checkFeatures(['bulkImport', 'pipelineV2'], false, isEnabledMock)).toBe(false);
+  });
+
+  it('should require every flag with AND logic', () => {
+    expect(checkFeatures(['bulkImport', 'aiScreening'], true, isEnabledMock)).toBe(false);
+    isEnabledMock.mockReturnValue(true);
+    expect(checkFeatures(['bulkImport', 'aiScreening'], true, isEnabledMock)).toBe(true);
+  });
+
+  it('should hide the content when no flag is given', () => {
+    expect(checkFeatures('', false, isEnabledMock)).toBe(false);
+    expect(checkFeatures([], true, isEnabledMock)).toBe(false);
+    expect(checkFeatures(null as unknown as string, false, isEnabledMock)).toBe(false);
+    expect(isEnabledMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) 2026 Talent Hub. All rights reserved.
+ * This file is proprietary and confidential. Unauthorized copying,
+ * modification, distribution, or use of this file, via any medium, is
+ * strictly prohibited without prior written consent from Talent Hub.
+ *
+ * @author Talent Hub Team
+ * @version 1.0.0
+ */
+
+import {
+  Directive,
+  effect,
+  inject,
+  input,
+  InputSignal,
+  TemplateRef,
+  ViewContainerRef,
+} from '@angular/core';
+
+import { FeatureFlagService } from '@talent-hub/core/services';
+
+/**
+ * Checks if the required feature flag(s) are enabled based on the provided checker function.
+ *
+ * This is a pure utility function that can be used independently of the directive.
+ * It supports both single flag keys and arrays of keys with configurable AND/OR logic.
+ *
+ * @param features - Single flag key or array of flag keys to check
+ * @param requireAll - If true, all flags must be enabled (AND); if false, any flag (OR)
+ * @param isEnabled - Function that checks if a specific flag is enabled
+ * @returns True if the flag check passes, false otherwise
+ *
+ * @example
+ * ```typescript
+ * // Single flag
+ * checkFeatures('aiScreening', false, (key) => flags[key]);
+ *
+ * // Multiple flags with AND logic
+ * checkFeatures(['aiScreening', 'bulkImport'], true, (key) => featureFlags.isEnabled(key));
+ * ```
+ *
+ * @publicApi
+ */
+export function checkFeatures(
+  features: string | string[],
+  requireAll: boolean,
+  isEnabled: (feature: string) => boolean,
+): boolean {
+  if (typeof features === 'string') {
+    // Empty string means no flag was specified - hide the content for safety
+    return features !== '' && isEnabled(features);
+  }
+
+  if (Array.isArray(features) && features.length > 0) {
+    return requireAll
+      ? features.every((feature: string): boolean => isEnabled(feature))
+      : features.some((feature: string): boolean => isEnabled(feature));
+  }
+
+  // Empty array or invalid input - hide the content by default
+  return false;
+}
+
+/**
+ * Structural directive that conditionally renders content based on feature flags.
+ *
+ * This directive checks the flag(s) with `FeatureFlagService` and renders or hides the
+ * associated template. Flags are signals, so the content appears or disappears as soon as
+ * the flags are loaded again, or re-evaluated after a tenant switch or sign-in.
+ *
+ * @remarks
+ * - Uses Angular's structural directive pattern (`*thHasFeature`)
+ * - Reactive to flag changes via Angular signals
+ * - Supports both single flag and array of flags
+ * - Configurable AND/OR logic for multiple flags
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <!-- Show only if the 'aiScreening' flag is on -->
+ * <app-ai-screening *thHasFeature="'aiScreening'" />
+ *
+ * <!-- Show if either flag is on -->
+ * <a *thHasFeature="['pipelineV2', 'pipelineBeta']" routerLink="/pipeline">Pipeline</a>
+ *
+ * <!-- Show only if both flags are on -->
+ * <button *thHasFeature="['bulkImport', 'aiScreening']; requireAll: true">Screen imported</button>
+ * ```
+ *
+ * @see {@link checkFeatures} For the underlying flag check logic
+ * @see {@link FeatureFlagService} For loading and evaluating the flags
+ *
+ * @publicApi
+ */
+/* v8 ignore start - Directive class requires Angular TestBed for testing */
+@Directive({
+  selector: '[thHasFeature]',
+})
+export class HasFeatureDirective {
+  /**
+   * The feature flag key or array of keys to check.
+   *
+   * If no key is provided, content will not be rendered.
+   */
+  readonly thHasFeature: InputSignal<string | string[]> = input<string | string[]>('');
+
+  /**
+   * Determines the matching logic when multiple flags are provided.
+   *
+   * - `false` (default): OR logic - at least one flag must be on
+   * - `true`: AND logic - every flag must be on
+   *
+   * @default false
+   */
+  readonly thHasFeatureRequireAll: InputSignal<boolean> = input<boolean>(false);
+
+  /** Template reference for the content to conditionally render. */
+  private readonly templateRef: TemplateRef<unknown> = inject(TemplateRef<unknown>);
+
+  /** View container for creating/clearing the embedded view. */
+  private readonly viewContainer: ViewContainerRef = inject(ViewContainerRef);
+
+  /** Feature flag service providing the reactive flags. */
+  private readonly featureFlags: FeatureFlagService = inject(FeatureFlagService);
+
+  /** Tracks whether the view is currently rendered to prevent duplicate creation. */
+  private hasView = false;
+
+  constructor() {
+    // Re-runs when the inputs change or the flags read through isEnabled() change
+    effect((): void => {
+      const isOn: boolean = checkFeatures(
+        this.thHasFeature(),
+        this.thHasFeatureRequireAll(),
+        (feature: string): boolean => this.featureFlags.isEnabled(feature),
+      );
+
+      if (isOn && !this.hasView) {
+        this.viewContainer.createEmbeddedView(this.templateRef);
+        this.hasView = true;
+      } else if (!isOn && this.hasView) {
+        this.viewContainer.clear();
+        this.hasView = false;
+      }
+    });
+  }
+}
+/* v8 ignore end */
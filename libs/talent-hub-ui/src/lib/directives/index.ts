@@ -51,6 +51,7 @@
  * | `AlphaOnlyDirective`     | `input[thAlphaOnly]`    | Restrict input to alphabetic characters   |
  * | `CopyToClipboardDirective`| `[thCopyToClipboard]`  | Copy text to clipboard on click           |
  * | `DragDropDirective`      | `[thDragDrop]`          | Enable HTML5 drag and drop                |
+ * | `HasFeatureDirective`    | `*thHasFeature`         | Conditionally render by feature flag      |
  * | `HasPermissionDirective` | `*thHasPermission`      | Conditionally render by permission        |
  * | `HasRoleDirective`       | `*thHasRole`            | Conditionally render by role              |
  * | `NumericOnlyDirective`   | `input[thNumericOnly]`  | Restrict input to numeric characters      |
@@ -60,12 +61,13 @@
  *
  * | Function           | Purpose                                          |
  * |--------------------|--------------------------------------------------|
+ * | `checkFeatures`    | Check if required feature flag(s) are enabled    |
  * | `checkPermissions` | Check if user has required permission(s)         |
  * | `checkRoles`       | Check if user has required role(s)               |
  *
  * ### Directive Categories
  *
- * - **Authorization**: `HasPermissionDirective`, `HasRoleDirective`
+ * - **Authorization**: `HasFeatureDirective`, `HasPermissionDirective`, `HasRoleDirective`
  * - **Input Validation**: `AlphaOnlyDirective`, `NumericOnlyDirective`, `TrimInputDirective`
  * - **UI/UX Utilities**: `CopyToClipboardDirective`, `DragDropDirective`
  *
@@ -76,6 +78,9 @@
 // Authorization Directives
 // ============================================================================
 
+/** Conditionally renders content based on feature flags */
+export * from './has-feature.directive';
+
 /** Conditionally renders content based on user permissions */
 export * from './has-permission.directive';
 
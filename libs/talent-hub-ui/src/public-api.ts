@@ -47,8 +47,8 @@
  * // Custom pipes from @talent-hub/ui
  * import { TimeAgoPipe, FileSizePipe } from '@talent-hub/ui/pipes';
  *
- * // Custom components from @talent-hub/ui (when available)
- * import { CandidateCard, StatusBadge } from '@talent-hub/ui/components';
+ * // Custom components from @talent-hub/ui
+ * import { NotificationCenterComponent } from '@talent-hub/ui/components';
  *
  * // Or import directives/pipes from main entry point
  * import { AlphaOnlyDirective, TimeAgoPipe } from '@talent-hub/ui';
@@ -61,6 +61,11 @@
 /**
  * Re-exports custom Talent Hub UI components.
  *
+ * Available components:
+ * - `ErrorScreenComponent` - Shows the error screen of `GlobalErrorHandler`
+ * - `EventInspectorComponent` - Shows the events recorded by `EventBusInspectorService` (dev only)
+ * - `NotificationCenterComponent` - Shows the notifications of `NotificationCenterService`
+ *
  * For Siemens iX components, import directly from `@siemens/ix-angular`.
  *
  * @see {@link ./lib/components} for available components
@@ -77,6 +82,7 @@ export * from './lib/components';
  * - `CopyToClipboardDirective` - Enables copy-to-clipboard functionality
  * - `DragDropDirective` - Adds drag and drop capabilities
  * - `HasRoleDirective` - Conditionally renders content based on user roles
+ * - `HasFeatureDirective` - Conditionally renders content based on feature flags
  * - `HasPermissionDirective` - Conditionally renders content based on permissions
  *
  * @see {@link ./lib/directives} for directive implementations
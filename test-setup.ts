@@ -19,3 +19,25 @@ import '@angular/compiler';
 // Import zone.js for Angular testing
 import 'zone.js';
 import 'zone.js/testing';
+
+// jsdom has no constructable stylesheets on documents and shadow roots; the Stencil runtime
+// of the iX web components reads and appends to `adoptedStyleSheets` of both
+if (typeof Document !== 'undefined') {
+  const adoptedStyleSheets = new WeakMap<object, CSSStyleSheet[]>();
+  for (const prototype of [Document.prototype, ShadowRoot.prototype]) {
+    if (!('adoptedStyleSheets' in prototype)) {
+      Object.defineProperty(prototype, 'adoptedStyleSheets', {
+        configurable: true,
+        get(this: object): CSSStyleSheet[] {
+          if (!adoptedStyleSheets.has(this)) {
+            adoptedStyleSheets.set(this, []);
+          }
+          return adoptedStyleSheets.get(this) as CSSStyleSheet[];
+        },
+        set(this: object, sheets: CSSStyleSheet[]): void {
+          adoptedStyleSheets.set(this, sheets);
+        },
+      });
+    }
+  }
+}